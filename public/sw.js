@@ -1,19 +1,84 @@
 // ============================================
-// AInay Service Worker for Push Notifications
+// AInay Service Worker for Push Notifications and Offline Use
 // ============================================
 
-const CACHE_NAME = 'ainay-cache-v1';
+const CACHE_NAME = 'ainay-cache-v2';
+
+// App shell and the drug/interaction datasets, cached on install so the app
+// opens and checks interactions without a connection
+const PRECACHE_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.json',
+  '/icon.ico',
+  '/logo.png',
+  '/cleaned_drug_database.csv',
+  '/cleaned_interactions.json',
+  '/Drug to Food interactions Dataset.json',
+];
 
 // Install event
 self.addEventListener('install', (event) => {
   console.log('[ServiceWorker] Install');
-  self.skipWaiting();
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .catch((error) => console.error('[ServiceWorker] Precache failed:', error))
+      .then(() => self.skipWaiting())
+  );
 });
 
-// Activate event
+// Activate event - drop caches from older versions
 self.addEventListener('activate', (event) => {
   console.log('[ServiceWorker] Activate');
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Fetch event - only same-origin GETs; Supabase and API calls go straight
+// to the network (the app keeps its own offline copy of the regimen)
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/api/')) return;
+  // Vite dev server modules change on every edit
+  if (/^\/(@|src\/|node_modules\/)/.test(url.pathname)) return;
+
+  // Pages: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets, images and datasets: cached copy first, refreshed in the background
+  event.respondWith(
+    caches.open(CACHE_NAME).then((cache) =>
+      cache.match(request).then((cached) => {
+        const network = fetch(request)
+          .then((response) => {
+            if (response.ok) cache.put(request, response.clone());
+            return response;
+          })
+          .catch(() => cached);
+        return cached || network;
+      })
+    )
+  );
 });
 
 // Push event - handle incoming push notifications
@@ -45,14 +110,29 @@ self.addEventListener('push', (event) => {
     data: data.data || {},
     actions: data.actions || [],
     requireInteraction: data.requireInteraction || false,
+    renotify: data.renotify || false,
     vibrate: [200, 100, 200],
   };
   
   event.waitUntil(
-    self.registration.showNotification(data.title, options)
+    (options.data.type === 'dose_alarm' ? withoutRepeatRing(options) : Promise.resolve(options))
+      .then((finalOptions) => self.registration.showNotification(data.title, finalOptions))
   );
 });
 
+// A dose alarm the open page already rang (same tag, same snooze) is
+// replaced quietly instead of ringing a second time
+function withoutRepeatRing(options) {
+  return self.registration.getNotifications({ tag: options.tag })
+    .then((existing) => {
+      const alreadyRang = existing.some(
+        (notification) => (notification.data?.snoozeCount ?? 0) === (options.data.snoozeCount ?? 0)
+      );
+      return alreadyRang ? { ...options, renotify: false, silent: true } : options;
+    })
+    .catch(() => options);
+}
+
 // Notification click event
 self.addEventListener('notificationclick', (event) => {
   console.log('[ServiceWorker] Notification click:', event.action);
@@ -66,6 +146,20 @@ self.addEventListener('notificationclick', (event) => {
   if (action === 'dismiss') {
     return;
   }
+
+  // Dose alarm and missed-dose actions are recorded without opening the app
+  if ((action === 'taken' || action === 'snooze' || action === 'acknowledge') && data.actionUrl) {
+    const body = action === 'acknowledge'
+      ? { token: data.actionToken }
+      : { token: data.actionToken, action };
+    event.waitUntil(sendNotificationAction(data, body, event.notification.tag));
+    return;
+  }
+
+  if (action === 'call' && data.patientPhone) {
+    event.waitUntil(self.clients.openWindow(`tel:${data.patientPhone.replace(/[^\d+]/g, '')}`));
+    return;
+  }
   
   // Default action or 'view' action - open the app
   let url = '/companion';
@@ -94,6 +188,44 @@ self.addEventListener('notificationclick', (event) => {
   );
 });
 
+// Post a notification action to the server, then briefly confirm it in place
+// of the original notification (or say it failed, and tap to open the app)
+function sendNotificationAction(data, body, tag) {
+  return fetch(data.actionUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+    .then((response) => response.json().then((result) => {
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Something went wrong');
+      }
+      return result;
+    }))
+    .then((result) =>
+      self.registration.showNotification(result.message || 'Done', {
+        icon: '/icon.ico',
+        badge: '/icon.ico',
+        tag,
+        silent: true,
+        data: { url: data.url },
+      })
+        .then(() => new Promise((resolve) => setTimeout(resolve, 4000)))
+        .then(() => self.registration.getNotifications({ tag }))
+        // Leave alone an alarm that rang again meanwhile (it carries a type)
+        .then((shown) => shown.filter((n) => !n.data?.type).forEach((n) => n.close()))
+    )
+    .catch((error) =>
+      self.registration.showNotification("Couldn't update AInay", {
+        body: `${error.message}. Tap to open the app.`,
+        icon: '/icon.ico',
+        badge: '/icon.ico',
+        tag,
+        data: { url: data.url },
+      })
+    );
+}
+
 // Handle notification close
 self.addEventListener('notificationclose', (event) => {
   console.log('[ServiceWorker] Notification closed');
@@ -46,12 +46,29 @@ import {
   autoExpireAllMedications,
   getAllExpiringMedications,
   getLinkedCompanionsForPatients,
+  closeOutEndedDoseDays,
+  getCalendarFeedByToken,
 } from "./services/supabase.js";
+import { buildScheduleCalendar } from "./services/calendarFeed.js";
+import { DEFAULT_TIME_ZONE } from "./services/timeZones.js";
 import { sendEmail, sendMissedMedicationEmail } from "./services/email.js";
 import {
   checkAndSendPatientReminders,
   getPatientReminderStatus,
 } from "./services/patientReminders.js";
+import {
+  checkAndSendLowStockReminders,
+  getRefillReminderStatus,
+} from "./services/refillReminders.js";
+import {
+  checkAndSendDoseAlarms,
+  getDoseAlarmStatus,
+} from "./services/doseAlarms.js";
+import {
+  applyDoseAction,
+  acknowledgeMissedDose,
+  getDoseActionStatus,
+} from "./services/doseActions.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -811,6 +828,78 @@ app.post("/api/reminders/check", notificationLimiter, async (req, res) => {
   }
 });
 
+/**
+ * Get low-stock refill reminder service status
+ * GET /api/reminders/refills/status
+ */
+app.get("/api/reminders/refills/status", (req, res) => {
+  res.json({
+    refills: getRefillReminderStatus(),
+  });
+});
+
+/**
+ * Manually trigger low-stock refill reminder check
+ * POST /api/reminders/refills/check
+ */
+app.post(
+  "/api/reminders/refills/check",
+  notificationLimiter,
+  async (req, res) => {
+    console.log("[API] Manual low-stock reminder check triggered");
+
+    try {
+      const results = await checkAndSendLowStockReminders();
+      res.json({
+        success: true,
+        ...results,
+      });
+    } catch (error) {
+      console.error("[API] Low-stock reminder check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * Get background dose alarm service status
+ * GET /api/reminders/alarms/status
+ */
+app.get("/api/reminders/alarms/status", (req, res) => {
+  res.json({
+    alarms: getDoseAlarmStatus(),
+  });
+});
+
+/**
+ * Manually trigger background dose alarm check
+ * POST /api/reminders/alarms/check
+ */
+app.post(
+  "/api/reminders/alarms/check",
+  notificationLimiter,
+  async (req, res) => {
+    console.log("[API] Manual dose alarm check triggered");
+
+    try {
+      const results = await checkAndSendDoseAlarms();
+      res.json({
+        success: true,
+        ...results,
+      });
+    } catch (error) {
+      console.error("[API] Dose alarm check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
 // ============================================
 // Push Notification Endpoints
 // ============================================
@@ -973,6 +1062,78 @@ app.post(
   }
 );
 
+// ============================================
+// Dose Action Endpoints
+// ============================================
+// Called by the service worker when a notification action is tapped.
+// There is no session; the signed token in the notification identifies
+// the one dose instance it may act on.
+
+const doseActionSchema = z.object({
+  token: z.string().min(1, "token is required"),
+  action: z.enum(["taken", "snooze"]),
+});
+
+const doseAcknowledgeSchema = z.object({
+  token: z.string().min(1, "token is required"),
+});
+
+/**
+ * Get dose action status
+ * GET /api/dose-actions/status
+ */
+app.get("/api/dose-actions/status", (req, res) => {
+  res.json({
+    actions: getDoseActionStatus(),
+  });
+});
+
+/**
+ * Mark a dose taken or snooze it from a dose alarm
+ * POST /api/dose-actions
+ * Body: { token, action: "taken" | "snooze" }
+ */
+app.post(
+  "/api/dose-actions",
+  notificationLimiter,
+  validateBody(doseActionSchema),
+  async (req, res) => {
+    try {
+      const { status = 200, ...result } = await applyDoseAction(req.body.token, req.body.action);
+      res.status(status).json(result);
+    } catch (error) {
+      console.error("[DoseActions] Action failed:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * Acknowledge a missed-dose alert (stops escalation to this companion)
+ * POST /api/dose-actions/acknowledge
+ * Body: { token }
+ */
+app.post(
+  "/api/dose-actions/acknowledge",
+  notificationLimiter,
+  validateBody(doseAcknowledgeSchema),
+  async (req, res) => {
+    try {
+      const { status = 200, ...result } = await acknowledgeMissedDose(req.body.token);
+      res.status(status).json(result);
+    } catch (error) {
+      console.error("[DoseActions] Acknowledge failed:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
 // ============================================
 // Telegram Bot Endpoints
 // ============================================
@@ -1149,6 +1310,52 @@ app.post("/api/telegram/webhook", async (req, res) => {
   }
 });
 
+// ============================================
+// Calendar Feed Endpoints
+// ============================================
+
+/**
+ * Dose schedule as an iCalendar feed for Google/Apple Calendar subscriptions
+ * GET /api/calendar/:token.ics
+ * The token is the secret from the subscriber's calendar_feeds row
+ */
+app.get("/api/calendar/:token.ics", async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    if (!isSupabaseConfigured()) {
+      return res.status(503).json({ error: "Database not configured" });
+    }
+    if (!/^[a-f0-9]{32,}$/i.test(token)) {
+      return res.status(404).json({ error: "Calendar not found" });
+    }
+
+    const { feed, error } = await getCalendarFeedByToken(token);
+    if (error) {
+      return res.status(500).json({ error });
+    }
+    if (!feed) {
+      return res.status(404).json({ error: "Calendar not found" });
+    }
+
+    const ics = buildScheduleCalendar(feed.medications, {
+      calendarName: feed.isOwnSchedule ? "My medicines" : `${feed.patientName}'s medicines`,
+      timeZone: feed.timeZone,
+      summaryPrefix: feed.isOwnSchedule ? undefined : feed.patientName,
+    });
+
+    res.set({
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="medication-schedule.ics"',
+      "Cache-Control": "private, max-age=300",
+    });
+    res.send(ics);
+  } catch (error) {
+    console.error("[Calendar] Feed error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ============================================
 // Cron Job - Check for missed doses
 // TIERED: Runs every 30 seconds for demo, check push at 30s, 1min, telegram at 1.5min, email at 3min
@@ -1297,8 +1504,8 @@ function stopPatientReminderCron() {
 
 let autoExpireCronJob = null;
 
-// Schedule: Every day at midnight
-const AUTO_EXPIRE_SCHEDULE = process.env.AUTO_EXPIRE_CRON || "0 0 * * *";
+// Schedule: Every hour, so prescriptions expire soon after midnight in each patient's time zone
+const AUTO_EXPIRE_SCHEDULE = process.env.AUTO_EXPIRE_CRON || "0 * * * *";
 
 async function runAutoExpiration() {
   console.log("[AutoExpire] Running daily prescription expiration check...");
@@ -1520,6 +1727,141 @@ function stopAutoExpireCron() {
   }
 }
 
+// ============================================
+// CRON: DOSE HISTORY CLOSE-OUT JOB
+// Runs just after midnight in each patient's time zone to mark the previous day's open doses
+// missed and lay out the new day's dose instances
+// ============================================
+
+let doseCloseOutCronJob = null;
+
+// Schedule: Every 15 minutes, closing out users whose local day ended within the last 15 minutes
+// (15-minute steps also cover half- and quarter-hour offsets like India and Nepal)
+const DOSE_CLOSEOUT_SCHEDULE = process.env.DOSE_CLOSEOUT_CRON || "0,15,30,45 * * * *";
+
+function startDoseCloseOutCron() {
+  if (!isSupabaseConfigured()) {
+    console.log(
+      "[DoseHistory] Supabase not configured, skipping dose close-out cron"
+    );
+    return;
+  }
+
+  console.log(
+    `[DoseHistory] Starting daily close-out job (schedule: ${DOSE_CLOSEOUT_SCHEDULE})`
+  );
+
+  doseCloseOutCronJob = cron.schedule(DOSE_CLOSEOUT_SCHEDULE, async () => {
+    try {
+      const { error } = await closeOutEndedDoseDays();
+      if (error) {
+        console.error("[DoseHistory] Close-out error:", error);
+      }
+    } catch (error) {
+      console.error("[DoseHistory] Close-out failed:", error);
+    }
+  });
+
+  console.log("[DoseHistory] Daily close-out job started");
+}
+
+function stopDoseCloseOutCron() {
+  if (doseCloseOutCronJob) {
+    doseCloseOutCronJob.stop();
+    doseCloseOutCronJob = null;
+    console.log("[DoseHistory] Daily close-out job stopped");
+  }
+}
+
+// ============================================
+// CRON: LOW-STOCK REFILL REMINDER JOB
+// Runs daily in the morning to warn about pill supplies running out
+// ============================================
+
+let refillReminderCronJob = null;
+
+// Schedule: Every day at 9:00 AM
+const REFILL_REMINDER_SCHEDULE = process.env.REFILL_REMINDER_CRON || "0 9 * * *";
+
+function startRefillReminderCron() {
+  if (!isSupabaseConfigured()) {
+    console.log(
+      "[RefillReminders] Supabase not configured, skipping refill reminder cron"
+    );
+    return;
+  }
+
+  console.log(
+    `[RefillReminders] Starting daily job (schedule: ${REFILL_REMINDER_SCHEDULE})`
+  );
+
+  refillReminderCronJob = cron.schedule(REFILL_REMINDER_SCHEDULE, async () => {
+    try {
+      await checkAndSendLowStockReminders();
+    } catch (error) {
+      console.error("[RefillReminders] Check failed:", error);
+    }
+  });
+
+  console.log("[RefillReminders] Daily refill reminder job started");
+}
+
+function stopRefillReminderCron() {
+  if (refillReminderCronJob) {
+    refillReminderCronJob.stop();
+    refillReminderCronJob = null;
+    console.log("[RefillReminders] Daily refill reminder job stopped");
+  }
+}
+
+// ============================================
+// CRON: BACKGROUND DOSE ALARM JOB
+// Runs every minute to push "time for your dose" alarms to patients,
+// so they ring with the app closed
+// ============================================
+
+let doseAlarmCronJob = null;
+
+// Schedule: Every minute, so alarms ring close to the dose time
+const DOSE_ALARM_SCHEDULE = process.env.DOSE_ALARM_CRON || "* * * * *";
+
+function startDoseAlarmCron() {
+  if (!isSupabaseConfigured()) {
+    console.log("[DoseAlarms] Supabase not configured, skipping dose alarm cron");
+    return;
+  }
+
+  if (!isPushNotificationConfigured()) {
+    console.log("[DoseAlarms] Web Push not configured, skipping dose alarm cron");
+    return;
+  }
+
+  console.log(
+    `[DoseAlarms] Starting dose alarm job (schedule: ${DOSE_ALARM_SCHEDULE})`
+  );
+
+  doseAlarmCronJob = cron.schedule(DOSE_ALARM_SCHEDULE, async () => {
+    try {
+      const results = await checkAndSendDoseAlarms();
+      if (results.errors.length > 0) {
+        console.error("[DoseAlarms] Errors:", results.errors);
+      }
+    } catch (error) {
+      console.error("[DoseAlarms] Check failed:", error);
+    }
+  });
+
+  console.log("[DoseAlarms] Dose alarm job started");
+}
+
+function stopDoseAlarmCron() {
+  if (doseAlarmCronJob) {
+    doseAlarmCronJob.stop();
+    doseAlarmCronJob = null;
+    console.log("[DoseAlarms] Dose alarm job stopped");
+  }
+}
+
 // ============================================
 // In-Memory Storage with Automatic Cleanup
 // OPTIMIZATION: Periodic cleanup to prevent memory leaks
@@ -1719,6 +2061,7 @@ app.listen(PORT, async () => {
 ╠═══════════════════════════════════════════════════════════════╣
 ║  Server running on: http://localhost:${PORT}                     ║
 ║  Timezone: ${timezone.padEnd(23)}                    ║
+║  Patients: ${DEFAULT_TIME_ZONE.padEnd(23)} (default)          ║
 ║  Started:  ${currentTime.padEnd(23)}                    ║
 ╠═══════════════════════════════════════════════════════════════╣
 ║  Services Status:                                             ║
@@ -1762,6 +2105,11 @@ Push Notification Endpoints:
   POST /api/push/unsubscribe      - Unsubscribe from push notifications
   POST /api/push/test             - Send a test push notification
 
+Dose Action Endpoints:
+  GET  /api/dose-actions/status      - Get notification action status
+  POST /api/dose-actions             - Mark taken / snooze from a dose alarm
+  POST /api/dose-actions/acknowledge - Acknowledge a missed-dose alert
+
 Telegram Bot Endpoints:
   GET  /api/telegram/status       - Get Telegram bot status
   POST /api/telegram/link-code    - Generate a link code for Telegram
@@ -1773,6 +2121,10 @@ Telegram Bot Endpoints:
 Patient Reminder Endpoints:
   GET  /api/reminders/status            - Get patient reminder service status
   POST /api/reminders/check             - Manually trigger patient reminder check
+  GET  /api/reminders/refills/status    - Get low-stock refill reminder status
+  POST /api/reminders/refills/check     - Manually trigger low-stock check
+  GET  /api/reminders/alarms/status     - Get background dose alarm status
+  POST /api/reminders/alarms/check      - Manually trigger dose alarm check
 
 Prescription Expiration Endpoints:
   POST /api/prescriptions/expire-check  - Manually trigger expiration check
@@ -1796,6 +2148,15 @@ Health:
   // Start auto-expiration cron job (runs daily at midnight)
   startAutoExpireCron();
 
+  // Start dose history close-out cron job (runs just after each user's local midnight)
+  startDoseCloseOutCron();
+
+  // Start low-stock refill reminder cron job (runs daily at 9:00 AM)
+  startRefillReminderCron();
+
+  // Start background dose alarm cron job (runs every minute)
+  startDoseAlarmCron();
+
   // OPTIMIZATION: Start session cleanup job
   startSessionCleanup();
 
@@ -1871,6 +2232,9 @@ process.on("SIGTERM", () => {
   stopNotificationCron();
   stopPatientReminderCron();
   stopAutoExpireCron();
+  stopDoseCloseOutCron();
+  stopRefillReminderCron();
+  stopDoseAlarmCron();
   stopSessionCleanup();
   stopTelegramBot();
   process.exit(0);
@@ -1881,6 +2245,9 @@ process.on("SIGINT", () => {
   stopNotificationCron();
   stopPatientReminderCron();
   stopAutoExpireCron();
+  stopDoseCloseOutCron();
+  stopRefillReminderCron();
+  stopDoseAlarmCron();
   stopSessionCleanup();
   stopTelegramBot();
   process.exit(0);
@@ -0,0 +1,347 @@
+// ============================================
+// Calendar Feed - iCalendar (.ics) of a patient's dose schedule
+// Mirrors buildScheduleCalendar in the client calendar service
+// ============================================
+
+import { isDoseDay } from './doseDays.js';
+import { getTimeZoneOffsetMinutes, isValidTimeZone, toZonedDateString } from './timeZones.js';
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// How long each dose shows in the calendar
+const DOSE_EVENT_MINUTES = 15;
+
+// Doses on each dose day (alternate-day, weekly and day-pattern schedules take one)
+const DOSES_PER_DOSE_DAY = {
+  once_daily: 1,
+  twice_daily: 2,
+  three_times_daily: 3,
+  four_times_daily: 4,
+  every_other_day: 1,
+  weekly: 1,
+  specific_days: 1,
+  cycle: 1,
+};
+
+// ============================================
+// Formatting
+// ============================================
+
+function escapeText(text) {
+  return String(text)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+function foldLine(line) {
+  const parts = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatIcsDate(dateStr) {
+  return dateStr.replace(/-/g, '');
+}
+
+function formatIcsUtc(date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * The last moment of a day on the patient's clock, in UTC
+ */
+function getEndOfDayUtc(dateStr, timeZone) {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 23, 59, 59);
+  const offset = getTimeZoneOffsetMinutes(timeZone, new Date(wallClock));
+  return formatIcsUtc(new Date(wallClock - offset * 60000));
+}
+
+function addDays(dateStr, days) {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * "8:00 AM" or "08:00" -> "08:00"
+ */
+function to24HourTime(timeStr) {
+  const match = timeStr?.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+// ============================================
+// Time Zone
+// ============================================
+
+function formatUtcOffset(minutes) {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Moments in a year when a zone's UTC offset changes (daylight saving),
+ * found day by day and narrowed to the minute
+ */
+function findOffsetChanges(timeZone, year) {
+  const changes = [];
+  let start = Date.UTC(year, 0, 1);
+  let offset = getTimeZoneOffsetMinutes(timeZone, new Date(start));
+
+  for (let day = 1; day <= 366; day++) {
+    const end = Date.UTC(year, 0, 1 + day);
+    const next = getTimeZoneOffsetMinutes(timeZone, new Date(end));
+    if (next !== offset) {
+      let low = start;
+      let high = end;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffsetMinutes(timeZone, new Date(mid)) === offset) low = mid;
+        else high = mid;
+      }
+      changes.push({ at: new Date(high), from: offset, to: next });
+    }
+    start = end;
+    offset = next;
+  }
+
+  return changes;
+}
+
+/**
+ * Day of the month of the nth weekday (-1 for the last one)
+ */
+function getNthWeekdayOfMonth(year, month, weekday, nth) {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+  }
+  const last = new Date(Date.UTC(year, month, 0));
+  return last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7);
+}
+
+/**
+ * A yearly DAYLIGHT or STANDARD rule for an offset change (see buildObservance
+ * in the client calendar service)
+ */
+function buildObservance(change) {
+  // Onset is the local time just before the change, e.g. 02:00
+  const onset = new Date(change.at.getTime() + change.from * 60000);
+  const month = onset.getUTCMonth() + 1;
+  const weekday = onset.getUTCDay();
+  const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), month, 0)).getUTCDate();
+  const nth = onset.getUTCDate() + 7 > daysInMonth ? -1 : Math.ceil(onset.getUTCDate() / 7);
+  const firstDay = getNthWeekdayOfMonth(1970, month, weekday, nth);
+  const time = onset.toISOString().slice(11, 19).replace(/:/g, '');
+  const type = change.to > change.from ? 'DAYLIGHT' : 'STANDARD';
+
+  return [
+    `BEGIN:${type}`,
+    `DTSTART:1970${String(month).padStart(2, '0')}${String(firstDay).padStart(2, '0')}T${time}`,
+    `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${nth}${ICS_WEEKDAYS[weekday]}`,
+    `TZOFFSETFROM:${formatUtcOffset(change.from)}`,
+    `TZOFFSETTO:${formatUtcOffset(change.to)}`,
+    `END:${type}`,
+  ];
+}
+
+/**
+ * VTIMEZONE for the zone dose times are in (RFC 5545 requires one for every
+ * TZID). A yearly daylight-saving pair becomes two rules, any other zone
+ * keeps its current offset all year
+ */
+function buildTimeZoneComponent(timeZone, now) {
+  const changes = findOffsetChanges(timeZone, now.getUTCFullYear());
+  const offset = formatUtcOffset(getTimeZoneOffsetMinutes(timeZone, now));
+  const observances = changes.length === 2
+    ? changes.flatMap(buildObservance)
+    : ['BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD'];
+
+  return ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+}
+
+// ============================================
+// Recurrence
+// ============================================
+
+function getRepeatDays(med, frequency) {
+  switch (frequency) {
+    case 'every_other_day':
+      return 2;
+    case 'weekly':
+    case 'specific_days':
+      return 7;
+    case 'cycle':
+      return med.cycle_days_on > 0 ? med.cycle_days_on + (med.cycle_days_off || 0) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Dose times (HH:mm) of a regimen, from the medication's schedule doses.
+ * A taper phase with fewer doses a day takes the first ones; the server
+ * doesn't know the patient's routine, so a phase with more uses those it has.
+ */
+function getRegimenTimes(med, frequency, customFrequency) {
+  const scheduled = (med.doses?.length ? med.doses.map(d => d.time) : [med.time || med.start_time])
+    .map(to24HourTime)
+    .filter(Boolean);
+  const times = [...new Set(scheduled)].sort();
+  const wanted = frequency === 'custom' ? customFrequency || times.length : DOSES_PER_DOSE_DAY[frequency];
+  return wanted && wanted < times.length ? times.slice(0, wanted) : times;
+}
+
+/**
+ * Repeating series for one stretch of a regimen, one per dose time and dose day
+ * (see buildSeries in the client calendar service)
+ */
+function buildSeries(med, regimen, timeZone) {
+  const { key, frequency, dosage, times, fromDate, toDate } = regimen;
+  const until = toDate ? `;UNTIL=${getEndOfDayUtc(toDate, timeZone)}` : '';
+  const repeatDays = getRepeatDays(med, frequency);
+
+  const series = (startDate, rrule, suffix) =>
+    times.map(time => ({
+      uid: `${med.id}-${key}-${suffix}-${time.replace(':', '')}`,
+      startDate,
+      time,
+      rrule,
+      dosage,
+    }));
+
+  if (!repeatDays) {
+    return series(fromDate, `FREQ=DAILY${until}`, 'daily');
+  }
+
+  // isDoseDay reads a Date on a calendar; noon UTC of a day is that day in UTC
+  const pattern = { ...med, frequency };
+  const doseDays = [];
+  for (let offset = 0; offset < repeatDays; offset++) {
+    const date = addDays(fromDate, offset);
+    if (toDate && date > toDate) break;
+    if (isDoseDay(pattern, new Date(`${date}T12:00:00Z`), 'UTC')) doseDays.push(date);
+  }
+  if (doseDays.length === 0) return [];
+
+  if (frequency === 'specific_days' && med.days_of_week?.length) {
+    const byDay = [...med.days_of_week].sort().map(d => ICS_WEEKDAYS[d]).join(',');
+    return series(doseDays[0], `FREQ=WEEKLY;BYDAY=${byDay}${until}`, 'weekdays');
+  }
+
+  const rrule = repeatDays === 7 ? `FREQ=WEEKLY${until}` : `FREQ=DAILY;INTERVAL=${repeatDays}${until}`;
+  return doseDays.flatMap((date, index) => series(date, rrule, `day${index}`));
+}
+
+// ============================================
+// Calendar
+// ============================================
+
+/**
+ * Build an .ics calendar of a patient's dose schedule
+ * @param {object[]} medications - Medication rows (with doses from schedule_doses)
+ * @param {object} options
+ * @param {string} options.calendarName - e.g. "Lola's medicines"
+ * @param {string} options.timeZone - Patient's IANA time zone
+ * @param {string} [options.summaryPrefix] - Put before each event title (companion feeds)
+ * @param {Date} [options.now]
+ * @returns {string}
+ */
+export function buildScheduleCalendar(medications, { calendarName, timeZone, summaryPrefix, now = new Date() }) {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const today = toZonedDateString(now, zone);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AInay//Medication Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${zone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...buildTimeZoneComponent(zone, now),
+  ];
+
+  for (const med of medications) {
+    if (!med.is_active || med.frequency === 'as_needed') continue;
+
+    const regimens = Array.isArray(med.dose_phases) && med.dose_phases.length > 0
+      ? med.dose_phases.map(phase => ({
+          key: phase.id,
+          fromDate: phase.start_date,
+          toDate: phase.end_date,
+          frequency: phase.frequency,
+          customFrequency: phase.custom_frequency,
+          dosage: phase.dosage,
+        }))
+      : [{
+          key: 'main',
+          fromDate: med.start_date || today,
+          toDate: med.end_date,
+          frequency: med.frequency,
+          customFrequency: med.custom_frequency,
+          dosage: med.dosage,
+        }];
+
+    for (const regimen of regimens) {
+      if (regimen.frequency === 'as_needed') continue;
+      if (regimen.toDate && regimen.toDate < regimen.fromDate) continue;
+
+      const times = getRegimenTimes(med, regimen.frequency, regimen.customFrequency);
+      for (const series of buildSeries(med, { ...regimen, times }, zone)) {
+        const start = `${formatIcsDate(series.startDate)}T${series.time.replace(':', '')}00`;
+        const title = `${summaryPrefix ? `${summaryPrefix}: ` : ''}${med.name} ${series.dosage || ''}`;
+
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${series.uid}@ainay`,
+          `DTSTAMP:${formatIcsUtc(now)}`,
+          `DTSTART;TZID=${zone}:${start}`,
+          `DURATION:PT${DOSE_EVENT_MINUTES}M`,
+          `RRULE:${series.rrule}`,
+          `SUMMARY:${escapeText(title.trim())}`,
+          ...(med.instructions ? [`DESCRIPTION:${escapeText(med.instructions)}`] : []),
+          'TRANSP:TRANSPARENT',
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`Time to take ${med.name}`)}`,
+          'TRIGGER:PT0M',
+          'END:VALARM',
+          'END:VEVENT'
+        );
+      }
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,161 @@
+// ============================================
+// Dose Actions Service - Act on a Dose from a Notification
+// "Taken" and "Snooze" on a patient's dose alarm, "Acknowledge" on a
+// companion's missed-dose alert. The service worker has no session, so each
+// notification carries a short-lived signed token for its one dose instance
+// and the user it was sent to
+// ============================================
+
+import crypto from 'crypto';
+import {
+  markDoseTakenFromAction,
+  snoozeDoseFromAction,
+  recordNotification,
+} from './supabase.js';
+
+// Configuration
+const ACTION_CONFIG = {
+  // Signing key for action tokens; without it notifications carry no actions
+  SECRET: process.env.DOSE_ACTION_SECRET || '',
+  // How long a notification's actions keep working (about one alarm and a snooze)
+  TOKEN_TTL_MINUTES: parseInt(process.env.DOSE_ACTION_TOKEN_TTL || '30'),
+  // Length of a snooze from the notification
+  SNOOZE_MINUTES: 10,
+  // Where the service worker sends actions (this server, as the browser sees it)
+  API_URL: (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, ''),
+};
+
+function sign(body) {
+  return crypto.createHmac('sha256', ACTION_CONFIG.SECRET).update(body).digest('base64url');
+}
+
+/**
+ * Sign a token for one dose instance, held by the user it is sent to (sub)
+ * purpose is 'dose' (patient: taken/snooze) or 'ack' (companion: acknowledge)
+ * Returns null when no signing key is configured
+ */
+export function createDoseActionToken(purpose, sub, claims) {
+  if (!ACTION_CONFIG.SECRET) return null;
+
+  const body = Buffer.from(JSON.stringify({
+    ...claims,
+    sub,
+    purpose,
+    exp: Date.now() + ACTION_CONFIG.TOKEN_TTL_MINUTES * 60000,
+  })).toString('base64url');
+
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Check a token's signature, purpose and expiry
+ */
+export function verifyDoseActionToken(token, purpose) {
+  const invalid = { claims: null, error: 'Invalid action token' };
+  if (!ACTION_CONFIG.SECRET || typeof token !== 'string') return invalid;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return invalid;
+
+  const given = Buffer.from(signature);
+  const expected = Buffer.from(sign(body));
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return invalid;
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return invalid;
+  }
+
+  if (claims.purpose !== purpose || !claims.sub) return invalid;
+  if (!claims.exp || claims.exp < Date.now()) {
+    return { claims: null, error: 'This notification has expired. Open AInay to update the dose.' };
+  }
+
+  return { claims, error: null };
+}
+
+/**
+ * URL of a dose action endpoint, for notification data
+ */
+export function getDoseActionUrl(path = '') {
+  return `${ACTION_CONFIG.API_URL}/api/dose-actions${path}`;
+}
+
+/**
+ * Apply "taken" or "snooze" from a patient's dose alarm
+ */
+export async function applyDoseAction(token, action) {
+  const { claims, error: tokenError } = verifyDoseActionToken(token, 'dose');
+  if (tokenError) {
+    return { success: false, status: 401, error: tokenError };
+  }
+
+  if (action === 'taken') {
+    const { medicationName, alreadyTaken, error } = await markDoseTakenFromAction(claims, claims.sub);
+    if (error) {
+      return { success: false, status: 400, error };
+    }
+    console.log(`[DoseActions] ✅ ${medicationName} (${claims.scheduledTime}) marked taken from notification`);
+    return {
+      success: true,
+      message: alreadyTaken
+        ? `${medicationName} was already marked as taken`
+        : `${medicationName} marked as taken`,
+    };
+  }
+
+  const { snoozeUntil, error } = await snoozeDoseFromAction(claims, ACTION_CONFIG.SNOOZE_MINUTES);
+  if (error) {
+    return { success: false, status: 400, error };
+  }
+  console.log(`[DoseActions] ⏰ ${claims.medicationName} (${claims.scheduledTime}) snoozed from notification`);
+  return {
+    success: true,
+    snoozeUntil,
+    message: `Snoozed for ${ACTION_CONFIG.SNOOZE_MINUTES} minutes`,
+  };
+}
+
+/**
+ * Record that a companion acknowledged a missed-dose alert, which stops
+ * further escalation (second push, Telegram, email) to that companion
+ */
+export async function acknowledgeMissedDose(token) {
+  const { claims, error: tokenError } = verifyDoseActionToken(token, 'ack');
+  if (tokenError) {
+    return { success: false, status: 401, error: tokenError };
+  }
+
+  const { error } = await recordNotification({
+    patientId: claims.patientId,
+    companionId: claims.companionId,
+    medicationId: claims.medicationId,
+    type: 'missed_medication_acknowledged',
+    channel: 'push',
+    message: `Missed dose of ${claims.medicationName} acknowledged`,
+    scheduledTime: claims.scheduledTime,
+    status: 'sent',
+  });
+
+  if (error) {
+    return { success: false, status: 400, error };
+  }
+
+  return { success: true, message: 'Acknowledged' };
+}
+
+/**
+ * Get dose action service status
+ */
+export function getDoseActionStatus() {
+  return {
+    configured: !!ACTION_CONFIG.SECRET,
+    tokenTtlMinutes: ACTION_CONFIG.TOKEN_TTL_MINUTES,
+    snoozeMinutes: ACTION_CONFIG.SNOOZE_MINUTES,
+    actionUrl: getDoseActionUrl(),
+  };
+}
@@ -0,0 +1,167 @@
+// ============================================
+// Dose Alarms Service - Background Push Alarms
+// Rings patients' devices over Web Push when a dose is due, so alarms
+// arrive even with the app closed
+// ============================================
+
+import {
+  getDoseAlarmInstances,
+  getDoseAlarmsSentToday,
+  recordNotificationsBatch,
+} from './supabase.js';
+import { sendDoseAlarmPush, isPushNotificationConfigured } from './pushNotifications.js';
+import { getZonedMinutesOfDay } from './timeZones.js';
+
+// Configuration
+const ALARM_CONFIG = {
+  // A due dose still rings this many minutes late (covers missed cron ticks)
+  WINDOW_MINUTES: parseInt(process.env.DOSE_ALARM_WINDOW || '15'),
+  // Whether to enable background dose alarms
+  ENABLED: process.env.DOSE_ALARMS_ENABLED !== 'false',
+};
+
+/**
+ * Minutes from midnight for "8:00 AM" or "14:30"
+ */
+function toClockMinutes(timeStr) {
+  const match = timeStr?.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  return hours * 60 + minutes;
+}
+
+/**
+ * When a dose instance should ring, or null if it shouldn't ring now:
+ * at its scheduled time, or when its snooze ends
+ */
+function getAlarmDueAt(instance, now) {
+  if (instance.snooze) {
+    const snoozeEnd = new Date(instance.snooze.snooze_until);
+    return snoozeEnd <= now ? snoozeEnd : null;
+  }
+
+  const scheduledMinutes = toClockMinutes(instance.scheduledTime);
+  if (scheduledMinutes === null) return null;
+
+  const minutesLate = getZonedMinutesOfDay(now, instance.timeZone) - scheduledMinutes;
+  if (minutesLate < 0) return null;
+  return new Date(now.getTime() - minutesLate * 60000);
+}
+
+/**
+ * Check every patient's open doses and push an alarm for each one that is due
+ * A dose rings once at its time and once more after each snooze; taken and
+ * skipped doses never ring
+ */
+export async function checkAndSendDoseAlarms(now = new Date()) {
+  const results = { checked: 0, sent: 0, errors: [] };
+
+  if (!ALARM_CONFIG.ENABLED) {
+    return results;
+  }
+
+  if (!isPushNotificationConfigured()) {
+    results.errors.push('Push notifications not configured');
+    return results;
+  }
+
+  // Step 1: Today's open dose instances for patients with push set up
+  const { instances, error: fetchError } = await getDoseAlarmInstances(now);
+
+  if (fetchError) {
+    console.error('[DoseAlarms] Failed to fetch doses:', fetchError);
+    results.errors.push(`Failed to fetch doses: ${fetchError}`);
+    return results;
+  }
+
+  results.checked = instances.length;
+
+  // Step 2: Keep the ones due within the window
+  const due = instances.filter(instance => {
+    const dueAt = getAlarmDueAt(instance, now);
+    return dueAt && now.getTime() - dueAt.getTime() <= ALARM_CONFIG.WINDOW_MINUTES * 60000;
+  });
+
+  if (due.length === 0) {
+    return results;
+  }
+
+  // Step 3: Skip doses already alarmed since they became due
+  const timeZones = new Map(due.map(i => [i.medicationId, i.timeZone]));
+  const { lastSent, error: historyError } = await getDoseAlarmsSentToday(
+    [...new Set(due.map(i => i.medicationId))],
+    now,
+    timeZones
+  );
+
+  if (historyError) {
+    results.errors.push(`Failed to check alarm history: ${historyError}`);
+    return results;
+  }
+
+  const records = [];
+  for (const instance of due) {
+    const sentAt = lastSent.get(`${instance.medicationId}|${instance.scheduledTime}`);
+    if (sentAt && new Date(sentAt) >= getAlarmDueAt(instance, now)) continue;
+
+    try {
+      const pushResult = await sendDoseAlarmPush({
+        patientId: instance.patientId,
+        medicationId: instance.medicationId,
+        doseId: instance.doseId,
+        medicationName: instance.medicationName,
+        dosage: instance.dosage,
+        scheduledTime: instance.scheduledTime,
+        scheduledDate: instance.scheduledDate,
+        snoozeCount: instance.snooze?.snooze_count || 0,
+      });
+
+      if (!pushResult.success) {
+        results.errors.push(`${instance.medicationName}: ${pushResult.error || 'push failed'}`);
+        continue;
+      }
+
+      results.sent++;
+      records.push({
+        patientId: instance.patientId,
+        companionId: instance.patientId, // Self-reminder, use patient as companion
+        medicationId: instance.medicationId,
+        type: 'dose_alarm',
+        channel: 'push',
+        message: `Dose alarm for ${instance.medicationName} (${instance.dosage}) at ${instance.scheduledTime}`,
+        scheduledTime: instance.scheduledTime,
+        status: 'sent',
+      });
+    } catch (error) {
+      console.error(`[DoseAlarms] Failed to alarm ${instance.patientId}:`, error);
+      results.errors.push(`${instance.medicationName}: ${error.message}`);
+    }
+  }
+
+  // Step 4: Record what rang so the next check doesn't ring it again
+  if (records.length > 0) {
+    const { error: recordError } = await recordNotificationsBatch(records);
+    if (recordError) {
+      results.errors.push(`Failed to record alarms: ${recordError}`);
+    }
+    console.log(`[DoseAlarms] Sent ${results.sent} dose alarm(s)`);
+  }
+
+  return results;
+}
+
+/**
+ * Get dose alarm service status
+ */
+export function getDoseAlarmStatus() {
+  return {
+    enabled: ALARM_CONFIG.ENABLED,
+    pushConfigured: isPushNotificationConfigured(),
+    windowMinutes: ALARM_CONFIG.WINDOW_MINUTES,
+  };
+}
@@ -0,0 +1,99 @@
+// ============================================
+// Dose Days - Which days a medication is due
+// Mirrors isDoseDay/getAverageDosesPerDay in the client schedule service
+// ============================================
+
+import { getZonedParts } from './timeZones.js';
+
+// Doses per day by frequency (mirrors FREQUENCY_OPTIONS on the client)
+const DOSES_PER_DAY = {
+  once_daily: 1,
+  twice_daily: 2,
+  three_times_daily: 3,
+  four_times_daily: 4,
+  every_other_day: 0.5,
+  weekly: 0.14,
+  specific_days: 1,
+  cycle: 1,
+  as_needed: 0,
+};
+
+/**
+ * Calendar day of a date, on a time zone's calendar when one is given
+ * (server local calendar otherwise)
+ */
+function getCalendarDay(date, timeZone) {
+  if (timeZone) {
+    const { year, month, day, weekday } = getZonedParts(date, timeZone);
+    return { year, monthIndex: month - 1, day, weekday };
+  }
+  return {
+    year: date.getFullYear(),
+    monthIndex: date.getMonth(),
+    day: date.getDate(),
+    weekday: date.getDay(),
+  };
+}
+
+/**
+ * Whole calendar days from a YYYY-MM-DD start date to a calendar day
+ */
+function daysSince(startDate, calendarDay) {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const from = Date.UTC(year, month - 1, day);
+  const to = Date.UTC(calendarDay.year, calendarDay.monthIndex, calendarDay.day);
+  return Math.round((to - from) / 86400000);
+}
+
+/**
+ * Whether a medication row is due on a date, on the patient's calendar when
+ * their time zone is given (server local calendar otherwise)
+ * Alternate-day, weekly and cycle patterns count from start_date;
+ * medications without a start_date are treated as due every day.
+ * As-needed medications are never due (nothing to remind about or miss).
+ */
+export function isDoseDay(med, date = new Date(), timeZone) {
+  const calendarDay = getCalendarDay(date, timeZone);
+  const offset = med.start_date ? daysSince(med.start_date, calendarDay) : 0;
+
+  switch (med.frequency) {
+    case 'as_needed':
+      return false;
+    case 'every_other_day':
+      return ((offset % 2) + 2) % 2 === 0;
+    case 'weekly':
+      return ((offset % 7) + 7) % 7 === 0;
+    case 'specific_days':
+      if (!med.days_of_week || med.days_of_week.length === 0) return true;
+      return med.days_of_week.includes(calendarDay.weekday);
+    case 'cycle': {
+      const daysOn = med.cycle_days_on || 0;
+      const daysOff = med.cycle_days_off || 0;
+      if (daysOn <= 0) return true;
+      if (offset < 0) return false;
+      return offset % (daysOn + daysOff) < daysOn;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Average doses per calendar day, spreading weekday and cycle patterns
+ * over the week or cycle (used for supply forecasts)
+ */
+export function getAverageDosesPerDay(med) {
+  const dosesPerDay = med.frequency === 'custom'
+    ? med.custom_frequency || med.doses?.length || 1
+    : DOSES_PER_DAY[med.frequency] ?? 1;
+
+  if (med.frequency === 'specific_days' && med.days_of_week?.length) {
+    return (dosesPerDay * med.days_of_week.length) / 7;
+  }
+
+  if (med.frequency === 'cycle' && med.cycle_days_on > 0) {
+    return (dosesPerDay * med.cycle_days_on) / (med.cycle_days_on + (med.cycle_days_off || 0));
+  }
+
+  return dosesPerDay;
+}
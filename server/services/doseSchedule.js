@@ -0,0 +1,234 @@
+// ============================================
+// Dose Schedule - Which doses a medication has on a day
+// Mirrors calculateDoseTimesForDate in the client schedule service:
+// start and end dates, the taper phase in effect, day patterns and
+// doses anchored to the patient's daily routine
+// ============================================
+
+import { isDoseDay } from './doseDays.js';
+
+// Used for anything a profile leaves unset (mirrors DEFAULT_DAILY_ROUTINE)
+const DEFAULT_ROUTINE = {
+  wake: '06:00',
+  breakfast: '07:00',
+  lunch: '12:00',
+  dinner: '18:00',
+  sleep: '22:00',
+};
+
+// Doses per day by frequency (mirrors FREQUENCY_OPTIONS on the client)
+const TIMES_PER_DAY = {
+  once_daily: 1,
+  twice_daily: 2,
+  three_times_daily: 3,
+  four_times_daily: 4,
+  every_other_day: 0.5,
+  weekly: 0.14,
+  specific_days: 1,
+  cycle: 1,
+  as_needed: 0,
+  custom: -1,
+};
+
+// Minutes between doses (mirrors FREQUENCY_INTERVALS)
+const FREQUENCY_INTERVALS = {
+  once_daily: 24 * 60,
+  twice_daily: 12 * 60,
+  three_times_daily: 6 * 60,
+  four_times_daily: 4 * 60 + 30,
+};
+
+// Shortest gap when restart mode squeezes doses in before bedtime
+const MIN_DOSE_INTERVAL_MINUTES = 2 * 60;
+
+// One dose on each of their days
+const SINGLE_DOSE_FREQUENCIES = ['every_other_day', 'weekly', 'specific_days', 'cycle'];
+
+// Meals used for each daily dose count (a fourth dose goes at bedtime)
+const MEALS_FOR_DOSE_COUNT = {
+  1: ['breakfast'],
+  2: ['breakfast', 'dinner'],
+  3: ['breakfast', 'lunch', 'dinner'],
+  4: ['breakfast', 'lunch', 'dinner', 'sleep'],
+};
+
+/**
+ * A patient's daily routine from their profile columns
+ */
+export function getRoutine(profile) {
+  return {
+    wake: profile?.wake_time || DEFAULT_ROUTINE.wake,
+    breakfast: profile?.breakfast_time || DEFAULT_ROUTINE.breakfast,
+    lunch: profile?.lunch_time || DEFAULT_ROUTINE.lunch,
+    dinner: profile?.dinner_time || DEFAULT_ROUTINE.dinner,
+    sleep: profile?.sleep_time || DEFAULT_ROUTINE.sleep,
+  };
+}
+
+/**
+ * Minutes from midnight for "8:00 AM" or "14:30"
+ */
+function toClockMinutes(timeStr) {
+  const match = timeStr?.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  return hours * 60 + minutes;
+}
+
+/**
+ * HH:mm for minutes from midnight (wrapping around the day)
+ */
+function formatClock(minuteOfDay) {
+  const minutes = ((minuteOfDay % 1440) + 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function addMinutesToTime(time, minutes) {
+  return formatClock(toClockMinutes(time) + minutes);
+}
+
+/**
+ * Minutes from one time of day to the next occurrence of another (0-1439)
+ */
+function minutesUntil(from, to) {
+  return (((toClockMinutes(to) - toClockMinutes(from)) % 1440) + 1440) % 1440;
+}
+
+function isInSleepWindow(time, routine) {
+  const sinceSleep = minutesUntil(routine.sleep, time);
+  return sinceSleep > 0 && sinceSleep < minutesUntil(routine.sleep, routine.wake);
+}
+
+/**
+ * Move a time inside the sleep window to the nearer of bedtime or wake time
+ */
+function moveOutOfSleepWindow(time, routine) {
+  if (!isInSleepWindow(time, routine)) return time;
+  return minutesUntil(routine.sleep, time) <= minutesUntil(time, routine.wake)
+    ? routine.sleep
+    : routine.wake;
+}
+
+function getDosesPerDay(frequency, customFrequency) {
+  if (frequency === 'custom' && customFrequency) return customFrequency;
+  return TIMES_PER_DAY[frequency] ?? 1;
+}
+
+function getIntervalForFrequency(frequency, customFrequency) {
+  if (frequency === 'custom' && customFrequency) {
+    return Math.floor((16 * 60) / customFrequency);
+  }
+  return FREQUENCY_INTERVALS[frequency] ?? 24 * 60;
+}
+
+/**
+ * Rebuild stored anchors ({ event, offset_minutes }) for a different dose
+ * count, keeping the same timing; empty when the timing no longer fits
+ */
+function fitAnchorsToDoseCount(anchors, dosesPerDay) {
+  if (anchors.length === dosesPerDay) return anchors;
+
+  const first = anchors[0];
+  const gap = Math.abs(first.offset_minutes || 0);
+  if (first.event === 'sleep' || first.event === 'wake') {
+    return dosesPerDay === 1 ? [first] : [];
+  }
+
+  const mealOffset = Math.sign(first.offset_minutes || 0) * gap;
+  return (MEALS_FOR_DOSE_COUNT[dosesPerDay] ?? []).map(event => ({
+    event,
+    offset_minutes: event === 'sleep' ? 0 : mealOffset,
+  }));
+}
+
+/**
+ * Clock times of a day's doses (mirrors calculateDoseTimes)
+ */
+function calculateDoseTimes(startTime, frequency, customFrequency, nextDayMode, routine, anchors) {
+  const dosesPerDay = getDosesPerDay(frequency, customFrequency);
+  if (dosesPerDay <= 0 || frequency === 'as_needed') return [startTime];
+
+  const isSingleDose = SINGLE_DOSE_FREQUENCIES.includes(frequency);
+
+  if (anchors?.length) {
+    const fitted = fitAnchorsToDoseCount(anchors, isSingleDose ? 1 : dosesPerDay);
+    if (fitted.length > 0) {
+      return fitted
+        .map(anchor => moveOutOfSleepWindow(addMinutesToTime(routine[anchor.event], anchor.offset_minutes || 0), routine))
+        .sort((a, b) => minutesUntil(routine.wake, a) - minutesUntil(routine.wake, b));
+    }
+  }
+
+  let firstTime = moveOutOfSleepWindow(startTime, routine);
+  if (isSingleDose) return [firstTime];
+
+  let intervalMinutes = getIntervalForFrequency(frequency, customFrequency);
+  if (nextDayMode !== 'continue' && dosesPerDay > 1) {
+    let awakeMinutes = minutesUntil(firstTime, routine.sleep);
+    if (awakeMinutes < MIN_DOSE_INTERVAL_MINUTES * (dosesPerDay - 1)) {
+      firstTime = routine.wake;
+      awakeMinutes = minutesUntil(routine.wake, routine.sleep);
+    }
+    if (intervalMinutes * (dosesPerDay - 1) > awakeMinutes) {
+      intervalMinutes = Math.max(1, Math.floor(awakeMinutes / (dosesPerDay - 1)));
+    }
+  }
+
+  const times = [];
+  for (let i = 0; i < dosesPerDay; i++) {
+    times.push(moveOutOfSleepWindow(addMinutesToTime(firstTime, intervalMinutes * i), routine));
+  }
+  return times;
+}
+
+/**
+ * The taper phase in effect on a date (YYYY-MM-DD), if any
+ */
+function getPhaseForDate(phases, date) {
+  if (!Array.isArray(phases)) return null;
+  return phases.find(p => p.start_date <= date && date <= p.end_date) ?? null;
+}
+
+/**
+ * A medication's doses on a date (YYYY-MM-DD, on the patient's calendar)
+ * Nothing before start_date or after end_date, outside a taper's phases or
+ * on an off day. The saved schedule_doses are used while they still match
+ * the day's frequency; after a taper step changes it (before the app has
+ * rebuilt them) the times are worked out the way the app will.
+ * @param {object} med - Medication row with doses from schedule_doses
+ * @param {string} date - YYYY-MM-DD
+ * @param {object} [routine] - Patient's daily routine (see getRoutine)
+ * @returns {{ id: string|null, time: string, dosage: string }[]}
+ */
+export function getDosesForDate(med, date, routine = DEFAULT_ROUTINE) {
+  if (med.start_date && date < med.start_date) return [];
+  if (med.end_date && date > med.end_date) return [];
+
+  const phase = getPhaseForDate(med.dose_phases, date);
+  if (med.dose_phases?.length && !phase) return [];
+
+  const frequency = phase?.frequency ?? med.frequency;
+  const customFrequency = phase ? phase.custom_frequency ?? null : med.custom_frequency ?? null;
+  const dosage = phase?.dosage ?? med.dosage;
+
+  // Noon UTC lands on the same calendar day in every time zone
+  const [year, month, day] = date.split('-').map(Number);
+  if (!isDoseDay({ ...med, frequency }, new Date(Date.UTC(year, month - 1, day, 12)), 'UTC')) {
+    return [];
+  }
+
+  const scheduleMatches = frequency === med.frequency && customFrequency === (med.custom_frequency ?? null);
+  if (scheduleMatches) {
+    const doses = med.doses?.length ? med.doses : [{ id: null, time: med.time || med.start_time }];
+    return doses.filter(dose => dose.time).map(dose => ({ id: dose.id, time: dose.time, dosage }));
+  }
+
+  const startTime = formatClock(toClockMinutes(med.start_time || med.time) ?? 8 * 60);
+  return [...new Set(calculateDoseTimes(startTime, frequency, customFrequency, med.next_day_mode, routine, med.dose_anchors))]
+    .map(time => ({ id: null, time, dosage }));
+}
@@ -0,0 +1,138 @@
+// ============================================
+// Late Doses - "Take now or skip?" advice
+// Mirrors getLateDoseAdvice in the client schedule service
+// ============================================
+
+import { isDoseDay } from './doseDays.js';
+import { getZonedMinutesOfDay } from './timeZones.js';
+
+// How late a dose must be before advice is given (matches LATE_DOSE_GRACE_MINUTES)
+const LATE_DOSE_GRACE_MINUTES = 30;
+// How far ahead to look for the next dose day (covers weekly and long cycles)
+const NEXT_DOSE_SEARCH_DAYS = 60;
+
+/**
+ * Minutes from midnight for "8:00 AM" or "14:30"
+ */
+function toClockMinutes(timeStr) {
+  const match = timeStr?.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  return hours * 60 + minutes;
+}
+
+function formatClock(minuteOfDay) {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = String(minuteOfDay % 60).padStart(2, '0');
+  return `${hours % 12 || 12}:${minutes} ${hours >= 12 ? 'PM' : 'AM'}`;
+}
+
+function formatSpan(totalMinutes) {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = Math.round(totalMinutes % 60);
+  if (hours === 0) return `${minutes} min`;
+  const hoursText = `${hours} hr${hours === 1 ? '' : 's'}`;
+  return minutes === 0 ? hoursText : `${hoursText} ${minutes} min`;
+}
+
+/**
+ * Should a late dose be taken now, taken with later doses shifted, or skipped?
+ * Uses the medication's late_dose_rule (label or pharmacist) and the gap to the
+ * next dose. Returns null while the dose isn't late yet and for as-needed medications.
+ * @param {object} med - Medication row (with doses from schedule_doses when multi-dose)
+ * @param {string} scheduledTime - The late dose's time, e.g. "8:00 AM"
+ * @param {Date} now - Current time
+ * @param {string} [timeZone] - Patient's IANA time zone
+ * @returns {{ action: 'take_now'|'take_and_shift'|'skip', lateMinutes: number, message: string } | null}
+ */
+export function getLateDoseAdvice(med, scheduledTime, now = new Date(), timeZone) {
+  if (med.frequency === 'as_needed') return null;
+
+  const scheduledMinutes = toClockMinutes(scheduledTime);
+  if (scheduledMinutes === null) return null;
+
+  const nowMinutes = Math.floor(getZonedMinutesOfDay(now, timeZone));
+  const lateMinutes = nowMinutes - scheduledMinutes;
+  if (lateMinutes < LATE_DOSE_GRACE_MINUTES) return null;
+
+  const doseTimes = [...new Set(
+    (med.doses?.length ? med.doses.map(d => d.time) : [med.time || med.start_time])
+      .map(toClockMinutes)
+      .filter(t => t !== null)
+  )].sort((a, b) => a - b);
+
+  // Next dose: a later one today, else the first dose on the next dose day
+  const laterToday = doseTimes.filter(t => t > scheduledMinutes);
+  let nextMinutes = laterToday[0] ?? null;
+  let nextDayOffset = 0;
+  if (nextMinutes === null && doseTimes.length > 0) {
+    for (let offset = 1; offset <= NEXT_DOSE_SEARCH_DAYS; offset++) {
+      if (isDoseDay(med, new Date(now.getTime() + offset * 86400000), timeZone)) {
+        nextDayOffset = offset;
+        nextMinutes = offset * 1440 + doseTimes[0];
+        break;
+      }
+    }
+  }
+
+  const minutesUntilNext = nextMinutes !== null ? nextMinutes - nowMinutes : null;
+  const interval = nextMinutes !== null ? nextMinutes - scheduledMinutes : null;
+  let nextLabel = null;
+  if (nextMinutes !== null) {
+    const time = formatClock(nextMinutes % 1440);
+    nextLabel = nextDayOffset === 0 ? time : nextDayOffset === 1 ? `${time} tomorrow` : `${time} in ${nextDayOffset} days`;
+  }
+
+  let take;
+  switch (med.late_dose_rule || 'auto') {
+    case 'take_when_remembered':
+      take = true;
+      break;
+    case 'skip_missed':
+      take = false;
+      break;
+    case 'cutoff':
+      take = !!med.late_dose_cutoff_minutes && lateMinutes <= med.late_dose_cutoff_minutes;
+      break;
+    default:
+      take = interval === null || lateMinutes <= interval / 2;
+  }
+  // Never together with (or after) the next dose
+  if (minutesUntilNext !== null && minutesUntilNext <= 0) take = false;
+
+  const lateText = `${formatSpan(lateMinutes)} late`;
+
+  if (!take) {
+    return {
+      action: 'skip',
+      lateMinutes,
+      message: minutesUntilNext !== null && minutesUntilNext <= 0
+        ? 'The next dose is already due. Take only that one, don\'t double up.'
+        : `Skip this dose (${lateText})${nextLabel ? ` and take the next one at ${nextLabel}` : ''}. Don't double up.`,
+    };
+  }
+
+  const squeezed = nextDayOffset === 0 && interval !== null && minutesUntilNext < interval * 0.75;
+  if (squeezed) {
+    const shiftMinutes = Math.round(lateMinutes / 15) * 15;
+    const nextShifted = nextMinutes + shiftMinutes < 1440 ? formatClock(nextMinutes + shiftMinutes) : null;
+    return {
+      action: 'take_and_shift',
+      lateMinutes,
+      message: `Take it now (${lateText}) and push today's later doses back ${formatSpan(shiftMinutes)}${
+        nextShifted ? `, so the next one is at ${nextShifted}` : ''
+      }.`,
+    };
+  }
+
+  return {
+    action: 'take_now',
+    lateMinutes,
+    message: `Take it now (${lateText})${nextLabel ? `. Next dose at ${nextLabel} as usual` : ''}.`,
+  };
+}
@@ -5,14 +5,17 @@
 // ============================================
 
 import {
-  getMedicationsToCheck,
+  getDosesToCheck,
   getLinkedCompanionsForPatients,
   recordNotificationsBatch,
   getNotificationsSentToday,
+  getDoseSnoozes,
 } from './supabase.js';
 import { sendMissedMedicationEmail, isEmailConfigured } from './email.js';
 import { sendMissedMedicationPush, isPushNotificationConfigured } from './pushNotifications.js';
 import { sendMissedMedicationTelegram, isTelegramConfigured } from './telegramBot.js';
+import { describeTimeForViewer, getZonedMinutesOfDay } from './timeZones.js';
+import { getLateDoseAdvice } from './lateDoses.js';
 
 // Configuration - Tiered notification thresholds
 // Push/Telegram come FIRST, email comes LATER
@@ -75,16 +78,14 @@ function parseTimeString(timeStr) {
 
 /**
  * Calculate minutes since a scheduled time (with decimal precision)
+ * The scheduled time is read on the patient's clock (their profile time zone)
  */
-function minutesSinceScheduledTime(scheduledTime, currentTime = new Date()) {
+function minutesSinceScheduledTime(scheduledTime, currentTime = new Date(), timeZone) {
   const parsed = parseTimeString(scheduledTime);
   if (!parsed) return null;
   
-  const scheduledDate = new Date(currentTime);
-  scheduledDate.setHours(parsed.hours, parsed.minutes, 0, 0);
-  
-  const diffMs = currentTime.getTime() - scheduledDate.getTime();
-  return diffMs / 60000; // Convert to minutes (with decimals for precision)
+  const scheduledMinutes = parsed.hours * 60 + parsed.minutes;
+  return getZonedMinutesOfDay(currentTime, timeZone) - scheduledMinutes;
 }
 
 /**
@@ -101,7 +102,9 @@ async function processBatched(items, fn, concurrency) {
 }
 
 /**
- * Check all medications for missed doses and send TIERED notifications
+ * Check today's doses for missed ones and send TIERED notifications
+ * Each dose instance escalates on its own, so a later dose of the same
+ * medication still alerts after an earlier one was handled
  * 
  * Notification Timeline:
  * - 30 seconds (0.5 min): First push notification
@@ -131,36 +134,57 @@ export async function checkAndNotifyMissedDoses() {
     details: [],
   };
   
-  // STEP 1: Get all untaken medications
-  const { medications, error: fetchError } = await getMedicationsToCheck();
+  // STEP 1: Get today's untaken doses
+  const { doses, error: fetchError } = await getDosesToCheck();
   
   if (fetchError) {
-    console.error('[Notifications] Failed to fetch medications:', fetchError);
-    results.errors.push(`Failed to fetch medications: ${fetchError}`);
+    console.error('[Notifications] Failed to fetch doses:', fetchError);
+    results.errors.push(`Failed to fetch doses: ${fetchError}`);
     return results;
   }
   
-  console.log(`[Notifications] Found ${medications.length} untaken medications`);
-  results.checked = medications.length;
+  console.log(`[Notifications] Found ${doses.length} untaken doses`);
+  results.checked = doses.length;
 
-  if (medications.length === 0) {
+  if (doses.length === 0) {
     return results;
   }
 
+  // Snoozed doses hold back alerts; escalation restarts when the snooze ends
+  const { snoozes, error: snoozeError } = await getDoseSnoozes(
+    [...new Set(doses.map(d => d.id))],
+    now,
+    new Map(doses.map(d => [d.id, d.timeZone]))
+  );
+
+  if (snoozeError) {
+    results.errors.push(`Failed to check snoozes: ${snoozeError}`);
+  }
+
   // STEP 2: Categorize medications by notification tier
   const pushFirstMeds = [];   // >= 30 seconds
   const pushSecondMeds = [];  // >= 1 minute  
   const telegramMeds = [];    // >= 1.5 minutes
   const emailMeds = [];       // >= 3 minutes
   
-  for (const med of medications) {
-    const scheduledTime = med.time || med.start_time;
-    const minutesMissed = minutesSinceScheduledTime(scheduledTime, now);
+  for (const med of doses) {
+    const { scheduledTime } = med;
+    let minutesMissed = minutesSinceScheduledTime(scheduledTime, now, med.timeZone);
     
     if (minutesMissed === null) {
       console.log(`[Notifications] Could not parse time for ${med.name}: ${scheduledTime}`);
       continue;
     }
+
+    const snooze = snoozes.get(`${med.id}|${scheduledTime}`);
+    if (snooze) {
+      const minutesSinceSnooze = (now.getTime() - new Date(snooze.snooze_until).getTime()) / 60000;
+      if (minutesSinceSnooze < 0) {
+        console.log(`[Notifications] Skipping ${med.name} - snoozed until ${snooze.snooze_until}`);
+        continue;
+      }
+      minutesMissed = Math.min(minutesMissed, minutesSinceSnooze);
+    }
     
     if (minutesMissed < NOTIFICATION_CONFIG.PUSH_FIRST_THRESHOLD_MINUTES) {
       continue; // Not missed yet (less than 30 seconds)
@@ -173,8 +197,9 @@ export async function checkAndNotifyMissedDoses() {
     
     const medWithTime = {
       ...med,
-      scheduledTime,
       minutesMissed,
+      // "Take now or skip?" for companions to pass on
+      lateAdvice: getLateDoseAdvice(med, scheduledTime, now, med.timeZone)?.message ?? null,
     };
     
     // Categorize by tier
@@ -200,7 +225,7 @@ export async function checkAndNotifyMissedDoses() {
   }
 
   // STEP 3: Batch fetch companions for all affected patients
-  const allMeds = [...new Map([...pushFirstMeds, ...pushSecondMeds, ...telegramMeds, ...emailMeds].map(m => [m.id, m])).values()];
+  const allMeds = [...new Set([...pushFirstMeds, ...pushSecondMeds, ...telegramMeds, ...emailMeds])];
   const patientIds = [...new Set(allMeds.map(m => m.user_id))];
   const { companionsByPatient, error: companionError } = await getLinkedCompanionsForPatients(patientIds);
   
@@ -210,8 +235,9 @@ export async function checkAndNotifyMissedDoses() {
   }
 
   // STEP 4: Check notification history (tracks push_first, push_second, email separately)
-  const medicationIds = allMeds.map(m => m.id);
-  const { sentPairs, error: historyError } = await getNotificationsSentToday(medicationIds, now);
+  const medicationIds = [...new Set(allMeds.map(m => m.id))];
+  const timeZones = new Map(allMeds.map(m => [m.id, m.timeZone]));
+  const { sentPairs, error: historyError } = await getNotificationsSentToday(medicationIds, now, timeZones);
   
   if (historyError) {
     results.errors.push(`Failed to check notification history: ${historyError}`);
@@ -228,18 +254,23 @@ export async function checkAndNotifyMissedDoses() {
       const patientName = med.user?.name || 'Your patient';
       
       for (const companion of companions) {
-        const pairKey = `${med.id}|${companion.id}|push_first`;
+        const pairKey = `${med.id}|${med.scheduledTime}|${companion.id}|push_first`;
         if (sentPairs.has(pairKey)) continue;
         
         try {
           const pushResult = await sendMissedMedicationPush({
             companionId: companion.id,
+            patientId: med.user_id,
             patientName,
+            patientPhone: med.user?.phone || null,
             medicationName: med.name,
             dosage: med.dosage,
-            scheduledTime: med.scheduledTime,
+            scheduledTime: describeTimeForViewer(med.scheduledTime, med.timeZone, companion.timeZone),
+            doseTime: med.scheduledTime,
             minutesMissed: med.minutesMissed,
             medicationId: med.id,
+            timeZone: med.timeZone,
+            lateAdvice: med.lateAdvice,
           });
           
           if (pushResult.success) {
@@ -275,18 +306,23 @@ export async function checkAndNotifyMissedDoses() {
       const patientName = med.user?.name || 'Your patient';
       
       for (const companion of companions) {
-        const pairKey = `${med.id}|${companion.id}|push_second`;
+        const pairKey = `${med.id}|${med.scheduledTime}|${companion.id}|push_second`;
         if (sentPairs.has(pairKey)) continue;
         
         try {
           const pushResult = await sendMissedMedicationPush({
             companionId: companion.id,
+            patientId: med.user_id,
             patientName,
+            patientPhone: med.user?.phone || null,
             medicationName: med.name,
             dosage: med.dosage,
-            scheduledTime: med.scheduledTime,
+            scheduledTime: describeTimeForViewer(med.scheduledTime, med.timeZone, companion.timeZone),
+            doseTime: med.scheduledTime,
             minutesMissed: med.minutesMissed,
             medicationId: med.id,
+            timeZone: med.timeZone,
+            lateAdvice: med.lateAdvice,
           });
           
           if (pushResult.success) {
@@ -322,7 +358,7 @@ export async function checkAndNotifyMissedDoses() {
       const patientName = med.user?.name || 'Your patient';
       
       for (const companion of companions) {
-        const pairKey = `${med.id}|${companion.id}|telegram`;
+        const pairKey = `${med.id}|${med.scheduledTime}|${companion.id}|telegram`;
         if (sentPairs.has(pairKey)) continue;
         
         try {
@@ -331,7 +367,7 @@ export async function checkAndNotifyMissedDoses() {
             patientName,
             medicationName: med.name,
             dosage: med.dosage,
-            scheduledTime: med.scheduledTime,
+            scheduledTime: describeTimeForViewer(med.scheduledTime, med.timeZone, companion.timeZone),
             minutesMissed: med.minutesMissed,
           });
           
@@ -370,7 +406,7 @@ export async function checkAndNotifyMissedDoses() {
       for (const companion of companions) {
         if (!companion.email) continue;
         
-        const pairKey = `${med.id}|${companion.id}|email`;
+        const pairKey = `${med.id}|${med.scheduledTime}|${companion.id}|email`;
         if (sentPairs.has(pairKey)) continue;
         
         try {
@@ -380,7 +416,7 @@ export async function checkAndNotifyMissedDoses() {
             patientName,
             medicationName: med.name,
             dosage: med.dosage,
-            scheduledTime: med.scheduledTime,
+            scheduledTime: describeTimeForViewer(med.scheduledTime, med.timeZone, companion.timeZone),
             minutesMissed: med.minutesMissed,
           });
           
@@ -7,9 +7,12 @@ import {
   getPatientsWithUpcomingMedications,
   getRemindersSentToday,
   recordReminderNotification,
+  getDoseSnoozes,
+  markSnoozesReminded,
 } from './supabase.js';
 import { sendMedicationReminderEmail, isEmailConfigured } from './email.js';
 import { sendPatientReminderTelegram, isTelegramConfigured } from './telegramBot.js';
+import { getZonedMinutesOfDay } from './timeZones.js';
 
 // Configuration
 const REMINDER_CONFIG = {
@@ -17,6 +20,8 @@ const REMINDER_CONFIG = {
   DEFAULT_MINUTES_BEFORE: parseInt(process.env.REMINDER_MINUTES_BEFORE || '5'),
   // Window in minutes to consider a medication "upcoming"
   WINDOW_MINUTES: parseInt(process.env.REMINDER_WINDOW || '2'),
+  // How long after a snooze ends the patient can still be re-reminded
+  SNOOZE_REMINDER_WINDOW_MINUTES: parseInt(process.env.SNOOZE_REMINDER_WINDOW || '30'),
   // Whether to enable reminders
   ENABLED: process.env.PATIENT_REMINDERS_ENABLED !== 'false',
 };
@@ -56,18 +61,15 @@ function parseTimeString(timeStr) {
 }
 
 /**
- * Calculate minutes until a scheduled time from now
+ * Calculate minutes until a scheduled time from now, on the patient's clock
  * Returns negative if time has passed
  */
-function minutesUntilScheduledTime(scheduledTime, currentTime = new Date()) {
+function minutesUntilScheduledTime(scheduledTime, currentTime = new Date(), timeZone) {
   const parsed = parseTimeString(scheduledTime);
   if (!parsed) return null;
   
-  const scheduledDate = new Date(currentTime);
-  scheduledDate.setHours(parsed.hours, parsed.minutes, 0, 0);
-  
-  const diffMs = scheduledDate.getTime() - currentTime.getTime();
-  return Math.floor(diffMs / 60000); // Convert to minutes
+  const scheduledMinutes = parsed.hours * 60 + parsed.minutes;
+  return Math.floor(scheduledMinutes - getZonedMinutesOfDay(currentTime, timeZone));
 }
 
 /**
@@ -75,10 +77,11 @@ function minutesUntilScheduledTime(scheduledTime, currentTime = new Date()) {
  * @param {string} scheduledTime - Time string like "8:00 AM"
  * @param {number} reminderMinutes - Minutes before to send reminder
  * @param {Date} currentTime - Current time
+ * @param {string} [timeZone] - Patient's IANA time zone
  * @returns {boolean} Whether to send reminder now
  */
-function isInReminderWindow(scheduledTime, reminderMinutes, currentTime = new Date()) {
-  const minutesUntil = minutesUntilScheduledTime(scheduledTime, currentTime);
+function isInReminderWindow(scheduledTime, reminderMinutes, currentTime = new Date(), timeZone) {
+  const minutesUntil = minutesUntilScheduledTime(scheduledTime, currentTime, timeZone);
   if (minutesUntil === null) return false;
   
   // Check if within window: reminderMinutes - WINDOW_MINUTES to reminderMinutes + WINDOW_MINUTES
@@ -137,12 +140,21 @@ export async function checkAndSendPatientReminders() {
   }
 
   // Step 2: Check which reminders were already sent today
-  const { sentSet, error: historyError } = await getRemindersSentToday(allMedicationIds, now);
+  const timeZones = new Map(
+    patients.flatMap(patient => patient.medications.map(med => [med.id, patient.timeZone]))
+  );
+  const { sentSet, error: historyError } = await getRemindersSentToday(allMedicationIds, now, timeZones);
   
   if (historyError) {
     results.errors.push(`Failed to check reminder history: ${historyError}`);
   }
 
+  const { snoozes, error: snoozeError } = await getDoseSnoozes(allMedicationIds, now, timeZones);
+
+  if (snoozeError) {
+    results.errors.push(`Failed to check snoozes: ${snoozeError}`);
+  }
+
   // Step 3: Find medications that are upcoming and need reminders
   const remindersToSend = [];
 
@@ -150,21 +162,44 @@ export async function checkAndSendPatientReminders() {
     const reminderMinutes = patient.email_reminder_minutes || REMINDER_CONFIG.DEFAULT_MINUTES_BEFORE;
     
     for (const med of patient.medications) {
-      // Skip if already reminded today
-      if (sentSet.has(med.id)) {
-        continue;
-      }
+      // Each of today's open doses is reminded about on its own
+      for (const dose of med.doses) {
+        const scheduledTime = dose.time;
 
-      // Check the main medication time
-      const scheduledTime = med.time || med.start_time;
-      if (scheduledTime && isInReminderWindow(scheduledTime, reminderMinutes, now)) {
-        const minutesUntil = minutesUntilScheduledTime(scheduledTime, now);
-        remindersToSend.push({
-          patient,
-          medication: med,
-          scheduledTime,
-          minutesUntil: Math.max(1, minutesUntil), // At least 1 minute
-        });
+        // A snoozed dose is held back until the snooze ends, then reminded once more
+        const snooze = snoozes.get(`${med.id}|${scheduledTime}`);
+        if (snooze) {
+          const minutesSinceSnooze = (now.getTime() - new Date(snooze.snooze_until).getTime()) / 60000;
+          if (
+            minutesSinceSnooze >= 0 &&
+            minutesSinceSnooze <= REMINDER_CONFIG.SNOOZE_REMINDER_WINDOW_MINUTES &&
+            !snooze.reminded_at
+          ) {
+            remindersToSend.push({
+              patient,
+              medication: med,
+              scheduledTime,
+              minutesUntil: 1, // Due now
+              snoozeId: snooze.id,
+            });
+          }
+          continue;
+        }
+
+        // Skip if this dose was already reminded today
+        if (sentSet.has(`${med.id}|${scheduledTime}`)) {
+          continue;
+        }
+
+        if (isInReminderWindow(scheduledTime, reminderMinutes, now, patient.timeZone)) {
+          const minutesUntil = minutesUntilScheduledTime(scheduledTime, now, patient.timeZone);
+          remindersToSend.push({
+            patient,
+            medication: med,
+            scheduledTime,
+            minutesUntil: Math.max(1, minutesUntil), // At least 1 minute
+          });
+        }
       }
     }
   }
@@ -178,7 +213,7 @@ export async function checkAndSendPatientReminders() {
 
   // Step 4: Send reminders (both Email and Telegram)
   for (const reminder of remindersToSend) {
-    const { patient, medication, scheduledTime, minutesUntil } = reminder;
+    const { patient, medication, scheduledTime, minutesUntil, snoozeId } = reminder;
     
     console.log(`[PatientReminders] Sending reminder to ${patient.name} for ${medication.name}`);
 
@@ -245,6 +280,10 @@ export async function checkAndSendPatientReminders() {
         scheduledTime,
         status: 'sent',
       });
+
+      if (snoozeId) {
+        await markSnoozesReminded([snoozeId]);
+      }
     } else if (!patient.email && !patient.telegram_chat_id) {
       console.log(`[PatientReminders] Patient ${patient.name} has no contact method (email or Telegram)`);
     }
@@ -5,6 +5,8 @@
 
 import webpush from 'web-push';
 import { supabase, isSupabaseConfigured } from './supabase.js';
+import { toZonedDateString } from './timeZones.js';
+import { createDoseActionToken, getDoseActionUrl } from './doseActions.js';
 
 // VAPID Configuration
 const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY;
@@ -182,6 +184,7 @@ export async function sendPushNotification(userId, payload) {
     data: payload.data || {},
     actions: payload.actions || [],
     requireInteraction: payload.requireInteraction || false,
+    renotify: payload.renotify || false,
   });
 
   const results = [];
@@ -249,26 +252,52 @@ export async function sendPushNotificationToMultiple(userIds, payload) {
 
 /**
  * Send missed medication push notification to companions
+ * Carries "Call patient" (when their number is known) and "Acknowledge";
+ * acknowledging stops further escalation to this companion for the dose
+ * scheduledTime is shown to the companion; doseTime is the dose's own time on
+ * the patient's schedule, which the acknowledgement is recorded against
  */
 export async function sendMissedMedicationPush({
   companionId,
+  patientId,
   patientName,
+  patientPhone,
   medicationName,
   dosage,
   scheduledTime,
+  doseTime = scheduledTime,
   minutesMissed,
   medicationId,
+  timeZone,
+  lateAdvice,
 }) {
-  // Use a stable tag based on medication + scheduled time so repeat notifications
+  // Use a stable tag based on the dose + the patient's day so repeat notifications
   // replace the previous one instead of creating multiple stacked notifications
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  const stableTag = medicationId 
-    ? `missed-med-${medicationId}-${today}`
-    : `missed-med-${patientName}-${medicationName}-${scheduledTime}`.replace(/\s+/g, '-');
+  const today = toZonedDateString(new Date(), timeZone); // YYYY-MM-DD
+  const stableTag = (medicationId
+    ? `missed-med-${medicationId}-${today}-${doseTime}`
+    : `missed-med-${patientName}-${medicationName}-${scheduledTime}`).replace(/\s+/g, '-');
+
+  const ackToken = patientId && medicationId
+    ? createDoseActionToken('ack', companionId, {
+        patientId,
+        companionId,
+        medicationId,
+        medicationName,
+        scheduledTime: doseTime,
+      })
+    : null;
+
+  const actions = [];
+  if (patientPhone) actions.push({ action: 'call', title: '📞 Call patient' });
+  if (ackToken) actions.push({ action: 'acknowledge', title: '👍 Acknowledge' });
+  if (actions.length < 2) actions.push({ action: 'view', title: 'View Details' });
 
   const payload = {
     title: `⚠️ Missed Medication Alert`,
-    body: `${patientName} missed ${medicationName} (${dosage}) scheduled at ${scheduledTime}`,
+    body: `${patientName} missed ${medicationName} (${dosage}) scheduled at ${scheduledTime}${
+      lateAdvice ? `\n💡 ${lateAdvice}` : ''
+    }`,
     icon: '/icon.ico',
     badge: '/icon.ico',
     tag: stableTag,
@@ -281,17 +310,83 @@ export async function sendMissedMedicationPush({
       dosage,
       scheduledTime,
       minutesMissed,
-      url: '/companion',
+      lateAdvice: lateAdvice || null,
+      patientPhone: patientPhone || null,
+      actionToken: ackToken,
+      actionUrl: ackToken ? getDoseActionUrl('/acknowledge') : null,
+      url: patientId ? `/companion/patient/${patientId}` : '/companion',
     },
-    actions: [
-      { action: 'view', title: 'View Details' },
-      { action: 'dismiss', title: 'Dismiss' },
-    ],
+    actions,
   };
 
   return sendPushNotification(companionId, payload);
 }
 
+/**
+ * Notification tag for one dose instance; the in-page alarm uses the same tag
+ * (see useAlarmScheduler), so whichever rings first is replaced, not doubled
+ */
+export function getDoseAlarmTag(medicationId, scheduledDate, scheduledTime) {
+  return `dose-alarm-${medicationId}-${scheduledDate}-${scheduledTime}`.replace(/\s+/g, '-');
+}
+
+/**
+ * Send a "time for your dose" alarm to a patient's devices
+ * "Taken" and "Snooze 10 min" record the dose without opening the app
+ */
+export async function sendDoseAlarmPush({
+  patientId,
+  medicationId,
+  doseId,
+  medicationName,
+  dosage,
+  scheduledTime,
+  scheduledDate,
+  snoozeCount = 0,
+}) {
+  const actionToken = createDoseActionToken('dose', patientId, {
+    patientId,
+    medicationId,
+    doseId: doseId || null,
+    medicationName,
+    scheduledTime,
+    scheduledDate,
+  });
+
+  const payload = {
+    title: `💊 Time for ${medicationName}`,
+    body: snoozeCount > 0
+      ? `Snooze over: take ${dosage} (due at ${scheduledTime})`
+      : `Take ${dosage} now (${scheduledTime})`,
+    icon: '/icon.ico',
+    badge: '/icon.ico',
+    tag: getDoseAlarmTag(medicationId, scheduledDate, scheduledTime),
+    requireInteraction: true,
+    renotify: true,
+    data: {
+      type: 'dose_alarm',
+      medicationId,
+      doseId: doseId || null,
+      medicationName,
+      dosage,
+      scheduledTime,
+      scheduledDate,
+      snoozeCount,
+      actionToken,
+      actionUrl: actionToken ? getDoseActionUrl() : null,
+      url: '/dashboard',
+    },
+    actions: actionToken
+      ? [
+          { action: 'taken', title: '✅ Taken' },
+          { action: 'snooze', title: '⏰ Snooze 10 min' },
+        ]
+      : [],
+  };
+
+  return sendPushNotification(patientId, payload);
+}
+
 /**
  * Send prescription expiring push notification
  */
@@ -322,6 +417,39 @@ export async function sendPrescriptionExpiringPush({
   return sendPushNotification(companionId, payload);
 }
 
+/**
+ * Send low pill supply push notification to a patient or companion
+ */
+export async function sendLowStockPush({
+  userId,
+  patientName,
+  medicationName,
+  daysOfSupply,
+  pillsOnHand,
+  isPatient,
+}) {
+  const urgency = daysOfSupply <= 1 ? '🔴' : daysOfSupply <= 3 ? '🟠' : '🟡';
+  const whose = isPatient ? 'Your' : `${patientName}'s`;
+  const timeText = daysOfSupply === 0 ? 'runs out today' : `lasts about ${daysOfSupply} more day(s)`;
+
+  const payload = {
+    title: `${urgency} Running Low on ${medicationName}`,
+    body: `${whose} supply (${pillsOnHand} left) ${timeText}. Time to refill.`,
+    icon: '/icon.ico',
+    badge: '/icon.ico',
+    tag: `low-stock-${Date.now()}`,
+    data: {
+      type: 'low_stock',
+      patientName,
+      medicationName,
+      daysOfSupply,
+      url: isPatient ? '/dashboard' : '/companion',
+    },
+  };
+
+  return sendPushNotification(userId, payload);
+}
+
 /**
  * Send a test push notification
  */
@@ -0,0 +1,185 @@
+// ============================================
+// Refill Reminders Service - Low Pill Supply Alerts
+// Notifies patients and their linked companions when a
+// medication's tracked supply is about to run out
+// ============================================
+
+import {
+  getLowStockMedications,
+  getLowStockAlertsSentToday,
+  getLinkedCompanionsForPatients,
+  recordNotificationsBatch,
+} from './supabase.js';
+import { sendEmail, isEmailConfigured } from './email.js';
+import { sendLowStockPush, isPushNotificationConfigured } from './pushNotifications.js';
+
+// Configuration
+const REFILL_CONFIG = {
+  // Alert when the supply lasts this many days or fewer
+  THRESHOLD_DAYS: parseInt(process.env.LOW_STOCK_THRESHOLD_DAYS || '7'),
+  // Whether to enable low-stock reminders
+  ENABLED: process.env.REFILL_REMINDERS_ENABLED !== 'false',
+};
+
+/**
+ * Build the low-stock message shown in emails and stored in history
+ */
+function buildLowStockMessage(med, isPatient) {
+  const whose = isPatient ? 'Your' : `${med.userName}'s`;
+  const timeText = med.daysOfSupply === 0
+    ? 'runs out today'
+    : `will last about ${med.daysOfSupply} more day(s)`;
+  return `${whose} supply of ${med.name} (${med.pillsOnHand} left) ${timeText}.`;
+}
+
+/**
+ * Send one low-stock alert over every configured channel
+ * Returns the notification history records for what was sent
+ */
+async function sendLowStockAlert(med, recipient, isPatient) {
+  const message = buildLowStockMessage(med, isPatient);
+  const records = [];
+
+  if (isPushNotificationConfigured()) {
+    const pushResult = await sendLowStockPush({
+      userId: recipient.id,
+      patientName: med.userName,
+      medicationName: med.name,
+      daysOfSupply: med.daysOfSupply,
+      pillsOnHand: med.pillsOnHand,
+      isPatient,
+    });
+
+    if (pushResult.success) {
+      records.push({
+        patientId: med.userId,
+        companionId: recipient.id,
+        medicationId: med.id,
+        type: 'low_stock',
+        channel: 'push',
+        message,
+        status: 'sent',
+      });
+    }
+  }
+
+  if (isEmailConfigured() && recipient.email) {
+    const emailResult = await sendEmail({
+      to: recipient.email,
+      subject: `💊 Running low on ${med.name}`,
+      htmlContent: `
+        <h2>Time to Refill ${med.name}</h2>
+        <p>Hello ${recipient.name},</p>
+        <p>${message}</p>
+        <p>Please arrange a pharmacy refill soon, then log it in AInay so the supply stays accurate.</p>
+        <hr>
+        <p style="color: #666; font-size: 12px;">This notification was sent by AInay Companion Care.</p>
+      `,
+      textContent: `${message}\n\nPlease arrange a pharmacy refill soon, then log it in AInay.`,
+    });
+
+    records.push({
+      patientId: med.userId,
+      companionId: recipient.id,
+      medicationId: med.id,
+      type: 'low_stock',
+      channel: 'email',
+      recipientEmail: recipient.email,
+      message,
+      status: emailResult.success ? 'sent' : 'failed',
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Main function to check pill supplies and send low-stock reminders
+ * Each patient and companion is alerted at most once a day per medication
+ */
+export async function checkAndSendLowStockReminders() {
+  if (!REFILL_CONFIG.ENABLED) {
+    console.log('[RefillReminders] Low-stock reminders are disabled');
+    return { checked: 0, sent: 0, errors: [] };
+  }
+
+  console.log('[RefillReminders] Checking pill supplies...');
+
+  const results = {
+    checked: 0,
+    sent: 0,
+    errors: [],
+  };
+
+  // Step 1: Find medications running low
+  const { medications, error: fetchError } = await getLowStockMedications(
+    REFILL_CONFIG.THRESHOLD_DAYS
+  );
+
+  if (fetchError) {
+    console.error('[RefillReminders] Failed to fetch medications:', fetchError);
+    results.errors.push(`Failed to fetch medications: ${fetchError}`);
+    return results;
+  }
+
+  results.checked = medications.length;
+  if (medications.length === 0) {
+    console.log('[RefillReminders] No medications running low');
+    return results;
+  }
+
+  // Step 2: Look up companions and today's alerts in batch
+  const patientIds = [...new Set(medications.map(m => m.userId))];
+  const [{ companionsByPatient }, { sentPairs }] = await Promise.all([
+    getLinkedCompanionsForPatients(patientIds),
+    getLowStockAlertsSentToday(medications.map(m => m.id), new Date()),
+  ]);
+
+  // Step 3: Alert the patient and each linked companion
+  const records = [];
+  for (const med of medications) {
+    const recipients = [
+      { id: med.userId, name: med.userName, email: med.userEmail, isPatient: true },
+      ...(companionsByPatient.get(med.userId) || []).map(c => ({ ...c, isPatient: false })),
+    ];
+
+    for (const recipient of recipients) {
+      if (sentPairs.has(`${med.id}-${recipient.id}`)) continue;
+
+      try {
+        const sent = await sendLowStockAlert(med, recipient, recipient.isPatient);
+        records.push(...sent);
+        results.sent += sent.filter(r => r.status === 'sent').length;
+      } catch (error) {
+        console.error(`[RefillReminders] Failed to alert ${recipient.id}:`, error);
+        results.errors.push(`${med.name}: ${error.message}`);
+      }
+    }
+  }
+
+  // Step 4: Record what was sent so we don't repeat it today
+  if (records.length > 0) {
+    const { error: recordError } = await recordNotificationsBatch(records);
+    if (recordError) {
+      results.errors.push(`Failed to record notifications: ${recordError}`);
+    }
+  }
+
+  console.log(
+    `[RefillReminders] ${medications.length} medication(s) low, sent ${results.sent} alert(s)`
+  );
+
+  return results;
+}
+
+/**
+ * Get refill reminders service status
+ */
+export function getRefillReminderStatus() {
+  return {
+    enabled: REFILL_CONFIG.ENABLED,
+    thresholdDays: REFILL_CONFIG.THRESHOLD_DAYS,
+    emailConfigured: isEmailConfigured(),
+    pushConfigured: isPushNotificationConfigured(),
+  };
+}
@@ -4,6 +4,9 @@
 // ============================================
 
 import { createClient } from '@supabase/supabase-js';
+import { getAverageDosesPerDay } from './doseDays.js';
+import { getDosesForDate, getRoutine } from './doseSchedule.js';
+import { getZonedMinutesOfDay, resolveTimeZone, toZonedDateString } from './timeZones.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -28,63 +31,122 @@ export function isSupabaseConfigured() {
   return !!supabaseUrl && !!supabaseServiceKey;
 }
 
+// Medication columns a day's doses are worked out from (see getDosesForDate)
+const DOSE_SCHEDULE_COLUMNS = `
+  time,
+  start_time,
+  frequency,
+  custom_frequency,
+  start_date,
+  end_date,
+  days_of_week,
+  cycle_days_on,
+  cycle_days_off,
+  next_day_mode,
+  dose_phases,
+  dose_anchors,
+  doses:schedule_doses(id, time)
+`;
+
+// Profile columns of the daily routine anchored doses follow
+const ROUTINE_COLUMNS = 'wake_time, breakfast_time, lunch_time, dinner_time, sleep_time';
+
 /**
- * Get all active medications that need to be checked for missed doses
+ * Get today's dose instances that need to be checked for missed doses
+ * One entry per dose (medication, patient's date, scheduled time), worked out
+ * from the taper phase, routine anchors and date bounds in effect today
  * Uses two queries to fetch medications and their associated user profiles
  */
-export async function getMedicationsToCheck() {
-  // Step 1: Fetch active, untaken medications
-  const { data: medications, error: medError } = await supabase
+export async function getDosesToCheck() {
+  // Step 1: Fetch active medications
+  const { data: allMedications, error: medError } = await supabase
     .from('medications')
     .select(`
       id,
       user_id,
       name,
       dosage,
-      time,
-      taken,
-      taken_at,
-      frequency,
-      start_time,
       is_active,
-      updated_at
+      late_dose_rule,
+      late_dose_cutoff_minutes,
+      updated_at,
+      ${DOSE_SCHEDULE_COLUMNS}
     `)
-    .eq('is_active', true)
-    .eq('taken', false);
+    .eq('is_active', true);
 
   if (medError) {
     console.error('[Supabase] Error fetching medications:', medError);
-    return { medications: [], error: medError.message };
+    return { doses: [], error: medError.message };
   }
 
-  if (!medications || medications.length === 0) {
-    return { medications: [], error: null };
+  if (!allMedications || allMedications.length === 0) {
+    return { doses: [], error: null };
   }
 
   // Step 2: Fetch user profiles for these medications
-  const userIds = [...new Set(medications.map(m => m.user_id))];
+  const userIds = [...new Set(allMedications.map(m => m.user_id))];
   const { data: profiles, error: profileError } = await supabase
     .from('profiles')
-    .select('id, name, email')
+    .select(`id, name, email, timezone, phone, ${ROUTINE_COLUMNS}`)
     .in('id', userIds);
 
   if (profileError) {
     console.error('[Supabase] Error fetching profiles:', profileError);
-    // Return medications without user info rather than failing entirely
-    return { 
-      medications: medications.map(m => ({ ...m, user: null })), 
-      error: null 
-    };
+    // Check doses without user info (server zone, default routine) rather than failing entirely
   }
 
-  // Step 3: Map profiles to medications
+  // Step 3: Expand each medication into today's doses on the patient's calendar
+  // Nothing can be missed on an off day, outside a taper or past the end date
   const profileMap = new Map((profiles || []).map(p => [p.id, p]));
-  const medicationsWithUsers = medications.map(med => ({
-    ...med,
-    user: profileMap.get(med.user_id) || null,
-  }));
+  const now = new Date();
+  const doses = [];
+  for (const med of allMedications) {
+    const user = profileMap.get(med.user_id) || null;
+    const timeZone = resolveTimeZone(user?.timezone);
+    const scheduledDate = toZonedDateString(now, timeZone);
+    const todaysDoses = getDosesForDate(med, scheduledDate, getRoutine(user));
+
+    for (const dose of todaysDoses) {
+      doses.push({
+        ...med,
+        dosage: dose.dosage,
+        doses: todaysDoses,
+        doseId: dose.id,
+        scheduledDate,
+        scheduledTime: dose.time,
+        user,
+        timeZone,
+      });
+    }
+  }
+
+  // Step 4: Drop dose instances already taken or deliberately skipped
+  // Only pending (or not yet generated) instances can be missed
+  if (doses.length === 0) {
+    return { doses, error: null };
+  }
 
-  return { medications: medicationsWithUsers, error: null };
+  const { data: resolved, error: resolvedError } = await supabase
+    .from('dose_history')
+    .select('medication_id, scheduled_date, scheduled_time')
+    .in('medication_id', [...new Set(doses.map(d => d.id))])
+    .in('status', ['taken', 'skipped'])
+    .gte('scheduled_date', toZonedDateString(new Date(now.getTime() - 86400000), 'UTC'))
+    .lte('scheduled_date', toZonedDateString(new Date(now.getTime() + 86400000), 'UTC'));
+
+  if (resolvedError) {
+    console.error('[Supabase] Error fetching resolved doses:', resolvedError);
+    return { doses: [], error: resolvedError.message };
+  }
+
+  const resolvedDoses = new Set(
+    (resolved || []).map(h => `${h.medication_id}|${h.scheduled_date}|${h.scheduled_time}`)
+  );
+
+  return {
+    doses: doses.filter(d => !resolvedDoses.has(`${d.id}|${d.scheduledDate}|${d.scheduledTime}`)),
+    error: null,
+  };
 }
 
 /**
@@ -170,7 +232,7 @@ export async function getLinkedCompanionsForPatients(patientIds) {
   const companionIds = [...new Set(links.map(l => l.companion_id))];
   const { data: profiles, error: profileError } = await supabase
     .from('profiles')
-    .select('id, name, email')
+    .select('id, name, email, timezone')
     .in('id', companionIds);
 
   if (profileError) {
@@ -188,6 +250,7 @@ export async function getLinkedCompanionsForPatients(patientIds) {
       id: profile?.id || link.companion_id,
       name: profile?.name || 'Companion',
       email: profile?.email,
+      timeZone: profile?.timezone || null,
     });
     companionsByPatient.set(link.patient_id, patientCompanions);
   }
@@ -287,48 +350,70 @@ export async function wasNotificationAlreadySent(medicationId, companionId, date
   return data && data.length > 0;
 }
 
+// Widest gap between UTC and a local clock (UTC-12 to UTC+14), so a
+// lookback this long covers "today" in every patient's time zone
+const ANY_ZONE_DAY_MS = 40 * 60 * 60 * 1000;
+
+/**
+ * Keep history rows sent on the same calendar day as `date` in their
+ * medication's time zone (server local day when no zone is known)
+ */
+function filterSentOnPatientDay(rows, date, timeZones) {
+  return (rows || []).filter(row => {
+    const timeZone = timeZones?.get(row.medication_id);
+    if (!timeZone) {
+      return new Date(row.sent_at).toDateString() === new Date(date).toDateString();
+    }
+    return toZonedDateString(new Date(row.sent_at), timeZone) === toZonedDateString(new Date(date), timeZone);
+  });
+}
+
 /**
- * Check notifications sent today for multiple medication-companion pairs
+ * Check notifications sent today for multiple dose-companion pairs
  * OPTIMIZATION: Batch check instead of individual queries
+ * Each dose (medication and scheduled time) escalates on its own
  * Now tracks different notification types: push_first, push_second, email
+ * A companion who acknowledged a missed dose counts as notified on every tier
+ * "Today" is the patient's day when timeZones (medication ID -> IANA zone) is given
  */
-export async function getNotificationsSentToday(medicationIds, date) {
+export async function getNotificationsSentToday(medicationIds, date, timeZones) {
   if (!medicationIds || medicationIds.length === 0) {
     return { sentPairs: new Set(), error: null };
   }
 
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-  
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+  const since = new Date(new Date(date).getTime() - ANY_ZONE_DAY_MS);
 
   const { data, error } = await supabase
     .from('notification_history')
-    .select('medication_id, companion_id, type')
+    .select('medication_id, companion_id, type, scheduled_time, sent_at')
     .in('medication_id', medicationIds)
-    .in('type', ['missed_medication', 'missed_medication_push_first', 'missed_medication_push_second', 'missed_medication_telegram', 'missed_medication_email'])
-    .gte('sent_at', startOfDay.toISOString())
-    .lte('sent_at', endOfDay.toISOString());
+    .in('type', ['missed_medication', 'missed_medication_push_first', 'missed_medication_push_second', 'missed_medication_telegram', 'missed_medication_email', 'missed_medication_acknowledged'])
+    .gte('sent_at', since.toISOString());
 
   if (error) {
     console.error('[Supabase] Error checking notification history:', error);
     return { sentPairs: new Set(), error: error.message };
   }
 
-  // Create a Set of "medicationId|companionId|type" pairs for O(1) lookup
+  // Create a Set of "medicationId|scheduledTime|companionId|type" keys for O(1) lookup
   // This allows tracking each notification tier separately
   const sentPairs = new Set();
-  for (const d of (data || [])) {
+  for (const d of filterSentOnPatientDay(data, date, timeZones)) {
+    const pair = `${d.medication_id}|${d.scheduled_time}|${d.companion_id}`;
     // Add the specific type
     if (d.type === 'missed_medication_push_first') {
-      sentPairs.add(`${d.medication_id}|${d.companion_id}|push_first`);
+      sentPairs.add(`${pair}|push_first`);
     } else if (d.type === 'missed_medication_push_second') {
-      sentPairs.add(`${d.medication_id}|${d.companion_id}|push_second`);
+      sentPairs.add(`${pair}|push_second`);
     } else if (d.type === 'missed_medication_telegram') {
-      sentPairs.add(`${d.medication_id}|${d.companion_id}|telegram`);
+      sentPairs.add(`${pair}|telegram`);
     } else if (d.type === 'missed_medication_email' || d.type === 'missed_medication') {
-      sentPairs.add(`${d.medication_id}|${d.companion_id}|email`);
+      sentPairs.add(`${pair}|email`);
+    } else if (d.type === 'missed_medication_acknowledged') {
+      // Acknowledged from the alert: stop escalating to this companion
+      for (const tier of ['push_first', 'push_second', 'telegram', 'email']) {
+        sentPairs.add(`${pair}|${tier}`);
+      }
     }
   }
 
@@ -364,13 +449,17 @@ export async function getNotificationStats() {
 
 /**
  * Auto-expire all medications that have passed their end_date
- * This is called by a daily cron job
+ * on the patient's calendar (each profile's time zone)
+ * This is called by an hourly cron job
  */
 export async function autoExpireAllMedications() {
-  const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
+  const now = new Date();
+  // Kiritimati (UTC+14) is the first place to reach each new day; each candidate
+  // is then checked against its patient's own day below
+  const latestToday = toZonedDateString(now, 'Pacific/Kiritimati');
   
-  // Step 1: Find all active medications that have expired (end_date < today)
-  const { data: expiredMeds, error: fetchError } = await supabase
+  // Step 1: Find active medications that may have expired (end_date < today)
+  const { data: candidateMeds, error: fetchError } = await supabase
     .from('medications')
     .select(`
       id, 
@@ -380,7 +469,7 @@ export async function autoExpireAllMedications() {
     `)
     .eq('is_active', true)
     .not('end_date', 'is', null)
-    .lt('end_date', today);
+    .lt('end_date', latestToday);
 
   if (fetchError) {
     console.error('[AutoExpire] Error fetching expired medications:', fetchError);
@@ -391,15 +480,15 @@ export async function autoExpireAllMedications() {
     };
   }
 
-  if (!expiredMeds || expiredMeds.length === 0) {
+  if (!candidateMeds || candidateMeds.length === 0) {
     return { expiredCount: 0, expiredMedications: [], error: null };
   }
 
-  // Step 2: Fetch user profiles for expired medications
-  const userIds = [...new Set(expiredMeds.map(m => m.user_id))];
+  // Step 2: Fetch user profiles for these medications
+  const userIds = [...new Set(candidateMeds.map(m => m.user_id))];
   const { data: profiles, error: profileError } = await supabase
     .from('profiles')
-    .select('id, name, email')
+    .select('id, name, email, timezone')
     .in('id', userIds);
 
   if (profileError) {
@@ -408,14 +497,27 @@ export async function autoExpireAllMedications() {
 
   const profileMap = new Map((profiles || []).map(p => [p.id, p]));
 
+  // Keep only medications whose end date has passed on the patient's calendar
+  const expiredMeds = candidateMeds.filter(m => {
+    const timeZone = resolveTimeZone(profileMap.get(m.user_id)?.timezone);
+    return m.end_date < toZonedDateString(now, timeZone);
+  });
+
+  if (expiredMeds.length === 0) {
+    return { expiredCount: 0, expiredMedications: [], error: null };
+  }
+
   const expiredIds = expiredMeds.map((m) => m.id);
 
-  // Step 3: Mark them as inactive
+  // Step 3: Mark them as inactive (archived as a completed course)
+  const endedAt = new Date().toISOString();
   const { error: updateError } = await supabase
     .from('medications')
     .update({ 
       is_active: false, 
-      updated_at: new Date().toISOString() 
+      ended_at: endedAt,
+      end_reason: 'completed',
+      updated_at: endedAt 
     })
     .in('id', expiredIds);
 
@@ -455,7 +557,7 @@ export async function getPatientsWithUpcomingMedications(minutesBefore = 5) {
   // email_reminder_enabled=true OR telegram_chat_id set
   const { data: patients, error: patientError } = await supabase
     .from('profiles')
-    .select('id, name, email, email_reminder_enabled, email_reminder_minutes, telegram_chat_id')
+    .select(`id, name, email, email_reminder_enabled, email_reminder_minutes, telegram_chat_id, timezone, ${ROUTINE_COLUMNS}`)
     .eq('role', 'patient')
     .or('email_reminder_enabled.eq.true,telegram_chat_id.not.is.null');
 
@@ -468,57 +570,74 @@ export async function getPatientsWithUpcomingMedications(minutesBefore = 5) {
     return { patients: [], error: null };
   }
 
-  // Step 2: Get active medications for these patients
+  // Step 2: Get active medications for these patients, with their scheduled doses
   const patientIds = patients.map(p => p.id);
-  const { data: medications, error: medError } = await supabase
+  const { data: allMedications, error: medError } = await supabase
     .from('medications')
     .select(`
       id,
       user_id,
       name,
       dosage,
-      time,
-      start_time,
-      taken,
-      is_active
+      is_active,
+      ${DOSE_SCHEDULE_COLUMNS}
     `)
     .in('user_id', patientIds)
-    .eq('is_active', true)
-    .eq('taken', false);
+    .eq('is_active', true);
 
   if (medError) {
     console.error('[Supabase] Error fetching medications:', medError);
     return { patients: [], error: medError.message };
   }
 
-  // Step 3: Also get scheduled doses for multi-dose medications
-  const medIds = (medications || []).map(m => m.id);
-  let doses = [];
-  if (medIds.length > 0) {
-    const { data: dosesData, error: dosesError } = await supabase
-      .from('schedule_doses')
-      .select('id, medication_id, time, label, taken')
-      .in('medication_id', medIds)
-      .eq('taken', false);
-    
-    if (!dosesError && dosesData) {
-      doses = dosesData;
+  // Step 3: Work out today's doses on each patient's calendar, and fetch the
+  // dose instances already taken or skipped (those need no reminder)
+  const patientMap = new Map(patients.map(p => [
+    p.id,
+    { ...p, timeZone: resolveTimeZone(p.timezone), medications: [] },
+  ]));
+  const dueMedications = [];
+  for (const med of (allMedications || [])) {
+    const patient = patientMap.get(med.user_id);
+    const scheduledDate = toZonedDateString(now, patient.timeZone);
+    const doses = getDosesForDate(med, scheduledDate, getRoutine(patient));
+    if (doses.length > 0) {
+      dueMedications.push({ med, patient, scheduledDate, doses });
     }
   }
 
-  // Step 4: Map medications to patients
-  const patientMap = new Map(patients.map(p => [p.id, { ...p, medications: [] }]));
-  
-  for (const med of (medications || [])) {
-    const patient = patientMap.get(med.user_id);
-    if (patient) {
-      // Get doses for this medication
-      const medDoses = doses.filter(d => d.medication_id === med.id);
-      patient.medications.push({
-        ...med,
-        doses: medDoses,
-      });
+  let resolvedDoses = new Set();
+  if (dueMedications.length > 0) {
+    const { data: resolved, error: resolvedError } = await supabase
+      .from('dose_history')
+      .select('medication_id, scheduled_date, scheduled_time')
+      .in('medication_id', dueMedications.map(({ med }) => med.id))
+      .in('status', ['taken', 'skipped'])
+      .gte('scheduled_date', toZonedDateString(new Date(now.getTime() - 86400000), 'UTC'))
+      .lte('scheduled_date', toZonedDateString(new Date(now.getTime() + 86400000), 'UTC'));
+
+    if (resolvedError) {
+      console.error('[Supabase] Error fetching resolved doses:', resolvedError);
+      return { patients: [], error: resolvedError.message };
     }
+
+    resolvedDoses = new Set(
+      (resolved || []).map(h => `${h.medication_id}|${h.scheduled_date}|${h.scheduled_time}`)
+    );
+  }
+
+  // Step 4: Map medications to patients with the doses still open today
+  // Each dose is checked against its own instance, so taking the morning dose
+  // still leaves the evening one to remind about
+  for (const { med, patient, scheduledDate, doses } of dueMedications) {
+    const openDoses = doses.filter(d => !resolvedDoses.has(`${med.id}|${scheduledDate}|${d.time}`));
+    if (openDoses.length === 0) continue;
+
+    patient.medications.push({
+      ...med,
+      dosage: openDoses[0].dosage,
+      doses: openDoses,
+    });
   }
 
   return { patients: Array.from(patientMap.values()), error: null };
@@ -526,33 +645,31 @@ export async function getPatientsWithUpcomingMedications(minutesBefore = 5) {
 
 /**
  * Check if a reminder was already sent for this medication/dose today
+ * "Today" is the patient's day when timeZones (medication ID -> IANA zone) is given
  */
-export async function getRemindersSentToday(medicationIds, date) {
+export async function getRemindersSentToday(medicationIds, date, timeZones) {
   if (!medicationIds || medicationIds.length === 0) {
     return { sentSet: new Set(), error: null };
   }
 
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-  
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+  const since = new Date(new Date(date).getTime() - ANY_ZONE_DAY_MS);
 
   const { data, error } = await supabase
     .from('notification_history')
-    .select('medication_id')
+    .select('medication_id, scheduled_time, sent_at')
     .in('medication_id', medicationIds)
     .eq('type', 'medication_reminder')
-    .gte('sent_at', startOfDay.toISOString())
-    .lte('sent_at', endOfDay.toISOString());
+    .gte('sent_at', since.toISOString());
 
   if (error) {
     console.error('[Supabase] Error checking reminder history:', error);
     return { sentSet: new Set(), error: error.message };
   }
 
-  // Create a Set of medication IDs that have been reminded today
-  const sentSet = new Set((data || []).map(d => d.medication_id));
+  // Create a Set of "medicationId|scheduledTime" doses that have been reminded today
+  const sentSet = new Set(
+    filterSentOnPatientDay(data, date, timeZones).map(d => `${d.medication_id}|${d.scheduled_time}`)
+  );
 
   return { sentSet, error: null };
 }
@@ -653,4 +770,781 @@ export async function getAllExpiringMedications(thresholdDays = 3) {
   });
 
   return { medications, error: null };
-}
\ No newline at end of file
+}
+// ============================================
+// DOSE HISTORY FUNCTIONS
+// ============================================
+
+/**
+ * Format a date as YYYY-MM-DD in the server's local timezone
+ */
+export function toLocalDateString(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Active medications with their scheduled doses and each patient's daily
+ * routine, for building dose instances
+ */
+async function getScheduledMedications(userIds) {
+  let medicationQuery = supabase
+    .from('medications')
+    .select(`
+      id,
+      user_id,
+      dosage,
+      ${DOSE_SCHEDULE_COLUMNS}
+    `)
+    .eq('is_active', true);
+
+  if (userIds) {
+    medicationQuery = medicationQuery.in('user_id', userIds);
+  }
+
+  const { data: medications, error } = await medicationQuery;
+  if (error || !medications || medications.length === 0) {
+    return { data: medications, error };
+  }
+
+  // Anchored doses follow the patient's routine
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select(`id, ${ROUTINE_COLUMNS}`)
+    .in('id', [...new Set(medications.map(m => m.user_id))]);
+
+  if (profileError) {
+    return { data: null, error: profileError };
+  }
+
+  const routines = new Map((profiles || []).map(p => [p.id, getRoutine(p)]));
+  return {
+    data: medications.map(m => ({ ...m, routine: routines.get(m.user_id) ?? getRoutine(null) })),
+    error: null,
+  };
+}
+
+/**
+ * Every dose instance due on a date, from the taper phase, routine anchors
+ * and date bounds in effect that day. Off days have none
+ */
+function expandDoseInstances(medications, scheduledDate) {
+  const instances = [];
+  for (const med of medications) {
+    for (const dose of getDosesForDate(med, scheduledDate, med.routine)) {
+      instances.push({
+        user_id: med.user_id,
+        medication_id: med.id,
+        dose_id: dose.id,
+        scheduled_time: dose.time,
+        scheduled_date: scheduledDate,
+      });
+    }
+  }
+  return instances;
+}
+
+/**
+ * Create a day's dose instances from the medication schedules, as pending
+ * Instances that already exist are left alone.
+ * Pass userIds to generate only for those users (e.g., everyone in one time zone).
+ */
+export async function generateDoseInstances(scheduledDate = toLocalDateString(), userIds = null) {
+  const { data: medications, error: medError } = await getScheduledMedications(userIds);
+
+  if (medError) {
+    console.error('[DoseHistory] Error fetching medications:', medError);
+    return { created: 0, error: medError.message };
+  }
+
+  const rows = expandDoseInstances(medications || [], scheduledDate)
+    .map((instance) => ({ ...instance, status: 'pending' }));
+
+  if (rows.length === 0) {
+    return { created: 0, error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('dose_history')
+    .upsert(rows, { onConflict: 'medication_id,scheduled_date,scheduled_time', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    console.error('[DoseHistory] Error generating dose instances:', error);
+    return { created: 0, error: error.message };
+  }
+
+  return { created: data?.length ?? 0, error: null };
+}
+
+/**
+ * Close out a day of doses: every dose instance still pending (or never
+ * generated) becomes missed. Taken and skipped instances are left untouched.
+ * Pass userIds to close out only those users (e.g., everyone in one time zone).
+ */
+export async function closeOutDoseDay(scheduledDate = toLocalDateString(), userIds = null) {
+  // Step 1: Fetch all active medications with their scheduled doses
+  const { data: medications, error: medError } = await getScheduledMedications(userIds);
+
+  if (medError) {
+    console.error('[DoseHistory] Error fetching medications:', medError);
+    return { taken: 0, missed: 0, error: medError.message };
+  }
+
+  if (!medications || medications.length === 0) {
+    return { taken: 0, missed: 0, error: null };
+  }
+
+  // Step 2: Find dose instances that already have a final status for the day
+  const { data: existing, error: historyError } = await supabase
+    .from('dose_history')
+    .select('medication_id, scheduled_time, status')
+    .eq('scheduled_date', scheduledDate)
+    .in('medication_id', medications.map((m) => m.id))
+    .in('status', ['taken', 'skipped']);
+
+  if (historyError) {
+    console.error('[DoseHistory] Error fetching existing history:', historyError);
+    return { taken: 0, missed: 0, error: historyError.message };
+  }
+
+  const resolved = new Set(
+    (existing || []).map((h) => `${h.medication_id}|${h.scheduled_time}`)
+  );
+
+  // Step 3: Mark every unresolved instance missed (notes on pending instances are kept)
+  // The server closed them out, so no one is recorded as the actor
+  const rows = expandDoseInstances(medications, scheduledDate)
+    .filter((instance) => !resolved.has(`${instance.medication_id}|${instance.scheduled_time}`))
+    .map((instance) => ({ ...instance, status: 'missed', taken_at: null, actor_id: null }));
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('dose_history')
+      .upsert(rows, { onConflict: 'medication_id,scheduled_date,scheduled_time' });
+
+    if (upsertError) {
+      console.error('[DoseHistory] Error writing dose history:', upsertError);
+      return { taken: 0, missed: 0, error: upsertError.message };
+    }
+  }
+
+  const takenCount = (existing || []).filter((h) => h.status === 'taken').length;
+  const missedCount = rows.length;
+
+  console.log(
+    `[DoseHistory] Closed out ${scheduledDate}: ${takenCount} taken, ${missedCount} missed`
+  );
+
+  return { taken: takenCount, missed: missedCount, error: null };
+}
+
+/**
+ * Close out the previous dose day for every user whose local clock is within
+ * the first windowMinutes after midnight, grouped by profile time zone, and
+ * generate the new day's dose instances.
+ * Closing out after midnight means every dose of the day, including one at
+ * 23:50, is past due before it can be marked missed.
+ * This is called by a cron job every windowMinutes, so each time zone
+ * (including half- and quarter-hour offsets) is closed out once a day.
+ */
+export async function closeOutEndedDoseDays(now = new Date(), windowMinutes = 15) {
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, timezone');
+
+  if (profileError) {
+    console.error('[DoseHistory] Error fetching profiles:', profileError);
+    return { taken: 0, missed: 0, timeZones: [], error: profileError.message };
+  }
+
+  // Group users by time zone
+  const usersByZone = new Map();
+  for (const profile of (profiles || [])) {
+    const timeZone = resolveTimeZone(profile.timezone);
+    const users = usersByZone.get(timeZone) || [];
+    users.push(profile.id);
+    usersByZone.set(timeZone, users);
+  }
+
+  const totals = { taken: 0, missed: 0, timeZones: [], error: null };
+  for (const [timeZone, userIds] of usersByZone) {
+    if (getZonedMinutesOfDay(now, timeZone) >= windowMinutes) continue;
+
+    const yesterday = toZonedDateString(new Date(now.getTime() - windowMinutes * 60000), timeZone);
+    const { taken, missed, error } = await closeOutDoseDay(yesterday, userIds);
+    totals.taken += taken;
+    totals.missed += missed;
+    totals.timeZones.push(timeZone);
+    if (error) totals.error = error;
+
+    // Lay out today's doses so companions and reports see them as pending
+    const { error: generateError } = await generateDoseInstances(toZonedDateString(now, timeZone), userIds);
+    if (generateError) totals.error = generateError;
+  }
+
+  return totals;
+}
+
+// ============================================
+// PILL INVENTORY FUNCTIONS
+// ============================================
+
+/**
+ * Get tracked medications whose pill supply runs out within threshold days
+ * As-needed medications are skipped since they have no fixed daily use
+ */
+export async function getLowStockMedications(thresholdDays = 7) {
+  // Step 1: Fetch active medications that track inventory
+  const { data, error } = await supabase
+    .from('medications')
+    .select(`
+      id,
+      name,
+      dosage,
+      user_id,
+      frequency,
+      custom_frequency,
+      days_of_week,
+      cycle_days_on,
+      cycle_days_off,
+      pills_on_hand,
+      pills_per_dose,
+      doses:schedule_doses(id)
+    `)
+    .eq('is_active', true)
+    .not('pills_on_hand', 'is', null);
+
+  if (error) {
+    console.error('[Inventory] Error fetching medications:', error);
+    return { medications: [], error: error.message };
+  }
+
+  // Step 2: Forecast days of supply for each medication
+  const lowStock = [];
+  for (const m of data || []) {
+    const dosesPerDay = getAverageDosesPerDay(m);
+    if (dosesPerDay <= 0) continue;
+
+    const pillsPerDay = dosesPerDay * (Number(m.pills_per_dose) || 1);
+    const daysOfSupply = Math.floor(Number(m.pills_on_hand) / pillsPerDay);
+
+    if (daysOfSupply <= thresholdDays) {
+      lowStock.push({
+        id: m.id,
+        name: m.name,
+        dosage: m.dosage,
+        userId: m.user_id,
+        pillsOnHand: Number(m.pills_on_hand),
+        daysOfSupply,
+      });
+    }
+  }
+
+  if (lowStock.length === 0) {
+    return { medications: [], error: null };
+  }
+
+  // Step 3: Fetch user profiles
+  const userIds = [...new Set(lowStock.map(m => m.userId))];
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, name, email')
+    .in('id', userIds);
+
+  if (profileError) {
+    console.error('[Inventory] Error fetching profiles:', profileError);
+  }
+
+  const profileMap = new Map((profiles || []).map(p => [p.id, p]));
+
+  const medications = lowStock.map((m) => {
+    const profile = profileMap.get(m.userId);
+    return {
+      ...m,
+      userName: profile?.name || 'Unknown',
+      userEmail: profile?.email,
+    };
+  });
+
+  return { medications, error: null };
+}
+
+/**
+ * Get medication/recipient pairs that already received a low-stock alert today
+ * Returns a Set of "medicationId-recipientId" keys
+ */
+export async function getLowStockAlertsSentToday(medicationIds, date) {
+  if (!medicationIds || medicationIds.length === 0) {
+    return { sentPairs: new Set(), error: null };
+  }
+
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const { data, error } = await supabase
+    .from('notification_history')
+    .select('medication_id, companion_id')
+    .in('medication_id', medicationIds)
+    .eq('type', 'low_stock')
+    .gte('sent_at', startOfDay.toISOString())
+    .lte('sent_at', endOfDay.toISOString());
+
+  if (error) {
+    console.error('[Inventory] Error checking low-stock history:', error);
+    return { sentPairs: new Set(), error: error.message };
+  }
+
+  const sentPairs = new Set(
+    (data || []).map(d => `${d.medication_id}-${d.companion_id}`)
+  );
+
+  return { sentPairs, error: null };
+}
+
+// ============================================
+// DOSE ALARM FUNCTIONS
+// ============================================
+
+/**
+ * Get today's open dose instances for patients who can receive push alarms
+ * One instance per scheduled dose (or per medication without schedule_doses),
+ * on each patient's own calendar. Taken and skipped doses are left out.
+ * Returns instances with the patient's time zone and today's snooze, if any.
+ */
+export async function getDoseAlarmInstances(now = new Date()) {
+  // Step 1: Patients with at least one push subscription
+  const { data: subscriptions, error: subError } = await supabase
+    .from('push_subscriptions')
+    .select('user_id');
+
+  if (subError) {
+    console.error('[DoseAlarms] Error fetching push subscriptions:', subError);
+    return { instances: [], error: subError.message };
+  }
+
+  const subscribedIds = [...new Set((subscriptions || []).map(s => s.user_id))];
+  if (subscribedIds.length === 0) {
+    return { instances: [], error: null };
+  }
+
+  const { data: patients, error: patientError } = await supabase
+    .from('profiles')
+    .select(`id, name, timezone, ${ROUTINE_COLUMNS}`)
+    .eq('role', 'patient')
+    .in('id', subscribedIds);
+
+  if (patientError) {
+    console.error('[DoseAlarms] Error fetching patients:', patientError);
+    return { instances: [], error: patientError.message };
+  }
+
+  if (!patients || patients.length === 0) {
+    return { instances: [], error: null };
+  }
+
+  // Step 2: Their active medications with scheduled doses
+  const patientMap = new Map(patients.map(p => [p.id, p]));
+  const { data: medications, error: medError } = await supabase
+    .from('medications')
+    .select(`
+      id,
+      user_id,
+      name,
+      dosage,
+      ${DOSE_SCHEDULE_COLUMNS}
+    `)
+    .in('user_id', patients.map(p => p.id))
+    .eq('is_active', true);
+
+  if (medError) {
+    console.error('[DoseAlarms] Error fetching medications:', medError);
+    return { instances: [], error: medError.message };
+  }
+
+  // Step 3: Expand into today's dose instances (off days have none)
+  const instances = [];
+  for (const med of medications || []) {
+    const patient = patientMap.get(med.user_id);
+    const timeZone = resolveTimeZone(patient?.timezone);
+    const scheduledDate = toZonedDateString(now, timeZone);
+
+    for (const dose of getDosesForDate(med, scheduledDate, getRoutine(patient))) {
+      instances.push({
+        patientId: med.user_id,
+        medicationId: med.id,
+        doseId: dose.id,
+        medicationName: med.name,
+        dosage: dose.dosage,
+        scheduledTime: dose.time,
+        scheduledDate,
+        timeZone,
+        snooze: null,
+      });
+    }
+  }
+
+  if (instances.length === 0) {
+    return { instances, error: null };
+  }
+
+  // Step 4: Drop instances already resolved today (taken on any device, or skipped)
+  // and attach snoozes, which hold an alarm back until they end
+  const medicationIds = [...new Set(instances.map(i => i.medicationId))];
+  const timeZones = new Map(instances.map(i => [i.medicationId, i.timeZone]));
+  const [{ data: resolved, error: historyError }, { snoozes }] = await Promise.all([
+    supabase
+      .from('dose_history')
+      .select('medication_id, scheduled_date, scheduled_time')
+      .in('medication_id', medicationIds)
+      .in('status', ['taken', 'skipped'])
+      .gte('scheduled_date', toZonedDateString(new Date(now.getTime() - 86400000), 'UTC'))
+      .lte('scheduled_date', toZonedDateString(new Date(now.getTime() + 86400000), 'UTC')),
+    getDoseSnoozes(medicationIds, now, timeZones),
+  ]);
+
+  if (historyError) {
+    console.error('[DoseAlarms] Error fetching dose history:', historyError);
+    return { instances: [], error: historyError.message };
+  }
+
+  const resolvedDoses = new Set(
+    (resolved || []).map(h => `${h.medication_id}|${h.scheduled_date}|${h.scheduled_time}`)
+  );
+
+  return {
+    instances: instances
+      .filter(i => !resolvedDoses.has(`${i.medicationId}|${i.scheduledDate}|${i.scheduledTime}`))
+      .map(i => ({ ...i, snooze: snoozes.get(`${i.medicationId}|${i.scheduledTime}`) || null })),
+    error: null,
+  };
+}
+
+/**
+ * When each dose instance last had a push alarm today, keyed by
+ * "medicationId|scheduledTime" ("today" is the patient's day when timeZones is given)
+ */
+export async function getDoseAlarmsSentToday(medicationIds, date, timeZones) {
+  if (!medicationIds || medicationIds.length === 0) {
+    return { lastSent: new Map(), error: null };
+  }
+
+  const since = new Date(new Date(date).getTime() - ANY_ZONE_DAY_MS);
+
+  const { data, error } = await supabase
+    .from('notification_history')
+    .select('medication_id, scheduled_time, sent_at')
+    .in('medication_id', medicationIds)
+    .eq('type', 'dose_alarm')
+    .gte('sent_at', since.toISOString());
+
+  if (error) {
+    console.error('[DoseAlarms] Error checking alarm history:', error);
+    return { lastSent: new Map(), error: error.message };
+  }
+
+  const lastSent = new Map();
+  for (const row of filterSentOnPatientDay(data, date, timeZones)) {
+    const key = `${row.medication_id}|${row.scheduled_time}`;
+    if (!lastSent.has(key) || lastSent.get(key) < row.sent_at) {
+      lastSent.set(key, row.sent_at);
+    }
+  }
+
+  return { lastSent, error: null };
+}
+
+// ============================================
+// DOSE SNOOZE FUNCTIONS
+// ============================================
+
+/**
+ * Get today's snoozes for medications, keyed by "medicationId|scheduledTime"
+ * "Today" is the patient's day when timeZones (medication ID -> IANA zone) is given
+ */
+export async function getDoseSnoozes(medicationIds, date = new Date(), timeZones) {
+  if (!medicationIds || medicationIds.length === 0) {
+    return { snoozes: new Map(), error: null };
+  }
+
+  // Dates either side of UTC's cover "today" in every patient's time zone
+  const { data, error } = await supabase
+    .from('dose_snoozes')
+    .select('id, medication_id, scheduled_date, scheduled_time, snooze_until, snooze_count, reminded_at')
+    .in('medication_id', medicationIds)
+    .gte('scheduled_date', toZonedDateString(new Date(date.getTime() - 86400000), 'UTC'))
+    .lte('scheduled_date', toZonedDateString(new Date(date.getTime() + 86400000), 'UTC'));
+
+  if (error) {
+    console.error('[Snooze] Error fetching dose snoozes:', error);
+    return { snoozes: new Map(), error: error.message };
+  }
+
+  const snoozes = new Map();
+  for (const row of data || []) {
+    const timeZone = timeZones?.get(row.medication_id);
+    const today = timeZone ? toZonedDateString(date, timeZone) : toLocalDateString(date);
+    if (row.scheduled_date !== today) continue;
+    snoozes.set(`${row.medication_id}|${row.scheduled_time}`, row);
+  }
+
+  return { snoozes, error: null };
+}
+
+/**
+ * Mark snoozes whose end the patient has been reminded about
+ */
+export async function markSnoozesReminded(snoozeIds) {
+  if (!snoozeIds || snoozeIds.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await supabase
+    .from('dose_snoozes')
+    .update({ reminded_at: new Date().toISOString() })
+    .in('id', snoozeIds);
+
+  if (error) {
+    console.error('[Snooze] Error marking snoozes reminded:', error);
+  }
+
+  return { error: error?.message ?? null };
+}
+
+// ============================================
+// DOSE ACTION FUNCTIONS
+// ============================================
+
+/**
+ * Mark one dose instance taken from a notification action
+ * actorId is the user the notification was sent to (the patient).
+ * Returns alreadyTaken when another device, a companion or a replayed
+ * action got there first, in which case nothing changes.
+ */
+export async function markDoseTakenFromAction({ patientId, medicationId, doseId, scheduledTime, scheduledDate }, actorId) {
+  const { data: medication, error: medError } = await supabase
+    .from('medications')
+    .select('id, user_id, name, pills_per_dose')
+    .eq('id', medicationId)
+    .eq('user_id', patientId)
+    .maybeSingle();
+
+  if (medError) {
+    console.error('[DoseActions] Error fetching medication:', medError);
+    return { medicationName: null, alreadyTaken: false, error: medError.message };
+  }
+
+  if (!medication) {
+    return { medicationName: null, alreadyTaken: false, error: 'Medication not found' };
+  }
+
+  const taken = {
+    status: 'taken',
+    taken_at: new Date().toISOString(),
+    skip_reason: null,
+    actor_id: actorId || patientId,
+  };
+
+  // Insert the instance as taken, or flip an existing one that isn't taken yet.
+  // Each step only changes a row that still needs it, so two taps (or a
+  // replayed token) can't mark the dose twice or take two pills off the count.
+  // Notes are left out so any the patient already wrote are kept.
+  const { data: inserted, error: insertError } = await supabase
+    .from('dose_history')
+    .upsert(
+      {
+        user_id: patientId,
+        medication_id: medicationId,
+        dose_id: doseId || null,
+        scheduled_time: scheduledTime,
+        scheduled_date: scheduledDate,
+        ...taken,
+      },
+      { onConflict: 'medication_id,scheduled_date,scheduled_time', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (insertError) {
+    console.error('[DoseActions] Error recording dose:', insertError);
+    return { medicationName: medication.name, alreadyTaken: false, error: insertError.message };
+  }
+
+  if (!inserted?.length) {
+    const { data: updated, error: updateError } = await supabase
+      .from('dose_history')
+      .update(taken)
+      .eq('medication_id', medicationId)
+      .eq('scheduled_date', scheduledDate)
+      .eq('scheduled_time', scheduledTime)
+      .neq('status', 'taken')
+      .select('id');
+
+    if (updateError) {
+      console.error('[DoseActions] Error recording dose:', updateError);
+      return { medicationName: medication.name, alreadyTaken: false, error: updateError.message };
+    }
+
+    if (!updated?.length) {
+      return { medicationName: medication.name, alreadyTaken: true, error: null };
+    }
+  }
+
+  // One atomic UPDATE, so a dose marked in the app at the same time isn't lost
+  const { error: inventoryError } = await supabase.rpc('adjust_pills_on_hand', {
+    p_medication_id: medicationId,
+    p_delta: -(medication.pills_per_dose ?? 1),
+  });
+
+  if (inventoryError) {
+    console.error('[DoseActions] Error updating pill inventory:', inventoryError);
+  }
+
+  return { medicationName: medication.name, alreadyTaken: false, error: null };
+}
+
+/**
+ * Snooze one dose instance from a notification action, within the
+ * patient's snooze limit; the background alarm rings again when it ends
+ */
+export async function snoozeDoseFromAction({ patientId, medicationId, doseId, scheduledTime, scheduledDate }, minutes) {
+  const [{ data: profile, error: profileError }, { data: existing, error: fetchError }] = await Promise.all([
+    supabase.from('profiles').select('max_snoozes').eq('id', patientId).maybeSingle(),
+    supabase
+      .from('dose_snoozes')
+      .select('snooze_count')
+      .eq('medication_id', medicationId)
+      .eq('scheduled_date', scheduledDate)
+      .eq('scheduled_time', scheduledTime)
+      .maybeSingle(),
+  ]);
+
+  if (profileError || fetchError) {
+    const error = profileError || fetchError;
+    console.error('[DoseActions] Error fetching snooze:', error);
+    return { snoozeUntil: null, error: error.message };
+  }
+
+  const maxSnoozes = profile?.max_snoozes ?? 3;
+  const snoozeCount = (existing?.snooze_count ?? 0) + 1;
+  if (snoozeCount > maxSnoozes) {
+    return {
+      snoozeUntil: null,
+      error: `This dose can only be snoozed ${maxSnoozes} time${maxSnoozes === 1 ? '' : 's'}`,
+    };
+  }
+
+  const snoozeUntil = new Date(Date.now() + minutes * 60000).toISOString();
+  const { error } = await supabase
+    .from('dose_snoozes')
+    .upsert(
+      {
+        user_id: patientId,
+        medication_id: medicationId,
+        dose_id: doseId || null,
+        scheduled_date: scheduledDate,
+        scheduled_time: scheduledTime,
+        snooze_until: snoozeUntil,
+        snooze_count: snoozeCount,
+        reminded_at: null,
+      },
+      { onConflict: 'medication_id,scheduled_date,scheduled_time' }
+    );
+
+  if (error) {
+    console.error('[DoseActions] Error snoozing dose:', error);
+    return { snoozeUntil: null, error: error.message };
+  }
+
+  return { snoozeUntil, error: null };
+}
+
+// ============================================
+// CALENDAR FEED FUNCTIONS
+// ============================================
+
+/**
+ * Load what a calendar feed serves: the patient's active medications and
+ * profile. Companion feeds stop working once the link is no longer accepted.
+ * Returns feed: null for unknown or revoked tokens.
+ */
+export async function getCalendarFeedByToken(token) {
+  const { data: feed, error } = await supabase
+    .from('calendar_feeds')
+    .select('id, user_id, patient_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Calendar] Error fetching feed:', error);
+    return { feed: null, error: error.message };
+  }
+  if (!feed) {
+    return { feed: null, error: null };
+  }
+
+  if (feed.user_id !== feed.patient_id) {
+    const { data: link } = await supabase
+      .from('patient_companions')
+      .select('id')
+      .eq('patient_id', feed.patient_id)
+      .eq('companion_id', feed.user_id)
+      .eq('status', 'accepted')
+      .maybeSingle();
+
+    if (!link) {
+      return { feed: null, error: null };
+    }
+  }
+
+  const [{ data: profile }, { data: medications, error: medError }] = await Promise.all([
+    supabase.from('profiles').select('name, timezone').eq('id', feed.patient_id).maybeSingle(),
+    supabase
+      .from('medications')
+      .select(`
+        id,
+        name,
+        dosage,
+        instructions,
+        time,
+        start_time,
+        frequency,
+        custom_frequency,
+        start_date,
+        end_date,
+        days_of_week,
+        cycle_days_on,
+        cycle_days_off,
+        dose_phases,
+        is_active,
+        doses:schedule_doses(time)
+      `)
+      .eq('user_id', feed.patient_id)
+      .eq('is_active', true),
+  ]);
+
+  if (medError) {
+    console.error('[Calendar] Error fetching medications:', medError);
+    return { feed: null, error: medError.message };
+  }
+
+  // Best effort: lets users see when their calendar last synced
+  await supabase
+    .from('calendar_feeds')
+    .update({ last_fetched_at: new Date().toISOString() })
+    .eq('id', feed.id);
+
+  return {
+    feed: {
+      isOwnSchedule: feed.user_id === feed.patient_id,
+      patientName: profile?.name || 'Patient',
+      timeZone: resolveTimeZone(profile?.timezone),
+      medications: medications || [],
+    },
+    error: null,
+  };
+}
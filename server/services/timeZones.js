@@ -0,0 +1,109 @@
+// ============================================
+// Time Zones - Read dose times on each patient's clock
+// Mirrors the time zone helpers in the client schedule service
+// ============================================
+
+// Used for profiles without a (valid) time zone
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Manila';
+
+/**
+ * Whether a string is an IANA time zone Node knows
+ */
+export function isValidTimeZone(timeZone) {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A profile's time zone, or the default when it has none
+ */
+export function resolveTimeZone(timeZone) {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Calendar and clock fields of an instant as seen in a time zone
+ */
+export function getZonedParts(date, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const year = get('year');
+  const month = get('month');
+  const day = get('day');
+
+  return {
+    year,
+    month,
+    day,
+    hours: get('hour') % 24,
+    minutes: get('minute'),
+    seconds: get('second'),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Format a date as YYYY-MM-DD on a time zone's calendar
+ */
+export function toZonedDateString(date = new Date(), timeZone) {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes since midnight on a time zone's clock (with seconds as decimals)
+ */
+export function getZonedMinutesOfDay(date, timeZone) {
+  const { hours, minutes, seconds } = getZonedParts(date, timeZone);
+  return hours * 60 + minutes + seconds / 60;
+}
+
+/**
+ * Minutes a time zone is ahead of UTC at a given instant (DST aware)
+ */
+export function getTimeZoneOffsetMinutes(timeZone, date = new Date()) {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  return Math.round((asUtc - (date.getTime() - date.getMilliseconds())) / 60000);
+}
+
+/**
+ * A patient's dose time with the viewer's clock alongside when the two differ,
+ * e.g. "8:00 AM (1:00 AM your time)" for a companion abroad
+ */
+export function describeTimeForViewer(time, patientZone, viewerZone, date = new Date()) {
+  const match = time?.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match || !viewerZone || !isValidTimeZone(viewerZone)) return time;
+
+  const difference =
+    getTimeZoneOffsetMinutes(viewerZone, date) - getTimeZoneOffsetMinutes(patientZone, date);
+  if (difference === 0) return time;
+
+  let hours = parseInt(match[1], 10);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours !== 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+
+  const total = hours * 60 + parseInt(match[2], 10) + difference;
+  const wrapped = ((total % 1440) + 1440) % 1440;
+  const viewerHours = Math.floor(wrapped / 60);
+  const viewerTime = `${viewerHours % 12 || 12}:${String(wrapped % 60).padStart(2, '0')} ${viewerHours >= 12 ? 'PM' : 'AM'}`;
+  const dayNote = total >= 1440 ? ', next day' : total < 0 ? ', prev. day' : '';
+
+  return `${time} (${viewerTime}${dayNote} your time)`;
+}
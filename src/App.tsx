@@ -6,12 +6,16 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AppProvider, useApp } from "@/contexts/AppContext";
 import { loadDrugDatabase } from "@/services/drugDatabase";
 import { FullScreenLoader } from "@/components/ui/loading-spinner";
+import { SyncStatusIndicator } from "@/modules/offline";
+import { DoseAlarmOverlay } from "@/modules/medication";
 import Landing from "./pages/Landing";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import AskAInay from "./pages/AskAInay";
 import AskAInayForPatient from "./pages/AskAInayForPatient";
 import Timeline from "./pages/Timeline";
+import Interactions from "./pages/Interactions";
+import Archive from "./pages/Archive";
 import Profile from "./pages/Profile";
 import CompanionDashboard from "./pages/CompanionDashboard";
 import PatientManagement from "./pages/PatientManagement";
@@ -91,6 +95,22 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/interactions"
+        element={
+          <ProtectedRoute>
+            <Interactions />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/archive"
+        element={
+          <ProtectedRoute>
+            <Archive />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
@@ -123,6 +143,22 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/companion/patient/:patientId/interactions"
+        element={
+          <ProtectedRoute>
+            <Interactions />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/companion/patient/:patientId/archive"
+        element={
+          <ProtectedRoute>
+            <Archive />
+          </ProtectedRoute>
+        }
+      />
       <Route path="/subscription/pricing" element={<Pricing />} />
       <Route
         path="/subscription/success"
@@ -147,6 +183,8 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <SyncStatusIndicator />
+        <DoseAlarmOverlay />
         <BrowserRouter>
           <AppRoutes />
         </BrowserRouter>
@@ -36,9 +36,27 @@ import {
   checkDrugInteractions,
   type DetectedInteraction,
 } from "@/modules/medication/services/interactionService";
-import { createMedicationSchedule, generateId as generateScheduleId } from "@/modules/medication/services/scheduleService";
+import {
+  createMedicationSchedule,
+  generateId as generateScheduleId,
+  getTaperSpan,
+  isFrequencyPatternComplete,
+  parseTaperSteps,
+  buildDoseAnchors,
+  detectDoseTiming,
+  formatDoseTiming,
+  getDosesPerDoseDay,
+} from "@/modules/medication/services/scheduleService";
+import { TaperPhaseEditor } from "@/modules/medication/components/TaperPhaseEditor";
+import { FrequencyPatternEditor } from "@/modules/medication/components/FrequencyPatternEditor";
+import { DoseTimingPicker } from "@/modules/medication/components/DoseTimingPicker";
 import { TIME_PERIOD_OPTIONS, calculateEndDate, getTodayDateString } from "@/modules/medication/constants";
-import type { EnhancedMedication } from "@/modules/medication/types";
+import type {
+  DoseAnchor,
+  EnhancedMedication,
+  FrequencyPattern,
+  TaperStep,
+} from "@/modules/medication/types";
 import type { MedicationCategory, FrequencyType, NextDayMode } from "@/types";
 import { CATEGORY_LABELS, CATEGORY_COLORS, FREQUENCY_LABELS } from "@/types";
 
@@ -49,13 +67,15 @@ interface Props {
 
 type Tab = "scan" | "talk" | "type";
 
-interface MedicineQueueItem extends ExtractedMedicine {
+interface MedicineQueueItem extends ExtractedMedicine, FrequencyPattern {
   id: string;
   source: "scan" | "voice" | "manual";
   category: MedicationCategory;
   frequency: FrequencyType;
   timePeriod: string;
   imageUrl?: string;
+  taperSteps?: TaperStep[];
+  doseAnchors?: DoseAnchor[];
 }
 
 interface MedicineInteraction {
@@ -83,6 +103,29 @@ const getCurrentTime12h = (): string => {
   return `${hours}:${finalMinutes.toString().padStart(2, "0")} ${period}`;
 };
 
+// Read taper steps from an extracted medicine (structured, or from its instructions)
+const getExtractedTaperSteps = (m: ExtractedMedicine): TaperStep[] | undefined => {
+  const steps = m.taper?.length
+    ? m.taper.map((step) => ({
+        dosage: step.dosage,
+        days: step.days,
+        frequency: DEFAULT_FREQUENCIES.find((f) => f === step.frequency),
+      }))
+    : parseTaperSteps(`${m.dosage} ${m.instructions}`);
+  return steps.length >= 2 ? steps : undefined;
+};
+
+// Anchor doses to meals or bedtime when the instructions say so (e.g., "before breakfast")
+const getExtractedDoseAnchors = (
+  m: ExtractedMedicine,
+  frequency: FrequencyType
+): DoseAnchor[] | undefined => {
+  const detected = m.instructions ? detectDoseTiming(m.instructions) : null;
+  if (!detected) return undefined;
+  const anchors = buildDoseAnchors(detected.timing, getDosesPerDoseDay(frequency), detected.minutes);
+  return anchors.length > 0 ? anchors : undefined;
+};
+
 // Normalize medicine name for comparison (case-insensitive, trimmed)
 const normalizeMedicineName = (name: string): string => {
   return name.toLowerCase().trim().replace(/\s+/g, ' ');
@@ -135,6 +178,8 @@ const DEFAULT_FREQUENCIES: FrequencyType[] = [
   "twice_daily",
   "three_times_daily",
   "four_times_daily",
+  "specific_days",
+  "cycle",
   "as_needed",
 ];
 
@@ -151,7 +196,7 @@ const HOURS = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
 const MINUTES = [0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55];
 
 export function AddMedicineModal({ isOpen, onClose }: Props) {
-  const { addEnhancedMedication, medications: currentMedications } = useApp();
+  const { addEnhancedMedication, medications: currentMedications, dailyRoutine, timeZone } = useApp();
   const [activeTab, setActiveTab] = useState<Tab>("scan");
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -169,6 +214,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
     frequency: "once_daily" as FrequencyType,
     timePeriod: "ongoing",
     imageUrl: "",
+    taperSteps: [] as TaperStep[],
+    pattern: {} as FrequencyPattern,
+    doseAnchors: [] as DoseAnchor[],
   });
 
   // Dropdown states
@@ -350,6 +398,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
         frequency: "once_daily",
         timePeriod: "ongoing",
         imageUrl: "",
+        taperSteps: [],
+        pattern: {},
+        doseAnchors: [],
       });
       setEditingId(null);
       // Reset interaction states
@@ -589,6 +640,8 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
               time: medicineTime,
               timePeriod: "ongoing",
               imageUrl: images[Math.min(newItems.length, images.length - 1)],
+              taperSteps: getExtractedTaperSteps(m),
+              doseAnchors: getExtractedDoseAnchors(m, frequency),
             });
             addedNames.push(m.name);
           }
@@ -726,6 +779,8 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
                       frequency,
                       time: medicineTime,
                       timePeriod: "ongoing",
+                      taperSteps: getExtractedTaperSteps(m),
+                      doseAnchors: getExtractedDoseAnchors(m, frequency),
                     });
                     addedNames.push(m.name);
                   }
@@ -886,6 +941,18 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
       return;
     }
 
+    if (!isFrequencyPatternComplete(formData.frequency, formData.pattern)) {
+      toast({
+        title: "Missing days",
+        description:
+          formData.frequency === "cycle"
+            ? "Please enter how many days are taken each cycle."
+            : "Please pick at least one day.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (editingId) {
       // When editing, check if the new name conflicts with OTHER items (not itself)
       const otherQueueNames = medicineQueue
@@ -918,6 +985,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
                 frequency: formData.frequency,
                 timePeriod: formData.timePeriod,
                 imageUrl: formData.imageUrl,
+                taperSteps: formData.taperSteps.length > 0 ? formData.taperSteps : undefined,
+                doseAnchors: formData.doseAnchors.length > 0 ? formData.doseAnchors : undefined,
+                ...formData.pattern,
               }
             : item
         )
@@ -951,6 +1021,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
         frequency: formData.frequency,
         timePeriod: formData.timePeriod,
         imageUrl: formData.imageUrl,
+        taperSteps: formData.taperSteps.length > 0 ? formData.taperSteps : undefined,
+        doseAnchors: formData.doseAnchors.length > 0 ? formData.doseAnchors : undefined,
+        ...formData.pattern,
       };
       setMedicineQueue((prev) => [...prev, newItem]);
     }
@@ -964,6 +1037,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
       frequency: "once_daily",
       timePeriod: "ongoing",
       imageUrl: "",
+      taperSteps: [],
+      pattern: {},
+      doseAnchors: [],
     });
     toast({
       title: editingId ? "Medicine updated!" : "Medicine added to list!",
@@ -981,6 +1057,15 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
       frequency: item.frequency,
       timePeriod: item.timePeriod || "ongoing",
       imageUrl: item.imageUrl || "",
+      taperSteps: item.taperSteps || [],
+      pattern: {
+        daysOfWeek: item.daysOfWeek,
+        cycleDaysOn: item.cycleDaysOn,
+        cycleDaysOff: item.cycleDaysOff,
+        prnMinIntervalMinutes: item.prnMinIntervalMinutes,
+        prnMaxDailyDoses: item.prnMaxDailyDoses,
+      },
+      doseAnchors: item.doseAnchors || [],
     });
     setEditingId(item.id);
     setActiveTab("type");
@@ -999,6 +1084,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
         frequency: "once_daily",
         timePeriod: "ongoing",
         imageUrl: "",
+        taperSteps: [],
+        pattern: {},
+        doseAnchors: [],
       });
     }
   };
@@ -1069,8 +1157,8 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
       const startTime24h = convertTo24Hour(medicine.time);
       
       // Calculate start and end dates for prescription duration
-      const startDate = getTodayDateString();
-      const endDate = calculateEndDate(startDate, medicine.timePeriod);
+      const startDate = getTodayDateString(timeZone);
+      let endDate = calculateEndDate(startDate, medicine.timePeriod);
       
       // Create the schedule with computed doses based on frequency
       const schedule = createMedicationSchedule({
@@ -1084,17 +1172,29 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
         instructions: medicine.instructions || "",
         startTime: startTime24h,
         nextDayMode: "restart" as NextDayMode,
+        taperSteps: medicine.taperSteps,
+        doseAnchors: medicine.doseAnchors,
+        routine: dailyRoutine,
       });
 
+      // A taper sets its own dose and end date
+      const taperSpan = schedule.phases?.length ? getTaperSpan(schedule.phases) : null;
+      if (taperSpan) endDate = taperSpan.endDate;
+
       // Create enhanced medication with full schedule
       const enhancedMed: EnhancedMedication = {
         id: generateScheduleId(),
         userId: "", // Will be set by context
         name: medicine.name,
-        dosage: medicine.dosage,
+        dosage: schedule.phases?.[0]?.dosage ?? medicine.dosage,
         category: medicine.category,
-        frequency: medicine.frequency,
-        timePeriod: medicine.timePeriod,
+        frequency: schedule.frequency,
+        daysOfWeek: medicine.daysOfWeek,
+        cycleDaysOn: medicine.cycleDaysOn,
+        cycleDaysOff: medicine.cycleDaysOff,
+        prnMinIntervalMinutes: medicine.prnMinIntervalMinutes,
+        prnMaxDailyDoses: medicine.prnMaxDailyDoses,
+        timePeriod: taperSpan ? `${taperSpan.totalDays} days` : medicine.timePeriod,
         startDate,
         endDate: endDate ?? undefined,
         instructions: medicine.instructions,
@@ -1297,7 +1397,8 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
                           </p>
                         </div>
                         <p className="text-sm text-muted-foreground truncate">
-                          {item.dosage} • {item.time || "No time set"}
+                          {item.dosage} •{" "}
+                          {formatDoseTiming(item.doseAnchors) ?? (item.time || "No time set")}
                         </p>
                         <div className="flex flex-wrap gap-2 mt-1">
                           <span
@@ -1763,48 +1864,74 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
                   </div>
                 </div>
 
-                {/* Duration Dropdown */}
-                <div className="relative">
-                  <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
-                    Duration (How long to take) *
-                  </label>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setShowDurationDropdown(!showDurationDropdown);
-                      setShowCategoryDropdown(false);
-                      setShowFrequencyDropdown(false);
-                    }}
-                    className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left"
-                  >
-                    <span className="text-sm">
-                      {TIME_PERIOD_OPTIONS.find((opt) => opt.value === formData.timePeriod)?.label || "Select duration"}
-                    </span>
-                    <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
-                  </button>
-                  {showDurationDropdown && (
-                    <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-xl shadow-lg max-h-60 overflow-y-auto">
-                      {TIME_PERIOD_OPTIONS.map((opt) => (
-                        <button
-                          key={opt.value}
-                          type="button"
-                          onClick={() => {
-                            setFormData((prev) => ({
-                              ...prev,
-                              timePeriod: opt.value,
-                            }));
-                            setShowDurationDropdown(false);
-                          }}
-                          className={`w-full px-4 py-3 text-left hover:bg-muted transition-colors ${
-                            formData.timePeriod === opt.value ? "bg-muted" : ""
-                          }`}
-                        >
-                          {opt.label}
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                </div>
+                {/* Weekdays or on/off cycle */}
+                <FrequencyPatternEditor
+                  frequency={formData.frequency}
+                  value={formData.pattern}
+                  onChange={(pattern) => setFormData((prev) => ({ ...prev, pattern }))}
+                />
+
+                {/* Meal, bedtime or waking anchors */}
+                <DoseTimingPicker
+                  frequency={formData.frequency}
+                  value={formData.doseAnchors}
+                  onChange={(doseAnchors) => setFormData((prev) => ({ ...prev, doseAnchors }))}
+                  routine={dailyRoutine}
+                />
+
+                {/* Taper (dose changes over time) */}
+                <TaperPhaseEditor
+                  steps={formData.taperSteps}
+                  onChange={(taperSteps) => setFormData((prev) => ({ ...prev, taperSteps }))}
+                  defaultFrequency={formData.frequency}
+                  startDate={getTodayDateString(timeZone)}
+                  initialDosage={formData.dosage}
+                />
+
+                {/* Duration Dropdown (a taper sets its own length) */}
+                {formData.taperSteps.length === 0 && (
+                  <div className="relative">
+                    <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
+                      Duration (How long to take) *
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShowDurationDropdown(!showDurationDropdown);
+                        setShowCategoryDropdown(false);
+                        setShowFrequencyDropdown(false);
+                      }}
+                      className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left"
+                    >
+                      <span className="text-sm">
+                        {TIME_PERIOD_OPTIONS.find((opt) => opt.value === formData.timePeriod)?.label || "Select duration"}
+                      </span>
+                      <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+                    </button>
+                    {showDurationDropdown && (
+                      <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-xl shadow-lg max-h-60 overflow-y-auto">
+                        {TIME_PERIOD_OPTIONS.map((opt) => (
+                          <button
+                            key={opt.value}
+                            type="button"
+                            onClick={() => {
+                              setFormData((prev) => ({
+                                ...prev,
+                                timePeriod: opt.value,
+                              }));
+                              setShowDurationDropdown(false);
+                            }}
+                            className={`w-full px-4 py-3 text-left hover:bg-muted transition-colors ${
+                              formData.timePeriod === opt.value ? "bg-muted" : ""
+                            }`}
+                          >
+                            {opt.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 {/* Dosage and Time Row */}
                 <div className="grid grid-cols-2 gap-4">
@@ -1831,7 +1958,8 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
                     <button
                       type="button"
                       onClick={openTimePicker}
-                      className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left hover:border-primary transition-colors"
+                      disabled={formData.doseAnchors.length > 0}
+                      className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left hover:border-primary transition-colors disabled:opacity-60 disabled:hover:border-border"
                     >
                       <div className="flex items-center gap-2">
                         <Clock className="w-4 h-4 text-muted-foreground" />
@@ -1842,7 +1970,9 @@ export function AddMedicineModal({ isOpen, onClose }: Props) {
                               : "text-muted-foreground"
                           }
                         >
-                          {formData.time || "Select time"}
+                          {formData.doseAnchors.length > 0
+                            ? "Follows routine"
+                            : formData.time || "Select time"}
                         </span>
                       </div>
                       <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
@@ -45,7 +45,6 @@ import {
   LANGUAGES,
   getLanguageOptions,
   loadLanguagePreference,
-  saveLanguagePreference,
 } from "@/services/language";
 import {
   speakWithFallback,
@@ -61,6 +60,7 @@ import { toast } from "@/hooks/use-toast";
 import { useSubscription, LockedBadge } from "@/modules/subscription";
 import { useNavigate } from "react-router-dom";
 import { addMedicationForPatient } from "@/modules/companion/services/companionMedication";
+import { getLateDoseAdvice } from "@/modules/medication/services/scheduleService";
 
 interface MedicineInput {
   id: string;
@@ -390,6 +390,8 @@ export function ChatInterface({
     user,
     userRole,
     linkedPatients,
+    timeZone,
+    updatePreferredLanguage,
   } = useApp();
   const navigate = useNavigate();
   const { hasFeature, isFree } = useSubscription();
@@ -428,6 +430,10 @@ export function ChatInterface({
     });
   };
 
+  // "Take now or skip?" advice for a pending dose that is running late
+  const getLateAdviceText = (med: Medication, time: string, taken: boolean, zone?: string) =>
+    taken || med.skipped ? undefined : getLateDoseAdvice(med, time, { timeZone: zone })?.message;
+
   // Build linked patients context for companions
   const linkedPatientsContext: LinkedPatientContext[] | undefined =
     userRole === "companion" && linkedPatients && linkedPatients.length > 0
@@ -445,12 +451,14 @@ export function ChatInterface({
               taken: med.taken,
               instructions: med.instructions,
               frequency: med.frequency,
+              lateAdvice: getLateAdviceText(med, med.time, med.taken, p.timeZone),
               // Include dose-level taken status for multi-dose medications
               doses: med.doses?.map((dose) => ({
                 time: dose.time,
                 label: dose.label,
                 taken: dose.taken,
                 takenAt: dose.takenAt,
+                lateAdvice: getLateAdviceText(med, dose.time, dose.taken, p.timeZone),
               })),
             })),
           }))
@@ -468,12 +476,14 @@ export function ChatInterface({
       taken: med.taken,
       instructions: med.instructions,
       frequency: med.frequency,
+      lateAdvice: getLateAdviceText(med, med.time, med.taken, timeZone),
       // Include dose-level taken status for multi-dose medications
       doses: med.doses?.map((dose) => ({
         time: dose.time,
         label: dose.label,
         taken: dose.taken,
         takenAt: dose.takenAt,
+        lateAdvice: getLateAdviceText(med, dose.time, dose.taken, timeZone),
       })),
     })),
     linkedPatients: linkedPatientsContext,
@@ -482,7 +492,7 @@ export function ChatInterface({
   // Handle language change
   const handleLanguageChange = (newLang: SupportedLanguage) => {
     setLanguage(newLang);
-    saveLanguagePreference(newLang);
+    updatePreferredLanguage(newLang);
     toast({
       title: `Language changed`,
       description: `AInay will now respond in ${LANGUAGES[newLang].nativeName}`,
@@ -13,7 +13,26 @@ import { Input } from "@/components/ui/input";
 import { useApp } from "@/contexts/AppContext";
 import { toast } from "@/hooks/use-toast";
 import { searchDrugs, type Drug } from "@/services/drugDatabase";
-import { createMedicationSchedule } from "@/modules/medication/services/scheduleService";
+import {
+  buildDosePhases,
+  calculateDoseTimes,
+  createMedicationSchedule,
+  dosePhasesToSteps,
+  getPhaseForDate,
+  getTaperSpan,
+  isFrequencyPatternComplete,
+} from "@/modules/medication/services/scheduleService";
+import { TaperPhaseEditor } from "@/modules/medication/components/TaperPhaseEditor";
+import { FrequencyPatternEditor } from "@/modules/medication/components/FrequencyPatternEditor";
+import { LateDoseRuleEditor } from "@/modules/medication/components/LateDoseRuleEditor";
+import { DoseTimingPicker } from "@/modules/medication/components/DoseTimingPicker";
+import { DailyDoseWarningCard } from "@/modules/medication/components/DailyDoseWarningCard";
+import { MedicationAuditLog } from "@/modules/medication/components/MedicationAuditLog";
+import {
+  checkDailyDoseLimits,
+  type DailyDoseWarning,
+} from "@/modules/medication/services/doseLimitService";
+import type { DoseAnchor, FrequencyPattern, LateDoseRule, TaperStep } from "@/modules/medication/types";
 import { TIME_PERIOD_OPTIONS, calculateEndDate, getTodayDateString } from "@/modules/medication/constants";
 import type { Medication, MedicationCategory, FrequencyType, NextDayMode } from "@/types";
 import { CATEGORY_LABELS, CATEGORY_COLORS, FREQUENCY_LABELS } from "@/types";
@@ -37,6 +56,8 @@ const DEFAULT_FREQUENCIES: FrequencyType[] = [
   "twice_daily",
   "three_times_daily",
   "four_times_daily",
+  "specific_days",
+  "cycle",
   "as_needed",
 ];
 
@@ -86,8 +107,9 @@ const convertTo24Hour = (time12h: string): string => {
 };
 
 export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
-  const { updateMedication, deleteMedication } = useApp();
+  const { user, medications, updateMedication, deleteMedication, dailyRoutine, timeZone } = useApp();
   const [isSaving, setIsSaving] = useState(false);
+  const [doseLimitWarnings, setDoseLimitWarnings] = useState<DailyDoseWarning[] | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
@@ -100,6 +122,14 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
     category: "medicine" as MedicationCategory,
     frequency: "once_daily" as FrequencyType,
     timePeriod: "ongoing",
+    pillsOnHand: "",
+    packSize: "",
+    pillsPerDose: "1",
+    taperSteps: [] as TaperStep[],
+    pattern: {} as FrequencyPattern,
+    doseAnchors: [] as DoseAnchor[],
+    lateDoseRule: "auto" as LateDoseRule,
+    lateDoseCutoffMinutes: null as number | null,
   });
 
   // Dropdown states
@@ -136,6 +166,20 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
         category: medication.category || "medicine",
         frequency: medication.frequency || "once_daily",
         timePeriod: medication.timePeriod || "ongoing",
+        pillsOnHand: medication.pillsOnHand != null ? String(medication.pillsOnHand) : "",
+        packSize: medication.packSize != null ? String(medication.packSize) : "",
+        pillsPerDose: String(medication.pillsPerDose ?? 1),
+        taperSteps: medication.dosePhases?.length ? dosePhasesToSteps(medication.dosePhases) : [],
+        pattern: {
+          daysOfWeek: medication.daysOfWeek,
+          cycleDaysOn: medication.cycleDaysOn,
+          cycleDaysOff: medication.cycleDaysOff,
+          prnMinIntervalMinutes: medication.prnMinIntervalMinutes,
+          prnMaxDailyDoses: medication.prnMaxDailyDoses,
+        },
+        doseAnchors: medication.doseAnchors ?? [],
+        lateDoseRule: medication.lateDoseRule ?? "auto",
+        lateDoseCutoffMinutes: medication.lateDoseCutoffMinutes ?? null,
       });
     }
   }, [isOpen, medication]);
@@ -232,8 +276,8 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
     setShowTimePicker(true);
   };
 
-  // Handle save
-  const handleSave = async () => {
+  // Handle save (doses at or near a daily maximum need confirming first)
+  const handleSave = async (doseLimitsConfirmed = false) => {
     if (!formData.name) {
       toast({
         title: "Missing name",
@@ -243,7 +287,28 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
       return;
     }
 
-    if (!formData.dosage) {
+    if (!isFrequencyPatternComplete(formData.frequency, formData.pattern)) {
+      toast({
+        title: "Missing days",
+        description:
+          formData.frequency === "cycle"
+            ? "Please enter how many days are taken each cycle."
+            : "Please pick at least one day.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.lateDoseRule === "cutoff" && !formData.lateDoseCutoffMinutes) {
+      toast({
+        title: "Missing time limit",
+        description: "Please enter how many hours late a dose can still be taken.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!formData.dosage && formData.taperSteps.length === 0) {
       toast({
         title: "Missing dosage",
         description: "Please enter a dosage.",
@@ -261,6 +326,37 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
       return;
     }
 
+    const pillsPerDose = Number(formData.pillsPerDose);
+    if (!Number.isFinite(pillsPerDose) || pillsPerDose <= 0) {
+      toast({
+        title: "Invalid pills per dose",
+        description: "Pills per dose must be greater than zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!doseLimitsConfirmed) {
+      const doseLimits = await checkDailyDoseLimits(
+        {
+          id: medication.id,
+          name: formData.name,
+          dosage: formData.dosage,
+          frequency: formData.frequency,
+          customFrequency: medication.customFrequency,
+          pillsPerDose,
+          prnMaxDailyDoses: medication.prnMaxDailyDoses,
+          taperSteps: formData.taperSteps,
+        },
+        medications,
+        timeZone
+      );
+      if (doseLimits.hasWarnings) {
+        setDoseLimitWarnings(doseLimits.warnings);
+        return;
+      }
+    }
+
     setIsSaving(true);
 
     try {
@@ -268,8 +364,20 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
       const startTime24h = convertTo24Hour(formData.time);
 
       // Calculate dates
-      const startDate = medication.startDate || getTodayDateString();
-      const endDate = calculateEndDate(startDate, formData.timePeriod);
+      const startDate = medication.startDate || getTodayDateString(timeZone);
+      let endDate = calculateEndDate(startDate, formData.timePeriod);
+
+      // An existing taper keeps its start date so phases already under way stay put
+      const taperStart = medication.dosePhases?.[0]?.startDate ?? getTodayDateString(timeZone);
+      const dosePhases = buildDosePhases(
+        formData.taperSteps,
+        taperStart,
+        formData.frequency === "custom" ? "once_daily" : formData.frequency
+      );
+      const currentPhase = dosePhases.length
+        ? getPhaseForDate(dosePhases, getTodayDateString(timeZone)) ?? dosePhases[0]
+        : null;
+      if (dosePhases.length) endDate = getTaperSpan(dosePhases).endDate;
 
       // Create new schedule based on updated frequency
       const schedule = createMedicationSchedule({
@@ -283,20 +391,39 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
         instructions: formData.instructions,
         startTime: startTime24h,
         nextDayMode: medication.nextDayMode || ("restart" as NextDayMode),
+        doseAnchors: formData.doseAnchors,
+        routine: dailyRoutine,
       });
 
-      // Prepare update data
+      // Prepare update data (a taper mirrors today's phase)
       const updates: Partial<Medication> = {
         name: formData.name,
-        dosage: formData.dosage,
+        dosage: currentPhase?.dosage ?? formData.dosage,
         time: formData.time,
         instructions: formData.instructions,
         category: formData.category,
-        frequency: formData.frequency,
-        timePeriod: formData.timePeriod,
+        frequency: currentPhase?.frequency ?? formData.frequency,
+        timePeriod: dosePhases.length ? `${getTaperSpan(dosePhases).totalDays} days` : formData.timePeriod,
         startTime: startTime24h,
         endDate: endDate ?? undefined,
-        doses: schedule.doses,
+        doses: currentPhase
+          ? calculateDoseTimes(
+              startTime24h,
+              currentPhase.frequency,
+              currentPhase.customFrequency,
+              medication.nextDayMode || "restart",
+              { routine: dailyRoutine, anchors: formData.doseAnchors }
+            )
+          : schedule.doses,
+        dosePhases,
+        doseAnchors: schedule.anchors ?? [],
+        ...formData.pattern,
+        // Blank pills on hand turns inventory tracking off
+        pillsOnHand: formData.pillsOnHand.trim() === "" ? null : Math.max(0, Number(formData.pillsOnHand)),
+        packSize: formData.packSize.trim() === "" ? null : Math.max(1, Math.round(Number(formData.packSize))),
+        pillsPerDose,
+        lateDoseRule: formData.lateDoseRule,
+        lateDoseCutoffMinutes: formData.lateDoseRule === "cutoff" ? formData.lateDoseCutoffMinutes : null,
       };
 
       await updateMedication(medication.id, updates);
@@ -497,45 +624,81 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
             </div>
           </div>
 
-          {/* Duration Dropdown */}
-          <div className="relative">
-            <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
-              Duration (How long to take) *
-            </label>
-            <button
-              type="button"
-              onClick={() => {
-                setShowDurationDropdown(!showDurationDropdown);
-                setShowCategoryDropdown(false);
-                setShowFrequencyDropdown(false);
-              }}
-              className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left"
-            >
-              <span className="text-sm">
-                {TIME_PERIOD_OPTIONS.find((opt) => opt.value === formData.timePeriod)?.label || "Select duration"}
-              </span>
-              <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
-            </button>
-            {showDurationDropdown && (
-              <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-xl shadow-lg max-h-60 overflow-y-auto">
-                {TIME_PERIOD_OPTIONS.map((opt) => (
-                  <button
-                    key={opt.value}
-                    type="button"
-                    onClick={() => {
-                      setFormData((prev) => ({ ...prev, timePeriod: opt.value }));
-                      setShowDurationDropdown(false);
-                    }}
-                    className={`w-full px-4 py-3 text-left hover:bg-muted transition-colors ${
-                      formData.timePeriod === opt.value ? "bg-muted" : ""
-                    }`}
-                  >
-                    {opt.label}
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
+          {/* Weekdays or on/off cycle */}
+          <FrequencyPatternEditor
+            frequency={formData.frequency}
+            value={formData.pattern}
+            onChange={(pattern) => setFormData((prev) => ({ ...prev, pattern }))}
+          />
+
+          {/* Meal, bedtime or waking anchors */}
+          <DoseTimingPicker
+            frequency={formData.frequency}
+            value={formData.doseAnchors}
+            onChange={(doseAnchors) => setFormData((prev) => ({ ...prev, doseAnchors }))}
+            routine={dailyRoutine}
+          />
+
+          {/* Missed/late dose rule from the label or pharmacist */}
+          <LateDoseRuleEditor
+            frequency={formData.frequency}
+            rule={formData.lateDoseRule}
+            cutoffMinutes={formData.lateDoseCutoffMinutes}
+            onChange={({ rule, cutoffMinutes }) =>
+              setFormData((prev) => ({ ...prev, lateDoseRule: rule, lateDoseCutoffMinutes: cutoffMinutes }))
+            }
+          />
+
+          {/* Taper (dose changes over time) */}
+          <TaperPhaseEditor
+            steps={formData.taperSteps}
+            onChange={(taperSteps) => setFormData((prev) => ({ ...prev, taperSteps }))}
+            defaultFrequency={formData.frequency}
+            startDate={medication.dosePhases?.[0]?.startDate ?? getTodayDateString(timeZone)}
+            initialDosage={formData.dosage}
+          />
+
+          {/* Duration Dropdown (a taper sets its own length) */}
+          {formData.taperSteps.length === 0 && (
+            <div className="relative">
+              <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
+                Duration (How long to take) *
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowDurationDropdown(!showDurationDropdown);
+                  setShowCategoryDropdown(false);
+                  setShowFrequencyDropdown(false);
+                }}
+                className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left"
+              >
+                <span className="text-sm">
+                  {TIME_PERIOD_OPTIONS.find((opt) => opt.value === formData.timePeriod)?.label || "Select duration"}
+                </span>
+                <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+              </button>
+              {showDurationDropdown && (
+                <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-xl shadow-lg max-h-60 overflow-y-auto">
+                  {TIME_PERIOD_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() => {
+                        setFormData((prev) => ({ ...prev, timePeriod: opt.value }));
+                        setShowDurationDropdown(false);
+                      }}
+                      className={`w-full px-4 py-3 text-left hover:bg-muted transition-colors ${
+                        formData.timePeriod === opt.value ? "bg-muted" : ""
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Dosage and Time Row */}
           <div className="grid grid-cols-2 gap-4">
@@ -557,12 +720,15 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
               <button
                 type="button"
                 onClick={openTimePicker}
-                className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left hover:border-primary transition-colors"
+                disabled={formData.doseAnchors.length > 0}
+                className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left hover:border-primary transition-colors disabled:opacity-60 disabled:hover:border-border"
               >
                 <div className="flex items-center gap-2">
                   <Clock className="w-4 h-4 text-muted-foreground" />
                   <span className={formData.time ? "font-medium" : "text-muted-foreground"}>
-                    {formData.time || "Select time"}
+                    {formData.doseAnchors.length > 0
+                      ? "Follows routine"
+                      : formData.time || "Select time"}
                   </span>
                 </div>
                 <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
@@ -583,6 +749,64 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
             />
           </div>
 
+          {/* Pill Supply */}
+          <div>
+            <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
+              Pill Supply (optional)
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  value={formData.pillsOnHand}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, pillsOnHand: e.target.value }))}
+                  placeholder="On hand"
+                  className="input-senior"
+                />
+                <span className="text-xs text-muted-foreground">On hand</span>
+              </div>
+              <div>
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={formData.packSize}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, packSize: e.target.value }))}
+                  placeholder="Pack size"
+                  className="input-senior"
+                />
+                <span className="text-xs text-muted-foreground">Per pack</span>
+              </div>
+              <div>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min={0.5}
+                  step={0.5}
+                  value={formData.pillsPerDose}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, pillsPerDose: e.target.value }))}
+                  className="input-senior"
+                />
+                <span className="text-xs text-muted-foreground">Per dose</span>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Pills on hand go down each time you mark a dose taken, so we can remind you before you run out.
+            </p>
+          </div>
+
+          {/* Who changed this medication, and when */}
+          {user && (
+            <MedicationAuditLog
+              patientId={user.id}
+              medicationId={medication.id}
+              viewerId={user.id}
+              className="p-4"
+            />
+          )}
+
           {/* Delete Section */}
           <div className="pt-4 border-t border-border">
             {showDeleteConfirm ? (
@@ -592,7 +816,7 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
                   <span className="font-semibold">Delete this medication?</span>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  This will remove <strong>{medication.name}</strong> from your list. This action cannot be undone.
+                  This will remove <strong>{medication.name}</strong> from your list. It moves to Past Medicines, where you can bring it back.
                 </p>
                 <div className="flex gap-2">
                   <Button
@@ -639,7 +863,7 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
             variant="coral"
             size="lg"
             className="w-full"
-            onClick={handleSave}
+            onClick={() => handleSave()}
             disabled={isSaving || isDeleting}
           >
             {isSaving ? (
@@ -657,6 +881,23 @@ export function EditMedicineModal({ isOpen, onClose, medication }: Props) {
         </div>
       </div>
 
+      {/* Daily maximum warning */}
+      {doseLimitWarnings && (
+        <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4">
+          <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <DailyDoseWarningCard
+              warnings={doseLimitWarnings}
+              proceedLabel="Save Anyway"
+              onGoBack={() => setDoseLimitWarnings(null)}
+              onProceedAnyway={() => {
+                setDoseLimitWarnings(null);
+                handleSave(true);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Time Picker Modal */}
       {showTimePicker && (
         <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4">
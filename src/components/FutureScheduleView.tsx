@@ -7,8 +7,12 @@ import {
   calculateDoseTimes,
   addMinutesToTime,
   formatTime12Hour,
+  getNowInTimeZone,
+  getRegimenForDate,
+  isDoseDay,
+  toLocalDateString,
 } from "@/modules/medication/services/scheduleService";
-import type { FrequencyType, NextDayMode } from "@/modules/medication/types";
+import type { DailyRoutine, FrequencyType, NextDayMode } from "@/modules/medication/types";
 
 interface FutureDoseEntry {
   medicationId: string;
@@ -77,9 +81,9 @@ function isSameDay(date1: Date, date2: Date): boolean {
   );
 }
 
-// Check if date is today
-function isToday(date: Date): boolean {
-  return isSameDay(date, new Date());
+// Check if date is today (on the patient's time zone calendar)
+function isToday(date: Date, timeZone?: string): boolean {
+  return isSameDay(date, getNowInTimeZone(timeZone));
 }
 
 interface Props {
@@ -87,13 +91,13 @@ interface Props {
 }
 
 export function FutureScheduleView({ daysToShow = 7 }: Props) {
-  const { medications } = useApp();
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const { medications, dailyRoutine, timeZone } = useApp();
+  const [selectedDate, setSelectedDate] = useState<Date>(() => getNowInTimeZone(timeZone));
   const [weekOffset, setWeekOffset] = useState(0);
 
   // Get days to display in the date selector
   const visibleDays = useMemo(() => {
-    const startDate = new Date();
+    const startDate = getNowInTimeZone(timeZone);
     startDate.setHours(0, 0, 0, 0);
     startDate.setDate(startDate.getDate() + weekOffset * 7);
 
@@ -104,14 +108,16 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
       days.push(date);
     }
     return days;
-  }, [weekOffset, daysToShow]);
+  }, [weekOffset, daysToShow, timeZone]);
 
   // Calculate doses for a specific medication on a given date
   const calculateMedicationDosesForDate = (
     med: Medication,
-    targetDate: Date
+    targetDate: Date,
+    routine: DailyRoutine,
+    zone: string
   ): FutureDoseEntry[] => {
-    const today = new Date();
+    const today = getNowInTimeZone(zone);
     today.setHours(0, 0, 0, 0);
 
     const targetDay = new Date(targetDate);
@@ -124,20 +130,18 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
     // Skip medications that aren't active
     if (!med.isActive) return [];
 
+    // Tapered medications follow the phase for this day (nothing outside the taper)
+    const targetDateStr = toLocalDateString(targetDay);
+    const regimen = getRegimenForDate(med, targetDateStr);
+    if (med.dosePhases?.length && !regimen.phase) return [];
+    const { dosage, customFrequency } = regimen;
+
     // Handle different frequency types
-    const frequency = (med.frequency || "once_daily") as FrequencyType;
+    const frequency = (regimen.frequency || "once_daily") as FrequencyType;
     const nextDayMode = (med.nextDayMode || "restart") as NextDayMode;
 
-    // For weekly medications, only show on the right day
-    if (frequency === "weekly") {
-      // Assuming weekly starts from when medication was added
-      if (daysDiff % 7 !== 0) return [];
-    }
-
-    // For every_other_day, only show on alternate days
-    if (frequency === "every_other_day") {
-      if (daysDiff % 2 !== 0) return [];
-    }
+    // Alternate-day, weekly, weekday and cycle schedules skip their off days
+    if (!isDoseDay({ ...med, frequency }, targetDateStr)) return [];
 
     // For "as_needed" medications, don't show in future
     if (frequency === "as_needed" && daysDiff > 0) {
@@ -160,6 +164,9 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
       }
     }
 
+    // Anchored doses follow the daily routine; none fall while asleep
+    const doseOptions = { routine, anchors: med.doseAnchors };
+
     // Calculate doses for this day based on mode
     let doses;
     if (daysDiff === 0) {
@@ -168,7 +175,7 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
         return med.doses.map((dose) => ({
           medicationId: med.id,
           name: med.name,
-          dosage: med.dosage,
+          dosage,
           time: formatTime12Hour(dose.time),
           timeSort: timeToMinutes(dose.time),
           label: dose.label || "Dose",
@@ -177,10 +184,10 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
           instructions: med.instructions,
         }));
       }
-      doses = calculateDoseTimes(startTime, frequency, med.customFrequency, nextDayMode);
+      doses = calculateDoseTimes(startTime, frequency, customFrequency, nextDayMode, doseOptions);
     } else if (nextDayMode === "restart") {
       // Restart mode - same times every day
-      doses = calculateDoseTimes(startTime, frequency, med.customFrequency, nextDayMode);
+      doses = calculateDoseTimes(startTime, frequency, customFrequency, nextDayMode, doseOptions);
     } else {
       // Continue mode - calculate based on last dose time rolling over
       // For simplicity, we'll calculate what the first dose would be
@@ -194,8 +201,9 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
         const dailyDoses = calculateDoseTimes(
           rollingTime,
           frequency,
-          med.customFrequency,
-          nextDayMode
+          customFrequency,
+          nextDayMode,
+          doseOptions
         );
         if (dailyDoses.length > 0) {
           rollingTime = addMinutesToTime(
@@ -205,13 +213,13 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
         }
       }
 
-      doses = calculateDoseTimes(rollingTime, frequency, med.customFrequency, nextDayMode);
+      doses = calculateDoseTimes(rollingTime, frequency, customFrequency, nextDayMode, doseOptions);
     }
 
     return doses.map((dose) => ({
       medicationId: med.id,
       name: med.name,
-      dosage: med.dosage,
+      dosage,
       time: formatTime12Hour(dose.time),
       timeSort: timeToMinutes(dose.time),
       label: dose.label,
@@ -226,13 +234,13 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
     const allDoses: FutureDoseEntry[] = [];
 
     for (const med of medications) {
-      const medDoses = calculateMedicationDosesForDate(med, selectedDate);
+      const medDoses = calculateMedicationDosesForDate(med, selectedDate, dailyRoutine, timeZone);
       allDoses.push(...medDoses);
     }
 
     // Sort by time
     return allDoses.sort((a, b) => a.timeSort - b.timeSort);
-  }, [medications, selectedDate]);
+  }, [medications, selectedDate, dailyRoutine, timeZone]);
 
   // Group by category
   const groupedByCategory = useMemo(() => {
@@ -288,7 +296,7 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
       <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-none">
         {visibleDays.map((date) => {
           const isSelected = isSameDay(date, selectedDate);
-          const todayFlag = isToday(date);
+          const todayFlag = isToday(date, timeZone);
 
           return (
             <button
@@ -317,7 +325,7 @@ export function FutureScheduleView({ daysToShow = 7 }: Props) {
       {/* Selected Date Header */}
       <div className="bg-muted/30 rounded-xl p-3">
         <p className="text-sm font-medium text-center">
-          {isToday(selectedDate) ? "Today's" : formatDateFull(selectedDate)} Schedule
+          {isToday(selectedDate, timeZone) ? "Today's" : formatDateFull(selectedDate)} Schedule
         </p>
         <p className="text-xs text-muted-foreground text-center mt-1">
           {dosesForSelectedDate.length} dose{dosesForSelectedDate.length !== 1 ? "s" : ""} scheduled
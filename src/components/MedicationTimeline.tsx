@@ -12,17 +12,33 @@ import {
   Moon,
   CheckCircle2,
   Loader2,
+  SkipForward,
+  StickyNote,
+  AlarmClock,
+  Lightbulb,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useApp } from "@/contexts/AppContext";
 import { toast } from "@/hooks/use-toast";
-import { type Medication } from "@/types";
+import { type Medication, type SkipReason } from "@/types";
 import { EditMedicineModal } from "./EditMedicineModal";
+import { SkipDoseDialog } from "@/modules/medication/components/SkipDoseDialog";
+import { PrnDoseCard } from "@/modules/medication/components/PrnDoseCard";
+import { getSkipReasonLabel } from "@/modules/medication/constants";
+import { useDoseSnoozes } from "@/modules/medication/hooks/useDoseSnoozes";
+import {
+  getLateDoseAdvice,
+  getNowInTimeZone,
+  getRegimenForDate,
+  isDoseDay,
+  toDateStringInTimeZone,
+  type LateDoseAdvice,
+} from "@/modules/medication/services/scheduleService";
 
 // Check if a dose can be taken (within 30 minutes before scheduled time or later)
 // Only applies to patients - companions have no restriction
-function canTakeDose(timeStr: string): boolean {
-  const now = new Date();
+function canTakeDose(timeStr: string, timeZone?: string): boolean {
+  const now = getNowInTimeZone(timeZone);
   const currentMinutes = now.getHours() * 60 + now.getMinutes();
   
   // Parse time string (supports both "8:00 AM" and "14:30" formats)
@@ -44,8 +60,8 @@ function canTakeDose(timeStr: string): boolean {
 }
 
 // Get minutes until dose can be taken (for display)
-function getMinutesUntilCanTake(timeStr: string): number {
-  const now = new Date();
+function getMinutesUntilCanTake(timeStr: string, timeZone?: string): number {
+  const now = getNowInTimeZone(timeZone);
   const currentMinutes = now.getHours() * 60 + now.getMinutes();
   
   const match = timeStr.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
@@ -71,9 +87,14 @@ interface DoseEntry {
   name: string;
   dosage: string;
   time: string;
+  scheduledTime: string; // As stored (dose log and snoozes are keyed on it)
   timeSort: number;
   label: string;
   taken: boolean;
+  takenBy?: string; // Who marked it taken (a companion, when not the patient)
+  skipped: boolean;
+  skipReason?: SkipReason;
+  note?: string;
   instructions?: string;
   imageUrl?: string;
   category: string;
@@ -149,6 +170,12 @@ function timeToMinutes(timeStr: string): number {
   return hours * 60 + minutes;
 }
 
+// Whether a dose's scheduled time has arrived
+function isDoseDue(timeStr: string, timeZone?: string): boolean {
+  const now = getNowInTimeZone(timeZone);
+  return now.getHours() * 60 + now.getMinutes() >= timeToMinutes(timeStr);
+}
+
 // Get hour from time string
 function getHourFromTime(timeStr: string): number {
   return Math.floor(timeToMinutes(timeStr) / 60);
@@ -181,6 +208,10 @@ function getTimePeriod(hour: number): TimePeriod {
 function PendingMedicationCard({
   dose,
   onTake,
+  onSkip,
+  onSnooze,
+  snoozedUntil,
+  lateAdvice,
   onEdit,
   expanded,
   onToggleExpand,
@@ -190,6 +221,13 @@ function PendingMedicationCard({
 }: {
   dose: DoseEntry;
   onTake: () => void;
+  onSkip: () => void;
+  /** Set when the dose is due and can still be snoozed */
+  onSnooze?: () => void;
+  /** e.g., "8:20 AM" while the dose is snoozed */
+  snoozedUntil?: string | null;
+  /** "Take now or skip?" once the dose is running late */
+  lateAdvice?: LateDoseAdvice | null;
   onEdit: () => void;
   expanded: boolean;
   onToggleExpand: () => void;
@@ -223,6 +261,18 @@ function PendingMedicationCard({
             <p className="text-base lg:text-lg text-muted-foreground mt-0.5 lg:mt-1">
               {dose.dosage}
             </p>
+            {dose.note && (
+              <p className="text-sm text-muted-foreground mt-1 flex items-center gap-1 truncate">
+                <StickyNote className="w-3 h-3 shrink-0" />
+                {dose.note}
+              </p>
+            )}
+            {snoozedUntil && (
+              <p className="text-sm text-primary mt-1 flex items-center gap-1">
+                <AlarmClock className="w-3 h-3" />
+                Snoozed until {snoozedUntil}
+              </p>
+            )}
             {/* Show time restriction message for patients */}
             {!canTake && minutesUntilCanTake > 0 && (
               <p className="text-sm text-amber-600 mt-1 flex items-center gap-1">
@@ -248,6 +298,25 @@ function PendingMedicationCard({
             )}
           </Button>
         </div>
+
+        {/* Late-dose advice */}
+        {lateAdvice && (
+          <div
+            className={`mt-3 rounded-xl px-3 py-2 text-sm flex items-start gap-2 ${
+              lateAdvice.action === "skip"
+                ? "bg-red-50 text-red-700 dark:bg-red-950/30 dark:text-red-400"
+                : "bg-amber-50 text-amber-700 dark:bg-amber-950/30 dark:text-amber-400"
+            }`}
+          >
+            <Lightbulb className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              {lateAdvice.message}
+              {lateAdvice.fromRule && (
+                <span className="opacity-75"> (label / pharmacist rule)</span>
+              )}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Expandable details section */}
@@ -295,16 +364,36 @@ function PendingMedicationCard({
         </>
       )}
 
-      {/* Simple edit for cards without details */}
-      {!hasDetails && (
+      {/* Skip (and simple edit for cards without details) */}
+      <div className="flex border-t border-border/50">
         <button
-          onClick={onEdit}
-          className="w-full px-4 lg:px-5 py-2 flex items-center justify-center gap-2 text-muted-foreground hover:bg-muted/50 transition-colors border-t border-border/50 text-sm"
+          onClick={onSkip}
+          disabled={isLoading}
+          className="flex-1 px-4 lg:px-5 py-2 flex items-center justify-center gap-2 text-muted-foreground hover:bg-muted/50 transition-colors text-sm disabled:opacity-50"
         >
-          <Edit2 className="w-4 h-4" />
-          Edit
+          <SkipForward className="w-4 h-4" />
+          Skip
         </button>
-      )}
+        {onSnooze && (
+          <button
+            onClick={onSnooze}
+            disabled={isLoading}
+            className="flex-1 px-4 lg:px-5 py-2 flex items-center justify-center gap-2 text-muted-foreground hover:bg-muted/50 transition-colors border-l border-border/50 text-sm disabled:opacity-50"
+          >
+            <AlarmClock className="w-4 h-4" />
+            Snooze
+          </button>
+        )}
+        {!hasDetails && (
+          <button
+            onClick={onEdit}
+            className="flex-1 px-4 lg:px-5 py-2 flex items-center justify-center gap-2 text-muted-foreground hover:bg-muted/50 transition-colors border-l border-border/50 text-sm"
+          >
+            <Edit2 className="w-4 h-4" />
+            Edit
+          </button>
+        )}
+      </div>
     </div>
   );
 }
@@ -312,22 +401,58 @@ function PendingMedicationCard({
 // Compact card for COMPLETED medications
 function CompletedMedicationRow({
   dose,
+  markedByHelper,
   onUndo,
+  onNote,
   isLoading,
 }: {
   dose: DoseEntry;
+  markedByHelper: boolean;
   onUndo: () => void;
+  onNote: () => void;
   isLoading: boolean;
 }) {
   return (
     <div className="flex items-center gap-3 py-2 lg:py-3 px-3 lg:px-4 bg-secondary/5 rounded-xl">
-      <CheckCircle2 className="w-5 h-5 text-secondary shrink-0" />
-      <span className="text-sm lg:text-base text-muted-foreground line-through flex-1 truncate">
-        {dose.name}
-      </span>
+      {dose.skipped ? (
+        <SkipForward className="w-5 h-5 text-muted-foreground shrink-0" />
+      ) : (
+        <CheckCircle2 className="w-5 h-5 text-secondary shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <span
+          className={`block text-sm lg:text-base text-muted-foreground truncate ${
+            dose.skipped ? "" : "line-through"
+          }`}
+        >
+          {dose.name}
+        </span>
+        {dose.skipped && (
+          <span className="block text-xs text-muted-foreground/80 truncate">
+            Skipped · {getSkipReasonLabel(dose.skipReason)}
+          </span>
+        )}
+        {markedByHelper && (
+          <span className="block text-xs text-muted-foreground/80 truncate">
+            Marked by a helper
+          </span>
+        )}
+        {dose.note && (
+          <span className="block text-xs text-muted-foreground/80 truncate">📝 {dose.note}</span>
+        )}
+      </div>
       <span className="text-xs lg:text-sm text-muted-foreground/70">
         {dose.time}
       </span>
+      <button
+        onClick={onNote}
+        disabled={isLoading}
+        className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+        title={dose.note ? "Edit note" : "Add note"}
+        aria-label={dose.note ? "Edit note" : "Add note"}
+      >
+        <StickyNote className="w-4 h-4" />
+      </button>
       <button
         onClick={onUndo}
         disabled={isLoading}
@@ -347,14 +472,40 @@ function CompletedMedicationRow({
 }
 
 export function MedicationTimeline() {
-  const { medications, toggleMedication, toggleDose, userRole } = useApp();
+  const {
+    medications,
+    toggleMedication,
+    toggleDose,
+    skipDose,
+    saveDoseNote,
+    userRole,
+    timeZone,
+    user,
+    profile,
+    prnLogs,
+    logPrnDose,
+    undoPrnDose,
+  } = useApp();
   const isPatient = userRole === "patient";
+  // Snoozes are stored per dose and shared with the patient's other devices
+  const { getSnooze, isSnoozed, getSnoozesLeft, snooze, snoozeMinutes } = useDoseSnoozes(
+    isPatient ? user?.id : null,
+    {
+      timeZone,
+      snoozeMinutes: profile?.snooze_minutes,
+      maxSnoozes: profile?.max_snoozes,
+    }
+  );
   const [editingMedication, setEditingMedication] = useState<Medication | null>(
     null
   );
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [showCompleted, setShowCompleted] = useState(false);
   const [loadingMedIds, setLoadingMedIds] = useState<Set<string>>(new Set());
+  const [doseLogTarget, setDoseLogTarget] = useState<{
+    dose: DoseEntry;
+    mode: "skip" | "note";
+  } | null>(null);
 
   const getMedicationById = (medicationId: string): Medication | undefined => {
     return medications.find((m) => m.id === medicationId);
@@ -406,6 +557,51 @@ export function MedicationTimeline() {
     }
   };
 
+  // Un-skip a dose (back to pending), keeping its note
+  const handleUnskip = async (dose: DoseEntry) => {
+    const { error } = await skipDose(dose.medicationId, dose.doseId ?? null, null);
+    if (error) {
+      toast({ title: "Couldn't undo skip", description: error, variant: "destructive" });
+    }
+  };
+
+  const handleSnooze = async (dose: DoseEntry) => {
+    const { error } = await snooze({
+      medicationId: dose.medicationId,
+      doseId: dose.doseId,
+      scheduledTime: dose.scheduledTime,
+    });
+    if (error) {
+      toast({ title: "Couldn't snooze", description: error, variant: "destructive" });
+      return;
+    }
+    const left = getSnoozesLeft(dose.medicationId, dose.scheduledTime) - 1;
+    toast({
+      title: `Snoozed for ${snoozeMinutes} min ⏰`,
+      description: `We'll remind you about ${dose.name} again${
+        left > 0 ? ` (${left} snooze${left === 1 ? "" : "s"} left)` : ""
+      }.`,
+    });
+  };
+
+  // "8:20 AM" while a dose is snoozed, on the patient's clock
+  const getSnoozedUntil = (dose: DoseEntry): string | null => {
+    if (!isSnoozed(dose.medicationId, dose.scheduledTime)) return null;
+    const until = getSnooze(dose.medicationId, dose.scheduledTime)!.snooze_until;
+    return getNowInTimeZone(timeZone, new Date(until)).toLocaleTimeString([], {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  const handleDoseLogSubmit = (reason: SkipReason | null, note: string) => {
+    if (!doseLogTarget) return Promise.resolve({ error: null });
+    const { dose, mode } = doseLogTarget;
+    return mode === "skip"
+      ? skipDose(dose.medicationId, dose.doseId ?? null, reason, note)
+      : saveDoseNote(dose.medicationId, dose.doseId ?? null, note);
+  };
+
   const toggleCardExpand = (cardId: string) => {
     setExpandedCards((prev) => {
       const next = new Set(prev);
@@ -421,8 +617,15 @@ export function MedicationTimeline() {
   // Flatten medications into individual dose entries
   const doseEntries = useMemo(() => {
     const entries: DoseEntry[] = [];
+    const today = toDateStringInTimeZone(timeZone);
 
     for (const med of medications) {
+      // Skip off days for alternate-day, weekly, weekday and cycle schedules
+      if (!isDoseDay(med, today)) continue;
+
+      // Tapered medications show today's phase dosage
+      const { dosage } = getRegimenForDate(med, today);
+
       if (med.doses && med.doses.length > 0) {
         for (const dose of med.doses) {
           const time12h = formatTime12Hour(dose.time);
@@ -430,11 +633,16 @@ export function MedicationTimeline() {
             medicationId: med.id,
             doseId: dose.id,
             name: med.name,
-            dosage: med.dosage,
+            dosage,
             time: time12h,
+            scheduledTime: dose.time,
             timeSort: timeToMinutes(dose.time),
             label: dose.label || "Dose",
             taken: dose.taken ?? med.taken,
+            takenBy: dose.takenBy,
+            skipped: !!dose.skipped,
+            skipReason: dose.skipReason,
+            note: dose.note,
             instructions: med.instructions,
             imageUrl: med.imageUrl,
             category: med.category || "medicine",
@@ -447,11 +655,16 @@ export function MedicationTimeline() {
         entries.push({
           medicationId: med.id,
           name: med.name,
-          dosage: med.dosage,
+          dosage,
           time: med.time,
+          scheduledTime: med.time,
           timeSort: timeToMinutes(med.time),
           label: "Daily",
           taken: med.taken,
+          takenBy: med.takenBy,
+          skipped: !!med.skipped,
+          skipReason: med.skipReason,
+          note: med.doseNote,
           instructions: med.instructions,
           imageUrl: med.imageUrl,
           category: med.category || "medicine",
@@ -463,15 +676,21 @@ export function MedicationTimeline() {
     }
 
     return entries.sort((a, b) => a.timeSort - b.timeSort);
-  }, [medications]);
+  }, [medications, timeZone]);
+
+  // As-needed medications have no dose times; they're logged whenever taken
+  const prnMedications = useMemo(
+    () => medications.filter((m) => m.frequency === "as_needed" && m.isActive !== false),
+    [medications]
+  );
 
-  // Separate pending and completed
+  // Separate pending and completed (skipped doses are done for the day)
   const pendingDoses = useMemo(
-    () => doseEntries.filter((d) => !d.taken),
+    () => doseEntries.filter((d) => !d.taken && !d.skipped),
     [doseEntries]
   );
   const completedDoses = useMemo(
-    () => doseEntries.filter((d) => d.taken),
+    () => doseEntries.filter((d) => d.taken || d.skipped),
     [doseEntries]
   );
 
@@ -494,7 +713,7 @@ export function MedicationTimeline() {
   }, [pendingDoses]);
 
   // Empty state
-  if (doseEntries.length === 0) {
+  if (doseEntries.length === 0 && prnMedications.length === 0) {
     return (
       <div className="text-center py-12 lg:py-16">
         <div className="w-24 h-24 lg:w-32 lg:h-32 mx-auto bg-muted rounded-full flex items-center justify-center mb-6">
@@ -586,8 +805,20 @@ export function MedicationTimeline() {
                       ? `${dose.medicationId}-${dose.doseId}`
                       : dose.medicationId;
                     // Only apply time restriction for patients
-                    const doseCanTake = isPatient ? canTakeDose(dose.time) : true;
-                    const minutesUntil = isPatient ? getMinutesUntilCanTake(dose.time) : 0;
+                    const doseCanTake = isPatient ? canTakeDose(dose.time, timeZone) : true;
+                    const minutesUntil = isPatient ? getMinutesUntilCanTake(dose.time, timeZone) : 0;
+                    const snoozedUntil = isPatient ? getSnoozedUntil(dose) : null;
+                    const medication = medications.find((m) => m.id === dose.medicationId);
+                    const lateAdvice =
+                      medication && !snoozedUntil
+                        ? getLateDoseAdvice(medication, dose.scheduledTime, { timeZone })
+                        : null;
+                    // A dose can be snoozed once it is due, up to the per-dose cap
+                    const canSnooze =
+                      isPatient &&
+                      !snoozedUntil &&
+                      isDoseDue(dose.time, timeZone) &&
+                      getSnoozesLeft(dose.medicationId, dose.scheduledTime) > 0;
                     return (
                       <PendingMedicationCard
                         key={cardId}
@@ -600,6 +831,10 @@ export function MedicationTimeline() {
                             false
                           )
                         }
+                        onSkip={() => setDoseLogTarget({ dose, mode: "skip" })}
+                        onSnooze={canSnooze ? () => handleSnooze(dose) : undefined}
+                        snoozedUntil={snoozedUntil}
+                        lateAdvice={lateAdvice}
                         onEdit={() => handleEdit(dose.medicationId)}
                         expanded={expandedCards.has(cardId)}
                         onToggleExpand={() => toggleCardExpand(cardId)}
@@ -616,6 +851,26 @@ export function MedicationTimeline() {
         </div>
       )}
 
+      {/* ===== AS-NEEDED MEDICATIONS ===== */}
+      {prnMedications.length > 0 && (
+        <div className="space-y-3 lg:space-y-4">
+          <div className="flex items-center gap-2">
+            <Pill className="w-5 h-5 text-primary" />
+            <span className="text-lg lg:text-xl font-bold text-foreground">As needed</span>
+          </div>
+          {prnMedications.map((med) => (
+            <PrnDoseCard
+              key={med.id}
+              medication={med}
+              logs={prnLogs.filter((log) => log.medication_id === med.id)}
+              timeZone={timeZone}
+              onLog={(options) => logPrnDose(med.id, options)}
+              onUndo={undoPrnDose}
+            />
+          ))}
+        </div>
+      )}
+
       {/* ===== COMPLETED MEDICATIONS (Collapsed Section) ===== */}
       {completedDoses.length > 0 && (
         <div className="border-t border-border pt-4 lg:pt-6">
@@ -653,14 +908,18 @@ export function MedicationTimeline() {
                   <CompletedMedicationRow
                     key={`${dose.medicationId}-${dose.doseId || index}`}
                     dose={dose}
+                    markedByHelper={!!dose.takenBy && dose.takenBy !== user?.id}
                     onUndo={() =>
-                      handleTake(
-                        dose.medicationId,
-                        dose.name,
-                        dose.doseId,
-                        true
-                      )
+                      dose.skipped
+                        ? handleUnskip(dose)
+                        : handleTake(
+                            dose.medicationId,
+                            dose.name,
+                            dose.doseId,
+                            true
+                          )
                     }
+                    onNote={() => setDoseLogTarget({ dose, mode: "note" })}
                     isLoading={loadingMedIds.has(loadingKey)}
                   />
                 );
@@ -688,6 +947,20 @@ export function MedicationTimeline() {
         </div>
       </div>
 
+      {/* Skip / note dialog */}
+      <SkipDoseDialog
+        isOpen={!!doseLogTarget}
+        onClose={() => setDoseLogTarget(null)}
+        mode={doseLogTarget?.mode ?? "skip"}
+        medicationName={doseLogTarget?.dose.name ?? ""}
+        doseDescription={
+          doseLogTarget ? `${doseLogTarget.dose.label} · ${doseLogTarget.dose.time}` : undefined
+        }
+        initialReason={doseLogTarget?.dose.skipReason}
+        initialNote={doseLogTarget?.dose.note}
+        onSubmit={handleDoseLogSubmit}
+      />
+
       {/* Edit Medicine Modal */}
       {editingMedication && (
         <EditMedicineModal
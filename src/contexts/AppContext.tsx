@@ -5,9 +5,16 @@ import React, {
   useEffect,
   ReactNode,
   useCallback,
+  useMemo,
+  useRef,
 } from "react";
 import type { User, Session } from "@supabase/supabase-js";
-import type { Profile, Medication as DbMedication } from "@/types/database";
+import type {
+  Profile,
+  Medication as DbMedication,
+  PrnDoseLog,
+  UpdateMedication,
+} from "@/types/database";
 import type {
   Medication,
   MedicationCategory,
@@ -17,19 +24,31 @@ import type {
   LinkedCompanion,
   PatientCompanionLink,
   UserRole,
+  SkipReason,
 } from "@/types";
-import type { EnhancedMedication } from "@/modules/medication";
+import type { EnhancedMedication, DailyRoutine, TravelMode } from "@/modules/medication";
 import { isSupabaseConfigured } from "@/lib/supabase";
 import {
   onAuthStateChange,
   getProfile,
   getMedicationsWithDoses,
+  getPastMedicationsWithDoses,
   addMedication as addMedicationToDb,
   addMedicationWithDoses,
   updateMedicationWithDoses,
   deactivateMedication,
-  toggleMedicationTaken,
-  toggleDoseTaken,
+  reactivateMedication as reactivateMedicationInDb,
+  renewMedication as renewMedicationInDb,
+  type RenewalCourse,
+  recordDoseEvent,
+  getDoseHistory,
+  generateDoseInstances,
+  subscribeToDoseInstances,
+  adjustPillInventory,
+  logRefill,
+  logPrnDose as savePrnDose,
+  getPrnDoseLogs,
+  deletePrnDose,
   signOut as supabaseSignOut,
   getLinkCode,
   getLinkedPatients,
@@ -37,9 +56,37 @@ import {
   requestPatientLink,
   removeLink,
   checkAndAutoExpire,
+  advanceTaperPhases,
   updateProfile,
+  updateDailyRoutine as saveDailyRoutine,
 } from "@/services/supabase";
 import { toast } from "@/hooks/use-toast";
+import { saveLanguagePreference, type SupportedLanguage } from "@/services/language";
+import {
+  applyDoseLog,
+  checkPrnDose,
+  type PrnDoseCheck,
+  fromDbDoseAnchors,
+  fromDbDosePhases,
+  fromDbRoutine,
+  formatTimeZoneLabel,
+  getDeviceTimeZone,
+  getDoseLogStatus,
+  getProfileTimeZone,
+  toDateStringInTimeZone,
+  toDbDoseAnchors,
+  toDbDosePhases,
+  toDbRoutine,
+} from "@/modules/medication/services/scheduleService";
+import {
+  enqueueChange,
+  getQueuedChanges,
+  isOfflineStorageAvailable,
+  loadRegimenSnapshot,
+  saveRegimenSnapshot,
+} from "@/modules/offline/services/offlineStore";
+import { isNetworkError, replayQueue } from "@/modules/offline/services/syncService";
+import type { QueuedChange, SyncStatus } from "@/modules/offline/types";
 
 // Note: PendingLinkRequest removed - links are now auto-accepted
 
@@ -67,7 +114,38 @@ interface AppContextType {
   deleteMedication: (id: string) => Promise<void>;
   toggleMedication: (id: string) => Promise<void>;
   toggleDose: (medicationId: string, doseId: string) => Promise<void>;
+  // Skip a dose with a reason (null reason un-skips it); doseId is null for single-dose medications
+  skipDose: (
+    medicationId: string,
+    doseId: string | null,
+    reason: SkipReason | null,
+    note?: string
+  ) => Promise<{ error: string | null }>;
+  saveDoseNote: (
+    medicationId: string,
+    doseId: string | null,
+    note: string
+  ) => Promise<{ error: string | null }>;
   refreshMedications: () => Promise<void>;
+  // Removed, expired and renewed medications (not kept in state; for the archive and records exports)
+  loadPastMedications: () => Promise<Medication[]>;
+  // Bring an archived medication back, or start a new course of it with new dates
+  reactivateMedication: (id: string) => Promise<{ error: string | null }>;
+  renewMedication: (id: string, course: RenewalCourse) => Promise<{ error: string | null }>;
+  logMedicationRefill: (
+    medicationId: string,
+    quantity: number,
+    notes?: string
+  ) => Promise<{ error: string | null }>;
+
+  // As-needed (PRN) doses from the last 24 hours, checked against each medication's limits
+  prnLogs: PrnDoseLog[];
+  // Log an as-needed dose; "too soon" doses need force, the 24-hour maximum always blocks
+  logPrnDose: (
+    medicationId: string,
+    options?: { notes?: string; force?: boolean }
+  ) => Promise<{ check: PrnDoseCheck | null; error: string | null }>;
+  undoPrnDose: (logId: string) => Promise<{ error: string | null }>;
 
   // Companion features
   linkCode: string | null;
@@ -86,10 +164,34 @@ interface AppContextType {
   updateNotificationSettings: (settings: {
     email_reminder_enabled?: boolean;
     email_reminder_minutes?: number;
+    snooze_minutes?: number;
+    max_snoozes?: number;
   }) => Promise<{ error: string | null }>;
 
   // Profile updates
   updateProfileName: (name: string) => Promise<{ error: string | null }>;
+  updateProfilePhone: (phone: string) => Promise<{ error: string | null }>;
+
+  // Daily routine (wake, meals, sleep) that anchored doses follow
+  dailyRoutine: DailyRoutine;
+  updateDailyRoutine: (
+    routine: DailyRoutine
+  ) => Promise<{ rescheduled: string[]; error: string | null }>;
+
+  // Time zone that dose times, "today" and streaks follow
+  timeZone: string;
+  travelMode: TravelMode;
+  updateTimeZone: (
+    timeZone: string,
+    travelMode?: TravelMode
+  ) => Promise<{ error: string | null }>;
+
+  // Language for the assistant, briefings and printed reports
+  updatePreferredLanguage: (language: SupportedLanguage) => Promise<{ error: string | null }>;
+
+  // Connection and changes saved on this device while offline
+  syncStatus: SyncStatus;
+  syncPendingChanges: () => Promise<void>;
 
   // Auth actions
   signOut: () => Promise<void>;
@@ -97,6 +199,9 @@ interface AppContextType {
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// As-needed limits look back over a rolling 24 hours
+const getPrnWindowStart = () => new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
 // Convert DB medication to app medication
 const convertMedication = (
   dbMed: DbMedication & { doses?: Array<{ id: string; time: string; label: string; taken: boolean; taken_at: string | null; dose_order: number }>; start_date?: string | null; end_date?: string | null }
@@ -111,6 +216,9 @@ const convertMedication = (
   imageUrl: dbMed.image_url ?? undefined,
   frequency: (dbMed.frequency as FrequencyType) ?? "once_daily",
   customFrequency: dbMed.custom_frequency ?? undefined,
+  daysOfWeek: dbMed.days_of_week ?? undefined,
+  cycleDaysOn: dbMed.cycle_days_on ?? undefined,
+  cycleDaysOff: dbMed.cycle_days_off ?? undefined,
   timePeriod: dbMed.time_period ?? "ongoing",
   startDate: dbMed.start_date ?? undefined,
   endDate: dbMed.end_date ?? undefined,
@@ -118,7 +226,19 @@ const convertMedication = (
   nextDayMode: (dbMed.next_day_mode as NextDayMode) ?? "restart",
   intervalMinutes: dbMed.interval_minutes ?? undefined,
   isActive: dbMed.is_active ?? true,
+  endedAt: dbMed.ended_at ?? undefined,
+  endReason: dbMed.end_reason ?? undefined,
+  previousCourseIds: dbMed.previous_course_ids ?? [],
   takenAt: dbMed.taken_at ?? undefined,
+  pillsOnHand: dbMed.pills_on_hand ?? null,
+  packSize: dbMed.pack_size ?? null,
+  pillsPerDose: dbMed.pills_per_dose ?? 1,
+  prnMinIntervalMinutes: dbMed.prn_min_interval_minutes ?? null,
+  prnMaxDailyDoses: dbMed.prn_max_daily_doses ?? null,
+  lateDoseRule: dbMed.late_dose_rule ?? "auto",
+  lateDoseCutoffMinutes: dbMed.late_dose_cutoff_minutes ?? null,
+  dosePhases: fromDbDosePhases(dbMed.dose_phases),
+  doseAnchors: fromDbDoseAnchors(dbMed.dose_anchors),
   doses: dbMed.doses?.map((dose) => ({
     id: dose.id,
     time: dose.time,
@@ -129,6 +249,39 @@ const convertMedication = (
   })),
 });
 
+// Convert app medication fields to DB columns for an update
+const toDbMedicationUpdates = (updates: Partial<Medication>): UpdateMedication => ({
+  name: updates.name,
+  dosage: updates.dosage,
+  time: updates.time,
+  instructions: updates.instructions ?? null,
+  category: updates.category,
+  image_url: updates.imageUrl ?? null,
+  frequency: updates.frequency,
+  custom_frequency: updates.customFrequency ?? null,
+  days_of_week: updates.daysOfWeek,
+  cycle_days_on: updates.cycleDaysOn,
+  cycle_days_off: updates.cycleDaysOff,
+  time_period: updates.timePeriod,
+  start_date: updates.startDate ?? null,
+  end_date: updates.endDate ?? null,
+  start_time: updates.startTime,
+  next_day_mode: updates.nextDayMode,
+  interval_minutes: updates.intervalMinutes ?? null,
+  pills_on_hand: updates.pillsOnHand,
+  pack_size: updates.packSize,
+  pills_per_dose: updates.pillsPerDose,
+  prn_min_interval_minutes: updates.prnMinIntervalMinutes,
+  prn_max_daily_doses: updates.prnMaxDailyDoses,
+  late_dose_rule: updates.lateDoseRule,
+  late_dose_cutoff_minutes: updates.lateDoseCutoffMinutes,
+  dose_phases: updates.dosePhases ? toDbDosePhases(updates.dosePhases) : undefined,
+  dose_anchors: updates.doseAnchors ? toDbDoseAnchors(updates.doseAnchors) : undefined,
+});
+
+// Whether the browser reports no connection (changes are queued instead of sent)
+const isBrowserOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
 export function AppProvider({ children }: { children: ReactNode }) {
   // Auth state
   const [user, setUser] = useState<User | null>(null);
@@ -136,12 +289,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Profile time zone, falling back to the device's until one is saved
+  const timeZone = getProfileTimeZone(profile);
+  const travelMode: TravelMode = profile?.travel_mode ?? "keep";
+
   // Legacy state
   const [userRole, setUserRole] = useState<UserRole>(null);
   const [userName, setUserName] = useState("");
 
   // Medications
   const [medications, setMedications] = useState<Medication[]>([]);
+  const [prnLogs, setPrnLogs] = useState<PrnDoseLog[]>([]);
 
   // Companion data
   const [linkCode, setLinkCode] = useState<string | null>(null);
@@ -151,11 +309,56 @@ export function AppProvider({ children }: { children: ReactNode }) {
   );
   // pendingRequests removed - links are now auto-accepted
 
+  // Offline sync
+  const [isOnline, setIsOnline] = useState(() => !isBrowserOffline());
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const syncInFlight = useRef(false);
+
   // Load user profile, medications, and companion data
   const loadUserData = useCallback(async (userId: string) => {
     try {
+      // Without a connection, show the regimen saved the last time we were online
+      if (isBrowserOffline() && isOfflineStorageAvailable()) {
+        const snapshot = await loadRegimenSnapshot(userId);
+        if (snapshot) {
+          if (snapshot.profile) {
+            setProfile(snapshot.profile);
+            setUserRole(snapshot.profile.role);
+            setUserName(snapshot.profile.name);
+          }
+          setMedications(snapshot.medications);
+          return;
+        }
+      }
+
       // Load profile
-      const { profile: userProfile } = await getProfile(userId);
+      const { profile: loadedProfile } = await getProfile(userId);
+      let userProfile = loadedProfile;
+
+      // A profile with no time zone yet starts on the device's. After that,
+      // only when the patient chose "shift" travel mode does the schedule
+      // follow the device to a new time zone; otherwise home time is kept
+      const deviceZone = getDeviceTimeZone();
+      if (
+        userProfile &&
+        (!userProfile.timezone ||
+          (userProfile.travel_mode === "shift" && userProfile.timezone !== deviceZone))
+      ) {
+        const { error: zoneError } = await updateProfile(userId, { timezone: deviceZone });
+        if (!zoneError) {
+          if (userProfile.timezone && userProfile.role === "patient") {
+            toast({
+              title: "Schedule moved to local time 🌏",
+              description: `You're now on ${formatTimeZoneLabel(deviceZone)}. Your doses keep the same clock times.`,
+            });
+          }
+          userProfile = { ...userProfile, timezone: deviceZone };
+        }
+      }
+      const userTimeZone = getProfileTimeZone(userProfile);
+
       if (userProfile) {
         setProfile(userProfile);
         setUserRole(userProfile.role);
@@ -180,7 +383,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       // Auto-expire medications before loading them
       // This ensures expired prescriptions are deactivated
-      const { expired, expiringSoon } = await checkAndAutoExpire(userId);
+      const { expired, expiringSoon } = await checkAndAutoExpire(userId, userTimeZone);
       
       // Notify user about expired medications
       if (expired.count > 0) {
@@ -202,9 +405,30 @@ export function AppProvider({ children }: { children: ReactNode }) {
         });
       }
 
-      // Load medications with doses (expired ones are now filtered out)
-      const { medications: userMeds } = await getMedicationsWithDoses(userId);
-      setMedications(userMeds.map(convertMedication));
+      // Move tapered medications onto today's dose phase
+      const { advanced } = await advanceTaperPhases(
+        userId,
+        fromDbRoutine(userProfile),
+        userTimeZone
+      );
+      if (advanced.length > 0) {
+        toast({
+          title: "Dose change today 💊",
+          description: advanced.map((m) => `${m.name}: now ${m.dosage}`).join(", "),
+        });
+      }
+
+      // Load medications with doses (expired ones are now filtered out),
+      // plus today's dose instances and the last day of as-needed doses
+      const today = toDateStringInTimeZone(userTimeZone);
+      await generateDoseInstances(userId, today, fromDbRoutine(userProfile));
+      const [{ medications: userMeds }, { history: todayLog }, { logs }] = await Promise.all([
+        getMedicationsWithDoses(userId),
+        getDoseHistory(userId, { from: today, to: today }),
+        getPrnDoseLogs(userId, { since: getPrnWindowStart() }),
+      ]);
+      setMedications(applyDoseLog(userMeds.map(convertMedication), todayLog));
+      setPrnLogs(logs);
     } catch (error) {
       console.error("Error loading user data:", error);
     }
@@ -235,6 +459,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         setLinkCode(null);
         setLinkedPatients([]);
         setLinkedCompanions([]);
+        setPendingChanges(0);
       }
 
       setIsLoading(false);
@@ -271,12 +496,18 @@ export function AppProvider({ children }: { children: ReactNode }) {
       image_url: med.imageUrl ?? null,
       frequency: med.frequency,
       custom_frequency: med.customFrequency ?? null,
+      days_of_week: med.daysOfWeek ?? null,
+      cycle_days_on: med.cycleDaysOn ?? null,
+      cycle_days_off: med.cycleDaysOff ?? null,
+      prn_min_interval_minutes: med.prnMinIntervalMinutes ?? null,
+      prn_max_daily_doses: med.prnMaxDailyDoses ?? null,
       time_period: med.timePeriod,
       start_date: med.startDate ?? null,
       end_date: med.endDate ?? null,
       start_time: med.startTime,
       next_day_mode: med.nextDayMode,
       interval_minutes: med.intervalMinutes ?? null,
+      dose_anchors: toDbDoseAnchors(med.doseAnchors),
       is_active: true,
     });
 
@@ -290,28 +521,110 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Pills a taken (or untaken) dose moves; 0 for medications without inventory tracking
+  const getInventoryDelta = (medication: Medication, taken: boolean) =>
+    medication.pillsOnHand === null || medication.pillsOnHand === undefined
+      ? 0
+      : (taken ? -1 : 1) * (medication.pillsPerDose ?? 1);
+
+  // Keep pill inventory in step with taken/untaken doses
+  // (offline, only locally; the queued change carries the delta)
+  const updateInventoryForDose = async (
+    medication: Medication,
+    taken: boolean,
+    saveToServer = true
+  ) => {
+    if (medication.pillsOnHand === null || medication.pillsOnHand === undefined) return;
+
+    const delta = getInventoryDelta(medication, taken);
+    const setPillsOnHand = (pillsOnHand: number) =>
+      setMedications((prev) =>
+        prev.map((med) => (med.id === medication.id ? { ...med, pillsOnHand } : med))
+      );
+
+    setPillsOnHand(Math.max(0, medication.pillsOnHand + delta));
+
+    if (user && saveToServer) {
+      const { pillsOnHand, error } = await adjustPillInventory(medication.id, delta);
+      if (error) {
+        console.error("Error updating pill inventory:", error);
+      } else if (pillsOnHand !== null) {
+        setPillsOnHand(pillsOnHand);
+      }
+    }
+  };
+
+  // Save a change on this device to send when the connection is back
+  const queueOfflineChange = async (change: QueuedChange) => {
+    if (!isOfflineStorageAvailable()) return;
+    try {
+      await enqueueChange(change);
+      setPendingChanges((await getQueuedChanges(change.userId)).length);
+    } catch (error) {
+      console.error("Error saving offline change:", error);
+    }
+  };
+
   // Toggle medication taken status
   const toggleMedication = async (id: string) => {
     const medication = medications.find((m) => m.id === id);
     if (!medication) return;
 
-    // Optimistic update
+    // Optimistic update (taking a skipped dose un-skips it)
     setMedications((prev) =>
-      prev.map((med) => (med.id === id ? { ...med, taken: !med.taken } : med))
+      prev.map((med) =>
+        med.id === id ? { ...med, taken: !med.taken, skipped: false, skipReason: undefined } : med
+      )
     );
 
     if (user) {
-      const { error } = await toggleMedicationTaken(id, !medication.taken);
+      const offline = isBrowserOffline();
+      const changedAt = new Date().toISOString();
+      const { takenChanged, error } = offline
+        ? { takenChanged: false, error: null }
+        : await recordDoseEvent({
+            userId: user.id,
+            medicationId: id,
+            scheduledTime: medication.time,
+            status: medication.taken ? "pending" : "taken",
+            takenAt: changedAt,
+            actorId: user.id,
+            timeZone,
+          });
+      if (offline || isNetworkError(error)) {
+        await queueOfflineChange({
+          id: crypto.randomUUID(),
+          type: "dose_toggle",
+          userId: user.id,
+          medicationId: id,
+          doseId: null,
+          scheduledTime: medication.time,
+          scheduledDate: toDateStringInTimeZone(timeZone),
+          taken: !medication.taken,
+          changedAt,
+          pillsDelta: getInventoryDelta(medication, !medication.taken),
+          timeZone,
+        });
+        await updateInventoryForDose(medication, !medication.taken, false);
+        return;
+      }
       if (error) {
         // Revert on error
         setMedications((prev) =>
           prev.map((med) =>
-            med.id === id ? { ...med, taken: medication.taken } : med
+            med.id === id
+              ? { ...med, taken: medication.taken, skipped: medication.skipped, skipReason: medication.skipReason }
+              : med
           )
         );
         console.error("Error toggling medication:", error);
+        return;
       }
+      // Already marked elsewhere (a push action or another device): pills were counted then
+      if (!takenChanged) return;
     }
+
+    await updateInventoryForDose(medication, !medication.taken);
   };
 
   // Toggle individual dose taken status
@@ -331,14 +644,44 @@ export function AppProvider({ children }: { children: ReactNode }) {
         return {
           ...med,
           doses: med.doses?.map((d) =>
-            d.id === doseId ? { ...d, taken: newTakenStatus } : d
+            d.id === doseId ? { ...d, taken: newTakenStatus, skipped: false, skipReason: undefined } : d
           ),
         };
       })
     );
 
     if (user) {
-      const { error } = await toggleDoseTaken(doseId, newTakenStatus);
+      const offline = isBrowserOffline();
+      const changedAt = new Date().toISOString();
+      const { takenChanged, error } = offline
+        ? { takenChanged: false, error: null }
+        : await recordDoseEvent({
+            userId: user.id,
+            medicationId,
+            doseId,
+            scheduledTime: dose.time,
+            status: newTakenStatus ? "taken" : "pending",
+            takenAt: changedAt,
+            actorId: user.id,
+            timeZone,
+          });
+      if (offline || isNetworkError(error)) {
+        await queueOfflineChange({
+          id: crypto.randomUUID(),
+          type: "dose_toggle",
+          userId: user.id,
+          medicationId,
+          doseId,
+          scheduledTime: dose.time,
+          scheduledDate: toDateStringInTimeZone(timeZone),
+          taken: newTakenStatus,
+          changedAt,
+          pillsDelta: getInventoryDelta(medication, newTakenStatus),
+          timeZone,
+        });
+        await updateInventoryForDose(medication, newTakenStatus, false);
+        return;
+      }
       if (error) {
         // Revert on error
         setMedications((prev) =>
@@ -346,15 +689,129 @@ export function AppProvider({ children }: { children: ReactNode }) {
             if (med.id !== medicationId) return med;
             return {
               ...med,
-              doses: med.doses?.map((d) =>
-                d.id === doseId ? { ...d, taken: dose.taken } : d
-              ),
+              doses: med.doses?.map((d) => (d.id === doseId ? dose : d)),
             };
           })
         );
         console.error("Error toggling dose:", error);
+        return;
+      }
+      // Already marked elsewhere (a push action or another device): pills were counted then
+      if (!takenChanged) return;
+    }
+
+    await updateInventoryForDose(medication, newTakenStatus);
+  };
+
+  // Apply skip/note changes to one dose (or to a single-dose medication) in local state
+  const patchDoseLog = (
+    medicationId: string,
+    doseId: string | null,
+    changes: { skipped?: boolean; skipReason?: SkipReason; note?: string }
+  ) =>
+    setMedications((prev) =>
+      prev.map((med) => {
+        if (med.id !== medicationId) return med;
+        if (!doseId) {
+          const { note, ...rest } = changes;
+          return { ...med, ...rest, ...("note" in changes ? { doseNote: note } : {}) };
+        }
+        return {
+          ...med,
+          doses: med.doses?.map((d) => (d.id === doseId ? { ...d, ...changes } : d)),
+        };
+      })
+    );
+
+  // Mark a dose deliberately skipped (or un-skip it) so it isn't counted as missed
+  const skipDose = async (
+    medicationId: string,
+    doseId: string | null,
+    reason: SkipReason | null,
+    note?: string
+  ): Promise<{ error: string | null }> => {
+    const medication = medications.find((m) => m.id === medicationId);
+    if (!medication) return { error: "Medication not found" };
+
+    const dose = doseId ? medication.doses?.find((d) => d.id === doseId) : null;
+    if (doseId && !dose) return { error: "Dose not found" };
+
+    const current = dose
+      ? { skipped: dose.skipped, skipReason: dose.skipReason, note: dose.note }
+      : { skipped: medication.skipped, skipReason: medication.skipReason, note: medication.doseNote };
+    if (dose ? dose.taken : medication.taken) {
+      return { error: "This dose is already marked as taken" };
+    }
+
+    const nextNote = note !== undefined ? note.trim() || undefined : current.note;
+    patchDoseLog(medicationId, doseId, {
+      skipped: reason !== null,
+      skipReason: reason ?? undefined,
+      note: nextNote,
+    });
+
+    if (user) {
+      const { error } = await recordDoseEvent({
+        userId: user.id,
+        medicationId,
+        doseId,
+        scheduledTime: dose ? dose.time : medication.time,
+        status: reason ? "skipped" : "pending",
+        skipReason: reason,
+        notes: nextNote ?? null,
+        actorId: user.id,
+        timeZone,
+      });
+      if (error) {
+        patchDoseLog(medicationId, doseId, current);
+        console.error("Error skipping dose:", error);
+        return { error };
       }
     }
+
+    return { error: null };
+  };
+
+  // Save a free-text note on today's dose, keeping its taken/skipped status
+  const saveDoseNote = async (
+    medicationId: string,
+    doseId: string | null,
+    note: string
+  ): Promise<{ error: string | null }> => {
+    const medication = medications.find((m) => m.id === medicationId);
+    if (!medication) return { error: "Medication not found" };
+
+    const dose = doseId ? medication.doses?.find((d) => d.id === doseId) : null;
+    if (doseId && !dose) return { error: "Dose not found" };
+
+    const target = dose
+      ? { taken: dose.taken, takenAt: dose.takenAt, skipped: dose.skipped, skipReason: dose.skipReason, note: dose.note }
+      : { taken: medication.taken, takenAt: medication.takenAt, skipped: medication.skipped, skipReason: medication.skipReason, note: medication.doseNote };
+
+    const nextNote = note.trim() || undefined;
+    patchDoseLog(medicationId, doseId, { note: nextNote });
+
+    if (user) {
+      const { error } = await recordDoseEvent({
+        userId: user.id,
+        medicationId,
+        doseId,
+        scheduledTime: dose ? dose.time : medication.time,
+        status: getDoseLogStatus(target),
+        takenAt: target.takenAt,
+        skipReason: target.skipReason,
+        notes: nextNote ?? null,
+        actorId: user.id,
+        timeZone,
+      });
+      if (error) {
+        patchDoseLog(medicationId, doseId, { note: target.note });
+        console.error("Error saving dose note:", error);
+        return { error };
+      }
+    }
+
+    return { error: null };
   };
 
   // Update an existing medication
@@ -369,32 +826,37 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
     if (user) {
       // Prepare data for database update
-      const dbUpdates = {
-        name: updates.name,
-        dosage: updates.dosage,
-        time: updates.time,
-        instructions: updates.instructions ?? null,
-        category: updates.category,
-        image_url: updates.imageUrl ?? null,
-        frequency: updates.frequency,
-        custom_frequency: updates.customFrequency ?? null,
-        time_period: updates.timePeriod,
-        start_date: updates.startDate ?? null,
-        end_date: updates.endDate ?? null,
-        start_time: updates.startTime,
-        next_day_mode: updates.nextDayMode,
-        interval_minutes: updates.intervalMinutes ?? null,
-      };
+      const dbUpdates = toDbMedicationUpdates(updates);
 
       // Prepare doses if they exist
       const dosesData = updates.doses?.map((dose, index) => ({
         time: dose.time,
         label: dose.label,
-        taken: dose.taken,
         dose_order: index + 1,
       })) ?? [];
 
-      const { error } = await updateMedicationWithDoses(id, dbUpdates, dosesData);
+      const offline = isBrowserOffline();
+      const { error } = offline
+        ? { error: null }
+        : await updateMedicationWithDoses(id, dbUpdates, dosesData);
+      if (offline || isNetworkError(error)) {
+        await queueOfflineChange({
+          id: crypto.randomUUID(),
+          type: "medication_update",
+          userId: user.id,
+          medicationId: id,
+          medicationName: updates.name ?? medication.name,
+          updates: dbUpdates,
+          base: toDbMedicationUpdates(medication),
+          doses: dosesData,
+          changedAt: new Date().toISOString(),
+        });
+        toast({
+          title: "Saved on this device",
+          description: "You're offline. The change will sync when you're back online.",
+        });
+        return;
+      }
       if (error) {
         // Revert on error
         setMedications((prev) =>
@@ -429,13 +891,167 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   // Refresh medications from database
-  const refreshMedications = async () => {
+  const refreshMedications = useCallback(async () => {
     if (!user) return;
 
-    const { medications: userMeds, error } = await getMedicationsWithDoses(user.id);
+    const today = toDateStringInTimeZone(timeZone);
+    const [{ medications: userMeds, error }, { history: todayLog }, { logs }] = await Promise.all([
+      getMedicationsWithDoses(user.id),
+      getDoseHistory(user.id, { from: today, to: today }),
+      getPrnDoseLogs(user.id, { since: getPrnWindowStart() }),
+    ]);
     if (!error) {
-      setMedications(userMeds.map(convertMedication));
+      setMedications(applyDoseLog(userMeds.map(convertMedication), todayLog));
+      setPrnLogs(logs);
+    }
+  }, [user, timeZone]);
+
+  // Load removed and expired medications
+  const loadPastMedications = useCallback(async (): Promise<Medication[]> => {
+    if (!user) return [];
+
+    const { medications: pastMeds, error } = await getPastMedicationsWithDoses(user.id);
+    if (error) {
+      console.error("Error loading past medications:", error);
+    }
+    return pastMeds.map(convertMedication);
+  }, [user]);
+
+  // Bring an archived medication back into the active list
+  const reactivateMedicationFn = async (id: string): Promise<{ error: string | null }> => {
+    if (!user) return { error: "Sign in to use the medication archive" };
+
+    const { error } = await reactivateMedicationInDb(id, timeZone);
+    if (error) {
+      console.error("Error reactivating medication:", error);
+      return { error };
+    }
+    await refreshMedications();
+    return { error: null };
+  };
+
+  // Start a new course of a prescription; the old course is archived as renewed
+  const renewMedicationFn = async (
+    id: string,
+    course: RenewalCourse
+  ): Promise<{ error: string | null }> => {
+    if (!user) return { error: "Sign in to use the medication archive" };
+
+    const { error } = await renewMedicationInDb(id, course);
+    if (error) {
+      console.error("Error renewing medication:", error);
+      return { error };
+    }
+    await refreshMedications();
+    return { error: null };
+  };
+
+  // Log a refill purchase and add it to the pill inventory
+  const logMedicationRefill = async (
+    medicationId: string,
+    quantity: number,
+    notes?: string
+  ): Promise<{ error: string | null }> => {
+    const medication = medications.find((m) => m.id === medicationId);
+    if (!medication) return { error: "Medication not found" };
+
+    const setPillsOnHand = (pillsOnHand: number) =>
+      setMedications((prev) =>
+        prev.map((med) => (med.id === medicationId ? { ...med, pillsOnHand } : med))
+      );
+
+    if (!user) {
+      // Demo mode - update locally only
+      setPillsOnHand((medication.pillsOnHand ?? 0) + quantity);
+      return { error: null };
+    }
+
+    const { pillsOnHand, error } = await logRefill({
+      medicationId,
+      userId: user.id,
+      quantity,
+      notes,
+    });
+
+    if (error) {
+      console.error("Error logging refill:", error);
+      return { error };
+    }
+
+    if (pillsOnHand !== null) {
+      setPillsOnHand(pillsOnHand);
     }
+    return { error: null };
+  };
+
+  // Log an as-needed dose, enforcing the medication's PRN limits
+  const logPrnDose = async (
+    medicationId: string,
+    options: { notes?: string; force?: boolean } = {}
+  ): Promise<{ check: PrnDoseCheck | null; error: string | null }> => {
+    const medication = medications.find((m) => m.id === medicationId);
+    if (!medication) return { check: null, error: "Medication not found" };
+
+    const check = checkPrnDose(
+      medication,
+      prnLogs.filter((log) => log.medication_id === medicationId)
+    );
+    if (check.status === "daily_max") {
+      return { check, error: "Maximum doses for 24 hours reached" };
+    }
+    if (check.status === "too_soon" && !options.force) {
+      return { check, error: "Too soon since the last dose" };
+    }
+
+    if (!user) {
+      // Demo mode - keep the log locally
+      const takenAt = new Date().toISOString();
+      setPrnLogs((prev) => [
+        ...prev,
+        {
+          id: `local-${Date.now()}`,
+          medication_id: medicationId,
+          user_id: "demo",
+          logged_by: null,
+          taken_at: takenAt,
+          notes: options.notes ?? null,
+          created_at: takenAt,
+        },
+      ]);
+      await updateInventoryForDose(medication, true);
+      return { check, error: null };
+    }
+
+    const { log, error } = await savePrnDose({
+      medicationId,
+      userId: user.id,
+      notes: options.notes,
+    });
+    if (error || !log) {
+      return { check, error: error ?? "Couldn't log dose" };
+    }
+
+    setPrnLogs((prev) => [...prev, log]);
+    await updateInventoryForDose(medication, true);
+    return { check, error: null };
+  };
+
+  // Remove an as-needed dose logged by mistake (and put the pills back)
+  const undoPrnDose = async (logId: string): Promise<{ error: string | null }> => {
+    const log = prnLogs.find((l) => l.id === logId);
+    if (!log) return { error: "Dose not found" };
+
+    if (user) {
+      const { error } = await deletePrnDose(logId);
+      if (error) return { error };
+    }
+
+    setPrnLogs((prev) => prev.filter((l) => l.id !== logId));
+    const medication = medications.find((m) => m.id === log.medication_id);
+    if (medication) {
+      await updateInventoryForDose(medication, false);
+    }
+    return { error: null };
   };
 
   // Add enhanced medication with full scheduling support
@@ -452,11 +1068,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
         imageUrl: med.imageUrl,
         frequency: med.frequency,
         customFrequency: med.customFrequency,
+        daysOfWeek: med.daysOfWeek,
+        cycleDaysOn: med.cycleDaysOn,
+        cycleDaysOff: med.cycleDaysOff,
+        prnMinIntervalMinutes: med.prnMinIntervalMinutes ?? null,
+        prnMaxDailyDoses: med.prnMaxDailyDoses ?? null,
         timePeriod: med.timePeriod,
+        startDate: med.startDate,
+        endDate: med.endDate,
         startTime: med.schedule.startTime,
         nextDayMode: med.schedule.nextDayMode,
         intervalMinutes: med.schedule.intervalMinutes,
         isActive: med.schedule.isActive,
+        dosePhases: med.schedule.phases,
+        doseAnchors: med.schedule.anchors,
         taken: false,
         doses: med.schedule.doses.map((dose, index) => ({
           id: `${Date.now()}-${index}`,
@@ -480,10 +1105,19 @@ export function AppProvider({ children }: { children: ReactNode }) {
       image_url: med.imageUrl ?? null,
       frequency: med.frequency,
       custom_frequency: med.customFrequency ?? null,
+      days_of_week: med.daysOfWeek ?? null,
+      cycle_days_on: med.cycleDaysOn ?? null,
+      cycle_days_off: med.cycleDaysOff ?? null,
+      prn_min_interval_minutes: med.prnMinIntervalMinutes ?? null,
+      prn_max_daily_doses: med.prnMaxDailyDoses ?? null,
       time_period: med.timePeriod,
+      start_date: med.startDate,
+      end_date: med.endDate ?? null,
       start_time: med.schedule.startTime,
       next_day_mode: med.schedule.nextDayMode,
       interval_minutes: med.schedule.intervalMinutes,
+      dose_phases: toDbDosePhases(med.schedule.phases),
+      dose_anchors: toDbDoseAnchors(med.schedule.anchors),
       is_active: true,
     };
 
@@ -572,6 +1206,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const updateNotificationSettings = async (settings: {
     email_reminder_enabled?: boolean;
     email_reminder_minutes?: number;
+    snooze_minutes?: number;
+    max_snoozes?: number;
   }): Promise<{ error: string | null }> => {
     if (!user) {
       return { error: "Not authenticated" };
@@ -585,6 +1221,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
         ...profile,
         email_reminder_enabled: settings.email_reminder_enabled ?? profile.email_reminder_enabled,
         email_reminder_minutes: settings.email_reminder_minutes ?? profile.email_reminder_minutes,
+        snooze_minutes: settings.snooze_minutes ?? profile.snooze_minutes,
+        max_snoozes: settings.max_snoozes ?? profile.max_snoozes,
       });
     }
 
@@ -608,6 +1246,174 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return { error };
   };
 
+  // Update the phone number companions can call from a missed-dose alert
+  const updateProfilePhone = async (phone: string): Promise<{ error: string | null }> => {
+    if (!user) {
+      return { error: "Not authenticated" };
+    }
+
+    const value = phone.trim() || null;
+    const { error } = await updateProfile(user.id, { phone: value });
+
+    if (!error && profile) {
+      setProfile({ ...profile, phone: value });
+    }
+
+    return { error };
+  };
+
+  // Daily routine, falling back to defaults until the user sets one
+  const dailyRoutine = useMemo(() => fromDbRoutine(profile), [profile]);
+
+  // Save the daily routine and move doses to follow it
+  const updateDailyRoutine = async (
+    routine: DailyRoutine
+  ): Promise<{ rescheduled: string[]; error: string | null }> => {
+    if (!user) {
+      return { rescheduled: [], error: "Not authenticated" };
+    }
+
+    const { rescheduled, error } = await saveDailyRoutine(user.id, routine, timeZone);
+
+    if (!error && profile) {
+      // Update local profile state
+      setProfile({ ...profile, ...toDbRoutine(routine) });
+    }
+
+    if (rescheduled.length > 0) {
+      await refreshMedications();
+    }
+
+    return { rescheduled, error };
+  };
+
+  // Save the time zone dose times are read in, and what happens when traveling
+  const updateTimeZone = async (
+    newTimeZone: string,
+    newTravelMode?: TravelMode
+  ): Promise<{ error: string | null }> => {
+    if (!user) {
+      return { error: "Not authenticated" };
+    }
+
+    const updates = {
+      timezone: newTimeZone,
+      ...(newTravelMode ? { travel_mode: newTravelMode } : {}),
+    };
+    const { error } = await updateProfile(user.id, updates);
+
+    if (!error && profile) {
+      // Update local profile state
+      setProfile({ ...profile, ...updates });
+    }
+
+    return { error };
+  };
+
+  // Save the chosen language on this device, and on the profile so
+  // companions and other devices use it too
+  const updatePreferredLanguage = async (
+    language: SupportedLanguage
+  ): Promise<{ error: string | null }> => {
+    saveLanguagePreference(language);
+    if (!user) return { error: null };
+
+    const { error } = await updateProfile(user.id, { preferred_language: language });
+    if (!error && profile) {
+      setProfile({ ...profile, preferred_language: language });
+    }
+
+    return { error };
+  };
+
+  // Send changes queued while offline; newer changes made elsewhere win.
+  // After being offline, reload anyway to pick up what others changed meanwhile
+  const runSync = useCallback(async (reloadAfter: boolean) => {
+    if (!user || !isOfflineStorageAvailable() || isBrowserOffline() || syncInFlight.current) return;
+
+    syncInFlight.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await replayQueue(user.id);
+      setPendingChanges(result.remaining);
+      if (result.remaining === 0) {
+        setLastSyncedAt(new Date().toISOString());
+      }
+      if (result.conflicts.length > 0) {
+        toast({
+          title: "Some offline changes weren't applied",
+          description: result.conflicts.join(" "),
+        });
+      }
+      if (reloadAfter || result.applied > 0 || result.conflicts.length > 0) {
+        await refreshMedications();
+      }
+    } catch (error) {
+      console.error("Error syncing offline changes:", error);
+    } finally {
+      syncInFlight.current = false;
+      setIsSyncing(false);
+    }
+  }, [user, refreshMedications]);
+
+  // Track the connection; sync once loaded and whenever it comes back
+  useEffect(() => {
+    if (!user || isLoading) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      runSync(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    if (isBrowserOffline()) {
+      if (isOfflineStorageAvailable()) {
+        getQueuedChanges(user.id)
+          .then((changes) => setPendingChanges(changes.length))
+          .catch((error) => console.error("Error reading offline changes:", error));
+      }
+    } else {
+      runSync(false);
+    }
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [user, isLoading, runSync]);
+
+  // Follow today's dose instances as they change on other devices or by a companion
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId || isLoading || !isSupabaseConfigured || userRole !== "patient") return;
+
+    const channel = subscribeToDoseInstances(userId, ({ type, instance }) => {
+      if (type === "DELETE" || instance.scheduled_date !== toDateStringInTimeZone(timeZone)) return;
+      setMedications((prev) => applyDoseLog(prev, [instance]));
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [userId, isLoading, userRole, timeZone]);
+
+  // Keep the regimen on this device so the app opens without a connection
+  useEffect(() => {
+    if (!user || isLoading || !isOfflineStorageAvailable()) return;
+    saveRegimenSnapshot({
+      userId: user.id,
+      profile,
+      medications,
+      savedAt: new Date().toISOString(),
+    }).catch((error) => console.error("Error saving offline regimen:", error));
+  }, [user, profile, medications, isLoading]);
+
+  const syncStatus: SyncStatus = { isOnline, isSyncing, pendingChanges, lastSyncedAt };
+  const syncPendingChanges = () => runSync(true);
+
   // Sign out
   const signOut = async () => {
     if (isSupabaseConfigured) {
@@ -651,7 +1457,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
         deleteMedication: deleteMedicationFn,
         toggleMedication,
         toggleDose,
+        skipDose,
+        saveDoseNote,
         refreshMedications,
+        loadPastMedications,
+        reactivateMedication: reactivateMedicationFn,
+        renewMedication: renewMedicationFn,
+        logMedicationRefill,
+        prnLogs,
+        logPrnDose,
+        undoPrnDose,
         linkCode,
         linkedPatients,
         linkedCompanions,
@@ -663,6 +1478,15 @@ export function AppProvider({ children }: { children: ReactNode }) {
         refreshCompanionData,
         updateNotificationSettings,
         updateProfileName,
+        updateProfilePhone,
+        dailyRoutine,
+        updateDailyRoutine,
+        timeZone,
+        travelMode,
+        updateTimeZone,
+        updatePreferredLanguage,
+        syncStatus,
+        syncPendingChanges,
         signOut,
       }}
     >
@@ -1,211 +1,8 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 
-// Minimal type definition for our tables
-export interface Database {
-  public: {
-    Tables: {
-      profiles: {
-        Row: {
-          id: string;
-          email: string;
-          name: string;
-          role: "patient" | "companion";
-          link_code: string | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id: string;
-          email: string;
-          name: string;
-          role: "patient" | "companion";
-          link_code?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          email?: string;
-          name?: string;
-          role?: "patient" | "companion";
-          link_code?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      medications: {
-        Row: {
-          id: string;
-          user_id: string;
-          name: string;
-          dosage: string;
-          category: string;
-          instructions: string | null;
-          image_url: string | null;
-          frequency: string;
-          custom_frequency: number | null;
-          time_period: string;
-          start_date: string | null;
-          end_date: string | null;
-          start_time: string;
-          next_day_mode: string;
-          interval_minutes: number | null;
-          is_active: boolean;
-          time: string | null;
-          taken: boolean;
-          taken_at: string | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          user_id: string;
-          name: string;
-          dosage: string;
-          category?: string;
-          instructions?: string | null;
-          image_url?: string | null;
-          frequency?: string;
-          custom_frequency?: number | null;
-          time_period?: string;
-          start_date?: string | null;
-          end_date?: string | null;
-          start_time?: string;
-          next_day_mode?: string;
-          interval_minutes?: number | null;
-          is_active?: boolean;
-          time?: string | null;
-          taken?: boolean;
-          taken_at?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          user_id?: string;
-          name?: string;
-          dosage?: string;
-          category?: string;
-          instructions?: string | null;
-          image_url?: string | null;
-          frequency?: string;
-          custom_frequency?: number | null;
-          time_period?: string;
-          start_date?: string | null;
-          end_date?: string | null;
-          start_time?: string;
-          next_day_mode?: string;
-          interval_minutes?: number | null;
-          is_active?: boolean;
-          time?: string | null;
-          taken?: boolean;
-          taken_at?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      schedule_doses: {
-        Row: {
-          id: string;
-          medication_id: string;
-          time: string;
-          label: string;
-          taken: boolean;
-          taken_at: string | null;
-          dose_order: number;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          medication_id: string;
-          time: string;
-          label: string;
-          taken?: boolean;
-          taken_at?: string | null;
-          dose_order?: number;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          medication_id?: string;
-          time?: string;
-          label?: string;
-          taken?: boolean;
-          taken_at?: string | null;
-          dose_order?: number;
-          created_at?: string;
-        };
-      };
-      dose_history: {
-        Row: {
-          id: string;
-          user_id: string;
-          medication_id: string;
-          dose_id: string | null;
-          scheduled_time: string;
-          scheduled_date: string;
-          taken_at: string | null;
-          status: string;
-          notes: string | null;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          user_id: string;
-          medication_id: string;
-          dose_id?: string | null;
-          scheduled_time: string;
-          scheduled_date: string;
-          taken_at?: string | null;
-          status?: string;
-          notes?: string | null;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          user_id?: string;
-          medication_id?: string;
-          dose_id?: string | null;
-          scheduled_time?: string;
-          scheduled_date?: string;
-          taken_at?: string | null;
-          status?: string;
-          notes?: string | null;
-          created_at?: string;
-        };
-      };
-      patient_companions: {
-        Row: {
-          id: string;
-          patient_id: string;
-          companion_id: string;
-          status: string;
-          created_at: string;
-          accepted_at: string | null;
-        };
-        Insert: {
-          id?: string;
-          patient_id: string;
-          companion_id: string;
-          status?: string;
-          created_at?: string;
-          accepted_at?: string | null;
-        };
-        Update: {
-          id?: string;
-          patient_id?: string;
-          companion_id?: string;
-          status?: string;
-          created_at?: string;
-          accepted_at?: string | null;
-        };
-      };
-    };
-    Views: Record<string, never>;
-    Functions: Record<string, never>;
-    Enums: Record<string, never>;
-  };
-}
+import type { Database } from "@/types/database";
+
+export type { Database };
 
 // Type aliases for convenience
 export type Profile = Database["public"]["Tables"]["profiles"]["Row"];
@@ -40,13 +40,35 @@ import {
   extractMultipleMedicinesFromImages,
   ExtractedMedicine,
 } from "@/services/openai";
-import { addMedicationForPatient } from "../services/companionMedication";
+import { addMedicationForPatient, getPatientRoutine } from "../services/companionMedication";
 import { useApp } from "@/contexts/AppContext";
-import { TIME_PERIOD_OPTIONS, calculateEndDate, getTodayDateString } from "@/modules/medication/constants";
+import {
+  DEFAULT_DAILY_ROUTINE,
+  TIME_PERIOD_OPTIONS,
+  calculateEndDate,
+  getTodayDateString,
+} from "@/modules/medication/constants";
 import {
   checkDrugInteractions,
   type DetectedInteraction,
 } from "@/modules/medication/services/interactionService";
+import {
+  buildDoseAnchors,
+  detectDoseTiming,
+  formatDoseTiming,
+  getDosesPerDoseDay,
+  isFrequencyPatternComplete,
+  parseTaperSteps,
+} from "@/modules/medication/services/scheduleService";
+import { TaperPhaseEditor } from "@/modules/medication/components/TaperPhaseEditor";
+import { FrequencyPatternEditor } from "@/modules/medication/components/FrequencyPatternEditor";
+import { DoseTimingPicker } from "@/modules/medication/components/DoseTimingPicker";
+import type {
+  DailyRoutine,
+  DoseAnchor,
+  FrequencyPattern,
+  TaperStep,
+} from "@/modules/medication/types";
 
 interface Props {
   isOpen: boolean;
@@ -58,13 +80,15 @@ interface Props {
 
 type Tab = "scan" | "talk" | "type";
 
-interface MedicineQueueItem extends ExtractedMedicine {
+interface MedicineQueueItem extends ExtractedMedicine, FrequencyPattern {
   id: string;
   source: "scan" | "voice" | "manual";
   category: MedicationCategory;
   frequency: FrequencyType;
   timePeriod: string;
   imageUrl?: string;
+  taperSteps?: TaperStep[];
+  doseAnchors?: DoseAnchor[];
 }
 
 interface MedicineInteraction {
@@ -72,6 +96,29 @@ interface MedicineInteraction {
   interactions: DetectedInteraction[];
 }
 
+// Read taper steps from an extracted medicine (structured, or from its instructions)
+const getExtractedTaperSteps = (m: ExtractedMedicine): TaperStep[] | undefined => {
+  const steps = m.taper?.length
+    ? m.taper.map((step) => ({
+        dosage: step.dosage,
+        days: step.days,
+        frequency: step.frequency as FrequencyType | undefined,
+      }))
+    : parseTaperSteps(`${m.dosage} ${m.instructions}`);
+  return steps.length >= 2 ? steps : undefined;
+};
+
+// Anchor doses to meals or bedtime when the instructions say so (e.g., "before breakfast")
+const getExtractedDoseAnchors = (
+  m: ExtractedMedicine,
+  frequency: FrequencyType
+): DoseAnchor[] | undefined => {
+  const detected = m.instructions ? detectDoseTiming(m.instructions) : null;
+  if (!detected) return undefined;
+  const anchors = buildDoseAnchors(detected.timing, getDosesPerDoseDay(frequency), detected.minutes);
+  return anchors.length > 0 ? anchors : undefined;
+};
+
 // Normalize medicine name for comparison (case-insensitive, trimmed)
 const normalizeMedicineName = (name: string): string => {
   return name.toLowerCase().trim().replace(/\s+/g, ' ');
@@ -124,6 +171,8 @@ const DEFAULT_FREQUENCIES: FrequencyType[] = [
   "twice_daily",
   "three_times_daily",
   "four_times_daily",
+  "specific_days",
+  "cycle",
   "as_needed",
 ];
 
@@ -165,6 +214,7 @@ export function AddMedicineForPatientModal({
   onMedicationAdded,
 }: Props) {
   const { user } = useApp();
+  const [patientRoutine, setPatientRoutine] = useState<DailyRoutine>(DEFAULT_DAILY_ROUTINE);
   const [activeTab, setActiveTab] = useState<Tab>("scan");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -189,6 +239,9 @@ export function AddMedicineForPatientModal({
     frequency: "once_daily" as FrequencyType,
     timePeriod: "ongoing",
     imageUrl: "",
+    taperSteps: [] as TaperStep[],
+    pattern: {} as FrequencyPattern,
+    doseAnchors: [] as DoseAnchor[],
   });
 
   // Dropdown states
@@ -361,12 +414,21 @@ export function AddMedicineForPatientModal({
         frequency: "once_daily",
         timePeriod: "ongoing",
         imageUrl: "",
+        taperSteps: [],
+        pattern: {},
+        doseAnchors: [],
       });
       setEditingId(null);
       setActiveTab("scan");
     }
   }, [isOpen, stopCamera, stopRecording]);
 
+  // Load the patient's routine so anchored doses preview at their times
+  useEffect(() => {
+    if (!isOpen) return;
+    getPatientRoutine(patient.id).then(setPatientRoutine);
+  }, [isOpen, patient.id]);
+
   // Search drug database with debounce
   const handleDrugSearch = useCallback((query: string) => {
     if (suggestionTimeoutRef.current) {
@@ -631,6 +693,8 @@ export function AddMedicineForPatientModal({
               time: medicineTime,
       timePeriod: "ongoing",
               imageUrl: images[Math.min(newItems.length, images.length - 1)],
+              taperSteps: getExtractedTaperSteps(m),
+              doseAnchors: getExtractedDoseAnchors(m, frequency),
             });
             addedNames.push(m.name);
           }
@@ -755,6 +819,8 @@ export function AddMedicineForPatientModal({
                       frequency,
                       time: medicineTime,
                       timePeriod: "ongoing",
+                      taperSteps: getExtractedTaperSteps(m),
+                      doseAnchors: getExtractedDoseAnchors(m, frequency),
                     });
                     addedNames.push(m.name);
                   }
@@ -839,6 +905,18 @@ export function AddMedicineForPatientModal({
       return;
     }
 
+    if (!isFrequencyPatternComplete(formData.frequency, formData.pattern)) {
+      toast({
+        title: "Missing days",
+        description:
+          formData.frequency === "cycle"
+            ? "Please enter how many days are taken each cycle."
+            : "Please pick at least one day.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (editingId) {
       const otherQueueNames = medicineQueue
         .filter((m) => m.id !== editingId)
@@ -870,6 +948,9 @@ export function AddMedicineForPatientModal({
                 frequency: formData.frequency,
                 timePeriod: formData.timePeriod,
                 imageUrl: formData.imageUrl,
+                taperSteps: formData.taperSteps.length > 0 ? formData.taperSteps : undefined,
+                doseAnchors: formData.doseAnchors.length > 0 ? formData.doseAnchors : undefined,
+                ...formData.pattern,
               }
             : item
         )
@@ -902,6 +983,9 @@ export function AddMedicineForPatientModal({
         frequency: formData.frequency,
         timePeriod: formData.timePeriod,
         imageUrl: formData.imageUrl,
+        taperSteps: formData.taperSteps.length > 0 ? formData.taperSteps : undefined,
+        doseAnchors: formData.doseAnchors.length > 0 ? formData.doseAnchors : undefined,
+        ...formData.pattern,
       };
       setMedicineQueue((prev) => [...prev, newItem]);
     }
@@ -915,6 +999,9 @@ export function AddMedicineForPatientModal({
       frequency: "once_daily",
       timePeriod: "ongoing",
       imageUrl: "",
+      taperSteps: [],
+      pattern: {},
+      doseAnchors: [],
     });
       toast({
       title: editingId ? "Medicine updated!" : "Medicine added to list!",
@@ -932,6 +1019,15 @@ export function AddMedicineForPatientModal({
       frequency: item.frequency,
       timePeriod: item.timePeriod || "ongoing",
       imageUrl: item.imageUrl || "",
+      taperSteps: item.taperSteps || [],
+      pattern: {
+        daysOfWeek: item.daysOfWeek,
+        cycleDaysOn: item.cycleDaysOn,
+        cycleDaysOff: item.cycleDaysOff,
+        prnMinIntervalMinutes: item.prnMinIntervalMinutes,
+        prnMaxDailyDoses: item.prnMaxDailyDoses,
+      },
+      doseAnchors: item.doseAnchors || [],
     });
     setEditingId(item.id);
     setActiveTab("type");
@@ -950,6 +1046,9 @@ export function AddMedicineForPatientModal({
         frequency: "once_daily",
         timePeriod: "ongoing",
         imageUrl: "",
+        taperSteps: [],
+        pattern: {},
+        doseAnchors: [],
       });
     }
   };
@@ -1007,7 +1106,7 @@ export function AddMedicineForPatientModal({
 
     try {
       for (const medicine of medicineQueue) {
-      const startDate = getTodayDateString();
+      const startDate = getTodayDateString(patient.timeZone);
         const endDate = calculateEndDate(startDate, medicine.timePeriod);
 
       const { error } = await addMedicationForPatient(
@@ -1027,6 +1126,13 @@ export function AddMedicineForPatientModal({
             startTime: medicine.time,
           nextDayMode: "restart" as NextDayMode,
           isActive: true,
+          taperSteps: medicine.taperSteps,
+          doseAnchors: medicine.doseAnchors,
+          daysOfWeek: medicine.daysOfWeek,
+          cycleDaysOn: medicine.cycleDaysOn,
+          cycleDaysOff: medicine.cycleDaysOff,
+          prnMinIntervalMinutes: medicine.prnMinIntervalMinutes,
+          prnMaxDailyDoses: medicine.prnMaxDailyDoses,
         }
       );
 
@@ -1197,7 +1303,7 @@ export function AddMedicineForPatientModal({
                           <p className="font-semibold truncate">{item.name || "Unnamed"}</p>
                         </div>
                         <p className="text-sm text-muted-foreground truncate">
-                          {item.dosage} • {item.time || "No time set"}
+                          {item.dosage} • {formatDoseTiming(item.doseAnchors) ?? (item.time || "No time set")}
                         </p>
                         <div className="flex flex-wrap gap-2 mt-1">
                           <span
@@ -1621,48 +1727,74 @@ export function AddMedicineForPatientModal({
             </div>
           </div>
 
-          {/* Duration Dropdown */}
-          <div className="relative">
-            <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
-              Duration (How long to take) *
-            </label>
-            <button
-              type="button"
-              onClick={() => {
-                setShowDurationDropdown(!showDurationDropdown);
-                setShowCategoryDropdown(false);
-                setShowFrequencyDropdown(false);
-              }}
-              className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left"
-            >
-              <span className="text-sm">
-                {TIME_PERIOD_OPTIONS.find((opt) => opt.value === formData.timePeriod)?.label || "Select duration"}
-              </span>
-              <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
-            </button>
-            {showDurationDropdown && (
-              <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-xl shadow-lg max-h-60 overflow-y-auto">
-                {TIME_PERIOD_OPTIONS.map((opt) => (
-                  <button
-                    key={opt.value}
-                    type="button"
-                    onClick={() => {
-                      setFormData((prev) => ({
-                        ...prev,
-                        timePeriod: opt.value,
-                      }));
-                      setShowDurationDropdown(false);
-                    }}
-                    className={`w-full px-4 py-3 text-left hover:bg-muted transition-colors ${
-                      formData.timePeriod === opt.value ? "bg-muted" : ""
-                    }`}
-                  >
-                    {opt.label}
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
+          {/* Weekdays or on/off cycle */}
+          <FrequencyPatternEditor
+            frequency={formData.frequency}
+            value={formData.pattern}
+            onChange={(pattern) => setFormData((prev) => ({ ...prev, pattern }))}
+          />
+
+          {/* Meal, bedtime or waking anchors (uses the patient's routine) */}
+          <DoseTimingPicker
+            frequency={formData.frequency}
+            value={formData.doseAnchors}
+            onChange={(doseAnchors) => setFormData((prev) => ({ ...prev, doseAnchors }))}
+            routine={patientRoutine}
+          />
+
+          {/* Taper (dose changes over time) */}
+          <TaperPhaseEditor
+            steps={formData.taperSteps}
+            onChange={(taperSteps) => setFormData((prev) => ({ ...prev, taperSteps }))}
+            defaultFrequency={formData.frequency}
+            startDate={getTodayDateString(patient.timeZone)}
+            initialDosage={formData.dosage}
+          />
+
+          {/* Duration Dropdown (a taper sets its own length) */}
+          {formData.taperSteps.length === 0 && (
+            <div className="relative">
+              <label className="text-senior-sm font-semibold text-muted-foreground mb-2 block">
+                Duration (How long to take) *
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowDurationDropdown(!showDurationDropdown);
+                  setShowCategoryDropdown(false);
+                  setShowFrequencyDropdown(false);
+                }}
+                className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left"
+              >
+                <span className="text-sm">
+                  {TIME_PERIOD_OPTIONS.find((opt) => opt.value === formData.timePeriod)?.label || "Select duration"}
+                </span>
+                <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+              </button>
+              {showDurationDropdown && (
+                <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-xl shadow-lg max-h-60 overflow-y-auto">
+                  {TIME_PERIOD_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() => {
+                        setFormData((prev) => ({
+                          ...prev,
+                          timePeriod: opt.value,
+                        }));
+                        setShowDurationDropdown(false);
+                      }}
+                      className={`w-full px-4 py-3 text-left hover:bg-muted transition-colors ${
+                        formData.timePeriod === opt.value ? "bg-muted" : ""
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Dosage and Time Row */}
           <div className="grid grid-cols-2 gap-4">
@@ -1689,12 +1821,15 @@ export function AddMedicineForPatientModal({
               <button
                 type="button"
                 onClick={openTimePicker}
-                className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left hover:border-primary transition-colors"
+                disabled={formData.doseAnchors.length > 0}
+                className="w-full h-12 px-4 rounded-xl border border-border bg-background flex items-center justify-between text-left hover:border-primary transition-colors disabled:opacity-60 disabled:hover:border-border"
               >
                 <div className="flex items-center gap-2">
                   <Clock className="w-4 h-4 text-muted-foreground" />
                   <span className={formData.time ? "font-medium" : "text-muted-foreground"}>
-                    {formData.time || "Select time"}
+                    {formData.doseAnchors.length > 0
+                      ? "Follows routine"
+                      : formData.time || "Select time"}
                   </span>
                 </div>
                 <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
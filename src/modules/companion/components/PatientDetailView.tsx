@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   ArrowLeft,
   Pill,
@@ -14,14 +14,58 @@ import {
   WifiOff,
   MessageCircle,
   Camera,
+  PackagePlus,
+  Globe,
+  SkipForward,
+  Hand,
+  ShieldAlert,
+  Archive,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import type { LinkedPatient, Medication } from "@/types";
+import type { LinkedPatient, Medication, ScheduledDose, SkipReason } from "@/types";
+import type { PrnDoseLog } from "@/types/database";
 import { CATEGORY_LABELS, CATEGORY_COLORS, FREQUENCY_LABELS } from "@/types";
 import { getAdherenceColor } from "../constants";
 import { AddMedicineForPatientModal } from "./AddMedicineForPatientModal";
+import { AdherenceAnalytics } from "@/modules/medication/components/AdherenceAnalytics";
+import { CalendarExportCard } from "@/modules/medication/components/CalendarExportCard";
+import { FhirTransferCard } from "@/modules/medication/components/FhirTransferCard";
+import { VisitReportCard } from "@/modules/medication/components/VisitReportCard";
+import { DuplicationReportCard } from "@/modules/medication/components/DuplicationReportCard";
+import { DailyDoseReportCard } from "@/modules/medication/components/DailyDoseReportCard";
+import { ScheduleOptimizerCard } from "@/modules/medication/components/ScheduleOptimizerCard";
+import { MedicationAuditLog } from "@/modules/medication/components/MedicationAuditLog";
+import type { ScheduleChange } from "@/modules/medication/services/scheduleOptimizerService";
+import type { DailyRoutine } from "@/modules/medication/types";
+import type { FhirImportChange } from "@/modules/medication/services/fhirService";
+import { FeatureGate } from "@/modules/subscription";
+import { LogRefillDialog } from "@/modules/medication/components/LogRefillDialog";
+import { SkipDoseDialog } from "@/modules/medication/components/SkipDoseDialog";
+import { DEFAULT_DAILY_ROUTINE, getSkipReasonLabel } from "@/modules/medication/constants";
+import { calculatePrnUsage, forecastSupply } from "@/modules/medication/services/analyticsService";
+import {
+  checkPrnDose,
+  formatPrnLimits,
+  formatPrnTime,
+  formatTimeForViewer,
+  formatTimeZoneLabel,
+  getNowInTimeZone,
+  getTimeZoneOffsetMinutes,
+  isDueOnDate,
+  toDateStringInTimeZone,
+} from "@/modules/medication/services/scheduleService";
+import { useApp } from "@/contexts/AppContext";
+import { getPrnDoseLogs, logRefill, recordDoseEvent } from "@/services/supabase";
 import { useRealtimePatientMedications } from "../hooks/useRealtimePatientMedications";
+import {
+  getPatientRoutine,
+  importMedicationsForPatient,
+  rescheduleMedicationsForPatient,
+} from "../services/companionMedication";
+
+// How far back companions see as-needed use
+const PRN_USAGE_DAYS = 30;
 
 interface Props {
   patient: LinkedPatient;
@@ -31,7 +75,15 @@ interface Props {
 
 export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
   const navigate = useNavigate();
+  const { user, timeZone } = useApp();
   const [showAddModal, setShowAddModal] = useState(false);
+  const [refillMedication, setRefillMedication] = useState<Medication | null>(null);
+  const [skipTarget, setSkipTarget] = useState<{
+    medication: Medication;
+    dose: ScheduledDose | null;
+  } | null>(null);
+  const [prnLogs, setPrnLogs] = useState<PrnDoseLog[]>([]);
+  const [patientRoutine, setPatientRoutine] = useState<DailyRoutine>(DEFAULT_DAILY_ROUTINE);
   
   // Use realtime sync for this patient's medications
   const {
@@ -39,14 +91,94 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
     isLoading: isSyncing,
     isConnected,
     refresh,
+    loadPastMedications,
   } = useRealtimePatientMedications(patient.id, {
     enabled: patient.linkStatus === "accepted",
+    timeZone: patient.timeZone,
     onUpdate: onPatientUpdate,
   });
 
-  // Use realtime medications if available, otherwise fall back to initial data
+  // Dose times are on the patient's clock; show the companion's too when they differ
+  const patientZone = patient.timeZone;
+
+  // As-needed doses over the usage window, for patterns and today's limits
+  const loadPrnLogs = useCallback(async () => {
+    const since = new Date(Date.now() - PRN_USAGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { logs } = await getPrnDoseLogs(patient.id, { since });
+    setPrnLogs(logs);
+  }, [patient.id]);
+
+  useEffect(() => {
+    loadPrnLogs();
+  }, [loadPrnLogs]);
+
+  // The patient's waking hours and meals, for suggested dose times
+  useEffect(() => {
+    getPatientRoutine(patient.id).then(setPatientRoutine);
+  }, [patient.id]);
+
+  // Use realtime medications if available (today's dose instances applied),
+  // otherwise fall back to initial data
   const medications = realtimeMedications.length > 0 ? realtimeMedications : patient.medications;
   const { name, email, lastActivity } = patient;
+  const prnUsage = calculatePrnUsage(medications, prnLogs, PRN_USAGE_DAYS, patientZone);
+
+  const isOtherTimeZone =
+    !!patientZone &&
+    getTimeZoneOffsetMinutes(patientZone) !== getTimeZoneOffsetMinutes(timeZone);
+  const viewerTime = (time: string) => formatTimeForViewer(time, patientZone, timeZone);
+
+  // Companions can log refill purchases on the patient's behalf
+  const handleLogRefill = async (quantity: number, notes?: string) => {
+    if (!refillMedication) return { error: "No medication selected" };
+    const { error } = await logRefill({
+      medicationId: refillMedication.id,
+      userId: patient.id,
+      quantity,
+      loggedBy: user?.id,
+      notes,
+    });
+    if (!error) await refresh();
+    return { error };
+  };
+
+  // Companions can bring in a clinic's FHIR medication list for the patient
+  const handleFhirImport = async (changes: FhirImportChange[]) => {
+    if (!user) return { error: "Not authenticated" };
+    const { error } = await importMedicationsForPatient(patient.id, user.id, changes);
+    await refresh();
+    return { error };
+  };
+
+  const handleApplySchedule = async (changes: ScheduleChange[]) => {
+    if (!user) return { error: "Not authenticated" };
+    const { error } = await rescheduleMedicationsForPatient(
+      patient.id,
+      user.id,
+      changes.map((change) => ({ medicationId: change.medicationId, times: change.after }))
+    );
+    await refresh();
+    return { error };
+  };
+
+  // Companions can mark a dose skipped (e.g., the doctor said to hold it)
+  const handleSkipDose = async (reason: SkipReason | null, note: string) => {
+    if (!skipTarget) return { error: "No dose selected" };
+    const { medication, dose } = skipTarget;
+    const { error } = await recordDoseEvent({
+      userId: patient.id,
+      medicationId: medication.id,
+      doseId: dose?.id ?? null,
+      scheduledTime: dose ? dose.time : medication.time,
+      status: "skipped",
+      skipReason: reason,
+      notes: note.trim() || null,
+      actorId: user?.id,
+      timeZone: patientZone,
+    });
+    if (!error) await refresh();
+    return { error };
+  };
 
   // Helper to check if a medication is fully taken (considering doses)
   const isMedTaken = (med: Medication) => {
@@ -57,16 +189,23 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
   };
   
   // Calculate DOSE-level progress (more accurate than medication count)
-  const { totalDoses, takenDoses } = medications.reduce((acc, med) => {
+  // Deliberately skipped doses are settled, so they aren't pending;
+  // as-needed medications, off days and dates outside the prescription have nothing due
+  const patientToday = toDateStringInTimeZone(patientZone);
+  const { totalDoses, takenDoses, skippedDoses } = medications.reduce((acc, med) => {
+    if (!isDueOnDate(med, patientToday)) return acc;
     if (med.doses && med.doses.length > 0) {
       acc.totalDoses += med.doses.length;
       acc.takenDoses += med.doses.filter(d => d.taken).length;
+      acc.skippedDoses += med.doses.filter(d => d.skipped && !d.taken).length;
     } else {
       acc.totalDoses += 1;
       acc.takenDoses += med.taken ? 1 : 0;
+      acc.skippedDoses += med.skipped && !med.taken ? 1 : 0;
     }
     return acc;
-  }, { totalDoses: 0, takenDoses: 0 });
+  }, { totalDoses: 0, takenDoses: 0, skippedDoses: 0 });
+  const pendingDoseCount = totalDoses - takenDoses - skippedDoses;
   
   const takenCount = medications.filter(isMedTaken).length;
   const totalCount = medications.length;
@@ -95,7 +234,7 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
       if (med.doses && med.doses.length > 0) {
         // Multi-dose: find pending doses
         med.doses.forEach(dose => {
-          if (!dose.taken) {
+          if (!dose.taken && !dose.skipped) {
             allPendingDoses.push({
               medName: med.name,
               dosage: med.dosage,
@@ -104,7 +243,7 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
             });
           }
         });
-      } else if (!med.taken) {
+      } else if (!med.taken && !med.skipped) {
         // Single dose: use medication time
         allPendingDoses.push({
           medName: med.name,
@@ -176,12 +315,23 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                 )}
               </div>
             </div>
+            {isOtherTimeZone && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Globe className="w-3 h-3" />
+                {formatTimeZoneLabel(patientZone)} · it's{" "}
+                {getNowInTimeZone(patientZone).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}{" "}
+                there
+              </p>
+            )}
           </div>
           {/* Refresh button stays in top row */}
           <Button
             variant="ghost"
             size="icon"
-            onClick={refresh}
+            onClick={() => {
+              refresh();
+              loadPrnLogs();
+            }}
             disabled={isSyncing}
             title="Refresh medications"
             className="shrink-0"
@@ -202,6 +352,26 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
             <Camera className="w-4 h-4" />
             <MessageCircle className="w-4 h-4" />
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate(`/companion/patient/${patient.id}/interactions`)}
+            className="gap-1"
+            title="Check all medicines against each other"
+          >
+            <ShieldAlert className="w-4 h-4" />
+            Interactions
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate(`/companion/patient/${patient.id}/archive`)}
+            className="gap-1"
+            title="Past medicines, to reactivate or renew"
+          >
+            <Archive className="w-4 h-4" />
+            Past
+          </Button>
           <Button
             variant="coral"
             size="sm"
@@ -224,7 +394,9 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
           <p className="text-2xl font-bold text-primary">
             {takenDoses}/{totalDoses}
           </p>
-          <p className="text-xs text-muted-foreground">taken</p>
+          <p className="text-xs text-muted-foreground">
+            taken{skippedDoses > 0 && ` · ${skippedDoses} skipped`}
+          </p>
         </div>
 
         <div className="card-senior bg-teal-light">
@@ -271,12 +443,12 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
       </div>
 
       {/* Upcoming/Alert Section */}
-      {(totalDoses - takenDoses) > 0 && (
+      {pendingDoseCount > 0 && (
         <div className="card-senior border-2 border-amber-300">
           <div className="flex items-center gap-3 mb-3">
             <AlertTriangle className="w-5 h-5 text-amber-600" />
             <span className="font-semibold text-amber-700">
-              {totalDoses - takenDoses} dose{(totalDoses - takenDoses) > 1 ? "s" : ""}{" "}
+              {pendingDoseCount} dose{pendingDoseCount > 1 ? "s" : ""}{" "}
               pending
             </span>
           </div>
@@ -295,12 +467,104 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                 <p className="text-sm text-muted-foreground">
                   {nextPendingDose.dosage} • {nextPendingDose.label}
                 </p>
+                {viewerTime(nextPendingDose.time) && (
+                  <p className="text-xs text-muted-foreground">{viewerTime(nextPendingDose.time)}</p>
+                )}
               </div>
             </div>
           )}
         </div>
       )}
 
+      {/* Adherence History */}
+      {medications.length > 0 && (
+        <div className="card-senior">
+          <AdherenceAnalytics
+            patientId={patient.id}
+            timeZone={patientZone}
+            medications={medications}
+            showInsights={false}
+          />
+        </div>
+      )}
+
+      {/* As-needed use */}
+      {prnUsage.length > 0 && (
+        <div className="card-senior space-y-4">
+          <h3 className="text-senior-lg font-bold flex items-center gap-2">
+            <Hand className="w-5 h-5 text-primary" />
+            As-Needed Use
+            <span className="text-sm font-normal text-muted-foreground">
+              (last {PRN_USAGE_DAYS} days)
+            </span>
+          </h3>
+          {prnUsage.map((usage) => {
+            const med = medications.find((m) => m.id === usage.medicationId)!;
+            const check = checkPrnDose(
+              med,
+              prnLogs.filter((log) => log.medication_id === med.id)
+            );
+            const recentDays = usage.dailyCounts.slice(-14);
+            const peak = Math.max(1, ...recentDays.map((d) => d.count));
+
+            return (
+              <div key={usage.medicationId} className="p-3 rounded-xl bg-muted/50 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{usage.medicationName}</p>
+                    <p className="text-xs text-muted-foreground">{formatPrnLimits(med)}</p>
+                  </div>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${
+                      check.status === "daily_max"
+                        ? "bg-destructive/10 text-destructive"
+                        : check.status === "too_soon"
+                        ? "bg-amber-100 text-amber-700"
+                        : "bg-secondary/20 text-secondary"
+                    }`}
+                  >
+                    {check.status === "ok"
+                      ? "Can take now"
+                      : `Next at ${formatPrnTime(check.nextAllowedAt!, patientZone)}`}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {usage.totalDoses === 0
+                    ? "Not used"
+                    : `${usage.totalDoses} dose${usage.totalDoses === 1 ? "" : "s"} on ${
+                        usage.daysUsed
+                      } day${usage.daysUsed === 1 ? "" : "s"} · up to ${usage.maxInOneDay} a day${
+                        usage.busiestTimeSlot ? ` · mostly ${usage.busiestTimeSlot}` : ""
+                      }`}
+                </p>
+                {usage.lastTakenAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Last taken{" "}
+                    {getNowInTimeZone(patientZone, new Date(usage.lastTakenAt)).toLocaleString([], {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                )}
+                {/* Doses per day, last two weeks */}
+                <div className="flex items-end gap-0.5 h-8" aria-label="Doses per day, last 14 days">
+                  {recentDays.map((day) => (
+                    <div
+                      key={day.date}
+                      title={`${day.date}: ${day.count}`}
+                      className={`flex-1 rounded-sm ${day.count > 0 ? "bg-primary/70" : "bg-border"}`}
+                      style={{ height: `${Math.max(8, (day.count / peak) * 100)}%` }}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Medications by Category */}
       <div className="space-y-4">
         <h3 className="text-senior-lg font-bold flex items-center gap-2">
@@ -378,24 +642,67 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                         <span>{med.dosage}</span>
                         <span>•</span>
                         <span>{med.time}</span>
+                        {viewerTime(med.time) && <span>({viewerTime(med.time)})</span>}
                       </div>
                       {med.frequency && med.frequency !== "once_daily" && (
                         <span className="text-xs px-2 py-0.5 mt-1 rounded-full bg-muted inline-block">
                           {FREQUENCY_LABELS[med.frequency]}
                         </span>
                       )}
+                      {/* Pill supply for tracked medications */}
+                      {(() => {
+                        const supply = forecastSupply(med);
+                        if (!supply) return null;
+                        return (
+                          <div className="flex items-center gap-2 mt-1 text-xs">
+                            <span className={supply.isLowStock ? "text-amber-700 font-medium" : "text-muted-foreground"}>
+                              {supply.isLowStock && "⚠️ "}
+                              {supply.pillsOnHand} left · ~{supply.daysOfSupply} day(s)
+                            </span>
+                            {patient.linkStatus === "accepted" && (
+                              <button
+                                onClick={() => setRefillMedication(med)}
+                                className="inline-flex items-center gap-1 text-primary font-medium hover:underline"
+                              >
+                                <PackagePlus className="w-3 h-3" />
+                                Log refill
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })()}
                       {/* Show individual doses for multi-dose medications */}
-                      {med.doses && med.doses.length > 0 && (
+                      {med.frequency !== "as_needed" && med.doses && med.doses.length > 0 && (
                         <div className="mt-2 space-y-1">
                           {med.doses.map((dose) => (
-                            <div key={dose.id} className="flex items-center gap-2 text-xs">
-                              <span className={dose.taken ? "text-secondary" : "text-muted-foreground"}>
-                                {dose.taken ? "✓" : "○"} {dose.label} ({dose.time})
-                              </span>
-                              {dose.taken && dose.takenAt && (
-                                <span className="text-muted-foreground">
-                                  → {new Date(dose.takenAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            <div key={dose.id} className="text-xs">
+                              <div className="flex items-center gap-2">
+                                <span className={dose.taken ? "text-secondary" : "text-muted-foreground"}>
+                                  {dose.taken ? "✓" : dose.skipped ? "⤼" : "○"} {dose.label} ({dose.time}
+                                  {viewerTime(dose.time) && ` · ${viewerTime(dose.time)}`})
                                 </span>
+                                {dose.taken && dose.takenAt && (
+                                  <span className="text-muted-foreground">
+                                    → {new Date(dose.takenAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                  </span>
+                                )}
+                                {!dose.taken && dose.skipped && (
+                                  <span className="text-muted-foreground">
+                                    skipped · {getSkipReasonLabel(dose.skipReason)}
+                                  </span>
+                                )}
+                                {!dose.taken && !dose.skipped && patient.linkStatus === "accepted" && (
+                                  <button
+                                    onClick={() => setSkipTarget({ medication: med, dose })}
+                                    className="inline-flex items-center gap-1 text-primary font-medium hover:underline"
+                                  >
+                                    <SkipForward className="w-3 h-3" />
+                                    Skip
+                                  </button>
+                                )}
+                              </div>
+                              {dose.note && (
+                                <p className="text-muted-foreground pl-4 truncate">📝 {dose.note}</p>
                               )}
                             </div>
                           ))}
@@ -406,6 +713,14 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                     {/* Status */}
                     <div className="text-right">
                       {(() => {
+                        if (med.frequency === "as_needed") {
+                          return (
+                            <div className="px-3 py-1 rounded-full text-sm font-medium inline-block bg-muted text-muted-foreground">
+                              As needed
+                            </div>
+                          );
+                        }
+
                         // Calculate dose progress for multi-dose medications
                         const hasDoses = med.doses && med.doses.length > 0;
                         const totalDoses = hasDoses ? med.doses!.length : 1;
@@ -414,6 +729,7 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                           : (med.taken ? 1 : 0);
                         const allTaken = takenDoses === totalDoses;
                         const someTaken = takenDoses > 0 && !allTaken;
+                        const isSkipped = !hasDoses && !med.taken && med.skipped;
                         
                         return (
                           <>
@@ -421,6 +737,8 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                               className={`px-3 py-1 rounded-full text-sm font-medium inline-block ${
                                 allTaken
                                   ? "bg-secondary/20 text-secondary"
+                                  : isSkipped
+                                  ? "bg-muted text-muted-foreground"
                                   : someTaken
                                   ? "bg-blue-100 text-blue-700"
                                   : "bg-amber-100 text-amber-700"
@@ -428,10 +746,31 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
                             >
                               {allTaken 
                                 ? "Taken" 
+                                : isSkipped
+                                ? "Skipped"
                                 : someTaken 
                                 ? `${takenDoses}/${totalDoses}` 
                                 : "Pending"}
                             </div>
+                            {isSkipped && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {getSkipReasonLabel(med.skipReason)}
+                              </p>
+                            )}
+                            {!hasDoses && !med.taken && !med.skipped && patient.linkStatus === "accepted" && (
+                              <button
+                                onClick={() => setSkipTarget({ medication: med, dose: null })}
+                                className="mt-1 inline-flex items-center gap-1 text-xs text-primary font-medium hover:underline"
+                              >
+                                <SkipForward className="w-3 h-3" />
+                                Skip
+                              </button>
+                            )}
+                            {!hasDoses && med.doseNote && (
+                              <p className="text-xs text-muted-foreground mt-1 max-w-[10rem] truncate">
+                                📝 {med.doseNote}
+                              </p>
+                            )}
                             {/* Show actual time when medication was taken (single-dose only) */}
                             {allTaken && !hasDoses && med.takenAt && (
                               <p className="text-xs text-muted-foreground mt-1">
@@ -450,6 +789,66 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
         })}
       </div>
 
+      {/* Same drug under more than one name */}
+      <DuplicationReportCard medications={medications} patientName={name} />
+
+      {/* Drugs at or above the usual daily maximum */}
+      <DailyDoseReportCard medications={medications} patientName={name} timeZone={patientZone} />
+
+      {/* Printable report for the doctor's visit */}
+      {patient.linkStatus === "accepted" && (
+        <VisitReportCard
+          medications={medications}
+          loadPastMedications={loadPastMedications}
+          patientId={patient.id}
+          patientName={name}
+          timeZone={patientZone}
+          language={patient.preferredLanguage}
+        />
+      )}
+
+      {/* Calendar export and subscription */}
+      {medications.length > 0 && patient.linkStatus === "accepted" && (
+        <CalendarExportCard
+          medications={medications}
+          patientId={patient.id}
+          subscriberId={user?.id}
+          patientName={name}
+          timeZone={patientZone}
+        />
+      )}
+
+      {/* Who changed which medication */}
+      {patient.linkStatus === "accepted" && (
+        <MedicationAuditLog patientId={patient.id} medications={medications} viewerId={user?.id} />
+      )}
+
+      {/* Suggested dose times */}
+      {patient.linkStatus === "accepted" && (
+        <ScheduleOptimizerCard
+          medications={medications}
+          routine={patientRoutine}
+          patientName={name}
+          onApply={handleApplySchedule}
+        />
+      )}
+
+      {/* FHIR export and import */}
+      {patient.linkStatus === "accepted" && (
+        <FeatureGate
+          feature="health_records_exchange"
+          lockedMessage="Upgrade to Enterprise to connect to your clinic's systems"
+        >
+          <FhirTransferCard
+            medications={medications}
+            loadPastMedications={loadPastMedications}
+            patientId={patient.id}
+            patientName={name}
+            onImport={handleFhirImport}
+          />
+        </FeatureGate>
+      )}
+
       {/* Add Medicine Modal */}
       <AddMedicineForPatientModal
         isOpen={showAddModal}
@@ -458,6 +857,27 @@ export function PatientDetailView({ patient, onBack, onPatientUpdate }: Props) {
         patientMedications={medications}
         onMedicationAdded={refresh}
       />
+
+      {/* Log Refill Dialog */}
+      <LogRefillDialog
+        medication={refillMedication}
+        isOpen={!!refillMedication}
+        onClose={() => setRefillMedication(null)}
+        onSubmit={handleLogRefill}
+      />
+
+      {/* Skip Dose Dialog */}
+      <SkipDoseDialog
+        isOpen={!!skipTarget}
+        onClose={() => setSkipTarget(null)}
+        mode="skip"
+        medicationName={skipTarget?.medication.name ?? ""}
+        doseDescription={
+          skipTarget ? `${skipTarget.dose?.label ?? "Scheduled"} · ${skipTarget.dose?.time ?? skipTarget.medication.time}` : undefined
+        }
+        initialNote={skipTarget?.dose ? skipTarget.dose.note : skipTarget?.medication.doseNote}
+        onSubmit={handleSkipDose}
+      />
     </div>
   );
 }
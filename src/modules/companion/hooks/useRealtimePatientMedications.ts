@@ -6,18 +6,27 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 import type { Medication, LinkedPatient, MedicationCategory, FrequencyType, NextDayMode } from "@/types";
-import type { Medication as DbMedication } from "@/types/database";
-import { getMedications } from "@/services/supabase";
+import type { DoseHistory, Medication as DbMedication } from "@/types/database";
+import { getDoseHistory, getMedications, getPastMedicationsWithDoses } from "@/services/supabase";
+import {
+  applyDoseLog,
+  fromDbDoseAnchors,
+  fromDbDosePhases,
+  toDateStringInTimeZone,
+} from "@/modules/medication/services/scheduleService";
 import {
   subscribeToPatientMedications,
   subscribeToPatientDoses,
   unsubscribeFromChannel,
+  unsubscribeFromChannels,
   type MedicationChangeEvent,
 } from "../services/realtimeSync";
 
 interface UseRealtimePatientMedicationsOptions {
   /** Whether to automatically subscribe to realtime updates */
   enabled?: boolean;
+  /** Patient's time zone, which decides the date of "today's" dose instances */
+  timeZone?: string;
   /** Callback when a medication is updated in real-time */
   onUpdate?: (patientId: string, medications: Medication[]) => void;
 }
@@ -33,6 +42,8 @@ interface UseRealtimePatientMedicationsReturn {
   isConnected: boolean;
   /** Manually refresh medications from the database */
   refresh: () => Promise<void>;
+  /** Load the patient's removed and expired medications (for records exports) */
+  loadPastMedications: () => Promise<Medication[]>;
 }
 
 /**
@@ -54,6 +65,9 @@ function convertDbMedication(dbMed: DbMedication & {
     imageUrl: dbMed.image_url ?? undefined,
     frequency: (dbMed.frequency as FrequencyType) ?? "once_daily",
     customFrequency: dbMed.custom_frequency ?? undefined,
+    daysOfWeek: dbMed.days_of_week ?? undefined,
+    cycleDaysOn: dbMed.cycle_days_on ?? undefined,
+    cycleDaysOff: dbMed.cycle_days_off ?? undefined,
     timePeriod: dbMed.time_period ?? "ongoing",
     startDate: dbMed.start_date ?? undefined,
     endDate: dbMed.end_date ?? undefined,
@@ -61,7 +75,19 @@ function convertDbMedication(dbMed: DbMedication & {
     nextDayMode: (dbMed.next_day_mode as NextDayMode) ?? "restart",
     intervalMinutes: dbMed.interval_minutes ?? undefined,
     isActive: dbMed.is_active ?? true,
+    endedAt: dbMed.ended_at ?? undefined,
+    endReason: dbMed.end_reason ?? undefined,
+    previousCourseIds: dbMed.previous_course_ids ?? [],
     takenAt: dbMed.taken_at ?? undefined,
+    pillsOnHand: dbMed.pills_on_hand ?? null,
+    packSize: dbMed.pack_size ?? null,
+    pillsPerDose: dbMed.pills_per_dose ?? 1,
+    prnMinIntervalMinutes: dbMed.prn_min_interval_minutes ?? null,
+    prnMaxDailyDoses: dbMed.prn_max_daily_doses ?? null,
+    lateDoseRule: dbMed.late_dose_rule ?? "auto",
+    lateDoseCutoffMinutes: dbMed.late_dose_cutoff_minutes ?? null,
+    dosePhases: fromDbDosePhases(dbMed.dose_phases),
+    doseAnchors: fromDbDoseAnchors(dbMed.dose_anchors),
     // Include doses for multi-dose medications
     doses: dbMed.doses?.map((dose) => ({
       id: dose.id,
@@ -74,6 +100,39 @@ function convertDbMedication(dbMed: DbMedication & {
   };
 }
 
+/**
+ * Load a patient's medications with today's dose instances applied
+ */
+async function fetchPatientMedications(
+  patientId: string,
+  timeZone?: string
+): Promise<{ medications: Medication[]; todayLog: DoseHistory[]; error: string | null }> {
+  const today = toDateStringInTimeZone(timeZone);
+  const [{ medications: dbMeds, error }, { history }] = await Promise.all([
+    getMedications(patientId),
+    getDoseHistory(patientId, { from: today, to: today }),
+  ]);
+  return {
+    medications: applyDoseLog(dbMeds.map(convertDbMedication), history),
+    todayLog: history,
+    error,
+  };
+}
+
+/**
+ * Keep one entry per dose instance, replacing an older copy of it
+ */
+function mergeDoseInstance(log: DoseHistory[], instance: DoseHistory): DoseHistory[] {
+  return [
+    ...log.filter(
+      (entry) =>
+        entry.medication_id !== instance.medication_id ||
+        entry.scheduled_time !== instance.scheduled_time
+    ),
+    instance,
+  ];
+}
+
 /**
  * Hook for real-time patient medication sync
  */
@@ -81,7 +140,7 @@ export function useRealtimePatientMedications(
   patientId: string | null,
   options: UseRealtimePatientMedicationsOptions = {}
 ): UseRealtimePatientMedicationsReturn {
-  const { enabled = true, onUpdate } = options;
+  const { enabled = true, timeZone, onUpdate } = options;
 
   const [medications, setMedications] = useState<Medication[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -90,6 +149,7 @@ export function useRealtimePatientMedications(
 
   const channelRef = useRef<RealtimeChannel | null>(null);
   const doseChannelRef = useRef<RealtimeChannel | null>(null);
+  const todayLogRef = useRef<DoseHistory[]>([]);
   const onUpdateRef = useRef(onUpdate);
   onUpdateRef.current = onUpdate;
 
@@ -105,13 +165,14 @@ export function useRealtimePatientMedications(
     setError(null);
 
     try {
-      const { medications: dbMeds, error: fetchError } = await getMedications(patientId);
+      const { medications: converted, todayLog, error: fetchError } =
+        await fetchPatientMedications(patientId, timeZone);
 
       if (fetchError) {
         setError(fetchError);
         setMedications([]);
       } else {
-        const converted = dbMeds.map(convertDbMedication);
+        todayLogRef.current = todayLog;
         setMedications(converted);
         onUpdateRef.current?.(patientId, converted);
       }
@@ -121,12 +182,15 @@ export function useRealtimePatientMedications(
     } finally {
       setIsLoading(false);
     }
-  }, [patientId]);
+  }, [patientId, timeZone]);
 
   // Handle realtime medication changes
   const handleMedicationChange = useCallback(
     (event: MedicationChangeEvent) => {
-      const convertedMed = convertDbMedication(event.medication);
+      const [convertedMed] = applyDoseLog(
+        [convertDbMedication(event.medication)],
+        todayLogRef.current
+      );
 
       setMedications((prev) => {
         let updated: Medication[];
@@ -168,25 +232,15 @@ export function useRealtimePatientMedications(
     [patientId]
   );
 
-  // Handle realtime DOSE changes (when patient marks a dose as taken)
+  // Handle realtime dose instance changes (a dose marked by the patient or a companion)
   const handleDoseChange = useCallback(
-    (event: { type: string; dose: { id: string; medication_id: string; taken: boolean; taken_at: string | null } }) => {
+    (event: { type: string; instance: DoseHistory }) => {
+      if (event.type === "DELETE") return;
+      if (event.instance.scheduled_date !== toDateStringInTimeZone(timeZone)) return;
+
+      todayLogRef.current = mergeDoseInstance(todayLogRef.current, event.instance);
       setMedications((prev) => {
-        const updated = prev.map((med) => {
-          if (med.id !== event.dose.medication_id) return med;
-          
-          // Update the specific dose
-          const updatedDoses = med.doses?.map((dose) => {
-            if (dose.id !== event.dose.id) return dose;
-            return {
-              ...dose,
-              taken: event.dose.taken,
-              takenAt: event.dose.taken_at ?? undefined,
-            };
-          });
-          
-          return { ...med, doses: updatedDoses };
-        });
+        const updated = applyDoseLog(prev, [event.instance]);
 
         // Notify parent component
         if (patientId) {
@@ -196,7 +250,7 @@ export function useRealtimePatientMedications(
         return updated;
       });
     },
-    [patientId]
+    [patientId, timeZone]
   );
 
   // Subscribe to realtime updates (medications + doses)
@@ -211,15 +265,8 @@ export function useRealtimePatientMedications(
       handleMedicationChange
     );
 
-    // Subscribe to dose changes for all medications
-    const medicationIds = medications.map((m) => m.id);
-    if (medicationIds.length > 0) {
-      doseChannelRef.current = subscribeToPatientDoses(
-        patientId,
-        medicationIds,
-        handleDoseChange
-      );
-    }
+    // Subscribe to dose instance changes
+    doseChannelRef.current = subscribeToPatientDoses(patientId, handleDoseChange);
 
     // Channel subscription is async, mark as connected once subscribed
     setIsConnected(true);
@@ -235,19 +282,26 @@ export function useRealtimePatientMedications(
       }
       setIsConnected(false);
     };
-  }, [patientId, enabled, handleMedicationChange, handleDoseChange, medications.length]);
+  }, [patientId, enabled, handleMedicationChange, handleDoseChange]);
 
   // Initial fetch
   useEffect(() => {
     fetchMedications();
   }, [fetchMedications]);
 
+  const loadPastMedications = useCallback(async () => {
+    if (!patientId) return [];
+    const { medications: dbMeds } = await getPastMedicationsWithDoses(patientId);
+    return dbMeds.map(convertDbMedication);
+  }, [patientId]);
+
   return {
     medications,
     isLoading,
     error,
     isConnected,
     refresh: fetchMedications,
+    loadPastMedications,
   };
 }
 
@@ -278,18 +332,25 @@ export function useRealtimeMultiplePatients(
   const [isLoading, setIsLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
 
-  const channelsRef = useRef<Map<string, RealtimeChannel>>(new Map());
+  const channelsRef = useRef<Map<string, RealtimeChannel[]>>(new Map());
+  const todayLogsRef = useRef<Map<string, DoseHistory[]>>(new Map());
   const onPatientUpdateRef = useRef(onPatientUpdate);
   onPatientUpdateRef.current = onPatientUpdate;
 
   // Get accepted patient IDs
   const acceptedPatients = patients.filter((p) => p.linkStatus === "accepted");
   const patientIds = acceptedPatients.map((p) => p.id);
+  const timeZones = new Map(acceptedPatients.map((p) => [p.id, p.timeZone]));
+  const timeZonesRef = useRef(timeZones);
+  timeZonesRef.current = timeZones;
 
   // Handle medication change for a patient
   const handleMedicationChange = useCallback(
     (event: MedicationChangeEvent) => {
-      const convertedMed = convertDbMedication(event.medication);
+      const [convertedMed] = applyDoseLog(
+        [convertDbMedication(event.medication)],
+        todayLogsRef.current.get(event.patientId) ?? []
+      );
 
       setPatientMedications((prev) => {
         const current = prev.get(event.patientId) || [];
@@ -330,6 +391,31 @@ export function useRealtimeMultiplePatients(
     []
   );
 
+  // Handle a dose instance change for a patient (today's only)
+  const handleDoseChange = useCallback(
+    (patientId: string, event: { type: string; instance: DoseHistory }) => {
+      if (event.type === "DELETE") return;
+      const today = toDateStringInTimeZone(timeZonesRef.current.get(patientId));
+      if (event.instance.scheduled_date !== today) return;
+
+      todayLogsRef.current.set(
+        patientId,
+        mergeDoseInstance(todayLogsRef.current.get(patientId) ?? [], event.instance)
+      );
+      setPatientMedications((prev) => {
+        const updated = applyDoseLog(prev.get(patientId) || [], [event.instance]);
+        const newMap = new Map(prev);
+        newMap.set(patientId, updated);
+
+        // Notify parent
+        onPatientUpdateRef.current?.(patientId, updated);
+
+        return newMap;
+      });
+    },
+    []
+  );
+
   // Fetch all patients' medications
   const fetchAllPatients = useCallback(async () => {
     if (patientIds.length === 0) {
@@ -343,8 +429,11 @@ export function useRealtimeMultiplePatients(
     try {
       const results = await Promise.all(
         patientIds.map(async (patientId) => {
-          const { medications: dbMeds } = await getMedications(patientId);
-          const converted = dbMeds.map(convertDbMedication);
+          const { medications: converted, todayLog } = await fetchPatientMedications(
+            patientId,
+            timeZonesRef.current.get(patientId)
+          );
+          todayLogsRef.current.set(patientId, todayLog);
           return { patientId, medications: converted };
         })
       );
@@ -381,28 +470,30 @@ export function useRealtimeMultiplePatients(
     // Subscribe to each patient
     patientIds.forEach((patientId) => {
       if (!channelsRef.current.has(patientId)) {
-        const channel = subscribeToPatientMedications(patientId, handleMedicationChange);
-        channelsRef.current.set(patientId, channel);
+        channelsRef.current.set(patientId, [
+          subscribeToPatientMedications(patientId, handleMedicationChange),
+          subscribeToPatientDoses(patientId, (event) => handleDoseChange(patientId, event)),
+        ]);
       }
     });
 
     // Remove subscriptions for patients no longer in the list
-    channelsRef.current.forEach((channel, patientId) => {
+    channelsRef.current.forEach((channels, patientId) => {
       if (!patientIds.includes(patientId)) {
-        unsubscribeFromChannel(channel);
+        unsubscribeFromChannels(channels);
         channelsRef.current.delete(patientId);
       }
     });
 
     return () => {
       // Cleanup all channels
-      channelsRef.current.forEach((channel) => {
-        unsubscribeFromChannel(channel);
+      channelsRef.current.forEach((channels) => {
+        unsubscribeFromChannels(channels);
       });
       channelsRef.current.clear();
       setIsConnected(false);
     };
-  }, [patientIds.join(","), enabled, handleMedicationChange]);
+  }, [patientIds.join(","), enabled, handleMedicationChange, handleDoseChange]);
 
   // Initial fetch
   useEffect(() => {
@@ -4,11 +4,36 @@
 // ============================================
 
 import { supabase } from "@/lib/supabase";
-import type { Medication } from "@/types/database";
-import type { FrequencyType, NextDayMode } from "@/modules/medication/types";
-import { createMedicationSchedule } from "@/modules/medication/services/scheduleService";
+import {
+  addMedicationWithDoses,
+  reactivateMedication,
+  renewMedication,
+  updateMedicationWithDoses,
+  type RenewalCourse,
+} from "@/services/supabase";
+import type { Medication, MedicationCategory } from "@/types/database";
+import type {
+  DailyRoutine,
+  DoseAnchor,
+  FrequencyPattern,
+  FrequencyType,
+  NextDayMode,
+  TaperStep,
+} from "@/modules/medication/types";
+import {
+  createMedicationSchedule,
+  fromDbRoutine,
+  toDbDoseAnchors,
+  toDbDosePhases,
+} from "@/modules/medication/services/scheduleService";
+import {
+  toImportedMedication,
+  toImportedMedicationUpdates,
+  type FhirImportChange,
+} from "@/modules/medication/services/fhirService";
+import { buildDosesForTimes } from "@/modules/medication/services/scheduleOptimizerService";
 
-interface AddMedicationParams {
+interface AddMedicationParams extends FrequencyPattern {
   name: string;
   dosage: string;
   time: string;
@@ -22,6 +47,8 @@ interface AddMedicationParams {
   startTime: string;
   nextDayMode: string;
   isActive: boolean;
+  taperSteps?: TaperStep[]; // Step-dose regimen starting on startDate
+  doseAnchors?: DoseAnchor[]; // Doses placed by the patient's daily routine
 }
 
 /**
@@ -44,6 +71,19 @@ function convertTo24Hour(time12h: string): string {
   return `${hours.toString().padStart(2, "0")}:${minutes}`;
 }
 
+/**
+ * Get a patient's daily routine (defaults when it can't be read)
+ */
+export async function getPatientRoutine(patientId: string): Promise<DailyRoutine> {
+  const { data } = await supabase
+    .from("profiles")
+    .select("wake_time, breakfast_time, lunch_time, dinner_time, sleep_time")
+    .eq("id", patientId)
+    .single();
+
+  return fromDbRoutine(data);
+}
+
 /**
  * Verify that a companion is linked to a patient with accepted status
  */
@@ -86,17 +126,24 @@ export async function addMedicationForPatient(
   // Convert time to 24-hour format for schedule calculation
   const startTime24h = convertTo24Hour(medication.startTime);
 
-  // Create the schedule with computed doses based on frequency
+  // Create the schedule with computed doses based on frequency,
+  // following the patient's routine rather than the companion's
+  const routine = await getPatientRoutine(patientId);
   const schedule = createMedicationSchedule({
     name: medication.name,
     dosage: medication.dosage,
     category: medication.category as import("@/modules/medication/types").MedicationCategory,
     frequency: medication.frequency as FrequencyType,
     timePeriod: medication.timePeriod,
+    startDate: medication.startDate,
     instructions: medication.instructions || "",
     startTime: startTime24h,
     nextDayMode: medication.nextDayMode as NextDayMode,
+    taperSteps: medication.taperSteps,
+    doseAnchors: medication.doseAnchors,
+    routine,
   });
+  const firstPhase = schedule.phases?.[0];
 
   // Insert the medication for the patient
   const { data, error } = await supabase
@@ -104,18 +151,26 @@ export async function addMedicationForPatient(
     .insert({
       user_id: patientId,
       name: medication.name,
-      dosage: medication.dosage,
+      dosage: firstPhase?.dosage ?? medication.dosage,
       time: medication.time,
       instructions: medication.instructions ?? null,
-      category: medication.category,
-      frequency: medication.frequency,
+      category: medication.category as MedicationCategory,
+      frequency: schedule.frequency,
+      custom_frequency: schedule.customFrequency ?? null,
+      days_of_week: medication.daysOfWeek ?? null,
+      cycle_days_on: medication.cycleDaysOn ?? null,
+      cycle_days_off: medication.cycleDaysOff ?? null,
+      prn_min_interval_minutes: medication.prnMinIntervalMinutes ?? null,
+      prn_max_daily_doses: medication.prnMaxDailyDoses ?? null,
       image_url: medication.imageUrl ?? null,
       time_period: medication.timePeriod,
       start_date: medication.startDate ?? null,
-      end_date: medication.endDate ?? null,
+      end_date: schedule.phases?.[schedule.phases.length - 1].endDate ?? medication.endDate ?? null,
       start_time: medication.startTime,
-      next_day_mode: medication.nextDayMode,
+      next_day_mode: medication.nextDayMode as NextDayMode,
       interval_minutes: schedule.intervalMinutes,
+      dose_phases: toDbDosePhases(schedule.phases),
+      dose_anchors: toDbDoseAnchors(schedule.anchors),
       is_active: medication.isActive,
       taken: false,
     })
@@ -212,11 +267,14 @@ export async function deactivateMedicationForPatient(
     return { error: linkError || "Not authorized" };
   }
 
+  const now = new Date().toISOString();
   const { error } = await supabase
     .from("medications")
     .update({ 
       is_active: false, 
-      updated_at: new Date().toISOString() 
+      ended_at: now,
+      end_reason: "stopped",
+      updated_at: now 
     })
     .eq("id", medicationId)
     .eq("user_id", patientId);
@@ -228,3 +286,164 @@ export async function deactivateMedicationForPatient(
   return { error: null };
 }
 
+/**
+ * Bring back an archived medication for a patient (as a companion)
+ */
+export async function reactivateMedicationForPatient(
+  medicationId: string,
+  patientId: string,
+  companionId: string,
+  timeZone?: string
+): Promise<{ error: string | null }> {
+  const { isLinked, error: linkError } = await verifyCompanionLink(patientId, companionId);
+
+  if (!isLinked) {
+    return { error: linkError || "Not authorized" };
+  }
+
+  return reactivateMedication(medicationId, timeZone);
+}
+
+/**
+ * Start a new course of a patient's prescription (as a companion)
+ */
+export async function renewMedicationForPatient(
+  medicationId: string,
+  patientId: string,
+  companionId: string,
+  course: RenewalCourse
+): Promise<{ error: string | null }> {
+  const { isLinked, error: linkError } = await verifyCompanionLink(patientId, companionId);
+
+  if (!isLinked) {
+    return { error: linkError || "Not authorized" };
+  }
+
+  const { error } = await renewMedication(medicationId, course);
+  return { error };
+}
+
+
+/**
+ * Apply a FHIR import to a patient's list (as a companion): adds new
+ * medications and updates matched ones, with doses on the patient's routine
+ */
+export async function importMedicationsForPatient(
+  patientId: string,
+  companionId: string,
+  changes: FhirImportChange[]
+): Promise<{ imported: number; error: string | null }> {
+  const { isLinked, error: linkError } = await verifyCompanionLink(patientId, companionId);
+
+  if (!isLinked) {
+    return { imported: 0, error: linkError || "Not authorized" };
+  }
+
+  const routine = await getPatientRoutine(patientId);
+  let imported = 0;
+
+  for (const change of changes) {
+    if (change.action === "add") {
+      const med = toImportedMedication(change.item, patientId, routine);
+      const { error } = await addMedicationWithDoses(
+        {
+          user_id: patientId,
+          name: med.name,
+          dosage: med.dosage,
+          time: med.schedule.startTime,
+          instructions: med.instructions ?? null,
+          category: med.category,
+          frequency: med.frequency,
+          custom_frequency: med.customFrequency ?? null,
+          days_of_week: med.daysOfWeek ?? null,
+          cycle_days_on: med.cycleDaysOn ?? null,
+          cycle_days_off: med.cycleDaysOff ?? null,
+          prn_min_interval_minutes: med.prnMinIntervalMinutes ?? null,
+          prn_max_daily_doses: med.prnMaxDailyDoses ?? null,
+          time_period: med.timePeriod,
+          start_date: med.startDate ?? null,
+          end_date: med.endDate ?? null,
+          start_time: med.schedule.startTime,
+          next_day_mode: med.schedule.nextDayMode,
+          interval_minutes: med.schedule.intervalMinutes,
+          dose_phases: toDbDosePhases(med.schedule.phases),
+          is_active: true,
+        },
+        med.schedule.doses.map((dose, index) => ({
+          time: dose.time,
+          label: dose.label,
+          taken: false,
+          dose_order: index + 1,
+        }))
+      );
+      if (error) return { imported, error };
+      imported++;
+    } else if (change.action === "update" && change.existing) {
+      const updates = toImportedMedicationUpdates(change.item, routine);
+      const { error } = await updateMedicationWithDoses(
+        change.existing.id,
+        {
+          name: updates.name,
+          dosage: updates.dosage,
+          time: updates.time,
+          instructions: updates.instructions ?? null,
+          frequency: updates.frequency,
+          custom_frequency: updates.customFrequency ?? null,
+          days_of_week: updates.daysOfWeek ?? null,
+          cycle_days_on: updates.cycleDaysOn ?? null,
+          cycle_days_off: updates.cycleDaysOff ?? null,
+          prn_min_interval_minutes: updates.prnMinIntervalMinutes,
+          prn_max_daily_doses: updates.prnMaxDailyDoses,
+          time_period: updates.timePeriod,
+          start_date: updates.startDate ?? null,
+          end_date: updates.endDate ?? null,
+          start_time: updates.startTime,
+          dose_phases: toDbDosePhases(updates.dosePhases),
+        },
+        (updates.doses ?? []).map((dose, index) => ({
+          time: dose.time,
+          label: dose.label,
+          taken: false,
+          dose_order: index + 1,
+        }))
+      );
+      if (error) return { imported, error };
+      imported++;
+    }
+  }
+
+  return { imported, error: null };
+}
+
+/**
+ * Move a patient's doses to new times (as a companion), e.g. after
+ * reviewing an optimized schedule
+ */
+export async function rescheduleMedicationsForPatient(
+  patientId: string,
+  companionId: string,
+  changes: { medicationId: string; times: string[] }[]
+): Promise<{ error: string | null }> {
+  const { isLinked, error: linkError } = await verifyCompanionLink(patientId, companionId);
+
+  if (!isLinked) {
+    return { error: linkError || "Not authorized" };
+  }
+
+  for (const change of changes) {
+    const doses = buildDosesForTimes(change.times);
+    const { error } = await updateMedicationWithDoses(
+      change.medicationId,
+      { start_time: change.times[0] },
+      doses.map((dose, index) => ({
+        time: dose.time,
+        label: dose.label,
+        taken: false,
+        dose_order: index + 1,
+      }))
+    );
+    if (error) return { error };
+  }
+
+  return { error: null };
+}
@@ -5,7 +5,7 @@
 
 import { supabase } from "@/lib/supabase";
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
-import type { Medication as DbMedication } from "@/types/database";
+import type { DoseHistory, Medication as DbMedication } from "@/types/database";
 
 export type MedicationChangeType = "INSERT" | "UPDATE" | "DELETE";
 
@@ -137,26 +137,13 @@ export function subscribeToLinkChanges(
 }
 
 /**
- * Subscribe to schedule dose changes for a patient
+ * Subscribe to a patient's dose instances (doses marked taken, skipped or
+ * missed, on any date, by the patient or a companion)
  */
 export function subscribeToPatientDoses(
   patientId: string,
-  medicationIds: string[],
-  onDoseChange: (event: {
-    type: MedicationChangeType;
-    dose: {
-      id: string;
-      medication_id: string;
-      taken: boolean;
-      taken_at: string | null;
-    };
-  }) => void
-): RealtimeChannel | null {
-  if (medicationIds.length === 0) return null;
-
-  // Create a filter for all medication IDs
-  const filter = medicationIds.map(id => `medication_id.eq.${id}`).join(",");
-
+  onDoseChange: (event: { type: MedicationChangeType; instance: DoseHistory }) => void
+): RealtimeChannel {
   const channel = supabase
     .channel(`patient-doses-${patientId}`)
     .on(
@@ -164,30 +151,17 @@ export function subscribeToPatientDoses(
       {
         event: "*",
         schema: "public",
-        table: "schedule_doses",
-        filter: `medication_id=in.(${medicationIds.join(",")})`,
+        table: "dose_history",
+        filter: `user_id=eq.${patientId}`,
       },
-      (payload: RealtimePostgresChangesPayload<{
-        id: string;
-        medication_id: string;
-        taken: boolean;
-        taken_at: string | null;
-      }>) => {
+      (payload: RealtimePostgresChangesPayload<DoseHistory>) => {
         const eventType = payload.eventType.toUpperCase() as MedicationChangeType;
-        const dose = eventType === "DELETE" 
-          ? payload.old 
-          : payload.new;
+        const instance = eventType === "DELETE"
+          ? payload.old as DoseHistory
+          : payload.new as DoseHistory;
 
-        if (dose) {
-          onDoseChange({
-            type: eventType,
-            dose: dose as {
-              id: string;
-              medication_id: string;
-              taken: boolean;
-              taken_at: string | null;
-            },
-          });
+        if (instance) {
+          onDoseChange({ type: eventType, instance });
         }
       }
     )
@@ -195,5 +169,3 @@ export function subscribeToPatientDoses(
 
   return channel;
 }
-
-
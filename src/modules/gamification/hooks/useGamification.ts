@@ -11,6 +11,7 @@ import {
   calculateLocalStreak,
   type GamificationStats,
 } from "../services/gamificationService";
+import { toDateStringInTimeZone } from "@/modules/medication/services/scheduleService";
 
 interface UseGamificationReturn {
   stats: GamificationStats;
@@ -24,7 +25,7 @@ interface UseGamificationReturn {
 }
 
 export function useGamification(): UseGamificationReturn {
-  const { medications, profile, isAuthenticated } = useApp();
+  const { medications, profile, isAuthenticated, timeZone } = useApp();
   const [stats, setStats] = useState<GamificationStats>({
     currentStreak: 0,
     bestStreak: 0,
@@ -36,14 +37,18 @@ export function useGamification(): UseGamificationReturn {
   const [error, setError] = useState<string | null>(null);
 
   // Calculate today's stats from medications
+  // Deliberately skipped doses aren't due, so they don't break a perfect day;
+  // as-needed medications have no schedule and never count
   const todayTotal = medications.reduce((acc, med) => {
+    if (med.frequency === "as_needed") return acc;
     if (med.doses && med.doses.length > 0) {
-      return acc + med.doses.length;
+      return acc + med.doses.filter((d) => d.taken || !d.skipped).length;
     }
-    return acc + 1;
+    return acc + (med.taken || !med.skipped ? 1 : 0);
   }, 0);
 
   const todayCompleted = medications.reduce((acc, med) => {
+    if (med.frequency === "as_needed") return acc;
     if (med.doses && med.doses.length > 0) {
       return acc + med.doses.filter((d) => d.taken).length;
     }
@@ -83,10 +88,10 @@ export function useGamification(): UseGamificationReturn {
         currentStreak,
         bestStreak: currentStreak,
         totalVictories: perfect ? 1 : 0,
-        lastPerfectDate: perfect ? new Date().toISOString().split("T")[0] : null,
+        lastPerfectDate: perfect ? toDateStringInTimeZone(timeZone) : null,
       });
     }
-  }, [medications, isAuthenticated, profile?.id]);
+  }, [medications, isAuthenticated, profile?.id, timeZone]);
 
   // Record adherence for today
   const recordAdherence = useCallback(async () => {
@@ -97,7 +102,9 @@ export function useGamification(): UseGamificationReturn {
     const { error: recordError } = await recordDailyAdherence(
       profile.id,
       todayTotal,
-      todayCompleted
+      todayCompleted,
+      undefined,
+      timeZone
     );
 
     if (recordError) {
@@ -106,7 +113,7 @@ export function useGamification(): UseGamificationReturn {
       // Refresh stats after recording
       await fetchStats();
     }
-  }, [isAuthenticated, profile?.id, todayTotal, todayCompleted, fetchStats]);
+  }, [isAuthenticated, profile?.id, todayTotal, todayCompleted, timeZone, fetchStats]);
 
   // Initial fetch
   useEffect(() => {
@@ -4,6 +4,11 @@
 // ============================================
 
 import { supabase } from "@/lib/supabase";
+import {
+  getNowInTimeZone,
+  toDateStringInTimeZone,
+  toLocalDateString,
+} from "@/modules/medication/services/scheduleService";
 
 export interface GamificationStats {
   currentStreak: number;
@@ -61,10 +66,12 @@ export async function recordDailyAdherence(
   userId: string,
   totalDoses: number,
   takenDoses: number,
-  date?: Date
+  date?: Date,
+  timeZone?: string
 ): Promise<{ success: boolean; error: string | null }> {
   try {
-    const dateStr = (date ?? new Date()).toISOString().split("T")[0];
+    // The day is counted on the patient's calendar, not UTC
+    const dateStr = toDateStringInTimeZone(timeZone, date);
 
     const { error } = await supabase.rpc("record_daily_adherence", {
       p_user_id: userId,
@@ -90,17 +97,18 @@ export async function recordDailyAdherence(
  */
 export async function getDailyAdherenceHistory(
   userId: string,
-  days: number = 7
+  days: number = 7,
+  timeZone?: string
 ): Promise<{ history: DailyAdherence[]; error: string | null }> {
   try {
-    const startDate = new Date();
+    const startDate = getNowInTimeZone(timeZone);
     startDate.setDate(startDate.getDate() - days);
 
     const { data, error } = await supabase
       .from("daily_adherence")
       .select("date, total_doses, taken_doses, adherence_rate, is_perfect")
       .eq("user_id", userId)
-      .gte("date", startDate.toISOString().split("T")[0])
+      .gte("date", toLocalDateString(startDate))
       .order("date", { ascending: false });
 
     if (error) {
@@ -128,10 +136,11 @@ export async function getDailyAdherenceHistory(
  * Check if user had a perfect day today
  */
 export async function checkTodaysPerfection(
-  userId: string
+  userId: string,
+  timeZone?: string
 ): Promise<{ isPerfect: boolean; error: string | null }> {
   try {
-    const today = new Date().toISOString().split("T")[0];
+    const today = toDateStringInTimeZone(timeZone);
 
     const { data, error } = await supabase
       .from("daily_adherence")
@@ -157,14 +166,19 @@ export async function checkTodaysPerfection(
  * Calculate streak from local medication data (for demo mode)
  */
 export function calculateLocalStreak(
-  medications: Array<{ taken?: boolean; doses?: Array<{ taken: boolean }> }>
+  medications: Array<{
+    taken?: boolean;
+    skipped?: boolean;
+    doses?: Array<{ taken: boolean; skipped?: boolean }>;
+  }>
 ): { currentStreak: number; isPerfectToday: boolean } {
   // Check if all medications are taken today
+  // Deliberately skipped doses aren't due, so they don't break a perfect day
   const totalDoses = medications.reduce((acc, med) => {
     if (med.doses && med.doses.length > 0) {
-      return acc + med.doses.length;
+      return acc + med.doses.filter((d) => d.taken || !d.skipped).length;
     }
-    return acc + 1;
+    return acc + (med.taken || !med.skipped ? 1 : 0);
   }, 0);
 
   const takenDoses = medications.reduce((acc, med) => {
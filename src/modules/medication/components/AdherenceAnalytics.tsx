@@ -3,7 +3,7 @@
 // Shows medication adherence stats and patterns
 // ============================================
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import {
   TrendingUp,
   TrendingDown,
@@ -17,56 +17,96 @@ import {
   AlertCircle,
   Calendar,
   Zap,
+  Flame,
+  Loader2,
 } from "lucide-react";
+import type { Medication } from "@/types";
 import { useApp } from "@/contexts/AppContext";
+import type { AnalyticsRange } from "../types";
+import { ANALYTICS_RANGE_OPTIONS } from "../constants";
+import { useDoseHistory } from "../hooks/useDoseHistory";
 import {
   calculateOverallAnalytics,
   generateInsights,
-  type OverallAnalytics,
+  groupTrendByWeek,
+  type DailyAdherence,
+  type MedicationAdherence,
   type TimeSlotPattern,
 } from "../services/analyticsService";
 
 interface AdherenceAnalyticsProps {
   /** Show in compact mode (less detail) */
   compact?: boolean;
-  /** Show weekly chart */
+  /** Show trend chart */
   showWeeklyChart?: boolean;
   /** Show time slot breakdown */
   showTimeSlots?: boolean;
   /** Show insights */
   showInsights?: boolean;
+  /** Show per-medication streaks */
+  showMedicationStreaks?: boolean;
+  /** Patient to analyze (defaults to the signed-in user) */
+  patientId?: string;
+  /** Time zone the patient's days start in (defaults to the signed-in user's) */
+  timeZone?: string;
+  /** Medications to analyze (defaults to the signed-in user's medications) */
+  medications?: Medication[];
+  /** Initially selected range */
+  defaultRange?: AnalyticsRange;
 }
 
-// Mini bar chart for weekly trend
-function WeeklyChart({ data }: { data: OverallAnalytics["weeklyTrend"] }) {
+// Mini bar chart for the adherence trend
+function TrendChart({ data }: { data: DailyAdherence[] }) {
   const maxValue = 100;
   const days = ["S", "M", "T", "W", "T", "F", "S"];
+  // Long ranges are shown as weekly bars to stay readable
+  const isWeekly = data.length > 31;
+  const bars = isWeekly ? groupTrendByWeek(data) : data;
+  
+  const getLabel = (date: string, index: number) => {
+    const parsed = new Date(`${date}T00:00:00`);
+    if (bars.length <= 7) return days[parsed.getDay()];
+    // Label roughly every fifth bar, always including the latest
+    const labelEvery = isWeekly ? 3 : 5;
+    if ((bars.length - 1 - index) % labelEvery !== 0) return "";
+    return `${parsed.getMonth() + 1}/${parsed.getDate()}`;
+  };
   
   return (
-    <div className="flex items-end justify-between gap-1 h-24">
-      {data.map((day, index) => {
+    <div className={`flex items-end justify-between h-24 ${bars.length > 7 ? "gap-px" : "gap-1"}`}>
+      {bars.map((day, index) => {
         const height = (day.adherenceRate / maxValue) * 100;
-        const isToday = index === data.length - 1;
-        const dayOfWeek = new Date(day.date).getDay();
+        const isLatest = index === bars.length - 1;
+        const hasDoses = day.scheduled > 0;
         
         return (
-          <div key={day.date} className="flex-1 flex flex-col items-center gap-1">
+          <div
+            key={day.date}
+            className="flex-1 flex flex-col items-center gap-1 min-w-0"
+            title={
+              hasDoses
+                ? `${isWeekly ? "Week of " : ""}${day.date}: ${day.taken}/${day.scheduled} doses (${day.adherenceRate}%)${day.skipped > 0 ? `, ${day.skipped} skipped` : ""}`
+                : `${day.date}: no doses recorded`
+            }
+          >
             <div className="relative w-full flex-1 flex items-end">
               <div
                 className={`w-full rounded-t transition-all ${
-                  isToday 
-                    ? "bg-primary" 
-                    : day.adherenceRate >= 80 
-                      ? "bg-secondary" 
-                      : day.adherenceRate >= 50 
-                        ? "bg-amber-400" 
-                        : "bg-red-400"
+                  !hasDoses
+                    ? "bg-muted"
+                    : isLatest 
+                      ? "bg-primary" 
+                      : day.adherenceRate >= 80 
+                        ? "bg-secondary" 
+                        : day.adherenceRate >= 50 
+                          ? "bg-amber-400" 
+                          : "bg-red-400"
                 }`}
-                style={{ height: `${Math.max(height, 4)}%` }}
+                style={{ height: `${hasDoses ? Math.max(height, 4) : 4}%` }}
               />
             </div>
-            <span className={`text-xs ${isToday ? "font-bold text-primary" : "text-muted-foreground"}`}>
-              {days[dayOfWeek]}
+            <span className={`text-xs h-4 whitespace-nowrap ${isLatest ? "font-bold text-primary" : "text-muted-foreground"}`}>
+              {getLabel(day.date, index)}
             </span>
           </div>
         );
@@ -75,6 +115,55 @@ function WeeklyChart({ data }: { data: OverallAnalytics["weeklyTrend"] }) {
   );
 }
 
+// Range selector (7/30/90 days)
+function RangeSelector({
+  value,
+  onChange,
+}: {
+  value: AnalyticsRange;
+  onChange: (range: AnalyticsRange) => void;
+}) {
+  return (
+    <div className="inline-flex rounded-lg bg-muted p-1">
+      {ANALYTICS_RANGE_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={value === option.value}
+          title={option.label}
+          className={`px-3 py-1 text-sm rounded-md transition-colors ${
+            value === option.value
+              ? "bg-background font-semibold shadow-sm"
+              : "text-muted-foreground hover:text-foreground"
+          }`}
+        >
+          {option.shortLabel}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Per-medication adherence and streak row
+function MedicationStreakRow({ item }: { item: MedicationAdherence }) {
+  return (
+    <div className="flex items-center justify-between p-3 rounded-xl bg-muted/50">
+      <div className="min-w-0">
+        <p className="font-medium truncate">{item.medicationName}</p>
+        <p className="text-xs text-muted-foreground">
+          {item.takenDoses}/{item.totalDoses} doses · {item.adherenceRate}%
+          {item.skippedDoses > 0 && ` · ${item.skippedDoses} skipped`}
+        </p>
+      </div>
+      <span className="flex items-center gap-1 text-sm font-semibold shrink-0">
+        <Flame className={`w-4 h-4 ${item.streak > 0 ? "text-orange-500" : "text-muted-foreground"}`} />
+        {item.streak} day{item.streak !== 1 ? "s" : ""}
+      </span>
+    </div>
+  );
+}
+
 // Time slot adherence indicator
 function TimeSlotIndicator({ slot }: { slot: TimeSlotPattern }) {
   const getSlotIcon = (timeSlot: TimeSlotPattern["timeSlot"]) => {
@@ -180,12 +269,24 @@ export function AdherenceAnalytics({
   showWeeklyChart = true,
   showTimeSlots = true,
   showInsights = true,
+  showMedicationStreaks = true,
+  patientId,
+  timeZone: timeZoneProp,
+  medications: medicationsProp,
+  defaultRange = 7,
 }: AdherenceAnalyticsProps) {
-  const { medications } = useApp();
+  const { medications: ownMedications, user, timeZone: ownTimeZone } = useApp();
+  const medications = medicationsProp ?? ownMedications;
+  const timeZone = timeZoneProp ?? ownTimeZone;
+  const [range, setRange] = useState<AnalyticsRange>(defaultRange);
+  const rangeLabel = ANALYTICS_RANGE_OPTIONS.find((o) => o.value === range)?.label ?? "";
+  
+  // Always load the longest range so switching ranges and streaks don't refetch
+  const { history, isLoading: historyLoading } = useDoseHistory(patientId ?? user?.id, 90);
   
   const analytics = useMemo(() => {
-    return calculateOverallAnalytics(medications);
-  }, [medications]);
+    return calculateOverallAnalytics(medications, history, range, timeZone);
+  }, [medications, history, range, timeZone]);
   
   const insights = useMemo(() => {
     return generateInsights(analytics);
@@ -226,8 +327,10 @@ export function AdherenceAnalytics({
         <h3 className="font-semibold text-lg flex items-center gap-2">
           <BarChart3 className="w-5 h-5 text-primary" />
           Adherence Analytics
+          {historyLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
         </h3>
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-3 flex-wrap justify-end">
+          <RangeSelector value={range} onChange={setRange} />
           {analytics.isImproving ? (
             <span className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
               <TrendingUp className="w-4 h-4" />
@@ -249,6 +352,7 @@ export function AdherenceAnalytics({
           <p className="text-sm font-medium mt-2">Today's Adherence</p>
           <p className="text-xs text-muted-foreground">
             {analytics.todayTaken}/{analytics.todayScheduled} doses
+            {analytics.todaySkipped > 0 && ` · ${analytics.todaySkipped} skipped`}
           </p>
         </div>
         
@@ -280,19 +384,40 @@ export function AdherenceAnalytics({
         </div>
       </div>
       
-      {/* Weekly Chart */}
+      {/* Trend Chart */}
       {showWeeklyChart && (
         <div className="rounded-xl border border-border p-4">
           <div className="flex items-center justify-between mb-4">
             <h4 className="font-medium flex items-center gap-2">
               <Calendar className="w-4 h-4 text-muted-foreground" />
-              Last 7 Days
+              {rangeLabel}
             </h4>
             <span className="text-sm text-muted-foreground">
-              Avg: {analytics.weeklyAverage}%
+              Avg: {analytics.rangeAverage}% · Overall: {analytics.overallAdherence}%
+              {analytics.rangeSkipped > 0 && ` · ${analytics.rangeSkipped} skipped`}
             </span>
           </div>
-          <WeeklyChart data={analytics.weeklyTrend} />
+          <TrendChart data={analytics.trend} />
+          {!analytics.hasHistory && !historyLoading && (
+            <p className="text-xs text-muted-foreground mt-3">
+              History builds up day by day as doses are recorded.
+            </p>
+          )}
+        </div>
+      )}
+      
+      {/* Per-medication Streaks */}
+      {showMedicationStreaks && analytics.medicationAdherence.length > 0 && (
+        <div className="rounded-xl border border-border p-4">
+          <h4 className="font-medium flex items-center gap-2 mb-4">
+            <Flame className="w-4 h-4 text-muted-foreground" />
+            Medication Streaks
+          </h4>
+          <div className="space-y-2">
+            {analytics.medicationAdherence.map((item) => (
+              <MedicationStreakRow key={item.medicationId} item={item} />
+            ))}
+          </div>
         </div>
       )}
       
@@ -302,6 +427,7 @@ export function AdherenceAnalytics({
           <h4 className="font-medium flex items-center gap-2 mb-4">
             <Clock className="w-4 h-4 text-muted-foreground" />
             Time of Day Performance
+            <span className="text-xs font-normal text-muted-foreground">({rangeLabel.toLowerCase()})</span>
           </h4>
           <div className="space-y-2">
             {analytics.timeSlotPatterns
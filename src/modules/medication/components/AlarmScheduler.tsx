@@ -27,6 +27,7 @@ import type {
 import { NEXT_DAY_MODE_OPTIONS, FREQUENCY_OPTIONS, getIntervalForFrequency } from "../constants";
 import {
   calculateDoseTimes,
+  formatFrequencyPattern,
   formatTime12Hour,
   createMedicationSchedule,
   addMinutesToTime,
@@ -74,9 +75,17 @@ export function AlarmScheduler({ medicine, onScheduleSet, onBack }: Props) {
       startTime,
       medicine.frequency,
       medicine.customFrequency,
-      nextDayMode
+      nextDayMode,
+      { routine: medicine.routine, anchors: medicine.doseAnchors }
     );
-  }, [startTime, medicine.frequency, medicine.customFrequency, nextDayMode]);
+  }, [
+    startTime,
+    medicine.frequency,
+    medicine.customFrequency,
+    nextDayMode,
+    medicine.routine,
+    medicine.doseAnchors,
+  ]);
 
   // Get frequency info
   const frequencyInfo = FREQUENCY_OPTIONS.find(
@@ -141,6 +150,8 @@ export function AlarmScheduler({ medicine, onScheduleSet, onBack }: Props) {
       nextDayMode: schedule.nextDayMode,
       intervalMinutes: schedule.intervalMinutes,
       doses: schedule.doses,
+      phases: schedule.phases,
+      anchors: schedule.anchors,
       isActive: true,
       createdAt: schedule.createdAt,
       updatedAt: schedule.updatedAt,
@@ -188,7 +199,7 @@ export function AlarmScheduler({ medicine, onScheduleSet, onBack }: Props) {
                 </span>
               </div>
               <p className="text-sm text-muted-foreground">
-                {frequencyInfo?.description}
+                {formatFrequencyPattern(medicine) ?? frequencyInfo?.description}
               </p>
             </div>
             {dosesPerDay > 1 && (
@@ -0,0 +1,168 @@
+// ============================================
+// Calendar Export Card
+// Download the dose schedule as an .ics file, or subscribe to a feed
+// that keeps Google Calendar or Apple Calendar in sync
+// ============================================
+
+import React, { useState } from "react";
+import { CalendarPlus, Copy, Download, Link2, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { getOrCreateCalendarFeed, resetCalendarFeed } from "@/services/supabase";
+import type { Medication } from "@/types";
+import type { CalendarFeed } from "@/types/database";
+import type { DailyRoutine } from "../types";
+import {
+  buildScheduleCalendar,
+  getCalendarFeedUrl,
+  getCalendarFileName,
+  toWebcalUrl,
+} from "../services/calendarService";
+
+interface CalendarExportCardProps {
+  medications: Medication[];
+  /** Whose schedule it is */
+  patientId: string;
+  /** Signed-in user subscribing (the patient, or a companion); none in demo mode */
+  subscriberId?: string | null;
+  /** Set on a companion's view; prefixes event titles with the patient's name */
+  patientName?: string;
+  timeZone?: string;
+  routine?: DailyRoutine;
+}
+
+export function CalendarExportCard({
+  medications,
+  patientId,
+  subscriberId,
+  patientName,
+  timeZone,
+  routine,
+}: CalendarExportCardProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const calendarName = patientName ? `${patientName}'s medicines` : "My medicines";
+  const canSubscribe = !!subscriberId && isSupabaseConfigured;
+  const feedUrl = feed ? getCalendarFeedUrl(feed.token) : null;
+
+  const handleDownload = () => {
+    const ics = buildScheduleCalendar(medications, {
+      calendarName,
+      timeZone,
+      routine,
+      summaryPrefix: patientName,
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getCalendarFileName(calendarName);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleGetLink = async () => {
+    if (!subscriberId) return;
+    setIsLoading(true);
+    const { feed: saved, error } = await getOrCreateCalendarFeed(subscriberId, patientId);
+    setIsLoading(false);
+
+    if (error) {
+      toast({ title: "Couldn't create calendar link", description: error, variant: "destructive" });
+      return;
+    }
+    setFeed(saved);
+  };
+
+  const handleReset = async () => {
+    if (!feed) return;
+    setIsLoading(true);
+    const { feed: saved, error } = await resetCalendarFeed(feed);
+    setIsLoading(false);
+
+    if (error) {
+      toast({ title: "Couldn't reset link", description: error, variant: "destructive" });
+      return;
+    }
+    setFeed(saved);
+    toast({
+      title: "New calendar link",
+      description: "Calendars using the old link will stop updating.",
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="card-senior space-y-3">
+      <h3 className="text-senior-lg font-bold flex items-center gap-2">
+        <CalendarPlus className="w-5 h-5 text-primary" />
+        Add to Calendar
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Put {patientName ? `${patientName}'s` : "your"} dose times in Google Calendar, Apple Calendar
+        or Outlook. As-needed medicines aren't included.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleDownload} disabled={medications.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Download .ics
+        </Button>
+        {canSubscribe && !feed && (
+          <Button variant="outline" onClick={handleGetLink} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-4 h-4 mr-2" />
+            )}
+            Subscribe link
+          </Button>
+        )}
+      </div>
+
+      {feedUrl && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Subscribe to this link and the calendar updates when medicines change. Keep it private:
+            anyone with it can see the schedule.
+          </p>
+          <div className="flex gap-2">
+            <Input value={feedUrl} readOnly className="h-10 font-mono text-xs" aria-label="Calendar link" />
+            <Button variant="outline" size="icon" className="h-10 w-10 flex-shrink-0" onClick={handleCopy}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild size="sm">
+              <a href={toWebcalUrl(feedUrl)}>Open in Calendar app</a>
+            </Button>
+            <Button asChild size="sm" variant="outline">
+              <a
+                href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(toWebcalUrl(feedUrl))}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Add to Google Calendar
+              </a>
+            </Button>
+            <Button size="sm" variant="ghost" onClick={handleReset} disabled={isLoading}>
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Reset link
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+// ============================================
+// Daily Dose Report Card
+// Flags drugs a regimen takes at or above the usual daily maximum,
+// adding up every product that contains them
+// ============================================
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertOctagon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Medication } from "@/types";
+import {
+  findDailyDoseWarnings,
+  formatMilligrams,
+  type DailyDoseWarning,
+  type DoseLimitInput,
+} from "../services/doseLimitService";
+
+interface DailyDoseReportCardProps {
+  medications: Medication[];
+  /** Set on a companion's view */
+  patientName?: string;
+  timeZone?: string;
+  className?: string;
+}
+
+export function DailyDoseReportCard({
+  medications,
+  patientName,
+  timeZone,
+  className,
+}: DailyDoseReportCardProps) {
+  const [warnings, setWarnings] = useState<DailyDoseWarning[]>([]);
+
+  // Only re-check when a dosage or schedule changes (not on every dose taken)
+  const regimenKey = JSON.stringify(
+    medications
+      .filter((med) => med.isActive !== false)
+      .map((med): DoseLimitInput => ({
+        id: med.id,
+        name: med.name,
+        dosage: med.dosage,
+        frequency: med.frequency,
+        customFrequency: med.customFrequency,
+        pillsPerDose: med.pillsPerDose,
+        prnMaxDailyDoses: med.prnMaxDailyDoses,
+        dosePhases: med.dosePhases,
+      }))
+  );
+  const regimen = useMemo(() => JSON.parse(regimenKey) as DoseLimitInput[], [regimenKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    findDailyDoseWarnings(regimen, timeZone).then((found) => {
+      if (!cancelled) setWarnings(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [regimen, timeZone]);
+
+  if (warnings.length === 0) return null;
+  const exceeded = warnings.some((warning) => warning.level === "exceeded");
+
+  return (
+    <div
+      className={cn(
+        "card-senior border-2 space-y-3",
+        exceeded
+          ? "border-destructive/40 bg-destructive/5"
+          : "border-amber-200 dark:border-amber-800 bg-amber-50/50 dark:bg-amber-950/20",
+        className
+      )}
+    >
+      <h3
+        className={cn(
+          "text-senior-lg font-bold flex items-center gap-2",
+          exceeded ? "text-destructive" : "text-amber-700 dark:text-amber-400"
+        )}
+      >
+        <AlertOctagon className="w-5 h-5" />
+        {exceeded ? "Daily Maximum Exceeded" : "Close to the Daily Maximum"}
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        {patientName ? `${patientName}'s` : "Your"} schedule adds up to a lot of the drugs below.
+        Confirm the doses with a doctor or pharmacist.
+      </p>
+      <ul className="space-y-2">
+        {warnings.map((warning) => (
+          <li key={warning.ingredient} className="p-3 rounded-xl bg-card">
+            <p className="font-semibold">
+              {warning.ingredient}: {formatMilligrams(warning.totalMg)} a day (max{" "}
+              {formatMilligrams(warning.maxMg)}, {warning.percent}%)
+            </p>
+            <p className="text-sm text-muted-foreground">
+              From {warning.contributions.map((c) => c.medicationName).join(", ")}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+// ============================================
+// Daily Dose Warning Card Component
+// Stops a medicine from being saved at or above the usual daily maximum
+// until the user confirms the dose
+// ============================================
+
+import React, { useState } from "react";
+import { AlertOctagon, AlertTriangle, ArrowLeft, ChevronRight, Pill } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatMilligrams, type DailyDoseWarning } from "../services/doseLimitService";
+
+interface Props {
+  warnings: DailyDoseWarning[];
+  onProceedAnyway: () => void;
+  onGoBack: () => void;
+  proceedLabel?: string;
+}
+
+export function DailyDoseWarningCard({
+  warnings,
+  onProceedAnyway,
+  onGoBack,
+  proceedLabel = "I Understand, Continue Anyway",
+}: Props) {
+  const exceeded = warnings.some((warning) => warning.level === "exceeded");
+  const [confirmed, setConfirmed] = useState(false);
+
+  return (
+    <div
+      className={`bg-card rounded-3xl border-2 overflow-hidden shadow-lg mb-4 ${
+        exceeded ? "border-destructive/40" : "border-amber-200 dark:border-amber-800"
+      }`}
+    >
+      <div
+        className={`px-6 py-5 flex items-start gap-4 ${
+          exceeded ? "bg-destructive/10" : "bg-amber-50 dark:bg-amber-950/30"
+        }`}
+      >
+        <div className="w-12 h-12 rounded-2xl bg-card flex items-center justify-center shrink-0">
+          {exceeded ? (
+            <AlertOctagon className="w-6 h-6 text-destructive" />
+          ) : (
+            <AlertTriangle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+          )}
+        </div>
+        <div>
+          <h3 className={`font-bold text-lg ${exceeded ? "text-destructive" : "text-amber-700 dark:text-amber-400"}`}>
+            {exceeded ? "Above the Daily Maximum" : "Close to the Daily Maximum"}
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Counting every medicine on the list that contains the same drug.
+          </p>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {warnings.map((warning) => (
+          <div key={warning.ingredient} className="p-4 rounded-xl bg-muted/50 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-semibold">{warning.ingredient}</p>
+              <p
+                className={`text-sm font-bold ${
+                  warning.level === "exceeded" ? "text-destructive" : "text-amber-700 dark:text-amber-400"
+                }`}
+              >
+                {formatMilligrams(warning.totalMg)} of {formatMilligrams(warning.maxMg)} a day ({warning.percent}%)
+              </p>
+            </div>
+            <ul className="space-y-1">
+              {warning.contributions.map((contribution) => (
+                <li key={contribution.medicationName} className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Pill className="w-4 h-4 shrink-0" />
+                  {contribution.medicationName}: {formatMilligrams(contribution.perDoseMg)} ×{" "}
+                  {contribution.dosesPerDay} = {formatMilligrams(contribution.dailyMg)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        <p className="text-sm text-muted-foreground">
+          Check the dosage and how often it is taken. Only go above the maximum if a doctor prescribed it.
+        </p>
+
+        {exceeded && (
+          <label className="flex items-start gap-3 p-3 rounded-xl border border-border cursor-pointer">
+            <Checkbox
+              checked={confirmed}
+              onCheckedChange={(checked) => setConfirmed(checked === true)}
+              className="mt-0.5"
+            />
+            <span className="text-sm">A doctor prescribed this amount</span>
+          </label>
+        )}
+
+        <div className="pt-2 space-y-3">
+          <Button variant="teal" size="lg" className="w-full" onClick={onGoBack}>
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Go Back & Change Dose
+          </Button>
+          <Button
+            variant="outline"
+            size="lg"
+            className="w-full border-2"
+            onClick={onProceedAnyway}
+            disabled={exceeded && !confirmed}
+          >
+            <Pill className="w-5 h-5 mr-2" />
+            {proceedLabel}
+            <ChevronRight className="w-5 h-5 ml-2" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
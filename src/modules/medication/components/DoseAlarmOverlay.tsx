@@ -0,0 +1,215 @@
+// ============================================
+// Dose Alarm Overlay
+// Full-screen alarm for a patient's due dose: a big photo of the pill,
+// its name, dose and instructions read aloud, and a chime that keeps
+// ringing until the dose is taken, snoozed or skipped
+// ============================================
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { AlarmClock, Check, Loader2, Pill, SkipForward, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/contexts/AppContext";
+import { toast } from "@/hooks/use-toast";
+import { loadLanguagePreference, type SupportedLanguage } from "@/services/language";
+import { speakWithPreferredEngine, stopAllSpeech } from "@/services/textToSpeech";
+import type { SkipReason } from "../types";
+import { DEFAULT_SNOOZE_MINUTES } from "../constants";
+import { useAlarmScheduler } from "../hooks/useAlarmScheduler";
+import { getAlarmAnnouncement, getAlarmMedications, startAlarmChime } from "../services/alarmService";
+import { formatTime12Hour } from "../services/scheduleService";
+import { SkipDoseDialog } from "./SkipDoseDialog";
+
+// Pause after the first chime before the dose is read aloud
+const ANNOUNCE_DELAY_MS = 1500;
+
+export function DoseAlarmOverlay() {
+  const { userRole } = useApp();
+
+  // Only patients take doses; companions get missed-dose alerts instead
+  if (userRole !== "patient") return null;
+
+  return <ActiveDoseAlarm />;
+}
+
+function ActiveDoseAlarm() {
+  const { medications, timeZone, user, profile, toggleMedication, toggleDose, skipDose } = useApp();
+  const alarmMedications = useMemo(
+    () => getAlarmMedications(medications, timeZone),
+    [medications, timeZone]
+  );
+  const { activeAlarms, snoozeAlarm, getAlarmSnoozesLeft } = useAlarmScheduler(alarmMedications, {
+    timeZone,
+    userId: user?.id,
+    snoozeMinutes: profile?.snooze_minutes,
+    maxSnoozes: profile?.max_snoozes,
+  });
+  const [isSkipping, setIsSkipping] = useState(false);
+  const [pendingAction, setPendingAction] = useState<"taken" | "snooze" | null>(null);
+
+  const alarm = activeAlarms[0] ?? null;
+  const medication = alarm ? medications.find((m) => m.id === alarm.medicationId) : undefined;
+  const language = (profile?.preferred_language as SupportedLanguage | undefined) ?? loadLanguagePreference();
+  const snoozeMinutes = profile?.snooze_minutes ?? DEFAULT_SNOOZE_MINUTES;
+  const snoozesLeft = alarm ? getAlarmSnoozesLeft(alarm) : 0;
+  const announcement = alarm
+    ? getAlarmAnnouncement(
+        { name: alarm.medicationName, dosage: alarm.dosage, instructions: medication?.instructions },
+        language
+      )
+    : "";
+
+  const readAloud = useCallback(async () => {
+    stopAllSpeech();
+    try {
+      await speakWithPreferredEngine(announcement, language, { speed: 0.9 });
+    } catch (error) {
+      console.error("Error reading dose alarm aloud:", error);
+    }
+  }, [announcement, language]);
+
+  // Ring (and read the dose aloud once) until the patient answers; a snooze rings anew
+  const ringingKey = alarm && !isSkipping ? `${alarm.id}#${alarm.snoozeCount ?? 0}` : null;
+  useEffect(() => {
+    if (!ringingKey) return;
+
+    const chime = startAlarmChime();
+    const timer = setTimeout(() => {
+      chime.pause();
+      readAloud().finally(() => chime.resume());
+    }, ANNOUNCE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      chime.stop();
+      stopAllSpeech();
+    };
+  }, [ringingKey, readAloud]);
+
+  if (!alarm) return null;
+
+  const handleTaken = async () => {
+    setPendingAction("taken");
+    try {
+      if (alarm.doseId) {
+        await toggleDose(alarm.medicationId, alarm.doseId);
+      } else {
+        await toggleMedication(alarm.medicationId);
+      }
+      toast({
+        title: "Great job! 💪",
+        description: `${alarm.medicationName} marked as taken.`,
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSnooze = async () => {
+    setPendingAction("snooze");
+    const { error } = await snoozeAlarm(alarm.id);
+    setPendingAction(null);
+    if (error) {
+      toast({ title: "Couldn't snooze", description: error, variant: "destructive" });
+      return;
+    }
+    toast({
+      title: `Snoozed for ${snoozeMinutes} min ⏰`,
+      description: `We'll remind you about ${alarm.medicationName} again.`,
+    });
+  };
+
+  const handleSkip = (reason: SkipReason | null, note: string) =>
+    skipDose(alarm.medicationId, alarm.doseId || null, reason, note);
+
+  const doseTime = formatTime12Hour(alarm.scheduledTime);
+
+  if (isSkipping) {
+    return (
+      <SkipDoseDialog
+        isOpen
+        onClose={() => setIsSkipping(false)}
+        mode="skip"
+        medicationName={alarm.medicationName}
+        doseDescription={doseTime}
+        onSubmit={handleSkip}
+      />
+    );
+  }
+
+  return (
+    <div
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="dose-alarm-title"
+      aria-describedby="dose-alarm-dose"
+      className="fixed inset-0 z-[60] flex flex-col items-center justify-between gap-6 overflow-y-auto bg-background p-6 lg:p-10"
+    >
+      <div className="flex items-center gap-2 text-xl font-semibold text-primary animate-pulse">
+        <AlarmClock className="w-7 h-7" />
+        Time for your medicine · {doseTime}
+      </div>
+
+      <div className="flex flex-col items-center text-center gap-4 max-w-xl">
+        {medication?.imageUrl ? (
+          <img
+            src={medication.imageUrl}
+            alt={alarm.medicationName}
+            className="w-56 h-56 lg:w-72 lg:h-72 rounded-3xl object-cover border-4 border-primary/30 shadow-xl"
+          />
+        ) : (
+          <div className="w-56 h-56 lg:w-72 lg:h-72 rounded-3xl bg-primary/10 flex items-center justify-center border-4 border-primary/30">
+            <Pill className="w-28 h-28 text-primary" />
+          </div>
+        )}
+        <h2 id="dose-alarm-title" className="text-4xl lg:text-5xl font-bold break-words">
+          {alarm.medicationName}
+        </h2>
+        <p id="dose-alarm-dose" className="text-2xl lg:text-3xl font-semibold text-muted-foreground">
+          {alarm.dosage}
+        </p>
+        {medication?.instructions && (
+          <p className="text-xl lg:text-2xl text-muted-foreground">{medication.instructions}</p>
+        )}
+        <Button variant="ghost" size="lg" onClick={readAloud} className="gap-2">
+          <Volume2 className="w-6 h-6" />
+          Read it again
+        </Button>
+      </div>
+
+      <div className="w-full max-w-xl flex flex-col gap-3">
+        <Button
+          variant="teal"
+          className="w-full min-h-[88px] text-3xl font-bold gap-3"
+          onClick={handleTaken}
+          disabled={pendingAction !== null}
+          autoFocus
+        >
+          {pendingAction === "taken" ? <Loader2 className="w-8 h-8 animate-spin" /> : <Check className="w-9 h-9" />}
+          Taken
+        </Button>
+        <div className="grid grid-cols-2 gap-3">
+          <Button
+            variant="outline"
+            size="xl"
+            className="w-full gap-2"
+            onClick={handleSnooze}
+            disabled={pendingAction !== null || snoozesLeft === 0}
+          >
+            {pendingAction === "snooze" ? <Loader2 className="w-7 h-7 animate-spin" /> : <AlarmClock className="w-7 h-7" />}
+            {snoozesLeft === 0 ? "No snoozes" : `Snooze ${snoozeMinutes}m`}
+          </Button>
+          <Button
+            variant="muted"
+            size="xl"
+            className="w-full gap-2"
+            onClick={() => setIsSkipping(true)}
+            disabled={pendingAction !== null}
+          >
+            <SkipForward className="w-7 h-7" />
+            Skip
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
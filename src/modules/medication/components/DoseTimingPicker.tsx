@@ -0,0 +1,125 @@
+// ============================================
+// Dose Timing Picker
+// Time doses from a start time, or anchor them to meals, bedtime or waking
+// ============================================
+
+import React from "react";
+import { Utensils } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { DailyRoutine, DoseAnchor, DoseTiming, FrequencyType } from "../types";
+import { DOSE_TIMING_OPTIONS } from "../constants";
+import {
+  buildDoseAnchors,
+  calculateDoseTimes,
+  formatTime12Hour,
+  getAvailableDoseTimings,
+  getDoseTiming,
+  getDosesPerDoseDay,
+} from "../services/scheduleService";
+
+interface DoseTimingPickerProps {
+  frequency: FrequencyType;
+  customFrequency?: number;
+  /** Current anchors; empty when doses are spread from the start time */
+  value: DoseAnchor[];
+  onChange: (anchors: DoseAnchor[]) => void;
+  /** Routine used to preview anchored times */
+  routine: DailyRoutine;
+}
+
+const OFFSET_TEXT: Partial<Record<DoseTiming, string>> = {
+  before_meals: "minutes before meals",
+  after_meals: "minutes after meals",
+  bedtime: "minutes before bed",
+  waking: "minutes after waking",
+};
+
+// Before/after meals with no gap would read as "with meals"
+const MIN_MEAL_GAP = 5;
+
+export function DoseTimingPicker({
+  frequency,
+  customFrequency,
+  value,
+  onChange,
+  routine,
+}: DoseTimingPickerProps) {
+  const dosesPerDay = getDosesPerDoseDay(frequency, customFrequency);
+  const available = getAvailableDoseTimings(frequency, customFrequency);
+  // Anchors are refitted to the dose count when saved, so a frequency change
+  // keeps the timing unless it no longer fits
+  const current = getDoseTiming(value);
+  const timing = available.includes(current.timing) ? current.timing : "fixed";
+  const minutes = current.minutes;
+
+  if (available.length <= 1) return null;
+
+  const selectTiming = (next: DoseTiming) => {
+    const option = DOSE_TIMING_OPTIONS.find((opt) => opt.value === next);
+    onChange(buildDoseAnchors(next, dosesPerDay, Math.abs(option?.defaultOffset ?? 0)));
+  };
+
+  const changeMinutes = (text: string) => {
+    const parsed = parseInt(text, 10);
+    const isMealGap = timing === "before_meals" || timing === "after_meals";
+    const gap = Number.isFinite(parsed) ? parsed : 0;
+    onChange(buildDoseAnchors(timing, dosesPerDay, isMealGap ? Math.max(MIN_MEAL_GAP, gap) : gap));
+  };
+
+  const previewTimes =
+    timing !== "fixed"
+      ? calculateDoseTimes(routine.wake, frequency, customFrequency, "restart", {
+          routine,
+          anchors: value,
+        })
+      : [];
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+        <Utensils className="w-4 h-4" />
+        When to take
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {DOSE_TIMING_OPTIONS.filter((opt) => available.includes(opt.value)).map((opt) => (
+          <button
+            key={opt.value}
+            type="button"
+            onClick={() => selectTiming(opt.value)}
+            title={opt.description}
+            className={`h-10 px-2 rounded-lg border text-xs font-semibold transition-colors ${
+              timing === opt.value
+                ? "bg-primary text-primary-foreground border-primary"
+                : "bg-background border-border hover:bg-muted"
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+
+      {OFFSET_TEXT[timing] && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={5}
+            value={minutes}
+            onChange={(e) => changeMinutes(e.target.value)}
+            className="h-10 w-20"
+            aria-label="Minutes"
+          />
+          <span className="text-sm text-muted-foreground">{OFFSET_TEXT[timing]}</span>
+        </div>
+      )}
+
+      {previewTimes.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {previewTimes.map((dose) => `${dose.label} ${formatTime12Hour(dose.time)}`).join(" · ")}
+          {" "}(from your daily routine)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// ============================================
+// Duplication Report Card
+// Lists drugs the current regimen takes from more than one medication,
+// matching brand names, generic names and combination products
+// ============================================
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Copy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Medication } from "@/types";
+import { findRegimenDuplicates, type TherapeuticDuplicate } from "../services/duplicationService";
+
+interface DuplicationReportCardProps {
+  medications: Medication[];
+  /** Set on a companion's view */
+  patientName?: string;
+  className?: string;
+}
+
+export function DuplicationReportCard({ medications, patientName, className }: DuplicationReportCardProps) {
+  const [duplicates, setDuplicates] = useState<TherapeuticDuplicate[]>([]);
+
+  // Only re-check when the list of names changes (not on every dose taken)
+  const namesKey = JSON.stringify(
+    medications.filter((med) => med.isActive !== false).map((med) => [med.id, med.name])
+  );
+  const regimen = useMemo(
+    () => (JSON.parse(namesKey) as [string, string][]).map(([id, name]) => ({ id, name })),
+    [namesKey]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    findRegimenDuplicates(regimen).then((found) => {
+      if (!cancelled) setDuplicates(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [regimen]);
+
+  if (duplicates.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "card-senior border-2 border-amber-200 dark:border-amber-800 bg-amber-50/50 dark:bg-amber-950/20 space-y-3",
+        className
+      )}
+    >
+      <h3 className="text-senior-lg font-bold flex items-center gap-2 text-amber-700 dark:text-amber-400">
+        <Copy className="w-5 h-5" />
+        Same Medicine Listed Twice
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        {patientName ? `${patientName}'s` : "Your"} list has the same drug under more than one
+        name. Check with a doctor or pharmacist that both are meant to be taken.
+      </p>
+      <ul className="space-y-2">
+        {duplicates.map((duplicate) => (
+          <li key={duplicate.ingredient} className="p-3 rounded-xl bg-card">
+            <p className="font-semibold">{duplicate.ingredient}</p>
+            <p className="text-sm text-muted-foreground">
+              In{" "}
+              {duplicate.medications
+                .map((med) => (med.isCombination ? `${med.name} (combination)` : med.name))
+                .join(", ")}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+// ============================================
+// Duplication Warning Card Component
+// Warns when a new medicine contains the same drug as a current one
+// (e.g., "Biogesic" and "Paracetamol")
+// ============================================
+
+import React from "react";
+import { ArrowLeft, ChevronRight, Copy, Pill } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DetectedDuplicate, MedicationIngredients } from "../services/duplicationService";
+
+interface Props {
+  newMedicineName: string;
+  ingredients: MedicationIngredients;
+  duplicates: DetectedDuplicate[];
+  /** Leave out when another card below carries the actions */
+  onProceedAnyway?: () => void;
+  onGoBack?: () => void;
+}
+
+export function DuplicationWarningCard({
+  newMedicineName,
+  ingredients,
+  duplicates,
+  onProceedAnyway,
+  onGoBack,
+}: Props) {
+  return (
+    <div className="bg-card rounded-3xl border-2 border-amber-200 dark:border-amber-800 overflow-hidden shadow-lg mb-4">
+      <div className="px-6 py-5 bg-amber-50 dark:bg-amber-950/30 flex items-start gap-4">
+        <div className="w-12 h-12 rounded-2xl bg-amber-100 dark:bg-amber-900/40 flex items-center justify-center shrink-0">
+          <Copy className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+        </div>
+        <div>
+          <h3 className="font-bold text-lg text-amber-700 dark:text-amber-400">
+            Same Medicine Already in Your List
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            <span className="font-semibold text-foreground">{newMedicineName}</span> contains{" "}
+            {ingredients.ingredients.join(" + ")}
+            {ingredients.isCombination && " (a combination medicine)"}. Taking it with the medicines
+            below could mean a double dose.
+          </p>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {duplicates.map((duplicate) => (
+          <div
+            key={duplicate.currentMedication}
+            className="flex items-center gap-3 p-3 rounded-xl bg-muted/50"
+          >
+            <Pill className="w-5 h-5 text-amber-600 shrink-0" />
+            <div className="min-w-0">
+              <p className="font-semibold truncate">{duplicate.currentMedication}</p>
+              <p className="text-sm text-muted-foreground">
+                Also contains {duplicate.sharedIngredients.join(", ")}
+              </p>
+            </div>
+          </div>
+        ))}
+
+        <p className="text-sm text-muted-foreground">
+          Ask your doctor or pharmacist whether you need both, or if one replaces the other.
+        </p>
+
+        {onGoBack && onProceedAnyway && (
+          <div className="pt-3 space-y-3">
+            <Button variant="teal" size="lg" className="w-full" onClick={onGoBack}>
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Go Back & Review
+            </Button>
+            <Button variant="outline" size="lg" className="w-full border-2" onClick={onProceedAnyway}>
+              <Pill className="w-5 h-5 mr-2" />
+              I Understand, Continue Anyway
+              <ChevronRight className="w-5 h-5 ml-2" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
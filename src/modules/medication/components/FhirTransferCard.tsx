@@ -0,0 +1,237 @@
+// ============================================
+// FHIR Transfer Card
+// Export the medication list as an HL7 FHIR R4 bundle for a clinic's
+// system, or import one with a preview of what will change
+// ============================================
+
+import React, { useRef, useState } from "react";
+import { ArrowRightLeft, Download, FileUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { Medication } from "@/types";
+import {
+  buildFhirBundle,
+  getFhirFileName,
+  prepareFhirImport,
+  type FhirImportChange,
+  type FhirMedicationResourceType,
+} from "../services/fhirService";
+
+interface FhirTransferCardProps {
+  /** Current (active) medications */
+  medications: Medication[];
+  /** Removed and expired medications, exported as completed or stopped */
+  loadPastMedications: () => Promise<Medication[]>;
+  patientId: string;
+  /** Set on a companion's view */
+  patientName?: string;
+  /** Save the chosen changes (adds and updates) */
+  onImport: (changes: FhirImportChange[]) => Promise<{ error: string | null }>;
+}
+
+const ACTION_LABELS: Record<FhirImportChange["action"], { label: string; className: string }> = {
+  add: { label: "New", className: "bg-green-100 text-green-700" },
+  update: { label: "Update", className: "bg-primary/15 text-primary" },
+  unchanged: { label: "No change", className: "bg-muted text-muted-foreground" },
+  skip: { label: "Past, not imported", className: "bg-muted text-muted-foreground" },
+};
+
+export function FhirTransferCard({
+  medications,
+  loadPastMedications,
+  patientId,
+  patientName,
+  onImport,
+}: FhirTransferCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [resourceType, setResourceType] = useState<FhirMedicationResourceType>("MedicationStatement");
+  const [isExporting, setIsExporting] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [preview, setPreview] = useState<{ changes: FhirImportChange[]; errors: string[] } | null>(
+    null
+  );
+
+  const pendingChanges =
+    preview?.changes.filter((change) => change.action === "add" || change.action === "update") ?? [];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const past = await loadPastMedications();
+    setIsExporting(false);
+
+    const bundle = buildFhirBundle([...medications, ...past], {
+      patientId,
+      patientName,
+      resourceType,
+    });
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getFhirFileName(patientName || "my");
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      toast({
+        title: "Couldn't read file",
+        description: "Choose a FHIR JSON file (a Bundle, MedicationStatement or MedicationRequest).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsReading(true);
+    const result = await prepareFhirImport(data, medications);
+    setIsReading(false);
+    setPreview(result);
+  };
+
+  const handleApply = async () => {
+    if (pendingChanges.length === 0) return;
+    setIsApplying(true);
+    const { error } = await onImport(pendingChanges);
+    setIsApplying(false);
+
+    if (error) {
+      toast({ title: "Import failed", description: error, variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Medicines imported",
+      description: `${pendingChanges.length} medicine${pendingChanges.length === 1 ? "" : "s"} saved.`,
+    });
+    setPreview(null);
+  };
+
+  return (
+    <div className="card-senior space-y-3">
+      <h3 className="text-senior-lg font-bold flex items-center gap-2">
+        <ArrowRightLeft className="w-5 h-5 text-primary" />
+        Health Records (FHIR)
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Share {patientName ? `${patientName}'s` : "your"} medicine list with a clinic's system, or
+        bring in a list from one.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={resourceType}
+          onValueChange={(value) => setResourceType(value as FhirMedicationResourceType)}
+        >
+          <SelectTrigger className="h-10 w-56" aria-label="Export as">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="MedicationStatement">Medication statements</SelectItem>
+            <SelectItem value="MedicationRequest">Medication requests</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Export
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isReading}>
+          {isReading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <FileUp className="w-4 h-4 mr-2" />
+          )}
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json,application/fhir+json"
+          className="hidden"
+          onChange={handleFileChosen}
+        />
+      </div>
+
+      {preview && (
+        <div className="space-y-3 border-t border-border pt-3">
+          {preview.errors.length > 0 && (
+            <ul className="text-sm text-destructive space-y-1">
+              {preview.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {preview.changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No medicines found in this file.</p>
+          ) : (
+            <div className="space-y-2">
+              {preview.changes.map((change, index) => {
+                const action = ACTION_LABELS[change.action];
+                return (
+                  <div key={`${change.item.name}-${index}`} className="p-3 bg-muted rounded-xl space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-semibold truncate">
+                        {change.item.name} <span className="font-normal">{change.item.dosage}</span>
+                      </p>
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${action.className}`}>
+                        {action.label}
+                      </span>
+                    </div>
+                    {change.item.drug && (
+                      <p className="text-xs text-muted-foreground">
+                        Matched: {change.item.drug.brandName} ({change.item.drug.genericName})
+                      </p>
+                    )}
+                    {change.changes.map((field) => (
+                      <p key={field.label} className="text-sm">
+                        {field.label}: <span className="line-through text-muted-foreground">{field.from}</span>{" "}
+                        → {field.to}
+                      </p>
+                    ))}
+                    {change.item.warnings.map((warning) => (
+                      <p key={warning} className="text-xs text-amber-700">
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleApply} disabled={isApplying || pendingChanges.length === 0}>
+              {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {pendingChanges.length > 0
+                ? `Import ${pendingChanges.length} change${pendingChanges.length === 1 ? "" : "s"}`
+                : "Nothing to import"}
+            </Button>
+            <Button variant="ghost" onClick={() => setPreview(null)} disabled={isApplying}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
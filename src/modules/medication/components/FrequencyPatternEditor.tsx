@@ -0,0 +1,153 @@
+// ============================================
+// Frequency Pattern Editor
+// Pick weekdays ("specific_days"), an on/off cycle ("cycle"),
+// or the safety limits of an as-needed medication ("as_needed")
+// ============================================
+
+import React from "react";
+import { CalendarDays, ShieldAlert } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { FrequencyPattern, FrequencyType } from "../types";
+import { WEEKDAY_OPTIONS } from "../constants";
+
+interface FrequencyPatternEditorProps {
+  frequency: FrequencyType;
+  value: FrequencyPattern;
+  onChange: (pattern: FrequencyPattern) => void;
+}
+
+export function FrequencyPatternEditor({ frequency, value, onChange }: FrequencyPatternEditorProps) {
+  if (frequency === "specific_days") {
+    const selected = value.daysOfWeek ?? [];
+
+    const toggleDay = (day: number) => {
+      const next = selected.includes(day)
+        ? selected.filter((d) => d !== day)
+        : [...selected, day].sort((a, b) => a - b);
+      onChange({ ...value, daysOfWeek: next });
+    };
+
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+          <CalendarDays className="w-4 h-4" />
+          Which days?
+        </label>
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAY_OPTIONS.map((day) => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleDay(day.value)}
+              className={`h-10 rounded-lg border text-xs font-semibold transition-colors ${
+                selected.includes(day.value)
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-background border-border hover:bg-muted"
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+        {selected.length === 0 && (
+          <p className="text-xs text-destructive">Pick at least one day</p>
+        )}
+      </div>
+    );
+  }
+
+  if (frequency === "cycle") {
+    const parseDays = (text: string) => {
+      const days = parseInt(text, 10);
+      return Number.isFinite(days) && days >= 0 ? days : undefined;
+    };
+
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+          <CalendarDays className="w-4 h-4" />
+          Cycle (starts on the first day)
+        </label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={value.cycleDaysOn ?? ""}
+            onChange={(e) => onChange({ ...value, cycleDaysOn: parseDays(e.target.value) })}
+            placeholder="21"
+            className="h-10 w-20"
+            aria-label="Days on"
+          />
+          <span className="text-sm text-muted-foreground">days on,</span>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={value.cycleDaysOff ?? ""}
+            onChange={(e) => onChange({ ...value, cycleDaysOff: parseDays(e.target.value) })}
+            placeholder="7"
+            className="h-10 w-20"
+            aria-label="Days off"
+          />
+          <span className="text-sm text-muted-foreground">days off</span>
+        </div>
+        {!value.cycleDaysOn && (
+          <p className="text-xs text-destructive">Enter how many days are taken each cycle</p>
+        )}
+      </div>
+    );
+  }
+
+  if (frequency === "as_needed") {
+    const parseLimit = (text: string, scale = 1) => {
+      const amount = parseFloat(text);
+      return Number.isFinite(amount) && amount > 0 ? Math.round(amount * scale) : null;
+    };
+
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4" />
+          Safety limits (optional)
+        </label>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">At most every</span>
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0.5}
+            step={0.5}
+            value={value.prnMinIntervalMinutes ? value.prnMinIntervalMinutes / 60 : ""}
+            onChange={(e) =>
+              onChange({ ...value, prnMinIntervalMinutes: parseLimit(e.target.value, 60) })
+            }
+            placeholder="4"
+            className="h-10 w-20"
+            aria-label="Minimum hours between doses"
+          />
+          <span className="text-sm text-muted-foreground">hours</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">No more than</span>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={value.prnMaxDailyDoses ?? ""}
+            onChange={(e) => onChange({ ...value, prnMaxDailyDoses: parseLimit(e.target.value) })}
+            placeholder="6"
+            className="h-10 w-20"
+            aria-label="Maximum doses in 24 hours"
+          />
+          <span className="text-sm text-muted-foreground">doses in 24 hours</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Check the label or ask your pharmacist. Leave blank for no limit.
+        </p>
+      </div>
+    );
+  }
+
+  return null;
+}
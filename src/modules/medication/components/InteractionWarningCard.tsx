@@ -29,8 +29,9 @@ import type {
 interface Props {
   newMedicineName: string;
   interactions: DetectedInteraction[];
-  onProceedAnyway: () => void;
-  onGoBack: () => void;
+  /** Leave out when another card below carries the actions */
+  onProceedAnyway?: () => void;
+  onGoBack?: () => void;
 }
 
 // Brand-aligned severity colors
@@ -218,43 +219,45 @@ export function InteractionWarningCard({
         </Accordion>
 
         {/* Action Buttons */}
-        <div className="mt-6 space-y-3">
-          {/* Primary Action - Go Back (Teal) */}
-          <Button
-            variant="teal"
-            size="lg"
-            className="w-full"
-            onClick={onGoBack}
-          >
-            <ArrowLeft className="w-5 h-5 mr-2" />
-            Go Back & Review
-          </Button>
+        {onGoBack && onProceedAnyway && (
+          <div className="mt-6 space-y-3">
+            {/* Primary Action - Go Back (Teal) */}
+            <Button
+              variant="teal"
+              size="lg"
+              className="w-full"
+              onClick={onGoBack}
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Go Back & Review
+            </Button>
 
-          {/* Secondary Action - Proceed Anyway */}
-          <Button
-            variant="outline"
-            size="lg"
-            className={`w-full border-2 ${
-              hasMajorInteraction
-                ? "border-primary/50 text-primary hover:bg-primary/10"
-                : ""
-            }`}
-            onClick={onProceedAnyway}
-          >
-            <Pill className="w-5 h-5 mr-2" />
-            I Understand, Continue Anyway
-            <ChevronRight className="w-5 h-5 ml-2" />
-          </Button>
+            {/* Secondary Action - Proceed Anyway */}
+            <Button
+              variant="outline"
+              size="lg"
+              className={`w-full border-2 ${
+                hasMajorInteraction
+                  ? "border-primary/50 text-primary hover:bg-primary/10"
+                  : ""
+              }`}
+              onClick={onProceedAnyway}
+            >
+              <Pill className="w-5 h-5 mr-2" />
+              I Understand, Continue Anyway
+              <ChevronRight className="w-5 h-5 ml-2" />
+            </Button>
 
-          {hasMajorInteraction && (
-            <div className="flex items-center justify-center gap-2 py-2 px-4 rounded-xl bg-primary/5 border border-primary/20">
-              <AlertTriangle className="w-4 h-4 text-primary shrink-0" />
-              <p className="text-xs text-primary font-medium">
-                Medical consultation recommended before proceeding
-              </p>
-            </div>
-          )}
-        </div>
+            {hasMajorInteraction && (
+              <div className="flex items-center justify-center gap-2 py-2 px-4 rounded-xl bg-primary/5 border border-primary/20">
+                <AlertTriangle className="w-4 h-4 text-primary shrink-0" />
+                <p className="text-xs text-primary font-medium">
+                  Medical consultation recommended before proceeding
+                </p>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+// ============================================
+// Late-Dose Rule Editor
+// What the label or pharmacist says to do when a dose is taken late
+// ============================================
+
+import React from "react";
+import { Hourglass } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { FrequencyType, LateDoseRule } from "../types";
+import { LATE_DOSE_RULE_OPTIONS } from "../constants";
+
+interface LateDoseRuleEditorProps {
+  frequency: FrequencyType;
+  rule: LateDoseRule;
+  /** Latest a dose may still be taken, for the "cutoff" rule */
+  cutoffMinutes: number | null;
+  onChange: (value: { rule: LateDoseRule; cutoffMinutes: number | null }) => void;
+}
+
+export function LateDoseRuleEditor({ frequency, rule, cutoffMinutes, onChange }: LateDoseRuleEditorProps) {
+  // As-needed medications are never late
+  if (frequency === "as_needed") return null;
+
+  const parseHours = (text: string) => {
+    const hours = parseFloat(text);
+    return Number.isFinite(hours) && hours > 0 ? Math.round(hours * 60) : null;
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+        <Hourglass className="w-4 h-4" />
+        If a dose is late
+      </label>
+      <div className="grid grid-cols-1 gap-2">
+        {LATE_DOSE_RULE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ rule: option.value, cutoffMinutes })}
+            aria-pressed={rule === option.value}
+            className={`p-3 rounded-xl border-2 text-left transition-colors ${
+              rule === option.value ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+            }`}
+          >
+            <span className="font-medium block">{option.label}</span>
+            <span className="text-xs text-muted-foreground">{option.description}</span>
+          </button>
+        ))}
+      </div>
+      {rule === "cutoff" && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Up to</span>
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0.5}
+            step={0.5}
+            value={cutoffMinutes ? cutoffMinutes / 60 : ""}
+            onChange={(e) => onChange({ rule, cutoffMinutes: parseHours(e.target.value) })}
+            placeholder="12"
+            className="h-10 w-20"
+            aria-label="Hours late a dose may still be taken"
+          />
+          <span className="text-sm text-muted-foreground">hours late</span>
+        </div>
+      )}
+      {rule === "cutoff" && !cutoffMinutes && (
+        <p className="text-xs text-destructive">Enter how many hours late a dose can still be taken</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Check the leaflet's "missed dose" section or ask your pharmacist.
+      </p>
+    </div>
+  );
+}
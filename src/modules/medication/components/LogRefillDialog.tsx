@@ -0,0 +1,127 @@
+// ============================================
+// Log Refill Dialog
+// Records a refill purchase and tops up pills on hand
+// ============================================
+
+import React, { useEffect, useState } from "react";
+import { Loader2, PackagePlus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import type { Medication } from "@/types";
+
+interface LogRefillDialogProps {
+  medication: Medication | null;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Persist the refill (patient context or companion service) */
+  onSubmit: (quantity: number, notes?: string) => Promise<{ error: string | null }>;
+}
+
+export function LogRefillDialog({ medication, isOpen, onClose, onSubmit }: LogRefillDialogProps) {
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Default to one pack when the pack size is known
+  useEffect(() => {
+    if (isOpen) {
+      setQuantity(medication?.packSize ? String(medication.packSize) : "");
+      setNotes("");
+    }
+  }, [isOpen, medication]);
+
+  if (!medication) return null;
+
+  const parsedQuantity = Number(quantity);
+  const isValid = Number.isFinite(parsedQuantity) && parsedQuantity > 0;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    const { error } = await onSubmit(parsedQuantity, notes.trim() || undefined);
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: "Couldn't log refill",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Refill logged ✓",
+      description: `Added ${parsedQuantity} to ${medication.name}.`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackagePlus className="w-5 h-5 text-primary" />
+            Log Refill
+          </DialogTitle>
+          <DialogDescription>
+            {medication.name}
+            {medication.pillsOnHand !== null && medication.pillsOnHand !== undefined
+              ? ` · ${medication.pillsOnHand} on hand`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-2 block">
+              Pills purchased
+            </label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={medication.packSize ? String(medication.packSize) : "e.g., 30"}
+              className="input-senior"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-2 block">
+              Notes (optional)
+            </label>
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g., Mercury Drug, generic brand"
+              className="input-senior"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+            Save Refill
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+// ============================================
+// Medication Archive
+// Past medications with when and why each ended; a medication can be
+// brought back with one tap, or renewed as a new course with new dates
+// ============================================
+
+import React, { useState } from "react";
+import { Archive, CheckCircle2, Loader2, RefreshCw, RotateCcw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { RenewalCourse } from "@/services/supabase";
+import type { Medication, MedicationEndReason } from "@/types";
+import { TIME_PERIOD_OPTIONS, calculateEndDate, getTodayDateString } from "../constants";
+
+interface MedicationArchiveProps {
+  /** Archived medications, most recently ended first */
+  medications: Medication[];
+  isLoading?: boolean;
+  /** Set on a companion's view */
+  patientName?: string;
+  timeZone?: string;
+  onReactivate: (medicationId: string) => Promise<{ error: string | null }>;
+  onRenew: (medicationId: string, course: RenewalCourse) => Promise<{ error: string | null }>;
+}
+
+const END_REASONS: Record<MedicationEndReason, { label: string; icon: typeof Archive; className: string }> = {
+  completed: { label: "Course finished", icon: CheckCircle2, className: "text-green-700" },
+  stopped: { label: "Stopped", icon: XCircle, className: "text-muted-foreground" },
+  renewed: { label: "Renewed", icon: RefreshCw, className: "text-primary" },
+};
+
+function formatDate(value?: string): string {
+  if (!value) return "";
+  // Date-only values are calendar dates, not instants
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function MedicationArchive({
+  medications,
+  isLoading = false,
+  patientName,
+  timeZone,
+  onReactivate,
+  onRenew,
+}: MedicationArchiveProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [renewing, setRenewing] = useState<Medication | null>(null);
+  const [startDate, setStartDate] = useState("");
+  const [timePeriod, setTimePeriod] = useState("ongoing");
+
+  // Later courses of a renewed prescription, to say which one replaced it
+  const renewedBy = new Map(
+    medications.flatMap((med) => (med.previousCourseIds ?? []).map((id) => [id, med] as const))
+  );
+
+  const handleReactivate = async (medication: Medication) => {
+    setBusyId(medication.id);
+    try {
+      const { error } = await onReactivate(medication.id);
+      if (error) {
+        toast({ title: "Couldn't bring it back", description: error, variant: "destructive" });
+        return;
+      }
+      toast({ title: `${medication.name} is back on the list ✓` });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openRenewal = (medication: Medication) => {
+    setRenewing(medication);
+    setStartDate(getTodayDateString(timeZone));
+    setTimePeriod(medication.timePeriod || "ongoing");
+  };
+
+  const handleRenew = async () => {
+    if (!renewing || !startDate) return;
+    setBusyId(renewing.id);
+    try {
+      const { error } = await onRenew(renewing.id, {
+        startDate,
+        endDate: calculateEndDate(startDate, timePeriod),
+        timePeriod,
+      });
+      if (error) {
+        toast({ title: "Couldn't renew the prescription", description: error, variant: "destructive" });
+        return;
+      }
+      toast({
+        title: "Prescription renewed ✓",
+        description: `A new course of ${renewing.name} starts ${formatDate(startDate)}.`,
+      });
+      setRenewing(null);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card-senior flex flex-col items-center py-12">
+        <Loader2 className="w-10 h-10 text-primary animate-spin mb-3" />
+        <p className="text-muted-foreground">Loading past medicines...</p>
+      </div>
+    );
+  }
+
+  if (medications.length === 0) {
+    return (
+      <div className="card-senior text-center py-10">
+        <Archive className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+        <p className="text-muted-foreground">
+          No past medicines yet. Medicines that finish or are removed from{" "}
+          {patientName ? `${patientName}'s` : "your"} list will show here.
+        </p>
+      </div>
+    );
+  }
+
+  const renewEndDate = startDate ? calculateEndDate(startDate, timePeriod) : null;
+
+  return (
+    <div className="space-y-3">
+      {medications.map((medication) => {
+        const reason = END_REASONS[medication.endReason ?? "stopped"];
+        const ReasonIcon = reason.icon;
+        const successor = renewedBy.get(medication.id);
+        const isBusy = busyId === medication.id;
+
+        return (
+          <div key={medication.id} className="card-senior space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-senior-base font-bold">{medication.name}</p>
+                <p className="text-sm text-muted-foreground">{medication.dosage}</p>
+              </div>
+              <span className={`text-sm font-semibold flex items-center gap-1 shrink-0 ${reason.className}`}>
+                <ReasonIcon className="w-4 h-4" />
+                {reason.label}
+              </span>
+            </div>
+
+            <p className="text-sm">
+              {medication.startDate && <>Started {formatDate(medication.startDate)} · </>}
+              Ended {formatDate(medication.endedAt ?? medication.endDate) || "—"}
+              {(medication.previousCourseIds?.length ?? 0) > 0 &&
+                ` · Course ${(medication.previousCourseIds?.length ?? 0) + 1}`}
+            </p>
+
+            {medication.endReason === "renewed" ? (
+              <p className="text-sm text-muted-foreground">
+                {successor
+                  ? `Continued as a new course from ${formatDate(successor.startDate)}.`
+                  : "Continued as a new course on the current list."}
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2 pt-1">
+                <Button variant="outline" size="sm" onClick={() => handleReactivate(medication)} disabled={isBusy}>
+                  {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                  Reactivate
+                </Button>
+                <Button size="sm" onClick={() => openRenewal(medication)} disabled={isBusy}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Renew prescription
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <Dialog open={!!renewing} onOpenChange={(open) => !open && setRenewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Renew {renewing?.name}</DialogTitle>
+            <DialogDescription>
+              Starts a new course with the same dose and times. Past doses stay in the adherence history.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-2 block">Start date</label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-2 block">How long</label>
+              <Select value={timePeriod} onValueChange={setTimePeriod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_PERIOD_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {renewEndDate ? `Ends ${formatDate(renewEndDate)}` : "No end date"}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenewing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRenew} disabled={!startDate || busyId === renewing?.id}>
+              {busyId === renewing?.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Start new course
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
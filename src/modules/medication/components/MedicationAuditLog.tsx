@@ -0,0 +1,231 @@
+// ============================================
+// Medication Audit Log
+// Who created, edited, deactivated or marked doses of a patient's
+// medications, with the old and new value of every changed field
+// ============================================
+
+import React, { useEffect, useState } from "react";
+import { ChevronDown, History, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { getMedicationAuditLog } from "@/services/supabase";
+import type { AuditAction, MedicationAuditEntry } from "@/types/database";
+import type { Medication } from "@/types";
+import { FREQUENCY_LABELS, type FrequencyType } from "@/types";
+import type { SkipReason } from "../types";
+import { getSkipReasonLabel } from "../constants";
+import { formatTime12Hour, to24HourTime } from "../services/scheduleService";
+
+interface MedicationAuditLogProps {
+  patientId: string;
+  /** Show one medication's history only */
+  medicationId?: string;
+  /** Offered as a filter when medicationId is not set */
+  medications?: Medication[];
+  /** The signed-in user, shown as "You" */
+  viewerId?: string;
+  className?: string;
+}
+
+const ALL_MEDICATIONS = "all";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "added",
+  update: "changed",
+  deactivate: "stopped",
+  reactivate: "restarted",
+  delete: "deleted",
+  dose_taken: "marked a dose taken for",
+  dose_untaken: "unmarked a dose of",
+  dose_skipped: "skipped a dose of",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  dosage: "Dosage",
+  category: "Type",
+  instructions: "Instructions",
+  frequency: "How often",
+  custom_frequency: "Times a day",
+  days_of_week: "Days",
+  cycle_days_on: "Days on",
+  cycle_days_off: "Days off",
+  time_period: "Duration",
+  start_date: "Start date",
+  end_date: "End date",
+  start_time: "First dose",
+  time: "Time",
+  next_day_mode: "Next day",
+  interval_minutes: "Minutes between doses",
+  is_active: "Active",
+  pack_size: "Pack size",
+  pills_per_dose: "Pills per dose",
+  prn_min_interval_minutes: "Minimum gap (minutes)",
+  prn_max_daily_doses: "Most doses a day",
+  late_dose_rule: "Late dose rule",
+  late_dose_cutoff_minutes: "Late dose cutoff (minutes)",
+  dose_phases: "Taper",
+  dose_anchors: "Dose timing",
+  dose_times: "Dose times",
+  status: "Dose",
+  skip_reason: "Reason",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (field === "frequency") return FREQUENCY_LABELS[value as FrequencyType] ?? String(value);
+  if (field === "skip_reason") return getSkipReasonLabel(value as SkipReason);
+  if (field === "days_of_week" && Array.isArray(value)) {
+    return value.map((day) => WEEKDAYS[Number(day)] ?? day).join(", ");
+  }
+  if (field === "dose_times" && Array.isArray(value)) {
+    return value.length > 0 ? value.map((time) => formatTime12Hour(to24HourTime(String(time)))).join(", ") : "none";
+  }
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  // Tapers and anchors are lists; the detail lives on the medication itself
+  if (typeof value === "object") return "updated";
+  return String(value);
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function actorLabel(entry: MedicationAuditEntry, viewerId?: string): string {
+  if (entry.actor_role === "system") return "Automatic update";
+  const name = viewerId && entry.actor_id === viewerId ? "You" : entry.actor_name || "Someone";
+  return `${name} (${entry.actor_role})`;
+}
+
+export function MedicationAuditLog({
+  patientId,
+  medicationId,
+  medications = [],
+  viewerId,
+  className,
+}: MedicationAuditLogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState(ALL_MEDICATIONS);
+  const [entries, setEntries] = useState<MedicationAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedMedicationId = medicationId ?? (filter === ALL_MEDICATIONS ? undefined : filter);
+
+  // Loaded when opened, and again when the filter changes
+  useEffect(() => {
+    if (!isOpen || !isSupabaseConfigured) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getMedicationAuditLog(patientId, { medicationId: selectedMedicationId }).then(
+      ({ entries: rows, error: fetchError }) => {
+        if (cancelled) return;
+        setEntries(rows);
+        setError(fetchError);
+        setIsLoading(false);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, patientId, selectedMedicationId]);
+
+  if (!isSupabaseConfigured) return null;
+
+  return (
+    <div className={cn("card-senior space-y-3", className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between gap-2 text-left"
+      >
+        <span className="text-senior-lg font-bold flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Change History
+        </span>
+        <ChevronDown className={cn("w-5 h-5 transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <>
+          {!medicationId && medications.length > 0 && (
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MEDICATIONS}>All medicines</SelectItem>
+                {medications.map((med) => (
+                  <SelectItem key={med.id} value={med.id}>
+                    {med.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">Couldn't load the history: {error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry) => {
+                const fields = Object.entries(entry.changes ?? {});
+                const isDose = entry.action.startsWith("dose_");
+                return (
+                  <li key={entry.id} className="p-3 rounded-xl bg-muted/50 space-y-1">
+                    <p className="text-sm">
+                      <span className="font-semibold">{actorLabel(entry, viewerId)}</span>{" "}
+                      {ACTION_LABELS[entry.action]}{" "}
+                      <span className="font-semibold">{entry.medication_name}</span>
+                      {isDose && entry.scheduled_time && ` (${entry.scheduled_time}, ${entry.scheduled_date})`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{formatWhen(entry.created_at)}</p>
+                    {entry.action === "update" && fields.length > 0 && (
+                      <ul className="text-sm space-y-0.5 pt-1">
+                        {fields.map(([field, change]) => (
+                          <li key={field}>
+                            <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}:</span>{" "}
+                            <span className="line-through text-muted-foreground">
+                              {formatValue(field, change.before)}
+                            </span>{" "}
+                            → <span className="font-medium">{formatValue(field, change.after)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {entry.action === "dose_skipped" && entry.changes?.skip_reason && (
+                      <p className="text-sm text-muted-foreground">
+                        Reason: {formatValue("skip_reason", entry.changes.skip_reason.after)}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type {
+  DailyRoutine,
   ExtractedMedicineData,
   MedicineFormData,
   MedicationCategory,
@@ -31,8 +32,18 @@ import {
   MEDICATION_CATEGORIES,
   FREQUENCY_OPTIONS,
   TIME_PERIOD_OPTIONS,
+  getTodayDateString,
 } from "../constants";
 import { fileToDataUrl } from "@/services/openai";
+import { TaperPhaseEditor } from "./TaperPhaseEditor";
+import { FrequencyPatternEditor } from "./FrequencyPatternEditor";
+import { DoseTimingPicker } from "./DoseTimingPicker";
+import {
+  buildDoseAnchors,
+  detectDoseTiming,
+  getDosesPerDoseDay,
+  isFrequencyPatternComplete,
+} from "../services/scheduleService";
 
 interface Props {
   medicine: ExtractedMedicineData;
@@ -40,6 +51,8 @@ interface Props {
   onSkip: () => void;
   currentIndex: number;
   totalCount: number;
+  /** Routine used to place meal- and bedtime-anchored doses */
+  routine: DailyRoutine;
 }
 
 export function MedicineConfirmationCard({
@@ -48,7 +61,11 @@ export function MedicineConfirmationCard({
   onSkip,
   currentIndex,
   totalCount,
+  routine,
 }: Props) {
+  // Prefill meal/bedtime timing from instructions like "30 minutes before breakfast"
+  const detectedTiming = medicine.instructions ? detectDoseTiming(medicine.instructions) : null;
+
   const [formData, setFormData] = useState<MedicineFormData>({
     name: medicine.name,
     dosage: medicine.dosage,
@@ -56,11 +73,22 @@ export function MedicineConfirmationCard({
     frequency: medicine.frequency,
     customFrequency: medicine.customFrequency,
     timePeriod: medicine.timePeriod,
+    startDate: medicine.startDate,
     instructions: medicine.instructions || "",
     startTime: "08:00",
     nextDayMode: "restart",
     imageUrl: medicine.imageUrl,
+    taperSteps: medicine.taperSteps,
+    doseAnchors: detectedTiming
+      ? buildDoseAnchors(
+          detectedTiming.timing,
+          getDosesPerDoseDay(medicine.frequency, medicine.customFrequency),
+          detectedTiming.minutes
+        )
+      : [],
+    routine,
   });
+  const isTaper = (formData.taperSteps?.length ?? 0) > 0;
 
   const [showCustomFrequency, setShowCustomFrequency] = useState(
     medicine.frequency === "custom"
@@ -409,32 +437,61 @@ export function MedicineConfirmationCard({
               />
             </div>
           )}
-        </div>
 
-        {/* Time Period */}
-        <div>
-          <label className="text-sm font-semibold text-muted-foreground mb-2 block">
-            For how long?
-          </label>
-          <Select
-            value={formData.timePeriod}
-            onValueChange={(value) =>
-              setFormData((prev) => ({ ...prev, timePeriod: value }))
-            }
-          >
-            <SelectTrigger className="h-12">
-              <SelectValue placeholder="Select duration" />
-            </SelectTrigger>
-            <SelectContent>
-              {TIME_PERIOD_OPTIONS.map((opt) => (
-                <SelectItem key={opt.value} value={opt.value}>
-                  {opt.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="mt-3">
+            <FrequencyPatternEditor
+              frequency={formData.frequency}
+              value={formData}
+              onChange={(pattern) => setFormData((prev) => ({ ...prev, ...pattern }))}
+            />
+          </div>
+
+          <div className="mt-3">
+            <DoseTimingPicker
+              frequency={formData.frequency}
+              customFrequency={formData.customFrequency}
+              value={formData.doseAnchors ?? []}
+              onChange={(doseAnchors) => setFormData((prev) => ({ ...prev, doseAnchors }))}
+              routine={routine}
+            />
+          </div>
         </div>
 
+        {/* Taper (dose changes over time) */}
+        <TaperPhaseEditor
+          steps={formData.taperSteps ?? []}
+          onChange={(taperSteps) => setFormData((prev) => ({ ...prev, taperSteps }))}
+          defaultFrequency={formData.frequency}
+          startDate={formData.startDate ?? getTodayDateString()}
+          initialDosage={formData.dosage}
+        />
+
+        {/* Time Period (a taper sets its own length) */}
+        {!isTaper && (
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-2 block">
+              For how long?
+            </label>
+            <Select
+              value={formData.timePeriod}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, timePeriod: value }))
+              }
+            >
+              <SelectTrigger className="h-12">
+                <SelectValue placeholder="Select duration" />
+              </SelectTrigger>
+              <SelectContent>
+                {TIME_PERIOD_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Instructions */}
         <div>
           <label className="text-sm font-semibold text-muted-foreground mb-2 block">
@@ -456,7 +513,11 @@ export function MedicineConfirmationCard({
           size="lg"
           className="w-full"
           onClick={handleConfirm}
-          disabled={!formData.name || !formData.dosage}
+          disabled={
+            !formData.name ||
+            !formData.dosage ||
+            !isFrequencyPatternComplete(formData.frequency, formData)
+          }
         >
           <Check className="w-5 h-5 mr-2" />
           Confirm & Set Alarm
@@ -20,14 +20,24 @@ import type {
   EnhancedMedication,
 } from "../types";
 import { MEDICATION_CATEGORIES } from "../constants";
-import { generateId, formatScheduleSummary } from "../services/scheduleService";
+import { generateId, formatScheduleSummary, getTaperSpan } from "../services/scheduleService";
 import {
   checkDrugInteractions,
   type InteractionCheckResult,
 } from "../services/interactionService";
+import {
+  checkDuplication,
+  type DuplicationCheckResult,
+} from "../services/duplicationService";
+import {
+  checkDailyDoseLimits,
+  type DailyDoseCheckResult,
+} from "../services/doseLimitService";
 import { MedicineConfirmationCard } from "./MedicineConfirmationCard";
 import { AlarmScheduler } from "./AlarmScheduler";
 import { InteractionWarningCard } from "./InteractionWarningCard";
+import { DuplicationWarningCard } from "./DuplicationWarningCard";
+import { DailyDoseWarningCard } from "./DailyDoseWarningCard";
 
 interface Props {
   extractedMedicines: ExtractedMedicineData[];
@@ -47,7 +57,7 @@ export function MedicineConfirmationFlow({
   onComplete,
   onCancel,
 }: Props) {
-  const { medications: currentMedications } = useApp();
+  const { medications: currentMedications, dailyRoutine, timeZone } = useApp();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [step, setStep] = useState<FlowStep>("confirm");
   const [processedMedicines, setProcessedMedicines] = useState<
@@ -59,27 +69,36 @@ export function MedicineConfirmationFlow({
   const [isCheckingInteractions, setIsCheckingInteractions] = useState(false);
   const [interactionResult, setInteractionResult] =
     useState<InteractionCheckResult | null>(null);
+  const [duplicationResult, setDuplicationResult] =
+    useState<DuplicationCheckResult | null>(null);
+  const [doseLimitResult, setDoseLimitResult] =
+    useState<DailyDoseCheckResult | null>(null);
 
   const currentMedicine = extractedMedicines[currentIndex];
   const totalCount = extractedMedicines.length;
   const isLastMedicine = currentIndex >= totalCount - 1;
 
-  // Handle confirmation of a medicine - now checks for interactions first
+  // Handle confirmation of a medicine - checks for interactions, duplicate
+  // ingredients and daily maximums first
   const handleConfirm = useCallback(
     async (formData: MedicineFormData) => {
       setCurrentFormData(formData);
       setIsCheckingInteractions(true);
 
       try {
-        // Check for drug interactions with current medications
-        const result = await checkDrugInteractions(
-          formData.name,
-          currentMedications
-        );
+        // Check for drug interactions, the same drug under another name and
+        // going over a daily maximum
+        const [result, duplication, doseLimits] = await Promise.all([
+          checkDrugInteractions(formData.name, currentMedications),
+          checkDuplication(formData.name, currentMedications),
+          checkDailyDoseLimits(formData, currentMedications, timeZone),
+        ]);
         setInteractionResult(result);
+        setDuplicationResult(duplication);
+        setDoseLimitResult(doseLimits);
 
-        if (result.hasInteractions) {
-          // Show interaction warning step
+        if (result.hasInteractions || duplication.hasDuplicates || doseLimits.hasWarnings) {
+          // Show warning step
           setStep("interaction-check");
         } else {
           // No interactions, proceed to scheduling
@@ -93,7 +112,7 @@ export function MedicineConfirmationFlow({
         setIsCheckingInteractions(false);
       }
     },
-    [currentMedications]
+    [currentMedications, timeZone]
   );
 
   // Handle proceeding despite interactions
@@ -105,6 +124,8 @@ export function MedicineConfirmationFlow({
   const handleBackFromInteractionWarning = useCallback(() => {
     setStep("confirm");
     setInteractionResult(null);
+    setDuplicationResult(null);
+    setDoseLimitResult(null);
   }, []);
 
   // Handle schedule set
@@ -148,31 +169,47 @@ export function MedicineConfirmationFlow({
 
   // Handle back from schedule
   const handleBackFromSchedule = useCallback(() => {
-    // If there were interactions, go back to interaction warning
-    if (interactionResult?.hasInteractions) {
+    // If there were warnings, go back to the warning step
+    if (
+      interactionResult?.hasInteractions ||
+      duplicationResult?.hasDuplicates ||
+      doseLimitResult?.hasWarnings
+    ) {
       setStep("interaction-check");
     } else {
       setStep("confirm");
       setCurrentFormData(null);
       setInteractionResult(null);
+      setDuplicationResult(null);
+      setDoseLimitResult(null);
     }
-  }, [interactionResult]);
+  }, [interactionResult, duplicationResult, doseLimitResult]);
 
   // Final save
   const handleSaveAll = useCallback(() => {
     const medications: EnhancedMedication[] = processedMedicines.map((pm) => {
       const medId = generateId();
       const scheduleId = generateId();
+      // Tapers start on the first phase and run until the last one ends
+      const phases = pm.schedule?.phases;
+      const taperSpan = phases?.length ? getTaperSpan(phases) : null;
 
       return {
         id: medId,
         userId: "", // Will be set by the context
         name: pm.formData.name,
-        dosage: pm.formData.dosage,
+        dosage: phases?.[0]?.dosage ?? pm.formData.dosage,
         category: pm.formData.category,
-        frequency: pm.formData.frequency,
-        customFrequency: pm.formData.customFrequency,
-        timePeriod: pm.formData.timePeriod,
+        frequency: pm.schedule?.frequency ?? pm.formData.frequency,
+        customFrequency: pm.schedule?.customFrequency ?? pm.formData.customFrequency,
+        daysOfWeek: pm.formData.daysOfWeek,
+        cycleDaysOn: pm.formData.cycleDaysOn,
+        cycleDaysOff: pm.formData.cycleDaysOff,
+        prnMinIntervalMinutes: pm.formData.prnMinIntervalMinutes,
+        prnMaxDailyDoses: pm.formData.prnMaxDailyDoses,
+        timePeriod: taperSpan ? String(taperSpan.totalDays) : pm.formData.timePeriod,
+        startDate: taperSpan?.startDate ?? pm.formData.startDate,
+        endDate: taperSpan?.endDate ?? pm.formData.endDate,
         instructions: pm.formData.instructions || undefined,
         imageUrl: pm.formData.imageUrl,
         schedule: {
@@ -206,7 +243,11 @@ export function MedicineConfirmationFlow({
               : step === "schedule"
               ? "Set Schedule"
               : step === "interaction-check"
-              ? "Review Interactions"
+              ? doseLimitResult?.hasWarnings
+                ? "Review Dose"
+                : interactionResult?.hasInteractions
+                ? "Review Interactions"
+                : "Review Duplicates"
               : `Medicine ${currentIndex + 1} of ${totalCount}`}
           </div>
         </div>
@@ -248,15 +289,51 @@ export function MedicineConfirmationFlow({
             onSkip={handleSkip}
             currentIndex={currentIndex}
             totalCount={totalCount}
+            routine={dailyRoutine}
           />
         )}
 
         {step === "interaction-check" &&
           currentFormData &&
-          interactionResult && (
+          duplicationResult?.hasDuplicates && (
+            <DuplicationWarningCard
+              newMedicineName={currentFormData.name}
+              ingredients={duplicationResult.ingredients}
+              duplicates={duplicationResult.duplicates}
+              // The last card shown carries the actions
+              onProceedAnyway={
+                interactionResult?.hasInteractions || doseLimitResult?.hasWarnings
+                  ? undefined
+                  : handleProceedDespiteInteractions
+              }
+              onGoBack={
+                interactionResult?.hasInteractions || doseLimitResult?.hasWarnings
+                  ? undefined
+                  : handleBackFromInteractionWarning
+              }
+            />
+          )}
+
+        {step === "interaction-check" &&
+          currentFormData &&
+          interactionResult?.hasInteractions && (
             <InteractionWarningCard
               newMedicineName={currentFormData.name}
               interactions={interactionResult.interactions}
+              onProceedAnyway={
+                doseLimitResult?.hasWarnings ? undefined : handleProceedDespiteInteractions
+              }
+              onGoBack={
+                doseLimitResult?.hasWarnings ? undefined : handleBackFromInteractionWarning
+              }
+            />
+          )}
+
+        {step === "interaction-check" &&
+          currentFormData &&
+          doseLimitResult?.hasWarnings && (
+            <DailyDoseWarningCard
+              warnings={doseLimitResult.warnings}
               onProceedAnyway={handleProceedDespiteInteractions}
               onGoBack={handleBackFromInteractionWarning}
             />
@@ -302,7 +379,8 @@ export function MedicineConfirmationFlow({
                         {pm.formData.dosage} •{" "}
                         {pm.schedule
                           ? formatScheduleSummary(
-                              pm.schedule as MedicationSchedule
+                              pm.schedule as MedicationSchedule,
+                              pm.formData
                             )
                           : ""}
                       </div>
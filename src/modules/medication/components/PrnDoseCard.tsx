@@ -0,0 +1,195 @@
+// ============================================
+// As-Needed (PRN) Dose Card
+// Log an as-needed dose and see when the next one is allowed
+// ============================================
+
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Ban, Check, Clock, Loader2, Pill, Plus, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import type { Medication } from "@/types";
+import type { PrnDoseLog } from "@/types/database";
+import {
+  checkPrnDose,
+  formatPrnLimits,
+  formatPrnTime,
+  type PrnDoseCheck,
+} from "../services/scheduleService";
+
+interface PrnDoseCardProps {
+  medication: Medication;
+  /** This medication's doses from (at least) the last 24 hours */
+  logs: PrnDoseLog[];
+  /** Patient's time zone, for the times shown */
+  timeZone?: string;
+  /** Save a dose; force logs it even when the minimum gap hasn't passed */
+  onLog: (options: {
+    notes?: string;
+    force?: boolean;
+  }) => Promise<{ check: PrnDoseCheck | null; error: string | null }>;
+  /** Remove a dose logged by mistake */
+  onUndo?: (logId: string) => Promise<{ error: string | null }>;
+}
+
+export function PrnDoseCard({ medication, logs, timeZone, onLog, onUndo }: PrnDoseCardProps) {
+  const [now, setNow] = useState(() => new Date());
+  const [notes, setNotes] = useState("");
+  const [confirmEarly, setConfirmEarly] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Keep "next dose" up to date while the card is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const check = checkPrnDose(medication, logs, now);
+  const recentLogs = logs
+    .filter((log) => now.getTime() - new Date(log.taken_at).getTime() < 24 * 60 * 60 * 1000)
+    .sort((a, b) => b.taken_at.localeCompare(a.taken_at));
+
+  // The early-dose warning only applies to the gap it was shown for
+  useEffect(() => {
+    if (check.status !== "too_soon") setConfirmEarly(false);
+  }, [check.status]);
+
+  const handleLog = async (force = false) => {
+    if (check.status === "too_soon" && !force) {
+      setConfirmEarly(true);
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await onLog({ notes: notes.trim() || undefined, force });
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Couldn't log dose", description: error, variant: "destructive" });
+      return;
+    }
+
+    setNotes("");
+    setConfirmEarly(false);
+    toast({
+      title: "Dose logged ✓",
+      description: `${medication.name} at ${formatPrnTime(new Date(), timeZone)}`,
+    });
+  };
+
+  const handleUndo = async (log: PrnDoseLog) => {
+    if (!onUndo) return;
+    const { error } = await onUndo(log.id);
+    if (error) {
+      toast({ title: "Couldn't undo", description: error, variant: "destructive" });
+    }
+  };
+
+  const nextAllowed = check.nextAllowedAt ? formatPrnTime(check.nextAllowedAt, timeZone, now) : null;
+
+  return (
+    <div className="rounded-2xl border-2 border-border bg-card p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center flex-shrink-0">
+          <Pill className="w-5 h-5 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-semibold truncate">{medication.name}</h4>
+          <p className="text-sm text-muted-foreground truncate">
+            {medication.dosage} · {formatPrnLimits(medication)}
+          </p>
+        </div>
+      </div>
+
+      {/* Where the limits stand */}
+      <div className="text-sm space-y-1">
+        <p className="text-muted-foreground">
+          {check.lastTakenAt
+            ? `Last taken ${formatPrnTime(check.lastTakenAt, timeZone, now)}`
+            : "Not taken in the last 24 hours"}
+          {medication.prnMaxDailyDoses
+            ? ` · ${check.dosesLast24h} of ${medication.prnMaxDailyDoses} in 24 hrs`
+            : check.dosesLast24h > 0
+              ? ` · ${check.dosesLast24h} in 24 hrs`
+              : ""}
+        </p>
+        {check.status === "ok" && (
+          <p className="flex items-center gap-1.5 text-green-600 font-medium">
+            <Check className="w-4 h-4" />
+            Can be taken now
+          </p>
+        )}
+        {check.status === "too_soon" && (
+          <p className="flex items-center gap-1.5 text-amber-600 font-medium">
+            <Clock className="w-4 h-4" />
+            Next dose allowed at {nextAllowed}
+          </p>
+        )}
+        {check.status === "daily_max" && (
+          <p className="flex items-center gap-1.5 text-destructive font-medium">
+            <Ban className="w-4 h-4" />
+            24-hour limit reached · next dose at {nextAllowed}
+          </p>
+        )}
+      </div>
+
+      {confirmEarly ? (
+        <div className="rounded-xl bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 p-3 space-y-2">
+          <p className="flex items-start gap-2 text-sm">
+            <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+            It's sooner than the minimum gap. Only take it now if your doctor said it's okay.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setConfirmEarly(false)} disabled={isSaving}>
+              Wait
+            </Button>
+            <Button size="sm" onClick={() => handleLog(true)} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : null}
+              Log anyway
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Reason (optional), e.g. headache"
+            className="h-10"
+            disabled={check.status === "daily_max"}
+          />
+          <Button
+            onClick={() => handleLog()}
+            disabled={isSaving || check.status === "daily_max"}
+            className="h-10 flex-shrink-0"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+            Log dose
+          </Button>
+        </div>
+      )}
+
+      {/* Last 24 hours */}
+      {recentLogs.length > 0 && (
+        <ul className="space-y-1 border-t border-border pt-2">
+          {recentLogs.map((log) => (
+            <li key={log.id} className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{formatPrnTime(new Date(log.taken_at), timeZone, now)}</span>
+              {log.notes && <span className="text-muted-foreground truncate">· {log.notes}</span>}
+              {onUndo && (
+                <button
+                  type="button"
+                  onClick={() => handleUndo(log)}
+                  className="ml-auto p-1 rounded text-muted-foreground hover:text-foreground"
+                  aria-label="Undo this dose"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
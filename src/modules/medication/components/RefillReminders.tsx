@@ -3,7 +3,7 @@
 // Shows prescriptions that need to be refilled soon
 // ============================================
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { 
   AlertTriangle, 
   Calendar, 
@@ -12,10 +12,12 @@ import {
   Bell,
   ExternalLink,
   ChevronRight,
+  PackagePlus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useApp } from "@/contexts/AppContext";
 import { getRefillReminders, type RefillReminder } from "../services/analyticsService";
+import { LogRefillDialog } from "./LogRefillDialog";
 import { CATEGORY_COLORS, CATEGORY_LABELS } from "@/types";
 import type { MedicationCategory } from "@/types";
 
@@ -33,7 +35,9 @@ export function RefillReminders({
   compact = false,
   onReminderClick,
 }: RefillRemindersProps) {
-  const { medications } = useApp();
+  const { medications, logMedicationRefill } = useApp();
+  const [refillMedicationId, setRefillMedicationId] = useState<string | null>(null);
+  const refillMedication = medications.find((m) => m.id === refillMedicationId) ?? null;
   
   const reminders = useMemo(() => {
     return getRefillReminders(medications).slice(0, maxItems);
@@ -73,13 +77,15 @@ export function RefillReminders({
     }
   };
   
-  const getUrgencyLabel = (urgency: RefillReminder["urgency"], daysRemaining: number) => {
-    if (daysRemaining === 0) return "Ends today!";
-    if (daysRemaining === 1) return "Ends tomorrow";
-    return `${daysRemaining} days left`;
+  const getUrgencyLabel = (reminder: RefillReminder) => {
+    const verb = reminder.reason === "low_stock" ? "Runs out" : "Ends";
+    if (reminder.daysRemaining === 0) return `${verb} today!`;
+    if (reminder.daysRemaining === 1) return `${verb} tomorrow`;
+    return `${reminder.daysRemaining} days left`;
   };
   
   const criticalCount = reminders.filter(r => r.urgency === "critical").length;
+  const lowStockCount = reminders.filter(r => r.reason === "low_stock").length;
   
   if (compact) {
     return (
@@ -126,7 +132,7 @@ export function RefillReminders({
             <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
             <div>
               <p className="font-semibold text-red-700 dark:text-red-400">
-                {criticalCount} prescription{criticalCount > 1 ? "s" : ""} ending very soon!
+                {criticalCount} medication{criticalCount > 1 ? "s" : ""} running out very soon!
               </p>
               <p className="text-sm text-red-600 dark:text-red-500 mt-1">
                 Contact your doctor or pharmacy immediately to arrange refills.
@@ -162,20 +168,46 @@ export function RefillReminders({
                       {CATEGORY_LABELS[category]}
                     </span>
                   </div>
-                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                    <span className="flex items-center gap-1">
-                      <Calendar className="w-4 h-4" />
-                      Ends: {new Date(reminder.endDate).toLocaleDateString()}
-                    </span>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground flex-wrap">
+                    {reminder.reason === "low_stock" ? (
+                      <>
+                        <span className="flex items-center gap-1">
+                          <Pill className="w-4 h-4" />
+                          {reminder.pillsRemaining} left
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-4 h-4" />
+                          Runs out: {new Date(`${reminder.endDate}T00:00:00`).toLocaleDateString()}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-4 h-4" />
+                        Ends: {new Date(reminder.endDate).toLocaleDateString()}
+                      </span>
+                    )}
                   </div>
                 </div>
                 
                 {/* Days Badge */}
-                <div className="text-right shrink-0">
+                <div className="text-right shrink-0 flex flex-col items-end gap-2">
                   <span className={`inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-sm font-semibold ${styles.badge}`}>
                     <Clock className="w-4 h-4" />
-                    {getUrgencyLabel(reminder.urgency, reminder.daysRemaining)}
+                    {getUrgencyLabel(reminder)}
                   </span>
+                  {reminder.reason === "low_stock" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setRefillMedicationId(reminder.medicationId);
+                      }}
+                    >
+                      <PackagePlus className="w-4 h-4 mr-1" />
+                      Log refill
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -194,10 +226,20 @@ export function RefillReminders({
             <p className="text-xs text-muted-foreground mt-1">
               Contact your doctor at least 3-5 days before your prescription ends to ensure continuous coverage.
               For maintenance medications, consider asking about 90-day supplies.
+              {lowStockCount > 0 && " Log each purchase so your supply forecast stays accurate."}
             </p>
           </div>
         </div>
       </div>
+      
+      <LogRefillDialog
+        medication={refillMedication}
+        isOpen={!!refillMedication}
+        onClose={() => setRefillMedicationId(null)}
+        onSubmit={(quantity, notes) =>
+          logMedicationRefill(refillMedication!.id, quantity, notes)
+        }
+      />
     </div>
   );
 }
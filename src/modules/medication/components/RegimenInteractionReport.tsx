@@ -0,0 +1,224 @@
+// ============================================
+// Regimen Interaction Report
+// Checks every pair of current medications (not only a medicine being
+// added) and every medication against foods; re-runs when the list changes
+// ============================================
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  AlertOctagon,
+  AlertTriangle,
+  Info,
+  Loader2,
+  ShieldCheck,
+  Stethoscope,
+  Utensils,
+} from "lucide-react";
+import { getFoodInteractionsForMedications } from "@/services/drugFoodInteractions";
+import type { Medication } from "@/types";
+import {
+  findRegimenInteractions,
+  getSeverityColor,
+  type InteractionSeverity,
+  type RegimenInteraction,
+} from "../services/interactionService";
+
+interface RegimenInteractionReportProps {
+  medications: Medication[];
+  /** Set on a companion's view */
+  patientName?: string;
+}
+
+const SEVERITIES: { value: InteractionSeverity; label: string; icon: typeof Info }[] = [
+  { value: "Major", label: "Serious", icon: AlertOctagon },
+  { value: "Moderate", label: "Use with care", icon: AlertTriangle },
+  { value: "Minor", label: "Minor", icon: Info },
+];
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join("|");
+}
+
+export function RegimenInteractionReport({ medications, patientName }: RegimenInteractionReportProps) {
+  const [interactions, setInteractions] = useState<RegimenInteraction[]>([]);
+  const [foodInteractions, setFoodInteractions] = useState<[string, string[]][]>([]);
+  const [isChecking, setIsChecking] = useState(true);
+
+  const active = medications.filter((med) => med.isActive !== false);
+  // Re-check whenever a medication is added, renamed or removed
+  const namesKey = JSON.stringify(active.map((med) => med.name));
+  const regimen = useMemo(
+    () => (JSON.parse(namesKey) as string[]).map((name) => ({ name })),
+    [namesKey]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsChecking(true);
+    Promise.all([findRegimenInteractions(regimen), getFoodInteractionsForMedications(regimen)])
+      .then(([drug, food]) => {
+        if (cancelled) return;
+        setInteractions(drug);
+        setFoodInteractions([...food.entries()]);
+      })
+      .catch((error) => console.error("Error checking regimen interactions:", error))
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [regimen]);
+
+  if (active.length === 0) {
+    return (
+      <div className="card-senior text-center text-muted-foreground">
+        No medicines to check yet.
+      </div>
+    );
+  }
+
+  if (isChecking) {
+    return (
+      <div className="card-senior flex flex-col items-center py-12">
+        <Loader2 className="w-10 h-10 text-primary animate-spin mb-3" />
+        <p className="text-muted-foreground">Checking {active.length} medicines against each other...</p>
+      </div>
+    );
+  }
+
+  // Worst severity for each pair, for the matrix
+  const worstByPair = new Map<string, InteractionSeverity>();
+  for (const interaction of interactions) {
+    const key = pairKey(...interaction.medications);
+    if (!worstByPair.has(key)) worstByPair.set(key, interaction.severity); // Sorted worst first
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="card-senior flex items-start gap-3">
+        {interactions.length === 0 ? (
+          <ShieldCheck className="w-8 h-8 text-green-600 shrink-0" />
+        ) : (
+          <AlertTriangle className="w-8 h-8 text-amber-600 shrink-0" />
+        )}
+        <div>
+          <p className="text-senior-base font-bold">
+            {interactions.length === 0
+              ? "No known interactions between these medicines"
+              : `${interactions.length} interaction${interactions.length === 1 ? "" : "s"} found`}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            All {active.length} of {patientName ? `${patientName}'s` : "your"} current medicines, checked
+            in pairs. This is a guide only; ask a doctor or pharmacist before changing anything.
+          </p>
+        </div>
+      </div>
+
+      {/* Matrix */}
+      {active.length > 1 && (
+        <div className="card-senior space-y-3">
+          <h2 className="text-senior-lg font-bold">Interaction Chart</h2>
+          <div className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th />
+                  {active.map((med) => (
+                    <th key={med.id} className="p-2 font-semibold text-left align-bottom max-w-[8rem] truncate">
+                      {med.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {active.map((row) => (
+                  <tr key={row.id}>
+                    <th className="p-2 font-semibold text-left whitespace-nowrap">{row.name}</th>
+                    {active.map((col) => {
+                      if (row.id === col.id) {
+                        return <td key={col.id} className="p-2 border border-border bg-muted" />;
+                      }
+                      const severity = worstByPair.get(pairKey(row.name, col.name));
+                      const colors = severity ? getSeverityColor(severity) : null;
+                      return (
+                        <td
+                          key={col.id}
+                          className={`p-2 border border-border text-center font-semibold ${
+                            colors ? `${colors.bg} ${colors.text}` : "text-muted-foreground"
+                          }`}
+                        >
+                          {severity ? SEVERITIES.find((s) => s.value === severity)?.label : "—"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Details by severity */}
+      {SEVERITIES.map(({ value, label, icon: Icon }) => {
+        const group = interactions.filter((interaction) => interaction.severity === value);
+        if (group.length === 0) return null;
+        const colors = getSeverityColor(value);
+
+        return (
+          <section key={value} className="space-y-3">
+            <h2 className={`text-senior-lg font-bold flex items-center gap-2 ${colors.text}`}>
+              <Icon className={`w-5 h-5 ${colors.icon}`} />
+              {label} ({group.length})
+            </h2>
+            {group.map((interaction, index) => (
+              <div
+                key={`${interaction.medications.join("-")}-${index}`}
+                className={`rounded-2xl border-2 p-4 space-y-2 ${colors.border} ${colors.bg}`}
+              >
+                <p className="font-bold">
+                  {interaction.medications[0]} + {interaction.medications[1]}
+                </p>
+                <p className="text-sm">{interaction.clinicalEffect}</p>
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-semibold">How it happens:</span> {interaction.mechanism}
+                </p>
+                {interaction.saferAlternative && (
+                  <p className="text-sm flex items-start gap-2">
+                    <Stethoscope className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+                    <span>
+                      <span className="font-semibold">Safer alternative to ask about:</span>{" "}
+                      {interaction.saferAlternative}
+                    </span>
+                  </p>
+                )}
+              </div>
+            ))}
+          </section>
+        );
+      })}
+
+      {/* Food */}
+      {foodInteractions.length > 0 && (
+        <section className="card-senior space-y-3">
+          <h2 className="text-senior-lg font-bold flex items-center gap-2">
+            <Utensils className="w-5 h-5 text-primary" />
+            Food and Drink
+          </h2>
+          {foodInteractions.map(([medicationName, advice]) => (
+            <div key={medicationName}>
+              <p className="font-semibold">{medicationName}</p>
+              <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                {advice.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+// ============================================
+// Schedule Optimizer Card
+// Proposes new dose times for the whole regimen and shows them as a
+// before/after list to review before anything is changed
+// ============================================
+
+import React, { useState } from "react";
+import { AlertTriangle, ArrowRight, CheckCircle2, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import type { Medication } from "@/types";
+import type { DailyRoutine } from "../types";
+import { formatTime12Hour } from "../services/scheduleService";
+import {
+  optimizeSchedule,
+  type ScheduleChange,
+  type ScheduleProposal,
+  type SeparationConflict,
+} from "../services/scheduleOptimizerService";
+
+interface ScheduleOptimizerCardProps {
+  medications: Medication[];
+  routine: DailyRoutine;
+  /** Set on a companion's view */
+  patientName?: string;
+  onApply: (changes: ScheduleChange[]) => Promise<{ error: string | null }>;
+}
+
+function ConflictList({ conflicts }: { conflicts: SeparationConflict[] }) {
+  return (
+    <ul className="space-y-1">
+      {conflicts.map((conflict) => (
+        <li key={conflict.medications.join("|")} className="text-sm flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-600" />
+          <span>
+            <span className="font-semibold">
+              {conflict.medications[0]} and {conflict.medications[1]}
+            </span>{" "}
+            — {conflict.reason}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ScheduleOptimizerCard({
+  medications,
+  routine,
+  patientName,
+  onApply,
+}: ScheduleOptimizerCardProps) {
+  const [proposal, setProposal] = useState<ScheduleProposal | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleOptimize = async () => {
+    setIsOptimizing(true);
+    try {
+      const result = await optimizeSchedule(medications, routine);
+      if (!result.hasChanges) {
+        toast({
+          title: "Schedule already works well",
+          description:
+            result.conflictsAfter.length > 0
+              ? "Some medicines still need a doctor's advice on timing."
+              : "No better dose times were found.",
+        });
+        return;
+      }
+      setProposal(result);
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!proposal) return;
+    setIsApplying(true);
+    try {
+      const { error } = await onApply(proposal.changes.filter((change) => change.changed));
+      if (error) {
+        toast({ title: "Couldn't update the schedule", description: error, variant: "destructive" });
+        return;
+      }
+      toast({ title: "Schedule updated ✓", description: "Reminders will follow the new times." });
+      setProposal(null);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const scheduled = medications.filter((med) => med.isActive !== false && med.frequency !== "as_needed");
+  if (scheduled.length < 2) return null;
+
+  return (
+    <div className="card-senior space-y-3">
+      <h3 className="text-senior-lg font-bold flex items-center gap-2">
+        <Sparkles className="w-5 h-5 text-primary" />
+        Simplify Dose Times
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Find times that keep medicines that shouldn't be taken together apart, with fewer pill times
+        in {patientName ? `${patientName}'s` : "your"} day. Nothing changes until you approve it.
+      </p>
+      <Button onClick={handleOptimize} disabled={isOptimizing}>
+        {isOptimizing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+        Suggest a schedule
+      </Button>
+
+      <Dialog open={!!proposal} onOpenChange={(open) => !open && setProposal(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Suggested Schedule</DialogTitle>
+            <DialogDescription>
+              {proposal &&
+                `${proposal.timesBefore} pill time${proposal.timesBefore === 1 ? "" : "s"} a day → ${
+                  proposal.timesAfter
+                }`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {proposal && (
+            <div className="space-y-4">
+              <ul className="space-y-2">
+                {proposal.changes.map((change) => (
+                  <li
+                    key={change.medicationId}
+                    className={`p-3 rounded-xl ${change.changed ? "bg-primary/5 border border-primary/20" : "bg-muted/50"}`}
+                  >
+                    <p className="font-semibold">
+                      {change.medicationName}
+                      {change.fixed && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">Follows meals/routine</span>
+                      )}
+                    </p>
+                    {change.changed ? (
+                      <p className="text-sm flex flex-wrap items-center gap-2">
+                        <span className="line-through text-muted-foreground">
+                          {change.before.map(formatTime12Hour).join(", ")}
+                        </span>
+                        <ArrowRight className="w-4 h-4" />
+                        <span className="font-semibold text-primary">
+                          {change.after.map(formatTime12Hour).join(", ")}
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        {change.before.map(formatTime12Hour).join(", ")} (no change)
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {proposal.conflictsBefore.length > proposal.conflictsAfter.length && (
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold flex items-center gap-2 text-green-700">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Now kept apart
+                  </p>
+                  <ConflictList
+                    conflicts={proposal.conflictsBefore.filter(
+                      (before) =>
+                        !proposal.conflictsAfter.some(
+                          (after) => after.medications.join("|") === before.medications.join("|")
+                        )
+                    )}
+                  />
+                </div>
+              )}
+
+              {proposal.conflictsAfter.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold">Still too close — ask a doctor or pharmacist</p>
+                  <ConflictList conflicts={proposal.conflictsAfter} />
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProposal(null)}>
+              Keep current times
+            </Button>
+            <Button onClick={handleApply} disabled={isApplying}>
+              {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Apply new times
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
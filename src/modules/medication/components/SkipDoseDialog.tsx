@@ -0,0 +1,159 @@
+// ============================================
+// Skip Dose Dialog
+// Mark a dose skipped with a reason, or leave a note on a dose
+// ============================================
+
+import React, { useEffect, useState } from "react";
+import { Loader2, SkipForward, StickyNote } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import type { SkipReason } from "../types";
+import { SKIP_REASON_OPTIONS } from "../constants";
+
+interface SkipDoseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** "skip" asks for a reason; "note" only edits the dose note */
+  mode: "skip" | "note";
+  medicationName: string;
+  /** e.g., "Morning · 8:00 AM" */
+  doseDescription?: string;
+  initialReason?: SkipReason;
+  initialNote?: string;
+  /** Persist the change (patient context or companion service) */
+  onSubmit: (reason: SkipReason | null, note: string) => Promise<{ error: string | null }>;
+}
+
+export function SkipDoseDialog({
+  isOpen,
+  onClose,
+  mode,
+  medicationName,
+  doseDescription,
+  initialReason,
+  initialNote,
+  onSubmit,
+}: SkipDoseDialogProps) {
+  const [reason, setReason] = useState<SkipReason | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason(initialReason ?? null);
+      setNote(initialNote ?? "");
+    }
+  }, [isOpen, initialReason, initialNote]);
+
+  const isSkip = mode === "skip";
+  const isValid = !isSkip || reason !== null;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    const { error } = await onSubmit(isSkip ? reason : null, note);
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: isSkip ? "Couldn't skip dose" : "Couldn't save note",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: isSkip ? "Dose skipped" : "Note saved ✓",
+      description: isSkip
+        ? `${medicationName} won't count as missed.`
+        : `Added to today's ${medicationName} dose.`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isSkip ? (
+              <SkipForward className="w-5 h-5 text-primary" />
+            ) : (
+              <StickyNote className="w-5 h-5 text-primary" />
+            )}
+            {isSkip ? "Skip Dose" : "Dose Note"}
+          </DialogTitle>
+          <DialogDescription>
+            {medicationName}
+            {doseDescription ? ` · ${doseDescription}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isSkip && (
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-2 block">
+                Why is this dose skipped?
+              </label>
+              <div className="grid grid-cols-1 gap-2">
+                {SKIP_REASON_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setReason(option.value)}
+                    aria-pressed={reason === option.value}
+                    className={`flex items-center gap-3 p-3 rounded-xl border-2 text-left transition-colors ${
+                      reason === option.value
+                        ? "border-primary bg-primary/10"
+                        : "border-border hover:bg-muted/50"
+                    }`}
+                  >
+                    <span className="text-xl">{option.icon}</span>
+                    <span className="font-medium">{option.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-2 block">
+              {isSkip ? "Notes (optional)" : "Note"}
+            </label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={
+                isSkip
+                  ? "e.g., Vomited after breakfast, will ask the doctor"
+                  : "e.g., Took with a full glass of water, felt dizzy after"
+              }
+              rows={3}
+              autoFocus={!isSkip}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+            {isSkip ? "Skip Dose" : "Save Note"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+// ============================================
+// Taper Phase Editor
+// Enter a step-dose regimen (e.g., 40mg for 3 days, then 30mg...)
+// ============================================
+
+import React from "react";
+import { Plus, Trash2, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FrequencyType, TaperStep } from "../types";
+import { FREQUENCY_OPTIONS } from "../constants";
+import { buildDosePhases } from "../services/scheduleService";
+
+interface TaperPhaseEditorProps {
+  steps: TaperStep[];
+  onChange: (steps: TaperStep[]) => void;
+  /** Frequency used for new steps and steps without their own */
+  defaultFrequency: FrequencyType;
+  /** First day of the taper, used to preview each step's dates */
+  startDate: string;
+  /** Dosage to prefill when the taper is first turned on */
+  initialDosage?: string;
+}
+
+// Custom, weekday and cycle schedules need settings that steps don't capture
+const STEP_FREQUENCY_OPTIONS = FREQUENCY_OPTIONS.filter(
+  (opt) => !["custom", "specific_days", "cycle"].includes(opt.value)
+);
+
+function formatShortDate(dateStr: string): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function TaperPhaseEditor({
+  steps,
+  onChange,
+  defaultFrequency,
+  startDate,
+  initialDosage = "",
+}: TaperPhaseEditorProps) {
+  const isTaper = steps.length > 0;
+  const stepFrequency = STEP_FREQUENCY_OPTIONS.some((opt) => opt.value === defaultFrequency)
+    ? defaultFrequency
+    : "once_daily";
+  const phases = buildDosePhases(steps, startDate, stepFrequency);
+  const totalDays = steps.reduce((sum, step) => sum + (step.days > 0 ? step.days : 0), 0);
+
+  const updateStep = (index: number, changes: Partial<TaperStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    const last = steps[steps.length - 1];
+    onChange([...steps, { dosage: "", days: last?.days ?? 3, frequency: last?.frequency }]);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  if (!isTaper) {
+    return (
+      <button
+        type="button"
+        onClick={() =>
+          onChange([
+            { dosage: initialDosage, days: 3 },
+            { dosage: "", days: 3 },
+          ])
+        }
+        className="w-full flex items-center gap-2 p-3 rounded-xl border border-dashed border-border text-sm text-muted-foreground hover:bg-muted/50"
+      >
+        <TrendingDown className="w-4 h-4" />
+        Dose changes over time? Set up a taper
+      </button>
+    );
+  }
+
+  // Map each entered step to its preview dates (skipping incomplete ones)
+  let phaseIndex = 0;
+  const stepDates = steps.map((step) => {
+    if (!step.dosage.trim() || step.days <= 0) return null;
+    return phases[phaseIndex++] ?? null;
+  });
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl border border-border bg-muted/30">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold flex items-center gap-2">
+          <TrendingDown className="w-4 h-4 text-primary" />
+          Taper schedule
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-muted-foreground hover:underline"
+        >
+          Remove taper
+        </button>
+      </div>
+
+      {steps.map((step, index) => {
+        const phase = stepDates[index];
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold text-muted-foreground w-5">
+                {index + 1}.
+              </span>
+              <Input
+                value={step.dosage}
+                onChange={(e) => updateStep(index, { dosage: e.target.value })}
+                placeholder="e.g., 40mg"
+                className="h-10 flex-1"
+              />
+              <Input
+                type="number"
+                inputMode="numeric"
+                min={1}
+                value={step.days || ""}
+                onChange={(e) => updateStep(index, { days: parseInt(e.target.value) || 0 })}
+                className="h-10 w-16"
+                aria-label="Days"
+              />
+              <span className="text-xs text-muted-foreground">days</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => removeStep(index)}
+                disabled={steps.length <= 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2 pl-7">
+              <Select
+                value={step.frequency ?? stepFrequency}
+                onValueChange={(value) => updateStep(index, { frequency: value as FrequencyType })}
+              >
+                <SelectTrigger className="h-8 text-xs flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STEP_FREQUENCY_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {phase && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatShortDate(phase.startDate)} – {formatShortDate(phase.endDate)}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addStep}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add step
+        </Button>
+        <span className="text-xs text-muted-foreground">{totalDays} days total</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+// ============================================
+// Visit Report Card
+// Builds a printable medication report for a doctor's visit; the browser's
+// print dialog also saves it as a PDF
+// ============================================
+
+import React, { useState } from "react";
+import { createPortal } from "react-dom";
+import { FileText, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { getDoseHistory } from "@/services/supabase";
+import { getLanguageOptions, LANGUAGES, type SupportedLanguage } from "@/services/language";
+import type { Medication } from "@/types";
+import { addDaysToDateString, toDateStringInTimeZone } from "../services/scheduleService";
+import { buildVisitReport, formatReportDate, type VisitReport } from "../services/reportService";
+
+// Default report range: the last 30 days
+const DEFAULT_REPORT_DAYS = 30;
+
+interface VisitReportCardProps {
+  medications: Medication[];
+  /** Removed medications, so adherence covers ones stopped during the range */
+  loadPastMedications?: () => Promise<Medication[]>;
+  patientId: string;
+  patientName: string;
+  timeZone?: string;
+  /** The patient's chosen language; the report can be switched before printing */
+  language?: string | null;
+}
+
+/**
+ * The report itself, shown in the preview and printed
+ */
+function VisitReportDocument({ report }: { report: VisitReport }) {
+  const { labels, language } = report;
+  const formatDate = (date: string) => formatReportDate(date, language);
+
+  return (
+    <div className="space-y-6 text-sm text-foreground">
+      <header className="border-b border-border pb-3">
+        <h1 className="text-2xl font-bold">{labels.title}</h1>
+        <p>
+          <span className="font-semibold">{labels.patient}:</span> {report.patientName}
+        </p>
+        <p>
+          <span className="font-semibold">{labels.period}:</span> {formatDate(report.from)} –{" "}
+          {formatDate(report.to)}
+        </p>
+        <p className="text-muted-foreground">
+          {labels.printed}: {formatDate(report.printedAt.slice(0, 10))}
+        </p>
+      </header>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-bold">{labels.currentMedications}</h2>
+        <table className="w-full border-collapse text-left">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="py-1 pr-2">{labels.medicine}</th>
+              <th className="py-1 pr-2">{labels.dosage}</th>
+              <th className="py-1 pr-2">{labels.schedule}</th>
+              <th className="py-1 pr-2">{labels.dates}</th>
+              <th className="py-1">{labels.instructions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.medications.map((med) => (
+              <tr key={med.id} className="border-b border-border align-top">
+                <td className="py-1 pr-2">
+                  <span className="font-semibold">{med.name}</span>
+                  {med.genericName && (
+                    <span className="block text-muted-foreground">
+                      {labels.genericName}: {med.genericName}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 pr-2">{med.dosage}</td>
+                <td className="py-1 pr-2">{med.schedule}</td>
+                <td className="py-1 pr-2">
+                  {med.startDate ? formatDate(med.startDate) : "—"} –{" "}
+                  {med.endDate ? formatDate(med.endDate) : labels.ongoing}
+                </td>
+                <td className="py-1">{med.instructions || "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-bold">
+          {labels.adherence}
+          {report.overallAdherence !== null && ` — ${labels.overall}: ${report.overallAdherence}%`}
+        </h2>
+        {report.adherence.length === 0 ? (
+          <p>{labels.noDosesDue}</p>
+        ) : (
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="py-1 pr-2">{labels.medicine}</th>
+                <th className="py-1 pr-2">{labels.taken}</th>
+                <th className="py-1 pr-2">{labels.missed}</th>
+                <th className="py-1 pr-2">{labels.skipped}</th>
+                <th className="py-1">{labels.adherence}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.adherence.map((row) => (
+                <tr key={row.medicationId} className="border-b border-border">
+                  <td className="py-1 pr-2">{row.medicationName}</td>
+                  <td className="py-1 pr-2">
+                    {row.taken}/{row.scheduled}
+                  </td>
+                  <td className="py-1 pr-2">{row.missed}</td>
+                  <td className="py-1 pr-2">{row.skipped}</td>
+                  <td className="py-1 font-semibold">{row.scheduled > 0 ? `${row.adherenceRate}%` : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-bold">{labels.missedDoses}</h2>
+        {report.doses.length === 0 ? (
+          <p>{labels.noMissedDoses}</p>
+        ) : (
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="py-1 pr-2">{labels.date}</th>
+                <th className="py-1 pr-2">{labels.time}</th>
+                <th className="py-1 pr-2">{labels.medicine}</th>
+                <th className="py-1 pr-2" />
+                <th className="py-1">{labels.reason}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.doses.map((dose, index) => (
+                <tr key={`${dose.date}-${dose.time}-${index}`} className="border-b border-border">
+                  <td className="py-1 pr-2">{formatDate(dose.date)}</td>
+                  <td className="py-1 pr-2">{dose.time}</td>
+                  <td className="py-1 pr-2">{dose.medicationName}</td>
+                  <td className="py-1 pr-2">{dose.status === "skipped" ? labels.skipped : labels.missed}</td>
+                  <td className="py-1">{[dose.reason, dose.note].filter(Boolean).join(" — ") || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-bold">{labels.drugInteractions}</h2>
+        {report.drugInteractions.length === 0 ? (
+          <p>{labels.noInteractions}</p>
+        ) : (
+          <ul className="space-y-2">
+            {report.drugInteractions.map((interaction, index) => (
+              <li key={`${interaction.medications.join("-")}-${index}`}>
+                <p className="font-semibold">
+                  {interaction.medications[0]} + {interaction.medications[1]} (
+                  {labels.severity[interaction.severity]})
+                </p>
+                <p>{interaction.clinicalEffect}</p>
+                {interaction.saferAlternative && (
+                  <p className="text-muted-foreground">
+                    {labels.saferAlternative}: {interaction.saferAlternative}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-bold">{labels.foodInteractions}</h2>
+        {report.foodInteractions.length === 0 ? (
+          <p>{labels.noInteractions}</p>
+        ) : (
+          <ul className="space-y-2">
+            {report.foodInteractions.map((food) => (
+              <li key={food.medicationName}>
+                <p className="font-semibold">{food.medicationName}</p>
+                <ul className="list-disc pl-5">
+                  {food.advice.map((advice) => (
+                    <li key={advice}>{advice}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <footer className="border-t border-border pt-3 text-xs text-muted-foreground">{labels.footer}</footer>
+    </div>
+  );
+}
+
+export function VisitReportCard({
+  medications,
+  loadPastMedications,
+  patientId,
+  patientName,
+  timeZone,
+  language,
+}: VisitReportCardProps) {
+  const today = toDateStringInTimeZone(timeZone);
+  const [from, setFrom] = useState(addDaysToDateString(today, -(DEFAULT_REPORT_DAYS - 1)));
+  const [to, setTo] = useState(today);
+  const [reportLanguage, setReportLanguage] = useState<SupportedLanguage>(
+    language && language in LANGUAGES ? (language as SupportedLanguage) : "en"
+  );
+  const [report, setReport] = useState<VisitReport | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    if (!from || !to || from > to) {
+      toast({ title: "Check the dates", description: "The start date must be before the end date.", variant: "destructive" });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const [{ history, error }, pastMedications] = await Promise.all([
+        getDoseHistory(patientId, { from, to }),
+        loadPastMedications ? loadPastMedications() : Promise.resolve([]),
+      ]);
+      if (error) {
+        toast({ title: "Couldn't load dose history", description: error, variant: "destructive" });
+      }
+
+      setReport(
+        await buildVisitReport({
+          patientName,
+          medications,
+          pastMedications,
+          history,
+          from,
+          to,
+          timeZone,
+          language: reportLanguage,
+        })
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="card-senior space-y-3">
+      <h3 className="text-senior-lg font-bold flex items-center gap-2">
+        <FileText className="w-5 h-5 text-primary" />
+        Doctor Visit Report
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Print or save as PDF: medicines, how well doses were taken, missed doses and interactions.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-sm space-y-1">
+          <span className="text-muted-foreground">From</span>
+          <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-10" />
+        </label>
+        <label className="text-sm space-y-1">
+          <span className="text-muted-foreground">To</span>
+          <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="h-10" />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={reportLanguage} onValueChange={(value) => setReportLanguage(value as SupportedLanguage)}>
+          <SelectTrigger className="h-10 w-56" aria-label="Report language">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getLanguageOptions().map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleGenerate} disabled={isGenerating}>
+          {isGenerating ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <FileText className="w-4 h-4 mr-2" />
+          )}
+          Create report
+        </Button>
+      </div>
+
+      <Dialog open={!!report} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Doctor Visit Report</DialogTitle>
+            <DialogDescription>Check the report, then print it or save it as a PDF.</DialogDescription>
+          </DialogHeader>
+          {report && <VisitReportDocument report={report} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReport(null)}>
+              Close
+            </Button>
+            <Button onClick={() => window.print()}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print / Save PDF
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Printed copy: the only thing on the page when printing (see index.css) */}
+      {report &&
+        createPortal(
+          <div className="print-report hidden print:block p-8 bg-white">
+            <VisitReportDocument report={report} />
+          </div>,
+          document.body
+        )}
+    </div>
+  );
+}
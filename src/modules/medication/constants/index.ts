@@ -2,7 +2,19 @@
 // Medication Module Constants
 // ============================================
 
-import type { MedicationCategory, FrequencyType, NextDayMode } from "../types";
+import type {
+  MedicationCategory,
+  FrequencyType,
+  NextDayMode,
+  AnalyticsRange,
+  DailyRoutine,
+  RoutineEvent,
+  DoseTiming,
+  TravelMode,
+  SkipReason,
+  LateDoseRule,
+  DoseSeparationRule,
+} from "../types";
 
 /**
  * Category options with display labels and icons
@@ -35,10 +47,202 @@ export const FREQUENCY_OPTIONS: {
   { value: "four_times_daily", label: "Four times daily", timesPerDay: 4, description: "4x a day (every 6 hours)" },
   { value: "every_other_day", label: "Every other day", timesPerDay: 0.5, description: "Alternate days" },
   { value: "weekly", label: "Once weekly", timesPerDay: 0.14, description: "1x a week" },
+  { value: "specific_days", label: "Specific days", timesPerDay: 1, description: "Chosen weekdays only" },
+  { value: "cycle", label: "On/off cycle", timesPerDay: 1, description: "e.g., 21 days on, 7 off" },
   { value: "as_needed", label: "As needed", timesPerDay: 0, description: "When required" },
   { value: "custom", label: "Custom", timesPerDay: -1, description: "Set your own schedule" },
 ];
 
+/**
+ * Weekday options for "specific_days" schedules (value matches Date.getDay())
+ */
+export const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Sun" },
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+];
+
+/**
+ * Routine used until the user sets their own (matches the 6am-10pm waking
+ * hours the fixed-interval schedules assume)
+ */
+export const DEFAULT_DAILY_ROUTINE: DailyRoutine = {
+  wake: "06:00",
+  breakfast: "07:00",
+  lunch: "12:00",
+  dinner: "18:00",
+  sleep: "22:00",
+};
+
+/**
+ * Routine events in the order they happen in a day
+ */
+export const ROUTINE_EVENT_OPTIONS: { value: RoutineEvent; label: string }[] = [
+  { value: "wake", label: "Wake up" },
+  { value: "breakfast", label: "Breakfast" },
+  { value: "lunch", label: "Lunch" },
+  { value: "dinner", label: "Dinner" },
+  { value: "sleep", label: "Bedtime" },
+];
+
+/**
+ * Dose timing options; anchored timings use the routine instead of a start time
+ */
+export const DOSE_TIMING_OPTIONS: {
+  value: DoseTiming;
+  label: string;
+  description: string;
+  hasOffset: boolean; // Whether the minutes before/after can be changed
+  defaultOffset: number; // Minutes; negative = before
+}[] = [
+  { value: "fixed", label: "Set times", description: "Spread from a start time", hasOffset: false, defaultOffset: 0 },
+  { value: "before_meals", label: "Before meals", description: "e.g., 30 min before breakfast", hasOffset: true, defaultOffset: -30 },
+  { value: "with_meals", label: "With meals", description: "Take with food", hasOffset: false, defaultOffset: 0 },
+  { value: "after_meals", label: "After meals", description: "e.g., 30 min after dinner", hasOffset: true, defaultOffset: 30 },
+  { value: "bedtime", label: "At bedtime", description: "Before going to sleep", hasOffset: true, defaultOffset: 0 },
+  { value: "waking", label: "On waking", description: "Right after getting up", hasOffset: true, defaultOffset: 0 },
+];
+
+/**
+ * Time zone used when a profile has none (and the server's fallback)
+ */
+export const DEFAULT_TIME_ZONE = "Asia/Manila";
+
+/**
+ * Common time zones for patients and family members abroad
+ * (the device's own zone is added to the list when it's missing)
+ */
+export const COMMON_TIME_ZONES: { value: string; label: string }[] = [
+  { value: "Asia/Manila", label: "Philippines" },
+  { value: "Asia/Singapore", label: "Singapore" },
+  { value: "Asia/Hong_Kong", label: "Hong Kong" },
+  { value: "Asia/Taipei", label: "Taiwan" },
+  { value: "Asia/Tokyo", label: "Japan" },
+  { value: "Asia/Seoul", label: "South Korea" },
+  { value: "Asia/Dubai", label: "United Arab Emirates" },
+  { value: "Asia/Riyadh", label: "Saudi Arabia" },
+  { value: "Asia/Qatar", label: "Qatar" },
+  { value: "Asia/Kuwait", label: "Kuwait" },
+  { value: "Europe/London", label: "United Kingdom" },
+  { value: "Europe/Rome", label: "Italy" },
+  { value: "America/New_York", label: "US Eastern" },
+  { value: "America/Chicago", label: "US Central" },
+  { value: "America/Los_Angeles", label: "US Pacific" },
+  { value: "America/Toronto", label: "Canada Eastern" },
+  { value: "America/Vancouver", label: "Canada Pacific" },
+  { value: "Australia/Sydney", label: "Australia Eastern" },
+  { value: "Pacific/Auckland", label: "New Zealand" },
+];
+
+/**
+ * Travel mode options
+ */
+export const TRAVEL_MODE_OPTIONS: {
+  value: TravelMode;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "keep",
+    label: "Stay on home time",
+    description: "For time-critical medicines; doses stay at the same moment as at home",
+  },
+  {
+    value: "shift",
+    label: "Follow local time",
+    description: "Keep the same clock times wherever you are (8:00 AM stays 8:00 AM)",
+  },
+];
+
+/**
+ * Reasons offered when a dose is skipped
+ */
+export const SKIP_REASON_OPTIONS: {
+  value: SkipReason;
+  label: string;
+  icon: string;
+}[] = [
+  { value: "nausea", label: "Nausea / felt unwell", icon: "🤢" },
+  { value: "out_of_stock", label: "Out of stock", icon: "📦" },
+  { value: "doctor_advised", label: "Doctor advised", icon: "🩺" },
+  { value: "fasting", label: "Fasting", icon: "🍽️" },
+  { value: "other", label: "Other", icon: "📝" },
+];
+
+/**
+ * Short label for a skip reason
+ */
+export function getSkipReasonLabel(reason: SkipReason | null | undefined): string {
+  return SKIP_REASON_OPTIONS.find((opt) => opt.value === reason)?.label ?? "Skipped";
+}
+
+/**
+ * Default alarm snooze length (minutes) and how many times one dose may be snoozed
+ */
+export const DEFAULT_SNOOZE_MINUTES = 10;
+export const DEFAULT_MAX_SNOOZES = 3;
+
+/**
+ * Snooze lengths offered in reminder settings
+ */
+export const SNOOZE_MINUTE_OPTIONS: { value: number; label: string }[] = [
+  { value: 5, label: "5 minutes" },
+  { value: 10, label: "10 minutes" },
+  { value: 15, label: "15 minutes" },
+  { value: 30, label: "30 minutes" },
+  { value: 60, label: "1 hour" },
+];
+
+/**
+ * Per-dose snooze caps offered in reminder settings
+ */
+export const MAX_SNOOZE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Don't allow snoozing" },
+  { value: 1, label: "Once per dose" },
+  { value: 2, label: "Up to 2 times" },
+  { value: 3, label: "Up to 3 times" },
+  { value: 5, label: "Up to 5 times" },
+];
+
+/**
+ * How late (minutes past its time) a dose must be before late-dose advice is shown
+ */
+export const LATE_DOSE_GRACE_MINUTES = 30;
+
+/**
+ * Late-dose rules offered when editing a medication
+ */
+export const LATE_DOSE_RULE_OPTIONS: {
+  value: LateDoseRule;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "auto",
+    label: "Halfway rule",
+    description: "Take it if it's less than halfway to the next dose, otherwise skip",
+  },
+  {
+    value: "take_when_remembered",
+    label: "Take when remembered",
+    description: "Take it as soon as remembered, but never together with the next dose",
+  },
+  {
+    value: "skip_missed",
+    label: "Skip late doses",
+    description: "Skip a late dose and take the next one at the usual time",
+  },
+  {
+    value: "cutoff",
+    label: "Take within a time limit",
+    description: "Take it up to a set time late, otherwise skip",
+  },
+];
+
 /**
  * Next day mode options
  */
@@ -55,8 +259,126 @@ export const NEXT_DAY_MODE_OPTIONS: {
   {
     value: "continue",
     label: "Continue from last dose",
-    description: "Continue counting from last dose (e.g., 8pm → 2am next dose if 3x daily)",
+    description: "Continue counting from last dose; doses due while you sleep move to bedtime or waking",
+  },
+];
+
+/**
+ * Days of remaining pill supply at which a low-stock reminder is raised
+ */
+export const LOW_STOCK_THRESHOLD_DAYS = 7;
+
+// Minerals and antacids that bind other drugs in the gut
+const BINDING_MINERALS = ["calcium", "iron", "ferrous", "magnesium", "aluminum", "aluminium", "zinc", "antacid"];
+
+/**
+ * Dose separations the schedule optimizer keeps
+ */
+export const DOSE_SEPARATION_RULES: DoseSeparationRule[] = [
+  {
+    drugs: ["levothyroxine"],
+    separateFrom: BINDING_MINERALS,
+    minutesBefore: 240,
+    minutesAfter: 240,
+    reason: "Calcium, iron and antacids stop levothyroxine from being absorbed",
+  },
+  {
+    drugs: ["ciprofloxacin", "levofloxacin", "moxifloxacin", "ofloxacin"],
+    separateFrom: BINDING_MINERALS,
+    minutesBefore: 120,
+    minutesAfter: 360,
+    reason: "Minerals and antacids bind the antibiotic so less of it is absorbed",
+  },
+  {
+    drugs: ["doxycycline", "tetracycline", "minocycline"],
+    separateFrom: BINDING_MINERALS,
+    minutesBefore: 120,
+    minutesAfter: 180,
+    reason: "Minerals and antacids bind the antibiotic so less of it is absorbed",
   },
+  {
+    drugs: ["alendronate", "risedronate", "ibandronate"],
+    separateFrom: BINDING_MINERALS,
+    minutesBefore: 30,
+    minutesAfter: 120,
+    reason: "Bone medicines must be taken apart from minerals and antacids to work",
+  },
+  {
+    drugs: ["iron", "ferrous"],
+    separateFrom: ["calcium"],
+    minutesBefore: 120,
+    minutesAfter: 120,
+    reason: "Calcium lowers iron absorption",
+  },
+];
+
+/**
+ * Share of a maximum daily dose at which a "near the limit" warning is raised
+ */
+export const DAILY_DOSE_WARNING_RATIO = 0.9;
+
+/**
+ * Usual adult maximum daily doses in mg, keyed by ingredient without its salt
+ * (e.g., "losartan" for Losartan Potassium). Label and PNF limits; a doctor
+ * may prescribe more, which is why exceeding one asks for confirmation.
+ */
+export const MAX_DAILY_DOSES_MG: Record<string, number> = {
+  // Pain and fever
+  paracetamol: 4000,
+  acetaminophen: 4000,
+  ibuprofen: 3200,
+  naproxen: 1500,
+  aspirin: 4000,
+  "mefenamic acid": 1500,
+  diclofenac: 150,
+  celecoxib: 400,
+  tramadol: 400,
+  // Blood pressure and heart
+  losartan: 100,
+  amlodipine: 10,
+  lisinopril: 80,
+  enalapril: 40,
+  captopril: 450,
+  metoprolol: 400,
+  carvedilol: 50,
+  hydrochlorothiazide: 50,
+  atorvastatin: 80,
+  simvastatin: 80,
+  rosuvastatin: 40,
+  // Diabetes
+  metformin: 2550,
+  glimepiride: 8,
+  gliclazide: 320,
+  glibenclamide: 20,
+  // Allergy, cough and colds
+  cetirizine: 10,
+  loratadine: 10,
+  chlorphenamine: 24,
+  chlorpheniramine: 24,
+  diphenhydramine: 300,
+  phenylephrine: 60,
+  dextromethorphan: 120,
+  guaifenesin: 2400,
+  carbocisteine: 2250,
+  ambroxol: 120,
+  // Others
+  loperamide: 16,
+  allopurinol: 800,
+  colchicine: 1.8,
+  "ascorbic acid": 2000,
+};
+
+/**
+ * Adherence analytics range options
+ */
+export const ANALYTICS_RANGE_OPTIONS: {
+  value: AnalyticsRange;
+  label: string;
+  shortLabel: string;
+}[] = [
+  { value: 7, label: "Last 7 days", shortLabel: "7D" },
+  { value: 30, label: "Last 30 days", shortLabel: "30D" },
+  { value: 90, label: "Last 90 days", shortLabel: "90D" },
 ];
 
 /**
@@ -228,10 +550,21 @@ export function getDurationStatusColor(endDate: string | null | undefined): {
 }
 
 /**
- * Get today's date as ISO string (YYYY-MM-DD)
+ * Get today's date (YYYY-MM-DD) on the calendar of a time zone
+ * (the device's zone when none is given)
  */
-export function getTodayDateString(): string {
-  return new Date().toISOString().split("T")[0];
+export function getTodayDateString(timeZone?: string): string {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(new Date());
+  } catch {
+    return new Intl.DateTimeFormat("en-CA").format(new Date());
+  }
 }
 
 /**
@@ -281,6 +614,11 @@ export const FREQUENCY_INTERVALS: { [key in FrequencyType]?: number } = {
   four_times_daily: 4 * 60 + 30, // 270 minutes (covering 18 hours with 4 doses)
 };
 
+/**
+ * Shortest gap between doses when restart mode squeezes them in before bedtime
+ */
+export const MIN_DOSE_INTERVAL_MINUTES = 2 * 60;
+
 /**
  * Get interval in minutes for a frequency
  */
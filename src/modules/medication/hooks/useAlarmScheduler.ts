@@ -9,12 +9,23 @@ import {
   formatTime12Hour,
   getMinutesUntilNextDose,
   formatTimeUntil,
+  getNowInTimeZone,
+  toLocalDateString,
 } from "../services/scheduleService";
+import { useDoseSnoozes } from "./useDoseSnoozes";
 
 interface UseAlarmSchedulerOptions {
   onAlarmTrigger?: (alarm: MedicationAlarm) => void;
   checkIntervalMs?: number;
   reminderMinutesBefore?: number;
+  /** Time zone the dose times are in (defaults to the device's) */
+  timeZone?: string;
+  /** Patient whose snoozes are stored and synced (memory only when omitted) */
+  userId?: string | null;
+  /** Length of one snooze in minutes */
+  snoozeMinutes?: number;
+  /** How many times one dose may be snoozed */
+  maxSnoozes?: number;
 }
 
 interface AlarmState {
@@ -44,21 +55,54 @@ async function requestNotificationPermission(): Promise<boolean> {
   return false;
 }
 
+/**
+ * Notification tag for one dose instance; background push alarms from the
+ * server use the same tag, so a dose rings once whichever arrives first
+ */
+function getDoseAlarmTag(alarm: MedicationAlarm): string {
+  return `dose-alarm-${alarm.medicationId}-${alarm.scheduledDate}-${alarm.scheduledTime}`.replace(/\s+/g, "-");
+}
+
 /**
  * Show a notification for a medication alarm
+ * Goes through the service worker when there is one, so it shares the
+ * notification list with push alarms; skipped if a push already rang for it
  */
-function showNotification(alarm: MedicationAlarm): void {
+async function showNotification(alarm: MedicationAlarm): Promise<void> {
   if (Notification.permission !== "granted") return;
 
-  const notification = new Notification(`Time for ${alarm.medicationName}`, {
+  const title = `Time for ${alarm.medicationName}`;
+  const snoozeCount = alarm.snoozeCount ?? 0;
+  const options: NotificationOptions & { vibrate?: number[]; renotify?: boolean } = {
     body: `Take ${alarm.dosage} now`,
     icon: "/icon.ico",
     badge: "/icon.ico",
-    tag: alarm.id,
+    tag: getDoseAlarmTag(alarm),
     requireInteraction: true,
+    renotify: true,
     vibrate: [200, 100, 200],
-  });
+    data: {
+      type: "dose_alarm",
+      medicationId: alarm.medicationId,
+      doseId: alarm.doseId,
+      scheduledTime: alarm.scheduledTime,
+      scheduledDate: alarm.scheduledDate,
+      snoozeCount,
+      url: "/dashboard",
+    },
+  };
+
+  const registration =
+    "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+
+  if (registration) {
+    const existing = await registration.getNotifications({ tag: options.tag });
+    if (existing.some((n) => (n.data?.snoozeCount ?? 0) === snoozeCount)) return;
+    await registration.showNotification(title, options);
+    return;
+  }
 
+  const notification = new Notification(title, options);
   notification.onclick = () => {
     window.focus();
     notification.close();
@@ -66,17 +110,18 @@ function showNotification(alarm: MedicationAlarm): void {
 }
 
 /**
- * Generate alarms for a medication schedule
+ * Generate alarms for a medication schedule (doses already taken don't ring)
  */
 function generateAlarmsForSchedule(
   medication: EnhancedMedication,
   date: Date = new Date()
 ): MedicationAlarm[] {
-  const dateStr = date.toISOString().split("T")[0];
+  const dateStr = toLocalDateString(date);
 
-  return medication.schedule.doses.map((dose) => ({
+  return medication.schedule.doses.filter((dose) => !dose.taken).map((dose) => ({
     id: `${medication.id}-${dose.id}-${dateStr}`,
     medicationId: medication.id,
+    doseId: dose.id,
     medicationName: medication.name,
     dosage: medication.dosage,
     scheduledTime: dose.time,
@@ -97,8 +142,18 @@ export function useAlarmScheduler(
     onAlarmTrigger,
     checkIntervalMs = 30000, // Check every 30 seconds
     reminderMinutesBefore = 5,
+    timeZone,
+    userId,
+    snoozeMinutes,
+    maxSnoozes,
   } = options;
 
+  const { getSnooze, getSnoozesLeft, snooze } = useDoseSnoozes(userId, {
+    timeZone,
+    snoozeMinutes,
+    maxSnoozes,
+  });
+
   const [state, setState] = useState<AlarmState>({
     activeAlarms: [],
     upcomingAlarms: [],
@@ -113,18 +168,27 @@ export function useAlarmScheduler(
     requestNotificationPermission().then(setHasNotificationPermission);
   }, []);
 
-  // Generate all alarms for today
+  // Generate all alarms for today, with any stored snooze applied
   const generateTodaysAlarms = useCallback((): MedicationAlarm[] => {
-    const today = new Date();
+    const today = getNowInTimeZone(timeZone);
     return medications.flatMap((med) => {
       if (!med.schedule.isActive) return [];
-      return generateAlarmsForSchedule(med, today);
+      return generateAlarmsForSchedule(med, today).map((alarm) => {
+        const stored = getSnooze(alarm.medicationId, alarm.scheduledTime);
+        if (!stored) return alarm;
+        return {
+          ...alarm,
+          snoozed: new Date(stored.snooze_until).getTime() > Date.now(),
+          snoozeUntil: stored.snooze_until,
+          snoozeCount: stored.snooze_count,
+        };
+      });
     });
-  }, [medications]);
+  }, [medications, timeZone, getSnooze]);
 
-  // Check alarms and trigger notifications
+  // Check alarms and trigger notifications (on the dose time zone's clock)
   const checkAlarms = useCallback(() => {
-    const now = new Date();
+    const now = getNowInTimeZone(timeZone);
     const currentMinutes = now.getHours() * 60 + now.getMinutes();
 
     const allAlarms = generateTodaysAlarms();
@@ -132,20 +196,36 @@ export function useAlarmScheduler(
     const upcomingAlarms: MedicationAlarm[] = [];
 
     for (const alarm of allAlarms) {
-      const { hours, minutes } = parseTime(alarm.scheduledTime);
+      // A snoozed alarm rings again when its snooze ends (on any device)
+      if (alarm.snoozed) {
+        upcomingAlarms.push(alarm);
+        continue;
+      }
+
+      // After a snooze, the alarm is due from the end of the snooze
+      const snoozeEnd = alarm.snoozeUntil
+        ? getNowInTimeZone(timeZone, new Date(alarm.snoozeUntil))
+        : null;
+      const { hours, minutes } = snoozeEnd
+        ? { hours: snoozeEnd.getHours(), minutes: snoozeEnd.getMinutes() }
+        : parseTime(alarm.scheduledTime);
       const alarmMinutes = hours * 60 + minutes;
       const minutesUntil = alarmMinutes - currentMinutes;
 
-      if (minutesUntil <= 0 && minutesUntil > -30) {
-        // Alarm is due (within last 30 minutes)
+      if (minutesUntil <= 0) {
+        // Alarm is due: it stays active until the dose is taken, snoozed or
+        // skipped, or the day is closed out (then it isn't one of today's)
         activeAlarms.push(alarm);
 
-        // Trigger notification if not already notified
-        if (!notifiedAlarmsRef.current.has(alarm.id)) {
-          notifiedAlarmsRef.current.add(alarm.id);
+        // Trigger notification if not already notified (once per snooze)
+        const notifyKey = `${alarm.id}#${alarm.snoozeCount ?? 0}`;
+        if (!notifiedAlarmsRef.current.has(notifyKey)) {
+          notifiedAlarmsRef.current.add(notifyKey);
 
           if (hasNotificationPermission) {
-            showNotification(alarm);
+            showNotification(alarm).catch((error) =>
+              console.error("Error showing dose alarm:", error)
+            );
           }
 
           onAlarmTrigger?.(alarm);
@@ -171,9 +251,9 @@ export function useAlarmScheduler(
       upcomingAlarms: upcomingAlarms.slice(0, 5), // Only show next 5
       currentTime: now,
     });
-  }, [generateTodaysAlarms, hasNotificationPermission, onAlarmTrigger, reminderMinutesBefore]);
+  }, [generateTodaysAlarms, hasNotificationPermission, onAlarmTrigger, reminderMinutesBefore, timeZone]);
 
-  // Set up interval to check alarms
+  // Set up interval to check alarms (re-runs when a snooze changes on any device)
   useEffect(() => {
     checkAlarms(); // Initial check
 
@@ -181,9 +261,9 @@ export function useAlarmScheduler(
     return () => clearInterval(interval);
   }, [checkAlarms, checkIntervalMs]);
 
-  // Reset notified alarms at midnight
+  // Reset notified alarms at midnight (in the dose time zone)
   useEffect(() => {
-    const now = new Date();
+    const now = getNowInTimeZone(timeZone);
     const tomorrow = new Date(now);
     tomorrow.setDate(tomorrow.getDate() + 1);
     tomorrow.setHours(0, 0, 0, 0);
@@ -195,17 +275,30 @@ export function useAlarmScheduler(
     }, msUntilMidnight);
 
     return () => clearTimeout(timeout);
-  }, []);
-
-  // Snooze an alarm
-  const snoozeAlarm = useCallback((alarmId: string, minutesToSnooze: number = 10) => {
-    notifiedAlarmsRef.current.delete(alarmId);
+  }, [timeZone]);
+
+  // Snooze an alarm (stored per dose, so it survives reloads and syncs)
+  const snoozeAlarm = useCallback(
+    async (alarmId: string, minutesToSnooze?: number): Promise<{ error: string | null }> => {
+      const alarm = generateTodaysAlarms().find((a) => a.id === alarmId);
+      if (!alarm) return { error: "Alarm not found" };
+
+      const { error } = await snooze({
+        medicationId: alarm.medicationId,
+        doseId: alarm.doseId || null,
+        scheduledTime: alarm.scheduledTime,
+        minutes: minutesToSnooze,
+      });
+      return { error };
+    },
+    [generateTodaysAlarms, snooze]
+  );
 
-    // Re-add after snooze period
-    setTimeout(() => {
-      checkAlarms();
-    }, minutesToSnooze * 60 * 1000);
-  }, [checkAlarms]);
+  // Snoozes an alarm has left before the per-dose cap
+  const getAlarmSnoozesLeft = useCallback(
+    (alarm: MedicationAlarm) => getSnoozesLeft(alarm.medicationId, alarm.scheduledTime),
+    [getSnoozesLeft]
+  );
 
   // Dismiss an alarm
   const dismissAlarm = useCallback((alarmId: string) => {
@@ -237,6 +330,7 @@ export function useAlarmScheduler(
     upcomingAlarms: state.upcomingAlarms,
     hasNotificationPermission,
     snoozeAlarm,
+    getAlarmSnoozesLeft,
     dismissAlarm,
     getNextAlarmInfo,
     requestNotificationPermission: async () => {
@@ -0,0 +1,71 @@
+// ============================================
+// Dose History Hook
+// Loads stored dose history for adherence analytics
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import type { DoseHistory } from "@/types/database";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { getDoseHistory } from "@/services/supabase";
+
+interface UseDoseHistoryReturn {
+  /** History rows within the requested window (oldest first) */
+  history: DoseHistory[];
+  /** Whether the history is being fetched */
+  isLoading: boolean;
+  /** Any error that occurred */
+  error: string | null;
+  /** Re-fetch history from the database */
+  refresh: () => Promise<void>;
+}
+
+function getStartDate(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Hook for loading a patient's dose history for the last N days.
+ * Works for the patient themself and for linked companions (RLS allows both).
+ */
+export function useDoseHistory(
+  userId: string | null | undefined,
+  days: number = 90
+): UseDoseHistoryReturn {
+  const [history, setHistory] = useState<DoseHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!userId || !isSupabaseConfigured) {
+      setHistory([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const { history: rows, error: fetchError } = await getDoseHistory(userId, {
+      from: getStartDate(days),
+    });
+
+    setHistory(rows);
+    setError(fetchError);
+    setIsLoading(false);
+  }, [userId, days]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    history,
+    isLoading,
+    error,
+    refresh: fetchHistory,
+  };
+}
@@ -0,0 +1,179 @@
+// ============================================
+// Dose Snoozes Hook
+// Loads today's snoozed doses and keeps them in sync across devices
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import type { DoseSnooze } from "@/types/database";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import {
+  getDoseSnoozes,
+  snoozeDose as snoozeDoseInDb,
+  subscribeToDoseSnoozes,
+} from "@/services/supabase";
+import { DEFAULT_MAX_SNOOZES, DEFAULT_SNOOZE_MINUTES } from "../constants";
+import { toDateStringInTimeZone } from "../services/scheduleService";
+
+interface UseDoseSnoozesOptions {
+  /** Time zone the patient's calendar follows (defaults to the device's) */
+  timeZone?: string;
+  /** Length of one snooze in minutes */
+  snoozeMinutes?: number;
+  /** How many times one dose may be snoozed */
+  maxSnoozes?: number;
+}
+
+interface UseDoseSnoozesReturn {
+  /** Today's snoozes (expired ones included, for their counts) */
+  snoozes: DoseSnooze[];
+  /** Snooze for a dose instance today, if any */
+  getSnooze: (medicationId: string, scheduledTime: string) => DoseSnooze | null;
+  /** Whether a dose is snoozed right now */
+  isSnoozed: (medicationId: string, scheduledTime: string) => boolean;
+  /** Snoozes a dose has left before the cap */
+  getSnoozesLeft: (medicationId: string, scheduledTime: string) => number;
+  /** Snooze a dose for snoozeMinutes (or the given length) */
+  snooze: (dose: {
+    medicationId: string;
+    doseId?: string | null;
+    scheduledTime: string;
+    minutes?: number;
+  }) => Promise<{ snooze: DoseSnooze | null; error: string | null }>;
+  snoozeMinutes: number;
+  maxSnoozes: number;
+}
+
+/**
+ * Hook for a patient's persistent dose snoozes.
+ * Without a user (demo mode) snoozes are kept in memory only.
+ */
+export function useDoseSnoozes(
+  userId: string | null | undefined,
+  options: UseDoseSnoozesOptions = {}
+): UseDoseSnoozesReturn {
+  const {
+    timeZone,
+    snoozeMinutes = DEFAULT_SNOOZE_MINUTES,
+    maxSnoozes = DEFAULT_MAX_SNOOZES,
+  } = options;
+  const [snoozes, setSnoozes] = useState<DoseSnooze[]>([]);
+  const today = toDateStringInTimeZone(timeZone);
+  const isSynced = !!userId && isSupabaseConfigured;
+
+  // Load today's snoozes, then follow changes made on other devices
+  useEffect(() => {
+    if (!isSynced) {
+      setSnoozes([]);
+      return;
+    }
+
+    let cancelled = false;
+    getDoseSnoozes(userId, today).then(({ snoozes: rows }) => {
+      if (!cancelled) setSnoozes(rows);
+    });
+
+    const channel = subscribeToDoseSnoozes(userId, ({ type, snooze }) => {
+      setSnoozes((prev) => {
+        const others = prev.filter((s) => s.id !== snooze.id);
+        if (type === "DELETE" || snooze.scheduled_date !== today) return others;
+        return [...others, snooze];
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      channel.unsubscribe();
+    };
+  }, [isSynced, userId, today]);
+
+  const getSnooze = useCallback(
+    (medicationId: string, scheduledTime: string) =>
+      snoozes.find(
+        (s) => s.medication_id === medicationId && s.scheduled_time === scheduledTime
+      ) ?? null,
+    [snoozes]
+  );
+
+  const isSnoozed = useCallback(
+    (medicationId: string, scheduledTime: string) => {
+      const snooze = getSnooze(medicationId, scheduledTime);
+      return !!snooze && new Date(snooze.snooze_until).getTime() > Date.now();
+    },
+    [getSnooze]
+  );
+
+  const getSnoozesLeft = useCallback(
+    (medicationId: string, scheduledTime: string) =>
+      Math.max(0, maxSnoozes - (getSnooze(medicationId, scheduledTime)?.snooze_count ?? 0)),
+    [getSnooze, maxSnoozes]
+  );
+
+  const snooze = useCallback(
+    async ({
+      medicationId,
+      doseId,
+      scheduledTime,
+      minutes = snoozeMinutes,
+    }: {
+      medicationId: string;
+      doseId?: string | null;
+      scheduledTime: string;
+      minutes?: number;
+    }) => {
+      if (isSynced) {
+        const result = await snoozeDoseInDb({
+          userId,
+          medicationId,
+          doseId,
+          scheduledTime,
+          scheduledDate: today,
+          minutes,
+          maxSnoozes,
+        });
+        if (result.snooze) {
+          const saved = result.snooze;
+          setSnoozes((prev) => [...prev.filter((s) => s.id !== saved.id), saved]);
+        }
+        return result;
+      }
+
+      // Demo mode: same rules, kept in memory
+      const existing = getSnooze(medicationId, scheduledTime);
+      const snoozeCount = (existing?.snooze_count ?? 0) + 1;
+      if (snoozeCount > maxSnoozes) {
+        return {
+          snooze: null,
+          error: `This dose can only be snoozed ${maxSnoozes} time${maxSnoozes === 1 ? "" : "s"}`,
+        };
+      }
+
+      const now = new Date().toISOString();
+      const local: DoseSnooze = {
+        id: existing?.id ?? `${medicationId}-${scheduledTime}`,
+        user_id: userId ?? "demo",
+        medication_id: medicationId,
+        dose_id: doseId ?? null,
+        scheduled_date: today,
+        scheduled_time: scheduledTime,
+        snooze_until: new Date(Date.now() + minutes * 60000).toISOString(),
+        snooze_count: snoozeCount,
+        reminded_at: null,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+      };
+      setSnoozes((prev) => [...prev.filter((s) => s.id !== local.id), local]);
+      return { snooze: local, error: null };
+    },
+    [isSynced, userId, today, snoozeMinutes, maxSnoozes, getSnooze]
+  );
+
+  return {
+    snoozes,
+    getSnooze,
+    isSnoozed,
+    getSnoozesLeft,
+    snooze,
+    snoozeMinutes,
+    maxSnoozes,
+  };
+}
@@ -12,15 +12,43 @@ export * from "./constants";
 export * from "./services/scheduleService";
 export * from "./services/extractionService";
 export * from "./services/interactionService";
+export * from "./services/duplicationService";
+export * from "./services/doseLimitService";
+export * from "./services/scheduleOptimizerService";
 export * from "./services/analyticsService";
+export * from "./services/calendarService";
+export * from "./services/fhirService";
+export * from "./services/reportService";
+export * from "./services/alarmService";
 
 // Hooks
 export * from "./hooks/useAlarmScheduler";
+export * from "./hooks/useDoseHistory";
+export * from "./hooks/useDoseSnoozes";
 
 // Components
 export { MedicineConfirmationCard } from "./components/MedicineConfirmationCard";
 export { AlarmScheduler } from "./components/AlarmScheduler";
 export { MedicineConfirmationFlow } from "./components/MedicineConfirmationFlow";
 export { InteractionWarningCard } from "./components/InteractionWarningCard";
+export { DuplicationWarningCard } from "./components/DuplicationWarningCard";
+export { DuplicationReportCard } from "./components/DuplicationReportCard";
+export { DailyDoseWarningCard } from "./components/DailyDoseWarningCard";
+export { DailyDoseReportCard } from "./components/DailyDoseReportCard";
+export { RegimenInteractionReport } from "./components/RegimenInteractionReport";
+export { ScheduleOptimizerCard } from "./components/ScheduleOptimizerCard";
 export { RefillReminders } from "./components/RefillReminders";
+export { LogRefillDialog } from "./components/LogRefillDialog";
+export { SkipDoseDialog } from "./components/SkipDoseDialog";
+export { PrnDoseCard } from "./components/PrnDoseCard";
 export { AdherenceAnalytics } from "./components/AdherenceAnalytics";
+export { TaperPhaseEditor } from "./components/TaperPhaseEditor";
+export { FrequencyPatternEditor } from "./components/FrequencyPatternEditor";
+export { LateDoseRuleEditor } from "./components/LateDoseRuleEditor";
+export { DoseTimingPicker } from "./components/DoseTimingPicker";
+export { CalendarExportCard } from "./components/CalendarExportCard";
+export { FhirTransferCard } from "./components/FhirTransferCard";
+export { VisitReportCard } from "./components/VisitReportCard";
+export { MedicationAuditLog } from "./components/MedicationAuditLog";
+export { MedicationArchive } from "./components/MedicationArchive";
+export { DoseAlarmOverlay } from "./components/DoseAlarmOverlay";
@@ -0,0 +1,193 @@
+// ============================================
+// Alarm Service
+// What the in-app dose alarm rings for, what it says, and the chime that
+// keeps ringing until the patient answers it
+// ============================================
+
+import type { Medication } from "@/types";
+import type { SupportedLanguage } from "@/services/language";
+import type { EnhancedMedication } from "../types";
+import { getRegimenForDate, isDoseDay, toDateStringInTimeZone } from "./scheduleService";
+
+// ============================================
+// Alarm Medications
+// ============================================
+
+/**
+ * Today's open doses in the shape the alarm scheduler works with
+ * Taken and skipped doses, off days and as-needed medications don't ring.
+ * A medication without scheduled doses rings once at its time (dose id "").
+ */
+export function getAlarmMedications(medications: Medication[], timeZone?: string): EnhancedMedication[] {
+  const today = toDateStringInTimeZone(timeZone);
+
+  return medications
+    .filter((med) => med.isActive !== false && med.frequency !== "as_needed" && isDoseDay(med, today))
+    .map((med) => {
+      const doses =
+        med.doses && med.doses.length > 0
+          ? med.doses.filter((dose) => !dose.taken && !dose.skipped)
+          : med.taken || med.skipped
+            ? []
+            : [{ id: "", time: med.time, label: "Daily", taken: false }];
+      const now = new Date().toISOString();
+
+      return {
+        id: med.id,
+        userId: "",
+        name: med.name,
+        dosage: getRegimenForDate(med, today).dosage,
+        category: med.category,
+        frequency: med.frequency,
+        customFrequency: med.customFrequency,
+        timePeriod: med.timePeriod,
+        instructions: med.instructions,
+        imageUrl: med.imageUrl,
+        schedule: {
+          id: med.id,
+          medicationId: med.id,
+          frequency: med.frequency,
+          customFrequency: med.customFrequency,
+          startTime: med.startTime,
+          nextDayMode: med.nextDayMode,
+          intervalMinutes: med.intervalMinutes ?? 0,
+          doses,
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        },
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+}
+
+// ============================================
+// Spoken Announcement
+// ============================================
+
+const ALARM_PHRASES: Record<SupportedLanguage, { timeFor: string; take: string }> = {
+  en: { timeFor: "It's time for your medicine", take: "Take" },
+  tl: { timeFor: "Oras na para sa iyong gamot", take: "Uminom ng" },
+  ceb: { timeFor: "Oras na sa imong tambal", take: "Inom og" },
+  ilo: { timeFor: "Oras ti agas-mo", take: "Uminom iti" },
+  hil: { timeFor: "Oras na sang imo bulong", take: "Inom sang" },
+  war: { timeFor: "Oras na han imo bulong", take: "Inom hin" },
+  pam: { timeFor: "Oras na ning kekang gamut", take: "Minum kang" },
+  bik: { timeFor: "Oras na kan saimong bulong", take: "Mag-inom nin" },
+};
+
+/**
+ * What the alarm reads aloud: the medicine, the dose and its instructions
+ */
+export function getAlarmAnnouncement(
+  medication: { name: string; dosage: string; instructions?: string },
+  language: SupportedLanguage = "en"
+): string {
+  const phrases = ALARM_PHRASES[language] || ALARM_PHRASES.en;
+  const parts = [`${phrases.timeFor}: ${medication.name}.`, `${phrases.take} ${medication.dosage}.`];
+  if (medication.instructions?.trim()) {
+    parts.push(medication.instructions.trim());
+  }
+  return parts.join(" ");
+}
+
+// ============================================
+// Escalating Chime
+// ============================================
+
+const CHIME_CONFIG = {
+  NOTES_HZ: [880, 660, 880],
+  NOTE_SECONDS: 0.35,
+  START_VOLUME: 0.15,
+  MAX_VOLUME: 0.9,
+  VOLUME_STEP: 0.1,
+  START_GAP_MS: 4000,
+  MIN_GAP_MS: 1500,
+  GAP_STEP_MS: 500,
+};
+
+export interface AlarmChime {
+  stop: () => void;
+  /** Hold the chime (e.g., while the dose is read aloud) */
+  pause: () => void;
+  resume: () => void;
+}
+
+/**
+ * Start a chime that repeats until stopped, a little louder and a little
+ * sooner each round. Vibrates along with it where the device can
+ */
+export function startAlarmChime(): AlarmChime {
+  const AudioContextClass =
+    window.AudioContext ??
+    (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  const context = AudioContextClass ? new AudioContextClass() : null;
+
+  let round = 0;
+  let paused = false;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const playRound = () => {
+    const volume = Math.min(CHIME_CONFIG.MAX_VOLUME, CHIME_CONFIG.START_VOLUME + round * CHIME_CONFIG.VOLUME_STEP);
+
+    if (context) {
+      // Browsers hold audio until the page has been interacted with; try anyway
+      context.resume().catch(() => undefined);
+      const start = context.currentTime;
+      CHIME_CONFIG.NOTES_HZ.forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const noteStart = start + index * CHIME_CONFIG.NOTE_SECONDS;
+        oscillator.type = "sine";
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.0001, noteStart);
+        gain.gain.exponentialRampToValueAtTime(volume, noteStart + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + CHIME_CONFIG.NOTE_SECONDS);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(noteStart);
+        oscillator.stop(noteStart + CHIME_CONFIG.NOTE_SECONDS);
+      });
+    }
+
+    if ("vibrate" in navigator) {
+      navigator.vibrate([300, 150, 300]);
+    }
+
+    round++;
+  };
+
+  const scheduleNext = () => {
+    if (stopped || paused) return;
+    playRound();
+    const gap = Math.max(CHIME_CONFIG.MIN_GAP_MS, CHIME_CONFIG.START_GAP_MS - round * CHIME_CONFIG.GAP_STEP_MS);
+    timer = setTimeout(scheduleNext, gap);
+  };
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  scheduleNext();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimer();
+      context?.close().catch(() => undefined);
+    },
+    pause: () => {
+      paused = true;
+      clearTimer();
+    },
+    resume: () => {
+      if (stopped || !paused) return;
+      paused = false;
+      scheduleNext();
+    },
+  };
+}
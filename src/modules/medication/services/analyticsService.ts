@@ -3,8 +3,16 @@
 // Calculates adherence, patterns, and insights
 // ============================================
 
-import type { Medication, ScheduledDose } from "@/types";
-import { getRemainingDays, isPrescriptionExpired, isPrescriptionEndingSoon } from "../constants";
+import type { Medication } from "@/types";
+import type { DoseHistory, PrnDoseLog } from "@/types/database";
+import type { AnalyticsRange } from "../types";
+import {
+  getRemainingDays,
+  isPrescriptionExpired,
+  isPrescriptionEndingSoon,
+  LOW_STOCK_THRESHOLD_DAYS,
+} from "../constants";
+import { getAverageDosesPerDay, getNowInTimeZone, isDueOnDate } from "./scheduleService";
 
 // ============================================
 // Types
@@ -12,9 +20,10 @@ import { getRemainingDays, isPrescriptionExpired, isPrescriptionEndingSoon } fro
 
 export interface DailyAdherence {
   date: string; // YYYY-MM-DD
-  scheduled: number;
+  scheduled: number; // Doses due (deliberately skipped doses excluded)
   taken: number;
   missed: number;
+  skipped: number; // Deliberately skipped, counted apart from missed
   adherenceRate: number; // 0-100
 }
 
@@ -25,6 +34,7 @@ export interface MedicationAdherence {
   totalDoses: number;
   takenDoses: number;
   missedDoses: number;
+  skippedDoses: number;
   adherenceRate: number; // 0-100
   streak: number; // Days in a row taken
   lastTaken?: string; // ISO timestamp
@@ -36,6 +46,19 @@ export interface MedicationAdherence {
   isEndingSoon: boolean;
 }
 
+/**
+ * Adherence for one medication between two dates (e.g., since the last check-up)
+ */
+export interface PeriodAdherence {
+  medicationId: string;
+  medicationName: string;
+  scheduled: number; // Doses due (deliberately skipped doses excluded)
+  taken: number;
+  missed: number;
+  skipped: number;
+  adherenceRate: number; // 0-100
+}
+
 export interface TimeSlotPattern {
   timeSlot: "morning" | "midday" | "afternoon" | "evening" | "night";
   label: string;
@@ -49,6 +72,7 @@ export interface OverallAnalytics {
   todayScheduled: number;
   todayTaken: number;
   todayMissed: number;
+  todaySkipped: number;
   todayAdherence: number;
   
   // Overall stats
@@ -72,15 +96,45 @@ export interface OverallAnalytics {
   weeklyTrend: DailyAdherence[];
   weeklyAverage: number;
   isImproving: boolean; // Comparing recent vs older performance
+
+  // Trends for the selected range
+  rangeDays: AnalyticsRange;
+  trend: DailyAdherence[];
+  rangeAverage: number;
+  rangeSkipped: number;
+  medicationAdherence: MedicationAdherence[];
+  hasHistory: boolean; // Whether any stored history fell inside the range
 }
 
 export interface RefillReminder {
   medicationId: string;
   medicationName: string;
   category: string;
-  endDate: string;
+  endDate: string; // Prescription end date, or forecast run-out date for low stock
   daysRemaining: number;
   urgency: "critical" | "warning" | "info"; // 0-1 days, 2-3 days, 4+ days
+  reason: "prescription_end" | "low_stock";
+  pillsRemaining?: number;
+}
+
+export interface PrnUsagePattern {
+  medicationId: string;
+  medicationName: string;
+  totalDoses: number; // Doses logged in the range
+  daysUsed: number; // Days with at least one dose
+  averagePerDay: number; // Over the whole range, one decimal
+  maxInOneDay: number;
+  busiestTimeSlot: TimeSlotPattern["timeSlot"] | null;
+  lastTakenAt: string | null; // ISO timestamp
+  dailyCounts: { date: string; count: number }[]; // Oldest first, ending today
+}
+
+export interface SupplyForecast {
+  pillsOnHand: number;
+  pillsPerDay: number;
+  daysOfSupply: number; // Whole days the current supply lasts
+  runOutDate: string; // YYYY-MM-DD
+  isLowStock: boolean;
 }
 
 // ============================================
@@ -123,8 +177,169 @@ function getTimeSlotLabel(slot: TimeSlotPattern["timeSlot"]): string {
   return labels[slot];
 }
 
-function getTodayDateString(): string {
-  return new Date().toISOString().split("T")[0];
+// How far back streaks are counted (matches the longest analytics range)
+const STREAK_LOOKBACK_DAYS = 90;
+
+interface DoseOutcome {
+  medicationId: string;
+  date: string; // YYYY-MM-DD
+  time: string;
+  taken: boolean;
+  skipped: boolean; // Deliberately skipped (not due, not missed)
+}
+
+function toDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Today on the patient's calendar (the device's when no time zone is given)
+ */
+function getTodayDateString(timeZone?: string): string {
+  return toDateString(getNowInTimeZone(timeZone));
+}
+
+/**
+ * Dates for the last N days (oldest first, ending today)
+ */
+function getPastDates(days: number, timeZone?: string): string[] {
+  const today = getNowInTimeZone(timeZone);
+  const dates: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(today);
+    date.setDate(date.getDate() - i);
+    dates.push(toDateString(date));
+  }
+  return dates;
+}
+
+/**
+ * Turn dose instances into outcomes. Today's doses come from the live dose
+ * state (instances already applied, plus any changes not yet reloaded);
+ * today's instances for medications no longer listed still count
+ */
+function collectDoseOutcomes(
+  medications: Medication[],
+  history: DoseHistory[],
+  days: number,
+  timeZone?: string
+): DoseOutcome[] {
+  const today = getTodayDateString(timeZone);
+  const from = getPastDates(days, timeZone)[0];
+  const outcomes: DoseOutcome[] = [];
+  const liveToday = new Set<string>();
+
+  for (const med of medications) {
+    if (med.isActive === false) continue;
+    // As-needed doses are logged apart; off days and dates outside the
+    // prescription have nothing due
+    if (!isDueOnDate(med, today)) continue;
+    const doses =
+      med.doses && med.doses.length > 0
+        ? med.doses
+        : [{ time: med.time, taken: med.taken, skipped: med.skipped }];
+    for (const dose of doses) {
+      liveToday.add(`${med.id}|${dose.time}`);
+      outcomes.push({
+        medicationId: med.id,
+        date: today,
+        time: dose.time,
+        taken: dose.taken,
+        skipped: !dose.taken && !!dose.skipped,
+      });
+    }
+  }
+
+  for (const h of history) {
+    if (h.scheduled_date < from || h.scheduled_date > today) continue;
+    if (h.scheduled_date === today && liveToday.has(`${h.medication_id}|${h.scheduled_time}`)) continue;
+    outcomes.push({
+      medicationId: h.medication_id,
+      date: h.scheduled_date,
+      time: h.scheduled_time,
+      taken: h.status === "taken",
+      skipped: h.status === "skipped",
+    });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Build one adherence entry per date from dose outcomes
+ * Skipped doses are tallied on their own and don't count toward adherence
+ */
+function buildDailyTrend(outcomes: DoseOutcome[], dates: string[]): DailyAdherence[] {
+  const byDate = new Map<string, { scheduled: number; taken: number; skipped: number }>(
+    dates.map((date) => [date, { scheduled: 0, taken: 0, skipped: 0 }])
+  );
+
+  for (const outcome of outcomes) {
+    const day = byDate.get(outcome.date);
+    if (!day) continue;
+    if (outcome.skipped) {
+      day.skipped++;
+      continue;
+    }
+    day.scheduled++;
+    if (outcome.taken) day.taken++;
+  }
+
+  return dates.map((date) => {
+    const { scheduled, taken, skipped } = byDate.get(date)!;
+    return {
+      date,
+      scheduled,
+      taken,
+      missed: scheduled - taken,
+      skipped,
+      adherenceRate: scheduled > 0 ? Math.round((taken / scheduled) * 100) : 0,
+    };
+  });
+}
+
+/**
+ * Average adherence across days that had doses scheduled
+ */
+function averageAdherence(days: DailyAdherence[]): number {
+  const withDoses = days.filter((d) => d.scheduled > 0);
+  if (withDoses.length === 0) return 0;
+  return Math.round(withDoses.reduce((sum, d) => sum + d.adherenceRate, 0) / withDoses.length);
+}
+
+/**
+ * Count current and best runs of fully-adherent days.
+ * Days with nothing scheduled neither extend nor break a streak, and an
+ * incomplete today doesn't break the current streak since it is still in progress.
+ */
+function calculateStreaks(
+  days: DailyAdherence[],
+  timeZone?: string
+): { current: number; best: number } {
+  let best = 0;
+  let run = 0;
+  for (const day of days) {
+    if (day.scheduled === 0) continue;
+    run = day.adherenceRate === 100 ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+
+  const today = getTodayDateString(timeZone);
+  let current = 0;
+  for (let i = days.length - 1; i >= 0; i--) {
+    const day = days[i];
+    if (day.scheduled === 0) continue;
+    if (day.adherenceRate === 100) {
+      current++;
+    } else if (day.date !== today) {
+      break;
+    }
+  }
+
+  return { current, best: Math.max(best, current) };
 }
 
 // ============================================
@@ -132,18 +347,57 @@ function getTodayDateString(): string {
 // ============================================
 
 /**
- * Calculate adherence for a single medication
+ * Whether a history row belongs to a medication or one of its earlier
+ * courses (a renewed prescription keeps its adherence history)
+ */
+function belongsToCourse(medication: Medication, medicationId: string): boolean {
+  return medicationId === medication.id || !!medication.previousCourseIds?.includes(medicationId);
+}
+
+/**
+ * Calculate adherence for a single medication over the given range
  */
-export function calculateMedicationAdherence(medication: Medication): MedicationAdherence {
-  const doses = medication.doses || [];
-  const totalDoses = Math.max(doses.length, 1);
-  const takenDoses = doses.filter(d => d.taken).length + (medication.taken && doses.length === 0 ? 1 : 0);
+export function calculateMedicationAdherence(
+  medication: Medication,
+  history: DoseHistory[] = [],
+  rangeDays: number = 1,
+  timeZone?: string
+): MedicationAdherence {
+  const medHistory = history.filter((h) => belongsToCourse(medication, h.medication_id));
+  const outcomes = collectDoseOutcomes(
+    [medication],
+    medHistory,
+    Math.max(rangeDays, STREAK_LOOKBACK_DAYS),
+    timeZone
+  );
+
+  const rangeStart = getPastDates(rangeDays, timeZone)[0];
+  const inRange = outcomes.filter((o) => o.date >= rangeStart);
+  const skippedDoses = inRange.filter((o) => o.skipped).length;
+  const totalDoses = inRange.length - skippedDoses;
+  const takenDoses = inRange.filter((o) => o.taken).length;
   const missedDoses = totalDoses - takenDoses;
-  const adherenceRate = Math.round((takenDoses / totalDoses) * 100);
-  
-  // Calculate streak (simplified - would need dose history for accurate tracking)
-  const streak = medication.taken ? 1 : 0;
-  
+  const adherenceRate = totalDoses > 0 ? Math.round((takenDoses / totalDoses) * 100) : 0;
+
+  const { current: streak } = calculateStreaks(
+    buildDailyTrend(outcomes, getPastDates(STREAK_LOOKBACK_DAYS, timeZone)),
+    timeZone
+  );
+
+  const lastTakenFromHistory = medHistory
+    .map((h) => h.taken_at)
+    .filter((t): t is string => !!t)
+    .sort()
+    .pop();
+  const lastTaken =
+    medication.takenAt ??
+    medication.doses
+      ?.map((d) => d.takenAt)
+      .filter((t): t is string => !!t)
+      .sort()
+      .pop() ??
+    lastTakenFromHistory;
+
   const daysRemaining = getRemainingDays(medication.endDate);
   
   return {
@@ -153,9 +407,10 @@ export function calculateMedicationAdherence(medication: Medication): Medication
     totalDoses,
     takenDoses,
     missedDoses,
+    skippedDoses,
     adherenceRate,
     streak,
-    lastTaken: medication.takenAt,
+    lastTaken,
     startDate: medication.startDate,
     endDate: medication.endDate,
     daysRemaining,
@@ -165,9 +420,56 @@ export function calculateMedicationAdherence(medication: Medication): Medication
 }
 
 /**
- * Calculate time slot patterns from medications
+ * Calculate adherence per medication between two dates (inclusive).
+ * Today's live dose state counts when the range reaches today; medications
+ * with nothing due in the range are left out.
+ */
+export function calculatePeriodAdherence(
+  medications: Medication[],
+  history: DoseHistory[],
+  from: string,
+  to: string,
+  timeZone?: string
+): PeriodAdherence[] {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = getTodayDateString(timeZone).split("-").map(Number);
+  const days = Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000) + 1;
+  const outcomes = collectDoseOutcomes(medications, history, Math.max(days, 1), timeZone).filter(
+    (o) => o.date >= from && o.date <= to
+  );
+
+  // A renewed course is reported under the course that replaced it
+  const renewedIds = new Set(medications.flatMap((med) => med.previousCourseIds ?? []));
+
+  return medications
+    .filter((medication) => !renewedIds.has(medication.id))
+    .map((medication) => {
+      const medOutcomes = outcomes.filter((o) => belongsToCourse(medication, o.medicationId));
+      const skipped = medOutcomes.filter((o) => o.skipped).length;
+      const scheduled = medOutcomes.length - skipped;
+      const taken = medOutcomes.filter((o) => o.taken).length;
+      return {
+        medicationId: medication.id,
+        medicationName: medication.name,
+        scheduled,
+        taken,
+        missed: scheduled - taken,
+        skipped,
+        adherenceRate: scheduled > 0 ? Math.round((taken / scheduled) * 100) : 0,
+      };
+    })
+    .filter((row) => row.scheduled + row.skipped > 0);
+}
+
+/**
+ * Calculate time slot patterns over the given range (today only by default)
  */
-export function calculateTimeSlotPatterns(medications: Medication[]): TimeSlotPattern[] {
+export function calculateTimeSlotPatterns(
+  medications: Medication[],
+  history: DoseHistory[] = [],
+  rangeDays: number = 1,
+  timeZone?: string
+): TimeSlotPattern[] {
   const slots: Record<TimeSlotPattern["timeSlot"], { scheduled: number; taken: number }> = {
     morning: { scheduled: 0, taken: 0 },
     midday: { scheduled: 0, taken: 0 },
@@ -176,18 +478,11 @@ export function calculateTimeSlotPatterns(medications: Medication[]): TimeSlotPa
     night: { scheduled: 0, taken: 0 },
   };
   
-  for (const med of medications) {
-    if (med.doses && med.doses.length > 0) {
-      for (const dose of med.doses) {
-        const slot = getTimeSlot(dose.time);
-        slots[slot].scheduled++;
-        if (dose.taken) slots[slot].taken++;
-      }
-    } else {
-      const slot = getTimeSlot(med.time);
-      slots[slot].scheduled++;
-      if (med.taken) slots[slot].taken++;
-    }
+  for (const outcome of collectDoseOutcomes(medications, history, rangeDays, timeZone)) {
+    if (outcome.skipped) continue;
+    const slot = getTimeSlot(outcome.time);
+    slots[slot].scheduled++;
+    if (outcome.taken) slots[slot].taken++;
   }
   
   return Object.entries(slots).map(([slot, data]) => ({
@@ -200,33 +495,162 @@ export function calculateTimeSlotPatterns(medications: Medication[]): TimeSlotPa
 }
 
 /**
- * Get medications that need refills soon
+ * Group a daily trend into 7-day buckets (used for long ranges)
+ * Each bucket is dated by its first day
+ */
+export function groupTrendByWeek(trend: DailyAdherence[]): DailyAdherence[] {
+  const weeks: DailyAdherence[] = [];
+  // Align buckets so the last one ends today
+  const offset = trend.length % 7;
+  for (let start = offset === 0 ? 0 : offset - 7; start < trend.length; start += 7) {
+    const days = trend.slice(Math.max(start, 0), start + 7);
+    const scheduled = days.reduce((sum, d) => sum + d.scheduled, 0);
+    const taken = days.reduce((sum, d) => sum + d.taken, 0);
+    weeks.push({
+      date: days[0].date,
+      scheduled,
+      taken,
+      missed: scheduled - taken,
+      skipped: days.reduce((sum, d) => sum + d.skipped, 0),
+      adherenceRate: scheduled > 0 ? Math.round((taken / scheduled) * 100) : 0,
+    });
+  }
+  return weeks;
+}
+
+/**
+ * Summarise how often each as-needed medication was used over the last N days
+ * Medications never used in the range are still listed, with zero counts
+ */
+export function calculatePrnUsage(
+  medications: Medication[],
+  logs: PrnDoseLog[],
+  days: number = 30,
+  timeZone?: string
+): PrnUsagePattern[] {
+  const dates = getPastDates(days, timeZone);
+
+  return medications
+    .filter((med) => med.frequency === "as_needed")
+    .map((med) => {
+      const counts = new Map(dates.map((date) => [date, 0]));
+      const slots = new Map<TimeSlotPattern["timeSlot"], number>();
+      let lastTakenAt: string | null = null;
+
+      for (const log of logs) {
+        if (log.medication_id !== med.id) continue;
+        const takenAt = getNowInTimeZone(timeZone, new Date(log.taken_at));
+        const date = toDateString(takenAt);
+        if (!counts.has(date)) continue;
+
+        counts.set(date, counts.get(date)! + 1);
+        const slot = getTimeSlot(`${takenAt.getHours()}:${String(takenAt.getMinutes()).padStart(2, "0")}`);
+        slots.set(slot, (slots.get(slot) ?? 0) + 1);
+        if (!lastTakenAt || log.taken_at > lastTakenAt) lastTakenAt = log.taken_at;
+      }
+
+      const dailyCounts = dates.map((date) => ({ date, count: counts.get(date)! }));
+      const totalDoses = dailyCounts.reduce((sum, d) => sum + d.count, 0);
+      const busiest = [...slots.entries()].sort((a, b) => b[1] - a[1])[0];
+
+      return {
+        medicationId: med.id,
+        medicationName: med.name,
+        totalDoses,
+        daysUsed: dailyCounts.filter((d) => d.count > 0).length,
+        averagePerDay: Math.round((totalDoses / days) * 10) / 10,
+        maxInOneDay: Math.max(0, ...dailyCounts.map((d) => d.count)),
+        busiestTimeSlot: busiest?.[0] ?? null,
+        lastTakenAt,
+        dailyCounts,
+      };
+    });
+}
+
+/**
+ * Forecast when a medication's pill supply runs out based on its dose schedule
+ * Returns null when inventory isn't tracked or the schedule has no fixed daily use
+ */
+export function forecastSupply(medication: Medication): SupplyForecast | null {
+  if (medication.pillsOnHand === null || medication.pillsOnHand === undefined) {
+    return null;
+  }
+
+  let dosesPerDay = getAverageDosesPerDay(medication);
+  if (dosesPerDay < 0) {
+    // Custom schedule without a count - fall back to the configured doses
+    dosesPerDay = medication.doses?.length ?? 1;
+  }
+  if (dosesPerDay <= 0) return null;
+
+  const pillsPerDay = dosesPerDay * (medication.pillsPerDose ?? 1);
+  const daysOfSupply = Math.floor(medication.pillsOnHand / pillsPerDay);
+
+  const runOut = new Date();
+  runOut.setDate(runOut.getDate() + daysOfSupply);
+
+  return {
+    pillsOnHand: medication.pillsOnHand,
+    pillsPerDay,
+    daysOfSupply,
+    runOutDate: toDateString(runOut),
+    isLowStock: daysOfSupply <= LOW_STOCK_THRESHOLD_DAYS,
+  };
+}
+
+/**
+ * Get medications that need refills soon, either because the prescription
+ * is ending or because the pill supply is running low
  */
 export function getRefillReminders(medications: Medication[]): RefillReminder[] {
   const reminders: RefillReminder[] = [];
   
+  const getUrgency = (daysRemaining: number): RefillReminder["urgency"] => {
+    if (daysRemaining <= 1) return "critical";
+    if (daysRemaining <= 3) return "warning";
+    return "info";
+  };
+  
   for (const med of medications) {
-    if (!med.endDate || med.timePeriod === "ongoing") continue;
+    const candidates: RefillReminder[] = [];
     
-    const daysRemaining = getRemainingDays(med.endDate);
-    if (daysRemaining === null) continue;
+    // Prescription ending within 7 days
+    if (med.endDate && med.timePeriod !== "ongoing") {
+      const daysRemaining = getRemainingDays(med.endDate);
+      if (daysRemaining !== null && daysRemaining <= 7 && daysRemaining >= 0) {
+        candidates.push({
+          medicationId: med.id,
+          medicationName: med.name,
+          category: med.category || "medicine",
+          endDate: med.endDate,
+          daysRemaining,
+          urgency: getUrgency(daysRemaining),
+          reason: "prescription_end",
+        });
+      }
+    }
     
-    // Only show reminders for prescriptions ending within 7 days
-    if (daysRemaining <= 7 && daysRemaining >= 0) {
-      let urgency: RefillReminder["urgency"];
-      if (daysRemaining <= 1) urgency = "critical";
-      else if (daysRemaining <= 3) urgency = "warning";
-      else urgency = "info";
-      
-      reminders.push({
+    // Pill supply running low
+    const supply = forecastSupply(med);
+    if (supply?.isLowStock) {
+      candidates.push({
         medicationId: med.id,
         medicationName: med.name,
         category: med.category || "medicine",
-        endDate: med.endDate,
-        daysRemaining,
-        urgency,
+        endDate: supply.runOutDate,
+        daysRemaining: supply.daysOfSupply,
+        urgency: getUrgency(supply.daysOfSupply),
+        reason: "low_stock",
+        pillsRemaining: supply.pillsOnHand,
       });
     }
+    
+    // Whichever runs out first is what the patient needs to act on
+    if (candidates.length > 0) {
+      reminders.push(
+        candidates.reduce((first, c) => (c.daysRemaining < first.daysRemaining ? c : first))
+      );
+    }
   }
   
   // Sort by urgency (critical first) then by days remaining
@@ -241,32 +665,60 @@ export function getRefillReminders(medications: Medication[]): RefillReminder[]
 
 /**
  * Calculate overall analytics for all medications
+ * Past days come from stored dose history; today comes from the live dose state
  */
-export function calculateOverallAnalytics(medications: Medication[]): OverallAnalytics {
+export function calculateOverallAnalytics(
+  medications: Medication[],
+  history: DoseHistory[] = [],
+  rangeDays: AnalyticsRange = 7,
+  timeZone?: string
+): OverallAnalytics {
   const activeMeds = medications.filter(m => m.isActive !== false);
   
-  // Today's stats
+  // Today's stats (deliberately skipped doses aren't due)
   let todayScheduled = 0;
   let todayTaken = 0;
+  let todaySkipped = 0;
   
   for (const med of activeMeds) {
-    if (med.doses && med.doses.length > 0) {
-      todayScheduled += med.doses.length;
-      todayTaken += med.doses.filter(d => d.taken).length;
-    } else {
+    const doses = med.doses && med.doses.length > 0 ? med.doses : [med];
+    for (const dose of doses) {
+      if (!dose.taken && dose.skipped) {
+        todaySkipped++;
+        continue;
+      }
       todayScheduled++;
-      if (med.taken) todayTaken++;
+      if (dose.taken) todayTaken++;
     }
   }
   
   const todayMissed = todayScheduled - todayTaken;
   const todayAdherence = todayScheduled > 0 ? Math.round((todayTaken / todayScheduled) * 100) : 0;
   
-  // Overall adherence
-  const overallAdherence = todayAdherence; // Simplified - would need historical data for true overall
+  // Daily trends from history
+  const outcomes = collectDoseOutcomes(
+    activeMeds,
+    history,
+    Math.max(rangeDays, STREAK_LOOKBACK_DAYS),
+    timeZone
+  );
+  const trend = buildDailyTrend(outcomes, getPastDates(rangeDays, timeZone));
+  const weeklyTrend = buildDailyTrend(outcomes, getPastDates(7, timeZone));
+  const weeklyAverage = averageAdherence(weeklyTrend);
+  const rangeAverage = averageAdherence(trend);
+  
+  const rangeScheduled = trend.reduce((sum, d) => sum + d.scheduled, 0);
+  const rangeTaken = trend.reduce((sum, d) => sum + d.taken, 0);
+  const rangeSkipped = trend.reduce((sum, d) => sum + d.skipped, 0);
+  const overallAdherence = rangeScheduled > 0 ? Math.round((rangeTaken / rangeScheduled) * 100) : 0;
+  
+  const rangeStart = trend[0].date;
+  const hasHistory = history.some(
+    (h) => h.scheduled_date >= rangeStart && h.scheduled_date < getTodayDateString(timeZone)
+  );
   
   // Time slot patterns
-  const timeSlotPatterns = calculateTimeSlotPatterns(activeMeds);
+  const timeSlotPatterns = calculateTimeSlotPatterns(activeMeds, history, rangeDays, timeZone);
   const slotsWithData = timeSlotPatterns.filter(s => s.scheduledCount > 0);
   const weakestTimeSlot = slotsWithData.length > 0 
     ? slotsWithData.reduce((min, s) => s.adherenceRate < min.adherenceRate ? s : min)
@@ -276,7 +728,9 @@ export function calculateOverallAnalytics(medications: Medication[]): OverallAna
     : null;
   
   // Medication adherence details
-  const medAdherences = activeMeds.map(calculateMedicationAdherence);
+  const medAdherences = activeMeds.map((med) =>
+    calculateMedicationAdherence(med, history, rangeDays, timeZone)
+  );
   
   // Prescription status
   const expiringSoon = medAdherences.filter(m => m.isEndingSoon && !m.isExpired);
@@ -287,44 +741,23 @@ export function calculateOverallAnalytics(medications: Medication[]): OverallAna
     m.daysRemaining >= 0
   );
   
-  // Weekly trend (mock data for now - would need dose_history table)
-  const today = new Date();
-  const weeklyTrend: DailyAdherence[] = [];
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split("T")[0];
-    
-    // For demo purposes, generate based on today's data with some variation
-    const variation = Math.random() * 20 - 10;
-    const dayAdherence = Math.max(0, Math.min(100, todayAdherence + variation));
-    
-    weeklyTrend.push({
-      date: dateStr,
-      scheduled: todayScheduled,
-      taken: Math.round(todayScheduled * dayAdherence / 100),
-      missed: Math.round(todayScheduled * (100 - dayAdherence) / 100),
-      adherenceRate: Math.round(dayAdherence),
-    });
-  }
-  
-  const weeklyAverage = weeklyTrend.length > 0
-    ? Math.round(weeklyTrend.reduce((sum, d) => sum + d.adherenceRate, 0) / weeklyTrend.length)
-    : 0;
+  // Check if improving (compare the later half of the range vs the earlier half)
+  const daysWithData = trend.filter(d => d.scheduled > 0);
+  const half = Math.floor(daysWithData.length / 2);
+  const isImproving = half > 0 &&
+    averageAdherence(daysWithData.slice(-half)) > averageAdherence(daysWithData.slice(0, half));
   
-  // Check if improving (compare last 3 days vs first 3 days)
-  const recentAvg = weeklyTrend.slice(-3).reduce((sum, d) => sum + d.adherenceRate, 0) / 3;
-  const olderAvg = weeklyTrend.slice(0, 3).reduce((sum, d) => sum + d.adherenceRate, 0) / 3;
-  const isImproving = recentAvg > olderAvg;
-  
-  // Streak calculation (simplified)
-  const currentStreak = todayAdherence === 100 ? 1 : 0;
-  const bestStreak = currentStreak; // Would need historical data
+  // Streaks over the full lookback window
+  const { current: currentStreak, best: bestStreak } = calculateStreaks(
+    buildDailyTrend(outcomes, getPastDates(STREAK_LOOKBACK_DAYS, timeZone)),
+    timeZone
+  );
   
   return {
     todayScheduled,
     todayTaken,
     todayMissed,
+    todaySkipped,
     todayAdherence,
     totalMedications: medications.length,
     activeMedications: activeMeds.length,
@@ -340,6 +773,12 @@ export function calculateOverallAnalytics(medications: Medication[]): OverallAna
     weeklyTrend,
     weeklyAverage,
     isImproving,
+    rangeDays,
+    trend,
+    rangeAverage,
+    rangeSkipped,
+    medicationAdherence: medAdherences,
+    hasHistory,
   };
 }
 
@@ -388,7 +827,7 @@ export function generateInsights(analytics: OverallAnalytics): string[] {
   
   // Weekly trend
   if (analytics.isImproving) {
-    insights.push("📈 Your adherence is improving compared to last week. Keep it up!");
+    insights.push("📈 Your adherence is improving compared to earlier in this period. Keep it up!");
   }
   
   return insights;
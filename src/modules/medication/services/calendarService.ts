@@ -0,0 +1,439 @@
+// ============================================
+// Calendar Export Service
+// Builds an iCalendar (RFC 5545) file of a dose schedule for Google Calendar,
+// Apple Calendar and Outlook. Mirrored by server/services/calendarFeed.js,
+// which serves the same events as a subscribable feed.
+// ============================================
+
+import type { Medication } from "@/types";
+import type { DailyRoutine, FrequencyType } from "../types";
+import {
+  addDaysToDateString,
+  calculateDoseTimes,
+  getDosesPerDoseDay,
+  getTimeZoneOffsetMinutes,
+  isDoseDay,
+  isValidTimeZone,
+  to24HourTime,
+  toLocalDateString,
+} from "./scheduleService";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// How long each dose shows in the calendar
+const DOSE_EVENT_MINUTES = 15;
+
+export interface ScheduleCalendarOptions {
+  /** Shown as the calendar's name, e.g. "Lola's medicines" */
+  calendarName: string;
+  /** Patient's IANA time zone; dose times are wall-clock times there */
+  timeZone?: string;
+  /** Routine used to place anchored doses */
+  routine?: DailyRoutine;
+  /** Put before each event title, e.g. the patient's name on a companion's calendar */
+  summaryPrefix?: string;
+  /** Add a reminder at each dose time */
+  includeAlarms?: boolean;
+  now?: Date;
+}
+
+/**
+ * A run of doses at one time of day that repeats on a rule
+ */
+interface DoseSeries {
+  uid: string;
+  startDate: string; // First dose day (YYYY-MM-DD)
+  time: string; // HH:mm, 24-hour
+  rrule: string;
+  dosage: string;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Escape text for a TEXT property value
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines lose one to the space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatIcsDate(dateStr: string): string {
+  return dateStr.replace(/-/g, "");
+}
+
+function formatIcsLocalDateTime(dateStr: string, time: string): string {
+  return `${formatIcsDate(dateStr)}T${time.replace(":", "")}00`;
+}
+
+function formatIcsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * The last moment of a day on the patient's clock, in UTC
+ * (RFC 5545 requires UNTIL in UTC when DTSTART has a time zone)
+ */
+function getEndOfDayUtc(dateStr: string, timeZone?: string): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  if (!timeZone) return `${formatIcsDate(dateStr)}T235959`;
+
+  const wallClock = Date.UTC(year, month - 1, day, 23, 59, 59);
+  const offset = getTimeZoneOffsetMinutes(timeZone, new Date(wallClock));
+  return formatIcsUtc(new Date(wallClock - offset * 60000));
+}
+
+// ============================================
+// Time Zone
+// ============================================
+
+interface OffsetChange {
+  at: Date;
+  from: number; // UTC offset in minutes before the change
+  to: number; // and after it
+}
+
+function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Moments in a year when a zone's UTC offset changes (daylight saving),
+ * found day by day and narrowed to the minute
+ */
+function findOffsetChanges(timeZone: string, year: number): OffsetChange[] {
+  const changes: OffsetChange[] = [];
+  let start = Date.UTC(year, 0, 1);
+  let offset = getTimeZoneOffsetMinutes(timeZone, new Date(start));
+
+  for (let day = 1; day <= 366; day++) {
+    const end = Date.UTC(year, 0, 1 + day);
+    const next = getTimeZoneOffsetMinutes(timeZone, new Date(end));
+    if (next !== offset) {
+      let low = start;
+      let high = end;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffsetMinutes(timeZone, new Date(mid)) === offset) low = mid;
+        else high = mid;
+      }
+      changes.push({ at: new Date(high), from: offset, to: next });
+    }
+    start = end;
+    offset = next;
+  }
+
+  return changes;
+}
+
+/**
+ * Day of the month of the nth weekday (-1 for the last one)
+ */
+function getNthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): number {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+  }
+  const last = new Date(Date.UTC(year, month, 0));
+  return last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7);
+}
+
+/**
+ * A yearly DAYLIGHT or STANDARD rule for an offset change, on the same
+ * weekday of the month (e.g. the second Sunday of March) from 1970 on
+ */
+function buildObservance(change: OffsetChange): string[] {
+  // Onset is the local time just before the change, e.g. 02:00
+  const onset = new Date(change.at.getTime() + change.from * 60000);
+  const month = onset.getUTCMonth() + 1;
+  const weekday = onset.getUTCDay();
+  const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), month, 0)).getUTCDate();
+  const nth = onset.getUTCDate() + 7 > daysInMonth ? -1 : Math.ceil(onset.getUTCDate() / 7);
+  const firstDay = getNthWeekdayOfMonth(1970, month, weekday, nth);
+  const time = onset.toISOString().slice(11, 19).replace(/:/g, "");
+  const type = change.to > change.from ? "DAYLIGHT" : "STANDARD";
+
+  return [
+    `BEGIN:${type}`,
+    `DTSTART:1970${String(month).padStart(2, "0")}${String(firstDay).padStart(2, "0")}T${time}`,
+    `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${nth}${ICS_WEEKDAYS[weekday]}`,
+    `TZOFFSETFROM:${formatUtcOffset(change.from)}`,
+    `TZOFFSETTO:${formatUtcOffset(change.to)}`,
+    `END:${type}`,
+  ];
+}
+
+/**
+ * VTIMEZONE for the zone dose times are in (RFC 5545 requires one for every
+ * TZID). Read from this year's offsets: a yearly daylight-saving pair becomes
+ * two rules, any other zone keeps its current offset all year
+ */
+function buildTimeZoneComponent(timeZone: string, now: Date): string[] {
+  const changes = findOffsetChanges(timeZone, now.getUTCFullYear());
+  const offset = formatUtcOffset(getTimeZoneOffsetMinutes(timeZone, now));
+  const observances =
+    changes.length === 2
+      ? changes.flatMap(buildObservance)
+      : ["BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD"];
+
+  return ["BEGIN:VTIMEZONE", `TZID:${timeZone}`, ...observances, "END:VTIMEZONE"];
+}
+
+// ============================================
+// Recurrence
+// ============================================
+
+/**
+ * Days after which a day pattern repeats (null for every day)
+ */
+function getRepeatDays(
+  medication: Pick<Medication, "cycleDaysOn" | "cycleDaysOff">,
+  frequency: FrequencyType
+): number | null {
+  switch (frequency) {
+    case "every_other_day":
+      return 2;
+    case "weekly":
+    case "specific_days":
+      return 7;
+    case "cycle": {
+      const daysOn = medication.cycleDaysOn ?? 0;
+      return daysOn > 0 ? daysOn + (medication.cycleDaysOff ?? 0) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the repeating series for one stretch of a regimen (the whole
+ * prescription, or one taper phase), one per dose time and dose day pattern.
+ * Daily doses repeat every day; alternate-day, weekly and cycle doses repeat
+ * every 2, 7 or (on + off) days from each dose day in the first repeat;
+ * chosen weekdays use BYDAY.
+ */
+function buildSeries(
+  medication: Medication,
+  regimen: { key: string; frequency: FrequencyType; dosage: string; times: string[] },
+  fromDate: string,
+  toDate: string | undefined,
+  timeZone: string | undefined
+): DoseSeries[] {
+  const until = toDate ? `;UNTIL=${getEndOfDayUtc(toDate, timeZone)}` : "";
+  const pattern = { ...medication, frequency: regimen.frequency };
+  const repeatDays = getRepeatDays(medication, regimen.frequency);
+
+  const series = (startDate: string, rrule: string, suffix: string) =>
+    regimen.times.map((time) => ({
+      uid: `${medication.id}-${regimen.key}-${suffix}-${time.replace(":", "")}`,
+      startDate,
+      time,
+      rrule,
+      dosage: regimen.dosage,
+    }));
+
+  if (!repeatDays) {
+    return series(fromDate, `FREQ=DAILY${until}`, "daily");
+  }
+
+  // Dose days in the first repeat; each one recurs every repeatDays
+  const doseDays: string[] = [];
+  for (let offset = 0; offset < repeatDays; offset++) {
+    const date = addDaysToDateString(fromDate, offset);
+    if (toDate && date > toDate) break;
+    if (isDoseDay(pattern, date)) doseDays.push(date);
+  }
+  if (doseDays.length === 0) return [];
+
+  if (regimen.frequency === "specific_days" && medication.daysOfWeek?.length) {
+    const byDay = [...medication.daysOfWeek].sort().map((d) => ICS_WEEKDAYS[d]).join(",");
+    return series(doseDays[0], `FREQ=WEEKLY;BYDAY=${byDay}${until}`, "weekdays");
+  }
+
+  const rrule = repeatDays === 7 ? `FREQ=WEEKLY${until}` : `FREQ=DAILY;INTERVAL=${repeatDays}${until}`;
+  return doseDays.flatMap((date, index) => series(date, rrule, `day${index}`));
+}
+
+/**
+ * Dose times (HH:mm) on a dose day of a regimen. Today's schedule is used as is;
+ * taper phases with another frequency are recalculated. Doses that roll over
+ * from day to day ("continue" mode) are shown at today's times.
+ */
+function getRegimenTimes(
+  medication: Medication,
+  frequency: FrequencyType,
+  customFrequency: number | undefined,
+  routine: DailyRoutine | undefined
+): string[] {
+  const scheduled = (medication.doses ?? []).map((dose) => to24HourTime(dose.time));
+  if (scheduled.length === getDosesPerDoseDay(frequency, customFrequency)) {
+    return [...new Set(scheduled)].sort();
+  }
+
+  const doses = calculateDoseTimes(
+    to24HourTime(medication.startTime || medication.time || "08:00"),
+    frequency,
+    customFrequency,
+    medication.nextDayMode ?? "restart",
+    { routine, anchors: medication.doseAnchors }
+  );
+  return [...new Set(doses.map((dose) => dose.time))].sort();
+}
+
+// ============================================
+// Calendar
+// ============================================
+
+/**
+ * Build an .ics calendar of the dose schedule: a repeating event per dose time,
+ * from each medication's start date to its end date (or the end of each taper phase).
+ * As-needed and inactive medications have no schedule and are left out.
+ */
+export function buildScheduleCalendar(
+  medications: Medication[],
+  options: ScheduleCalendarOptions
+): string {
+  const { calendarName, routine, summaryPrefix, includeAlarms = true, now = new Date() } = options;
+  const timeZone = isValidTimeZone(options.timeZone) ? options.timeZone : undefined;
+  const today = toLocalDateString(now);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AInay//Medication Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : []),
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...(timeZone ? buildTimeZoneComponent(timeZone, now) : []),
+  ];
+
+  for (const medication of medications) {
+    if (!medication.isActive || medication.frequency === "as_needed") continue;
+
+    const regimens = medication.dosePhases?.length
+      ? medication.dosePhases.map((phase) => ({
+          key: phase.id,
+          fromDate: phase.startDate,
+          toDate: phase.endDate,
+          frequency: phase.frequency,
+          customFrequency: phase.customFrequency,
+          dosage: phase.dosage,
+        }))
+      : [
+          {
+            key: "main",
+            fromDate: medication.startDate || today,
+            toDate: medication.endDate,
+            frequency: medication.frequency,
+            customFrequency: medication.customFrequency,
+            dosage: medication.dosage,
+          },
+        ];
+
+    for (const regimen of regimens) {
+      if (regimen.frequency === "as_needed") continue;
+      if (regimen.toDate && regimen.toDate < regimen.fromDate) continue;
+
+      const times = getRegimenTimes(medication, regimen.frequency, regimen.customFrequency, routine);
+      const seriesList = buildSeries(
+        medication,
+        { ...regimen, times },
+        regimen.fromDate,
+        regimen.toDate,
+        timeZone
+      );
+
+      for (const series of seriesList) {
+        const start = formatIcsLocalDateTime(series.startDate, series.time);
+        const title = `${summaryPrefix ? `${summaryPrefix}: ` : ""}${medication.name} ${series.dosage}`;
+
+        lines.push(
+          "BEGIN:VEVENT",
+          `UID:${series.uid}@ainay`,
+          `DTSTAMP:${formatIcsUtc(now)}`,
+          timeZone ? `DTSTART;TZID=${timeZone}:${start}` : `DTSTART:${start}`,
+          `DURATION:PT${DOSE_EVENT_MINUTES}M`,
+          `RRULE:${series.rrule}`,
+          `SUMMARY:${escapeText(title.trim())}`,
+          ...(medication.instructions ? [`DESCRIPTION:${escapeText(medication.instructions)}`] : []),
+          "TRANSP:TRANSPARENT"
+        );
+        if (includeAlarms) {
+          lines.push(
+            "BEGIN:VALARM",
+            "ACTION:DISPLAY",
+            `DESCRIPTION:${escapeText(`Time to take ${medication.name}`)}`,
+            "TRIGGER:PT0M",
+            "END:VALARM"
+          );
+        }
+        lines.push("END:VEVENT");
+      }
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * File name for a downloaded calendar, e.g. "lola-medicines.ics"
+ */
+export function getCalendarFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "medication"}-schedule.ics`;
+}
+
+/**
+ * URL the server serves a calendar feed at
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${API_BASE_URL}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Subscribe link for a feed URL; webcal:// opens the calendar app directly
+ */
+export function toWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, "webcal://");
+}
@@ -0,0 +1,335 @@
+// ============================================
+// Daily Dose Limit Service
+// Parses free-text dosages ("500mg", "2 tabs", "10 ml"), works out how much
+// of each ingredient a medication adds up to in a day, and checks the
+// totals (across products) against MAX_DAILY_DOSES_MG
+// ============================================
+
+import type { Medication } from "@/types";
+import type { Drug } from "@/services/drugDatabase";
+import type { FrequencyType, TaperStep } from "../types";
+import {
+  DAILY_DOSE_WARNING_RATIO,
+  MAX_DAILY_DOSES_MG,
+  getTodayDateString,
+} from "../constants";
+import { getDosesPerDoseDay } from "./scheduleService";
+import { lookupMedicine, splitGenericName, stripStrength } from "./duplicationService";
+
+/**
+ * A dosage string broken into amounts; any part may be missing
+ */
+export interface ParsedDosage {
+  massMg: number | null; // "500mg", "1 g"
+  volumeMl: number | null; // "10 ml", "2 tsp"
+  count: number | null; // "2 tabs", "1 capsule", "½"
+  form: "solid" | "liquid" | null; // From the counted unit or a volume
+  massPerUnit: boolean; // "2 tabs of 500mg": the mass is for each tablet
+}
+
+/**
+ * How much of an ingredient one medication adds to a day
+ */
+export interface DailyDoseContribution {
+  medicationName: string;
+  perDoseMg: number;
+  dosesPerDay: number;
+  dailyMg: number;
+}
+
+export interface DailyDoseWarning {
+  ingredient: string;
+  level: "exceeded" | "near";
+  totalMg: number;
+  maxMg: number;
+  percent: number;
+  contributions: DailyDoseContribution[];
+}
+
+export interface DailyDoseCheckResult {
+  hasWarnings: boolean;
+  exceeded: boolean;
+  warnings: DailyDoseWarning[];
+}
+
+/**
+ * The parts of a medication the check needs (a Medication, the add flow's
+ * MedicineFormData and the edit form all fit)
+ */
+export type DoseLimitInput = Pick<Medication, "name" | "dosage" | "frequency"> &
+  Partial<
+    Pick<
+      Medication,
+      "id" | "customFrequency" | "pillsPerDose" | "prnMaxDailyDoses" | "isActive" | "dosePhases"
+    >
+  > & {
+    taperSteps?: TaperStep[];
+  };
+
+const MASS_UNITS_MG: Record<string, number> = { mg: 1, mcg: 0.001, "µg": 0.001, g: 1000 };
+const VOLUME_UNITS_ML: Record<string, number> = { ml: 1, cc: 1, tsp: 5, tbsp: 15 };
+
+const SOLID_UNIT_PATTERN = "tab(?:let)?s?|cap(?:sule)?s?|pills?|pcs?|pieces?|caplets?|sachets?";
+const FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75, "1/2": 0.5, "1/4": 0.25, "3/4": 0.75 };
+
+const LIQUID_FORMS = /suspension|syrup|solution|drops|elixir|emulsion|liquid/i;
+const SOLID_FORMS = /tablet|capsule|caplet|lozenge|sachet|granule|powder/i;
+
+// ============================================
+// Parsing
+// ============================================
+
+function toNumber(value: string): number {
+  return FRACTIONS[value] ?? parseFloat(value.replace(/,/g, ""));
+}
+
+/**
+ * Parse a free-text dosage into mass, volume and unit count
+ */
+export function parseDosage(dosage: string): ParsedDosage {
+  const text = dosage.toLowerCase();
+  const number = "(\\d+(?:[.,]\\d+)?|½|¼|¾|1/2|1/4|3/4)";
+
+  const mass = text.match(new RegExp(`${number}\\s*(mg|mcg|µg|g)(?![a-z])`));
+  const volume = text.match(new RegExp(`${number}\\s*(ml|cc|tsp|tbsp)(?![a-z])`));
+  const counted = text.match(new RegExp(`${number}\\s*(?:x\\s*)?(${SOLID_UNIT_PATTERN})(?![a-z])`));
+  // "2 x 500mg" counts units too
+  const multiplied = text.match(new RegExp(`${number}\\s*x\\s*\\d`));
+  const bare = text.trim().match(new RegExp(`^${number}$`));
+
+  const massMg = mass ? toNumber(mass[1]) * MASS_UNITS_MG[mass[2]] : null;
+  const volumeMl = volume ? toNumber(volume[1]) * VOLUME_UNITS_ML[volume[2]] : null;
+  const countMatch = counted ?? multiplied ?? bare;
+  const count = countMatch ? toNumber(countMatch[1]) : null;
+
+  return {
+    massMg,
+    volumeMl,
+    count,
+    form: counted ? "solid" : volumeMl !== null ? "liquid" : null,
+    // A mass written after the count is per unit; "1000mg (2 tabs)" is the total
+    massPerUnit: !!(mass && countMatch && countMatch.index! < mass.index!),
+  };
+}
+
+/**
+ * Parse a database strength ("500 Mg", "250 Mg/5 Ml", "20 Mg/1Mg/325 Mg")
+ * into mg for each ingredient and the volume they come in, if a liquid
+ */
+function parseStrength(strength: string): { massesMg: number[]; perMl: number | null } {
+  const parts = strength.toLowerCase().split(/\s+per\s+|\//);
+  const massesMg: number[] = [];
+  let perMl: number | null = null;
+
+  for (const part of parts) {
+    const mass = part.match(/(\d+(?:[.,]\d+)?)\s*(mg|mcg|µg|g)(?![a-z])/);
+    const volume = part.match(/(\d+(?:[.,]\d+)?)?\s*ml(?![a-z])/);
+    if (mass) {
+      massesMg.push(toNumber(mass[1]) * MASS_UNITS_MG[mass[2]]);
+    } else if (volume) {
+      perMl = volume[1] ? toNumber(volume[1]) : 1;
+    }
+  }
+  return { massesMg, perMl };
+}
+
+/**
+ * Amount of each ingredient in one dose, or an empty list when the dosage
+ * can't be turned into milligrams
+ */
+function getPerDoseIngredients(
+  dosage: string,
+  medicineName: string,
+  drug: Drug | null,
+  ingredientKeys: string[],
+  pillsPerDose?: number
+): { key: string; mg: number }[] {
+  const parsed = parseDosage(dosage);
+  const strength = drug ? parseStrength(drug.strength) : { massesMg: [], perMl: null };
+  const drugForm = drug
+    ? LIQUID_FORMS.test(drug.form)
+      ? "liquid"
+      : SOLID_FORMS.test(drug.form)
+      ? "solid"
+      : null
+    : null;
+  // The strength only applies when the dosage is in the drug's own units
+  const strengthFits =
+    strength.massesMg.length === ingredientKeys.length &&
+    (!parsed.form || !drugForm || parsed.form === drugForm);
+
+  // Liquid measured in ml
+  if (parsed.volumeMl !== null && parsed.massMg === null) {
+    if (!strengthFits || !strength.perMl) return [];
+    const ratio = parsed.volumeMl / strength.perMl;
+    return ingredientKeys.map((key, i) => ({ key, mg: strength.massesMg[i] * ratio }));
+  }
+
+  // A written mass covers single-ingredient medicines only
+  if (parsed.massMg !== null) {
+    if (ingredientKeys.length !== 1) return [];
+    const units = parsed.massPerUnit ? parsed.count ?? 1 : 1;
+    return [{ key: ingredientKeys[0], mg: parsed.massMg * units }];
+  }
+
+  // Counted tablets: the database strength, else one in the name ("Biogesic 500mg")
+  const count = parsed.count ?? pillsPerDose ?? 1;
+  if (strengthFits && !strength.perMl) {
+    return ingredientKeys.map((key, i) => ({ key, mg: strength.massesMg[i] * count }));
+  }
+  const nameMass = parseDosage(medicineName).massMg;
+  if (nameMass !== null && ingredientKeys.length === 1) {
+    return [{ key: ingredientKeys[0], mg: nameMass * count }];
+  }
+  return [];
+}
+
+// ============================================
+// Daily totals
+// ============================================
+
+/**
+ * Dosages and frequencies the medication is (or will be) taken at: the
+ * remaining taper phases, the taper steps being entered, or the plain dosage
+ */
+function getRegimens(
+  input: DoseLimitInput,
+  today: string
+): { dosage: string; frequency: FrequencyType; customFrequency?: number }[] {
+  const phases = input.dosePhases?.filter((phase) => phase.endDate >= today) ?? [];
+  if (phases.length > 0) return phases;
+  if (input.taperSteps?.length) {
+    return input.taperSteps.map((step) => ({
+      dosage: step.dosage,
+      frequency: step.frequency ?? input.frequency,
+      customFrequency: input.customFrequency,
+    }));
+  }
+  return [input];
+}
+
+/**
+ * Highest daily amount of each ingredient (mg) a medication reaches
+ */
+async function getDailyIngredientAmounts(
+  input: DoseLimitInput,
+  today: string
+): Promise<Map<string, DailyDoseContribution>> {
+  const amounts = new Map<string, DailyDoseContribution>();
+  if (input.isActive === false) return amounts;
+
+  const { drug, genericName } = await lookupMedicine(input.name);
+  const ingredientKeys = [...new Set(splitGenericName(genericName || stripStrength(input.name)))];
+
+  for (const regimen of getRegimens(input, today)) {
+    // As-needed doses count at their daily maximum, when one is set
+    const dosesPerDay =
+      regimen.frequency === "as_needed"
+        ? input.prnMaxDailyDoses ?? 0
+        : getDosesPerDoseDay(regimen.frequency, regimen.customFrequency);
+    if (dosesPerDay <= 0) continue;
+
+    const perDose = getPerDoseIngredients(
+      regimen.dosage,
+      input.name,
+      drug,
+      ingredientKeys,
+      input.pillsPerDose
+    );
+    for (const { key, mg } of perDose) {
+      const dailyMg = mg * dosesPerDay;
+      if (dailyMg > (amounts.get(key)?.dailyMg ?? 0)) {
+        amounts.set(key, { medicationName: input.name, perDoseMg: mg, dosesPerDay, dailyMg });
+      }
+    }
+  }
+  return amounts;
+}
+
+function formatIngredient(key: string): string {
+  return key.replace(/\b[a-z]/g, (char) => char.toUpperCase());
+}
+
+/**
+ * Total each limited ingredient across medications and keep the ones at or
+ * near their maximum
+ */
+async function buildWarnings(
+  inputs: DoseLimitInput[],
+  onlyIngredients: Set<string> | null,
+  timeZone?: string
+): Promise<DailyDoseWarning[]> {
+  const today = getTodayDateString(timeZone);
+  const byIngredient = new Map<string, DailyDoseContribution[]>();
+
+  for (const input of inputs) {
+    const amounts = await getDailyIngredientAmounts(input, today);
+    for (const [key, contribution] of amounts) {
+      if (MAX_DAILY_DOSES_MG[key] === undefined) continue;
+      if (onlyIngredients && !onlyIngredients.has(key)) continue;
+      byIngredient.set(key, [...(byIngredient.get(key) ?? []), contribution]);
+    }
+  }
+
+  const warnings: DailyDoseWarning[] = [];
+  for (const [key, contributions] of byIngredient) {
+    const maxMg = MAX_DAILY_DOSES_MG[key];
+    const totalMg = contributions.reduce((sum, c) => sum + c.dailyMg, 0);
+    if (totalMg < maxMg * DAILY_DOSE_WARNING_RATIO) continue;
+
+    warnings.push({
+      ingredient: formatIngredient(key),
+      level: totalMg > maxMg ? "exceeded" : "near",
+      totalMg,
+      maxMg,
+      percent: Math.round((totalMg / maxMg) * 100),
+      contributions,
+    });
+  }
+  return warnings.sort((a, b) => b.percent - a.percent);
+}
+
+// ============================================
+// Checks
+// ============================================
+
+/**
+ * Check a medication being added or edited against the daily maximums,
+ * counting the same ingredient in the other current medications
+ */
+export async function checkDailyDoseLimits(
+  medication: DoseLimitInput,
+  currentMedications: Medication[],
+  timeZone?: string
+): Promise<DailyDoseCheckResult> {
+  const today = getTodayDateString(timeZone);
+  const ingredients = new Set((await getDailyIngredientAmounts(medication, today)).keys());
+  // An edited medication replaces its saved version
+  const others = currentMedications.filter((med) => !medication.id || med.id !== medication.id);
+
+  const warnings =
+    ingredients.size > 0 ? await buildWarnings([medication, ...others], ingredients, timeZone) : [];
+  return {
+    hasWarnings: warnings.length > 0,
+    exceeded: warnings.some((warning) => warning.level === "exceeded"),
+    warnings,
+  };
+}
+
+/**
+ * Ingredients a whole regimen takes at or near their daily maximum
+ */
+export async function findDailyDoseWarnings(
+  medications: DoseLimitInput[],
+  timeZone?: string
+): Promise<DailyDoseWarning[]> {
+  return buildWarnings(medications, null, timeZone);
+}
+
+/**
+ * "4 g" or "650 mg"
+ */
+export function formatMilligrams(mg: number): string {
+  if (mg >= 1000) return `${Math.round(mg / 100) / 10} g`;
+  return `${Math.round(mg * 10) / 10} mg`;
+}
@@ -0,0 +1,200 @@
+// ============================================
+// Therapeutic Duplication Service
+// Resolves medications to their generic ingredients (through the drug
+// database and MEDICINE_ALIASES) so the same drug under a brand name and
+// its generic name, or inside a combination product, is noticed
+// ============================================
+
+import type { Medication } from "@/types";
+import { findDrug, getAliasedGenericName, type Drug } from "@/services/drugDatabase";
+
+// Salt and hydrate words dropped from the end of an ingredient
+// ("Losartan Potassium" and "Losartan" are the same drug)
+const SALT_WORDS = new Set([
+  "hydrochloride",
+  "hcl",
+  "hydrobromide",
+  "hbr",
+  "sodium",
+  "potassium",
+  "calcium",
+  "magnesium",
+  "maleate",
+  "besilate",
+  "besylate",
+  "mesylate",
+  "mesilate",
+  "sulfate",
+  "sulphate",
+  "tartrate",
+  "succinate",
+  "fumarate",
+  "citrate",
+  "phosphate",
+  "acetate",
+  "monohydrate",
+  "dihydrate",
+  "trihydrate",
+]);
+
+/**
+ * A medication's generic ingredients
+ */
+export interface MedicationIngredients {
+  name: string;
+  ingredients: string[]; // Display names, e.g. ["Paracetamol", "Phenylephrine"]
+  isCombination: boolean;
+  resolved: boolean; // Found in the drug database or alias list (otherwise the name is used as is)
+}
+
+/**
+ * A new medicine sharing ingredients with a current medication
+ */
+export interface DetectedDuplicate {
+  currentMedication: string;
+  sharedIngredients: string[];
+}
+
+export interface DuplicationCheckResult {
+  hasDuplicates: boolean;
+  ingredients: MedicationIngredients;
+  duplicates: DetectedDuplicate[];
+}
+
+/**
+ * An ingredient the regimen takes from more than one medication
+ */
+export interface TherapeuticDuplicate {
+  ingredient: string;
+  medications: { id: string; name: string; isCombination: boolean }[];
+}
+
+// ============================================
+// Ingredients
+// ============================================
+
+/**
+ * Comparable key for an ingredient: lowercase, no "(as ...)" notes, no salt words
+ */
+export function toIngredientKey(ingredient: string): string {
+  const words = ingredient
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && SALT_WORDS.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(" ");
+}
+
+function toDisplayName(key: string): string {
+  return key.replace(/\b[a-z]/g, (char) => char.toUpperCase());
+}
+
+/**
+ * Split a generic name into ingredients ("Paracetamol + Caffeine")
+ */
+export function splitGenericName(genericName: string): string[] {
+  return genericName
+    .split(/\s*\+\s*|\s+\/\s+|\s+and\s+/i)
+    .map(toIngredientKey)
+    .filter(Boolean);
+}
+
+/**
+ * A medicine name without a strength like "500mg"
+ */
+export function stripStrength(name: string): string {
+  return name
+    .replace(/\b\d+(\.\d+)?\s*(mg|mcg|µg|g|ml|iu|%)(?![a-z])/gi, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Look a medicine name up in the drug database by brand or generic name,
+ * then in the alias list (each also tried without its strength)
+ */
+export async function lookupMedicine(
+  name: string
+): Promise<{ drug: Drug | null; genericName: string | null }> {
+  const trimmed = name.trim();
+  for (const candidate of [trimmed, stripStrength(trimmed)]) {
+    if (!candidate) continue;
+    const drug = await findDrug(candidate);
+    const genericName = drug?.genericName || getAliasedGenericName(candidate);
+    if (genericName) return { drug, genericName };
+  }
+  return { drug: null, genericName: null };
+}
+
+/**
+ * Resolve a medicine name to its generic ingredients through the drug
+ * database and alias list, falling back to the name itself
+ */
+export async function resolveIngredients(name: string): Promise<MedicationIngredients> {
+  const trimmed = name.trim();
+  const withoutStrength = stripStrength(trimmed);
+  const { genericName } = await lookupMedicine(trimmed);
+
+  const keys = [...new Set(splitGenericName(genericName || withoutStrength || trimmed))];
+  return {
+    name: trimmed,
+    ingredients: keys.map(toDisplayName),
+    isCombination: keys.length > 1,
+    resolved: !!genericName,
+  };
+}
+
+// ============================================
+// Checks
+// ============================================
+
+/**
+ * Check a new medicine against current medications for shared ingredients
+ */
+export async function checkDuplication(
+  newMedicineName: string,
+  currentMedications: Pick<Medication, "name">[]
+): Promise<DuplicationCheckResult> {
+  const ingredients = await resolveIngredients(newMedicineName);
+  const newKeys = new Set(ingredients.ingredients.map(toIngredientKey));
+  const duplicates: DetectedDuplicate[] = [];
+
+  for (const med of currentMedications) {
+    const current = await resolveIngredients(med.name);
+    const shared = current.ingredients.filter((ingredient) => newKeys.has(toIngredientKey(ingredient)));
+    if (shared.length > 0) {
+      duplicates.push({ currentMedication: med.name, sharedIngredients: shared });
+    }
+  }
+
+  return { hasDuplicates: duplicates.length > 0, ingredients, duplicates };
+}
+
+/**
+ * Find ingredients that come from more than one active medication in a regimen
+ */
+export async function findRegimenDuplicates(
+  medications: (Pick<Medication, "id" | "name"> & Partial<Pick<Medication, "isActive">>)[]
+): Promise<TherapeuticDuplicate[]> {
+  const byIngredient = new Map<string, TherapeuticDuplicate>();
+
+  for (const med of medications) {
+    if (med.isActive === false) continue;
+    const { ingredients, isCombination } = await resolveIngredients(med.name);
+    for (const ingredient of ingredients) {
+      const key = toIngredientKey(ingredient);
+      const entry = byIngredient.get(key) ?? { ingredient, medications: [] };
+      if (!entry.medications.some((m) => m.id === med.id)) {
+        entry.medications.push({ id: med.id, name: med.name, isCombination });
+      }
+      byIngredient.set(key, entry);
+    }
+  }
+
+  return [...byIngredient.values()].filter((entry) => entry.medications.length > 1);
+}
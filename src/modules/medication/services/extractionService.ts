@@ -6,8 +6,9 @@ import type {
   ExtractedMedicineData,
   MedicationCategory,
   FrequencyType,
+  TaperStep,
 } from "../types";
-import { generateId } from "./scheduleService";
+import { generateId, parseTaperSteps } from "./scheduleService";
 
 // Use backend proxy instead of direct OpenAI calls (avoids CORS + keeps API key secure)
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
@@ -37,6 +38,10 @@ For each medicine found, extract these fields:
    - If not specified, use "ongoing" for maintenance medications, vitamins, supplements
    - Use specific days for antibiotics or short-term medications
 6. instructions: Special instructions (e.g., "Take with food", "Before meals", "Avoid alcohol")
+7. taper: ONLY if the dose changes over time (taper or titration, e.g., "40mg for 3 days, then 30mg for 3 days"),
+   an ordered array of steps: [{"dosage": "40mg", "days": 3, "frequency": "once_daily"}, ...]
+   - Set "dosage" of the medicine to the first step's dosage
+   - Omit this field for medicines with a fixed dose
 
 Return a JSON array. If no medicines are found, return an empty array [].
 Return ONLY the JSON array, no other text.
@@ -58,6 +63,19 @@ Example output:
     "frequency": "once_daily",
     "timePeriod": "ongoing",
     "instructions": "Take with breakfast"
+  },
+  {
+    "name": "Prednisone",
+    "dosage": "40mg",
+    "category": "medicine",
+    "frequency": "once_daily",
+    "timePeriod": "9 days",
+    "instructions": "Take with food in the morning",
+    "taper": [
+      {"dosage": "40mg", "days": 3, "frequency": "once_daily"},
+      {"dosage": "30mg", "days": 3, "frequency": "once_daily"},
+      {"dosage": "20mg", "days": 3, "frequency": "once_daily"}
+    ]
   }
 ]`;
 
@@ -101,6 +119,29 @@ function parseFrequency(freq: string): FrequencyType {
   return "once_daily"; // Default
 }
 
+/**
+ * Read taper steps from the model output, falling back to the instructions text
+ */
+function parseTaper(m: {
+  dosage?: string;
+  instructions?: string;
+  taper?: Array<{ dosage?: string; days?: number | string; frequency?: string }>;
+}): TaperStep[] | undefined {
+  if (Array.isArray(m.taper)) {
+    const steps = m.taper
+      .filter((step) => step?.dosage && Number(step.days) > 0)
+      .map((step): TaperStep => ({
+        dosage: String(step.dosage),
+        days: Math.round(Number(step.days)),
+        frequency: step.frequency ? parseFrequency(step.frequency) : undefined,
+      }));
+    if (steps.length >= 2) return steps;
+  }
+
+  const fromText = parseTaperSteps(`${m.dosage || ""} ${m.instructions || ""}`);
+  return fromText.length > 0 ? fromText : undefined;
+}
+
 /**
  * Parse category string to enum value
  */
@@ -172,6 +213,7 @@ export async function extractEnhancedMedicinesFromText(
         frequency: parseFrequency(m.frequency || "once_daily"),
         timePeriod: m.timePeriod || "ongoing",
         instructions: m.instructions || "",
+        taperSteps: parseTaper(m),
         source: "voice",
         confirmed: false,
       }));
@@ -237,6 +279,7 @@ export async function extractEnhancedMedicinesFromImages(
         frequency: parseFrequency(m.frequency || "once_daily"),
         timePeriod: m.timePeriod || "ongoing",
         instructions: m.instructions || "",
+        taperSteps: parseTaper(m),
         source: "scan",
         confirmed: false,
       }));
@@ -0,0 +1,858 @@
+// ============================================
+// FHIR Service
+// Exports the medication list as HL7 FHIR R4 MedicationStatement or
+// MedicationRequest bundles, and reads such bundles back for import
+// ============================================
+
+import type { Medication } from "@/types";
+import { FREQUENCY_LABELS } from "@/types";
+import { findDrug, type Drug } from "@/services/drugDatabase";
+import type {
+  DailyRoutine,
+  DosePhase,
+  EnhancedMedication,
+  FrequencyType,
+  MedicationCategory,
+} from "../types";
+import { getDoseLabelForHour } from "../constants";
+import {
+  calculateDoseTimes,
+  createMedicationSchedule,
+  formatFrequencyPattern,
+  formatPrnLimits,
+  formatTime12Hour,
+  generateId,
+  getDosesPerDoseDay,
+  parseTime,
+  to24HourTime,
+  toLocalDateString,
+} from "./scheduleService";
+
+// Extension carrying an on/off cycle, which FHIR Timing can't express
+export const FHIR_CYCLE_EXTENSION_URL = "https://ainay.app/fhir/StructureDefinition/dose-cycle";
+
+const FHIR_WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+// Units written straight after the number in the app ("500mg", not "500 mg")
+const COMPACT_DOSE_UNITS = ["mg", "g", "mcg", "µg", "ml", "mL", "iu", "IU", "%"];
+
+// Statuses of a medication the patient no longer takes
+const INACTIVE_STATUSES = ["completed", "stopped", "cancelled", "not-taken"];
+
+// ============================================
+// FHIR R4 Resources (the parts used here)
+// ============================================
+
+export type FhirMedicationResourceType = "MedicationStatement" | "MedicationRequest";
+
+export type FhirDayOfWeek = (typeof FHIR_WEEKDAYS)[number];
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueInteger?: number;
+  extension?: FhirExtension[];
+}
+
+export interface FhirTiming {
+  extension?: FhirExtension[];
+  repeat?: {
+    boundsPeriod?: FhirPeriod;
+    frequency?: number;
+    period?: number;
+    periodUnit?: "s" | "min" | "h" | "d" | "wk" | "mo" | "a";
+    dayOfWeek?: FhirDayOfWeek[];
+    timeOfDay?: string[]; // hh:mm:ss
+  };
+}
+
+export interface FhirDosage {
+  sequence?: number;
+  text?: string;
+  patientInstruction?: string;
+  timing?: FhirTiming;
+  asNeededBoolean?: boolean;
+  doseAndRate?: { doseQuantity?: FhirQuantity }[];
+  maxDosePerPeriod?: { numerator?: FhirQuantity; denominator?: FhirQuantity };
+}
+
+export interface FhirMedicationResource {
+  resourceType: FhirMedicationResourceType;
+  id?: string;
+  status?: string;
+  intent?: string; // MedicationRequest only
+  medicationCodeableConcept?: FhirCodeableConcept;
+  subject?: { reference?: string; display?: string };
+  effectivePeriod?: FhirPeriod; // MedicationStatement
+  dateAsserted?: string; // MedicationStatement
+  authoredOn?: string; // MedicationRequest
+  dosage?: FhirDosage[]; // MedicationStatement
+  dosageInstruction?: FhirDosage[]; // MedicationRequest
+  dispenseRequest?: { validityPeriod?: FhirPeriod }; // MedicationRequest
+  note?: { text: string }[];
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id?: string;
+  type: "collection" | "searchset" | "document" | "transaction" | string;
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource?: FhirMedicationResource | { resourceType: string } }[];
+}
+
+// ============================================
+// Import Types
+// ============================================
+
+/**
+ * A medication read from a FHIR resource, in the app's terms
+ */
+export interface FhirImportItem {
+  sourceId?: string; // The resource's id (matches ours when the bundle came from AInay)
+  name: string;
+  drug: Drug | null; // Match in the drug database, if any
+  dosage: string;
+  frequency: FrequencyType;
+  customFrequency?: number;
+  daysOfWeek?: number[];
+  cycleDaysOn?: number;
+  cycleDaysOff?: number;
+  prnMinIntervalMinutes?: number | null;
+  prnMaxDailyDoses?: number | null;
+  doseTimes: string[]; // HH:mm, 24-hour; empty when the bundle gives none
+  startDate?: string;
+  endDate?: string;
+  instructions?: string;
+  dosePhases?: DosePhase[];
+  isActive: boolean;
+  warnings: string[];
+}
+
+export interface FhirFieldChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * What importing one item would do to the medication list
+ * "skip" covers past medications, which are shown but not imported
+ */
+export interface FhirImportChange {
+  item: FhirImportItem;
+  action: "add" | "update" | "unchanged" | "skip";
+  existing: Medication | null;
+  changes: FhirFieldChange[];
+}
+
+// ============================================
+// Export
+// ============================================
+
+function parseDoseQuantity(dosage: string): FhirQuantity | null {
+  const match = dosage.trim().match(/^(\d+(?:\.\d+)?)\s*([^\d\s].*)$/);
+  return match ? { value: parseFloat(match[1]), unit: match[2].trim() } : null;
+}
+
+function getWeekday(dateStr: string): FhirDayOfWeek {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return FHIR_WEEKDAYS[new Date(year, month - 1, day).getDay()];
+}
+
+/**
+ * FHIR status for a medication: ended prescriptions are "completed",
+ * ones removed before their end date "stopped"
+ */
+function getFhirStatus(medication: Medication, today: string): string {
+  if (medication.endDate && medication.endDate < today) return "completed";
+  return medication.isActive ? "active" : "stopped";
+}
+
+/**
+ * Dosage for one regimen (the whole prescription, or one taper phase)
+ */
+function toFhirDosage(
+  medication: Medication,
+  regimen: {
+    frequency: FrequencyType;
+    customFrequency?: number;
+    dosage: string;
+    startDate?: string;
+    endDate?: string;
+  },
+  times: string[],
+  sequence?: number
+): FhirDosage {
+  const { frequency } = regimen;
+  const pattern = formatFrequencyPattern({ ...medication, frequency });
+  const doseQuantity = parseDoseQuantity(regimen.dosage);
+  const timeOfDay = times.length > 0 ? times.map((time) => `${to24HourTime(time)}:00`) : undefined;
+  const boundsPeriod =
+    regimen.startDate || regimen.endDate
+      ? { start: regimen.startDate, end: regimen.endDate }
+      : undefined;
+
+  const dosage: FhirDosage = {
+    ...(sequence !== undefined && { sequence }),
+    text: [regimen.dosage, FREQUENCY_LABELS[frequency], pattern].filter(Boolean).join(", "),
+    ...(medication.instructions && { patientInstruction: medication.instructions }),
+    ...(doseQuantity && { doseAndRate: [{ doseQuantity }] }),
+  };
+
+  if (frequency === "as_needed") {
+    dosage.asNeededBoolean = true;
+    const minutes = medication.prnMinIntervalMinutes;
+    dosage.timing = {
+      repeat: {
+        boundsPeriod,
+        ...(minutes && {
+          frequency: 1,
+          period: minutes % 60 === 0 ? minutes / 60 : minutes,
+          periodUnit: minutes % 60 === 0 ? "h" : "min",
+        }),
+      },
+    };
+    if (medication.prnMaxDailyDoses) {
+      dosage.maxDosePerPeriod = {
+        numerator: { value: medication.prnMaxDailyDoses },
+        denominator: { value: 1, unit: "d" },
+      };
+    }
+    dosage.text = `${regimen.dosage}, as needed (${formatPrnLimits(medication).toLowerCase()})`;
+    return dosage;
+  }
+
+  const repeat: NonNullable<FhirTiming["repeat"]> = { boundsPeriod, timeOfDay };
+  switch (frequency) {
+    case "every_other_day":
+      Object.assign(repeat, { frequency: 1, period: 2, periodUnit: "d" });
+      break;
+    case "weekly":
+      Object.assign(repeat, { frequency: 1, period: 1, periodUnit: "wk" });
+      if (regimen.startDate) repeat.dayOfWeek = [getWeekday(regimen.startDate)];
+      break;
+    case "specific_days":
+      Object.assign(repeat, { frequency: 1, period: 1, periodUnit: "d" });
+      repeat.dayOfWeek = (medication.daysOfWeek ?? []).map((day) => FHIR_WEEKDAYS[day]);
+      break;
+    default:
+      Object.assign(repeat, {
+        frequency: getDosesPerDoseDay(frequency, regimen.customFrequency),
+        period: 1,
+        periodUnit: "d",
+      });
+  }
+
+  dosage.timing = { repeat };
+  if (frequency === "cycle" && medication.cycleDaysOn) {
+    dosage.timing.extension = [
+      {
+        url: FHIR_CYCLE_EXTENSION_URL,
+        extension: [
+          { url: "daysOn", valueInteger: medication.cycleDaysOn },
+          { url: "daysOff", valueInteger: medication.cycleDaysOff ?? 0 },
+        ],
+      },
+    ];
+  }
+
+  return dosage;
+}
+
+/**
+ * Dose times of a regimen: today's schedule when it fits, else recalculated
+ */
+function getRegimenTimes(
+  medication: Medication,
+  frequency: FrequencyType,
+  customFrequency?: number
+): string[] {
+  if (frequency === "as_needed") return [];
+
+  const scheduled = (medication.doses ?? []).map((dose) => to24HourTime(dose.time));
+  if (scheduled.length === getDosesPerDoseDay(frequency, customFrequency)) {
+    return [...new Set(scheduled)].sort();
+  }
+
+  return calculateDoseTimes(
+    to24HourTime(medication.startTime || medication.time || "08:00"),
+    frequency,
+    customFrequency,
+    medication.nextDayMode ?? "restart",
+    { anchors: medication.doseAnchors }
+  ).map((dose) => dose.time);
+}
+
+/**
+ * Build a FHIR R4 bundle of a patient's medications (active and past).
+ * Each medication becomes one MedicationStatement (what the patient takes) or
+ * MedicationRequest (what was prescribed); taper phases become sequenced dosages.
+ */
+export function buildFhirBundle(
+  medications: Medication[],
+  options: {
+    patientId: string;
+    patientName?: string;
+    resourceType?: FhirMedicationResourceType;
+    now?: Date;
+  }
+): FhirBundle {
+  const { patientId, patientName, resourceType = "MedicationStatement", now = new Date() } = options;
+  const today = toLocalDateString(now);
+  const subject = { reference: `Patient/${patientId}`, ...(patientName && { display: patientName }) };
+
+  const entry = medications.map((medication) => {
+    const dosages = medication.dosePhases?.length
+      ? medication.dosePhases.map((phase, index) =>
+          toFhirDosage(
+            medication,
+            phase,
+            getRegimenTimes(medication, phase.frequency, phase.customFrequency),
+            index + 1
+          )
+        )
+      : [
+          toFhirDosage(
+            medication,
+            medication,
+            getRegimenTimes(medication, medication.frequency, medication.customFrequency)
+          ),
+        ];
+
+    const period =
+      medication.startDate || medication.endDate
+        ? { start: medication.startDate, end: medication.endDate }
+        : undefined;
+
+    const resource: FhirMedicationResource = {
+      resourceType,
+      id: medication.id,
+      status: getFhirStatus(medication, today),
+      medicationCodeableConcept: { text: medication.name },
+      subject,
+      ...(resourceType === "MedicationStatement"
+        ? { effectivePeriod: period, dateAsserted: now.toISOString(), dosage: dosages }
+        : {
+            intent: "order",
+            dosageInstruction: dosages,
+            ...(period && { dispenseRequest: { validityPeriod: period } }),
+          }),
+    };
+
+    return { fullUrl: `urn:uuid:${medication.id}`, resource };
+  });
+
+  return {
+    resourceType: "Bundle",
+    id: generateId(),
+    type: "collection",
+    timestamp: now.toISOString(),
+    entry,
+  };
+}
+
+// ============================================
+// Import
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toDateOnly(value: string | undefined): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+}
+
+function formatDoseQuantity(quantity: FhirQuantity | undefined): string | null {
+  if (quantity?.value === undefined) return null;
+  if (!quantity.unit) return String(quantity.value);
+  return COMPACT_DOSE_UNITS.includes(quantity.unit)
+    ? `${quantity.value}${quantity.unit}`
+    : `${quantity.value} ${quantity.unit}`;
+}
+
+function getMedicationName(resource: FhirMedicationResource): string {
+  const concept = resource.medicationCodeableConcept;
+  return (concept?.text || concept?.coding?.find((coding) => coding.display)?.display || "").trim();
+}
+
+/**
+ * Frequency and dose times of one dosage, in the app's terms
+ */
+function fromFhirDosage(dosage: FhirDosage, warnings: string[]) {
+  const repeat = dosage.timing?.repeat ?? {};
+  const doseTimes = (repeat.timeOfDay ?? [])
+    .filter((time) => /^\d{2}:\d{2}/.test(time))
+    .map((time) => time.slice(0, 5))
+    .sort();
+  const dosageText = formatDoseQuantity(dosage.doseAndRate?.[0]?.doseQuantity);
+  const bounds = repeat.boundsPeriod;
+
+  const result: {
+    frequency: FrequencyType;
+    customFrequency?: number;
+    daysOfWeek?: number[];
+    cycleDaysOn?: number;
+    cycleDaysOff?: number;
+    prnMinIntervalMinutes?: number | null;
+    prnMaxDailyDoses?: number | null;
+    doseTimes: string[];
+    dosage: string | null;
+    startDate?: string;
+    endDate?: string;
+  } = {
+    frequency: "once_daily",
+    doseTimes,
+    dosage: dosageText,
+    startDate: toDateOnly(bounds?.start),
+    endDate: toDateOnly(bounds?.end),
+  };
+
+  const periodMinutes =
+    repeat.period && repeat.periodUnit
+      ? repeat.period * ({ s: 1 / 60, min: 1, h: 60, d: 1440, wk: 10080, mo: 43200, a: 525600 }[repeat.periodUnit] ?? 0)
+      : null;
+
+  if (dosage.asNeededBoolean) {
+    result.frequency = "as_needed";
+    result.doseTimes = [];
+    result.prnMinIntervalMinutes =
+      periodMinutes && (repeat.frequency ?? 1) === 1 ? Math.round(periodMinutes) : null;
+    const max = dosage.maxDosePerPeriod;
+    result.prnMaxDailyDoses =
+      max?.numerator?.value && max.denominator?.value === 1 && max.denominator.unit === "d"
+        ? max.numerator.value
+        : null;
+    return result;
+  }
+
+  const cycle = dosage.timing?.extension?.find((ext) => ext.url === FHIR_CYCLE_EXTENSION_URL);
+  const daysOn = cycle?.extension?.find((ext) => ext.url === "daysOn")?.valueInteger;
+  if (daysOn) {
+    result.frequency = "cycle";
+    result.cycleDaysOn = daysOn;
+    result.cycleDaysOff = cycle?.extension?.find((ext) => ext.url === "daysOff")?.valueInteger ?? 0;
+    return result;
+  }
+
+  if (repeat.dayOfWeek?.length) {
+    result.frequency = "specific_days";
+    result.daysOfWeek = repeat.dayOfWeek
+      .map((day) => FHIR_WEEKDAYS.indexOf(day))
+      .filter((day) => day >= 0)
+      .sort();
+    return result;
+  }
+
+  const frequency = repeat.frequency ?? 1;
+  if (periodMinutes === 2880 && frequency === 1) {
+    result.frequency = "every_other_day";
+    return result;
+  }
+  if (periodMinutes === 10080 && frequency === 1) {
+    result.frequency = "weekly";
+    return result;
+  }
+
+  // Doses per day, from "3 times a day", "every 8 hours" or the listed times
+  let perDay: number | null = null;
+  if (periodMinutes && periodMinutes <= 1440) {
+    perDay = (frequency * 1440) / periodMinutes;
+  } else if (!periodMinutes && doseTimes.length > 0) {
+    perDay = doseTimes.length;
+  }
+
+  if (perDay && Number.isInteger(perDay)) {
+    const daily: Record<number, FrequencyType> = {
+      1: "once_daily",
+      2: "twice_daily",
+      3: "three_times_daily",
+      4: "four_times_daily",
+    };
+    result.frequency = daily[perDay] ?? "custom";
+    if (!daily[perDay]) result.customFrequency = perDay;
+  } else {
+    warnings.push(
+      dosage.text
+        ? `Couldn't read the timing "${dosage.text}"; set to once daily`
+        : "No timing given; set to once daily"
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Read one MedicationStatement or MedicationRequest (null when it can't be imported)
+ */
+function fromFhirResource(resource: FhirMedicationResource, errors: string[]): FhirImportItem | null {
+  const name = getMedicationName(resource);
+  const label = resource.id ? `${resource.resourceType}/${resource.id}` : resource.resourceType;
+  if (!name) {
+    errors.push(`${label} has no medication name`);
+    return null;
+  }
+  if (resource.status === "entered-in-error") return null;
+
+  const dosages = [...(resource.dosage ?? resource.dosageInstruction ?? [])].sort(
+    (a, b) => (a.sequence ?? 0) - (b.sequence ?? 0)
+  );
+  if (dosages.length === 0) {
+    errors.push(`${name} has no dosage`);
+    return null;
+  }
+
+  const warnings: string[] = [];
+  const regimens = dosages.map((dosage) => fromFhirDosage(dosage, warnings));
+  const first = regimens[0];
+  const period = resource.effectivePeriod ?? resource.dispenseRequest?.validityPeriod;
+  const fallbackDosage = dosages[0].text?.split(",")[0].trim();
+
+  // Dosages with their own date ranges are taper phases
+  const isTaper =
+    regimens.length > 1 && regimens.every((regimen) => regimen.startDate && regimen.endDate);
+  if (regimens.length > 1 && !isTaper) {
+    warnings.push("Only the first of several dosages was read");
+  }
+  const dosePhases = isTaper
+    ? regimens.map((regimen, index) => ({
+        id: generateId(),
+        startDate: regimen.startDate!,
+        endDate: regimen.endDate!,
+        dosage: regimen.dosage ?? dosages[index].text?.split(",")[0].trim() ?? "",
+        frequency: regimen.frequency,
+        customFrequency: regimen.customFrequency,
+      }))
+    : undefined;
+
+  const dosage = first.dosage ?? fallbackDosage;
+  if (!dosage) {
+    warnings.push("No dose amount given");
+  }
+
+  const instructions = [
+    dosages[0].patientInstruction,
+    ...(resource.note ?? []).map((note) => note.text),
+  ].filter(Boolean).join(" ");
+
+  return {
+    sourceId: resource.id,
+    name,
+    drug: null,
+    dosage: dosage ?? "",
+    frequency: first.frequency,
+    customFrequency: first.customFrequency,
+    daysOfWeek: first.daysOfWeek,
+    cycleDaysOn: first.cycleDaysOn,
+    cycleDaysOff: first.cycleDaysOff,
+    prnMinIntervalMinutes: first.prnMinIntervalMinutes,
+    prnMaxDailyDoses: first.prnMaxDailyDoses,
+    doseTimes: first.doseTimes,
+    startDate: dosePhases?.[0].startDate ?? toDateOnly(period?.start) ?? first.startDate,
+    endDate: dosePhases?.[dosePhases.length - 1].endDate ?? toDateOnly(period?.end) ?? first.endDate,
+    instructions: instructions || undefined,
+    dosePhases,
+    isActive: !INACTIVE_STATUSES.includes(resource.status ?? "active"),
+    warnings,
+  };
+}
+
+/**
+ * Validate a parsed .json file and read its medications.
+ * Accepts a Bundle or a single MedicationStatement/MedicationRequest;
+ * resources of other types in a bundle are ignored.
+ */
+export function parseFhirMedications(data: unknown): { items: FhirImportItem[]; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isRecord(data) || typeof data.resourceType !== "string") {
+    return { items: [], errors: ["This isn't a FHIR resource (no resourceType)"] };
+  }
+
+  let resources: unknown[];
+  if (data.resourceType === "Bundle") {
+    resources = Array.isArray(data.entry)
+      ? data.entry.map((entry) => (isRecord(entry) ? entry.resource : null))
+      : [];
+  } else if (data.resourceType === "MedicationStatement" || data.resourceType === "MedicationRequest") {
+    resources = [data];
+  } else {
+    return { items: [], errors: [`Expected a Bundle, not a ${data.resourceType}`] };
+  }
+
+  const items: FhirImportItem[] = [];
+  for (const resource of resources) {
+    if (!isRecord(resource)) continue;
+    if (resource.resourceType !== "MedicationStatement" && resource.resourceType !== "MedicationRequest") {
+      continue;
+    }
+    const item = fromFhirResource(resource as unknown as FhirMedicationResource, errors);
+    if (item) items.push(item);
+  }
+
+  if (items.length === 0 && errors.length === 0) {
+    errors.push("No MedicationStatement or MedicationRequest found");
+  }
+
+  return { items, errors };
+}
+
+// ============================================
+// Preview
+// ============================================
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeDosage(dosage: string): string {
+  return dosage.toLowerCase().replace(/\s+/g, "");
+}
+
+function describeFrequency(value: {
+  frequency: FrequencyType;
+  customFrequency?: number;
+  daysOfWeek?: number[];
+  cycleDaysOn?: number;
+  cycleDaysOff?: number;
+}): string {
+  const pattern = formatFrequencyPattern(value);
+  const label =
+    value.frequency === "custom" && value.customFrequency
+      ? `${value.customFrequency} times daily`
+      : FREQUENCY_LABELS[value.frequency];
+  return pattern ? `${label} (${pattern})` : label;
+}
+
+function describeTimes(times: string[]): string {
+  return times.length > 0 ? times.map((time) => formatTime12Hour(to24HourTime(time))).join(", ") : "—";
+}
+
+/**
+ * Field-by-field differences between an existing medication and an import
+ */
+function compareMedication(existing: Medication, item: FhirImportItem): FhirFieldChange[] {
+  const changes: FhirFieldChange[] = [];
+  const add = (label: string, from: string | undefined, to: string | undefined) => {
+    if ((from || "") !== (to || "")) changes.push({ label, from: from || "—", to: to || "—" });
+  };
+
+  if (normalizeDosage(existing.dosage) !== normalizeDosage(item.dosage)) {
+    add("Dose", existing.dosage, item.dosage);
+  }
+  add("How often", describeFrequency(existing), describeFrequency(item));
+  if (item.frequency === "as_needed") {
+    add("Limits", formatPrnLimits(existing), formatPrnLimits(item));
+  } else if (item.doseTimes.length > 0) {
+    const current = [...new Set((existing.doses ?? []).map((dose) => to24HourTime(dose.time)))].sort();
+    add("Dose times", describeTimes(current), describeTimes(item.doseTimes));
+  }
+  add("Start date", existing.startDate, item.startDate);
+  add("End date", existing.endDate, item.endDate);
+  add("Instructions", existing.instructions, item.instructions);
+  add(
+    "Taper",
+    existing.dosePhases?.map((phase) => phase.dosage).join(" → "),
+    item.dosePhases?.map((phase) => phase.dosage).join(" → ")
+  );
+
+  return changes;
+}
+
+/**
+ * Read a FHIR file, match each medication to the drug database (through findDrug)
+ * and to the current list, and describe what importing it would change.
+ * Medications match by id (bundles exported from AInay) or by name.
+ */
+export async function prepareFhirImport(
+  data: unknown,
+  existing: Medication[]
+): Promise<{ changes: FhirImportChange[]; errors: string[] }> {
+  const { items, errors } = parseFhirMedications(data);
+
+  for (const item of items) {
+    item.drug = await findDrug(item.name);
+    if (!item.drug) {
+      item.warnings.push("Not found in the drug database; check the spelling");
+    }
+  }
+
+  const changes = items.map((item): FhirImportChange => {
+    const names = [item.name, item.drug?.brandName, item.drug?.genericName]
+      .filter((name): name is string => !!name)
+      .map(normalizeName);
+    const match =
+      existing.find((med) => item.sourceId && med.id === item.sourceId) ??
+      existing.find((med) => names.includes(normalizeName(med.name))) ??
+      null;
+
+    if (!item.isActive) {
+      return { item, action: "skip", existing: match, changes: [] };
+    }
+    if (!match) {
+      return { item, action: "add", existing: null, changes: [] };
+    }
+
+    const fieldChanges = compareMedication(match, item);
+    return {
+      item,
+      action: fieldChanges.length > 0 ? "update" : "unchanged",
+      existing: match,
+      changes: fieldChanges,
+    };
+  });
+
+  return { changes, errors };
+}
+
+// ============================================
+// Apply
+// ============================================
+
+/**
+ * Doses of an imported medication: the bundle's times when it gives them,
+ * otherwise spaced from 8:00 AM like a new medication
+ */
+function getImportedDoses(item: FhirImportItem, routine?: DailyRoutine) {
+  const frequency = item.dosePhases?.[0]?.frequency ?? item.frequency;
+  const customFrequency = item.dosePhases?.[0]?.customFrequency ?? item.customFrequency;
+
+  if (item.doseTimes.length > 0 && frequency !== "as_needed") {
+    return item.doseTimes.map((time) => ({
+      id: generateId(),
+      time,
+      label: getDoseLabelForHour(parseTime(time).hours),
+      taken: false,
+    }));
+  }
+  return calculateDoseTimes(item.doseTimes[0] ?? "08:00", frequency, customFrequency, "restart", {
+    routine,
+  });
+}
+
+/**
+ * Prescription length in days ("ongoing" without an end date), as the add form stores it
+ */
+function getTimePeriod(item: FhirImportItem): string {
+  if (!item.endDate) return "ongoing";
+  const [sy, sm, sd] = (item.startDate ?? toLocalDateString()).split("-").map(Number);
+  const [ey, em, ed] = item.endDate.split("-").map(Number);
+  const days = Math.round((Date.UTC(ey, em - 1, ed) - Date.UTC(sy, sm - 1, sd)) / 86400000);
+  return days > 0 ? String(days) : "ongoing";
+}
+
+/**
+ * A new medication for an imported item
+ */
+export function toImportedMedication(
+  item: FhirImportItem,
+  userId: string,
+  routine?: DailyRoutine
+): EnhancedMedication {
+  const startTime = item.doseTimes[0] ?? "08:00";
+  const category: MedicationCategory = "medicine";
+  const timePeriod = getTimePeriod(item);
+  const schedule = createMedicationSchedule({
+    name: item.name,
+    dosage: item.dosage,
+    category,
+    frequency: item.frequency,
+    customFrequency: item.customFrequency,
+    timePeriod,
+    startDate: item.startDate,
+    endDate: item.endDate,
+    instructions: item.instructions ?? "",
+    startTime,
+    nextDayMode: "restart",
+    routine,
+  });
+  const now = new Date().toISOString();
+
+  return {
+    id: generateId(),
+    userId,
+    name: item.name,
+    dosage: item.dosePhases?.[0]?.dosage ?? item.dosage,
+    category,
+    frequency: item.dosePhases?.[0]?.frequency ?? item.frequency,
+    customFrequency: item.dosePhases?.[0]?.customFrequency ?? item.customFrequency,
+    daysOfWeek: item.daysOfWeek,
+    cycleDaysOn: item.cycleDaysOn,
+    cycleDaysOff: item.cycleDaysOff,
+    prnMinIntervalMinutes: item.prnMinIntervalMinutes,
+    prnMaxDailyDoses: item.prnMaxDailyDoses,
+    timePeriod,
+    startDate: item.startDate,
+    endDate: item.endDate,
+    instructions: item.instructions,
+    schedule: {
+      ...schedule,
+      doses: getImportedDoses(item, routine),
+      phases: item.dosePhases,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Updates that bring an existing medication in line with an imported item
+ */
+export function toImportedMedicationUpdates(
+  item: FhirImportItem,
+  routine?: DailyRoutine
+): Partial<Medication> {
+  const doses = getImportedDoses(item, routine);
+
+  return {
+    name: item.name,
+    dosage: item.dosePhases?.[0]?.dosage ?? item.dosage,
+    frequency: item.dosePhases?.[0]?.frequency ?? item.frequency,
+    customFrequency: item.dosePhases?.[0]?.customFrequency ?? item.customFrequency,
+    daysOfWeek: item.daysOfWeek,
+    cycleDaysOn: item.cycleDaysOn,
+    cycleDaysOff: item.cycleDaysOff,
+    prnMinIntervalMinutes: item.prnMinIntervalMinutes ?? null,
+    prnMaxDailyDoses: item.prnMaxDailyDoses ?? null,
+    startDate: item.startDate,
+    endDate: item.endDate,
+    instructions: item.instructions,
+    timePeriod: getTimePeriod(item),
+    // An empty list clears a taper the bundle no longer has
+    dosePhases: item.dosePhases ?? [],
+    time: doses[0]?.time,
+    startTime: doses[0]?.time,
+    doses,
+  };
+}
+
+/**
+ * File name for an exported bundle, e.g. "lola-medications-fhir.json"
+ */
+export function getFhirFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "patient"}-medications-fhir.json`;
+}
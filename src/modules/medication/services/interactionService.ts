@@ -46,6 +46,17 @@ export interface DetectedInteraction {
   saferAlternative: string;
 }
 
+/**
+ * An interaction between two medications already in a regimen
+ */
+export interface RegimenInteraction {
+  medications: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  clinicalEffect: string;
+  saferAlternative: string;
+}
+
 // Cache for loaded interactions
 let interactionsCache: DrugInteraction[] | null = null;
 // OPTIMIZATION: Index for O(1) lookups by drug name
@@ -288,7 +299,7 @@ function getCandidateInteractions(drugName: string): DrugInteraction[] {
  */
 export async function checkDrugInteractions(
   newMedicineName: string,
-  currentMedications: Medication[]
+  currentMedications: Pick<Medication, "name">[]
 ): Promise<InteractionCheckResult> {
   // Ensure index is ready
   await ensureIndexReady();
@@ -386,6 +397,37 @@ export async function checkDrugInteractions(
   };
 }
 
+/**
+ * Check every pair of active medications in a regimen against each other
+ */
+export async function findRegimenInteractions(
+  medications: (Pick<Medication, "name"> & Partial<Pick<Medication, "isActive">>)[]
+): Promise<RegimenInteraction[]> {
+  const active = medications.filter((med) => med.isActive !== false);
+  const found: RegimenInteraction[] = [];
+
+  // Each pair once: every medication against the ones after it
+  for (let i = 0; i < active.length; i++) {
+    const { interactions } = await checkDrugInteractions(active[i].name, active.slice(i + 1));
+    for (const interaction of interactions) {
+      found.push({
+        medications: [active[i].name, interaction.currentMedication],
+        severity: interaction.severity,
+        mechanism: interaction.mechanism,
+        clinicalEffect: interaction.clinicalEffect,
+        saferAlternative: interaction.saferAlternative,
+      });
+    }
+  }
+
+  const severityOrder: Record<InteractionSeverity, number> = {
+    Major: 0,
+    Moderate: 1,
+    Minor: 2,
+  };
+  return found.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+}
+
 /**
  * Get the color class for a severity level
  */
@@ -0,0 +1,663 @@
+// ============================================
+// Visit Report Service
+// Gathers a printable medication report for a doctor's visit: the current
+// regimen, adherence, missed and skipped doses, and known interactions,
+// with headings in the patient's chosen language
+// ============================================
+
+import type { Medication } from "@/types";
+import type { DoseHistory } from "@/types/database";
+import { findDrug } from "@/services/drugDatabase";
+import { getFoodInteractionsForMedications } from "@/services/drugFoodInteractions";
+import { LANGUAGES, type SupportedLanguage } from "@/services/language";
+import type { FrequencyType, SkipReason } from "../types";
+import { calculatePeriodAdherence, type PeriodAdherence } from "./analyticsService";
+import { findRegimenInteractions, type InteractionSeverity } from "./interactionService";
+import { formatFrequencyPattern, formatPrnLimits, formatTime12Hour } from "./scheduleService";
+
+// ============================================
+// Types
+// ============================================
+
+export interface VisitReportLabels {
+  title: string;
+  patient: string;
+  period: string;
+  printed: string;
+  currentMedications: string;
+  medicine: string;
+  genericName: string;
+  dosage: string;
+  schedule: string;
+  dates: string;
+  instructions: string;
+  ongoing: string;
+  adherence: string;
+  taken: string;
+  missed: string;
+  skipped: string;
+  overall: string;
+  noDosesDue: string;
+  missedDoses: string;
+  date: string;
+  time: string;
+  reason: string;
+  noMissedDoses: string;
+  drugInteractions: string;
+  foodInteractions: string;
+  noInteractions: string;
+  saferAlternative: string;
+  severity: Record<InteractionSeverity, string>;
+  skipReasons: Record<SkipReason, string>;
+  frequencies: Record<FrequencyType, string>;
+  footer: string;
+}
+
+export interface VisitReportMedication {
+  id: string;
+  name: string;
+  genericName: string | null; // From the drug database, when it differs from the name
+  dosage: string;
+  schedule: string;
+  startDate?: string;
+  endDate?: string;
+  instructions?: string;
+}
+
+export interface VisitReportDose {
+  date: string; // YYYY-MM-DD
+  time: string;
+  medicationName: string;
+  status: "missed" | "skipped";
+  reason: string | null; // Skip reason, in the report's language
+  note: string | null;
+}
+
+export interface VisitReportInteraction {
+  medications: [string, string];
+  severity: InteractionSeverity;
+  clinicalEffect: string;
+  saferAlternative: string;
+}
+
+export interface VisitReport {
+  language: SupportedLanguage;
+  labels: VisitReportLabels;
+  patientName: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  printedAt: string; // ISO timestamp
+  medications: VisitReportMedication[];
+  adherence: PeriodAdherence[];
+  overallAdherence: number | null; // Null when nothing was due
+  doses: VisitReportDose[];
+  drugInteractions: VisitReportInteraction[];
+  foodInteractions: { medicationName: string; advice: string[] }[];
+}
+
+// ============================================
+// Labels
+// ============================================
+
+const REPORT_LABELS: Record<SupportedLanguage, VisitReportLabels> = {
+  en: {
+    title: "Medication Report",
+    patient: "Patient",
+    period: "Period",
+    printed: "Printed",
+    currentMedications: "Current Medicines",
+    medicine: "Medicine",
+    genericName: "Generic name",
+    dosage: "Dose",
+    schedule: "Schedule",
+    dates: "Dates",
+    instructions: "Instructions",
+    ongoing: "ongoing",
+    adherence: "Adherence",
+    taken: "Taken",
+    missed: "Missed",
+    skipped: "Skipped",
+    overall: "Overall",
+    noDosesDue: "No scheduled doses in this period.",
+    missedDoses: "Missed and Skipped Doses",
+    date: "Date",
+    time: "Time",
+    reason: "Reason / note",
+    noMissedDoses: "No missed or skipped doses in this period.",
+    drugInteractions: "Drug-Drug Interactions",
+    foodInteractions: "Drug-Food Interactions",
+    noInteractions: "None found.",
+    saferAlternative: "Safer alternative",
+    severity: { Major: "Major", Moderate: "Moderate", Minor: "Minor" },
+    skipReasons: {
+      nausea: "Nausea / felt unwell",
+      out_of_stock: "Out of stock",
+      doctor_advised: "Doctor advised",
+      fasting: "Fasting",
+      other: "Other",
+    },
+    frequencies: {
+      once_daily: "Once daily",
+      twice_daily: "Twice daily",
+      three_times_daily: "3 times daily",
+      four_times_daily: "4 times daily",
+      every_other_day: "Every other day",
+      weekly: "Weekly",
+      specific_days: "Specific days",
+      cycle: "On/off cycle",
+      as_needed: "As needed",
+      custom: "Custom interval",
+    },
+    footer:
+      "Made from the patient's records in AInay. Interaction checks are a guide only; please confirm with a doctor or pharmacist.",
+  },
+  tl: {
+    title: "Ulat ng mga Gamot",
+    patient: "Pasyente",
+    period: "Panahon",
+    printed: "Petsa ng pag-print",
+    currentMedications: "Mga Kasalukuyang Gamot",
+    medicine: "Gamot",
+    genericName: "Generic na pangalan",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Mga petsa",
+    instructions: "Mga tagubilin",
+    ongoing: "tuloy-tuloy",
+    adherence: "Pag-inom ayon sa reseta",
+    taken: "Nainom",
+    missed: "Nakaligtaan",
+    skipped: "Nilaktawan",
+    overall: "Kabuuan",
+    noDosesDue: "Walang nakatakdang dosis sa panahong ito.",
+    missedDoses: "Mga Nakaligtaan at Nilaktawang Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Dahilan / tala",
+    noMissedDoses: "Walang nakaligtaan o nilaktawang dosis sa panahong ito.",
+    drugInteractions: "Interaksyon ng mga Gamot",
+    foodInteractions: "Interaksyon ng Gamot at Pagkain",
+    noInteractions: "Walang nakita.",
+    saferAlternative: "Mas ligtas na alternatibo",
+    severity: { Major: "Malubha", Moderate: "Katamtaman", Minor: "Bahagya" },
+    skipReasons: {
+      nausea: "Nasusuka / masama ang pakiramdam",
+      out_of_stock: "Naubusan",
+      doctor_advised: "Payo ng doktor",
+      fasting: "Nag-aayuno",
+      other: "Iba pa",
+    },
+    frequencies: {
+      once_daily: "Isang beses araw-araw",
+      twice_daily: "Dalawang beses araw-araw",
+      three_times_daily: "3 beses araw-araw",
+      four_times_daily: "4 na beses araw-araw",
+      every_other_day: "Tuwing ikalawang araw",
+      weekly: "Lingguhan",
+      specific_days: "Sa piling araw",
+      cycle: "May pahinga (on/off)",
+      as_needed: "Kung kailangan",
+      custom: "Ibang pagitan",
+    },
+    footer:
+      "Ginawa mula sa mga rekord ng pasyente sa AInay. Gabay lamang ang pagsusuri ng interaksyon; kumpirmahin sa doktor o parmasyutiko.",
+  },
+  ceb: {
+    title: "Report sa mga Tambal",
+    patient: "Pasyente",
+    period: "Panahon",
+    printed: "Petsa sa pag-print",
+    currentMedications: "Mga Tambal Karon",
+    medicine: "Tambal",
+    genericName: "Generic nga ngalan",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Mga petsa",
+    instructions: "Mga instruksyon",
+    ongoing: "padayon",
+    adherence: "Pag-inom sumala sa reseta",
+    taken: "Nainom",
+    missed: "Nalimtan",
+    skipped: "Gilaktawan",
+    overall: "Kinatibuk-an",
+    noDosesDue: "Walay nakatakdang dosis niining panahona.",
+    missedDoses: "Mga Nalimtan ug Gilaktawang Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Rason / nota",
+    noMissedDoses: "Walay nalimtan o gilaktawang dosis niining panahona.",
+    drugInteractions: "Interaksyon sa mga Tambal",
+    foodInteractions: "Interaksyon sa Tambal ug Pagkaon",
+    noInteractions: "Walay nakit-an.",
+    saferAlternative: "Mas luwas nga alternatibo",
+    severity: { Major: "Grabe", Moderate: "Kasarangan", Minor: "Gamay" },
+    skipReasons: {
+      nausea: "Nagsuka-suka / dili maayo ang pamati",
+      out_of_stock: "Nahurot",
+      doctor_advised: "Tambag sa doktor",
+      fasting: "Nag-puasa",
+      other: "Uban pa",
+    },
+    frequencies: {
+      once_daily: "Kausa matag adlaw",
+      twice_daily: "Kaduha matag adlaw",
+      three_times_daily: "3 ka beses matag adlaw",
+      four_times_daily: "4 ka beses matag adlaw",
+      every_other_day: "Matag ikaduhang adlaw",
+      weekly: "Kada semana",
+      specific_days: "Pinili nga mga adlaw",
+      cycle: "May pahulay (on/off)",
+      as_needed: "Kung kinahanglan",
+      custom: "Laing gintang",
+    },
+    footer:
+      "Gihimo gikan sa mga rekord sa pasyente sa AInay. Giya lamang ang pagsusi sa interaksyon; palihug kumpirmaha sa doktor o parmasyutiko.",
+  },
+  ilo: {
+    title: "Report dagiti Agas",
+    patient: "Pasiente",
+    period: "Panawen",
+    printed: "Petsa ti pannakaimaldit",
+    currentMedications: "Dagiti Agas Ita",
+    medicine: "Agas",
+    genericName: "Generic a nagan",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Dagiti petsa",
+    instructions: "Dagiti bilin",
+    ongoing: "agtultuloy",
+    adherence: "Panag-inom a maitunos iti reseta",
+    taken: "Nainom",
+    missed: "Nalipatan",
+    skipped: "Nalaksid",
+    overall: "Dagup",
+    noDosesDue: "Awan ti naikeddeng a dosis iti daytoy a panawen.",
+    missedDoses: "Dagiti Nalipatan ken Nalaksid a Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Rason / nota",
+    noMissedDoses: "Awan ti nalipatan wenno nalaksid a dosis iti daytoy a panawen.",
+    drugInteractions: "Interaksion dagiti Agas",
+    foodInteractions: "Interaksion ti Agas ken Taraon",
+    noInteractions: "Awan ti nasarakan.",
+    saferAlternative: "Natalged a sukat",
+    severity: { Major: "Nakaro", Moderate: "Kalkalainganna", Minor: "Bassit" },
+    skipReasons: {
+      nausea: "Agsarwa / saan a nasayaat ti rikna",
+      out_of_stock: "Naibusan",
+      doctor_advised: "Balakad ti doktor",
+      fasting: "Agay-ayuno",
+      other: "Sabali pay",
+    },
+    frequencies: {
+      once_daily: "Maminsan iti inaldaw",
+      twice_daily: "Mamindua iti inaldaw",
+      three_times_daily: "Mamitlo iti inaldaw",
+      four_times_daily: "Mamimpat iti inaldaw",
+      every_other_day: "Tunggal maikadua nga aldaw",
+      weekly: "Linawas-linawas",
+      specific_days: "Napili nga aldaw",
+      cycle: "Addaan inana (on/off)",
+      as_needed: "No kasapulan",
+      custom: "Sabali a baet",
+    },
+    footer:
+      "Naaramid manipud kadagiti rekord ti pasiente iti AInay. Giya laeng ti panangsukimat iti interaksion; paneknekan iti doktor wenno parmasiutiko.",
+  },
+  hil: {
+    title: "Report sang mga Bulong",
+    patient: "Pasyente",
+    period: "Tion",
+    printed: "Petsa sang pag-print",
+    currentMedications: "Mga Bulong Subong",
+    medicine: "Bulong",
+    genericName: "Generic nga ngalan",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Mga petsa",
+    instructions: "Mga pahanumdom",
+    ongoing: "padayon",
+    adherence: "Pag-inom suno sa reseta",
+    taken: "Nainom",
+    missed: "Nalipatan",
+    skipped: "Ginlaktawan",
+    overall: "Kabilugan",
+    noDosesDue: "Wala sing nakatalana nga dosis sa sini nga tion.",
+    missedDoses: "Mga Nalipatan kag Ginlaktawan nga Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Rason / nota",
+    noMissedDoses: "Wala sing nalipatan ukon ginlaktawan nga dosis sa sini nga tion.",
+    drugInteractions: "Interaksyon sang mga Bulong",
+    foodInteractions: "Interaksyon sang Bulong kag Pagkaon",
+    noInteractions: "Wala sing nakita.",
+    saferAlternative: "Mas luwas nga alternatibo",
+    severity: { Major: "Grabe", Moderate: "Katamtaman", Minor: "Gamay" },
+    skipReasons: {
+      nausea: "Ginasuka / indi maayo ang balatyagon",
+      out_of_stock: "Naubusan",
+      doctor_advised: "Laygay sang doktor",
+      fasting: "Nagapuasa",
+      other: "Iban pa",
+    },
+    frequencies: {
+      once_daily: "Makaisa kada adlaw",
+      twice_daily: "Makaduha kada adlaw",
+      three_times_daily: "Makatlo kada adlaw",
+      four_times_daily: "Makaapat kada adlaw",
+      every_other_day: "Kada ikaduha nga adlaw",
+      weekly: "Kada semana",
+      specific_days: "Pinili nga mga adlaw",
+      cycle: "May pahuway (on/off)",
+      as_needed: "Kon kinahanglan",
+      custom: "Iban nga kalayuon",
+    },
+    footer:
+      "Ginhimo halin sa mga rekord sang pasyente sa AInay. Giya lamang ang pagsusi sang interaksyon; palihog kumpirmaha sa doktor ukon parmasyutiko.",
+  },
+  war: {
+    title: "Report han mga Bulong",
+    patient: "Pasyente",
+    period: "Panahon",
+    printed: "Petsa han pag-print",
+    currentMedications: "Mga Bulong Yana",
+    medicine: "Bulong",
+    genericName: "Generic nga ngaran",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Mga petsa",
+    instructions: "Mga instruksyon",
+    ongoing: "padayon",
+    adherence: "Pag-inom sumala ha reseta",
+    taken: "Nainom",
+    missed: "Nahikalimtan",
+    skipped: "Ginlaktawan",
+    overall: "Kabug-osan",
+    noDosesDue: "Waray nakatakda nga dosis hini nga panahon.",
+    missedDoses: "Mga Nahikalimtan ngan Ginlaktawan nga Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Rason / nota",
+    noMissedDoses: "Waray nahikalimtan o ginlaktawan nga dosis hini nga panahon.",
+    drugInteractions: "Interaksyon han mga Bulong",
+    foodInteractions: "Interaksyon han Bulong ngan Pagkaon",
+    noInteractions: "Waray nakit-an.",
+    saferAlternative: "Mas luwas nga alternatibo",
+    severity: { Major: "Grabe", Moderate: "Kasarangan", Minor: "Gutiay" },
+    skipReasons: {
+      nausea: "Nasusuka / diri maupay an pamati",
+      out_of_stock: "Naubusan",
+      doctor_advised: "Tambag han doktor",
+      fasting: "Nag-aayuno",
+      other: "Iba pa",
+    },
+    frequencies: {
+      once_daily: "Makausa kada adlaw",
+      twice_daily: "Makaduha kada adlaw",
+      three_times_daily: "Makatulo kada adlaw",
+      four_times_daily: "Makaupat kada adlaw",
+      every_other_day: "Kada ikaduha nga adlaw",
+      weekly: "Kada semana",
+      specific_days: "Pinili nga mga adlaw",
+      cycle: "May pahuway (on/off)",
+      as_needed: "Kun kinahanglan",
+      custom: "Iba nga kalat-an",
+    },
+    footer:
+      "Hinimo tikang ha mga rekord han pasyente ha AInay. Giya la an pagsusi han interaksyon; alayon kumpirmaha ha doktor o parmasyutiko.",
+  },
+  pam: {
+    title: "Report da reng Gamot",
+    patient: "Pasyente",
+    period: "Panaun",
+    printed: "Petsa ning pamag-print",
+    currentMedications: "Deng Gamot Ngeni",
+    medicine: "Gamot",
+    genericName: "Generic a lagyu",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Deng petsa",
+    instructions: "Deng tuturu",
+    ongoing: "tuloy-tuloy",
+    adherence: "Pamanginum agpang king reseta",
+    taken: "Ininum",
+    missed: "Mengalingwan",
+    skipped: "Linaktawan",
+    overall: "Kabilian",
+    noDosesDue: "Alang makatakdang dosis king panaun a iti.",
+    missedDoses: "Deng Mengalingwan at Linaktawan a Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Sangkan / nota",
+    noMissedDoses: "Alang mengalingwan o linaktawan a dosis king panaun a iti.",
+    drugInteractions: "Interaksyun da reng Gamot",
+    foodInteractions: "Interaksyun ning Gamot at Pamangan",
+    noInteractions: "Alang akit.",
+    saferAlternative: "Mas ligtas a alternatibu",
+    severity: { Major: "Malala", Moderate: "Katamtaman", Minor: "Malati" },
+    skipReasons: {
+      nausea: "Sisuka / ali mayap ing pamakiramdam",
+      out_of_stock: "Meubusan",
+      doctor_advised: "Payu ning doktor",
+      fasting: "Mag-ayuno",
+      other: "Aliwa pa",
+    },
+    frequencies: {
+      once_daily: "Misan balang aldo",
+      twice_daily: "Makalwa balang aldo",
+      three_times_daily: "Makatlu balang aldo",
+      four_times_daily: "Makapat balang aldo",
+      every_other_day: "Balang kaduang aldo",
+      weekly: "Balang dominggu",
+      specific_days: "Piniling aldo",
+      cycle: "Atin pamagpainawa (on/off)",
+      as_needed: "Nung kailangan",
+      custom: "Aliwang agwat",
+    },
+    footer:
+      "Gewa ya manibat kareng rekord ning pasyente king AInay. Gabay ya mu ing pamanyuri king interaksyun; kumpirman ye king doktor o parmasyutiku.",
+  },
+  bik: {
+    title: "Report kan mga Bulong",
+    patient: "Pasyente",
+    period: "Panahon",
+    printed: "Petsa kan pag-print",
+    currentMedications: "Mga Bulong Ngunyan",
+    medicine: "Bulong",
+    genericName: "Generic na pangaran",
+    dosage: "Dosis",
+    schedule: "Iskedyul",
+    dates: "Mga petsa",
+    instructions: "Mga instruksyon",
+    ongoing: "padagos",
+    adherence: "Pag-inom susog sa reseta",
+    taken: "Nainom",
+    missed: "Nalingawan",
+    skipped: "Linaktawan",
+    overall: "Kabilugan",
+    noDosesDue: "Mayong nakatakdang dosis sa panahon na ini.",
+    missedDoses: "Mga Nalingawan asin Linaktawan na Dosis",
+    date: "Petsa",
+    time: "Oras",
+    reason: "Rason / nota",
+    noMissedDoses: "Mayong nalingawan o linaktawan na dosis sa panahon na ini.",
+    drugInteractions: "Interaksyon kan mga Bulong",
+    foodInteractions: "Interaksyon kan Bulong asin Kakanon",
+    noInteractions: "Mayong nahanap.",
+    saferAlternative: "Mas ligtas na alternatibo",
+    severity: { Major: "Grabe", Moderate: "Katamtaman", Minor: "Sadit" },
+    skipReasons: {
+      nausea: "Nasusuka / bakong marhay an pakamate",
+      out_of_stock: "Naubusan",
+      doctor_advised: "Sabi kan doktor",
+      fasting: "Nag-aayuno",
+      other: "Iba pa",
+    },
+    frequencies: {
+      once_daily: "Sarong beses kada aldaw",
+      twice_daily: "Duwang beses kada aldaw",
+      three_times_daily: "Tolong beses kada aldaw",
+      four_times_daily: "Apat na beses kada aldaw",
+      every_other_day: "Kada ikaduwang aldaw",
+      weekly: "Kada semana",
+      specific_days: "Piniling mga aldaw",
+      cycle: "May pahingalo (on/off)",
+      as_needed: "Kun kaipuhan",
+      custom: "Ibang pagitan",
+    },
+    footer:
+      "Ginibo hale sa mga rekord kan pasyente sa AInay. Giya sana an pagsiyasat sa interaksyon; kumpirmaha sa doktor o parmasyutiko.",
+  },
+};
+
+/**
+ * Report headings in a language (English for an unknown code)
+ */
+export function getReportLabels(language: string | null | undefined): VisitReportLabels {
+  return REPORT_LABELS[language as SupportedLanguage] || REPORT_LABELS.en;
+}
+
+/**
+ * Format a YYYY-MM-DD date for the report, e.g. "Oct 19, 2026" or "Okt 19, 2026"
+ */
+export function formatReportDate(dateStr: string, language: SupportedLanguage): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(LANGUAGES[language]?.voiceCode ?? "en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Schedule line for the regimen table: frequency, dose times and any
+ * day pattern, as-needed limits or taper phases
+ */
+function describeSchedule(medication: Medication, labels: VisitReportLabels, language: SupportedLanguage): string {
+  const frequency = labels.frequencies[medication.frequency] ?? medication.frequency;
+
+  if (medication.frequency === "as_needed") {
+    return `${frequency} · ${formatPrnLimits(medication)}`;
+  }
+
+  const times = (medication.doses?.length ? medication.doses.map((dose) => dose.time) : [medication.time])
+    .filter(Boolean)
+    .map(formatTime12Hour);
+  const pattern = formatFrequencyPattern(medication);
+  const parts = [frequency, pattern, times.join(", ")].filter(Boolean);
+
+  if (medication.dosePhases?.length) {
+    const phases = medication.dosePhases.map(
+      (phase) =>
+        `${phase.dosage} ${labels.frequencies[phase.frequency] ?? phase.frequency} (${formatReportDate(
+          phase.startDate,
+          language
+        )} – ${formatReportDate(phase.endDate, language)})`
+    );
+    parts.push(phases.join("; "));
+  }
+
+  return parts.join(" · ");
+}
+
+/**
+ * Build a visit report for a date range.
+ * The regimen lists current medications; adherence and missed doses also
+ * cover medications removed since, when they are passed in pastMedications.
+ */
+export async function buildVisitReport(input: {
+  patientName: string;
+  medications: Medication[];
+  pastMedications?: Medication[];
+  history: DoseHistory[];
+  from: string;
+  to: string;
+  timeZone?: string;
+  language: SupportedLanguage;
+}): Promise<VisitReport> {
+  const { patientName, medications, pastMedications = [], history, from, to, timeZone, language } = input;
+  const labels = getReportLabels(language);
+  const active = medications.filter((med) => med.isActive !== false);
+  const allMedications = [...active, ...pastMedications.filter((past) => !active.some((med) => med.id === past.id))];
+  const namesById = new Map(allMedications.map((med) => [med.id, med.name]));
+
+  // Regimen, with generic names from the drug database
+  const regimen: VisitReportMedication[] = [];
+  for (const med of active) {
+    const drug = await findDrug(med.name);
+    const genericName =
+      drug?.genericName && drug.genericName.toLowerCase() !== med.name.toLowerCase()
+        ? drug.genericName
+        : null;
+    regimen.push({
+      id: med.id,
+      name: med.name,
+      genericName,
+      dosage: med.dosage,
+      schedule: describeSchedule(med, labels, language),
+      startDate: med.startDate,
+      endDate: med.endDate,
+      instructions: med.instructions,
+    });
+  }
+
+  // Adherence per medication, and overall across every dose due
+  const adherence = calculatePeriodAdherence(allMedications, history, from, to, timeZone);
+  const scheduled = adherence.reduce((sum, row) => sum + row.scheduled, 0);
+  const taken = adherence.reduce((sum, row) => sum + row.taken, 0);
+
+  const doses: VisitReportDose[] = history
+    .filter(
+      (h) =>
+        h.scheduled_date >= from &&
+        h.scheduled_date <= to &&
+        (h.status === "missed" || h.status === "skipped")
+    )
+    .sort(
+      (a, b) =>
+        a.scheduled_date.localeCompare(b.scheduled_date) ||
+        a.scheduled_time.localeCompare(b.scheduled_time)
+    )
+    .map((h) => ({
+      date: h.scheduled_date,
+      time: formatTime12Hour(h.scheduled_time),
+      medicationName: namesById.get(h.medication_id) ?? "—",
+      status: h.status as VisitReportDose["status"],
+      reason: h.skip_reason ? labels.skipReasons[h.skip_reason] : null,
+      note: h.notes,
+    }));
+
+  const drugInteractions: VisitReportInteraction[] = (await findRegimenInteractions(active)).map(
+    (interaction) => ({
+      medications: interaction.medications,
+      severity: interaction.severity,
+      clinicalEffect: interaction.clinicalEffect,
+      saferAlternative: interaction.saferAlternative,
+    })
+  );
+
+  const foodMap = await getFoodInteractionsForMedications(active);
+  const foodInteractions = [...foodMap.entries()].map(([medicationName, advice]) => ({
+    medicationName,
+    advice,
+  }));
+
+  return {
+    language,
+    labels,
+    patientName,
+    from,
+    to,
+    printedAt: new Date().toISOString(),
+    medications: regimen,
+    adherence,
+    overallAdherence: scheduled > 0 ? Math.round((taken / scheduled) * 100) : null,
+    doses,
+    drugInteractions,
+    foodInteractions,
+  };
+}
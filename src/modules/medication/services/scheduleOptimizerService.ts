@@ -0,0 +1,294 @@
+// ============================================
+// Schedule Optimizer Service
+// Proposes dose times for a whole regimen: keeps doses that interact apart
+// (DOSE_SEPARATION_RULES), leaves routine-anchored doses where they are, and
+// lines the rest up on as few pill times a day as it can
+// ============================================
+
+import type { Medication, ScheduledDose } from "@/types";
+import type { DailyRoutine, DoseSeparationRule } from "../types";
+import { DOSE_SEPARATION_RULES, getDoseLabelForHour, getIntervalForFrequency } from "../constants";
+import { formatTime, generateId, parseTime, to24HourTime } from "./scheduleService";
+import { resolveIngredients, toIngredientKey } from "./duplicationService";
+
+/**
+ * Dose times for one medication before and after optimizing (HH:mm)
+ */
+export interface ScheduleChange {
+  medicationId: string;
+  medicationName: string;
+  before: string[];
+  after: string[];
+  fixed: boolean; // Anchored to the routine, so not moved
+  changed: boolean;
+}
+
+/**
+ * Two medications closer together than a separation rule allows
+ */
+export interface SeparationConflict {
+  medications: [string, string];
+  reason: string;
+}
+
+export interface ScheduleProposal {
+  changes: ScheduleChange[];
+  timesBefore: number; // Distinct pill times a day
+  timesAfter: number;
+  conflictsBefore: SeparationConflict[];
+  conflictsAfter: SeparationConflict[];
+  hasChanges: boolean;
+}
+
+// A dose isn't moved further than this just to share a pill time
+const MAX_CONSOLIDATION_SHIFT_MINUTES = 180;
+// Doses of one medication stay at least this share of their usual interval apart
+const MIN_INTERVAL_SHARE = 0.6;
+// More doses than this a day are left as they are (too many combinations)
+const MAX_OPTIMIZED_DOSES = 4;
+
+interface PlanItem {
+  medication: Medication;
+  haystack: string[]; // Ingredient keys and the lowercase name, for rule matching
+  current: number[]; // Minutes after waking
+  fixed: boolean;
+}
+
+interface PairConstraint {
+  first: number; // Index of the drug the rule names
+  other: number;
+  minutesBefore: number;
+  minutesAfter: number;
+  reason: string;
+}
+
+// ============================================
+// Times
+// ============================================
+
+function toClockMinutes(time: string): number {
+  const { hours, minutes } = parseTime(to24HourTime(time));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after waking; the optimizer works within the waking day
+ */
+function toDayMinutes(time: string, routine: DailyRoutine): number {
+  return (toClockMinutes(time) - toClockMinutes(routine.wake) + 1440) % 1440;
+}
+
+function fromDayMinutes(dayMinutes: number, routine: DailyRoutine): string {
+  const clock = (toClockMinutes(routine.wake) + dayMinutes) % 1440;
+  return formatTime(Math.floor(clock / 60), clock % 60);
+}
+
+/**
+ * Doses for a set of proposed times
+ */
+export function buildDosesForTimes(times: string[]): ScheduledDose[] {
+  return times.map((time) => ({
+    id: generateId(),
+    time,
+    label: getDoseLabelForHour(parseTime(time).hours),
+    taken: false,
+  }));
+}
+
+// ============================================
+// Rules
+// ============================================
+
+function matchesAny(haystack: string[], keywords: string[]): boolean {
+  return haystack.some((text) => keywords.some((keyword) => text.includes(keyword)));
+}
+
+function buildConstraints(items: PlanItem[], rules: DoseSeparationRule[]): PairConstraint[] {
+  const constraints: PairConstraint[] = [];
+  for (let a = 0; a < items.length; a++) {
+    for (let b = 0; b < items.length; b++) {
+      if (a === b) continue;
+      for (const rule of rules) {
+        if (matchesAny(items[a].haystack, rule.drugs) && matchesAny(items[b].haystack, rule.separateFrom)) {
+          constraints.push({
+            first: a,
+            other: b,
+            minutesBefore: rule.minutesBefore,
+            minutesAfter: rule.minutesAfter,
+            reason: rule.reason,
+          });
+        }
+      }
+    }
+  }
+  return constraints;
+}
+
+function isSeparated(constraint: PairConstraint, firstTimes: number[], otherTimes: number[]): boolean {
+  return firstTimes.every((first) =>
+    otherTimes.every((other) => other - first >= constraint.minutesBefore || first - other >= constraint.minutesAfter)
+  );
+}
+
+function collectConflicts(
+  items: PlanItem[],
+  constraints: PairConstraint[],
+  times: (number[] | null)[]
+): SeparationConflict[] {
+  const conflicts: SeparationConflict[] = [];
+  const seen = new Set<string>();
+  for (const constraint of constraints) {
+    const firstTimes = times[constraint.first];
+    const otherTimes = times[constraint.other];
+    if (!firstTimes || !otherTimes || isSeparated(constraint, firstTimes, otherTimes)) continue;
+
+    const key = `${constraint.first}|${constraint.other}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    conflicts.push({
+      medications: [items[constraint.first].medication.name, items[constraint.other].medication.name],
+      reason: constraint.reason,
+    });
+  }
+  return conflicts;
+}
+
+// ============================================
+// Search
+// ============================================
+
+function combinations(values: number[], size: number): number[][] {
+  if (size === 0) return [[]];
+  const result: number[][] = [];
+  values.forEach((value, i) => {
+    for (const rest of combinations(values.slice(i + 1), size - 1)) {
+      result.push([value, ...rest]);
+    }
+  });
+  return result;
+}
+
+/**
+ * Best times for one medication given the ones already placed, or null when
+ * no times keep every separation
+ */
+function placeItem(
+  index: number,
+  items: PlanItem[],
+  constraints: PairConstraint[],
+  placed: (number[] | null)[],
+  candidates: number[]
+): number[] | null {
+  const item = items[index];
+  const count = item.current.length;
+  const usedTimes = new Set(placed.flatMap((times) => times ?? []));
+  const awakeSpan = Math.max(...candidates);
+  const interval =
+    count > 1
+      ? Math.min(
+          getIntervalForFrequency(item.medication.frequency, item.medication.customFrequency),
+          awakeSpan / (count - 1)
+        )
+      : 0;
+  const minGap = interval * MIN_INTERVAL_SHARE;
+  const relevant = constraints.filter(
+    (c) => (c.first === index && placed[c.other]) || (c.other === index && placed[c.first])
+  );
+
+  let best: { times: number[]; score: number } | null = null;
+  for (const combo of combinations([...new Set([...candidates, ...item.current])].sort((a, b) => a - b), count)) {
+    if (combo.some((time, i) => i > 0 && time - combo[i - 1] < minGap)) continue;
+    const separated = relevant.every((c) =>
+      c.first === index ? isSeparated(c, combo, placed[c.other]!) : isSeparated(c, placed[c.first]!, combo)
+    );
+    if (!separated) continue;
+
+    const shift = combo.reduce((sum, time, i) => sum + Math.abs(time - item.current[i]), 0);
+    const largestShift = Math.max(...combo.map((time, i) => Math.abs(time - item.current[i])));
+    const newTimes = combo.filter((time) => !usedTimes.has(time)).length;
+    // Only move far when a separation needs it
+    const farPenalty = largestShift > MAX_CONSOLIDATION_SHIFT_MINUTES ? 100000 : 0;
+    const score = farPenalty + newTimes * 1000 + shift;
+    if (!best || score < best.score) best = { times: combo, score };
+  }
+  return best?.times ?? null;
+}
+
+// ============================================
+// Optimizer
+// ============================================
+
+/**
+ * Propose dose times for a regimen. As-needed medications are left out;
+ * routine-anchored and many-times-a-day medications keep their times.
+ */
+export async function optimizeSchedule(
+  medications: Medication[],
+  routine: DailyRoutine,
+  rules: DoseSeparationRule[] = DOSE_SEPARATION_RULES
+): Promise<ScheduleProposal> {
+  const items: PlanItem[] = [];
+  for (const medication of medications) {
+    if (medication.isActive === false || medication.frequency === "as_needed") continue;
+    if (!medication.doses?.length) continue;
+
+    const { ingredients } = await resolveIngredients(medication.name);
+    items.push({
+      medication,
+      haystack: [...ingredients.map(toIngredientKey), medication.name.toLowerCase()],
+      current: medication.doses.map((dose) => toDayMinutes(dose.time, routine)).sort((a, b) => a - b),
+      fixed: !!medication.doseAnchors?.length || medication.doses.length > MAX_OPTIMIZED_DOSES,
+    });
+  }
+
+  const constraints = buildConstraints(items, rules);
+  const awakeSpan = toDayMinutes(routine.sleep, routine);
+
+  // Routine events and every hour of the waking day
+  const candidates = [
+    ...(["wake", "breakfast", "lunch", "dinner", "sleep"] as const).map((event) =>
+      toDayMinutes(routine[event], routine)
+    ),
+    ...Array.from({ length: Math.floor(awakeSpan / 60) + 1 }, (_, hour) => hour * 60),
+  ].filter((time) => time <= awakeSpan);
+  const uniqueCandidates = [...new Set(candidates)].sort((a, b) => a - b);
+
+  // Anchored doses first, then the most constrained medications
+  const placed: (number[] | null)[] = items.map((item) => (item.fixed ? item.current : null));
+  const order = items
+    .map((_, index) => index)
+    .filter((index) => !items[index].fixed)
+    .sort((a, b) => {
+      const constraintCount = (i: number) => constraints.filter((c) => c.first === i || c.other === i).length;
+      return (
+        constraintCount(b) - constraintCount(a) || items[b].current.length - items[a].current.length
+      );
+    });
+
+  for (const index of order) {
+    placed[index] = placeItem(index, items, constraints, placed, uniqueCandidates) ?? items[index].current;
+  }
+
+  const changes: ScheduleChange[] = items.map((item, index) => {
+    const before = item.current.map((time) => fromDayMinutes(time, routine));
+    const after = (placed[index] ?? item.current).map((time) => fromDayMinutes(time, routine));
+    return {
+      medicationId: item.medication.id,
+      medicationName: item.medication.name,
+      before,
+      after,
+      fixed: item.fixed,
+      changed: before.join() !== after.join(),
+    };
+  });
+
+  const countTimes = (lists: string[][]) => new Set(lists.flat()).size;
+  return {
+    changes,
+    timesBefore: countTimes(changes.map((change) => change.before)),
+    timesAfter: countTimes(changes.map((change) => change.after)),
+    conflictsBefore: collectConflicts(items, constraints, items.map((item) => item.current)),
+    conflictsAfter: collectConflicts(items, constraints, placed),
+    hasChanges: changes.some((change) => change.changed),
+  };
+}
@@ -8,11 +8,27 @@ import type {
   ScheduledDose,
   MedicationSchedule,
   MedicineFormData,
+  DosePhase,
+  TaperStep,
+  FrequencyPattern,
+  DailyRoutine,
+  DoseAnchor,
+  DoseTiming,
+  RoutineEvent,
 } from "../types";
+import type { DbDosePhase, DbDoseAnchor, DoseHistory, DoseStatus, PrnDoseLog } from "@/types/database";
+import type { Medication } from "@/types";
 import {
+  COMMON_TIME_ZONES,
+  DEFAULT_DAILY_ROUTINE,
+  DEFAULT_TIME_ZONE,
   FREQUENCY_OPTIONS,
   getDoseLabelForHour,
   getIntervalForFrequency,
+  getTodayDateString,
+  LATE_DOSE_GRACE_MINUTES,
+  MIN_DOSE_INTERVAL_MINUTES,
+  WEEKDAY_OPTIONS,
 } from "../constants";
 
 /**
@@ -49,6 +65,21 @@ export function formatTime12Hour(timeStr: string): string {
   return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`;
 }
 
+/**
+ * Normalize "8:00 AM" or "08:00" to HH:mm (24-hour)
+ */
+export function to24HourTime(timeStr: string): string {
+  const match = timeStr.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return timeStr;
+
+  let hours = parseInt(match[1], 10);
+  const period = match[3]?.toUpperCase();
+  if (period === "PM" && hours !== 12) hours += 12;
+  if (period === "AM" && hours === 12) hours = 0;
+
+  return formatTime(hours, parseInt(match[2], 10));
+}
+
 /**
  * Add minutes to a time string
  */
@@ -76,16 +107,20 @@ export function getDosesPerDay(
 }
 
 /**
- * Calculate all dose times for a day given a start time and frequency
+ * Calculate all dose times for a day given a start time and frequency.
+ * Anchored doses follow the routine instead of the start time, and no dose
+ * is placed inside the routine's sleep window.
  */
 export function calculateDoseTimes(
   startTime: string,
   frequency: FrequencyType,
   customFrequency?: number,
-  nextDayMode: NextDayMode = "restart"
+  nextDayMode: NextDayMode = "restart",
+  options: { routine?: DailyRoutine; anchors?: DoseAnchor[] } = {}
 ): ScheduledDose[] {
   const doses: ScheduledDose[] = [];
   const dosesPerDay = getDosesPerDay(frequency, customFrequency);
+  const routine = options.routine ?? DEFAULT_DAILY_ROUTINE;
 
   if (dosesPerDay <= 0 || frequency === "as_needed") {
     // For "as needed" medications, just create one placeholder dose
@@ -99,67 +134,1144 @@ export function calculateDoseTimes(
     ];
   }
 
-  // For every other day or weekly, just one dose
-  if (frequency === "every_other_day" || frequency === "weekly") {
-    const { hours } = parseTime(startTime);
+  // For every other day, weekly or day-pattern schedules, just one dose
+  const isSingleDose =
+    frequency === "every_other_day" ||
+    frequency === "weekly" ||
+    frequency === "specific_days" ||
+    frequency === "cycle";
+
+  if (options.anchors?.length) {
+    const anchors = fitAnchorsToDoseCount(options.anchors, getDosesPerDoseDay(frequency, customFrequency));
+    if (anchors.length > 0) {
+      return calculateAnchoredDoses(anchors, routine);
+    }
+  }
+
+  let firstTime = moveOutOfSleepWindow(startTime, routine);
+
+  if (isSingleDose) {
+    const { hours } = parseTime(firstTime);
     return [
       {
         id: generateId(),
-        time: startTime,
+        time: firstTime,
         label: getDoseLabelForHour(hours),
         taken: false,
       },
     ];
   }
 
-  const intervalMinutes = getIntervalForFrequency(frequency, customFrequency);
-  let currentTime = startTime;
+  let intervalMinutes = getIntervalForFrequency(frequency, customFrequency);
+
+  // For restart mode, squeeze the doses in before bedtime if they don't fit;
+  // too close to bedtime to space them out, the day starts at the next waking
+  if (nextDayMode === "restart" && dosesPerDay > 1) {
+    let awakeMinutes = minutesUntil(firstTime, routine.sleep);
+    if (awakeMinutes < MIN_DOSE_INTERVAL_MINUTES * (dosesPerDay - 1)) {
+      firstTime = routine.wake;
+      awakeMinutes = minutesUntil(routine.wake, routine.sleep);
+    }
+    if (intervalMinutes * (dosesPerDay - 1) > awakeMinutes) {
+      intervalMinutes = Math.max(1, Math.floor(awakeMinutes / (dosesPerDay - 1)));
+    }
+  }
 
   for (let i = 0; i < dosesPerDay; i++) {
-    const { hours } = parseTime(currentTime);
+    // Continue mode runs around the clock, so move night doses to bedtime or waking
+    const time = moveOutOfSleepWindow(addMinutesToTime(firstTime, intervalMinutes * i), routine);
+    const { hours } = parseTime(time);
 
     doses.push({
       id: generateId(),
-      time: currentTime,
+      time,
       label: getDoseLabelForHour(hours),
       taken: false,
     });
+  }
+
+  return doses;
+}
+
+// ============================================
+// Daily Routine & Dose Anchors
+// ============================================
+
+const ROUTINE_EVENT_NAMES: Record<RoutineEvent, string> = {
+  wake: "waking",
+  breakfast: "breakfast",
+  lunch: "lunch",
+  dinner: "dinner",
+  sleep: "bed",
+};
+
+/**
+ * Minutes from one time of day to the next occurrence of another (0-1439)
+ */
+function minutesUntil(from: string, to: string): number {
+  const a = parseTime(from);
+  const b = parseTime(to);
+  return (((b.hours - a.hours) * 60 + (b.minutes - a.minutes)) % 1440 + 1440) % 1440;
+}
+
+/**
+ * Whether a time falls while the user is asleep (after bedtime, before waking).
+ * Bedtime and wake time themselves are not inside the window.
+ */
+export function isInSleepWindow(time: string, routine: DailyRoutine): boolean {
+  const sinceSleep = minutesUntil(routine.sleep, time);
+  return sinceSleep > 0 && sinceSleep < minutesUntil(routine.sleep, routine.wake);
+}
+
+/**
+ * Move a time inside the sleep window to the nearer of bedtime or wake time
+ */
+export function moveOutOfSleepWindow(time: string, routine: DailyRoutine): string {
+  if (!isInSleepWindow(time, routine)) return time;
+  return minutesUntil(routine.sleep, time) <= minutesUntil(time, routine.wake)
+    ? routine.sleep
+    : routine.wake;
+}
+
+/**
+ * Clock time for an anchor under a routine, kept out of the sleep window
+ */
+export function resolveAnchorTime(anchor: DoseAnchor, routine: DailyRoutine): string {
+  return moveOutOfSleepWindow(
+    addMinutesToTime(routine[anchor.event], anchor.offsetMinutes),
+    routine
+  );
+}
+
+/**
+ * Short dose label for an anchor (e.g., "Before breakfast", "Bedtime")
+ */
+function getAnchorLabel(anchor: DoseAnchor): string {
+  if (anchor.event === "sleep") return "Bedtime";
+  if (anchor.event === "wake") return "On waking";
+  const when = anchor.offsetMinutes < 0 ? "Before" : anchor.offsetMinutes > 0 ? "After" : "With";
+  return `${when} ${anchor.event}`;
+}
+
+/**
+ * Describe an anchor (e.g., "30 min before breakfast", "At bedtime")
+ */
+export function formatDoseAnchor(anchor: DoseAnchor): string {
+  const minutes = Math.abs(anchor.offsetMinutes);
+  if (minutes === 0) {
+    if (anchor.event === "sleep") return "At bedtime";
+    if (anchor.event === "wake") return "On waking";
+    return `With ${anchor.event}`;
+  }
+
+  const when = anchor.offsetMinutes < 0 ? "before" : "after";
+  return `${formatGap(minutes)} ${when} ${ROUTINE_EVENT_NAMES[anchor.event]}`;
+}
+
+/**
+ * Describe a medication's anchors as a whole (e.g., "30 min before meals")
+ */
+export function formatDoseTiming(anchors: DoseAnchor[] | undefined): string | null {
+  if (!anchors?.length) return null;
+  if (anchors.length === 1) return formatDoseAnchor(anchors[0]);
+
+  const { timing, minutes } = getDoseTiming(anchors);
+  if (timing === "with_meals") return "With meals";
+  return `${formatGap(minutes)} ${timing === "before_meals" ? "before" : "after"} meals`;
+}
+
+function formatGap(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} hr${minutes > 60 ? "s" : ""}` : `${minutes} min`;
+}
+
+/**
+ * Doses for a set of anchors, in day order starting from waking
+ */
+function calculateAnchoredDoses(anchors: DoseAnchor[], routine: DailyRoutine): ScheduledDose[] {
+  return anchors
+    .map((anchor) => ({
+      id: generateId(),
+      time: resolveAnchorTime(anchor, routine),
+      label: getAnchorLabel(anchor),
+      taken: false,
+    }))
+    .sort((a, b) => minutesUntil(routine.wake, a.time) - minutesUntil(routine.wake, b.time));
+}
+
+/**
+ * Meals used for each daily dose count (a fourth dose goes at bedtime)
+ */
+const MEALS_FOR_DOSE_COUNT: Record<number, RoutineEvent[]> = {
+  1: ["breakfast"],
+  2: ["breakfast", "dinner"],
+  3: ["breakfast", "lunch", "dinner"],
+  4: ["breakfast", "lunch", "dinner", "sleep"],
+};
+
+/**
+ * Doses on each day a medication is taken (alternate-day, weekly and
+ * day-pattern schedules have one dose on each of their days)
+ */
+export function getDosesPerDoseDay(frequency: FrequencyType, customFrequency?: number): number {
+  if (["every_other_day", "weekly", "specific_days", "cycle"].includes(frequency)) return 1;
+  return getDosesPerDay(frequency, customFrequency);
+}
+
+/**
+ * Dose timings that fit a frequency: meals for up to four doses a day,
+ * bedtime and waking for a single daily dose
+ */
+export function getAvailableDoseTimings(
+  frequency: FrequencyType,
+  customFrequency?: number
+): DoseTiming[] {
+  if (frequency === "as_needed") return ["fixed"];
+
+  const dosesPerDay = getDosesPerDoseDay(frequency, customFrequency);
+  const timings: DoseTiming[] = ["fixed"];
+  if (MEALS_FOR_DOSE_COUNT[dosesPerDay]) {
+    timings.push("before_meals", "with_meals", "after_meals");
+  }
+  if (dosesPerDay === 1) {
+    timings.push("bedtime", "waking");
+  }
+  return timings;
+}
+
+/**
+ * Build anchors for a timing. `minutes` is the gap from the event
+ * (before meals and bedtime, after meals and waking).
+ * Returns an empty array for "fixed" or when the timing doesn't fit the dose count.
+ */
+export function buildDoseAnchors(
+  timing: DoseTiming,
+  dosesPerDay: number,
+  minutes: number = 0
+): DoseAnchor[] {
+  const gap = Math.max(0, Math.round(minutes));
+
+  switch (timing) {
+    case "bedtime":
+      return dosesPerDay === 1 ? [{ event: "sleep", offsetMinutes: -gap }] : [];
+    case "waking":
+      return dosesPerDay === 1 ? [{ event: "wake", offsetMinutes: gap }] : [];
+    case "before_meals":
+    case "with_meals":
+    case "after_meals": {
+      const events = MEALS_FOR_DOSE_COUNT[dosesPerDay] ?? [];
+      const mealOffset =
+        timing === "before_meals" ? -gap : timing === "after_meals" ? gap : 0;
+      return events.map((event) => ({
+        event,
+        offsetMinutes: event === "sleep" ? 0 : mealOffset,
+      }));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Read the timing and gap back from a medication's anchors
+ */
+export function getDoseTiming(anchors: DoseAnchor[] | undefined): {
+  timing: DoseTiming;
+  minutes: number;
+} {
+  const first = anchors?.[0];
+  if (!first) return { timing: "fixed", minutes: 0 };
+
+  const minutes = Math.abs(first.offsetMinutes);
+  if (first.event === "sleep") return { timing: "bedtime", minutes };
+  if (first.event === "wake") return { timing: "waking", minutes };
+  if (first.offsetMinutes < 0) return { timing: "before_meals", minutes };
+  if (first.offsetMinutes > 0) return { timing: "after_meals", minutes };
+  return { timing: "with_meals", minutes: 0 };
+}
+
+/**
+ * Rebuild anchors for a different dose count (e.g., when a taper step
+ * changes the frequency), keeping the same timing. Empty when the timing
+ * no longer fits.
+ */
+export function fitAnchorsToDoseCount(anchors: DoseAnchor[], dosesPerDay: number): DoseAnchor[] {
+  if (anchors.length === dosesPerDay) return anchors;
+  const { timing, minutes } = getDoseTiming(anchors);
+  return buildDoseAnchors(timing, dosesPerDay, minutes);
+}
+
+/**
+ * Detect dose timing written in instructions, e.g. "30 minutes before breakfast",
+ * "take with food", "at bedtime". Returns null when nothing is found.
+ */
+export function detectDoseTiming(text: string): { timing: DoseTiming; minutes: number } | null {
+  const lower = text.toLowerCase();
+  const gapMatch = lower.match(/(\d+)\s*(?:minutes?|mins?|hours?|hrs?)\s*(?:before|after)/);
+  const gap = gapMatch
+    ? parseInt(gapMatch[1], 10) * (/hours?|hrs?/.test(gapMatch[0]) ? 60 : 1)
+    : undefined;
+
+  if (/bed\s*time|before (?:going to )?(?:bed|sleep)|at night before sleep/.test(lower)) {
+    return { timing: "bedtime", minutes: gap ?? 0 };
+  }
+  if (/on waking|upon waking|when you wake|empty stomach in the morning/.test(lower)) {
+    return { timing: "waking", minutes: gap ?? 0 };
+  }
+  if (/before (?:meals?|food|eating|breakfast|lunch|dinner)|empty stomach/.test(lower)) {
+    return { timing: "before_meals", minutes: gap ?? 30 };
+  }
+  if (/after (?:meals?|food|eating|breakfast|lunch|dinner)/.test(lower)) {
+    return { timing: "after_meals", minutes: gap ?? 30 };
+  }
+  if (/with (?:meals?|food|breakfast|lunch|dinner)/.test(lower)) {
+    return { timing: "with_meals", minutes: 0 };
+  }
+  return null;
+}
+
+/**
+ * Read the routine from profile columns, using defaults for anything unset
+ */
+export function fromDbRoutine(
+  profile: Partial<Record<`${RoutineEvent}_time`, string | null>> | null | undefined
+): DailyRoutine {
+  return {
+    wake: profile?.wake_time || DEFAULT_DAILY_ROUTINE.wake,
+    breakfast: profile?.breakfast_time || DEFAULT_DAILY_ROUTINE.breakfast,
+    lunch: profile?.lunch_time || DEFAULT_DAILY_ROUTINE.lunch,
+    dinner: profile?.dinner_time || DEFAULT_DAILY_ROUTINE.dinner,
+    sleep: profile?.sleep_time || DEFAULT_DAILY_ROUTINE.sleep,
+  };
+}
+
+/**
+ * Convert a routine to profile columns
+ */
+export function toDbRoutine(routine: DailyRoutine): Record<`${RoutineEvent}_time`, string> {
+  return {
+    wake_time: routine.wake,
+    breakfast_time: routine.breakfast,
+    lunch_time: routine.lunch,
+    dinner_time: routine.dinner,
+    sleep_time: routine.sleep,
+  };
+}
+
+/**
+ * Convert stored JSONB anchors to app anchors
+ */
+export function fromDbDoseAnchors(rows: DbDoseAnchor[] | null | undefined): DoseAnchor[] | undefined {
+  if (!rows || rows.length === 0) return undefined;
+  return rows.map((row) => ({ event: row.event, offsetMinutes: row.offset_minutes }));
+}
+
+/**
+ * Convert app anchors to the JSONB shape stored on the medication
+ */
+export function toDbDoseAnchors(anchors: DoseAnchor[] | undefined): DbDoseAnchor[] | null {
+  if (!anchors || anchors.length === 0) return null;
+  return anchors.map((anchor) => ({ event: anchor.event, offset_minutes: anchor.offsetMinutes }));
+}
+
+// ============================================
+// Taper / Step-Dose Phases
+// ============================================
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string (local calendar days)
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return toLocalDateString(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Number of calendar days from one YYYY-MM-DD date to another
+ */
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+}
+
+/**
+ * Place taper steps on the calendar, back to back, starting on startDate
+ */
+export function buildDosePhases(
+  steps: TaperStep[],
+  startDate: string,
+  defaultFrequency: FrequencyType,
+  customFrequency?: number
+): DosePhase[] {
+  const phases: DosePhase[] = [];
+  let cursor = startDate;
+
+  for (const step of steps) {
+    if (!step.dosage.trim() || step.days <= 0) continue;
+
+    const frequency = step.frequency ?? defaultFrequency;
+    const endDate = addDaysToDateString(cursor, step.days - 1);
+    phases.push({
+      id: generateId(),
+      startDate: cursor,
+      endDate,
+      dosage: step.dosage.trim(),
+      frequency,
+      customFrequency: frequency === "custom" ? customFrequency : undefined,
+    });
+    cursor = addDaysToDateString(endDate, 1);
+  }
+
+  return phases;
+}
+
+/**
+ * Turn dated phases back into editable steps
+ */
+export function dosePhasesToSteps(phases: DosePhase[]): TaperStep[] {
+  return phases.map((phase) => ({
+    dosage: phase.dosage,
+    days: daysBetween(phase.startDate, phase.endDate) + 1,
+    frequency: phase.frequency,
+  }));
+}
+
+/**
+ * Find the phase in effect on a date (YYYY-MM-DD), if any
+ */
+export function getPhaseForDate(
+  phases: DosePhase[] | undefined,
+  date: string
+): DosePhase | null {
+  if (!phases) return null;
+  return phases.find((p) => p.startDate <= date && date <= p.endDate) ?? null;
+}
+
+/**
+ * Dosage and frequency in effect on a given day
+ */
+export interface DoseRegimen {
+  dosage: string;
+  frequency: FrequencyType;
+  customFrequency?: number;
+  phase: DosePhase | null;
+}
+
+/**
+ * Resolve what a medication calls for on a date, taking taper phases into account
+ */
+export function getRegimenForDate(
+  medication: {
+    dosage: string;
+    frequency: FrequencyType;
+    customFrequency?: number;
+    dosePhases?: DosePhase[];
+  },
+  date: string
+): DoseRegimen {
+  const phase = getPhaseForDate(medication.dosePhases, date);
+  if (phase) {
+    return {
+      dosage: phase.dosage,
+      frequency: phase.frequency,
+      customFrequency: phase.customFrequency,
+      phase,
+    };
+  }
+
+  return {
+    dosage: medication.dosage,
+    frequency: medication.frequency,
+    customFrequency: medication.customFrequency,
+    phase: null,
+  };
+}
+
+/**
+ * Calculate the doses for a specific date, using the taper phase for that day.
+ * Tapered medications have no doses outside their phases, and day patterns
+ * (alternate days, weekly, chosen weekdays, on/off cycles) none on off days.
+ */
+export function calculateDoseTimesForDate(
+  medication: FrequencyPattern & {
+    dosage: string;
+    frequency: FrequencyType;
+    customFrequency?: number;
+    dosePhases?: DosePhase[];
+    doseAnchors?: DoseAnchor[];
+    startDate?: string;
+    startTime: string;
+    nextDayMode?: NextDayMode;
+  },
+  date: string,
+  routine?: DailyRoutine
+): ScheduledDose[] {
+  const regimen = getRegimenForDate(medication, date);
+  if (medication.dosePhases?.length && !regimen.phase) return [];
+  if (!isDoseDay({ ...medication, frequency: regimen.frequency }, date)) return [];
+
+  return calculateDoseTimes(
+    to24HourTime(medication.startTime),
+    regimen.frequency,
+    regimen.customFrequency,
+    medication.nextDayMode ?? "restart",
+    { routine, anchors: medication.doseAnchors }
+  ).map((dose) => ({ ...dose, dosage: regimen.dosage }));
+}
+
+/**
+ * Date range and length covered by a taper
+ */
+export function getTaperSpan(phases: DosePhase[]): {
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+} {
+  const startDate = phases[0].startDate;
+  const endDate = phases[phases.length - 1].endDate;
+  return { startDate, endDate, totalDays: daysBetween(startDate, endDate) + 1 };
+}
+
+/**
+ * Short taper description, e.g. "40mg ×3d → 30mg ×3d → 20mg ×3d"
+ */
+export function formatTaperSummary(phases: DosePhase[]): string {
+  return dosePhasesToSteps(phases)
+    .map((step) => `${step.dosage} ×${step.days}d`)
+    .join(" → ");
+}
+
+/**
+ * Detect a taper written in free text, e.g.
+ * "40mg for 3 days, then 30mg for 3 days, then 20mg for 3 days"
+ * Returns an empty array unless at least two steps are found.
+ */
+export function parseTaperSteps(text: string): TaperStep[] {
+  const pattern =
+    /(\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml|units?|tablets?|tabs?|capsules?|caps?)\b(?:\s+(?:daily|a day|once daily))?)\s*(?:for|x|×)\s*(\d+)\s*days?/gi;
+  const steps: TaperStep[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const dosage = match[1].replace(/\s+(?:daily|a day|once daily)$/i, "").trim();
+    steps.push({ dosage, days: parseInt(match[2], 10) });
+  }
+
+  return steps.length >= 2 ? steps : [];
+}
 
-    // Calculate next dose time
-    currentTime = addMinutesToTime(currentTime, intervalMinutes);
-
-    // For restart mode, cap times at 22:00 (10 PM) to avoid late night doses
-    if (nextDayMode === "restart") {
-      const { hours: nextHours } = parseTime(currentTime);
-      if (nextHours >= 22 || nextHours < 6) {
-        // If we'd go past 10 PM or into early morning, redistribute
-        // Instead, we'll just add remaining doses evenly
-        const remainingDoses = dosesPerDay - i - 1;
-        if (remainingDoses > 0) {
-          const { hours: startHours, minutes: startMinutes } = parseTime(startTime);
-          const startTotalMinutes = startHours * 60 + startMinutes;
-          const endTotalMinutes = 22 * 60; // 10 PM
-          const availableMinutes = endTotalMinutes - startTotalMinutes;
-          const redistributedInterval = Math.floor(availableMinutes / dosesPerDay);
-
-          // Recalculate remaining doses with redistributed interval
-          for (let j = i + 1; j < dosesPerDay; j++) {
-            currentTime = addMinutesToTime(startTime, redistributedInterval * j);
-            const { hours: redistHours } = parseTime(currentTime);
-            doses.push({
-              id: generateId(),
-              time: currentTime,
-              label: getDoseLabelForHour(redistHours),
-              taken: false,
-            });
-          }
-          break;
-        }
+/**
+ * Convert stored JSONB phases to app phases
+ */
+export function fromDbDosePhases(rows: DbDosePhase[] | null | undefined): DosePhase[] | undefined {
+  if (!rows || rows.length === 0) return undefined;
+  return rows
+    .map((row) => ({
+      id: row.id,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      dosage: row.dosage,
+      frequency: row.frequency,
+      customFrequency: row.custom_frequency ?? undefined,
+    }))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * Convert app phases to the JSONB shape stored on the medication
+ */
+export function toDbDosePhases(phases: DosePhase[] | undefined): DbDosePhase[] | null {
+  if (!phases || phases.length === 0) return null;
+  return phases.map((phase) => ({
+    id: phase.id,
+    start_date: phase.startDate,
+    end_date: phase.endDate,
+    dosage: phase.dosage,
+    frequency: phase.frequency,
+    custom_frequency: phase.customFrequency ?? null,
+  }));
+}
+
+// ============================================
+// Time Zones
+// Dose times are wall-clock times in the patient's profile time zone
+// ============================================
+
+/**
+ * The device's IANA time zone (e.g., "Asia/Manila")
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * The time zone a profile's dose times are in (the device's zone until one is saved)
+ */
+export function getProfileTimeZone(profile?: { timezone?: string | null } | null): string {
+  return profile?.timezone && isValidTimeZone(profile.timezone)
+    ? profile.timezone
+    : getDeviceTimeZone();
+}
+
+/**
+ * Whether a string is an IANA time zone this browser knows
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar and clock fields of an instant as seen in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hours: get("hour") % 24,
+    minutes: get("minute"),
+    seconds: get("second"),
+  };
+}
+
+/**
+ * The current wall-clock time in a time zone, as a Date whose local fields
+ * (getHours(), getDate(), ...) read that zone's clock.
+ * Use it wherever "now" or "today" is compared with dose times.
+ */
+export function getNowInTimeZone(timeZone?: string | null, date: Date = new Date()): Date {
+  if (!timeZone || !isValidTimeZone(timeZone)) return new Date(date);
+
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(date, timeZone);
+  return new Date(year, month - 1, day, hours, minutes, seconds, date.getMilliseconds());
+}
+
+/**
+ * Format a date as YYYY-MM-DD on a time zone's calendar
+ */
+export function toDateStringInTimeZone(timeZone?: string | null, date: Date = new Date()): string {
+  return toLocalDateString(getNowInTimeZone(timeZone, date));
+}
+
+/**
+ * Minutes a time zone is ahead of UTC at a given instant (DST aware)
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, date: Date = new Date()): number {
+  if (!isValidTimeZone(timeZone)) return -date.getTimezoneOffset();
+
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  return Math.round((asUtc - (date.getTime() - date.getMilliseconds())) / 60000);
+}
+
+/**
+ * Short label for a time zone, e.g. "Manila (GMT+8)" or "Kolkata (GMT+5:30)"
+ */
+export function formatTimeZoneLabel(timeZone: string, date: Date = new Date()): string {
+  const city = timeZone.split("/").pop()?.replace(/_/g, " ") || timeZone;
+  const offset = getTimeZoneOffsetMinutes(timeZone, date);
+  const sign = offset < 0 ? "-" : "+";
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  const gmt = minutes > 0 ? `GMT${sign}${hours}:${String(minutes).padStart(2, "0")}` : `GMT${sign}${hours}`;
+  return `${city} (${gmt})`;
+}
+
+/**
+ * Convert a wall-clock time from one time zone to another on a given day.
+ * dayShift is -1/+1 when the converted time falls on the previous/next day.
+ */
+export function convertTimeBetweenZones(
+  time: string,
+  fromZone: string,
+  toZone: string,
+  date: Date = new Date()
+): { time: string; dayShift: number } {
+  const { hours, minutes } = parseTime(to24HourTime(time));
+  const difference = getTimeZoneOffsetMinutes(toZone, date) - getTimeZoneOffsetMinutes(fromZone, date);
+  const total = hours * 60 + minutes + difference;
+  const wrapped = ((total % 1440) + 1440) % 1440;
+
+  return {
+    time: formatTime(Math.floor(wrapped / 60), wrapped % 60),
+    dayShift: Math.floor(total / 1440),
+  };
+}
+
+/**
+ * A patient's dose time as the viewer's clock reads it, e.g. "2:00 AM your time"
+ * Returns null when both zones read the same clock
+ */
+export function formatTimeForViewer(
+  time: string,
+  patientZone: string | null | undefined,
+  viewerZone: string,
+  date: Date = new Date()
+): string | null {
+  if (!patientZone || !isValidTimeZone(patientZone)) return null;
+  if (getTimeZoneOffsetMinutes(patientZone, date) === getTimeZoneOffsetMinutes(viewerZone, date)) {
+    return null;
+  }
+
+  const converted = convertTimeBetweenZones(time, patientZone, viewerZone, date);
+  const day = converted.dayShift > 0 ? " (next day)" : converted.dayShift < 0 ? " (prev. day)" : "";
+  return `${formatTime12Hour(converted.time)}${day} your time`;
+}
+
+/**
+ * Time zones to offer in pickers: the common list plus the device's and
+ * current zone when they're missing
+ */
+export function getTimeZoneOptions(currentZone?: string): { value: string; label: string }[] {
+  const options = [...COMMON_TIME_ZONES];
+  for (const zone of [getDeviceTimeZone(), currentZone]) {
+    if (zone && isValidTimeZone(zone) && !options.some((opt) => opt.value === zone)) {
+      options.unshift({ value: zone, label: zone.split("/").pop()?.replace(/_/g, " ") || zone });
+    }
+  }
+  return options;
+}
+
+// ============================================
+// Dose Instances
+// Today's taken, skipped and noted doses, kept per date in dose_history
+// ============================================
+
+/**
+ * Overlay a day's dose instances (taken, skipped, notes) onto medications
+ * Instances match doses by medication and scheduled time; doses without
+ * one are left as they are
+ */
+export function applyDoseLog(medications: Medication[], log: DoseHistory[]): Medication[] {
+  const entries = new Map(log.map((entry) => [`${entry.medication_id}|${entry.scheduled_time}`, entry]));
+
+  return medications.map((med) => {
+    if (med.doses && med.doses.length > 0) {
+      return {
+        ...med,
+        doses: med.doses.map((dose) => {
+          const entry = entries.get(`${med.id}|${dose.time}`);
+          if (!entry) return dose;
+          return {
+            ...dose,
+            taken: entry.status === "taken",
+            takenAt: entry.taken_at ?? undefined,
+            takenBy: entry.status === "taken" ? entry.actor_id ?? undefined : undefined,
+            skipped: entry.status === "skipped",
+            skipReason: entry.skip_reason ?? undefined,
+            note: entry.notes ?? undefined,
+          };
+        }),
+      };
+    }
+
+    const entry = entries.get(`${med.id}|${med.time}`);
+    if (!entry) return med;
+    return {
+      ...med,
+      taken: entry.status === "taken",
+      takenAt: entry.taken_at ?? undefined,
+      takenBy: entry.status === "taken" ? entry.actor_id ?? undefined : undefined,
+      skipped: entry.status === "skipped",
+      skipReason: entry.skip_reason ?? undefined,
+      doseNote: entry.notes ?? undefined,
+    };
+  });
+}
+
+/**
+ * Status to record for a dose when only its note changes
+ */
+export function getDoseLogStatus(dose: { taken: boolean; skipped?: boolean }): DoseStatus {
+  if (dose.skipped) return "skipped";
+  return dose.taken ? "taken" : "pending";
+}
+
+// ============================================
+// As-Needed (PRN) Doses
+// Logged each time they're taken; limits are checked over a rolling 24 hours
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of checking a new as-needed dose against the medication's limits
+ * "too_soon" is a warning (the minimum gap hasn't passed); "daily_max" blocks
+ */
+export interface PrnDoseCheck {
+  status: "ok" | "too_soon" | "daily_max";
+  /** Doses logged in the last 24 hours */
+  dosesLast24h: number;
+  /** Doses still allowed in the next 24 hours (null when there's no daily limit) */
+  remainingToday: number | null;
+  /** Most recent dose, if any */
+  lastTakenAt: Date | null;
+  /** Earliest time both limits allow another dose (null when one is allowed now) */
+  nextAllowedAt: Date | null;
+}
+
+/**
+ * Check whether another as-needed dose would break the minimum gap or the
+ * maximum doses in any 24 hours
+ */
+export function checkPrnDose(
+  limits: { prnMinIntervalMinutes?: number | null; prnMaxDailyDoses?: number | null },
+  logs: Pick<PrnDoseLog, "taken_at">[],
+  now: Date = new Date()
+): PrnDoseCheck {
+  const takenTimes = logs
+    .map((log) => new Date(log.taken_at).getTime())
+    .filter((time) => time <= now.getTime())
+    .sort((a, b) => b - a);
+  const recent = takenTimes.filter((time) => now.getTime() - time < DAY_MS);
+  const lastTaken = takenTimes[0] ?? null;
+
+  const { prnMinIntervalMinutes: minInterval, prnMaxDailyDoses: maxDaily } = limits;
+
+  // Next dose allowed once the gap has passed...
+  const intervalReadyAt = lastTaken !== null && minInterval ? lastTaken + minInterval * 60000 : null;
+  // ...and once the oldest dose that still counts toward the cap falls out of the 24 hours
+  const dailyReadyAt = maxDaily && recent.length >= maxDaily ? recent[maxDaily - 1] + DAY_MS : null;
+
+  const readyTimes = [intervalReadyAt, dailyReadyAt].filter(
+    (time): time is number => time !== null && time > now.getTime()
+  );
+  const nextAllowedAt = readyTimes.length > 0 ? new Date(Math.max(...readyTimes)) : null;
+
+  let status: PrnDoseCheck["status"] = "ok";
+  if (dailyReadyAt !== null && dailyReadyAt > now.getTime()) {
+    status = "daily_max";
+  } else if (intervalReadyAt !== null && intervalReadyAt > now.getTime()) {
+    status = "too_soon";
+  }
+
+  return {
+    status,
+    dosesLast24h: recent.length,
+    remainingToday: maxDaily ? Math.max(0, maxDaily - recent.length) : null,
+    lastTakenAt: lastTaken !== null ? new Date(lastTaken) : null,
+    nextAllowedAt,
+  };
+}
+
+/**
+ * Describe a medication's as-needed limits, e.g. "Every 4 hrs at most · max 6 in 24 hrs"
+ */
+export function formatPrnLimits(limits: {
+  prnMinIntervalMinutes?: number | null;
+  prnMaxDailyDoses?: number | null;
+}): string {
+  const parts: string[] = [];
+  if (limits.prnMinIntervalMinutes) {
+    const minutes = limits.prnMinIntervalMinutes;
+    const gap = minutes % 60 === 0 ? `${minutes / 60} hr${minutes === 60 ? "" : "s"}` : `${minutes} min`;
+    parts.push(`Every ${gap} at most`);
+  }
+  if (limits.prnMaxDailyDoses) {
+    parts.push(`${parts.length > 0 ? "max" : "Max"} ${limits.prnMaxDailyDoses} in 24 hrs`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : "No limits set";
+}
+
+/**
+ * When an as-needed dose was (or may next be) taken, on the patient's clock,
+ * e.g. "2:15 PM", "yesterday 9:40 PM" or "tomorrow 1:00 AM"
+ */
+export function formatPrnTime(at: Date, timeZone?: string | null, now: Date = new Date()): string {
+  const clock = getNowInTimeZone(timeZone, at);
+  const time = formatTime12Hour(formatTime(clock.getHours(), clock.getMinutes()));
+  if (toDateStringInTimeZone(timeZone, at) === toDateStringInTimeZone(timeZone, now)) return time;
+  return `${at > now ? "tomorrow" : "yesterday"} ${time}`;
+}
+
+// ============================================
+// Late Doses
+// "Take now or skip?" advice from the gap to the next dose and the
+// medication's late-dose rule (label or pharmacist)
+// ============================================
+
+// How far ahead to look for the next dose day (covers weekly and long cycles)
+const NEXT_DOSE_SEARCH_DAYS = 60;
+
+/**
+ * Advice for a dose that is running late
+ * "take_and_shift" means take it now and push the rest of today's doses back
+ */
+export interface LateDoseAdvice {
+  action: "take_now" | "take_and_shift" | "skip";
+  /** Minutes past the scheduled time */
+  lateMinutes: number;
+  /** Minutes until the next scheduled dose (null when none is coming up) */
+  minutesUntilNext: number | null;
+  /** e.g. "2:00 PM" or "8:00 AM tomorrow" */
+  nextDoseLabel: string | null;
+  /** How far to push later doses today (take_and_shift only) */
+  shiftMinutes: number;
+  /** Later doses today at their shifted times, HH:mm (take_and_shift only) */
+  shiftedTimes: string[];
+  /** Whether the advice follows a label or pharmacist rule rather than the halfway rule */
+  fromRule: boolean;
+  /** One-line advice for the patient */
+  message: string;
+}
+
+function clockMinutes(time: string): number {
+  const { hours, minutes } = parseTime(to24HourTime(time));
+  return hours * 60 + minutes;
+}
+
+/**
+ * "2 hrs 15 min", "45 min"
+ */
+function formatMinutesSpan(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  const hoursText = `${hours} hr${hours === 1 ? "" : "s"}`;
+  return rest === 0 ? hoursText : `${hoursText} ${rest} min`;
+}
+
+/**
+ * Should a late dose be taken now, taken with later doses shifted, or skipped?
+ * Returns null while the dose isn't late yet (within LATE_DOSE_GRACE_MINUTES)
+ * and for as-needed medications. Never advises taking a dose when the next
+ * one is already due, so doses are never doubled up.
+ */
+export function getLateDoseAdvice(
+  medication: FrequencyPattern &
+    Pick<Medication, "frequency" | "time" | "doses" | "startDate" | "lateDoseRule" | "lateDoseCutoffMinutes">,
+  scheduledTime: string,
+  options: { timeZone?: string | null; now?: Date } = {}
+): LateDoseAdvice | null {
+  if (medication.frequency === "as_needed") return null;
+
+  const clock = getNowInTimeZone(options.timeZone, options.now);
+  const nowMinutes = clock.getHours() * 60 + clock.getMinutes();
+  const scheduledMinutes = clockMinutes(scheduledTime);
+  const lateMinutes = nowMinutes - scheduledMinutes;
+  if (lateMinutes < LATE_DOSE_GRACE_MINUTES) return null;
+
+  const doseTimes = [
+    ...new Set(
+      (medication.doses?.length ? medication.doses.map((d) => d.time) : [medication.time]).map(clockMinutes)
+    ),
+  ].sort((a, b) => a - b);
+
+  // Next dose: a later one today, else the first dose on the next dose day
+  const laterToday = doseTimes.filter((t) => t > scheduledMinutes);
+  let nextMinutes: number | null = laterToday[0] ?? null;
+  let nextDayOffset = 0;
+  if (nextMinutes === null) {
+    const today = toLocalDateString(clock);
+    for (let offset = 1; offset <= NEXT_DOSE_SEARCH_DAYS; offset++) {
+      if (isDoseDay(medication, addDaysToDateString(today, offset))) {
+        nextDayOffset = offset;
+        nextMinutes = offset * 1440 + doseTimes[0];
+        break;
       }
     }
   }
 
-  return doses;
+  const minutesUntilNext = nextMinutes !== null ? nextMinutes - nowMinutes : null;
+  const interval = nextMinutes !== null ? nextMinutes - scheduledMinutes : null;
+  let nextDoseLabel: string | null = null;
+  if (nextMinutes !== null) {
+    const minuteOfDay = nextMinutes % 1440;
+    const time = formatTime12Hour(formatTime(Math.floor(minuteOfDay / 60), minuteOfDay % 60));
+    nextDoseLabel =
+      nextDayOffset === 0 ? time : nextDayOffset === 1 ? `${time} tomorrow` : `${time} in ${nextDayOffset} days`;
+  }
+
+  const rule = medication.lateDoseRule ?? "auto";
+  const fromRule = rule !== "auto";
+  let take: boolean;
+  switch (rule) {
+    case "take_when_remembered":
+      take = true;
+      break;
+    case "skip_missed":
+      take = false;
+      break;
+    case "cutoff":
+      take = !!medication.lateDoseCutoffMinutes && lateMinutes <= medication.lateDoseCutoffMinutes;
+      break;
+    default:
+      take = interval === null || lateMinutes <= interval / 2;
+  }
+  // Never together with (or after) the next dose
+  if (minutesUntilNext !== null && minutesUntilNext <= 0) take = false;
+
+  const base = { lateMinutes, minutesUntilNext, nextDoseLabel, fromRule };
+  const lateText = `${formatMinutesSpan(lateMinutes)} late`;
+
+  if (!take) {
+    const message =
+      minutesUntilNext !== null && minutesUntilNext <= 0
+        ? "Your next dose is already due. Take only that one, don't double up."
+        : `Skip this dose (${lateText})${nextDoseLabel ? ` and take the next one at ${nextDoseLabel}` : ""}. Don't double up.`;
+    return { ...base, action: "skip", shiftMinutes: 0, shiftedTimes: [], message };
+  }
+
+  // Taking it now squeezes the gap before a later dose today: push today's later doses back
+  const squeezed =
+    nextDayOffset === 0 && interval !== null && minutesUntilNext !== null && minutesUntilNext < interval * 0.75;
+  if (squeezed) {
+    const shiftMinutes = Math.round(lateMinutes / 15) * 15;
+    const shiftedTimes = laterToday
+      .map((t) => t + shiftMinutes)
+      .filter((t) => t < 1440)
+      .map((t) => formatTime(Math.floor(t / 60), t % 60));
+    const nextShifted = shiftedTimes[0] ? formatTime12Hour(shiftedTimes[0]) : null;
+    return {
+      ...base,
+      action: "take_and_shift",
+      shiftMinutes,
+      shiftedTimes,
+      message: `Take it now (${lateText}) and push today's later doses back ${formatMinutesSpan(shiftMinutes)}${
+        nextShifted ? `, so the next one is at ${nextShifted}` : ""
+      }.`,
+    };
+  }
+
+  return {
+    ...base,
+    action: "take_now",
+    shiftMinutes: 0,
+    shiftedTimes: [],
+    message: `Take it now (${lateText})${nextDoseLabel ? `. Next dose at ${nextDoseLabel} as usual` : ""}.`,
+  };
+}
+
+// ============================================
+// Dose Days (alternate-day, weekly, weekday and cycle patterns)
+// ============================================
+
+/**
+ * Whether a medication is due on a date (YYYY-MM-DD).
+ * Alternate-day, weekly and cycle patterns count from startDate (today when unset).
+ * As-needed medications are never due; their doses are logged as they're taken.
+ */
+export function isDoseDay(
+  medication: FrequencyPattern & { frequency: FrequencyType; startDate?: string },
+  date: string
+): boolean {
+  const offset = daysBetween(medication.startDate || toLocalDateString(), date);
+
+  switch (medication.frequency) {
+    case "as_needed":
+      return false;
+    case "every_other_day":
+      return ((offset % 2) + 2) % 2 === 0;
+    case "weekly":
+      return ((offset % 7) + 7) % 7 === 0;
+    case "specific_days": {
+      if (!medication.daysOfWeek?.length) return true;
+      const [year, month, day] = date.split("-").map(Number);
+      return medication.daysOfWeek.includes(new Date(year, month - 1, day).getDay());
+    }
+    case "cycle": {
+      const daysOn = medication.cycleDaysOn ?? 0;
+      const daysOff = medication.cycleDaysOff ?? 0;
+      if (daysOn <= 0) return true;
+      if (offset < 0) return false;
+      return offset % (daysOn + daysOff) < daysOn;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a medication has doses due on a date (YYYY-MM-DD): within its
+ * start and end dates and on one of its dose days
+ */
+export function isDueOnDate(
+  medication: FrequencyPattern & { frequency: FrequencyType; startDate?: string; endDate?: string },
+  date: string
+): boolean {
+  if (medication.startDate && date < medication.startDate) return false;
+  if (medication.endDate && date > medication.endDate) return false;
+  return isDoseDay(medication, date);
+}
+
+/**
+ * Whether a pattern has what its frequency needs (weekdays or days on)
+ */
+export function isFrequencyPatternComplete(
+  frequency: FrequencyType,
+  pattern: FrequencyPattern
+): boolean {
+  if (frequency === "specific_days") return (pattern.daysOfWeek?.length ?? 0) > 0;
+  if (frequency === "cycle") return (pattern.cycleDaysOn ?? 0) > 0;
+  return true;
+}
+
+/**
+ * Average doses per calendar day, spreading weekday and cycle patterns
+ * over the week or cycle (used for supply forecasts)
+ */
+export function getAverageDosesPerDay(
+  medication: FrequencyPattern & { frequency: FrequencyType; customFrequency?: number }
+): number {
+  const dosesPerDay = getDosesPerDay(medication.frequency, medication.customFrequency);
+
+  if (medication.frequency === "specific_days" && medication.daysOfWeek?.length) {
+    return (dosesPerDay * medication.daysOfWeek.length) / 7;
+  }
+
+  const daysOn = medication.cycleDaysOn ?? 0;
+  if (medication.frequency === "cycle" && daysOn > 0) {
+    return (dosesPerDay * daysOn) / (daysOn + (medication.cycleDaysOff ?? 0));
+  }
+
+  return dosesPerDay;
+}
+
+/**
+ * Describe a weekday or cycle pattern (e.g., "Mon, Wed, Fri" or "21 days on, 7 off")
+ */
+export function formatFrequencyPattern(
+  medication: FrequencyPattern & { frequency: FrequencyType }
+): string | null {
+  if (medication.frequency === "specific_days" && medication.daysOfWeek?.length) {
+    return WEEKDAY_OPTIONS.filter((day) => medication.daysOfWeek!.includes(day.value))
+      .map((day) => day.label)
+      .join(", ");
+  }
+
+  if (medication.frequency === "cycle" && medication.cycleDaysOn) {
+    return `${medication.cycleDaysOn} days on, ${medication.cycleDaysOff ?? 0} off`;
+  }
+
+  return null;
 }
 
 /**
@@ -191,32 +1303,48 @@ export function getNextDoseTime(
 
 /**
  * Create a full medication schedule from form data
+ * For tapers, today's doses follow the first phase
  */
 export function createMedicationSchedule(
   formData: MedicineFormData,
   medicationId: string = generateId()
 ): MedicationSchedule {
-  const intervalMinutes = getIntervalForFrequency(
-    formData.frequency,
-    formData.customFrequency
-  );
+  const phases = formData.taperSteps?.length
+    ? buildDosePhases(
+        formData.taperSteps,
+        formData.startDate ?? getTodayDateString(),
+        formData.frequency,
+        formData.customFrequency
+      )
+    : undefined;
+  const frequency = phases?.[0]?.frequency ?? formData.frequency;
+  const customFrequency = phases?.[0] ? phases[0].customFrequency : formData.customFrequency;
+
+  const intervalMinutes = getIntervalForFrequency(frequency, customFrequency);
+
+  const anchors = formData.doseAnchors?.length
+    ? fitAnchorsToDoseCount(formData.doseAnchors, getDosesPerDoseDay(frequency, customFrequency))
+    : [];
 
   const doses = calculateDoseTimes(
     formData.startTime,
-    formData.frequency,
-    formData.customFrequency,
-    formData.nextDayMode
+    frequency,
+    customFrequency,
+    formData.nextDayMode,
+    { routine: formData.routine, anchors }
   );
 
   return {
     id: generateId(),
     medicationId,
-    frequency: formData.frequency,
-    customFrequency: formData.customFrequency,
+    frequency,
+    customFrequency,
     startTime: formData.startTime,
     nextDayMode: formData.nextDayMode,
     intervalMinutes,
     doses,
+    phases: phases?.length ? phases : undefined,
+    anchors: anchors.length ? anchors : undefined,
     isActive: true,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
@@ -228,15 +1356,19 @@ export function createMedicationSchedule(
  */
 export function calculateNextDayDoses(
   schedule: MedicationSchedule,
-  lastDoseTime?: string
+  lastDoseTime?: string,
+  routine?: DailyRoutine
 ): ScheduledDose[] {
+  const options = { routine, anchors: schedule.anchors };
+
   if (schedule.nextDayMode === "restart") {
     // Restart from the original start time
     return calculateDoseTimes(
       schedule.startTime,
       schedule.frequency,
       schedule.customFrequency,
-      schedule.nextDayMode
+      schedule.nextDayMode,
+      options
     );
   }
 
@@ -247,7 +1379,8 @@ export function calculateNextDayDoses(
       nextStartTime,
       schedule.frequency,
       schedule.customFrequency,
-      schedule.nextDayMode
+      schedule.nextDayMode,
+      options
     );
   }
 
@@ -256,17 +1389,25 @@ export function calculateNextDayDoses(
     schedule.startTime,
     schedule.frequency,
     schedule.customFrequency,
-    schedule.nextDayMode
+    schedule.nextDayMode,
+    options
   );
 }
 
 /**
  * Format schedule summary for display
  */
-export function formatScheduleSummary(schedule: MedicationSchedule): string {
+export function formatScheduleSummary(
+  schedule: MedicationSchedule,
+  pattern?: FrequencyPattern
+): string {
   const doseCount = schedule.doses.length;
   const times = schedule.doses.map((d) => formatTime12Hour(d.time)).join(", ");
 
+  if (schedule.phases?.length) {
+    return `Taper: ${formatTaperSummary(schedule.phases)}`;
+  }
+
   if (schedule.frequency === "as_needed") {
     return "Take as needed";
   }
@@ -279,6 +1420,16 @@ export function formatScheduleSummary(schedule: MedicationSchedule): string {
     return `Once weekly at ${times}`;
   }
 
+  const patternText = formatFrequencyPattern({ ...pattern, frequency: schedule.frequency });
+  if (patternText) {
+    return `${patternText} at ${times}`;
+  }
+
+  const timingText = formatDoseTiming(schedule.anchors);
+  if (timingText) {
+    return `${doseCount}x daily, ${timingText.toLowerCase()}: ${times}`;
+  }
+
   return `${doseCount}x daily: ${times}`;
 }
 
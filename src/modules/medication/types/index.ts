@@ -22,14 +22,82 @@ export type FrequencyType =
   | "four_times_daily"
   | "every_other_day"
   | "weekly"
+  | "specific_days"
+  | "cycle"
   | "as_needed"
   | "custom";
 
+/**
+ * Which days a medication is taken, for the "specific_days" and "cycle" frequencies,
+ * and the safety limits of an "as_needed" medication
+ */
+export interface FrequencyPattern {
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday
+  cycleDaysOn?: number; // Days taken per cycle, counted from startDate
+  cycleDaysOff?: number; // Days off after each run of days on
+  prnMinIntervalMinutes?: number | null; // Minimum gap between as-needed doses
+  prnMaxDailyDoses?: number | null; // Most as-needed doses in any 24 hours
+}
+
+/**
+ * Points in the user's day that doses can be anchored to
+ */
+export type RoutineEvent = "wake" | "breakfast" | "lunch" | "dinner" | "sleep";
+
+/**
+ * A user's usual daily routine (all times HH:mm, 24-hour).
+ * The span from sleep to wake is the sleep window, where no dose is placed.
+ */
+export type DailyRoutine = Record<RoutineEvent, string>;
+
+/**
+ * Places one daily dose relative to a routine event (e.g., 30 minutes before breakfast)
+ */
+export interface DoseAnchor {
+  event: RoutineEvent;
+  offsetMinutes: number; // Negative = before the event, 0 = with it
+}
+
+/**
+ * How a medication's daily doses are timed: spread from a start time ("fixed")
+ * or anchored to meals, bedtime or waking
+ */
+export type DoseTiming =
+  | "fixed"
+  | "before_meals"
+  | "with_meals"
+  | "after_meals"
+  | "bedtime"
+  | "waking";
+
+/**
+ * What happens to dose times when the patient's device moves to another time zone:
+ * "shift" keeps the same clock times in the new zone (8:00 AM stays 8:00 AM local),
+ * "keep" stays on home time (8:00 AM Manila may become 1:00 AM in Dubai)
+ */
+export type TravelMode = "shift" | "keep";
+
+/**
+ * Why a dose was deliberately skipped (skipped doses don't count as missed)
+ */
+export type SkipReason = "nausea" | "out_of_stock" | "doctor_advised" | "fasting" | "other";
+
+/**
+ * What to do with a late dose, from the label or the pharmacist
+ * "auto" takes it up to halfway to the next dose; "cutoff" up to a set number of minutes late
+ */
+export type LateDoseRule = "auto" | "take_when_remembered" | "skip_missed" | "cutoff";
+
 /**
  * Next day behavior for medication schedules
  */
 export type NextDayMode = "restart" | "continue";
 
+/**
+ * Date ranges (in days) available for adherence analytics
+ */
+export type AnalyticsRange = 7 | 30 | 90;
+
 /**
  * A single scheduled dose time
  */
@@ -39,6 +107,40 @@ export interface ScheduledDose {
   label: string; // e.g., "Morning", "Afternoon", "Evening"
   taken: boolean;
   takenAt?: string; // ISO timestamp
+  dosage?: string; // Set when the dose comes from a taper phase
+}
+
+/**
+ * Doses that must be kept apart (e.g., levothyroxine and calcium). Names
+ * match when an ingredient contains one of the keywords.
+ */
+export interface DoseSeparationRule {
+  drugs: string[];
+  separateFrom: string[];
+  minutesBefore: number; // When the drug is taken first
+  minutesAfter: number; // When the other is taken first
+  reason: string;
+}
+
+/**
+ * One phase of a taper or titration regimen (e.g., 40mg daily for 3 days)
+ */
+export interface DosePhase {
+  id: string;
+  startDate: string; // ISO date string (YYYY-MM-DD)
+  endDate: string; // ISO date string (YYYY-MM-DD), inclusive
+  dosage: string;
+  frequency: FrequencyType;
+  customFrequency?: number;
+}
+
+/**
+ * A taper step as written on a prescription, before it is placed on the calendar
+ */
+export interface TaperStep {
+  dosage: string;
+  days: number;
+  frequency?: FrequencyType; // Defaults to the medication's frequency
 }
 
 /**
@@ -55,6 +157,7 @@ export interface ExtractedMedicineData {
   startDate?: string; // ISO date string (YYYY-MM-DD)
   endDate?: string; // ISO date string (YYYY-MM-DD), computed from startDate + timePeriod
   instructions?: string;
+  taperSteps?: TaperStep[]; // Detected taper/titration schedule, in order
   source: "scan" | "voice" | "manual";
   imageUrl?: string; // Optional reference photo
   confirmed: boolean;
@@ -72,6 +175,8 @@ export interface MedicationSchedule {
   nextDayMode: NextDayMode;
   intervalMinutes: number; // Computed interval between doses
   doses: ScheduledDose[];
+  phases?: DosePhase[]; // Ordered taper phases, if the dose changes over time
+  anchors?: DoseAnchor[]; // Routine anchors, if doses follow meals or sleep
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -80,7 +185,7 @@ export interface MedicationSchedule {
 /**
  * Enhanced medication with full scheduling support
  */
-export interface EnhancedMedication {
+export interface EnhancedMedication extends FrequencyPattern {
   id: string;
   userId: string;
   name: string;
@@ -104,19 +209,21 @@ export interface EnhancedMedication {
 export interface MedicationAlarm {
   id: string;
   medicationId: string;
+  doseId?: string;
   medicationName: string;
   dosage: string;
   scheduledTime: string; // HH:mm
   scheduledDate: string; // YYYY-MM-DD
   notified: boolean;
-  snoozed: boolean;
-  snoozeUntil?: string;
+  snoozed: boolean; // Snoozed right now
+  snoozeUntil?: string; // ISO timestamp the latest snooze ends
+  snoozeCount?: number; // Times this dose has been snoozed
 }
 
 /**
  * Form state for the medicine confirmation flow
  */
-export interface MedicineFormData {
+export interface MedicineFormData extends FrequencyPattern {
   name: string;
   dosage: string;
   category: MedicationCategory;
@@ -129,6 +236,9 @@ export interface MedicineFormData {
   startTime: string;
   nextDayMode: NextDayMode;
   imageUrl?: string;
+  taperSteps?: TaperStep[];
+  doseAnchors?: DoseAnchor[]; // When set, doses follow the routine instead of startTime
+  routine?: DailyRoutine; // Routine used to place anchored doses and avoid sleep hours
 }
 
 /**
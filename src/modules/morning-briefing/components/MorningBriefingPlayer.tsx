@@ -29,7 +29,6 @@ import type { WeatherData } from "../types";
 import {
   type SupportedLanguage,
   loadLanguagePreference,
-  saveLanguagePreference,
   getLanguageOptions,
   LANGUAGES,
 } from "@/services/language";
@@ -91,7 +90,7 @@ export function MorningBriefingPlayer({
   autoPlay = false,
   onPlayComplete,
 }: MorningBriefingPlayerProps) {
-  const { userName: contextUserName, medications } = useApp();
+  const { userName: contextUserName, medications, updatePreferredLanguage } = useApp();
   const userName = userNameOverride || contextUserName || "Friend";
 
   // Language state - synced with user preference
@@ -117,7 +116,7 @@ export function MorningBriefingPlayer({
   // Handle language change - save preference and regenerate briefing
   const handleLanguageChange = (newLang: SupportedLanguage) => {
     setLanguage(newLang);
-    saveLanguagePreference(newLang);
+    updatePreferredLanguage(newLang);
     // Clear cache and regenerate with new language
     localStorage.removeItem(BRIEFING_CACHE_KEY);
     // Trigger regeneration after state update
@@ -0,0 +1,50 @@
+// ============================================
+// Sync Status Indicator
+// Small banner shown while offline or while changes made offline are
+// waiting to sync; tapping it syncs right away
+// ============================================
+
+import React from "react";
+import { CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useApp } from "@/contexts/AppContext";
+
+export function SyncStatusIndicator() {
+  const { isAuthenticated, syncStatus, syncPendingChanges } = useApp();
+  const { isOnline, isSyncing, pendingChanges } = syncStatus;
+
+  if (!isAuthenticated || (isOnline && !isSyncing && pendingChanges === 0)) return null;
+
+  const pendingLabel = `${pendingChanges} change${pendingChanges === 1 ? "" : "s"} waiting to sync`;
+
+  let label: string;
+  if (!isOnline) {
+    label = pendingChanges > 0 ? `Offline · ${pendingLabel}` : "Offline · changes are saved on this device";
+  } else if (isSyncing) {
+    label = "Syncing your changes...";
+  } else {
+    label = `${pendingLabel} · tap to sync`;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => syncPendingChanges()}
+      disabled={!isOnline || isSyncing}
+      aria-live="polite"
+      className={cn(
+        "fixed top-2 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-full shadow-lg text-sm font-semibold",
+        isOnline ? "bg-primary text-primary-foreground" : "bg-amber-100 text-amber-900 border border-amber-300"
+      )}
+    >
+      {!isOnline ? (
+        <CloudOff className="w-4 h-4" />
+      ) : isSyncing ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        <RefreshCw className="w-4 h-4" />
+      )}
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,19 @@
+// ============================================
+// Offline Module
+// ============================================
+
+// Types
+export * from './types';
+
+// Services
+export {
+  enqueueChange,
+  getQueuedChanges,
+  isOfflineStorageAvailable,
+  loadRegimenSnapshot,
+  saveRegimenSnapshot,
+} from './services/offlineStore';
+export { isNetworkError, replayQueue } from './services/syncService';
+
+// Components
+export { SyncStatusIndicator } from './components/SyncStatusIndicator';
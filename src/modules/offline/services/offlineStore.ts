@@ -0,0 +1,137 @@
+// ============================================
+// Offline Store
+// IndexedDB storage for changes made without a connection and for the
+// last regimen loaded, so the app keeps working in patchy coverage
+// ============================================
+
+import type { QueuedChange, RegimenSnapshot } from "../types";
+
+const DB_NAME = "ainay-offline";
+const DB_VERSION = 1;
+const QUEUE_STORE = "queue";
+const REGIMEN_STORE = "regimen";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(REGIMEN_STORE)) {
+          db.createObjectStore(REGIMEN_STORE, { keyPath: "userId" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+      })
+  );
+}
+
+/**
+ * Whether this browser can keep data offline (not in private modes without IndexedDB)
+ */
+export function isOfflineStorageAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+// ============================================
+// Change Queue
+// ============================================
+
+/**
+ * A user's queued changes, oldest first
+ */
+export async function getQueuedChanges(userId: string): Promise<QueuedChange[]> {
+  const all = await runRequest<QueuedChange[]>(QUEUE_STORE, "readonly", (store) => store.getAll());
+  return all
+    .filter((change) => change.userId === userId)
+    .sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+}
+
+export async function putQueuedChange(change: QueuedChange): Promise<void> {
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.put(change));
+}
+
+export async function removeQueuedChange(id: string): Promise<void> {
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Queue a change, folding it into an earlier one for the same dose or medication:
+ * toggling a dose back cancels the queued toggle, and repeated edits to a
+ * medication keep the first edit's base values
+ */
+export async function enqueueChange(change: QueuedChange): Promise<void> {
+  const queued = await getQueuedChanges(change.userId);
+
+  if (change.type === "dose_toggle") {
+    const earlier = queued.find(
+      (q) =>
+        q.type === "dose_toggle" &&
+        q.medicationId === change.medicationId &&
+        q.doseId === change.doseId &&
+        q.scheduledDate === change.scheduledDate
+    );
+    if (earlier) {
+      await removeQueuedChange(earlier.id);
+      if (earlier.type === "dose_toggle" && earlier.taken !== change.taken) return;
+    }
+    await putQueuedChange(change);
+    return;
+  }
+
+  const earlier = queued.find(
+    (q) => q.type === "medication_update" && q.medicationId === change.medicationId
+  );
+  if (earlier && earlier.type === "medication_update") {
+    await putQueuedChange({
+      ...change,
+      id: earlier.id,
+      changedAt: earlier.changedAt,
+      base: earlier.base,
+      updates: { ...earlier.updates, ...change.updates },
+    });
+    return;
+  }
+  await putQueuedChange(change);
+}
+
+// ============================================
+// Regimen Snapshot
+// ============================================
+
+export async function saveRegimenSnapshot(snapshot: RegimenSnapshot): Promise<void> {
+  await runRequest(REGIMEN_STORE, "readwrite", (store) => store.put(snapshot));
+}
+
+export async function loadRegimenSnapshot(userId: string): Promise<RegimenSnapshot | null> {
+  const snapshot = await runRequest<RegimenSnapshot | undefined>(REGIMEN_STORE, "readonly", (store) =>
+    store.get(userId)
+  );
+  return snapshot ?? null;
+}
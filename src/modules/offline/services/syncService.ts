@@ -0,0 +1,165 @@
+// ============================================
+// Sync Service
+// Replays changes queued while offline, oldest first. Dose taps keep the
+// time they were made and land on that day's dose instance; where someone
+// else changed the same thing in the meantime, the newer change wins and the
+// other is reported as a conflict
+// ============================================
+
+import { supabase } from "@/lib/supabase";
+import {
+  adjustPillInventory,
+  recordDoseEvent,
+  updateMedication,
+  updateMedicationWithDoses,
+} from "@/services/supabase";
+import type { UpdateMedication } from "@/types/database";
+import type { QueuedDoseToggle, QueuedMedicationUpdate, SyncResult } from "../types";
+import { getQueuedChanges, removeQueuedChange } from "./offlineStore";
+
+type ReplayOutcome = { conflict: string | null; error: string | null };
+
+/**
+ * Whether a failed request failed because there was no connection,
+ * rather than being rejected by the server
+ */
+export function isNetworkError(message: string | null | undefined): boolean {
+  if (!message) return false;
+  return /Failed to fetch|NetworkError|Network request failed|Load failed|fetch failed/i.test(message);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+async function replayDoseToggle(change: QueuedDoseToggle): Promise<ReplayOutcome> {
+  const { data, error } = await supabase
+    .from("dose_history")
+    .select("status, actor_id, updated_at")
+    .eq("medication_id", change.medicationId)
+    .eq("scheduled_date", change.scheduledDate)
+    .eq("scheduled_time", change.scheduledTime)
+    .maybeSingle();
+
+  if (error) return { conflict: null, error: error.message };
+
+  const current = data as { status: string; actor_id: string | null; updated_at: string | null } | null;
+  if (current && (current.status === "taken") === change.taken) {
+    // Already recorded elsewhere (a companion marked the same dose)
+    return { conflict: null, error: null };
+  }
+  // Instances generated or closed out by the server have no actor and never win over a tap
+  if (current?.actor_id && current.updated_at && current.updated_at > change.changedAt) {
+    return {
+      conflict: `The ${change.scheduledTime} dose was already updated by someone else, so your offline change was not applied.`,
+      error: null,
+    };
+  }
+
+  const { takenChanged, error: historyError } = await recordDoseEvent({
+    userId: change.userId,
+    medicationId: change.medicationId,
+    doseId: change.doseId,
+    scheduledTime: change.scheduledTime,
+    scheduledDate: change.scheduledDate,
+    status: change.taken ? "taken" : "pending",
+    takenAt: change.taken ? change.changedAt : null,
+    actorId: change.userId,
+  });
+  if (historyError) return { conflict: null, error: historyError };
+
+  if (takenChanged && change.pillsDelta !== 0) {
+    await adjustPillInventory(change.medicationId, change.pillsDelta);
+  }
+
+  return { conflict: null, error: null };
+}
+
+/**
+ * Three-way merge of an offline edit: fields we changed are written unless
+ * someone else changed the same field to something different meanwhile
+ */
+async function replayMedicationUpdate(change: QueuedMedicationUpdate): Promise<ReplayOutcome> {
+  const { data, error } = await supabase
+    .from("medications")
+    .select("*")
+    .eq("id", change.medicationId)
+    .maybeSingle();
+
+  if (error) return { conflict: null, error: error.message };
+
+  if (!data) {
+    return {
+      conflict: `${change.medicationName} was removed while you were offline, so your edits were not saved.`,
+      error: null,
+    };
+  }
+
+  const theirs = data as Record<string, unknown>;
+  const base = change.base as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+  const conflictingFields: string[] = [];
+
+  for (const [field, ours] of Object.entries(change.updates as Record<string, unknown>)) {
+    if (sameValue(ours, base[field])) continue; // Not something we changed
+    if (sameValue(theirs[field], base[field]) || sameValue(theirs[field], ours)) {
+      merged[field] = ours;
+    } else {
+      conflictingFields.push(field.replace(/_/g, " "));
+    }
+  }
+
+  if (conflictingFields.length > 0) {
+    // Dose times follow from the schedule fields, so keep the server's if any of them clash
+    if (Object.keys(merged).length > 0) {
+      const { error: updateError } = await updateMedication(change.medicationId, merged as UpdateMedication);
+      if (updateError) return { conflict: null, error: updateError };
+    }
+    return {
+      conflict: `${change.medicationName} was also edited by someone else; their ${conflictingFields.join(", ")} was kept.`,
+      error: null,
+    };
+  }
+
+  const { error: updateError } = await updateMedicationWithDoses(
+    change.medicationId,
+    merged as UpdateMedication,
+    change.doses
+  );
+  return { conflict: null, error: updateError };
+}
+
+/**
+ * Replay a user's queued changes. Stops at the first network failure and
+ * leaves the rest queued; changes the server rejects outright are dropped
+ */
+export async function replayQueue(userId: string): Promise<SyncResult> {
+  const queued = await getQueuedChanges(userId);
+  const result: SyncResult = { applied: 0, conflicts: [], remaining: queued.length, error: null };
+
+  for (const change of queued) {
+    const { conflict, error } =
+      change.type === "dose_toggle"
+        ? await replayDoseToggle(change)
+        : await replayMedicationUpdate(change);
+
+    if (error && isNetworkError(error)) {
+      result.error = error;
+      return result;
+    }
+
+    await removeQueuedChange(change.id);
+    result.remaining -= 1;
+
+    if (error) {
+      console.error("Dropping offline change the server rejected:", error);
+      result.error = error;
+    } else if (conflict) {
+      result.conflicts.push(conflict);
+    } else {
+      result.applied += 1;
+    }
+  }
+
+  return result;
+}
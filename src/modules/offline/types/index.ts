@@ -0,0 +1,67 @@
+// ============================================
+// Offline Module Types
+// ============================================
+
+import type { Profile, UpdateMedication, InsertScheduleDose } from "@/types/database";
+import type { Medication } from "@/types";
+
+/**
+ * A dose marked taken or untaken while offline
+ */
+export interface QueuedDoseToggle {
+  id: string;
+  type: "dose_toggle";
+  userId: string;
+  medicationId: string;
+  doseId: string | null; // null for single-dose medications
+  scheduledTime: string;
+  scheduledDate: string; // Patient's calendar date when it was tapped
+  taken: boolean;
+  changedAt: string; // When it was tapped (ISO)
+  pillsDelta: number; // Inventory change to apply with it (0 when not tracked)
+  timeZone?: string;
+}
+
+/**
+ * A medication edited while offline. base holds the values the edit started
+ * from, so a replay can tell our changes from someone else's.
+ */
+export interface QueuedMedicationUpdate {
+  id: string;
+  type: "medication_update";
+  userId: string;
+  medicationId: string;
+  medicationName: string;
+  updates: UpdateMedication;
+  base: UpdateMedication;
+  doses: Omit<InsertScheduleDose, "medication_id">[];
+  changedAt: string;
+}
+
+export type QueuedChange = QueuedDoseToggle | QueuedMedicationUpdate;
+
+/**
+ * Last regimen loaded for a user, shown when the app opens offline
+ */
+export interface RegimenSnapshot {
+  userId: string;
+  profile: Profile | null;
+  medications: Medication[];
+  savedAt: string;
+}
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingChanges: number;
+  lastSyncedAt: string | null;
+}
+
+export interface SyncResult {
+  applied: number;
+  /** Changes dropped because the server already had something newer */
+  conflicts: string[];
+  /** Changes still queued (the connection dropped again) */
+  remaining: number;
+  error: string | null;
+}
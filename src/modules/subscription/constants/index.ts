@@ -84,6 +84,7 @@ export const FEATURE_ACCESS: Record<FeatureKey, SubscriptionTier[]> = {
   analytics_dashboard: ["pro", "enterprise"],
   family_sharing: ["enterprise"],
   custom_branding: ["enterprise"],
+  health_records_exchange: ["enterprise"], // FHIR import/export ("Connect to your systems")
 };
 
 // Maximum medications for free tier
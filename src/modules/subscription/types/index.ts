@@ -18,7 +18,8 @@ export type FeatureKey =
   | "priority_support"
   | "analytics_dashboard"
   | "family_sharing"
-  | "custom_branding";
+  | "custom_branding"
+  | "health_records_exchange";
 
 // Subscription plan definition
 export interface SubscriptionPlan {
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, Archive as ArchiveIcon } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Navigation } from "@/components/Navigation";
+import { useApp } from "@/contexts/AppContext";
+import { MedicationArchive } from "@/modules/medication";
+import { useRealtimePatientMedications } from "@/modules/companion/hooks/useRealtimePatientMedications";
+import {
+  reactivateMedicationForPatient,
+  renewMedicationForPatient,
+} from "@/modules/companion/services/companionMedication";
+import type { RenewalCourse } from "@/services/supabase";
+import type { Medication } from "@/types";
+
+/**
+ * Past medications: the patient's own at /archive, or a linked patient's
+ * at /companion/patient/:patientId/archive
+ */
+export default function Archive() {
+  const navigate = useNavigate();
+  const { patientId } = useParams<{ patientId: string }>();
+  const {
+    user,
+    linkedPatients,
+    timeZone,
+    loadPastMedications: loadOwnPastMedications,
+    reactivateMedication,
+    renewMedication,
+  } = useApp();
+
+  const patient = patientId
+    ? linkedPatients.find((p) => p.id === patientId && p.linkStatus === "accepted")
+    : undefined;
+
+  const { loadPastMedications: loadPatientPastMedications } = useRealtimePatientMedications(
+    patientId || "",
+    { enabled: !!patient }
+  );
+
+  const [pastMedications, setPastMedications] = useState<Medication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isPatientView = !!patient;
+  const loadArchive = useCallback(async () => {
+    const meds = isPatientView ? await loadPatientPastMedications() : await loadOwnPastMedications();
+    setPastMedications(meds);
+    setIsLoading(false);
+  }, [isPatientView, loadPatientPastMedications, loadOwnPastMedications]);
+
+  useEffect(() => {
+    if (patientId && !patient) return;
+    loadArchive();
+  }, [loadArchive, patientId, patient]);
+
+  const handleReactivate = async (medicationId: string) => {
+    const result = patient
+      ? await reactivateMedicationForPatient(medicationId, patient.id, user?.id ?? "", patient.timeZone)
+      : await reactivateMedication(medicationId);
+    if (!result.error) await loadArchive();
+    return result;
+  };
+
+  const handleRenew = async (medicationId: string, course: RenewalCourse) => {
+    const result = patient
+      ? await renewMedicationForPatient(medicationId, patient.id, user?.id ?? "", course)
+      : await renewMedication(medicationId, course);
+    if (!result.error) await loadArchive();
+    return result;
+  };
+
+  if (patientId && !patient) {
+    return (
+      <div className="min-h-screen bg-background pb-24">
+        <div className="p-4 text-center mt-20">
+          <h2 className="text-senior-xl font-bold mb-2">Person Not Found</h2>
+          <p className="text-lg text-muted-foreground mb-6">
+            We can't find this person. They may not be connected to your account yet.
+          </p>
+          <button onClick={() => navigate("/companion")} className="text-primary font-semibold text-lg">
+            ← Go Back
+          </button>
+        </div>
+        <Navigation />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-24 lg:pb-8 lg:ml-20 xl:ml-24">
+      {/* Header */}
+      <header className="bg-card border-b border-border p-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+          <div>
+            <h1 className="text-senior-xl font-bold flex items-center gap-2">
+              <ArchiveIcon className="w-6 h-6 text-primary" />
+              Past Medicines
+            </h1>
+            <p className="text-base text-muted-foreground">
+              {patient ? `Medicines ${patient.name} no longer takes` : "Medicines you no longer take"}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4 max-w-4xl mx-auto">
+        <MedicationArchive
+          medications={pastMedications}
+          isLoading={isLoading}
+          patientName={patient?.name}
+          timeZone={patient ? patient.timeZone : timeZone}
+          onReactivate={handleReactivate}
+          onRenew={handleRenew}
+        />
+      </main>
+
+      <Navigation />
+    </div>
+  );
+}
@@ -39,6 +39,7 @@ export default function AskAInayForPatient() {
     refresh,
   } = useRealtimePatientMedications(patientId || "", {
     enabled: !!patient,
+    timeZone: patient?.timeZone,
   });
 
   // Update patient with realtime medications
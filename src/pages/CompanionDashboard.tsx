@@ -9,6 +9,7 @@ import {
   useRealtimeMultiplePatients,
 } from "@/modules/companion";
 import type { Medication } from "@/types";
+import { getNowInTimeZone, isDoseDay, toDateStringInTimeZone } from "@/modules/medication";
 
 export default function CompanionDashboard() {
   const navigate = useNavigate();
@@ -29,16 +30,21 @@ export default function CompanionDashboard() {
   });
 
   // Helper to check if a dose time has passed (is overdue if not taken)
-  const isDoseOverdue = (doseTime: string): boolean => {
-    const now = new Date();
+  // Dose times are read on the patient's clock, not the companion's
+  const isDoseOverdue = (doseTime: string, timeZone?: string): boolean => {
+    const now = getNowInTimeZone(timeZone);
     const [hours, minutes] = doseTime.split(':').map(Number);
-    const doseDate = new Date();
+    const doseDate = new Date(now);
     doseDate.setHours(hours, minutes, 0, 0);
     return now > doseDate;
   };
 
   // Helper to calculate dose-level stats for a medication
-  const getMedDoseStats = (med: Medication) => {
+  const getMedDoseStats = (med: Medication, timeZone?: string) => {
+    // Off days (weekday and cycle schedules) have nothing due
+    if (!isDoseDay(med, toDateStringInTimeZone(timeZone))) {
+      return { total: 0, taken: 0 };
+    }
     if (med.doses && med.doses.length > 0) {
       return {
         total: med.doses.length,
@@ -49,12 +55,13 @@ export default function CompanionDashboard() {
   };
 
   // Helper to get overdue doses (past time and not taken)
-  const getOverdueDoses = (med: Medication): number => {
+  const getOverdueDoses = (med: Medication, timeZone?: string): number => {
+    if (!isDoseDay(med, toDateStringInTimeZone(timeZone))) return 0;
     if (med.doses && med.doses.length > 0) {
-      return med.doses.filter(d => !d.taken && isDoseOverdue(d.time)).length;
+      return med.doses.filter(d => !d.taken && isDoseOverdue(d.time, timeZone)).length;
     }
     // For single-dose medications, check the medication's time
-    if (!med.taken && med.time && isDoseOverdue(med.time)) {
+    if (!med.taken && med.time && isDoseOverdue(med.time, timeZone)) {
       return 1;
     }
     return 0;
@@ -66,7 +73,7 @@ export default function CompanionDashboard() {
     if (realtimeMeds && realtimeMeds.length > 0) {
       // Calculate adherence based on DOSES, not medications
       const doseStats = realtimeMeds.reduce((acc, med) => {
-        const stats = getMedDoseStats(med);
+        const stats = getMedDoseStats(med, patient.timeZone);
         acc.total += stats.total;
         acc.taken += stats.taken;
         return acc;
@@ -92,7 +99,7 @@ export default function CompanionDashboard() {
   // Calculate total DOSES across all patients
   const { totalDoses, takenDoses } = activePatients.reduce((acc, p) => {
     p.medications.forEach(med => {
-      const stats = getMedDoseStats(med);
+      const stats = getMedDoseStats(med, p.timeZone);
       acc.totalDoses += stats.total;
       acc.takenDoses += stats.taken;
     });
@@ -106,7 +113,7 @@ export default function CompanionDashboard() {
 
   // Patients needing attention (has OVERDUE doses - past scheduled time and not taken)
   const patientsNeedingAttention = activePatients.filter((p) => {
-    const totalOverdueDoses = p.medications.reduce((acc, med) => acc + getOverdueDoses(med), 0);
+    const totalOverdueDoses = p.medications.reduce((acc, med) => acc + getOverdueDoses(med, p.timeZone), 0);
     return totalOverdueDoses > 0;
   });
 
@@ -214,7 +221,7 @@ export default function CompanionDashboard() {
               {patientsNeedingAttention.slice(0, 2).map((patient) => {
                 // Calculate OVERDUE doses only (past scheduled time, not taken)
                 const overdueDoses = patient.medications.reduce((acc, med) => {
-                  return acc + getOverdueDoses(med);
+                  return acc + getOverdueDoses(med, patient.timeZone);
                 }, 0);
                 return (
                   <button
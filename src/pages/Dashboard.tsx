@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Navigate } from "react-router-dom";
-import { Plus, Sun, CloudSun, Cloud, CloudRain, Loader2, Clock, ChevronRight, Pill, Calendar } from "lucide-react";
+import { Plus, Sun, CloudSun, Cloud, CloudRain, Loader2, Clock, ChevronRight, Pill, Calendar, Globe } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { MorningBriefing } from "@/components/MorningBriefing";
 import { MedicationTimeline } from "@/components/MedicationTimeline";
@@ -9,13 +9,22 @@ import { Navigation } from "@/components/Navigation";
 import { useApp } from "@/contexts/AppContext";
 import { fetchWeather, type WeatherData } from "@/modules/morning-briefing";
 import { FeatureGate, useSubscription, FREE_TIER_MAX_MEDICATIONS } from "@/modules/subscription";
-import { RefillReminders } from "@/modules/medication";
+import {
+  RefillReminders,
+  DuplicationReportCard,
+  isDoseDay,
+  formatTimeZoneLabel,
+  getNowInTimeZone,
+  getTimeZoneOffsetMinutes,
+  toDateStringInTimeZone,
+  toLocalDateString,
+} from "@/modules/medication";
 import { toast } from "@/hooks/use-toast";
 
 // Check if a dose can be taken (within 30 minutes before scheduled time or later)
-// Only applies to patients
-function canTakeDose(timeStr: string): boolean {
-  const now = new Date();
+// Only applies to patients; times are read on the patient's time zone clock
+function canTakeDose(timeStr: string, timeZone?: string): boolean {
+  const now = getNowInTimeZone(timeZone);
   const currentMinutes = now.getHours() * 60 + now.getMinutes();
   
   // Parse time string (supports both "8:00 AM" and "14:30" formats)
@@ -36,8 +45,8 @@ function canTakeDose(timeStr: string): boolean {
 }
 
 // Get minutes until dose can be taken (for display)
-function getMinutesUntilCanTake(timeStr: string): number {
-  const now = new Date();
+function getMinutesUntilCanTake(timeStr: string, timeZone?: string): number {
+  const now = getNowInTimeZone(timeZone);
   const currentMinutes = now.getHours() * 60 + now.getMinutes();
   
   const match = timeStr.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
@@ -81,10 +90,10 @@ function WeatherIcon({
 // Get the next medication that hasn't been taken
 // Priority: 1) Latest pending (past time, most recent first), 2) Next upcoming
 function useNextMedication() {
-  const { medications } = useApp();
+  const { medications, timeZone } = useApp();
   
   return useMemo(() => {
-    const now = new Date();
+    const now = getNowInTimeZone(timeZone);
     const currentMinutes = now.getHours() * 60 + now.getMinutes();
     
     // Flatten all doses
@@ -96,9 +105,14 @@ function useNextMedication() {
       time: string;
       timeMinutes: number;
       taken: boolean;
+      skipped: boolean;
     }> = [];
     
+    const today = toLocalDateString(now); // now already reads the patient's clock
     for (const med of medications) {
+      // Nothing is due on a medication's off days
+      if (!isDoseDay(med, today)) continue;
+
       if (med.doses && med.doses.length > 0) {
         for (const dose of med.doses) {
           const match = dose.time.match(/^(\d{1,2}):(\d{2})$/);
@@ -116,6 +130,7 @@ function useNextMedication() {
               time: `${displayHours}:${match[2]} ${period}`,
               timeMinutes: hours * 60 + minutes,
               taken: dose.taken ?? med.taken,
+              skipped: !!dose.skipped,
             });
           }
         }
@@ -137,6 +152,7 @@ function useNextMedication() {
             time: med.time,
             timeMinutes: hours * 60 + mins,
             taken: med.taken,
+            skipped: !!med.skipped,
           });
         }
       }
@@ -144,8 +160,8 @@ function useNextMedication() {
     
     allDoses.sort((a, b) => a.timeMinutes - b.timeMinutes);
     
-    // Filter untaken doses
-    const untakenDoses = allDoses.filter(d => !d.taken);
+    // Filter untaken doses (skipped doses aren't coming up)
+    const untakenDoses = allDoses.filter(d => !d.taken && !d.skipped);
     
     // Separate into pending (past time) and upcoming (future time)
     const pendingDoses = untakenDoses.filter(d => d.timeMinutes < currentMinutes);
@@ -162,7 +178,30 @@ function useNextMedication() {
     }
     
     return null;
-  }, [medications]);
+  }, [medications, timeZone]);
+}
+
+// Shown when doses stay on home time while the device is in another time zone
+function HomeTimeBanner({ timeZone, currentTime }: { timeZone: string; currentTime: Date }) {
+  if (getTimeZoneOffsetMinutes(timeZone, currentTime) === -currentTime.getTimezoneOffset()) {
+    return null;
+  }
+
+  const homeTime = getNowInTimeZone(timeZone, currentTime).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="mb-6 flex items-start gap-3 rounded-xl border border-border bg-muted/50 p-4">
+      <Globe className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+      <p className="text-sm text-muted-foreground">
+        Your doses are on home time,{" "}
+        <span className="font-semibold text-foreground">{formatTimeZoneLabel(timeZone)}</span>.
+        It's {homeTime} there. You can change this in Profile → Time Zone.
+      </p>
+    </div>
+  );
 }
 
 // Desktop Sidebar Stats Component
@@ -341,7 +380,7 @@ function DesktopSidebar({
 }
 
 export default function Dashboard() {
-  const { userName, medications, userRole, toggleMedication, toggleDose } = useApp();
+  const { userName, medications, userRole, toggleMedication, toggleDose, timeZone } = useApp();
   
   // Redirect companions to their dashboard
   if (userRole === "companion") {
@@ -370,27 +409,39 @@ export default function Dashboard() {
       .finally(() => setWeatherLoading(false));
   }, []);
 
-  const takenCount = medications.reduce((count, m) => {
+  // Only medications due today count toward today's progress
+  const today = toDateStringInTimeZone(timeZone, currentTime);
+  const todaysMedications = medications.filter((m) => isDoseDay(m, today));
+
+  const takenCount = todaysMedications.reduce((count, m) => {
     if (m.doses && m.doses.length > 0) {
       return count + m.doses.filter(d => d.taken).length;
     }
     return count + (m.taken ? 1 : 0);
   }, 0);
   
-  const totalCount = medications.reduce((count, m) => {
+  const totalCount = todaysMedications.reduce((count, m) => {
     if (m.doses && m.doses.length > 0) {
       return count + m.doses.length;
     }
     return count + 1;
   }, 0);
 
+  // Deliberately skipped doses are settled for the day, but not taken
+  const skippedCount = todaysMedications.reduce((count, m) => {
+    if (m.doses && m.doses.length > 0) {
+      return count + m.doses.filter(d => d.skipped && !d.taken).length;
+    }
+    return count + (m.skipped && !m.taken ? 1 : 0);
+  }, 0);
+
   const progress = totalCount > 0 ? Math.round((takenCount / totalCount) * 100) : 0;
-  const pendingCount = totalCount - takenCount;
-  const allDone = takenCount === totalCount && totalCount > 0;
+  const pendingCount = totalCount - takenCount - skippedCount;
+  const allDone = pendingCount === 0 && totalCount > 0;
   
   // Time restriction for patients - can only take 30 min before scheduled time
-  const canTakeNext = nextMed ? canTakeDose(nextMed.time) : false;
-  const minutesUntilCanTake = nextMed ? getMinutesUntilCanTake(nextMed.time) : 0;
+  const canTakeNext = nextMed ? canTakeDose(nextMed.time, timeZone) : false;
+  const minutesUntilCanTake = nextMed ? getMinutesUntilCanTake(nextMed.time, timeZone) : 0;
 
   const getGreeting = () => {
     const hour = new Date().getHours();
@@ -539,6 +590,8 @@ export default function Dashboard() {
 
         {/* Content */}
         <main className="p-4 lg:p-8 lg:max-w-4xl xl:max-w-5xl">
+          <HomeTimeBanner timeZone={timeZone} currentTime={currentTime} />
+
           {/* Morning Briefing */}
           <div className="mb-6">
             <FeatureGate 
@@ -553,6 +606,9 @@ export default function Dashboard() {
           {/* Refill Reminders */}
           <RefillReminders compact />
 
+          {/* Same drug under more than one name */}
+          <DuplicationReportCard medications={medications} className="my-6" />
+
           {/* Medication Timeline */}
           <MedicationTimeline />
         </main>
@@ -0,0 +1,79 @@
+import React from "react";
+import { ArrowLeft, ShieldAlert } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Navigation } from "@/components/Navigation";
+import { useApp } from "@/contexts/AppContext";
+import { RegimenInteractionReport } from "@/modules/medication";
+import { useRealtimePatientMedications } from "@/modules/companion/hooks/useRealtimePatientMedications";
+
+/**
+ * Interaction report for the whole regimen: the patient's own list at
+ * /interactions, or a linked patient's at /companion/patient/:patientId/interactions
+ */
+export default function Interactions() {
+  const navigate = useNavigate();
+  const { patientId } = useParams<{ patientId: string }>();
+  const { medications: ownMedications, linkedPatients } = useApp();
+
+  const patient = patientId
+    ? linkedPatients.find((p) => p.id === patientId && p.linkStatus === "accepted")
+    : undefined;
+
+  // A linked patient's list stays in sync, so the report re-runs on changes
+  const { medications: realtimeMedications } = useRealtimePatientMedications(patientId || "", {
+    enabled: !!patient,
+    timeZone: patient?.timeZone,
+  });
+
+  if (patientId && !patient) {
+    return (
+      <div className="min-h-screen bg-background pb-24">
+        <div className="p-4 text-center mt-20">
+          <h2 className="text-senior-xl font-bold mb-2">Person Not Found</h2>
+          <p className="text-lg text-muted-foreground mb-6">
+            We can't find this person. They may not be connected to your account yet.
+          </p>
+          <button onClick={() => navigate("/companion")} className="text-primary font-semibold text-lg">
+            ← Go Back
+          </button>
+        </div>
+        <Navigation />
+      </div>
+    );
+  }
+
+  const medications = patient
+    ? realtimeMedications.length > 0
+      ? realtimeMedications
+      : patient.medications
+    : ownMedications;
+
+  return (
+    <div className="min-h-screen bg-background pb-24 lg:pb-8 lg:ml-20 xl:ml-24">
+      {/* Header */}
+      <header className="bg-card border-b border-border p-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+          <div>
+            <h1 className="text-senior-xl font-bold flex items-center gap-2">
+              <ShieldAlert className="w-6 h-6 text-primary" />
+              Medicine Interactions
+            </h1>
+            <p className="text-base text-muted-foreground">
+              {patient ? `All of ${patient.name}'s medicines` : "All of your medicines"}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4 max-w-4xl mx-auto">
+        <RegimenInteractionReport medications={medications} patientName={patient?.name} />
+      </main>
+
+      <Navigation />
+    </div>
+  );
+}
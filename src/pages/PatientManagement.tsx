@@ -25,6 +25,7 @@ export default function PatientManagement() {
     isLoading: isSyncing,
   } = useRealtimePatientMedications(patientId || "", {
     enabled: !!patient,
+    timeZone: patient?.timeZone,
   });
 
   // Merge realtime medications with patient data
@@ -19,6 +19,10 @@ import {
   Pencil,
   Smartphone,
   Send,
+  Sunrise,
+  Globe,
+  AlarmClock,
+  Phone,
 } from "lucide-react";
 // Note: UserPlus kept for "Link to Patient" button
 import { useNavigate } from "react-router-dom";
@@ -31,6 +35,7 @@ import {
   SubscriptionCard,
   SubscriptionBadge,
 } from "@/modules/subscription/components/SubscriptionCard";
+import { FeatureGate } from "@/modules/subscription";
 import { Switch } from "@/components/ui/switch";
 import {
   Select,
@@ -42,6 +47,27 @@ import {
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { HealthMonsterWidget, useGamification } from "@/modules/gamification";
 import { usePushNotifications } from "@/modules/companion/hooks/usePushNotifications";
+import {
+  DEFAULT_MAX_SNOOZES,
+  DEFAULT_SNOOZE_MINUTES,
+  MAX_SNOOZE_OPTIONS,
+  ROUTINE_EVENT_OPTIONS,
+  SNOOZE_MINUTE_OPTIONS,
+  TRAVEL_MODE_OPTIONS,
+  formatTimeZoneLabel,
+  getDeviceTimeZone,
+  getTimeZoneOptions,
+  isInSleepWindow,
+  toImportedMedication,
+  toImportedMedicationUpdates,
+  type DailyRoutine,
+  type FhirImportChange,
+  type TravelMode,
+} from "@/modules/medication";
+import { FhirTransferCard } from "@/modules/medication/components/FhirTransferCard";
+import { VisitReportCard } from "@/modules/medication/components/VisitReportCard";
+import { MedicationAuditLog } from "@/modules/medication/components/MedicationAuditLog";
+import { loadLanguagePreference } from "@/services/language";
 import {
   getTelegramStatus,
   generateTelegramLinkCode,
@@ -65,6 +91,16 @@ export default function Profile() {
     unlinkPatientOrCompanion,
     updateNotificationSettings,
     updateProfileName,
+    updateProfilePhone,
+    dailyRoutine,
+    updateDailyRoutine,
+    timeZone,
+    travelMode,
+    updateTimeZone,
+    user,
+    addEnhancedMedication,
+    updateMedication,
+    loadPastMedications,
   } = useApp();
 
   const [showLinkCodeModal, setShowLinkCodeModal] = useState(false);
@@ -72,11 +108,19 @@ export default function Profile() {
   const [showNotificationSettings, setShowNotificationSettings] =
     useState(false);
   const [showPersonalInfo, setShowPersonalInfo] = useState(false);
+  const [showDailyRoutine, setShowDailyRoutine] = useState(false);
+  const [editRoutine, setEditRoutine] = useState<DailyRoutine>(dailyRoutine);
+  const [isSavingRoutine, setIsSavingRoutine] = useState(false);
+  const [showTimeZone, setShowTimeZone] = useState(false);
+  const [editTimeZone, setEditTimeZone] = useState(timeZone);
+  const [editTravelMode, setEditTravelMode] = useState<TravelMode>(travelMode);
+  const [isSavingTimeZone, setIsSavingTimeZone] = useState(false);
   const [linkCodeInput, setLinkCodeInput] = useState("");
   const [isLinking, setIsLinking] = useState(false);
   const [isSavingNotifications, setIsSavingNotifications] = useState(false);
   const [isSavingName, setIsSavingName] = useState(false);
   const [editName, setEditName] = useState("");
+  const [editPhone, setEditPhone] = useState("");
   const [activeTab, setActiveTab] = useState<"account" | "progress">("account");
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [unlinkingIds, setUnlinkingIds] = useState<Set<string>>(new Set());
@@ -101,6 +145,12 @@ export default function Profile() {
   const [emailReminderMinutes, setEmailReminderMinutes] = useState(
     String(profile?.email_reminder_minutes ?? 5)
   );
+  const [snoozeMinutes, setSnoozeMinutes] = useState(
+    String(profile?.snooze_minutes ?? DEFAULT_SNOOZE_MINUTES)
+  );
+  const [maxSnoozes, setMaxSnoozes] = useState(
+    String(profile?.max_snoozes ?? DEFAULT_MAX_SNOOZES)
+  );
 
   // Push notification hook
   const {
@@ -129,6 +179,8 @@ export default function Profile() {
     if (profile) {
       setEmailReminderEnabled(profile.email_reminder_enabled ?? true);
       setEmailReminderMinutes(String(profile.email_reminder_minutes ?? 5));
+      setSnoozeMinutes(String(profile.snooze_minutes ?? DEFAULT_SNOOZE_MINUTES));
+      setMaxSnoozes(String(profile.max_snoozes ?? DEFAULT_MAX_SNOOZES));
     }
   }, [profile]);
 
@@ -302,6 +354,29 @@ export default function Profile() {
     }
   };
 
+  // Save a FHIR import: new medicines are added, matched ones updated
+  const handleFhirImport = async (
+    changes: FhirImportChange[]
+  ): Promise<{ error: string | null }> => {
+    try {
+      for (const change of changes) {
+        if (change.action === "add") {
+          await addEnhancedMedication(
+            toImportedMedication(change.item, user?.id ?? "", dailyRoutine)
+          );
+        } else if (change.action === "update" && change.existing) {
+          await updateMedication(
+            change.existing.id,
+            toImportedMedicationUpdates(change.item, dailyRoutine)
+          );
+        }
+      }
+      return { error: null };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Failed to import" };
+    }
+  };
+
   const copyLinkCode = () => {
     if (linkCode) {
       navigator.clipboard.writeText(linkCode);
@@ -388,6 +463,7 @@ export default function Profile() {
 
   const handleOpenPersonalInfo = () => {
     setEditName(userName || "");
+    setEditPhone(profile?.phone || "");
     setShowPersonalInfo(true);
   };
 
@@ -402,26 +478,104 @@ export default function Profile() {
     }
 
     setIsSavingName(true);
-    const { error } = await updateProfileName(editName.trim());
+    const { error: nameError } =
+      editName.trim() !== userName ? await updateProfileName(editName.trim()) : { error: null };
+    const { error: phoneError } =
+      editPhone.trim() !== (profile?.phone || "") ? await updateProfilePhone(editPhone) : { error: null };
     setIsSavingName(false);
 
-    if (error) {
+    if (nameError || phoneError) {
       toast({
         title: "Error",
-        description: "Failed to update name. Please try again.",
+        description: "Failed to update your info. Please try again.",
         variant: "destructive",
       });
     } else {
       toast({
         title: "Profile updated",
-        description: "Your name has been updated successfully.",
+        description: "Your info has been updated successfully.",
       });
       setShowPersonalInfo(false);
     }
   };
 
+  const handleOpenDailyRoutine = () => {
+    setEditRoutine(dailyRoutine);
+    setShowDailyRoutine(true);
+  };
+
+  const handleSaveDailyRoutine = async () => {
+    const mealInSleep = ROUTINE_EVENT_OPTIONS.find(
+      (event) =>
+        event.value !== "wake" &&
+        event.value !== "sleep" &&
+        isInSleepWindow(editRoutine[event.value], editRoutine)
+    );
+    if (editRoutine.wake === editRoutine.sleep || mealInSleep) {
+      toast({
+        title: "Check your times",
+        description: mealInSleep
+          ? `${mealInSleep.label} should be between waking up and bedtime.`
+          : "Wake-up time and bedtime can't be the same.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingRoutine(true);
+    const { rescheduled, error } = await updateDailyRoutine(editRoutine);
+    setIsSavingRoutine(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your routine. Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Routine saved",
+        description:
+          rescheduled.length > 0
+            ? `New medicine times for ${rescheduled.join(", ")}.`
+            : "Your medicine times already fit this routine.",
+      });
+      setShowDailyRoutine(false);
+    }
+  };
+
+  const handleOpenTimeZone = () => {
+    setEditTimeZone(timeZone);
+    setEditTravelMode(travelMode);
+    setShowTimeZone(true);
+  };
+
+  const handleSaveTimeZone = async () => {
+    setIsSavingTimeZone(true);
+    const { error } = await updateTimeZone(editTimeZone, editTravelMode);
+    setIsSavingTimeZone(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your time zone. Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Time zone saved",
+        description: `Medicine times now follow ${formatTimeZoneLabel(editTimeZone)}.`,
+      });
+      setShowTimeZone(false);
+    }
+  };
+
   const menuItems = [
     { icon: User, label: "My Info", action: handleOpenPersonalInfo },
+    ...(userRole !== "companion"
+      ? [{ icon: Sunrise, label: "My Daily Routine", action: handleOpenDailyRoutine }]
+      : []),
+    { icon: Globe, label: "Time Zone", action: handleOpenTimeZone },
     {
       icon: CreditCard,
       label: "My Plan",
@@ -439,6 +593,8 @@ export default function Profile() {
     const { error } = await updateNotificationSettings({
       email_reminder_enabled: emailReminderEnabled,
       email_reminder_minutes: parseInt(emailReminderMinutes),
+      snooze_minutes: parseInt(snoozeMinutes),
+      max_snoozes: parseInt(maxSnoozes),
     });
     setIsSavingNotifications(false);
 
@@ -667,6 +823,38 @@ export default function Profile() {
 
             {/* Note: Pending Link Requests removed - links are now auto-accepted */}
 
+            {/* Printable report for the doctor's visit (for Patients) */}
+            {(userRole === "patient" || !userRole) && (
+              <VisitReportCard
+                medications={medications}
+                loadPastMedications={loadPastMedications}
+                patientId={user?.id ?? "local"}
+                patientName={userName}
+                timeZone={timeZone}
+                language={loadLanguagePreference()}
+              />
+            )}
+
+            {/* Who changed which medication (for Patients) */}
+            {(userRole === "patient" || !userRole) && user && (
+              <MedicationAuditLog patientId={user.id} medications={medications} viewerId={user.id} />
+            )}
+
+            {/* Health records exchange (for Patients) */}
+            {(userRole === "patient" || !userRole) && (
+              <FeatureGate
+                feature="health_records_exchange"
+                lockedMessage="Upgrade to Enterprise to connect to your clinic's systems"
+              >
+                <FhirTransferCard
+                  medications={medications}
+                  loadPastMedications={loadPastMedications}
+                  patientId={user?.id ?? "local"}
+                  onImport={handleFhirImport}
+                />
+              </FeatureGate>
+            )}
+
             {/* Linked Companions (for Patients) */}
             {linkedCompanions.length > 0 && (
               <div className="card-senior">
@@ -938,6 +1126,47 @@ export default function Profile() {
                       </Select>
                     </div>
                   )}
+
+                  {/* Alarm Snooze */}
+                  <div className="p-4 bg-muted rounded-xl">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center">
+                        <AlarmClock className="w-6 h-6 text-primary" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-lg">Snooze</p>
+                        <p className="text-sm text-muted-foreground">
+                          Companions aren't alerted while a dose is snoozed
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={snoozeMinutes} onValueChange={setSnoozeMinutes}>
+                        <SelectTrigger className="w-full h-14 text-lg" aria-label="Snooze length">
+                          <SelectValue placeholder="Snooze length" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SNOOZE_MINUTE_OPTIONS.map((opt) => (
+                            <SelectItem key={opt.value} value={String(opt.value)} className="text-lg py-3">
+                              {opt.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={maxSnoozes} onValueChange={setMaxSnoozes}>
+                        <SelectTrigger className="w-full h-14 text-lg" aria-label="Snoozes per dose">
+                          <SelectValue placeholder="Snoozes per dose" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MAX_SNOOZE_OPTIONS.map((opt) => (
+                            <SelectItem key={opt.value} value={String(opt.value)} className="text-lg py-3">
+                              {opt.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
                 </>
               )}
 
@@ -986,7 +1215,7 @@ export default function Profile() {
                         <p className="text-sm text-muted-foreground">
                           {userRole === "companion" 
                             ? "Get alerts when patients miss medications"
-                            : "Get reminders on this device"}
+                            : "Dose alarms on this device, even with AInay closed"}
                         </p>
                       </div>
                     </div>
@@ -1210,6 +1439,28 @@ export default function Profile() {
                 </p>
               </div>
 
+              {/* Phone Field (patients) */}
+              {userRole === "patient" && (
+                <div className="space-y-2">
+                  <label className="text-base font-medium text-muted-foreground">
+                    My Phone Number
+                  </label>
+                  <div className="relative">
+                    <Input
+                      type="tel"
+                      value={editPhone}
+                      onChange={(e) => setEditPhone(e.target.value)}
+                      placeholder="e.g. +63 912 345 6789"
+                      className="input-senior pr-10 text-lg"
+                    />
+                    <Phone className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Your helpers can call you from a missed-medicine alert.
+                  </p>
+                </div>
+              )}
+
               {/* Email (Read-only) */}
               {profile?.email && (
                 <div className="space-y-2">
@@ -1253,7 +1504,10 @@ export default function Profile() {
                 size="lg"
                 className="flex-1 text-lg"
                 onClick={handleSavePersonalInfo}
-                disabled={isSavingName || editName.trim() === userName}
+                disabled={
+                  isSavingName ||
+                  (editName.trim() === userName && editPhone.trim() === (profile?.phone || ""))
+                }
               >
                 {isSavingName ? "Saving..." : "Save"}
               </Button>
@@ -1262,6 +1516,165 @@ export default function Profile() {
         </div>
       )}
 
+      {/* Daily Routine Modal */}
+      {showDailyRoutine && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-background rounded-2xl w-full max-w-md p-6 my-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-senior-xl font-bold">My Daily Routine</h2>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowDailyRoutine(false)}
+              >
+                <X className="w-6 h-6" />
+              </Button>
+            </div>
+            <p className="text-base text-muted-foreground mb-6">
+              Medicines taken with meals or at bedtime follow these times, and no
+              reminder is set while you sleep.
+            </p>
+
+            <div className="space-y-3">
+              {ROUTINE_EVENT_OPTIONS.map((event) => (
+                <div
+                  key={event.value}
+                  className="flex items-center justify-between gap-3 p-3 bg-muted rounded-xl"
+                >
+                  <label
+                    htmlFor={`routine-${event.value}`}
+                    className="font-semibold text-lg"
+                  >
+                    {event.label}
+                  </label>
+                  <Input
+                    id={`routine-${event.value}`}
+                    type="time"
+                    value={editRoutine[event.value]}
+                    onChange={(e) =>
+                      e.target.value &&
+                      setEditRoutine({ ...editRoutine, [event.value]: e.target.value })
+                    }
+                    className="w-36 h-12 text-lg"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <Button
+                variant="secondary"
+                size="lg"
+                className="flex-1 text-lg"
+                onClick={() => setShowDailyRoutine(false)}
+              >
+                Go Back
+              </Button>
+              <Button
+                variant="coral"
+                size="lg"
+                className="flex-1 text-lg"
+                onClick={handleSaveDailyRoutine}
+                disabled={isSavingRoutine}
+              >
+                {isSavingRoutine ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Time Zone Modal */}
+      {showTimeZone && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-background rounded-2xl w-full max-w-md p-6 my-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-senior-xl font-bold">Time Zone</h2>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowTimeZone(false)}
+              >
+                <X className="w-6 h-6" />
+              </Button>
+            </div>
+            <p className="text-base text-muted-foreground mb-6">
+              {userRole === "companion"
+                ? "Your patients' medicine times are also shown in this time zone."
+                : "Medicine times, reminders and your daily progress follow this time zone."}
+            </p>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="font-semibold text-lg">
+                  {userRole === "companion" ? "My time zone" : "Home time zone"}
+                </label>
+                <Select value={editTimeZone} onValueChange={setEditTimeZone}>
+                  <SelectTrigger className="h-12 text-lg">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getTimeZoneOptions(editTimeZone).map((zone) => (
+                      <SelectItem key={zone.value} value={zone.value}>
+                        {zone.label} · {formatTimeZoneLabel(zone.value)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {editTimeZone !== getDeviceTimeZone() && (
+                  <p className="text-sm text-muted-foreground">
+                    This device is on {formatTimeZoneLabel(getDeviceTimeZone())}.
+                    {editTravelMode === "shift" &&
+                      " With \"Follow local time\", the app switches to it the next time you open it."}
+                  </p>
+                )}
+              </div>
+
+              {userRole !== "companion" && (
+                <div className="space-y-2">
+                  <label className="font-semibold text-lg">When I travel</label>
+                  {TRAVEL_MODE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setEditTravelMode(option.value)}
+                      className={`w-full text-left p-3 rounded-xl border-2 transition-colors ${
+                        editTravelMode === option.value
+                          ? "border-primary bg-primary/10"
+                          : "border-border bg-muted"
+                      }`}
+                    >
+                      <p className="font-semibold">{option.label}</p>
+                      <p className="text-sm text-muted-foreground">{option.description}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <Button
+                variant="secondary"
+                size="lg"
+                className="flex-1 text-lg"
+                onClick={() => setShowTimeZone(false)}
+              >
+                Go Back
+              </Button>
+              <Button
+                variant="coral"
+                size="lg"
+                className="flex-1 text-lg"
+                onClick={handleSaveTimeZone}
+                disabled={isSavingTimeZone}
+              >
+                {isSavingTimeZone ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <Navigation />
     </div>
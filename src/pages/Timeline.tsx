@@ -1,19 +1,46 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Plus, Calendar, BarChart3, CalendarDays } from 'lucide-react';
+import { ArrowLeft, Plus, Calendar, BarChart3, CalendarDays, ShieldAlert, Archive } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { MedicationTimeline } from '@/components/MedicationTimeline';
 import { FutureScheduleView } from '@/components/FutureScheduleView';
 import { AddMedicineModal } from '@/components/AddMedicineModal';
 import { Navigation } from '@/components/Navigation';
-import { RefillReminders, AdherenceAnalytics } from '@/modules/medication';
+import {
+  RefillReminders,
+  AdherenceAnalytics,
+  CalendarExportCard,
+  ScheduleOptimizerCard,
+  buildDosesForTimes,
+  formatTime12Hour,
+  type ScheduleChange,
+} from '@/modules/medication';
 import { useApp } from '@/contexts/AppContext';
 
 export default function Timeline() {
   const navigate = useNavigate();
   const [showAddModal, setShowAddModal] = useState(false);
   const [activeTab, setActiveTab] = useState<'today' | 'upcoming' | 'analytics'>('today');
-  const { medications } = useApp();
+  const { medications, user, timeZone, dailyRoutine, updateMedication } = useApp();
+
+  // Move each changed medication to its reviewed times
+  const handleApplySchedule = async (changes: ScheduleChange[]) => {
+    try {
+      for (const change of changes) {
+        const medication = medications.find((med) => med.id === change.medicationId);
+        if (!medication) continue;
+        await updateMedication(medication.id, {
+          ...medication,
+          startTime: change.after[0],
+          time: formatTime12Hour(change.after[0]),
+          doses: buildDosesForTimes(change.after),
+        });
+      }
+      return { error: null };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to update schedule' };
+    }
+  };
 
   const today = new Date().toLocaleDateString('en-US', {
     weekday: 'long',
@@ -36,6 +63,28 @@ export default function Timeline() {
               <span className="text-base">{today}</span>
             </div>
           </div>
+          <div className="ml-auto flex flex-wrap justify-end gap-2">
+            {medications.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => navigate('/interactions')}
+              >
+                <ShieldAlert className="w-4 h-4" />
+                Interactions
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => navigate('/archive')}
+            >
+              <Archive className="w-4 h-4" />
+              Past
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -89,7 +138,23 @@ export default function Timeline() {
           </>
         )}
         {activeTab === 'upcoming' && (
-          <FutureScheduleView daysToShow={7} />
+          <>
+            <FutureScheduleView daysToShow={7} />
+            {medications.length > 0 && (
+              <CalendarExportCard
+                medications={medications}
+                patientId={user?.id ?? 'demo'}
+                subscriberId={user?.id}
+                timeZone={timeZone}
+                routine={dailyRoutine}
+              />
+            )}
+            <ScheduleOptimizerCard
+              medications={medications}
+              routine={dailyRoutine}
+              onApply={handleApplySchedule}
+            />
+          </>
         )}
         {activeTab === 'analytics' && (
           <>
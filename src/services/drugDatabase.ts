@@ -572,6 +572,14 @@ export async function correctMedicineName(
   };
 }
 
+/**
+ * Generic name a known brand name or misspelling stands for
+ * (e.g., "biogesic" -> "paracetamol"), from MEDICINE_ALIASES
+ */
+export function getAliasedGenericName(name: string): string | null {
+  return MEDICINE_ALIASES[name.toLowerCase().trim()] ?? null;
+}
+
 /**
  * Find exact drug by brand or generic name
  */
@@ -78,6 +78,7 @@ export interface LinkedPatientContext {
     taken: boolean;
     instructions?: string;
     frequency?: string;
+    lateAdvice?: string; // "Take now or skip?" advice while a single-dose medication is late
     doses?: DoseContext[]; // Individual dose taken status for multi-dose medications
   }>;
 }
@@ -90,6 +91,7 @@ export interface DoseContext {
   label: string;
   taken: boolean;
   takenAt?: string;
+  lateAdvice?: string; // "Take now or skip?" advice while the dose is late
 }
 
 /**
@@ -106,6 +108,7 @@ export interface UserContext {
     taken: boolean;
     instructions?: string;
     frequency?: string;
+    lateAdvice?: string; // "Take now or skip?" advice while a single-dose medication is late
     doses?: DoseContext[]; // Individual dose taken status for multi-dose medications
   }>;
   // For companions - their linked patients
@@ -205,6 +208,9 @@ You are assisting a CAREGIVER who monitors medications for ${userContext.linkedP
             for (const dose of med.doses) {
               const doseStatus = dose.taken ? "✅" : "⏳";
               prompt += `\n      - ${dose.label} at ${dose.time}: ${doseStatus}`;
+              if (!dose.taken && dose.lateAdvice) {
+                prompt += ` (LATE: ${dose.lateAdvice})`;
+              }
             }
           } else {
             const status = med.taken ? "✅ Taken" : "⏳ Pending";
@@ -212,6 +218,9 @@ You are assisting a CAREGIVER who monitors medications for ${userContext.linkedP
               ? ` - ${med.instructions}`
               : "";
             prompt += `\n  • ${med.name} (${med.dosage}) at ${med.time} [${status}]${instructions}`;
+            if (!med.taken && med.lateAdvice) {
+              prompt += ` (LATE: ${med.lateAdvice})`;
+            }
           }
         }
 
@@ -251,7 +260,8 @@ You are assisting a CAREGIVER who monitors medications for ${userContext.linkedP
 4. If ALL doses are taken for a patient today, congratulate them - no reminders needed!
 5. Don't spam or repeat the same reminders - if you've mentioned a pending med, don't keep mentioning it
 6. Already-taken medicines are DONE - don't bring them up unless specifically asked about history
-7. Be helpful and supportive, but don't be annoying with repetitive reminders`;
+7. Be helpful and supportive, but don't be annoying with repetitive reminders
+8. For doses marked LATE, pass on exactly the late-dose advice shown (take now, take and shift later doses, or skip) - never suggest two doses together`;
 
     // Add food interaction warnings for all patients' medications
     const allMeds = userContext.linkedPatients.flatMap(
@@ -337,13 +347,13 @@ ${pendingMeds
     if (med.doses && med.doses.length > 0) {
       const pendingDoses = med.doses.filter((d) => !d.taken);
       const pendingDosesList = pendingDoses
-        .map((d) => `${d.label} at ${d.time}`)
+        .map((d) => `${d.label} at ${d.time}${d.lateAdvice ? ` (LATE: ${d.lateAdvice})` : ""}`)
         .join(", ");
       return `- **${med.name}** (${med.dosage}) - ${pendingDoses.length} dose(s) pending: ${pendingDosesList}`;
     }
     return `- **${med.name}** (${med.dosage}) at ${med.time}${
       med.instructions ? ` - ${med.instructions}` : ""
-    }`;
+    }${med.lateAdvice ? ` (LATE: ${med.lateAdvice})` : ""}`;
   })
   .join("\n")}`
     : ""
@@ -367,7 +377,8 @@ ${takenMeds.map((med) => `- ${med.name} (${med.dosage})`).join("\n")}
 4. If ALL medications are taken, congratulate them - no reminders needed!
 5. Don't spam or repeat the same medication reminders in conversation
 6. If they scan/mention a medicine they've already taken today, acknowledge it's done and move on
-7. Be supportive but don't be annoying with repetitive reminders`;
+7. Be supportive but don't be annoying with repetitive reminders
+8. For doses marked LATE, give exactly the late-dose advice shown (take now, take and shift later doses, or skip) - never suggest taking two doses together`;
 
     // Add food interaction warnings for user's medications
     const foodInteractionsContext = await buildFoodInteractionsContext(
@@ -695,6 +706,7 @@ export interface ExtractedMedicine {
   frequency?: string;
   instructions: string;
   route?: string; // Route of administration (oral, topical, etc.)
+  taper?: Array<{ dosage: string; days: number; frequency?: string }>; // Step-dose regimen, in order
 }
 
 /**
@@ -902,6 +914,10 @@ Return a JSON array of objects with these fields:
   * qw → "Take once weekly"
   * NPO → "Do not eat or drink before taking"
   * Include original dosing schedule if it's "as needed" type (e.g., "Take every 4-6 hours as needed for pain")
+- taper: ONLY when the dose changes over time (taper/titration, "x3d then", "decrease by"):
+  * Ordered array of steps: [{"dosage": "40mg", "days": 3, "frequency": "once_daily"}, ...]
+  * Set "dosage" to the first step's dosage
+  * Omit for fixed-dose medicines
 
 ## CRITICAL RULES
 1. If frequency contains q1h-q4h or "every X hours" where X < 6, or prn/as needed → frequency = "as_needed"
@@ -951,7 +967,7 @@ Input: "Aspirin 81mg po qd c food"
 Output: [{"name": "Aspirin", "dosage": "81mg tablet", "time": "", "frequency": "once_daily", "route": "oral", "instructions": "Take once daily with food"}]
 
 Input: "Prednisone taper: 40mg x3d, 30mg x3d, 20mg x3d, 10mg x3d"
-Output: [{"name": "Prednisone", "dosage": "Taper dose", "time": "", "frequency": "once_daily", "route": "oral", "instructions": "Taper: 40mg for 3 days, then 30mg for 3 days, then 20mg for 3 days, then 10mg for 3 days"}]`;
+Output: [{"name": "Prednisone", "dosage": "40mg", "time": "", "frequency": "once_daily", "route": "oral", "instructions": "Taper: 40mg for 3 days, then 30mg for 3 days, then 20mg for 3 days, then 10mg for 3 days", "taper": [{"dosage": "40mg", "days": 3}, {"dosage": "30mg", "days": 3}, {"dosage": "20mg", "days": 3}, {"dosage": "10mg", "days": 3}]}]`;
 
 const SINGLE_EXTRACTION_PROMPT = `Extract medicine information from the provided input. You are an expert at parsing prescription and pharmacy terminology.
 
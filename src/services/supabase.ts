@@ -6,9 +6,34 @@ import type {
   UpdateMedication,
   ScheduleDose,
   InsertScheduleDose,
+  DoseHistory,
+  DoseStatus,
+  DoseTransition,
+  DoseSnooze,
+  MedicationRefill,
+  MedicationAuditEntry,
+  MedicationEndReason,
+  PrnDoseLog,
+  CalendarFeed,
+  SkipReason,
 } from "@/types/database";
-import type { User, Session } from "@supabase/supabase-js";
+import type { User, Session, RealtimeChannel } from "@supabase/supabase-js";
 import type { LinkedPatient, LinkedCompanion, LinkStatus } from "@/types";
+import type { DailyRoutine } from "@/modules/medication/types";
+import {
+  calculateDoseTimes,
+  calculateDoseTimesForDate,
+  fromDbDoseAnchors,
+  fromDbDosePhases,
+  getNowInTimeZone,
+  getPhaseForDate,
+  getRegimenForDate,
+  moveOutOfSleepWindow,
+  to24HourTime,
+  toDateStringInTimeZone,
+  toDbRoutine,
+} from "@/modules/medication/services/scheduleService";
+import { getIntervalForFrequency } from "@/modules/medication/constants";
 
 // ============ AUTH FUNCTIONS ============
 
@@ -146,6 +171,17 @@ export async function updateProfile(
     role?: "patient" | "companion";
     email_reminder_enabled?: boolean;
     email_reminder_minutes?: number;
+    wake_time?: string;
+    breakfast_time?: string;
+    lunch_time?: string;
+    dinner_time?: string;
+    sleep_time?: string;
+    timezone?: string;
+    travel_mode?: "shift" | "keep";
+    snooze_minutes?: number;
+    max_snoozes?: number;
+    preferred_language?: string;
+    phone?: string | null;
   }
 ): Promise<{ error: string | null }> {
   const { error } = await supabase
@@ -239,6 +275,28 @@ export async function getMedicationsWithDoses(userId: string): Promise<{
   return { medications: data ?? [], error: error?.message ?? null };
 }
 
+/**
+ * Get medications that were removed, expired or renewed (most recently ended first)
+ */
+export async function getPastMedicationsWithDoses(userId: string): Promise<{
+  medications: (Medication & { doses: ScheduleDose[] })[];
+  error: string | null;
+}> {
+  const { data, error } = await supabase
+    .from("medications")
+    .select(
+      `
+      *,
+      doses:schedule_doses(*)
+    `
+    )
+    .eq("user_id", userId)
+    .eq("is_active", false)
+    .order("ended_at", { ascending: false, nullsFirst: false });
+
+  return { medications: data ?? [], error: error?.message ?? null };
+}
+
 /**
  * Add a new medication
  */
@@ -259,7 +317,7 @@ export async function addMedication(
  */
 export async function addMedicationWithDoses(
   medication: InsertMedication,
-  doses: InsertScheduleDose[]
+  doses: Omit<InsertScheduleDose, "medication_id">[]
 ): Promise<{ medication: Medication | null; error: string | null }> {
   // First insert the medication
   const { data: medData, error: medError } = await supabase
@@ -315,7 +373,7 @@ export async function updateMedication(
 export async function updateMedicationWithDoses(
   medicationId: string,
   updates: UpdateMedication,
-  doses: InsertScheduleDose[]
+  doses: Omit<InsertScheduleDose, "medication_id">[]
 ): Promise<{ error: string | null }> {
   // Update the medication
   const { error: medError } = await supabase
@@ -358,122 +416,713 @@ export async function updateMedicationWithDoses(
 }
 
 /**
- * Toggle medication taken status
+ * Delete a medication
  */
-export async function toggleMedicationTaken(
-  medicationId: string,
-  taken: boolean
+export async function deleteMedication(
+  medicationId: string
 ): Promise<{ error: string | null }> {
   const { error } = await supabase
     .from("medications")
-    .update({
-      taken,
-      taken_at: taken ? new Date().toISOString() : null,
-      updated_at: new Date().toISOString(),
-    })
+    .delete()
     .eq("id", medicationId);
 
   return { error: error?.message ?? null };
 }
 
 /**
- * Toggle individual dose taken status
+ * Soft delete (deactivate) a medication; it stays in the archive
  */
-export async function toggleDoseTaken(
-  doseId: string,
-  taken: boolean
+export async function deactivateMedication(
+  medicationId: string,
+  reason: MedicationEndReason = "stopped"
 ): Promise<{ error: string | null }> {
+  const now = new Date().toISOString();
   const { error } = await supabase
-    .from("schedule_doses")
-    .update({
-      taken,
-      taken_at: taken ? new Date().toISOString() : null,
-    })
-    .eq("id", doseId);
+    .from("medications")
+    .update({ is_active: false, ended_at: now, end_reason: reason, updated_at: now })
+    .eq("id", medicationId);
 
   return { error: error?.message ?? null };
 }
 
+// ============ DOSE HISTORY FUNCTIONS ============
+// Each dose_history row is one dose instance (medication, date, time) and the
+// only record of whether it was taken; there are no daily flags to reset
+
+export interface DoseEventInput {
+  userId: string;
+  medicationId: string;
+  doseId?: string | null;
+  scheduledTime: string;
+  /** YYYY-MM-DD in the patient's local calendar (defaults to today) */
+  scheduledDate?: string;
+  /** Patient's time zone, used to find "today" when scheduledDate is omitted */
+  timeZone?: string;
+  status: DoseStatus;
+  takenAt?: string | null;
+  /** Why the dose was skipped (only kept when status is "skipped") */
+  skipReason?: SkipReason | null;
+  /** Note on the dose (left as it is when omitted; null clears it) */
+  notes?: string | null;
+  /** Who made the change (the patient, or a companion acting for them) */
+  actorId?: string | null;
+}
+
+export interface DoseHistoryFilters {
+  medicationId?: string;
+  /** Inclusive start date (YYYY-MM-DD) */
+  from?: string;
+  /** Inclusive end date (YYYY-MM-DD) */
+  to?: string;
+  status?: DoseStatus | DoseStatus[];
+}
+
 /**
- * Delete a medication
+ * Format a date as YYYY-MM-DD in local time
  */
-export async function deleteMedication(
-  medicationId: string
-): Promise<{ error: string | null }> {
-  const { error } = await supabase
-    .from("medications")
-    .delete()
-    .eq("id", medicationId);
+function toLocalDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
 
-  return { error: error?.message ?? null };
+/**
+ * Record a dose status change in dose_history
+ * One row is kept per medication, date and scheduled time with the latest
+ * status; every change is also appended to dose_transitions (by a database trigger).
+ * takenChanged says whether the dose actually went from not taken to taken (or
+ * back), so pill counts are adjusted once however many devices or push actions
+ * mark the same dose (like the server's markDoseTakenFromAction)
+ */
+export async function recordDoseEvent(
+  event: DoseEventInput
+): Promise<{ entry: DoseHistory | null; takenChanged: boolean; error: string | null }> {
+  const takenAt =
+    event.status === "taken"
+      ? event.takenAt ?? new Date().toISOString()
+      : null;
+  const instance = {
+    medication_id: event.medicationId,
+    scheduled_date: event.scheduledDate ?? toDateStringInTimeZone(event.timeZone),
+    scheduled_time: event.scheduledTime,
+  };
+  const changes = {
+    user_id: event.userId,
+    dose_id: event.doseId ?? null,
+    status: event.status,
+    taken_at: takenAt,
+    skip_reason: event.status === "skipped" ? event.skipReason ?? "other" : null,
+    actor_id: event.actorId ?? null,
+    // Notes are only written when given, so marking a dose keeps its note
+    ...(event.notes !== undefined && { notes: event.notes }),
+  };
+
+  // Step 1: Create the instance if it doesn't exist yet (a new instance was pending)
+  const { data: inserted, error: insertError } = await supabase
+    .from("dose_history")
+    .upsert(
+      { ...instance, ...changes },
+      { onConflict: "medication_id,scheduled_date,scheduled_time", ignoreDuplicates: true }
+    )
+    .select();
+
+  if (insertError) {
+    console.error("Error recording dose event:", insertError);
+    return { entry: null, takenChanged: false, error: insertError.message };
+  }
+  if (inserted && inserted.length > 0) {
+    return { entry: inserted[0], takenChanged: event.status === "taken", error: null };
+  }
+
+  // Step 2: Update it only if that flips it between taken and not taken
+  const flip = supabase.from("dose_history").update(changes).match(instance);
+  const { data: flipped, error: flipError } = await (event.status === "taken"
+    ? flip.neq("status", "taken")
+    : flip.eq("status", "taken")
+  ).select();
+
+  if (flipError) {
+    console.error("Error recording dose event:", flipError);
+    return { entry: null, takenChanged: false, error: flipError.message };
+  }
+  if (flipped && flipped.length > 0) {
+    return { entry: flipped[0], takenChanged: true, error: null };
+  }
+
+  // Step 3: Otherwise just apply the change (e.g. a skip or a note on a pending dose)
+  const { data, error } = await supabase
+    .from("dose_history")
+    .update(changes)
+    .match(instance)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error recording dose event:", error);
+  }
+
+  return { entry: data ?? null, takenChanged: false, error: error?.message ?? null };
 }
 
 /**
- * Soft delete (deactivate) a medication
+ * Get dose history for a patient, optionally filtered by medication, date range and status
  */
-export async function deactivateMedication(
-  medicationId: string
-): Promise<{ error: string | null }> {
-  const { error } = await supabase
-    .from("medications")
-    .update({ is_active: false, updated_at: new Date().toISOString() })
-    .eq("id", medicationId);
+export async function getDoseHistory(
+  userId: string,
+  filters: DoseHistoryFilters = {}
+): Promise<{ history: DoseHistory[]; error: string | null }> {
+  let query = supabase
+    .from("dose_history")
+    .select("*")
+    .eq("user_id", userId);
 
-  return { error: error?.message ?? null };
+  if (filters.medicationId) {
+    query = query.eq("medication_id", filters.medicationId);
+  }
+  if (filters.from) {
+    query = query.gte("scheduled_date", filters.from);
+  }
+  if (filters.to) {
+    query = query.lte("scheduled_date", filters.to);
+  }
+  if (filters.status) {
+    const statuses = Array.isArray(filters.status)
+      ? filters.status
+      : [filters.status];
+    query = query.in("status", statuses);
+  }
+
+  const { data, error } = await query
+    .order("scheduled_date", { ascending: true })
+    .order("scheduled_time", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching dose history:", error);
+  }
+
+  return { history: (data as DoseHistory[]) ?? [], error: error?.message ?? null };
 }
 
 /**
- * Reset all medications to not taken (for daily reset)
+ * Get every status change of a patient's doses (oldest first), optionally
+ * filtered by medication and date range, e.g. to see that a dose was taken
+ * and later undone
  */
-export async function resetDailyMedications(
-  userId: string
-): Promise<{ error: string | null }> {
-  const { error } = await supabase
-    .from("medications")
-    .update({ taken: false, taken_at: null })
+export async function getDoseTransitions(
+  userId: string,
+  filters: Omit<DoseHistoryFilters, "status"> = {}
+): Promise<{ transitions: DoseTransition[]; error: string | null }> {
+  let query = supabase
+    .from("dose_transitions")
+    .select("*")
     .eq("user_id", userId);
 
-  return { error: error?.message ?? null };
+  if (filters.medicationId) {
+    query = query.eq("medication_id", filters.medicationId);
+  }
+  if (filters.from) {
+    query = query.gte("scheduled_date", filters.from);
+  }
+  if (filters.to) {
+    query = query.lte("scheduled_date", filters.to);
+  }
+
+  const { data, error } = await query.order("changed_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching dose transitions:", error);
+  }
+
+  return { transitions: (data as DoseTransition[]) ?? [], error: error?.message ?? null };
 }
 
 /**
- * Reset all doses for a user's medications
+ * Create a day's dose instances from the medication schedules, as pending
+ * Instances that already exist (taken, skipped or noted) are left alone.
+ * Mirrors getDosesForDate on the server: nothing before the start date, after
+ * the end date, outside a taper's phases or on an off day, and the saved dose
+ * times only while they match the day's frequency
  */
-export async function resetDailyDoses(
-  userId: string
-): Promise<{ error: string | null }> {
-  // Get user's medication IDs
-  const { data: meds } = await supabase
-    .from("medications")
-    .select("id")
+export async function generateDoseInstances(
+  userId: string,
+  scheduledDate: string,
+  routine?: DailyRoutine
+): Promise<{ created: number; error: string | null }> {
+  const { medications, error: medsError } = await getMedicationsWithDoses(userId);
+  if (medsError) {
+    return { created: 0, error: medsError };
+  }
+
+  const instances = medications.flatMap((med) => {
+    if (med.start_date && scheduledDate < med.start_date) return [];
+    if (med.end_date && scheduledDate > med.end_date) return [];
+
+    const schedule = {
+      dosage: med.dosage,
+      frequency: med.frequency,
+      customFrequency: med.custom_frequency ?? undefined,
+      dosePhases: fromDbDosePhases(med.dose_phases),
+      doseAnchors: fromDbDoseAnchors(med.dose_anchors),
+      startDate: med.start_date ?? undefined,
+      startTime: med.start_time,
+      nextDayMode: med.next_day_mode,
+      daysOfWeek: med.days_of_week ?? undefined,
+      cycleDaysOn: med.cycle_days_on ?? undefined,
+      cycleDaysOff: med.cycle_days_off ?? undefined,
+    };
+    const dayDoses = calculateDoseTimesForDate(schedule, scheduledDate, routine);
+    if (dayDoses.length === 0) return [];
+
+    // A taper step that changes the frequency (before the schedule is rebuilt)
+    // uses the day's own times rather than the saved ones
+    const regimen = getRegimenForDate(schedule, scheduledDate);
+    const scheduleMatches =
+      regimen.frequency === med.frequency &&
+      (regimen.customFrequency ?? null) === (med.custom_frequency ?? null);
+    const doses = !scheduleMatches
+      ? [...new Set(dayDoses.map((dose) => dose.time))].map((time) => ({ id: null as string | null, time }))
+      : med.doses && med.doses.length > 0
+        ? med.doses.map((dose) => ({ id: dose.id as string | null, time: dose.time }))
+        : [{ id: null, time: med.time ?? med.start_time }];
+
+    return doses
+      .filter((dose) => !!dose.time)
+      .map((dose) => ({
+        user_id: userId,
+        medication_id: med.id,
+        dose_id: dose.id,
+        scheduled_time: dose.time as string,
+        scheduled_date: scheduledDate,
+        status: "pending" as DoseStatus,
+      }));
+  });
+
+  if (instances.length === 0) {
+    return { created: 0, error: null };
+  }
+
+  const { data, error } = await supabase
+    .from("dose_history")
+    .upsert(instances, {
+      onConflict: "medication_id,scheduled_date,scheduled_time",
+      ignoreDuplicates: true,
+    })
+    .select("id");
+
+  if (error) {
+    console.error("Error generating dose instances:", error);
+    return { created: 0, error: error.message };
+  }
+
+  return { created: data?.length ?? 0, error: null };
+}
+
+/**
+ * Subscribe to a patient's dose instance changes (doses marked on any device,
+ * or by a companion)
+ */
+export function subscribeToDoseInstances(
+  userId: string,
+  onInstanceChange: (event: { type: "INSERT" | "UPDATE" | "DELETE"; instance: DoseHistory }) => void
+): RealtimeChannel {
+  return supabase
+    .channel(`dose-instances-${userId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "dose_history",
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        const type = payload.eventType.toUpperCase() as "INSERT" | "UPDATE" | "DELETE";
+        const instance = (type === "DELETE" ? payload.old : payload.new) as DoseHistory;
+        if (instance) {
+          onInstanceChange({ type, instance });
+        }
+      }
+    )
+    .subscribe();
+}
+
+// ============ DOSE SNOOZE FUNCTIONS ============
+
+export interface DoseSnoozeInput {
+  userId: string;
+  medicationId: string;
+  doseId?: string | null;
+  scheduledTime: string;
+  /** YYYY-MM-DD in the patient's local calendar (defaults to today) */
+  scheduledDate?: string;
+  /** Patient's time zone, used to find "today" when scheduledDate is omitted */
+  timeZone?: string;
+  /** How long this snooze lasts */
+  minutes: number;
+  /** How many times one dose may be snoozed */
+  maxSnoozes: number;
+}
+
+/**
+ * Get a patient's snoozed doses for one day
+ */
+export async function getDoseSnoozes(
+  userId: string,
+  scheduledDate: string
+): Promise<{ snoozes: DoseSnooze[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("dose_snoozes")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("scheduled_date", scheduledDate);
+
+  if (error) {
+    console.error("Error fetching dose snoozes:", error);
+  }
+
+  return { snoozes: (data as DoseSnooze[]) ?? [], error: error?.message ?? null };
+}
+
+/**
+ * Snooze a dose instance, or snooze it again
+ * One row is kept per medication, date and scheduled time; each snooze moves
+ * snooze_until forward and counts toward the per-dose cap
+ */
+export async function snoozeDose(
+  input: DoseSnoozeInput
+): Promise<{ snooze: DoseSnooze | null; error: string | null }> {
+  const scheduledDate = input.scheduledDate ?? toDateStringInTimeZone(input.timeZone);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("dose_snoozes")
+    .select("snooze_count")
+    .eq("medication_id", input.medicationId)
+    .eq("scheduled_date", scheduledDate)
+    .eq("scheduled_time", input.scheduledTime)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error("Error fetching dose snooze:", fetchError);
+    return { snooze: null, error: fetchError.message };
+  }
+
+  const snoozeCount = (existing?.snooze_count ?? 0) + 1;
+  if (snoozeCount > input.maxSnoozes) {
+    return {
+      snooze: null,
+      error: `This dose can only be snoozed ${input.maxSnoozes} time${input.maxSnoozes === 1 ? "" : "s"}`,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("dose_snoozes")
+    .upsert(
+      {
+        user_id: input.userId,
+        medication_id: input.medicationId,
+        dose_id: input.doseId ?? null,
+        scheduled_date: scheduledDate,
+        scheduled_time: input.scheduledTime,
+        snooze_until: new Date(Date.now() + input.minutes * 60000).toISOString(),
+        snooze_count: snoozeCount,
+        reminded_at: null,
+      },
+      { onConflict: "medication_id,scheduled_date,scheduled_time" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error snoozing dose:", error);
+  }
+
+  return { snooze: data ?? null, error: error?.message ?? null };
+}
+
+/**
+ * Subscribe to snooze changes for a patient (snoozes made on any device)
+ * Each subscriber gets its own channel, since the timeline and the alarm
+ * overlay follow the same patient's snoozes at once
+ */
+export function subscribeToDoseSnoozes(
+  userId: string,
+  onSnoozeChange: (event: { type: "INSERT" | "UPDATE" | "DELETE"; snooze: DoseSnooze }) => void
+): RealtimeChannel {
+  return supabase
+    .channel(`dose-snoozes-${userId}-${crypto.randomUUID()}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "dose_snoozes",
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        const type = payload.eventType.toUpperCase() as "INSERT" | "UPDATE" | "DELETE";
+        const snooze = (type === "DELETE" ? payload.old : payload.new) as DoseSnooze;
+        if (snooze) {
+          onSnoozeChange({ type, snooze });
+        }
+      }
+    )
+    .subscribe();
+}
+
+// ============ PILL INVENTORY FUNCTIONS ============
+
+/**
+ * Adjust pills on hand by a delta (negative when a dose is taken)
+ * Does nothing for medications without inventory tracking. The change is a
+ * single database update, so concurrent writers (patient, companion, push
+ * actions) can't overwrite each other's counts
+ */
+export async function adjustPillInventory(
+  medicationId: string,
+  delta: number
+): Promise<{ pillsOnHand: number | null; error: string | null }> {
+  const { data, error } = await supabase.rpc("adjust_pills_on_hand", {
+    p_medication_id: medicationId,
+    p_delta: delta,
+  });
+
+  if (error) {
+    console.error("Error updating pill inventory:", error);
+    return { pillsOnHand: null, error: error.message };
+  }
+
+  return { pillsOnHand: data ?? null, error: null };
+}
+
+/**
+ * Log a refill purchase and add the pills to the medication's inventory
+ * Starts tracking inventory if it wasn't tracked before
+ */
+export async function logRefill(refill: {
+  medicationId: string;
+  userId: string;
+  quantity: number;
+  loggedBy?: string;
+  notes?: string;
+}): Promise<{ pillsOnHand: number | null; error: string | null }> {
+  const { error: insertError } = await supabase
+    .from("medication_refills")
+    .insert({
+      medication_id: refill.medicationId,
+      user_id: refill.userId,
+      logged_by: refill.loggedBy ?? refill.userId,
+      quantity: refill.quantity,
+      notes: refill.notes ?? null,
+    });
+
+  if (insertError) {
+    console.error("Error logging refill:", insertError);
+    return { pillsOnHand: null, error: insertError.message };
+  }
+
+  const { data, error } = await supabase.rpc("adjust_pills_on_hand", {
+    p_medication_id: refill.medicationId,
+    p_delta: refill.quantity,
+    p_start_tracking: true,
+  });
+
+  if (error) {
+    console.error("Error updating pill inventory after refill:", error);
+    return { pillsOnHand: null, error: error.message };
+  }
+
+  return { pillsOnHand: data ?? null, error: null };
+}
+
+/**
+ * Get refill purchases for a medication (most recent first)
+ */
+export async function getRefillHistory(
+  medicationId: string
+): Promise<{ refills: MedicationRefill[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("medication_refills")
+    .select("*")
+    .eq("medication_id", medicationId)
+    .order("purchased_at", { ascending: false });
+
+  return { refills: (data as MedicationRefill[]) ?? [], error: error?.message ?? null };
+}
+
+// ============ PRN (AS-NEEDED) DOSE FUNCTIONS ============
+
+/**
+ * Log one as-needed dose (patients, or companions for a linked patient)
+ * Limits are checked by the caller; this only records the dose
+ */
+export async function logPrnDose(dose: {
+  medicationId: string;
+  userId: string;
+  loggedBy?: string;
+  takenAt?: string;
+  notes?: string | null;
+}): Promise<{ log: PrnDoseLog | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("prn_dose_logs")
+    .insert({
+      medication_id: dose.medicationId,
+      user_id: dose.userId,
+      logged_by: dose.loggedBy ?? dose.userId,
+      taken_at: dose.takenAt ?? new Date().toISOString(),
+      notes: dose.notes ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error logging as-needed dose:", error);
+  }
+
+  return { log: data ?? null, error: error?.message ?? null };
+}
+
+/**
+ * Get a patient's as-needed doses taken since a time (oldest first)
+ */
+export async function getPrnDoseLogs(
+  userId: string,
+  filters: { medicationId?: string; since?: string } = {}
+): Promise<{ logs: PrnDoseLog[]; error: string | null }> {
+  let query = supabase
+    .from("prn_dose_logs")
+    .select("*")
     .eq("user_id", userId);
 
-  if (!meds || meds.length === 0) {
-    return { error: null };
+  if (filters.medicationId) {
+    query = query.eq("medication_id", filters.medicationId);
+  }
+  if (filters.since) {
+    query = query.gte("taken_at", filters.since);
   }
 
-  const medIds = meds.map((m) => m.id);
+  const { data, error } = await query.order("taken_at", { ascending: true });
 
-  const { error } = await supabase
-    .from("schedule_doses")
-    .update({ taken: false, taken_at: null })
-    .in("medication_id", medIds);
+  if (error) {
+    console.error("Error fetching as-needed doses:", error);
+  }
+
+  return { logs: (data as PrnDoseLog[]) ?? [], error: error?.message ?? null };
+}
+
+/**
+ * Remove an as-needed dose logged by mistake
+ */
+export async function deletePrnDose(logId: string): Promise<{ error: string | null }> {
+  const { error } = await supabase.from("prn_dose_logs").delete().eq("id", logId);
+
+  if (error) {
+    console.error("Error deleting as-needed dose:", error);
+  }
 
   return { error: error?.message ?? null };
 }
 
+// ============ MEDICATION AUDIT FUNCTIONS ============
+
+/**
+ * Get who changed a patient's medications and what they changed (newest first)
+ * Entries are written by database triggers; the app only reads them
+ */
+export async function getMedicationAuditLog(
+  patientId: string,
+  filters: { medicationId?: string; limit?: number } = {}
+): Promise<{ entries: MedicationAuditEntry[]; error: string | null }> {
+  let query = supabase
+    .from("medication_audit_log")
+    .select("*")
+    .eq("patient_id", patientId);
+
+  if (filters.medicationId) {
+    query = query.eq("medication_id", filters.medicationId);
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(filters.limit ?? 100);
+
+  if (error) {
+    console.error("Error fetching medication audit log:", error);
+  }
+
+  return { entries: (data as MedicationAuditEntry[]) ?? [], error: error?.message ?? null };
+}
+
+// ============ CALENDAR FEED FUNCTIONS ============
+
+/**
+ * Get the secret calendar feed a user subscribes to for a patient's schedule,
+ * creating it on first use (patientId = userId for the patient's own feed)
+ */
+export async function getOrCreateCalendarFeed(
+  userId: string,
+  patientId: string
+): Promise<{ feed: CalendarFeed | null; error: string | null }> {
+  const { data: existing, error: fetchError } = await supabase
+    .from("calendar_feeds")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("patient_id", patientId)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error("Error fetching calendar feed:", fetchError);
+    return { feed: null, error: fetchError.message };
+  }
+  if (existing) {
+    return { feed: existing as CalendarFeed, error: null };
+  }
+
+  // The token is generated by the database
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .insert({ user_id: userId, patient_id: patientId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating calendar feed:", error);
+  }
+
+  return { feed: (data as CalendarFeed) ?? null, error: error?.message ?? null };
+}
+
+/**
+ * Replace a feed's secret URL; calendars using the old one stop updating
+ */
+export async function resetCalendarFeed(
+  feed: CalendarFeed
+): Promise<{ feed: CalendarFeed | null; error: string | null }> {
+  const { error } = await supabase.from("calendar_feeds").delete().eq("id", feed.id);
+
+  if (error) {
+    console.error("Error resetting calendar feed:", error);
+    return { feed: null, error: error.message };
+  }
+
+  return getOrCreateCalendarFeed(feed.user_id, feed.patient_id);
+}
+
 // ============ AUTO-EXPIRATION FUNCTIONS ============
 
 /**
  * Auto-expire medications that have passed their end_date
  * Returns the count of expired medications and their names
  */
-export async function autoExpireMedications(userId: string): Promise<{
+export async function autoExpireMedications(
+  userId: string,
+  timeZone?: string
+): Promise<{
   expiredCount: number;
   expiredNames: string[];
   error: string | null;
 }> {
-  const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
+  const today = toDateStringInTimeZone(timeZone); // YYYY-MM-DD on the patient's calendar
 
   // Find active medications that have expired (end_date < today)
   // Note: NULL end_date values won't match the < comparison (SQL NULL comparisons return NULL)
@@ -495,12 +1144,15 @@ export async function autoExpireMedications(userId: string): Promise<{
   const expiredIds = expiredMeds.map((m) => m.id);
   const expiredNames = expiredMeds.map((m) => m.name);
 
-  // Mark them as inactive
+  // Mark them as inactive (archived as a completed course)
+  const now = new Date().toISOString();
   const { error: updateError } = await supabase
     .from("medications")
     .update({
       is_active: false,
-      updated_at: new Date().toISOString(),
+      ended_at: now,
+      end_reason: "completed",
+      updated_at: now,
     })
     .in("id", expiredIds);
 
@@ -516,7 +1168,8 @@ export async function autoExpireMedications(userId: string): Promise<{
  */
 export async function getExpiringMedications(
   userId: string,
-  thresholdDays: number = 3
+  thresholdDays: number = 3,
+  timeZone?: string
 ): Promise<{
   medications: Array<{
     id: string;
@@ -526,12 +1179,12 @@ export async function getExpiringMedications(
   }>;
   error: string | null;
 }> {
-  const today = new Date();
+  const today = getNowInTimeZone(timeZone);
   const threshold = new Date(today);
   threshold.setDate(threshold.getDate() + thresholdDays);
 
-  const todayStr = today.toISOString().split("T")[0];
-  const thresholdStr = threshold.toISOString().split("T")[0];
+  const todayStr = toLocalDateString(today);
+  const thresholdStr = toLocalDateString(threshold);
 
   // Note: NULL end_date values won't match range comparisons (SQL NULL comparisons return NULL)
   const { data, error } = await supabase
@@ -547,9 +1200,9 @@ export async function getExpiringMedications(
   }
 
   const medications = (data ?? []).map((m) => {
-    const endDate = new Date(m.end_date);
-    const diffTime = endDate.getTime() - today.getTime();
-    const daysRemaining = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    // Both are YYYY-MM-DD, so this counts whole calendar days
+    const diffTime = Date.parse(m.end_date) - Date.parse(todayStr);
+    const daysRemaining = Math.round(diffTime / (1000 * 60 * 60 * 24));
 
     return {
       id: m.id,
@@ -566,7 +1219,10 @@ export async function getExpiringMedications(
  * Check and auto-expire medications, returning info about what was expired
  * This is the main function to call on app load
  */
-export async function checkAndAutoExpire(userId: string): Promise<{
+export async function checkAndAutoExpire(
+  userId: string,
+  timeZone?: string
+): Promise<{
   expired: { count: number; names: string[] };
   expiringSoon: Array<{ name: string; daysRemaining: number }>;
   error: string | null;
@@ -576,7 +1232,7 @@ export async function checkAndAutoExpire(userId: string): Promise<{
     expiredCount,
     expiredNames,
     error: expireError,
-  } = await autoExpireMedications(userId);
+  } = await autoExpireMedications(userId, timeZone);
 
   if (expireError) {
     return {
@@ -588,7 +1244,7 @@ export async function checkAndAutoExpire(userId: string): Promise<{
 
   // Get medications expiring soon (within 3 days)
   const { medications: expiring, error: expiringError } =
-    await getExpiringMedications(userId, 3);
+    await getExpiringMedications(userId, 3, timeZone);
 
   if (expiringError) {
     return {
@@ -608,6 +1264,332 @@ export async function checkAndAutoExpire(userId: string): Promise<{
   };
 }
 
+// ============ MEDICATION ARCHIVE FUNCTIONS ============
+
+export interface RenewalCourse {
+  /** YYYY-MM-DD */
+  startDate: string;
+  /** YYYY-MM-DD, or null for ongoing */
+  endDate: string | null;
+  timePeriod: string;
+}
+
+/**
+ * Bring an archived medication back with the same schedule
+ * An end date already in the past would expire it again on the next load,
+ * so such a medication becomes ongoing
+ */
+export async function reactivateMedication(
+  medicationId: string,
+  timeZone?: string
+): Promise<{ error: string | null }> {
+  const { data, error: fetchError } = await supabase
+    .from("medications")
+    .select("end_date")
+    .eq("id", medicationId)
+    .single();
+
+  if (fetchError) {
+    return { error: fetchError.message };
+  }
+
+  const expired = !!data?.end_date && data.end_date < toDateStringInTimeZone(timeZone);
+  const { error } = await supabase
+    .from("medications")
+    .update({
+      is_active: true,
+      ended_at: null,
+      end_reason: null,
+      ...(expired ? { end_date: null, time_period: "ongoing" } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", medicationId);
+
+  return { error: error?.message ?? null };
+}
+
+/**
+ * Start a new course of a prescription with new dates
+ * The new medication copies the old one's details and dose times and lists
+ * it (and any courses before it) in previous_course_ids, so adherence
+ * history carries across; the old course is archived as renewed
+ */
+export async function renewMedication(
+  medicationId: string,
+  course: RenewalCourse
+): Promise<{ medication: Medication | null; error: string | null }> {
+  const { data: previous, error: fetchError } = await supabase
+    .from("medications")
+    .select(
+      `
+      *,
+      doses:schedule_doses(*)
+    `
+    )
+    .eq("id", medicationId)
+    .single();
+
+  if (fetchError || !previous) {
+    return { medication: null, error: fetchError?.message ?? "Medication not found" };
+  }
+
+  const { doses, ...row } = previous as Medication & { doses: ScheduleDose[] };
+  const renewal: InsertMedication = {
+    ...row,
+    id: undefined,
+    created_at: undefined,
+    updated_at: undefined,
+    taken: false,
+    taken_at: null,
+    is_active: true,
+    ended_at: null,
+    end_reason: null,
+    start_date: course.startDate,
+    end_date: course.endDate,
+    time_period: course.timePeriod,
+    // Taper dates belong to the old course; the new one continues at the current dose
+    dose_phases: null,
+    previous_course_ids: [...(row.previous_course_ids ?? []), row.id],
+  };
+
+  const { medication, error } = await addMedicationWithDoses(
+    renewal,
+    [...(doses ?? [])]
+      .sort((a, b) => a.dose_order - b.dose_order)
+      .map((dose) => ({
+        time: dose.time,
+        label: dose.label,
+        taken: false,
+        dose_order: dose.dose_order,
+      }))
+  );
+
+  if (error || !medication) {
+    return { medication: null, error: error ?? "Failed to renew medication" };
+  }
+
+  const now = new Date().toISOString();
+  const { error: archiveError } = await supabase
+    .from("medications")
+    .update({
+      is_active: false,
+      ended_at: row.ended_at ?? now,
+      end_reason: "renewed",
+      updated_at: now,
+    })
+    .eq("id", row.id);
+
+  if (archiveError) {
+    console.error("Error archiving renewed medication:", archiveError);
+  }
+
+  return { medication, error: null };
+}
+
+// ============ TAPER PHASE FUNCTIONS ============
+
+/**
+ * Move tapered medications onto the phase for today.
+ * The medication's dosage and frequency mirror the current phase so every
+ * view (dashboard, alarms, companions) shows the right dose. Doses are only
+ * regenerated when the frequency changes, so dose times stay put on a dosage step.
+ */
+export async function advanceTaperPhases(
+  userId: string,
+  routine?: DailyRoutine,
+  timeZone?: string
+): Promise<{
+  advanced: Array<{ name: string; dosage: string }>;
+  error: string | null;
+}> {
+  const today = toDateStringInTimeZone(timeZone);
+
+  const { data, error } = await supabase
+    .from("medications")
+    .select("id, name, dosage, frequency, custom_frequency, start_time, next_day_mode, dose_phases, dose_anchors")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .not("dose_phases", "is", null);
+
+  if (error) {
+    return { advanced: [], error: error.message };
+  }
+
+  const advanced: Array<{ name: string; dosage: string }> = [];
+
+  for (const med of data ?? []) {
+    const phase = getPhaseForDate(fromDbDosePhases(med.dose_phases), today);
+    if (!phase) continue;
+
+    const frequencyChanged =
+      phase.frequency !== med.frequency ||
+      (phase.customFrequency ?? null) !== med.custom_frequency;
+    if (!frequencyChanged && phase.dosage === med.dosage) continue;
+
+    const updates: UpdateMedication = {
+      dosage: phase.dosage,
+      frequency: phase.frequency,
+      custom_frequency: phase.customFrequency ?? null,
+      interval_minutes: getIntervalForFrequency(phase.frequency, phase.customFrequency),
+    };
+
+    let updateError: string | null;
+    if (frequencyChanged) {
+      const doses = calculateDoseTimes(
+        to24HourTime(med.start_time),
+        phase.frequency,
+        phase.customFrequency,
+        med.next_day_mode === "continue" ? "continue" : "restart",
+        { routine, anchors: fromDbDoseAnchors(med.dose_anchors) }
+      ).map((dose, index) => ({
+        medication_id: med.id,
+        time: dose.time,
+        label: dose.label,
+        taken: false,
+        dose_order: index + 1,
+      }));
+      ({ error: updateError } = await updateMedicationWithDoses(med.id, updates, doses));
+    } else {
+      ({ error: updateError } = await updateMedication(med.id, updates));
+    }
+
+    if (updateError) {
+      console.error(`Error advancing taper for ${med.name}:`, updateError);
+      continue;
+    }
+
+    advanced.push({ name: med.name, dosage: phase.dosage });
+  }
+
+  return { advanced, error: null };
+}
+
+// ============ DAILY ROUTINE FUNCTIONS ============
+
+/**
+ * Move a day's dose instances to new scheduled times.
+ * A move waits while another instance still holds its new time, so doses
+ * that trade places don't collide on the one-row-per-time index.
+ */
+async function moveDoseInstances(
+  medicationId: string,
+  scheduledDate: string,
+  moves: { from: string; to: string }[]
+): Promise<{ error: string | null }> {
+  const { data, error } = await supabase
+    .from("dose_history")
+    .select("scheduled_time")
+    .eq("medication_id", medicationId)
+    .eq("scheduled_date", scheduledDate);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const occupied = new Set((data ?? []).map((row) => row.scheduled_time));
+  let pending = moves.filter((move) => move.from !== move.to && occupied.has(move.from));
+
+  while (pending.length > 0) {
+    const ready = pending.filter((move) => !occupied.has(move.to));
+    // Only a loop of swapped times is left; leave those instances where they are
+    if (ready.length === 0) break;
+
+    for (const move of ready) {
+      const { error: moveError } = await supabase
+        .from("dose_history")
+        .update({ scheduled_time: move.to, updated_at: new Date().toISOString() })
+        .eq("medication_id", medicationId)
+        .eq("scheduled_date", scheduledDate)
+        .eq("scheduled_time", move.from);
+
+      if (moveError) {
+        return { error: moveError.message };
+      }
+      occupied.delete(move.from);
+      occupied.add(move.to);
+    }
+
+    pending = pending.filter((move) => !ready.includes(move));
+  }
+
+  return { error: null };
+}
+
+/**
+ * Save the user's daily routine and move their doses to follow it.
+ * Anchored medications are recalculated from the new routine; other
+ * medications keep their times unless a dose now falls while the user sleeps.
+ * Today's dose instances move with their doses, so a dose already taken
+ * today stays taken at its new time.
+ */
+export async function updateDailyRoutine(
+  userId: string,
+  routine: DailyRoutine,
+  timeZone?: string
+): Promise<{ rescheduled: string[]; error: string | null }> {
+  const { error: profileError } = await updateProfile(userId, toDbRoutine(routine));
+  if (profileError) {
+    return { rescheduled: [], error: profileError };
+  }
+
+  const { medications, error } = await getMedicationsWithDoses(userId);
+  if (error) {
+    return { rescheduled: [], error };
+  }
+
+  const today = toDateStringInTimeZone(timeZone);
+  const rescheduled: string[] = [];
+
+  for (const med of medications) {
+    if (med.frequency === "as_needed" || med.doses.length === 0) continue;
+
+    const currentDoses = [...med.doses].sort((a, b) => a.dose_order - b.dose_order);
+    const anchors = fromDbDoseAnchors(med.dose_anchors);
+    const newDoses = anchors
+      ? calculateDoseTimes(
+          to24HourTime(med.start_time),
+          med.frequency,
+          med.custom_frequency ?? undefined,
+          med.next_day_mode === "continue" ? "continue" : "restart",
+          { routine, anchors }
+        )
+      : currentDoses.map((dose) => ({
+          time: moveOutOfSleepWindow(to24HourTime(dose.time), routine),
+          label: dose.label,
+        }));
+
+    const unchanged =
+      newDoses.length === currentDoses.length &&
+      newDoses.every((dose, index) => dose.time === to24HourTime(currentDoses[index].time));
+    if (unchanged) continue;
+
+    const doses = newDoses.map((dose, index) => ({
+      medication_id: med.id,
+      time: dose.time,
+      label: dose.label,
+      dose_order: index + 1,
+    }));
+
+    const { error: updateError } = await updateMedicationWithDoses(med.id, {}, doses);
+    if (updateError) {
+      console.error(`Error rescheduling ${med.name} for new routine:`, updateError);
+      continue;
+    }
+
+    const moves = currentDoses
+      .slice(0, newDoses.length)
+      .map((dose, index) => ({ from: dose.time, to: newDoses[index].time }));
+    const { error: moveError } = await moveDoseInstances(med.id, today, moves);
+    if (moveError) {
+      console.error(`Error moving today's ${med.name} doses for new routine:`, moveError);
+    }
+
+    rescheduled.push(med.name);
+  }
+
+  return { rescheduled, error: null };
+}
+
 // ============ COMPANION LINKING FUNCTIONS ============
 
 /**
@@ -892,7 +1874,7 @@ export async function getLinkedPatients(
   // Batch fetch patient profiles
   const { data: profiles, error: profilesError } = await supabase
     .from("profiles")
-    .select("id, name, email")
+    .select("id, name, email, timezone, preferred_language")
     .in("id", patientIds);
 
   if (profilesError) {
@@ -905,6 +1887,8 @@ export async function getLinkedPatients(
     id: string;
     name: string;
     email: string;
+    timezone: string | null;
+    preferred_language: string | null;
   }>;
   const profileMap = new Map(profilesArray.map((p) => [p.id, p]));
 
@@ -927,6 +1911,39 @@ export async function getLinkedPatients(
     }
   }
 
+  // Today's dose instances on each patient's own calendar set what's taken
+  const todayByPatient = new Map(
+    patientIds.map((id) => [id, toDateStringInTimeZone(profileMap.get(id)?.timezone)])
+  );
+  const takenToday = new Map<string, DoseHistory>();
+  if (allMedications.length > 0) {
+    const { data: instances } = await supabase
+      .from("dose_history")
+      .select("*")
+      .in("user_id", patientIds)
+      .in("scheduled_date", [...new Set(todayByPatient.values())])
+      .eq("status", "taken");
+
+    for (const instance of (instances ?? []) as DoseHistory[]) {
+      if (instance.scheduled_date !== todayByPatient.get(instance.user_id)) continue;
+      takenToday.set(`${instance.medication_id}|${instance.scheduled_time}`, instance);
+    }
+  }
+
+  for (const med of allMedications) {
+    for (const dose of med.doses ?? []) {
+      const instance = takenToday.get(`${med.id}|${dose.time}`);
+      dose.taken = !!instance;
+      dose.taken_at = instance?.taken_at ?? null;
+    }
+    // A multi-dose medication counts as taken once every dose is
+    const instance = takenToday.get(`${med.id}|${med.time ?? med.start_time}`);
+    med.taken = med.doses?.length > 0
+      ? med.doses.every((dose: { taken: boolean }) => dose.taken)
+      : !!instance;
+    med.taken_at = instance?.taken_at ?? null;
+  }
+
   // Group medications by patient ID for O(1) lookup
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const medicationsByPatient = new Map<string, any[]>();
@@ -974,6 +1991,8 @@ export async function getLinkedPatients(
       id: patientId,
       name: displayName,
       email: profile?.email ?? "",
+      timeZone: profile?.timezone ?? undefined,
+      preferredLanguage: profile?.preferred_language ?? undefined,
       linkId: link.id,
       linkStatus: link.status as LinkStatus,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
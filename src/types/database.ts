@@ -19,10 +19,47 @@ export type FrequencyType =
   | "four_times_daily"
   | "every_other_day"
   | "weekly"
+  | "specific_days"
+  | "cycle"
   | "as_needed"
   | "custom";
 export type NextDayMode = "restart" | "continue";
 export type DoseStatus = "pending" | "taken" | "missed" | "skipped";
+export type SkipReason = "nausea" | "out_of_stock" | "doctor_advised" | "fasting" | "other";
+export type LateDoseRule = "auto" | "take_when_remembered" | "skip_missed" | "cutoff";
+export type MedicationEndReason = "completed" | "stopped" | "renewed";
+export type AuditActorRole = "patient" | "companion" | "system";
+export type AuditAction =
+  | "create"
+  | "update"
+  | "deactivate"
+  | "reactivate"
+  | "delete"
+  | "dose_taken"
+  | "dose_untaken"
+  | "dose_skipped";
+
+// One changed column in medication_audit_log.changes (values as stored in the row)
+export interface DbAuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// Taper phase as stored in medications.dose_phases (JSONB, ordered by start_date)
+export interface DbDosePhase {
+  id: string;
+  start_date: string;
+  end_date: string;
+  dosage: string;
+  frequency: FrequencyType;
+  custom_frequency: number | null;
+}
+
+// Dose anchor as stored in medications.dose_anchors (JSONB), e.g. 30 minutes before breakfast
+export interface DbDoseAnchor {
+  event: "wake" | "breakfast" | "lunch" | "dinner" | "sleep";
+  offset_minutes: number; // Negative = before the event
+}
 
 export interface Database {
   public: {
@@ -36,6 +73,26 @@ export interface Database {
           link_code: string | null; // Unique code for patients to share with companions
           email_reminder_enabled: boolean; // Whether to send email reminders before medication intake
           email_reminder_minutes: number; // Minutes before scheduled time to send reminder
+          // Daily routine (HH:mm) used to place meal- and sleep-anchored doses
+          wake_time: string;
+          breakfast_time: string;
+          lunch_time: string;
+          dinner_time: string;
+          sleep_time: string;
+          timezone: string | null; // IANA time zone dose times and dates are read in (null until recorded)
+          travel_mode: "shift" | "keep"; // When the device changes zone: follow it, or stay on home time
+          preferred_language: string; // Language code (en, tl, ceb, ...) for the assistant, briefings and printed reports
+          snooze_minutes: number; // Length of one alarm snooze
+          max_snoozes: number; // How many times one dose can be snoozed (0 = off)
+          phone: string | null; // Companions can call this from a missed-dose alert
+          telegram_chat_id: string | null;
+          telegram_username: string | null;
+          telegram_linked_at: string | null;
+          current_streak: number | null; // Gamification
+          best_streak: number | null;
+          total_victories: number | null;
+          last_perfect_date: string | null;
+          streak_updated_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -47,6 +104,25 @@ export interface Database {
           link_code?: string | null;
           email_reminder_enabled?: boolean;
           email_reminder_minutes?: number;
+          wake_time?: string;
+          breakfast_time?: string;
+          lunch_time?: string;
+          dinner_time?: string;
+          sleep_time?: string;
+          timezone?: string | null;
+          travel_mode?: "shift" | "keep";
+          preferred_language?: string;
+          snooze_minutes?: number;
+          max_snoozes?: number;
+          phone?: string | null;
+          telegram_chat_id?: string | null;
+          telegram_username?: string | null;
+          telegram_linked_at?: string | null;
+          current_streak?: number | null;
+          best_streak?: number | null;
+          total_victories?: number | null;
+          last_perfect_date?: string | null;
+          streak_updated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -58,9 +134,29 @@ export interface Database {
           link_code?: string | null;
           email_reminder_enabled?: boolean;
           email_reminder_minutes?: number;
+          wake_time?: string;
+          breakfast_time?: string;
+          lunch_time?: string;
+          dinner_time?: string;
+          sleep_time?: string;
+          timezone?: string | null;
+          travel_mode?: "shift" | "keep";
+          preferred_language?: string;
+          snooze_minutes?: number;
+          max_snoozes?: number;
+          phone?: string | null;
+          telegram_chat_id?: string | null;
+          telegram_username?: string | null;
+          telegram_linked_at?: string | null;
+          current_streak?: number | null;
+          best_streak?: number | null;
+          total_victories?: number | null;
+          last_perfect_date?: string | null;
+          streak_updated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       medications: {
         Row: {
@@ -73,13 +169,28 @@ export interface Database {
           image_url: string | null;
           frequency: FrequencyType;
           custom_frequency: number | null;
+          days_of_week: number[] | null;
+          cycle_days_on: number | null;
+          cycle_days_off: number | null;
           time_period: string;
           start_date: string | null;
           end_date: string | null;
           start_time: string;
           next_day_mode: NextDayMode;
           interval_minutes: number | null;
+          pills_on_hand: number | null;
+          pack_size: number | null;
+          pills_per_dose: number;
+          prn_min_interval_minutes: number | null; // As needed: minimum gap between doses
+          prn_max_daily_doses: number | null; // As needed: most doses in any 24 hours
+          late_dose_rule: LateDoseRule; // What to do with a late dose (label/pharmacist)
+          late_dose_cutoff_minutes: number | null; // For "cutoff": latest a dose may still be taken
+          dose_phases: DbDosePhase[] | null;
+          dose_anchors: DbDoseAnchor[] | null;
           is_active: boolean;
+          ended_at: string | null; // When archived (NULL while active)
+          end_reason: MedicationEndReason | null;
+          previous_course_ids: string[]; // Earlier courses of a renewed prescription, oldest first
           // Legacy fields
           time: string | null;
           taken: boolean;
@@ -97,13 +208,28 @@ export interface Database {
           image_url?: string | null;
           frequency?: FrequencyType;
           custom_frequency?: number | null;
+          days_of_week?: number[] | null;
+          cycle_days_on?: number | null;
+          cycle_days_off?: number | null;
           time_period?: string;
           start_date?: string | null;
           end_date?: string | null;
           start_time?: string;
           next_day_mode?: NextDayMode;
           interval_minutes?: number | null;
+          pills_on_hand?: number | null;
+          pack_size?: number | null;
+          pills_per_dose?: number;
+          prn_min_interval_minutes?: number | null;
+          prn_max_daily_doses?: number | null;
+          late_dose_rule?: LateDoseRule;
+          late_dose_cutoff_minutes?: number | null;
+          dose_phases?: DbDosePhase[] | null;
+          dose_anchors?: DbDoseAnchor[] | null;
           is_active?: boolean;
+          ended_at?: string | null;
+          end_reason?: MedicationEndReason | null;
+          previous_course_ids?: string[];
           time?: string | null;
           taken?: boolean;
           taken_at?: string | null;
@@ -120,19 +246,35 @@ export interface Database {
           image_url?: string | null;
           frequency?: FrequencyType;
           custom_frequency?: number | null;
+          days_of_week?: number[] | null;
+          cycle_days_on?: number | null;
+          cycle_days_off?: number | null;
           time_period?: string;
           start_date?: string | null;
           end_date?: string | null;
           start_time?: string;
           next_day_mode?: NextDayMode;
           interval_minutes?: number | null;
+          pills_on_hand?: number | null;
+          pack_size?: number | null;
+          pills_per_dose?: number;
+          prn_min_interval_minutes?: number | null;
+          prn_max_daily_doses?: number | null;
+          late_dose_rule?: LateDoseRule;
+          late_dose_cutoff_minutes?: number | null;
+          dose_phases?: DbDosePhase[] | null;
+          dose_anchors?: DbDoseAnchor[] | null;
           is_active?: boolean;
+          ended_at?: string | null;
+          end_reason?: MedicationEndReason | null;
+          previous_course_ids?: string[];
           time?: string | null;
           taken?: boolean;
           taken_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       schedule_doses: {
         Row: {
@@ -165,6 +307,15 @@ export interface Database {
           dose_order?: number;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "schedule_doses_medication_id_fkey";
+            columns: ["medication_id"];
+            isOneToOne: false;
+            referencedRelation: "medications";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       dose_history: {
         Row: {
@@ -177,7 +328,10 @@ export interface Database {
           taken_at: string | null;
           status: DoseStatus;
           notes: string | null;
+          skip_reason: SkipReason | null;
+          actor_id: string | null; // Who last set the status (null = the server)
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: string;
@@ -189,7 +343,10 @@ export interface Database {
           taken_at?: string | null;
           status?: DoseStatus;
           notes?: string | null;
+          skip_reason?: SkipReason | null;
+          actor_id?: string | null;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
@@ -201,13 +358,404 @@ export interface Database {
           taken_at?: string | null;
           status?: DoseStatus;
           notes?: string | null;
+          skip_reason?: SkipReason | null;
+          actor_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      prn_dose_logs: {
+        Row: {
+          id: string;
+          medication_id: string;
+          user_id: string;
+          logged_by: string | null;
+          taken_at: string;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          medication_id: string;
+          user_id: string;
+          logged_by?: string | null;
+          taken_at?: string;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          medication_id?: string;
+          user_id?: string;
+          logged_by?: string | null;
+          taken_at?: string;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      calendar_feeds: {
+        Row: {
+          id: string;
+          user_id: string; // Subscriber
+          patient_id: string; // Whose schedule the feed serves
+          token: string;
+          last_fetched_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          patient_id: string;
+          token?: string;
+          last_fetched_at?: string | null;
           created_at?: string;
         };
+        Update: {
+          id?: string;
+          user_id?: string;
+          patient_id?: string;
+          token?: string;
+          last_fetched_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      dose_snoozes: {
+        Row: {
+          id: string;
+          user_id: string;
+          medication_id: string;
+          dose_id: string | null;
+          scheduled_date: string; // YYYY-MM-DD on the patient's calendar
+          scheduled_time: string;
+          snooze_until: string;
+          snooze_count: number;
+          reminded_at: string | null; // Server re-reminder after the snooze ended
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          medication_id: string;
+          dose_id?: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          snooze_until: string;
+          snooze_count?: number;
+          reminded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          medication_id?: string;
+          dose_id?: string | null;
+          scheduled_date?: string;
+          scheduled_time?: string;
+          snooze_until?: string;
+          snooze_count?: number;
+          reminded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      medication_refills: {
+        Row: {
+          id: string;
+          medication_id: string;
+          user_id: string;
+          logged_by: string | null;
+          quantity: number;
+          purchased_at: string;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          medication_id: string;
+          user_id: string;
+          logged_by?: string | null;
+          quantity: number;
+          purchased_at?: string;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          medication_id?: string;
+          user_id?: string;
+          logged_by?: string | null;
+          quantity?: number;
+          purchased_at?: string;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      dose_transitions: {
+        Row: {
+          id: string;
+          dose_history_id: string | null;
+          user_id: string;
+          medication_id: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          from_status: DoseStatus | null; // NULL for the instance's first status
+          to_status: DoseStatus;
+          taken_at: string | null;
+          skip_reason: SkipReason | null;
+          actor_id: string | null; // NULL for server jobs
+          changed_at: string;
+        };
+        // Rows are written by a database trigger on dose_history, never by the app
+        Insert: {
+          id?: string;
+          dose_history_id?: string | null;
+          user_id: string;
+          medication_id?: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          from_status?: DoseStatus | null;
+          to_status: DoseStatus;
+          taken_at?: string | null;
+          skip_reason?: SkipReason | null;
+          actor_id?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          dose_history_id?: string | null;
+          user_id?: string;
+          medication_id?: string | null;
+          scheduled_date?: string;
+          scheduled_time?: string;
+          from_status?: DoseStatus | null;
+          to_status?: DoseStatus;
+          taken_at?: string | null;
+          skip_reason?: SkipReason | null;
+          actor_id?: string | null;
+          changed_at?: string;
+        };
+        Relationships: [];
+      };
+      medication_audit_log: {
+        Row: {
+          id: string;
+          patient_id: string;
+          medication_id: string | null;
+          medication_name: string;
+          actor_id: string | null; // NULL for server jobs
+          actor_name: string | null;
+          actor_role: AuditActorRole;
+          action: AuditAction;
+          changes: Record<string, DbAuditFieldChange>;
+          scheduled_date: string | null;
+          scheduled_time: string | null;
+          created_at: string;
+        };
+        // Rows are written by database triggers, never by the app
+        Insert: {
+          id?: string;
+          patient_id: string;
+          medication_id?: string | null;
+          medication_name: string;
+          actor_id?: string | null;
+          actor_name?: string | null;
+          actor_role: AuditActorRole;
+          action: AuditAction;
+          changes?: Record<string, DbAuditFieldChange>;
+          scheduled_date?: string | null;
+          scheduled_time?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          medication_id?: string | null;
+          medication_name?: string;
+          actor_id?: string | null;
+          actor_name?: string | null;
+          actor_role?: AuditActorRole;
+          action?: AuditAction;
+          changes?: Record<string, DbAuditFieldChange>;
+          scheduled_date?: string | null;
+          scheduled_time?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      patient_companions: {
+        Row: {
+          id: string;
+          patient_id: string;
+          companion_id: string;
+          status: LinkStatus;
+          created_at: string;
+          accepted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          patient_id: string;
+          companion_id: string;
+          status?: LinkStatus;
+          created_at?: string;
+          accepted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          companion_id?: string;
+          status?: LinkStatus;
+          created_at?: string;
+          accepted_at?: string | null;
+        };
+        Relationships: [];
+      };
+      subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          tier: SubscriptionTierDb;
+          status: SubscriptionStatusDb;
+          current_period_start: string;
+          current_period_end: string | null;
+          payrex_checkout_id: string | null;
+          payrex_payment_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          tier?: SubscriptionTierDb;
+          status?: SubscriptionStatusDb;
+          current_period_start?: string;
+          current_period_end?: string | null;
+          payrex_checkout_id?: string | null;
+          payrex_payment_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          tier?: SubscriptionTierDb;
+          status?: SubscriptionStatusDb;
+          current_period_start?: string;
+          current_period_end?: string | null;
+          payrex_checkout_id?: string | null;
+          payrex_payment_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      payment_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          subscription_id: string | null;
+          amount: number; // Centavos
+          currency: string;
+          status: PaymentStatusDb;
+          payrex_checkout_id: string | null;
+          payrex_payment_id: string | null;
+          payment_method: string | null;
+          description: string | null;
+          metadata: Record<string, unknown> | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          subscription_id?: string | null;
+          amount: number;
+          currency?: string;
+          status: PaymentStatusDb;
+          payrex_checkout_id?: string | null;
+          payrex_payment_id?: string | null;
+          payment_method?: string | null;
+          description?: string | null;
+          metadata?: Record<string, unknown> | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          subscription_id?: string | null;
+          amount?: number;
+          currency?: string;
+          status?: PaymentStatusDb;
+          payrex_checkout_id?: string | null;
+          payrex_payment_id?: string | null;
+          payment_method?: string | null;
+          description?: string | null;
+          metadata?: Record<string, unknown> | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      daily_adherence: {
+        Row: {
+          id: string;
+          user_id: string;
+          date: string;
+          total_doses: number;
+          taken_doses: number;
+          adherence_rate: number;
+          is_perfect: boolean; // 100% adherence
+          created_at: string;
+          updated_at: string;
+        };
+        // Rows are written by record_daily_adherence
+        Insert: {
+          id?: string;
+          user_id: string;
+          date: string;
+          total_doses?: number;
+          taken_doses?: number;
+          adherence_rate?: number;
+          is_perfect?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          date?: string;
+          total_doses?: number;
+          taken_doses?: number;
+          adherence_rate?: number;
+          is_perfect?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: {
+      find_patient_by_link_code: {
+        Args: { p_link_code: string };
+        Returns: { patient_id: string; patient_name: string; patient_email: string }[];
+      };
+      record_daily_adherence: {
+        Args: { p_user_id: string; p_date: string; p_total_doses: number; p_taken_doses: number };
+        Returns: undefined;
+      };
+      // Atomic pills_on_hand change; NULL for untracked medications
+      adjust_pills_on_hand: {
+        Args: { p_medication_id: string; p_delta: number; p_start_tracking?: boolean };
+        Returns: number | null;
       };
     };
-    Views: {};
-    Functions: {};
-    Enums: {};
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 }
 
@@ -224,6 +772,15 @@ export type InsertScheduleDose =
 export type DoseHistory = Database["public"]["Tables"]["dose_history"]["Row"];
 export type InsertDoseHistory =
   Database["public"]["Tables"]["dose_history"]["Insert"];
+export type DoseTransition =
+  Database["public"]["Tables"]["dose_transitions"]["Row"];
+export type PrnDoseLog = Database["public"]["Tables"]["prn_dose_logs"]["Row"];
+export type CalendarFeed = Database["public"]["Tables"]["calendar_feeds"]["Row"];
+export type DoseSnooze = Database["public"]["Tables"]["dose_snoozes"]["Row"];
+export type MedicationRefill =
+  Database["public"]["Tables"]["medication_refills"]["Row"];
+export type MedicationAuditEntry =
+  Database["public"]["Tables"]["medication_audit_log"]["Row"];
 
 // Subscription types
 export type SubscriptionTierDb = "free" | "pro" | "enterprise";
@@ -233,6 +790,7 @@ export type SubscriptionStatusDb =
   | "past_due"
   | "trialing"
   | "expired";
+export type PaymentStatusDb = "pending" | "completed" | "failed" | "refunded";
 
 export interface DbSubscription {
   id: string;
@@ -253,7 +811,7 @@ export interface DbPaymentHistory {
   subscription_id: string | null;
   amount: number;
   currency: string;
-  status: "pending" | "completed" | "failed" | "refunded";
+  status: PaymentStatusDb;
   payrex_checkout_id: string | null;
   payrex_payment_id: string | null;
   payment_method: string | null;
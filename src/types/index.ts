@@ -15,10 +15,15 @@ export type FrequencyType =
   | "four_times_daily"
   | "every_other_day"
   | "weekly"
+  | "specific_days"
+  | "cycle"
   | "as_needed"
   | "custom";
 export type NextDayMode = "restart" | "continue";
 export type DoseStatus = "pending" | "taken" | "missed" | "skipped";
+export type SkipReason = "nausea" | "out_of_stock" | "doctor_advised" | "fasting" | "other";
+export type LateDoseRule = "auto" | "take_when_remembered" | "skip_missed" | "cutoff";
+export type MedicationEndReason = "completed" | "stopped" | "renewed";
 
 /**
  * Extended medication type with scheduling support
@@ -35,6 +40,10 @@ export interface Medication {
   imageUrl?: string;
   frequency: FrequencyType;
   customFrequency?: number;
+  // Which days to take "specific_days" (0 = Sunday) and "cycle" medications
+  daysOfWeek?: number[];
+  cycleDaysOn?: number;
+  cycleDaysOff?: number;
   timePeriod: string;
   startDate?: string; // ISO date string (YYYY-MM-DD) - when prescription starts
   endDate?: string; // ISO date string (YYYY-MM-DD) - when prescription ends (null for ongoing)
@@ -42,11 +51,55 @@ export interface Medication {
   nextDayMode: NextDayMode;
   intervalMinutes?: number;
   isActive: boolean;
+  // Archived medications: when and why they ended
+  endedAt?: string;
+  endReason?: MedicationEndReason;
+  // Earlier courses of a renewed prescription (oldest first); their history counts toward this one
+  previousCourseIds?: string[];
   takenAt?: string;
+  takenBy?: string; // Who marked today's dose taken (single-dose medications)
+  // Today's dose deliberately skipped (single-dose medications), and any note on it
+  skipped?: boolean;
+  skipReason?: SkipReason;
+  doseNote?: string;
+  // Pill inventory (pillsOnHand is null/undefined when not tracked)
+  pillsOnHand?: number | null;
+  packSize?: number | null;
+  pillsPerDose?: number;
+  // As-needed (PRN) safety limits (null/undefined = no limit)
+  prnMinIntervalMinutes?: number | null;
+  prnMaxDailyDoses?: number | null;
+  // What the label or pharmacist says to do with a late dose ("auto" when unset)
+  lateDoseRule?: LateDoseRule;
+  lateDoseCutoffMinutes?: number | null;
+  // Ordered taper/titration phases (dosage and frequency change by date)
+  dosePhases?: DosePhase[];
+  // Doses placed relative to the daily routine (e.g., 30 min before breakfast)
+  doseAnchors?: DoseAnchor[];
   // Computed doses for the day
   doses?: ScheduledDose[];
 }
 
+/**
+ * One phase of a taper or titration regimen
+ */
+export interface DosePhase {
+  id: string;
+  startDate: string; // ISO date string (YYYY-MM-DD)
+  endDate: string; // ISO date string (YYYY-MM-DD), inclusive
+  dosage: string;
+  frequency: FrequencyType;
+  customFrequency?: number;
+}
+
+/**
+ * A dose placed relative to the user's daily routine
+ */
+export interface DoseAnchor {
+  event: "wake" | "breakfast" | "lunch" | "dinner" | "sleep";
+  offsetMinutes: number; // Negative = before the event
+}
+
 /**
  * Simple medication type for backward compatibility
  */
@@ -69,7 +122,11 @@ export interface ScheduledDose {
   label: string; // e.g., "Morning", "Afternoon", "Evening"
   taken: boolean;
   takenAt?: string;
+  takenBy?: string; // Who marked it taken (the patient or a companion)
   order?: number;
+  skipped?: boolean; // Deliberately skipped today (not missed)
+  skipReason?: SkipReason;
+  note?: string; // Free-text note on today's dose
 }
 
 export interface ChatMessage {
@@ -113,6 +170,8 @@ export interface LinkedPatient {
   id: string;
   name: string;
   email: string;
+  timeZone?: string; // IANA zone the patient's dose times are in
+  preferredLanguage?: string; // Language code the patient chose (e.g., "tl")
   linkId: string;
   linkStatus: LinkStatus;
   medications: Medication[];
@@ -155,6 +214,8 @@ export const FREQUENCY_LABELS: Record<FrequencyType, string> = {
   four_times_daily: "4 times daily",
   every_other_day: "Every other day",
   weekly: "Weekly",
+  specific_days: "Specific days",
+  cycle: "On/off cycle",
   as_needed: "As needed",
   custom: "Custom interval",
 };
@@ -166,6 +227,8 @@ export const FREQUENCY_DOSES: Record<FrequencyType, number> = {
   four_times_daily: 4,
   every_other_day: 1,
   weekly: 1,
+  specific_days: 1,
+  cycle: 1,
   as_needed: 0,
   custom: 0,
 };
@@ -0,0 +1,64 @@
+-- ============================================
+-- Migration: Atomic Pill Inventory Updates
+-- Purpose: Change pills_on_hand in a single UPDATE so a patient, a companion
+--          and a push "Taken" action writing at the same time can't
+--          overwrite each other's counts (read, add, write back loses updates)
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- ADJUST PILLS ON HAND
+-- ============================================
+-- Adds p_delta (negative when a dose is taken) and returns the new count,
+-- never going below zero. Untracked medications (pills_on_hand IS NULL) are
+-- left alone and return NULL, unless p_start_tracking is set (a refill
+-- starts tracking from zero).
+-- Callable by the patient, their accepted companions, and the server
+
+CREATE OR REPLACE FUNCTION public.adjust_pills_on_hand(
+  p_medication_id UUID,
+  p_delta NUMERIC,
+  p_start_tracking BOOLEAN DEFAULT FALSE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_pills NUMERIC;
+BEGIN
+  -- Signed-in callers must own the medication or be an accepted companion;
+  -- the server (service role) has no user
+  IF v_actor IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.medications m
+    WHERE m.id = p_medication_id
+    AND (
+      m.user_id = v_actor
+      OR EXISTS (
+        SELECT 1 FROM public.patient_companions pc
+        WHERE pc.patient_id = m.user_id
+        AND pc.companion_id = v_actor
+        AND pc.status = 'accepted'
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this medication''s inventory';
+  END IF;
+
+  UPDATE public.medications
+  SET pills_on_hand = GREATEST(0, COALESCE(pills_on_hand, 0) + p_delta),
+      updated_at = NOW()
+  WHERE id = p_medication_id
+  AND (pills_on_hand IS NOT NULL OR p_start_tracking)
+  RETURNING pills_on_hand INTO v_pills;
+
+  RETURN v_pills;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_pills_on_hand(UUID, NUMERIC, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.adjust_pills_on_hand(UUID, NUMERIC, BOOLEAN) TO authenticated, service_role;
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this as a patient to take one pill off a tracked medication:
+-- SELECT public.adjust_pills_on_hand('<medication-id>', -1);
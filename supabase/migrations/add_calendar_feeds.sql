@@ -0,0 +1,70 @@
+-- ============================================
+-- Migration: Calendar Feeds
+-- Purpose: Secret per-user URLs that serve a patient's dose schedule as an
+--          iCalendar (.ics) feed, so Google Calendar or Apple Calendar can
+--          subscribe and stay in sync when medications change
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- CALENDAR FEEDS TABLE
+-- ============================================
+-- One feed per subscriber and patient: patients subscribe to their own
+-- schedule, companions to a linked patient's. Whoever knows the token can
+-- read the feed, so it is long, random and can be reset.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Subscriber
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Whose schedule
+  token TEXT NOT NULL UNIQUE DEFAULT replace(uuid_generate_v4()::text || uuid_generate_v4()::text, '-', ''),
+  last_fetched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_patient ON public.calendar_feeds(patient_id);
+
+COMMENT ON TABLE public.calendar_feeds IS 'Secret iCalendar feed URLs for a patient''s dose schedule';
+COMMENT ON COLUMN public.calendar_feeds.token IS 'Secret in the feed URL (/api/calendar/<token>.ics); delete the row to revoke';
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can view their calendar feeds"
+  ON public.calendar_feeds
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can delete their calendar feeds"
+  ON public.calendar_feeds
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Patients can create a feed of their own schedule, companions one of a linked patient's
+DROP POLICY IF EXISTS "Users can create calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can create calendar feeds"
+  ON public.calendar_feeds
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      patient_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.patient_companions pc
+        WHERE pc.patient_id = calendar_feeds.patient_id
+        AND pc.companion_id = auth.uid()
+        AND pc.status = 'accepted'
+      )
+    )
+  );
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see who subscribes to a patient's schedule:
+-- SELECT f.user_id, p.name, f.created_at, f.last_fetched_at
+-- FROM public.calendar_feeds f
+-- JOIN public.profiles p ON p.id = f.user_id
+-- WHERE f.patient_id = '<patient-id>';
@@ -0,0 +1,46 @@
+-- ============================================
+-- Migration: Daily Routine and Dose Anchors
+-- Purpose: Store each user's wake, meal and sleep times so doses can be
+--          anchored to them (e.g., 30 minutes before breakfast, at bedtime)
+--          and kept out of the sleep window
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- DAILY ROUTINE (PROFILES)
+-- ============================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS wake_time TEXT NOT NULL DEFAULT '06:00',
+ADD COLUMN IF NOT EXISTS breakfast_time TEXT NOT NULL DEFAULT '07:00',
+ADD COLUMN IF NOT EXISTS lunch_time TEXT NOT NULL DEFAULT '12:00',
+ADD COLUMN IF NOT EXISTS dinner_time TEXT NOT NULL DEFAULT '18:00',
+ADD COLUMN IF NOT EXISTS sleep_time TEXT NOT NULL DEFAULT '22:00';
+
+COMMENT ON COLUMN public.profiles.wake_time IS 'Usual wake-up time (HH:mm, 24-hour); end of the sleep window';
+COMMENT ON COLUMN public.profiles.breakfast_time IS 'Usual breakfast time (HH:mm, 24-hour)';
+COMMENT ON COLUMN public.profiles.lunch_time IS 'Usual lunch time (HH:mm, 24-hour)';
+COMMENT ON COLUMN public.profiles.dinner_time IS 'Usual dinner time (HH:mm, 24-hour)';
+COMMENT ON COLUMN public.profiles.sleep_time IS 'Usual bedtime (HH:mm, 24-hour); start of the sleep window';
+
+-- ============================================
+-- DOSE ANCHORS (MEDICATIONS)
+-- ============================================
+
+-- Each anchor places one daily dose relative to a routine event:
+-- [{ "event": "breakfast", "offset_minutes": -30 }, { "event": "sleep", "offset_minutes": 0 }]
+-- NULL means doses are spread from start_time at fixed intervals
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS dose_anchors JSONB
+CHECK (dose_anchors IS NULL OR jsonb_typeof(dose_anchors) = 'array');
+
+COMMENT ON COLUMN public.medications.dose_anchors IS 'Routine anchors for each daily dose (event: wake/breakfast/lunch/dinner/sleep, offset_minutes: negative = before)';
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the columns were added:
+-- SELECT table_name, column_name, data_type
+-- FROM information_schema.columns
+-- WHERE (table_name = 'profiles' AND column_name LIKE '%\_time')
+-- OR (table_name = 'medications' AND column_name = 'dose_anchors');
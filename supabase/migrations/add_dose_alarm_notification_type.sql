@@ -0,0 +1,38 @@
+-- ============================================
+-- Migration: Add Dose Alarm Notification Type
+-- Purpose: Record background dose alarms pushed to patients, one row per
+--          alarm, so each dose instance rings once (and once per snooze)
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE public.notification_history
+DROP CONSTRAINT IF EXISTS notification_history_type_check;
+
+ALTER TABLE public.notification_history
+ADD CONSTRAINT notification_history_type_check
+CHECK (type IN (
+  'missed_medication',              -- Legacy/generic missed medication
+  'missed_medication_push_first',   -- First push notification (30 sec)
+  'missed_medication_push_second',  -- Second push notification (1 min)
+  'missed_medication_telegram',     -- Telegram notification (1.5 min)
+  'missed_medication_email',        -- Email notification (3 min)
+  'medication_reminder',            -- Upcoming dose reminder to patient
+  'dose_alarm',                     -- Dose due now, pushed to the patient's devices
+  'low_stock',                      -- Pill supply running low
+  'low_adherence',                  -- Low adherence warning
+  'daily_summary',                  -- Daily adherence summary
+  'link_request'                    -- Patient-companion link request
+));
+
+-- Alarm checks look up today's alarms by medication every minute
+CREATE INDEX IF NOT EXISTS idx_notification_history_medication_type_sent
+  ON public.notification_history(medication_id, type, sent_at);
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see today's dose alarms:
+-- SELECT patient_id, medication_id, scheduled_time, sent_at
+-- FROM public.notification_history
+-- WHERE type = 'dose_alarm' AND sent_at > NOW() - INTERVAL '1 day'
+-- ORDER BY sent_at DESC;
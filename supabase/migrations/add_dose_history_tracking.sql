@@ -0,0 +1,29 @@
+-- ============================================
+-- Migration: Dose History Tracking
+-- Purpose: Record every dose outcome (taken, missed, skipped) per day
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- ONE ROW PER DOSE PER DAY
+-- ============================================
+-- The app upserts into dose_history whenever a dose changes state, and the
+-- nightly close-out job marks anything still untaken as missed. The unique
+-- index lets both paths target the same row for a given dose instance.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dose_history_instance
+  ON public.dose_history(medication_id, scheduled_date, scheduled_time);
+
+-- Composite index for per-patient date range queries
+CREATE INDEX IF NOT EXISTS idx_dose_history_user_date
+  ON public.dose_history(user_id, scheduled_date);
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to check what a patient took on a given day:
+-- SELECT m.name, dh.scheduled_time, dh.status, dh.taken_at
+-- FROM public.dose_history dh
+-- JOIN public.medications m ON m.id = dh.medication_id
+-- WHERE dh.user_id = '<patient-id>' AND dh.scheduled_date = '2024-01-02'
+-- ORDER BY dh.scheduled_time;
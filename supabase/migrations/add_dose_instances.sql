@@ -0,0 +1,93 @@
+-- ============================================
+-- Migration: Per-Date Dose Instances
+-- Purpose: Make dose_history the one record of every dose on every date.
+--          Each row is a dose instance (medication, date, time) with its own
+--          status, taken_at and the person who last changed it. Instances
+--          are generated from medication schedules, so the taken flags on
+--          schedule_doses and medications no longer need a daily reset.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- ACTOR AND LAST CHANGE (DOSE INSTANCES)
+-- ============================================
+
+ALTER TABLE public.dose_history
+ADD COLUMN IF NOT EXISTS actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+COMMENT ON TABLE public.dose_history IS 'One row per dose instance (medication, date, time), generated from the schedule and updated as the dose is taken, skipped or missed';
+COMMENT ON COLUMN public.dose_history.actor_id IS 'Who last set the status (patient or companion); null when set by the server';
+COMMENT ON COLUMN public.dose_history.updated_at IS 'When the status last changed; used to settle changes made offline';
+
+DROP TRIGGER IF EXISTS set_dose_history_updated_at ON public.dose_history;
+CREATE TRIGGER set_dose_history_updated_at
+  BEFORE UPDATE ON public.dose_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- CARRY OVER TODAY'S TAKEN FLAGS
+-- ============================================
+-- Doses marked taken before this migration become taken instances on the
+-- patient's calendar day, then the old flags are cleared for good
+
+INSERT INTO public.dose_history (user_id, medication_id, dose_id, scheduled_time, scheduled_date, status, taken_at, actor_id)
+SELECT m.user_id, m.id, sd.id, sd.time,
+       (sd.taken_at AT TIME ZONE COALESCE(p.timezone, 'Asia/Manila'))::date,
+       'taken', sd.taken_at, m.user_id
+FROM public.schedule_doses sd
+JOIN public.medications m ON m.id = sd.medication_id
+LEFT JOIN public.profiles p ON p.id = m.user_id
+WHERE sd.taken = TRUE AND sd.taken_at IS NOT NULL
+ON CONFLICT (medication_id, scheduled_date, scheduled_time) DO UPDATE
+  SET status = 'taken', taken_at = EXCLUDED.taken_at
+  WHERE public.dose_history.status IN ('pending', 'missed');
+
+INSERT INTO public.dose_history (user_id, medication_id, dose_id, scheduled_time, scheduled_date, status, taken_at, actor_id)
+SELECT m.user_id, m.id, NULL, COALESCE(m.time, m.start_time),
+       (m.taken_at AT TIME ZONE COALESCE(p.timezone, 'Asia/Manila'))::date,
+       'taken', m.taken_at, m.user_id
+FROM public.medications m
+LEFT JOIN public.profiles p ON p.id = m.user_id
+WHERE m.taken = TRUE AND m.taken_at IS NOT NULL
+  AND COALESCE(m.time, m.start_time) IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.schedule_doses sd WHERE sd.medication_id = m.id)
+ON CONFLICT (medication_id, scheduled_date, scheduled_time) DO UPDATE
+  SET status = 'taken', taken_at = EXCLUDED.taken_at
+  WHERE public.dose_history.status IN ('pending', 'missed');
+
+UPDATE public.schedule_doses SET taken = FALSE, taken_at = NULL WHERE taken = TRUE;
+UPDATE public.medications SET taken = FALSE, taken_at = NULL WHERE taken = TRUE;
+
+COMMENT ON COLUMN public.schedule_doses.taken IS 'Deprecated: dose status lives in dose_history, per date';
+COMMENT ON COLUMN public.medications.taken IS 'Deprecated: dose status lives in dose_history, per date';
+
+-- ============================================
+-- REALTIME
+-- ============================================
+-- Broadcast dose changes so the patient's other devices and their
+-- companions see a dose marked the moment it happens
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'dose_history'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.dose_history;
+  END IF;
+END $$;
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see today's dose instances and who marked them:
+-- SELECT m.name, dh.scheduled_time, dh.status, dh.taken_at, pr.name AS marked_by
+-- FROM public.dose_history dh
+-- JOIN public.medications m ON m.id = dh.medication_id
+-- LEFT JOIN public.profiles pr ON pr.id = dh.actor_id
+-- WHERE dh.scheduled_date = CURRENT_DATE
+-- ORDER BY dh.scheduled_time;
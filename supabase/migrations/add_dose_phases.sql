@@ -0,0 +1,29 @@
+-- ============================================
+-- Migration: Taper / Step-Dose Regimens
+-- Purpose: Let a medication hold an ordered list of dose phases,
+--          each with its own date range, dosage and frequency
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- DOSE PHASES COLUMN
+-- ============================================
+-- JSON array ordered by start_date, e.g.
+-- [{"id": "...", "start_date": "2025-01-01", "end_date": "2025-01-03",
+--   "dosage": "40mg", "frequency": "once_daily", "custom_frequency": null}]
+-- NULL for medications with a single fixed dose
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS dose_phases JSONB
+CHECK (dose_phases IS NULL OR jsonb_typeof(dose_phases) = 'array');
+
+COMMENT ON COLUMN public.medications.dose_phases IS 'Ordered taper/titration phases; dosage and frequency mirror the current phase';
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the column was added:
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'medications'
+-- AND column_name = 'dose_phases';
@@ -0,0 +1,59 @@
+-- ============================================
+-- Migration: Skipped Doses with Reasons
+-- Purpose: Let patients and companions mark a dose as deliberately skipped
+--          (with a reason and free-text notes) instead of leaving it missed
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- SKIP REASON (DOSE HISTORY)
+-- ============================================
+-- Skipped doses use status = 'skipped'; the reason says why. Free-text notes
+-- go in the existing notes column and may be set on any dose (taken or skipped).
+
+ALTER TABLE public.dose_history
+ADD COLUMN IF NOT EXISTS skip_reason TEXT
+  CHECK (skip_reason IN ('nausea', 'out_of_stock', 'doctor_advised', 'fasting', 'other'));
+
+COMMENT ON COLUMN public.dose_history.skip_reason IS 'Why a skipped dose was skipped (null unless status = skipped)';
+
+-- ============================================
+-- COMPANION ACCESS
+-- ============================================
+-- Companions can skip a dose or leave a note for their linked patients
+
+DROP POLICY IF EXISTS "Companions can record linked patient history" ON public.dose_history;
+CREATE POLICY "Companions can record linked patient history"
+  ON public.dose_history
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Companions can update linked patient history" ON public.dose_history;
+CREATE POLICY "Companions can update linked patient history"
+  ON public.dose_history
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = dose_history.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see a patient's skipped doses and why:
+-- SELECT m.name, dh.scheduled_date, dh.scheduled_time, dh.skip_reason, dh.notes
+-- FROM public.dose_history dh
+-- JOIN public.medications m ON m.id = dh.medication_id
+-- WHERE dh.user_id = '<patient-id>' AND dh.status = 'skipped'
+-- ORDER BY dh.scheduled_date DESC;
@@ -0,0 +1,99 @@
+-- ============================================
+-- Migration: Persistent Dose Snoozes
+-- Purpose: Store alarm snoozes per dose instance so they survive reloads,
+--          sync to all of a patient's devices, and hold back server
+--          reminders and companion missed-dose alerts until they end
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- SNOOZE SETTINGS (PROFILES)
+-- ============================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS snooze_minutes INTEGER NOT NULL DEFAULT 10
+  CHECK (snooze_minutes BETWEEN 1 AND 120),
+ADD COLUMN IF NOT EXISTS max_snoozes INTEGER NOT NULL DEFAULT 3
+  CHECK (max_snoozes BETWEEN 0 AND 10);
+
+COMMENT ON COLUMN public.profiles.snooze_minutes IS 'How long one alarm snooze lasts (minutes)';
+COMMENT ON COLUMN public.profiles.max_snoozes IS 'How many times a single dose can be snoozed (0 = snoozing off)';
+
+-- ============================================
+-- DOSE SNOOZES TABLE
+-- ============================================
+-- One row per dose instance (medication, patient-local date, scheduled time);
+-- snoozing again moves snooze_until and bumps snooze_count
+
+CREATE TABLE IF NOT EXISTS public.dose_snoozes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  dose_id UUID REFERENCES public.schedule_doses(id) ON DELETE SET NULL,
+  scheduled_date DATE NOT NULL, -- Patient's local calendar date
+  scheduled_time TEXT NOT NULL, -- Same format as medications.time / schedule_doses.time
+  snooze_until TIMESTAMPTZ NOT NULL,
+  snooze_count INTEGER NOT NULL DEFAULT 1 CHECK (snooze_count > 0),
+  reminded_at TIMESTAMPTZ, -- When the server re-reminded the patient after this snooze ended
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (medication_id, scheduled_date, scheduled_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dose_snoozes_user_date ON public.dose_snoozes(user_id, scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_dose_snoozes_medication ON public.dose_snoozes(medication_id);
+
+ALTER TABLE public.dose_snoozes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their dose snoozes" ON public.dose_snoozes;
+CREATE POLICY "Users can manage their dose snoozes"
+  ON public.dose_snoozes
+  FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Companions can see when a linked patient has snoozed a dose
+DROP POLICY IF EXISTS "Companions can view linked patient snoozes" ON public.dose_snoozes;
+CREATE POLICY "Companions can view linked patient snoozes"
+  ON public.dose_snoozes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = dose_snoozes.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP TRIGGER IF EXISTS set_dose_snoozes_updated_at ON public.dose_snoozes;
+CREATE TRIGGER set_dose_snoozes_updated_at
+  BEFORE UPDATE ON public.dose_snoozes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- REALTIME
+-- ============================================
+-- Broadcast snooze changes so every open device picks them up
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'dose_snoozes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.dose_snoozes;
+  END IF;
+END $$;
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see today's snoozed doses:
+-- SELECT m.name, ds.scheduled_time, ds.snooze_until, ds.snooze_count
+-- FROM public.dose_snoozes ds
+-- JOIN public.medications m ON m.id = ds.medication_id
+-- WHERE ds.scheduled_date = CURRENT_DATE
+-- ORDER BY ds.snooze_until;
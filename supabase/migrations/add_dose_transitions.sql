@@ -0,0 +1,100 @@
+-- ============================================
+-- Migration: Dose Transitions
+-- Purpose: Keep every status change of every dose instance as its own dated
+--          row. dose_history holds one row per instance with its current
+--          status, so undoing a dose (taken -> pending) overwrote the earlier
+--          "taken"; the transitions keep that history
+-- Requires: add_dose_instances.sql (adds dose_history.actor_id)
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- DOSE TRANSITIONS TABLE
+-- ============================================
+-- Rows are written only by the trigger below; there are no insert, update
+-- or delete policies, so clients can read transitions but never change them
+
+CREATE TABLE IF NOT EXISTS public.dose_transitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dose_history_id UUID REFERENCES public.dose_history(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE CASCADE,
+  scheduled_date DATE NOT NULL,
+  scheduled_time TEXT NOT NULL,
+  from_status TEXT CHECK (from_status IN ('pending', 'taken', 'missed', 'skipped')), -- NULL for the first status
+  to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'taken', 'missed', 'skipped')),
+  taken_at TIMESTAMPTZ,
+  skip_reason TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for server jobs
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dose_transitions_user_date ON public.dose_transitions(user_id, scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_dose_transitions_medication ON public.dose_transitions(medication_id, scheduled_date);
+
+ALTER TABLE public.dose_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own dose transitions" ON public.dose_transitions;
+CREATE POLICY "Users can view own dose transitions"
+  ON public.dose_transitions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Companions can view linked patient dose transitions" ON public.dose_transitions;
+CREATE POLICY "Companions can view linked patient dose transitions"
+  ON public.dose_transitions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = dose_transitions.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- TRANSITION TRIGGER
+-- ============================================
+-- Fires on every write to a dose instance (app, offline sync, push actions
+-- and the server's nightly close-out), so no path can skip the history.
+-- The signed-in user is the actor; actor_id is only trusted for server
+-- (service role) writes, which have no user, so clients can't name someone else
+
+CREATE OR REPLACE FUNCTION public.record_dose_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END;
+BEGIN
+  IF v_before IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.dose_transitions (
+    dose_history_id, user_id, medication_id, scheduled_date, scheduled_time,
+    from_status, to_status, taken_at, skip_reason, actor_id
+  )
+  VALUES (
+    NEW.id, NEW.user_id, NEW.medication_id, NEW.scheduled_date, NEW.scheduled_time,
+    v_before, NEW.status, NEW.taken_at, NEW.skip_reason, COALESCE(auth.uid(), NEW.actor_id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_dose_history_transition ON public.dose_history;
+CREATE TRIGGER record_dose_history_transition
+  AFTER INSERT OR UPDATE OF status ON public.dose_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_dose_transition();
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see everything that happened to a patient's doses on a day:
+-- SELECT m.name, dt.scheduled_time, dt.from_status, dt.to_status, dt.changed_at, pr.name AS changed_by
+-- FROM public.dose_transitions dt
+-- JOIN public.medications m ON m.id = dt.medication_id
+-- LEFT JOIN public.profiles pr ON pr.id = dt.actor_id
+-- WHERE dt.user_id = '<patient-id>' AND dt.scheduled_date = '2024-01-02'
+-- ORDER BY dt.changed_at;
@@ -0,0 +1,55 @@
+-- ============================================
+-- Migration: Weekday and On/Off Cycle Frequencies
+-- Purpose: Allow medications taken on chosen weekdays only (e.g., Mon/Wed/Fri)
+--          or on a repeating cycle (e.g., 21 days on, 7 days off)
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- NEW FREQUENCY VALUES
+-- ============================================
+
+ALTER TABLE public.medications
+DROP CONSTRAINT IF EXISTS medications_frequency_check;
+
+ALTER TABLE public.medications
+ADD CONSTRAINT medications_frequency_check
+CHECK (frequency IN (
+  'once_daily',
+  'twice_daily',
+  'three_times_daily',
+  'four_times_daily',
+  'every_other_day',
+  'weekly',
+  'specific_days',   -- Only on the weekdays in days_of_week
+  'cycle',           -- cycle_days_on days on, then cycle_days_off days off, from start_date
+  'as_needed',
+  'custom'
+));
+
+-- ============================================
+-- PATTERN COLUMNS
+-- ============================================
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS days_of_week SMALLINT[]
+CHECK (days_of_week IS NULL OR days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS cycle_days_on SMALLINT CHECK (cycle_days_on IS NULL OR cycle_days_on > 0);
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS cycle_days_off SMALLINT CHECK (cycle_days_off IS NULL OR cycle_days_off >= 0);
+
+COMMENT ON COLUMN public.medications.days_of_week IS 'Weekdays to take a specific_days medication (0 = Sunday ... 6 = Saturday)';
+COMMENT ON COLUMN public.medications.cycle_days_on IS 'Days taken in each cycle, counted from start_date';
+COMMENT ON COLUMN public.medications.cycle_days_off IS 'Days off after each run of cycle_days_on';
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the columns were added:
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'medications'
+-- AND column_name IN ('days_of_week', 'cycle_days_on', 'cycle_days_off');
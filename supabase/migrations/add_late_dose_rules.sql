@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Late-Dose Rules
+-- Purpose: Store what the label or pharmacist says to do when a dose is
+--          taken late, so the app can advise "take now" or "skip"
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- LATE-DOSE RULES (MEDICATIONS)
+-- ============================================
+-- 'auto'                 Take it if less than halfway to the next dose, otherwise skip
+-- 'take_when_remembered' Take it as soon as remembered (never with the next dose)
+-- 'skip_missed'          Skip a late dose and wait for the next one
+-- 'cutoff'               Take it up to late_dose_cutoff_minutes late, otherwise skip
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS late_dose_rule TEXT NOT NULL DEFAULT 'auto'
+  CHECK (late_dose_rule IN ('auto', 'take_when_remembered', 'skip_missed', 'cutoff'));
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS late_dose_cutoff_minutes INTEGER
+  CHECK (late_dose_cutoff_minutes IS NULL OR late_dose_cutoff_minutes > 0);
+
+COMMENT ON COLUMN public.medications.late_dose_rule IS 'What to do with a late dose: auto (halfway rule), take_when_remembered, skip_missed or cutoff';
+COMMENT ON COLUMN public.medications.late_dose_cutoff_minutes IS 'For the cutoff rule: latest a dose may still be taken (minutes after its time)';
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see medications with a label or pharmacist rule:
+-- SELECT name, frequency, late_dose_rule, late_dose_cutoff_minutes
+-- FROM public.medications
+-- WHERE late_dose_rule <> 'auto';
@@ -0,0 +1,313 @@
+-- ============================================
+-- Migration: Medication Audit Log
+-- Purpose: Keep an append-only record of who created, edited, deactivated
+--          or marked doses of a medication (patient, companion or system),
+--          with before/after values for every changed field and dose time
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- MEDICATION AUDIT LOG TABLE
+-- ============================================
+-- Rows are written only by the triggers below; there are no insert, update
+-- or delete policies, so clients can read the log but never change it
+
+CREATE TABLE IF NOT EXISTS public.medication_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE SET NULL,
+  medication_name TEXT NOT NULL, -- Kept so entries still read well after a delete
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for server jobs
+  actor_name TEXT, -- Name at the time of the change
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('patient', 'companion', 'system')),
+  action TEXT NOT NULL CHECK (action IN (
+    'create', 'update', 'deactivate', 'reactivate', 'delete',
+    'dose_taken', 'dose_untaken', 'dose_skipped'
+  )),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb, -- { field: { "before": ..., "after": ... } }
+  scheduled_date DATE, -- Dose actions only
+  scheduled_time TEXT, -- Dose actions only
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_audit_log_patient ON public.medication_audit_log(patient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_medication_audit_log_medication ON public.medication_audit_log(medication_id, created_at DESC);
+
+ALTER TABLE public.medication_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Patients can view their medication audit log" ON public.medication_audit_log;
+CREATE POLICY "Patients can view their medication audit log"
+  ON public.medication_audit_log
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Companions can view linked patient audit log" ON public.medication_audit_log;
+CREATE POLICY "Companions can view linked patient audit log"
+  ON public.medication_audit_log
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = medication_audit_log.patient_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- AUDIT FUNCTIONS
+-- ============================================
+
+-- Append one entry, attributing it to the signed-in user. Server (service
+-- role) writes have no user, so they pass who they acted for (p_actor_id,
+-- e.g. the patient who tapped "Taken" on a push)
+-- The earlier version without p_actor_id is dropped so calls aren't ambiguous
+DROP FUNCTION IF EXISTS public.write_medication_audit(UUID, UUID, TEXT, TEXT, JSONB, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.write_medication_audit(
+  p_patient_id UUID,
+  p_medication_id UUID,
+  p_medication_name TEXT,
+  p_action TEXT,
+  p_changes JSONB,
+  p_scheduled_date DATE DEFAULT NULL,
+  p_scheduled_time TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), p_actor_id);
+  v_role TEXT := 'system';
+  v_name TEXT;
+BEGIN
+  IF v_actor IS NOT NULL THEN
+    SELECT name INTO v_name FROM public.profiles WHERE id = v_actor;
+    IF v_actor = p_patient_id THEN
+      v_role := 'patient';
+    ELSIF EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = p_patient_id
+      AND pc.companion_id = v_actor
+      AND pc.status = 'accepted'
+    ) THEN
+      v_role := 'companion';
+    END IF;
+  END IF;
+
+  INSERT INTO public.medication_audit_log (
+    patient_id, medication_id, medication_name, actor_id, actor_name, actor_role,
+    action, changes, scheduled_date, scheduled_time
+  )
+  VALUES (
+    p_patient_id, p_medication_id, p_medication_name, v_actor, v_name, v_role,
+    p_action, COALESCE(p_changes, '{}'::jsonb), p_scheduled_date, p_scheduled_time
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Medication rows: creates, edits, deactivations and deletes
+-- Taken flags, inventory counts and timestamps change on every dose, and the
+-- photo is too large to copy, so they are left out of the diff
+CREATE OR REPLACE FUNCTION public.audit_medication_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ignored TEXT[] := ARRAY['id', 'user_id', 'taken', 'taken_at', 'pills_on_hand', 'image_url', 'created_at', 'updated_at'];
+  v_old JSONB;
+  v_new JSONB;
+  v_changes JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_action TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Nothing to record when the whole account is being deleted
+    IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+      RETURN OLD;
+    END IF;
+    PERFORM public.write_medication_audit(OLD.user_id, NULL, OLD.name, 'delete', '{}'::jsonb);
+    RETURN OLD;
+  END IF;
+
+  v_new := to_jsonb(NEW);
+  v_old := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+
+  FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+    CONTINUE WHEN v_key = ANY(v_ignored);
+    CONTINUE WHEN TG_OP = 'INSERT' AND v_new -> v_key = 'null'::jsonb;
+    IF (v_old -> v_key) IS DISTINCT FROM (v_new -> v_key) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_key,
+        jsonb_build_object('before', COALESCE(v_old -> v_key, 'null'::jsonb), 'after', v_new -> v_key)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'create';
+  ELSIF v_changes = '{}'::jsonb THEN
+    RETURN NEW; -- Only ignored fields changed (e.g. a dose was taken)
+  ELSIF COALESCE(OLD.is_active, TRUE) AND NEW.is_active = FALSE THEN
+    v_action := 'deactivate';
+  ELSIF OLD.is_active = FALSE AND COALESCE(NEW.is_active, TRUE) THEN
+    v_action := 'reactivate';
+  ELSE
+    v_action := 'update';
+  END IF;
+
+  PERFORM public.write_medication_audit(NEW.user_id, NEW.id, NEW.name, v_action, v_changes);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Dose status changes, from the dose history every toggle and skip writes to
+-- Doses recorded as missed by the daily reset are not someone's action
+CREATE OR REPLACE FUNCTION public.audit_dose_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END;
+  v_name TEXT;
+BEGIN
+  IF NEW.status = 'missed' OR v_before IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+  -- A new pending row is a no-op toggle, not an untake
+  IF TG_OP = 'INSERT' AND NEW.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_name FROM public.medications WHERE id = NEW.medication_id;
+
+  PERFORM public.write_medication_audit(
+    NEW.user_id,
+    NEW.medication_id,
+    COALESCE(v_name, 'Medication'),
+    CASE NEW.status
+      WHEN 'taken' THEN 'dose_taken'
+      WHEN 'skipped' THEN 'dose_skipped'
+      ELSE 'dose_untaken'
+    END,
+    jsonb_build_object('status', jsonb_build_object('before', v_before, 'after', NEW.status))
+      || CASE WHEN NEW.skip_reason IS NOT NULL
+           THEN jsonb_build_object('skip_reason', jsonb_build_object('before', NULL, 'after', NEW.skip_reason))
+           ELSE '{}'::jsonb
+         END,
+    NEW.scheduled_date,
+    NEW.scheduled_time,
+    NEW.actor_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Dose times, which live in schedule_doses. An edit replaces a medication's
+-- doses (delete, then insert), so this runs once per statement and records
+-- each medication's full list of times before and after it
+CREATE OR REPLACE FUNCTION public.audit_schedule_dose_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_med RECORD;
+  v_medication_ids UUID[];
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    SELECT array_agg(DISTINCT medication_id) INTO v_medication_ids FROM old_doses;
+  ELSE
+    SELECT array_agg(DISTINCT medication_id) INTO v_medication_ids FROM new_doses;
+  END IF;
+
+  -- Doses removed along with their medication are covered by its 'delete' entry
+  FOR v_med IN
+    SELECT id, user_id, name FROM public.medications WHERE id = ANY(v_medication_ids)
+  LOOP
+    SELECT COALESCE(jsonb_agg(sd.time ORDER BY sd.time), '[]'::jsonb) INTO v_after
+    FROM public.schedule_doses sd
+    WHERE sd.medication_id = v_med.id;
+
+    -- Before = what's there now, with this statement's rows put back
+    IF TG_OP = 'INSERT' THEN
+      SELECT COALESCE(jsonb_agg(sd.time ORDER BY sd.time), '[]'::jsonb) INTO v_before
+      FROM public.schedule_doses sd
+      WHERE sd.medication_id = v_med.id
+      AND sd.id NOT IN (SELECT id FROM new_doses);
+    ELSIF TG_OP = 'DELETE' THEN
+      SELECT COALESCE(jsonb_agg(t.time ORDER BY t.time), '[]'::jsonb) INTO v_before
+      FROM (
+        SELECT time FROM public.schedule_doses WHERE medication_id = v_med.id
+        UNION ALL
+        SELECT time FROM old_doses WHERE medication_id = v_med.id
+      ) t;
+    ELSE
+      SELECT COALESCE(jsonb_agg(t.time ORDER BY t.time), '[]'::jsonb) INTO v_before
+      FROM (
+        SELECT time FROM public.schedule_doses
+        WHERE medication_id = v_med.id AND id NOT IN (SELECT id FROM new_doses)
+        UNION ALL
+        SELECT time FROM old_doses WHERE medication_id = v_med.id
+      ) t;
+    END IF;
+
+    CONTINUE WHEN v_before = v_after; -- Only labels or order changed
+
+    PERFORM public.write_medication_audit(
+      v_med.user_id,
+      v_med.id,
+      v_med.name,
+      'update',
+      jsonb_build_object('dose_times', jsonb_build_object('before', v_before, 'after', v_after))
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS audit_medications_change ON public.medications;
+CREATE TRIGGER audit_medications_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.medications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_medication_change();
+
+DROP TRIGGER IF EXISTS audit_dose_history_status ON public.dose_history;
+CREATE TRIGGER audit_dose_history_status
+  AFTER INSERT OR UPDATE OF status ON public.dose_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_dose_status_change();
+
+-- Transition tables need one trigger per operation
+DROP TRIGGER IF EXISTS audit_schedule_doses_insert ON public.schedule_doses;
+CREATE TRIGGER audit_schedule_doses_insert
+  AFTER INSERT ON public.schedule_doses
+  REFERENCING NEW TABLE AS new_doses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_schedule_dose_change();
+
+DROP TRIGGER IF EXISTS audit_schedule_doses_update ON public.schedule_doses;
+CREATE TRIGGER audit_schedule_doses_update
+  AFTER UPDATE ON public.schedule_doses
+  REFERENCING OLD TABLE AS old_doses NEW TABLE AS new_doses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_schedule_dose_change();
+
+DROP TRIGGER IF EXISTS audit_schedule_doses_delete ON public.schedule_doses;
+CREATE TRIGGER audit_schedule_doses_delete
+  AFTER DELETE ON public.schedule_doses
+  REFERENCING OLD TABLE AS old_doses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_schedule_dose_change();
+
+-- The audit helper is only for the triggers
+REVOKE EXECUTE ON FUNCTION public.write_medication_audit(UUID, UUID, TEXT, TEXT, JSONB, DATE, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see the latest changes to a patient's medications:
+-- SELECT created_at, medication_name, actor_name, actor_role, action, changes
+-- FROM public.medication_audit_log
+-- WHERE patient_id = '<patient-id>'
+-- ORDER BY created_at DESC
+-- LIMIT 20;
@@ -0,0 +1,55 @@
+-- ============================================
+-- Migration: Medication Archive and Prescription Renewals
+-- Purpose: Record when and why a medication ended (course completed,
+--          stopped, or renewed) so past medications can be listed, and link
+--          a renewed course to the earlier ones so adherence history carries
+--          across renewals
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- COURSE COLUMNS (MEDICATIONS)
+-- ============================================
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS end_reason TEXT
+  CHECK (end_reason IS NULL OR end_reason IN ('completed', 'stopped', 'renewed'));
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS previous_course_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.medications.ended_at IS 'When the medication was archived (NULL while active)';
+COMMENT ON COLUMN public.medications.end_reason IS 'Why it ended: completed (end date passed), stopped (removed by patient or companion), renewed (replaced by a new course)';
+COMMENT ON COLUMN public.medications.previous_course_ids IS 'Earlier courses of the same prescription, oldest first; their dose history counts toward this one';
+
+-- Archive lists are per patient, newest first
+CREATE INDEX IF NOT EXISTS idx_medications_user_ended ON public.medications(user_id, ended_at DESC)
+  WHERE is_active = FALSE;
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+-- Medications archived before this migration: use the last update as the end
+
+UPDATE public.medications
+SET
+  ended_at = updated_at,
+  end_reason = CASE
+    WHEN end_date IS NOT NULL AND end_date < updated_at::date THEN 'completed'
+    ELSE 'stopped'
+  END
+WHERE is_active = FALSE
+AND ended_at IS NULL;
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see a patient's archive and renewals:
+-- SELECT name, dosage, start_date, end_date, ended_at, end_reason,
+--        cardinality(previous_course_ids) AS earlier_courses
+-- FROM public.medications
+-- WHERE user_id = '<patient-id>' AND (is_active = FALSE OR cardinality(previous_course_ids) > 0)
+-- ORDER BY ended_at DESC NULLS FIRST;
@@ -0,0 +1,54 @@
+-- ============================================
+-- Migration: Notification Actions
+-- Purpose: Let companions call a patient straight from a missed-dose alert
+--          (patient phone number) and record when they acknowledge one,
+--          which stops further escalation to them
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- PHONE NUMBER (PROFILES)
+-- ============================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS phone TEXT;
+
+COMMENT ON COLUMN public.profiles.phone IS 'Phone number companions can call from a missed-dose alert';
+
+-- ============================================
+-- ACKNOWLEDGED NOTIFICATION TYPE
+-- ============================================
+
+ALTER TABLE public.notification_history
+DROP CONSTRAINT IF EXISTS notification_history_type_check;
+
+ALTER TABLE public.notification_history
+ADD CONSTRAINT notification_history_type_check
+CHECK (type IN (
+  'missed_medication',              -- Legacy/generic missed medication
+  'missed_medication_push_first',   -- First push notification (30 sec)
+  'missed_medication_push_second',  -- Second push notification (1 min)
+  'missed_medication_telegram',     -- Telegram notification (1.5 min)
+  'missed_medication_email',        -- Email notification (3 min)
+  'missed_medication_acknowledged', -- Companion acknowledged the alert; no further escalation
+  'medication_reminder',            -- Upcoming dose reminder to patient
+  'dose_alarm',                     -- Dose due now, pushed to the patient's devices
+  'low_stock',                      -- Pill supply running low
+  'low_adherence',                  -- Low adherence warning
+  'daily_summary',                  -- Daily adherence summary
+  'link_request'                    -- Patient-companion link request
+));
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the column was added:
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'profiles' AND column_name = 'phone';
+--
+-- Run this to see today's acknowledgements:
+-- SELECT patient_id, companion_id, medication_id, scheduled_time, sent_at
+-- FROM public.notification_history
+-- WHERE type = 'missed_medication_acknowledged' AND sent_at > NOW() - INTERVAL '1 day'
+-- ORDER BY sent_at DESC;
@@ -0,0 +1,108 @@
+-- ============================================
+-- Migration: Pill Inventory Tracking
+-- Purpose: Track pills on hand per medication, log refill purchases,
+--          and allow low-stock reminders
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- MEDICATION INVENTORY COLUMNS
+-- ============================================
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS pills_on_hand NUMERIC CHECK (pills_on_hand IS NULL OR pills_on_hand >= 0);
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS pack_size INTEGER CHECK (pack_size IS NULL OR pack_size > 0);
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS pills_per_dose NUMERIC NOT NULL DEFAULT 1 CHECK (pills_per_dose > 0);
+
+COMMENT ON COLUMN public.medications.pills_on_hand IS 'Pills currently on hand (NULL when inventory is not tracked)';
+COMMENT ON COLUMN public.medications.pack_size IS 'Pills in one pack/bottle, used as the default refill amount';
+COMMENT ON COLUMN public.medications.pills_per_dose IS 'Pills consumed each time a dose is marked taken';
+
+-- ============================================
+-- REFILL LOG TABLE
+-- ============================================
+-- One row per refill purchase
+
+CREATE TABLE IF NOT EXISTS public.medication_refills (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  purchased_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_refills_medication ON public.medication_refills(medication_id);
+CREATE INDEX IF NOT EXISTS idx_medication_refills_user ON public.medication_refills(user_id);
+
+ALTER TABLE public.medication_refills ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their refills" ON public.medication_refills;
+CREATE POLICY "Users can manage their refills"
+  ON public.medication_refills
+  FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Companions can view and log refills for linked patients
+DROP POLICY IF EXISTS "Companions can view linked patient refills" ON public.medication_refills;
+CREATE POLICY "Companions can view linked patient refills"
+  ON public.medication_refills
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = medication_refills.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Companions can log linked patient refills" ON public.medication_refills;
+CREATE POLICY "Companions can log linked patient refills"
+  ON public.medication_refills
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = medication_refills.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- NOTIFICATION TYPE FOR LOW-STOCK REMINDERS
+-- ============================================
+
+ALTER TABLE public.notification_history
+DROP CONSTRAINT IF EXISTS notification_history_type_check;
+
+ALTER TABLE public.notification_history
+ADD CONSTRAINT notification_history_type_check
+CHECK (type IN (
+  'missed_medication',              -- Legacy/generic missed medication
+  'missed_medication_push_first',   -- First push notification (30 sec)
+  'missed_medication_push_second',  -- Second push notification (1 min)
+  'missed_medication_telegram',     -- Telegram notification (1.5 min)
+  'missed_medication_email',        -- Email notification (3 min)
+  'medication_reminder',            -- Upcoming dose reminder to patient
+  'low_stock',                      -- Pill supply running low
+  'low_adherence',                  -- Low adherence warning
+  'daily_summary',                  -- Daily adherence summary
+  'link_request'                    -- Patient-companion link request
+));
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the columns were added:
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'medications'
+-- AND column_name IN ('pills_on_hand', 'pack_size', 'pills_per_dose');
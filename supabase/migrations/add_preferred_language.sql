@@ -0,0 +1,25 @@
+-- ============================================
+-- Migration: Preferred Language
+-- Purpose: Keep the language a patient chose for AInay on their profile, so
+--          printed reports and companions' views can use it on any device
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- PREFERRED LANGUAGE (PROFILES)
+-- ============================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS preferred_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (preferred_language IN ('en', 'tl', 'ceb', 'ilo', 'hil', 'war', 'pam', 'bik'));
+
+COMMENT ON COLUMN public.profiles.preferred_language IS 'Language chosen for the assistant, briefings and printed reports (en, tl, ceb, ilo, hil, war, pam, bik)';
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the column was added:
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'profiles'
+-- AND column_name = 'preferred_language';
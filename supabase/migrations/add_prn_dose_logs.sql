@@ -0,0 +1,85 @@
+-- ============================================
+-- Migration: As-Needed (PRN) Dose Logging
+-- Purpose: Log every use of an as-needed medication (paracetamol, salbutamol...)
+--          and store safety limits: a minimum gap between doses and a
+--          maximum number of doses in any 24 hours
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- PRN LIMITS (MEDICATIONS)
+-- ============================================
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS prn_min_interval_minutes INTEGER
+  CHECK (prn_min_interval_minutes IS NULL OR prn_min_interval_minutes > 0);
+
+ALTER TABLE public.medications
+ADD COLUMN IF NOT EXISTS prn_max_daily_doses INTEGER
+  CHECK (prn_max_daily_doses IS NULL OR prn_max_daily_doses > 0);
+
+COMMENT ON COLUMN public.medications.prn_min_interval_minutes IS 'As-needed only: minimum minutes between doses (NULL = no limit)';
+COMMENT ON COLUMN public.medications.prn_max_daily_doses IS 'As-needed only: most doses allowed in any 24 hours (NULL = no limit)';
+
+-- ============================================
+-- PRN DOSE LOG TABLE
+-- ============================================
+-- One row per as-needed dose taken; there is no schedule to mark against
+
+CREATE TABLE IF NOT EXISTS public.prn_dose_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  taken_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT, -- e.g., "Headache", "Wheezing after stairs"
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prn_dose_logs_medication_taken ON public.prn_dose_logs(medication_id, taken_at);
+CREATE INDEX IF NOT EXISTS idx_prn_dose_logs_user_taken ON public.prn_dose_logs(user_id, taken_at);
+
+ALTER TABLE public.prn_dose_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their PRN doses" ON public.prn_dose_logs;
+CREATE POLICY "Users can manage their PRN doses"
+  ON public.prn_dose_logs
+  FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Companions can see usage patterns and log a dose they gave
+DROP POLICY IF EXISTS "Companions can view linked patient PRN doses" ON public.prn_dose_logs;
+CREATE POLICY "Companions can view linked patient PRN doses"
+  ON public.prn_dose_logs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = prn_dose_logs.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Companions can log linked patient PRN doses" ON public.prn_dose_logs;
+CREATE POLICY "Companions can log linked patient PRN doses"
+  ON public.prn_dose_logs
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = prn_dose_logs.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to see a patient's as-needed use over the last week:
+-- SELECT m.name, COUNT(*) AS doses, MAX(l.taken_at) AS last_taken
+-- FROM public.prn_dose_logs l
+-- JOIN public.medications m ON m.id = l.medication_id
+-- WHERE l.user_id = '<patient-id>' AND l.taken_at > NOW() - INTERVAL '7 days'
+-- GROUP BY m.name;
@@ -0,0 +1,37 @@
+-- ============================================
+-- Migration: Profile Time Zones and Travel Mode
+-- Purpose: Store an IANA time zone per profile so dose times ("08:00 AM"),
+--          "today", streaks and server alerts follow the patient's clock
+--          instead of the browser's or the server's
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- TIME ZONE AND TRAVEL MODE (PROFILES)
+-- ============================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS travel_mode TEXT NOT NULL DEFAULT 'keep'
+  CHECK (travel_mode IN ('shift', 'keep'));
+
+-- Stay on home time unless the patient chooses to follow the local clock,
+-- so opening the app abroad never rewrites the saved home time zone
+ALTER TABLE public.profiles ALTER COLUMN travel_mode SET DEFAULT 'keep';
+
+-- No default zone: the app saves the device's zone the first time the user
+-- signs in, so nobody is silently put on another country's clock
+ALTER TABLE public.profiles ALTER COLUMN timezone DROP NOT NULL;
+ALTER TABLE public.profiles ALTER COLUMN timezone DROP DEFAULT;
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA time zone (e.g., Asia/Manila) that dose times and dates are read in; NULL until the app records the device''s zone';
+COMMENT ON COLUMN public.profiles.travel_mode IS 'When the device changes time zone: shift = follow the local clock, keep = stay on home time';
+
+-- ============================================
+-- VERIFICATION QUERY
+-- ============================================
+-- Run this to verify the columns were added:
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'profiles'
+-- AND column_name IN ('timezone', 'travel_mode');
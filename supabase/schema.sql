@@ -17,7 +17,7 @@ EXCEPTION
 END $$;
 
 DO $$ BEGIN
-  CREATE TYPE frequency_type AS ENUM ('once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily', 'every_other_day', 'weekly', 'as_needed', 'custom');
+  CREATE TYPE frequency_type AS ENUM ('once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily', 'every_other_day', 'weekly', 'specific_days', 'cycle', 'as_needed', 'custom');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
@@ -51,6 +51,17 @@ CREATE TABLE IF NOT EXISTS public.profiles (
   name TEXT NOT NULL,
   role TEXT NOT NULL CHECK (role IN ('patient', 'companion')),
   link_code TEXT UNIQUE, -- Unique code for patients to share with companions
+  wake_time TEXT NOT NULL DEFAULT '06:00', -- Daily routine (HH:mm) for anchored doses; sleep window ends here
+  breakfast_time TEXT NOT NULL DEFAULT '07:00',
+  lunch_time TEXT NOT NULL DEFAULT '12:00',
+  dinner_time TEXT NOT NULL DEFAULT '18:00',
+  sleep_time TEXT NOT NULL DEFAULT '22:00', -- Sleep window starts here
+  timezone TEXT, -- IANA zone dose times and dates are read in (NULL until the app records the device's)
+  travel_mode TEXT NOT NULL DEFAULT 'keep' CHECK (travel_mode IN ('shift', 'keep')), -- shift = follow local clock, keep = stay on home time
+  preferred_language TEXT NOT NULL DEFAULT 'en' CHECK (preferred_language IN ('en', 'tl', 'ceb', 'ilo', 'hil', 'war', 'pam', 'bik')), -- Language for the assistant and printed reports
+  snooze_minutes INTEGER NOT NULL DEFAULT 10 CHECK (snooze_minutes BETWEEN 1 AND 120), -- Length of one alarm snooze
+  max_snoozes INTEGER NOT NULL DEFAULT 3 CHECK (max_snoozes BETWEEN 0 AND 10), -- Snoozes allowed per dose (0 = off)
+  phone TEXT, -- Companions can call this number from a missed-dose alert
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -210,8 +221,11 @@ CREATE TABLE IF NOT EXISTS public.medications (
   category TEXT NOT NULL DEFAULT 'medicine' CHECK (category IN ('medicine', 'vitamin', 'supplement', 'herbal', 'other')),
   instructions TEXT,
   image_url TEXT, -- Base64 or URL to medicine photo
-  frequency TEXT NOT NULL DEFAULT 'once_daily' CHECK (frequency IN ('once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily', 'every_other_day', 'weekly', 'as_needed', 'custom')),
+  frequency TEXT NOT NULL DEFAULT 'once_daily' CHECK (frequency IN ('once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily', 'every_other_day', 'weekly', 'specific_days', 'cycle', 'as_needed', 'custom')),
   custom_frequency INTEGER, -- Custom interval in hours
+  days_of_week SMALLINT[] CHECK (days_of_week IS NULL OR days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]), -- For specific_days (0 = Sunday)
+  cycle_days_on SMALLINT CHECK (cycle_days_on IS NULL OR cycle_days_on > 0), -- For cycle: days taken, from start_date
+  cycle_days_off SMALLINT CHECK (cycle_days_off IS NULL OR cycle_days_off >= 0), -- For cycle: days off after each run
   time_period TEXT DEFAULT 'ongoing', -- e.g., "7", "14", "30", "60", "90", "ongoing" (days or ongoing)
   start_date DATE DEFAULT CURRENT_DATE, -- When the prescription starts
   end_date DATE, -- When the prescription ends (NULL for ongoing)
@@ -219,9 +233,21 @@ CREATE TABLE IF NOT EXISTS public.medications (
   next_day_mode TEXT DEFAULT 'restart' CHECK (next_day_mode IN ('restart', 'continue')),
   interval_minutes INTEGER, -- Computed interval between doses
   is_active BOOLEAN DEFAULT TRUE,
+  ended_at TIMESTAMPTZ, -- When the medication was archived (NULL while active)
+  end_reason TEXT CHECK (end_reason IS NULL OR end_reason IN ('completed', 'stopped', 'renewed')), -- Why it was archived
+  previous_course_ids UUID[] NOT NULL DEFAULT '{}', -- Earlier courses of a renewed prescription, oldest first
+  pills_on_hand NUMERIC CHECK (pills_on_hand IS NULL OR pills_on_hand >= 0), -- NULL when inventory is not tracked
+  pack_size INTEGER CHECK (pack_size IS NULL OR pack_size > 0), -- Default refill amount
+  pills_per_dose NUMERIC NOT NULL DEFAULT 1 CHECK (pills_per_dose > 0),
+  prn_min_interval_minutes INTEGER CHECK (prn_min_interval_minutes IS NULL OR prn_min_interval_minutes > 0), -- As needed: minimum gap between doses
+  prn_max_daily_doses INTEGER CHECK (prn_max_daily_doses IS NULL OR prn_max_daily_doses > 0), -- As needed: most doses in any 24 hours
+  late_dose_rule TEXT NOT NULL DEFAULT 'auto' CHECK (late_dose_rule IN ('auto', 'take_when_remembered', 'skip_missed', 'cutoff')), -- What to do with a late dose (label/pharmacist)
+  late_dose_cutoff_minutes INTEGER CHECK (late_dose_cutoff_minutes IS NULL OR late_dose_cutoff_minutes > 0), -- For 'cutoff': latest a dose may still be taken
+  dose_phases JSONB CHECK (dose_phases IS NULL OR jsonb_typeof(dose_phases) = 'array'), -- Ordered taper phases (NULL for a fixed dose)
+  dose_anchors JSONB CHECK (dose_anchors IS NULL OR jsonb_typeof(dose_anchors) = 'array'), -- Routine anchors per dose (NULL for interval spacing)
   -- Legacy single-dose fields (for backward compatibility)
   time TEXT, -- Stored as string like "08:00 AM"
-  taken BOOLEAN DEFAULT FALSE,
+  taken BOOLEAN DEFAULT FALSE, -- Deprecated: dose status lives in dose_history, per date
   taken_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -230,6 +256,10 @@ CREATE TABLE IF NOT EXISTS public.medications (
 -- Index for faster queries by user
 CREATE INDEX IF NOT EXISTS idx_medications_user_id ON public.medications(user_id);
 
+-- Archive lists are per patient, newest first
+CREATE INDEX IF NOT EXISTS idx_medications_user_ended ON public.medications(user_id, ended_at DESC)
+  WHERE is_active = FALSE;
+
 -- Enable RLS
 ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
 
@@ -282,7 +312,7 @@ CREATE TABLE IF NOT EXISTS public.schedule_doses (
   medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
   time TEXT NOT NULL, -- Time of day like "08:00 AM"
   label TEXT NOT NULL DEFAULT 'Dose', -- e.g., "Morning", "Afternoon"
-  taken BOOLEAN DEFAULT FALSE,
+  taken BOOLEAN DEFAULT FALSE, -- Deprecated: dose status lives in dose_history, per date
   taken_at TIMESTAMPTZ,
   dose_order INTEGER DEFAULT 1, -- Order of dose in day (1, 2, 3...)
   created_at TIMESTAMPTZ DEFAULT NOW()
@@ -335,7 +365,9 @@ CREATE POLICY "Companions can view linked patient doses"
 -- ============================================
 -- DOSE HISTORY TABLE
 -- ============================================
--- Tracks historical dose-taking for adherence analytics
+-- One row per dose instance (medication, date, time): generated from the
+-- schedule, then marked taken, skipped or missed. The source of dose status
+-- for today as well as history and adherence analytics
 
 CREATE TABLE IF NOT EXISTS public.dose_history (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -347,12 +379,21 @@ CREATE TABLE IF NOT EXISTS public.dose_history (
   taken_at TIMESTAMPTZ,
   status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'taken', 'missed', 'skipped')),
   notes TEXT,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  skip_reason TEXT CHECK (skip_reason IN ('nausea', 'out_of_stock', 'doctor_advised', 'fasting', 'other')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Who last set the status (null = the server)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 CREATE INDEX IF NOT EXISTS idx_dose_history_user ON public.dose_history(user_id);
 CREATE INDEX IF NOT EXISTS idx_dose_history_medication ON public.dose_history(medication_id);
 CREATE INDEX IF NOT EXISTS idx_dose_history_date ON public.dose_history(scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_dose_history_user_date ON public.dose_history(user_id, scheduled_date);
+
+-- One row per dose instance per day (upserted on every status change;
+-- each change is also appended to dose_transitions)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dose_history_instance
+  ON public.dose_history(medication_id, scheduled_date, scheduled_time);
 
 ALTER TABLE public.dose_history ENABLE ROW LEVEL SECURITY;
 
@@ -376,6 +417,332 @@ CREATE POLICY "Companions can view linked patient history"
     )
   );
 
+-- Companions can skip a dose or leave a note for linked patients
+DROP POLICY IF EXISTS "Companions can record linked patient history" ON public.dose_history;
+CREATE POLICY "Companions can record linked patient history"
+  ON public.dose_history
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Companions can update linked patient history" ON public.dose_history;
+CREATE POLICY "Companions can update linked patient history"
+  ON public.dose_history
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = dose_history.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- DOSE TRANSITIONS TABLE
+-- ============================================
+-- Every status change of a dose instance, oldest first. dose_history keeps
+-- only the current status; rows here are written by a trigger on it and
+-- are never changed
+
+CREATE TABLE IF NOT EXISTS public.dose_transitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dose_history_id UUID REFERENCES public.dose_history(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE CASCADE,
+  scheduled_date DATE NOT NULL,
+  scheduled_time TEXT NOT NULL,
+  from_status TEXT CHECK (from_status IN ('pending', 'taken', 'missed', 'skipped')), -- NULL for the first status
+  to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'taken', 'missed', 'skipped')),
+  taken_at TIMESTAMPTZ,
+  skip_reason TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for server jobs
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dose_transitions_user_date ON public.dose_transitions(user_id, scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_dose_transitions_medication ON public.dose_transitions(medication_id, scheduled_date);
+
+ALTER TABLE public.dose_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own dose transitions" ON public.dose_transitions;
+CREATE POLICY "Users can view own dose transitions"
+  ON public.dose_transitions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Companions can view linked patient dose transitions" ON public.dose_transitions;
+CREATE POLICY "Companions can view linked patient dose transitions"
+  ON public.dose_transitions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = dose_transitions.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- PRN DOSE LOG TABLE
+-- ============================================
+-- One row per as-needed dose taken
+
+CREATE TABLE IF NOT EXISTS public.prn_dose_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  taken_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prn_dose_logs_medication_taken ON public.prn_dose_logs(medication_id, taken_at);
+CREATE INDEX IF NOT EXISTS idx_prn_dose_logs_user_taken ON public.prn_dose_logs(user_id, taken_at);
+
+ALTER TABLE public.prn_dose_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their PRN doses" ON public.prn_dose_logs;
+CREATE POLICY "Users can manage their PRN doses"
+  ON public.prn_dose_logs
+  FOR ALL
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Companions can view linked patient PRN doses" ON public.prn_dose_logs;
+CREATE POLICY "Companions can view linked patient PRN doses"
+  ON public.prn_dose_logs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = prn_dose_logs.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Companions can log linked patient PRN doses" ON public.prn_dose_logs;
+CREATE POLICY "Companions can log linked patient PRN doses"
+  ON public.prn_dose_logs
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = prn_dose_logs.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- DOSE SNOOZES TABLE
+-- ============================================
+-- One row per snoozed dose instance; synced to all of the patient's devices
+-- and honored by server reminders and companion missed-dose alerts
+
+CREATE TABLE IF NOT EXISTS public.dose_snoozes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  dose_id UUID REFERENCES public.schedule_doses(id) ON DELETE SET NULL,
+  scheduled_date DATE NOT NULL, -- Patient's local calendar date
+  scheduled_time TEXT NOT NULL,
+  snooze_until TIMESTAMPTZ NOT NULL,
+  snooze_count INTEGER NOT NULL DEFAULT 1 CHECK (snooze_count > 0),
+  reminded_at TIMESTAMPTZ, -- When the server re-reminded the patient after this snooze ended
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (medication_id, scheduled_date, scheduled_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dose_snoozes_user_date ON public.dose_snoozes(user_id, scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_dose_snoozes_medication ON public.dose_snoozes(medication_id);
+
+ALTER TABLE public.dose_snoozes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their dose snoozes" ON public.dose_snoozes;
+CREATE POLICY "Users can manage their dose snoozes"
+  ON public.dose_snoozes
+  FOR ALL
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Companions can view linked patient snoozes" ON public.dose_snoozes;
+CREATE POLICY "Companions can view linked patient snoozes"
+  ON public.dose_snoozes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = dose_snoozes.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- REFILL LOG TABLE
+-- ============================================
+-- One row per refill purchase
+
+CREATE TABLE IF NOT EXISTS public.medication_refills (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  purchased_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_refills_medication ON public.medication_refills(medication_id);
+CREATE INDEX IF NOT EXISTS idx_medication_refills_user ON public.medication_refills(user_id);
+
+ALTER TABLE public.medication_refills ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their refills" ON public.medication_refills;
+CREATE POLICY "Users can manage their refills"
+  ON public.medication_refills
+  FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Companions can view and log refills for linked patients
+DROP POLICY IF EXISTS "Companions can view linked patient refills" ON public.medication_refills;
+CREATE POLICY "Companions can view linked patient refills"
+  ON public.medication_refills
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = medication_refills.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Companions can log linked patient refills" ON public.medication_refills;
+CREATE POLICY "Companions can log linked patient refills"
+  ON public.medication_refills
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = medication_refills.user_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
+-- ============================================
+-- CALENDAR FEEDS TABLE
+-- ============================================
+-- One feed per subscriber and patient: patients subscribe to their own
+-- schedule, companions to a linked patient's. Whoever knows the token can
+-- read the feed, so it is long, random and can be reset.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Subscriber
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Whose schedule
+  token TEXT NOT NULL UNIQUE DEFAULT replace(uuid_generate_v4()::text || uuid_generate_v4()::text, '-', ''),
+  last_fetched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_patient ON public.calendar_feeds(patient_id);
+
+COMMENT ON TABLE public.calendar_feeds IS 'Secret iCalendar feed URLs for a patient''s dose schedule';
+COMMENT ON COLUMN public.calendar_feeds.token IS 'Secret in the feed URL (/api/calendar/<token>.ics); delete the row to revoke';
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can view their calendar feeds"
+  ON public.calendar_feeds
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can delete their calendar feeds"
+  ON public.calendar_feeds
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Patients can create a feed of their own schedule, companions one of a linked patient's
+DROP POLICY IF EXISTS "Users can create calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can create calendar feeds"
+  ON public.calendar_feeds
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      patient_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.patient_companions pc
+        WHERE pc.patient_id = calendar_feeds.patient_id
+        AND pc.companion_id = auth.uid()
+        AND pc.status = 'accepted'
+      )
+    )
+  );
+
+-- ============================================
+-- MEDICATION AUDIT LOG TABLE
+-- ============================================
+-- Rows are written only by the triggers below; there are no insert, update
+-- or delete policies, so clients can read the log but never change it
+
+CREATE TABLE IF NOT EXISTS public.medication_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE SET NULL,
+  medication_name TEXT NOT NULL, -- Kept so entries still read well after a delete
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for server jobs
+  actor_name TEXT, -- Name at the time of the change
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('patient', 'companion', 'system')),
+  action TEXT NOT NULL CHECK (action IN (
+    'create', 'update', 'deactivate', 'reactivate', 'delete',
+    'dose_taken', 'dose_untaken', 'dose_skipped'
+  )),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb, -- { field: { "before": ..., "after": ... } }
+  scheduled_date DATE, -- Dose actions only
+  scheduled_time TEXT, -- Dose actions only
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_audit_log_patient ON public.medication_audit_log(patient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_medication_audit_log_medication ON public.medication_audit_log(medication_id, created_at DESC);
+
+ALTER TABLE public.medication_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Patients can view their medication audit log" ON public.medication_audit_log;
+CREATE POLICY "Patients can view their medication audit log"
+  ON public.medication_audit_log
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Companions can view linked patient audit log" ON public.medication_audit_log;
+CREATE POLICY "Companions can view linked patient audit log"
+  ON public.medication_audit_log
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = medication_audit_log.patient_id
+      AND pc.companion_id = auth.uid()
+      AND pc.status = 'accepted'
+    )
+  );
+
 -- ============================================
 -- FUNCTIONS
 -- ============================================
@@ -403,6 +770,20 @@ CREATE TRIGGER set_medications_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION public.handle_updated_at();
 
+-- Trigger for dose snoozes
+DROP TRIGGER IF EXISTS set_dose_snoozes_updated_at ON public.dose_snoozes;
+CREATE TRIGGER set_dose_snoozes_updated_at
+  BEFORE UPDATE ON public.dose_snoozes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Trigger for dose instances
+DROP TRIGGER IF EXISTS set_dose_history_updated_at ON public.dose_history;
+CREATE TRIGGER set_dose_history_updated_at
+  BEFORE UPDATE ON public.dose_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
 -- Function to generate unique link code for patients
 CREATE OR REPLACE FUNCTION public.generate_link_code()
 RETURNS TEXT AS $$
@@ -455,6 +836,337 @@ CREATE TRIGGER on_auth_user_created
   FOR EACH ROW
   EXECUTE FUNCTION public.handle_new_user();
 
+-- ============================================
+-- MEDICATION AUDIT FUNCTIONS
+-- ============================================
+
+-- Append one entry, attributing it to the signed-in user. Server (service
+-- role) writes have no user, so they pass who they acted for (p_actor_id,
+-- e.g. the patient who tapped "Taken" on a push)
+-- The earlier version without p_actor_id is dropped so calls aren't ambiguous
+DROP FUNCTION IF EXISTS public.write_medication_audit(UUID, UUID, TEXT, TEXT, JSONB, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.write_medication_audit(
+  p_patient_id UUID,
+  p_medication_id UUID,
+  p_medication_name TEXT,
+  p_action TEXT,
+  p_changes JSONB,
+  p_scheduled_date DATE DEFAULT NULL,
+  p_scheduled_time TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), p_actor_id);
+  v_role TEXT := 'system';
+  v_name TEXT;
+BEGIN
+  IF v_actor IS NOT NULL THEN
+    SELECT name INTO v_name FROM public.profiles WHERE id = v_actor;
+    IF v_actor = p_patient_id THEN
+      v_role := 'patient';
+    ELSIF EXISTS (
+      SELECT 1 FROM public.patient_companions pc
+      WHERE pc.patient_id = p_patient_id
+      AND pc.companion_id = v_actor
+      AND pc.status = 'accepted'
+    ) THEN
+      v_role := 'companion';
+    END IF;
+  END IF;
+
+  INSERT INTO public.medication_audit_log (
+    patient_id, medication_id, medication_name, actor_id, actor_name, actor_role,
+    action, changes, scheduled_date, scheduled_time
+  )
+  VALUES (
+    p_patient_id, p_medication_id, p_medication_name, v_actor, v_name, v_role,
+    p_action, COALESCE(p_changes, '{}'::jsonb), p_scheduled_date, p_scheduled_time
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Medication rows: creates, edits, deactivations and deletes
+-- Taken flags, inventory counts and timestamps change on every dose, and the
+-- photo is too large to copy, so they are left out of the diff
+CREATE OR REPLACE FUNCTION public.audit_medication_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ignored TEXT[] := ARRAY['id', 'user_id', 'taken', 'taken_at', 'pills_on_hand', 'image_url', 'created_at', 'updated_at'];
+  v_old JSONB;
+  v_new JSONB;
+  v_changes JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_action TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Nothing to record when the whole account is being deleted
+    IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+      RETURN OLD;
+    END IF;
+    PERFORM public.write_medication_audit(OLD.user_id, NULL, OLD.name, 'delete', '{}'::jsonb);
+    RETURN OLD;
+  END IF;
+
+  v_new := to_jsonb(NEW);
+  v_old := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+
+  FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+    CONTINUE WHEN v_key = ANY(v_ignored);
+    CONTINUE WHEN TG_OP = 'INSERT' AND v_new -> v_key = 'null'::jsonb;
+    IF (v_old -> v_key) IS DISTINCT FROM (v_new -> v_key) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_key,
+        jsonb_build_object('before', COALESCE(v_old -> v_key, 'null'::jsonb), 'after', v_new -> v_key)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'create';
+  ELSIF v_changes = '{}'::jsonb THEN
+    RETURN NEW; -- Only ignored fields changed (e.g. a dose was taken)
+  ELSIF COALESCE(OLD.is_active, TRUE) AND NEW.is_active = FALSE THEN
+    v_action := 'deactivate';
+  ELSIF OLD.is_active = FALSE AND COALESCE(NEW.is_active, TRUE) THEN
+    v_action := 'reactivate';
+  ELSE
+    v_action := 'update';
+  END IF;
+
+  PERFORM public.write_medication_audit(NEW.user_id, NEW.id, NEW.name, v_action, v_changes);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Dose status changes, from the dose history every toggle and skip writes to
+-- Doses recorded as missed by the daily reset are not someone's action
+CREATE OR REPLACE FUNCTION public.audit_dose_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END;
+  v_name TEXT;
+BEGIN
+  IF NEW.status = 'missed' OR v_before IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+  -- A new pending row is a no-op toggle, not an untake
+  IF TG_OP = 'INSERT' AND NEW.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_name FROM public.medications WHERE id = NEW.medication_id;
+
+  PERFORM public.write_medication_audit(
+    NEW.user_id,
+    NEW.medication_id,
+    COALESCE(v_name, 'Medication'),
+    CASE NEW.status
+      WHEN 'taken' THEN 'dose_taken'
+      WHEN 'skipped' THEN 'dose_skipped'
+      ELSE 'dose_untaken'
+    END,
+    jsonb_build_object('status', jsonb_build_object('before', v_before, 'after', NEW.status))
+      || CASE WHEN NEW.skip_reason IS NOT NULL
+           THEN jsonb_build_object('skip_reason', jsonb_build_object('before', NULL, 'after', NEW.skip_reason))
+           ELSE '{}'::jsonb
+         END,
+    NEW.scheduled_date,
+    NEW.scheduled_time,
+    NEW.actor_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Dose times, which live in schedule_doses. An edit replaces a medication's
+-- doses (delete, then insert), so this runs once per statement and records
+-- each medication's full list of times before and after it
+CREATE OR REPLACE FUNCTION public.audit_schedule_dose_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_med RECORD;
+  v_medication_ids UUID[];
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    SELECT array_agg(DISTINCT medication_id) INTO v_medication_ids FROM old_doses;
+  ELSE
+    SELECT array_agg(DISTINCT medication_id) INTO v_medication_ids FROM new_doses;
+  END IF;
+
+  -- Doses removed along with their medication are covered by its 'delete' entry
+  FOR v_med IN
+    SELECT id, user_id, name FROM public.medications WHERE id = ANY(v_medication_ids)
+  LOOP
+    SELECT COALESCE(jsonb_agg(sd.time ORDER BY sd.time), '[]'::jsonb) INTO v_after
+    FROM public.schedule_doses sd
+    WHERE sd.medication_id = v_med.id;
+
+    -- Before = what's there now, with this statement's rows put back
+    IF TG_OP = 'INSERT' THEN
+      SELECT COALESCE(jsonb_agg(sd.time ORDER BY sd.time), '[]'::jsonb) INTO v_before
+      FROM public.schedule_doses sd
+      WHERE sd.medication_id = v_med.id
+      AND sd.id NOT IN (SELECT id FROM new_doses);
+    ELSIF TG_OP = 'DELETE' THEN
+      SELECT COALESCE(jsonb_agg(t.time ORDER BY t.time), '[]'::jsonb) INTO v_before
+      FROM (
+        SELECT time FROM public.schedule_doses WHERE medication_id = v_med.id
+        UNION ALL
+        SELECT time FROM old_doses WHERE medication_id = v_med.id
+      ) t;
+    ELSE
+      SELECT COALESCE(jsonb_agg(t.time ORDER BY t.time), '[]'::jsonb) INTO v_before
+      FROM (
+        SELECT time FROM public.schedule_doses
+        WHERE medication_id = v_med.id AND id NOT IN (SELECT id FROM new_doses)
+        UNION ALL
+        SELECT time FROM old_doses WHERE medication_id = v_med.id
+      ) t;
+    END IF;
+
+    CONTINUE WHEN v_before = v_after; -- Only labels or order changed
+
+    PERFORM public.write_medication_audit(
+      v_med.user_id,
+      v_med.id,
+      v_med.name,
+      'update',
+      jsonb_build_object('dose_times', jsonb_build_object('before', v_before, 'after', v_after))
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- MEDICATION AUDIT TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS audit_medications_change ON public.medications;
+CREATE TRIGGER audit_medications_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.medications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_medication_change();
+
+DROP TRIGGER IF EXISTS audit_dose_history_status ON public.dose_history;
+CREATE TRIGGER audit_dose_history_status
+  AFTER INSERT OR UPDATE OF status ON public.dose_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_dose_status_change();
+
+-- Transition tables need one trigger per operation
+DROP TRIGGER IF EXISTS audit_schedule_doses_insert ON public.schedule_doses;
+CREATE TRIGGER audit_schedule_doses_insert
+  AFTER INSERT ON public.schedule_doses
+  REFERENCING NEW TABLE AS new_doses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_schedule_dose_change();
+
+DROP TRIGGER IF EXISTS audit_schedule_doses_update ON public.schedule_doses;
+CREATE TRIGGER audit_schedule_doses_update
+  AFTER UPDATE ON public.schedule_doses
+  REFERENCING OLD TABLE AS old_doses NEW TABLE AS new_doses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_schedule_dose_change();
+
+DROP TRIGGER IF EXISTS audit_schedule_doses_delete ON public.schedule_doses;
+CREATE TRIGGER audit_schedule_doses_delete
+  AFTER DELETE ON public.schedule_doses
+  REFERENCING OLD TABLE AS old_doses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.audit_schedule_dose_change();
+
+-- The audit helper is only for the triggers
+REVOKE EXECUTE ON FUNCTION public.write_medication_audit(UUID, UUID, TEXT, TEXT, JSONB, DATE, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- DOSE TRANSITION TRIGGER
+-- ============================================
+-- Fires on every write to a dose instance (app, offline sync, push actions
+-- and the server's nightly close-out), so no path can skip the history.
+-- The signed-in user is the actor; actor_id is only trusted for server
+-- (service role) writes, which have no user, so clients can't name someone else
+
+CREATE OR REPLACE FUNCTION public.record_dose_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END;
+BEGIN
+  IF v_before IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.dose_transitions (
+    dose_history_id, user_id, medication_id, scheduled_date, scheduled_time,
+    from_status, to_status, taken_at, skip_reason, actor_id
+  )
+  VALUES (
+    NEW.id, NEW.user_id, NEW.medication_id, NEW.scheduled_date, NEW.scheduled_time,
+    v_before, NEW.status, NEW.taken_at, NEW.skip_reason, COALESCE(auth.uid(), NEW.actor_id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_dose_history_transition ON public.dose_history;
+CREATE TRIGGER record_dose_history_transition
+  AFTER INSERT OR UPDATE OF status ON public.dose_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_dose_transition();
+
+-- ============================================
+-- PILL INVENTORY FUNCTIONS
+-- ============================================
+
+-- Change pills on hand in one UPDATE so concurrent writers can't lose counts
+-- Untracked medications are left alone unless p_start_tracking (a refill)
+CREATE OR REPLACE FUNCTION public.adjust_pills_on_hand(
+  p_medication_id UUID,
+  p_delta NUMERIC,
+  p_start_tracking BOOLEAN DEFAULT FALSE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_pills NUMERIC;
+BEGIN
+  -- Signed-in callers must own the medication or be an accepted companion;
+  -- the server (service role) has no user
+  IF v_actor IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.medications m
+    WHERE m.id = p_medication_id
+    AND (
+      m.user_id = v_actor
+      OR EXISTS (
+        SELECT 1 FROM public.patient_companions pc
+        WHERE pc.patient_id = m.user_id
+        AND pc.companion_id = v_actor
+        AND pc.status = 'accepted'
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this medication''s inventory';
+  END IF;
+
+  UPDATE public.medications
+  SET pills_on_hand = GREATEST(0, COALESCE(pills_on_hand, 0) + p_delta),
+      updated_at = NOW()
+  WHERE id = p_medication_id
+  AND (pills_on_hand IS NOT NULL OR p_start_tracking)
+  RETURNING pills_on_hand INTO v_pills;
+
+  RETURN v_pills;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_pills_on_hand(UUID, NUMERIC, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.adjust_pills_on_hand(UUID, NUMERIC, BOOLEAN) TO authenticated, service_role;
+
 -- ============================================
 -- HELPER FUNCTIONS
 -- ============================================
@@ -693,7 +1405,20 @@ CREATE TABLE IF NOT EXISTS public.notification_history (
   patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   companion_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   medication_id UUID REFERENCES public.medications(id) ON DELETE SET NULL,
-  type TEXT NOT NULL CHECK (type IN ('missed_medication', 'low_adherence', 'daily_summary', 'link_request')),
+  type TEXT NOT NULL CONSTRAINT notification_history_type_check CHECK (type IN (
+    'missed_medication',              -- Legacy/generic missed medication
+    'missed_medication_push_first',   -- First push notification (30 sec)
+    'missed_medication_push_second',  -- Second push notification (1 min)
+    'missed_medication_telegram',     -- Telegram notification (1.5 min)
+    'missed_medication_email',        -- Email notification (3 min)
+    'missed_medication_acknowledged', -- Companion acknowledged the alert; no further escalation
+    'medication_reminder',            -- Upcoming dose reminder to patient
+    'dose_alarm',                     -- Dose due now, pushed to the patient's devices
+    'low_stock',                      -- Pill supply running low
+    'low_adherence',                  -- Low adherence warning
+    'daily_summary',                  -- Daily adherence summary
+    'link_request'                    -- Patient-companion link request
+  )),
   channel TEXT NOT NULL CHECK (channel IN ('email', 'telegram', 'discord', 'push')),
   recipient_email TEXT,
   message TEXT NOT NULL,